@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "public"."Shift" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "gracePeriodMinutes" INTEGER NOT NULL DEFAULT 0,
+    "daysOfWeek" INTEGER[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ShiftAssignment" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "departmentId" TEXT,
+    "branchId" TEXT,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShiftAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shift_organizationId_idx" ON "public"."Shift"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shift_organizationId_name_key" ON "public"."Shift"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_organizationId_employeeId_idx" ON "public"."ShiftAssignment"("organizationId", "employeeId");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_organizationId_departmentId_idx" ON "public"."ShiftAssignment"("organizationId", "departmentId");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_organizationId_branchId_idx" ON "public"."ShiftAssignment"("organizationId", "branchId");
+
+-- CreateIndex
+CREATE INDEX "ShiftAssignment_shiftId_idx" ON "public"."ShiftAssignment"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Shift" ADD CONSTRAINT "Shift_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "public"."Shift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "public"."Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ShiftAssignment" ADD CONSTRAINT "ShiftAssignment_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "public"."Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
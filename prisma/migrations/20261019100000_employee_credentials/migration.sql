@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."CredentialType" AS ENUM ('CARD', 'PIN', 'FINGERPRINT', 'FACE');
+
+-- CreateTable
+CREATE TABLE "public"."EmployeeCredential" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "type" "public"."CredentialType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "revokedByUserId" TEXT,
+    "revokeReason" TEXT,
+    "replacedById" TEXT,
+    "issuedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmployeeCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmployeeCredential_employeeId_idx" ON "public"."EmployeeCredential"("employeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmployeeCredential_organizationId_type_value_key" ON "public"."EmployeeCredential"("organizationId", "type", "value");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmployeeCredential" ADD CONSTRAINT "EmployeeCredential_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EmployeeCredential" ADD CONSTRAINT "EmployeeCredential_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
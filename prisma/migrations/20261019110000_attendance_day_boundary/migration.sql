@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "attendanceDayBoundary" TEXT NOT NULL DEFAULT '00:00';
+
+-- AlterTable
+ALTER TABLE "public"."Shift" ADD COLUMN     "dayBoundary" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Branch" ADD COLUMN     "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "dailyOvertimeThresholdMinutes" INTEGER NOT NULL DEFAULT 480,
+ADD COLUMN     "nightEndTime" TEXT NOT NULL DEFAULT '06:00',
+ADD COLUMN     "nightStartTime" TEXT NOT NULL DEFAULT '22:00',
+ADD COLUMN     "weekStartDay" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "weeklyOvertimeThresholdMinutes" INTEGER NOT NULL DEFAULT 2400;
+
+-- CreateTable
+CREATE TABLE "public"."DailyTimesheet" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "shiftId" TEXT,
+    "date" DATE NOT NULL,
+    "firstCheckIn" TIMESTAMP(3),
+    "lastCheckOut" TIMESTAMP(3),
+    "status" TEXT NOT NULL,
+    "shiftStatus" TEXT,
+    "lateMinutes" INTEGER NOT NULL DEFAULT 0,
+    "earlyLeaveMinutes" INTEGER NOT NULL DEFAULT 0,
+    "workedMinutes" INTEGER NOT NULL DEFAULT 0,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "netMinutes" INTEGER NOT NULL DEFAULT 0,
+    "regularMinutes" INTEGER NOT NULL DEFAULT 0,
+    "overtimeMinutes" INTEGER NOT NULL DEFAULT 0,
+    "weeklyOvertimeMinutes" INTEGER NOT NULL DEFAULT 0,
+    "nightMinutes" INTEGER NOT NULL DEFAULT 0,
+    "calculatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DailyTimesheet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DailyTimesheet_organizationId_date_idx" ON "public"."DailyTimesheet"("organizationId", "date");
+
+-- CreateIndex
+CREATE INDEX "DailyTimesheet_branchId_date_idx" ON "public"."DailyTimesheet"("branchId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DailyTimesheet_employeeId_date_key" ON "public"."DailyTimesheet"("employeeId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."DailyTimesheet" ADD CONSTRAINT "DailyTimesheet_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DailyTimesheet" ADD CONSTRAINT "DailyTimesheet_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DailyTimesheet" ADD CONSTRAINT "DailyTimesheet_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "public"."Shift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
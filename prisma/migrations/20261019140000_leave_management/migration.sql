@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "public"."LeaveAccrualType" AS ENUM ('NONE', 'YEARLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "public"."LeaveRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."DailyTimesheet" ADD COLUMN     "leaveTypeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."LeaveType" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isPaid" BOOLEAN NOT NULL DEFAULT true,
+    "accrualType" "public"."LeaveAccrualType" NOT NULL DEFAULT 'YEARLY',
+    "annualDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxCarryOverDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LeaveBalance" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "leaveTypeId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "carriedOverDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "adjustmentDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "usedDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LeaveRequest" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "leaveTypeId" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "days" INTEGER NOT NULL,
+    "reason" TEXT,
+    "status" "public"."LeaveRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedByUserId" TEXT NOT NULL,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveType_organizationId_idx" ON "public"."LeaveType"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveType_organizationId_name_key" ON "public"."LeaveType"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "LeaveBalance_organizationId_idx" ON "public"."LeaveBalance"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveBalance_employeeId_leaveTypeId_year_key" ON "public"."LeaveBalance"("employeeId", "leaveTypeId", "year");
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_organizationId_status_idx" ON "public"."LeaveRequest"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_employeeId_startDate_idx" ON "public"."LeaveRequest"("employeeId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "LeaveRequest_branchId_startDate_idx" ON "public"."LeaveRequest"("branchId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."DailyTimesheet" ADD CONSTRAINT "DailyTimesheet_leaveTypeId_fkey" FOREIGN KEY ("leaveTypeId") REFERENCES "public"."LeaveType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveType" ADD CONSTRAINT "LeaveType_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveBalance" ADD CONSTRAINT "LeaveBalance_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveBalance" ADD CONSTRAINT "LeaveBalance_leaveTypeId_fkey" FOREIGN KEY ("leaveTypeId") REFERENCES "public"."LeaveType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveRequest" ADD CONSTRAINT "LeaveRequest_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveRequest" ADD CONSTRAINT "LeaveRequest_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LeaveRequest" ADD CONSTRAINT "LeaveRequest_leaveTypeId_fkey" FOREIGN KEY ("leaveTypeId") REFERENCES "public"."LeaveType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
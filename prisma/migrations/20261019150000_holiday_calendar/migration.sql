@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."Holiday" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "name" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "isRecurring" BOOLEAN NOT NULL DEFAULT false,
+    "isDayOff" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Holiday_organizationId_date_idx" ON "public"."Holiday"("organizationId", "date");
+
+-- CreateIndex
+CREATE INDEX "Holiday_branchId_idx" ON "public"."Holiday"("branchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Holiday" ADD CONSTRAINT "Holiday_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Holiday" ADD CONSTRAINT "Holiday_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "public"."Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."AttendanceCorrectionType" AS ENUM ('MISSING_CHECK_IN', 'MISSING_CHECK_OUT', 'WRONG_TIME', 'FORGOTTEN_BADGE');
+
+-- CreateEnum
+CREATE TYPE "public"."AttendanceCorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."AttendanceCorrection" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "attendanceId" TEXT,
+    "type" "public"."AttendanceCorrectionType" NOT NULL,
+    "checkInAt" TIMESTAMP(3),
+    "checkOutAt" TIMESTAMP(3),
+    "reason" TEXT NOT NULL,
+    "status" "public"."AttendanceCorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "originalTimestamp" TIMESTAMP(3),
+    "createdAttendanceIds" TEXT[],
+    "requestedByUserId" TEXT NOT NULL,
+    "reviewedByUserId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttendanceCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_organizationId_status_idx" ON "public"."AttendanceCorrection"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_employeeId_createdAt_idx" ON "public"."AttendanceCorrection"("employeeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AttendanceCorrection_branchId_status_idx" ON "public"."AttendanceCorrection"("branchId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."AttendanceCorrection" ADD CONSTRAINT "AttendanceCorrection_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AttendanceCorrection" ADD CONSTRAINT "AttendanceCorrection_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AttendanceCorrection" ADD CONSTRAINT "AttendanceCorrection_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "public"."Attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
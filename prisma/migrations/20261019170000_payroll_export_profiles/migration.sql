@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."PayrollExportLayout" AS ENUM ('EMPLOYEE_ROWS', 'PAY_CODE_ROWS');
+
+-- CreateEnum
+CREATE TYPE "public"."PayrollHoursFormat" AS ENUM ('DECIMAL', 'MINUTES', 'HH_MM');
+
+-- AlterEnum
+ALTER TYPE "public"."ReportType" ADD VALUE 'PAYROLL_EXPORT';
+
+-- CreateTable
+CREATE TABLE "public"."PayrollExportProfile" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "columns" JSONB NOT NULL,
+    "layout" "public"."PayrollExportLayout" NOT NULL DEFAULT 'EMPLOYEE_ROWS',
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "includeHeader" BOOLEAN NOT NULL DEFAULT true,
+    "hoursFormat" "public"."PayrollHoursFormat" NOT NULL DEFAULT 'DECIMAL',
+    "decimalSeparator" TEXT NOT NULL DEFAULT '.',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollExportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollExportProfile_organizationId_idx" ON "public"."PayrollExportProfile"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollExportProfile_organizationId_name_key" ON "public"."PayrollExportProfile"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."PayrollExportProfile" ADD CONSTRAINT "PayrollExportProfile_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."PayPeriodStatus" AS ENUM ('OPEN', 'LOCKED', 'REOPENED');
+
+-- CreateTable
+CREATE TABLE "public"."PayPeriod" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "status" "public"."PayPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "lockedByUserId" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "reopenedByUserId" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayPeriod_organizationId_startDate_idx" ON "public"."PayPeriod"("organizationId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "PayPeriod_organizationId_status_idx" ON "public"."PayPeriod"("organizationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."PayPeriod" ADD CONSTRAINT "PayPeriod_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Device" ADD COLUMN     "previousSecretExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "previousSecretHash" TEXT,
+ADD COLUMN     "secretHash" TEXT,
+ADD COLUMN     "secretIssuedAt" TIMESTAMP(3);
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."DeviceEnrollmentTokenStatus" AS ENUM ('ACTIVE', 'USED', 'EXPIRED', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "public"."Device" ADD COLUMN     "firmwareVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DeviceEnrollmentToken" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "deviceType" "public"."DeviceType",
+    "status" "public"."DeviceEnrollmentTokenStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "usedByDeviceId" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceEnrollmentToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceEnrollmentToken_tokenHash_key" ON "public"."DeviceEnrollmentToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "DeviceEnrollmentToken_organizationId_status_expiresAt_idx" ON "public"."DeviceEnrollmentToken"("organizationId", "status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceEnrollmentToken_branchId_idx" ON "public"."DeviceEnrollmentToken"("branchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceEnrollmentToken" ADD CONSTRAINT "DeviceEnrollmentToken_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceEnrollmentToken" ADD CONSTRAINT "DeviceEnrollmentToken_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "public"."Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
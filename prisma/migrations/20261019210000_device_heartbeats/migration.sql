@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."Device" ADD COLUMN     "healthMetrics" JSONB,
+ADD COLUMN     "uptimeSeconds" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."DeviceStatusHistory" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "fromStatus" "public"."DeviceStatus" NOT NULL,
+    "toStatus" "public"."DeviceStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "lastSeenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeviceStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeviceStatusHistory_deviceId_createdAt_idx" ON "public"."DeviceStatusHistory"("deviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceStatusHistory_organizationId_createdAt_idx" ON "public"."DeviceStatusHistory"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceStatusHistory" ADD CONSTRAINT "DeviceStatusHistory_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."ZktecoCommandStatus" AS ENUM ('PENDING', 'SENT', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."ZktecoCommand" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "command" TEXT NOT NULL,
+    "status" "public"."ZktecoCommandStatus" NOT NULL DEFAULT 'PENDING',
+    "returnCode" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ZktecoCommand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ZktecoCommand_deviceId_status_createdAt_idx" ON "public"."ZktecoCommand"("deviceId", "status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ZktecoCommand" ADD CONSTRAINT "ZktecoCommand_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."MqttChannel" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "eventTopicPattern" TEXT NOT NULL,
+    "commandTopicPattern" TEXT,
+    "qos" INTEGER NOT NULL DEFAULT 1,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MqttChannel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MqttChannel_organizationId_name_key" ON "public"."MqttChannel"("organizationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."MqttChannel" ADD CONSTRAINT "MqttChannel_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "public"."DeviceEventOutcome" AS ENUM ('MATCHED', 'DENIED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."DeviceEventLog" ADD COLUMN     "employeeId" TEXT,
+ADD COLUMN     "outcome" "public"."DeviceEventOutcome",
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "processingError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DeviceEventLog_organizationId_timestamp_idx" ON "public"."DeviceEventLog"("organizationId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceEventLog" ADD CONSTRAINT "DeviceEventLog_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
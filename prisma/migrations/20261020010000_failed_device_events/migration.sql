@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "public"."DeviceEventFailureClass" AS ENUM ('UNKNOWN_DEVICE', 'UNMATCHED_CREDENTIAL', 'VALIDATION', 'TRANSIENT');
+
+-- CreateEnum
+CREATE TYPE "public"."FailedDeviceEventStatus" AS ENUM ('OPEN', 'RETRIED', 'RESOLVED', 'DISCARDED');
+
+-- CreateTable
+CREATE TABLE "public"."FailedDeviceEvent" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "eventLogId" TEXT,
+    "failureClass" "public"."DeviceEventFailureClass" NOT NULL,
+    "status" "public"."FailedDeviceEventStatus" NOT NULL DEFAULT 'OPEN',
+    "error" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "jobId" TEXT,
+    "payload" JSONB NOT NULL,
+    "failureCount" INTEGER NOT NULL DEFAULT 1,
+    "resolvedEmployeeId" TEXT,
+    "resolvedByUserId" TEXT,
+    "note" TEXT,
+    "firstFailedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastFailedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FailedDeviceEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FailedDeviceEvent_eventLogId_key" ON "public"."FailedDeviceEvent"("eventLogId");
+
+-- CreateIndex
+CREATE INDEX "FailedDeviceEvent_organizationId_status_failureClass_idx" ON "public"."FailedDeviceEvent"("organizationId", "status", "failureClass");
+
+-- CreateIndex
+CREATE INDEX "FailedDeviceEvent_organizationId_lastFailedAt_idx" ON "public"."FailedDeviceEvent"("organizationId", "lastFailedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."FailedDeviceEvent" ADD CONSTRAINT "FailedDeviceEvent_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FailedDeviceEvent" ADD CONSTRAINT "FailedDeviceEvent_eventLogId_fkey" FOREIGN KEY ("eventLogId") REFERENCES "public"."DeviceEventLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."DeviceCommandStatus" AS ENUM ('QUEUED', 'DELIVERED', 'SUCCEEDED', 'FAILED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."ZktecoCommand" ADD COLUMN     "deviceCommandId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DeviceCommandRequest" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "command" TEXT NOT NULL,
+    "parameters" JSONB,
+    "status" "public"."DeviceCommandStatus" NOT NULL DEFAULT 'QUEUED',
+    "timeoutSeconds" INTEGER NOT NULL,
+    "maxAttempts" INTEGER NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "result" JSONB,
+    "error" TEXT,
+    "batchId" TEXT,
+    "requestedByUserId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "deliveredAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceCommandRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeviceCommandRequest_deviceId_createdAt_idx" ON "public"."DeviceCommandRequest"("deviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceCommandRequest_organizationId_createdAt_idx" ON "public"."DeviceCommandRequest"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceCommandRequest_batchId_idx" ON "public"."DeviceCommandRequest"("batchId");
+
+-- CreateIndex
+CREATE INDEX "DeviceCommandRequest_status_expiresAt_idx" ON "public"."DeviceCommandRequest"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ZktecoCommand_deviceCommandId_idx" ON "public"."ZktecoCommand"("deviceCommandId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ZktecoCommand" ADD CONSTRAINT "ZktecoCommand_deviceCommandId_fkey" FOREIGN KEY ("deviceCommandId") REFERENCES "public"."DeviceCommandRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceCommandRequest" ADD CONSTRAINT "DeviceCommandRequest_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,111 @@
+-- CreateEnum
+CREATE TYPE "public"."FirmwareImageStatus" AS ENUM ('PENDING_UPLOAD', 'AVAILABLE');
+
+-- CreateEnum
+CREATE TYPE "public"."FirmwareCampaignStatus" AS ENUM ('DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "public"."FirmwareCampaignDeviceStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "public"."FirmwareImage" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "deviceModel" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "sizeBytes" INTEGER,
+    "checksum" TEXT,
+    "releaseNotes" TEXT,
+    "status" "public"."FirmwareImageStatus" NOT NULL DEFAULT 'PENDING_UPLOAD',
+    "uploadedByUserId" TEXT,
+    "uploadedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirmwareImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."FirmwareCampaign" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "firmwareImageId" TEXT NOT NULL,
+    "status" "public"."FirmwareCampaignStatus" NOT NULL DEFAULT 'DRAFT',
+    "branchIds" TEXT[],
+    "waveSize" INTEGER NOT NULL,
+    "totalWaves" INTEGER NOT NULL,
+    "currentWave" INTEGER NOT NULL DEFAULT 0,
+    "failureThresholdPercent" INTEGER NOT NULL,
+    "verifyTimeoutMinutes" INTEGER NOT NULL,
+    "pausedReason" TEXT,
+    "createdByUserId" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "resumedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirmwareCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."FirmwareCampaignDevice" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "wave" INTEGER NOT NULL,
+    "status" "public"."FirmwareCampaignDeviceStatus" NOT NULL DEFAULT 'PENDING',
+    "previousVersion" TEXT,
+    "error" TEXT,
+    "deviceCommandId" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirmwareCampaignDevice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmwareImage_storageKey_key" ON "public"."FirmwareImage"("storageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmwareImage_organizationId_deviceModel_version_key" ON "public"."FirmwareImage"("organizationId", "deviceModel", "version");
+
+-- CreateIndex
+CREATE INDEX "FirmwareCampaign_organizationId_createdAt_idx" ON "public"."FirmwareCampaign"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FirmwareCampaign_status_idx" ON "public"."FirmwareCampaign"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmwareCampaignDevice_campaignId_deviceId_key" ON "public"."FirmwareCampaignDevice"("campaignId", "deviceId");
+
+-- CreateIndex
+CREATE INDEX "FirmwareCampaignDevice_campaignId_wave_status_idx" ON "public"."FirmwareCampaignDevice"("campaignId", "wave", "status");
+
+-- CreateIndex
+CREATE INDEX "FirmwareCampaignDevice_deviceId_idx" ON "public"."FirmwareCampaignDevice"("deviceId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareImage" ADD CONSTRAINT "FirmwareImage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareCampaign" ADD CONSTRAINT "FirmwareCampaign_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareCampaign" ADD CONSTRAINT "FirmwareCampaign_firmwareImageId_fkey" FOREIGN KEY ("firmwareImageId") REFERENCES "public"."FirmwareImage"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareCampaignDevice" ADD CONSTRAINT "FirmwareCampaignDevice_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "public"."FirmwareCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareCampaignDevice" ADD CONSTRAINT "FirmwareCampaignDevice_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FirmwareCampaignDevice" ADD CONSTRAINT "FirmwareCampaignDevice_deviceCommandId_fkey" FOREIGN KEY ("deviceCommandId") REFERENCES "public"."DeviceCommandRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
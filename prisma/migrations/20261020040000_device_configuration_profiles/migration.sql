@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."Device" ADD COLUMN     "appliedConfigurationVersion" INTEGER,
+ADD COLUMN     "configurationAppliedAt" TIMESTAMP(3),
+ADD COLUMN     "configurationProfileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DeviceConfigurationProfile" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceConfigurationProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DeviceConfigurationProfileVersion" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "settings" JSONB NOT NULL,
+    "schedules" JSONB NOT NULL,
+    "accessRules" JSONB NOT NULL,
+    "changeNote" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeviceConfigurationProfileVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Device_configurationProfileId_idx" ON "public"."Device"("configurationProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceConfigurationProfile_organizationId_name_key" ON "public"."DeviceConfigurationProfile"("organizationId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceConfigurationProfileVersion_profileId_version_key" ON "public"."DeviceConfigurationProfileVersion"("profileId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."Device" ADD CONSTRAINT "Device_configurationProfileId_fkey" FOREIGN KEY ("configurationProfileId") REFERENCES "public"."DeviceConfigurationProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceConfigurationProfile" ADD CONSTRAINT "DeviceConfigurationProfile_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeviceConfigurationProfileVersion" ADD CONSTRAINT "DeviceConfigurationProfileVersion_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."DeviceConfigurationProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,135 @@
+-- CreateEnum
+CREATE TYPE "public"."AccessDenialReason" AS ENUM ('UNKNOWN_CREDENTIAL', 'EMPLOYEE_INACTIVE', 'GUEST_VISIT_NOT_ACTIVE', 'NO_ACCESS_LEVEL', 'ZONE_NOT_PERMITTED', 'OUTSIDE_SCHEDULE');
+
+-- AlterTable
+ALTER TABLE "public"."DeviceEventLog" ADD COLUMN     "denialReason" "public"."AccessDenialReason";
+
+-- CreateTable
+CREATE TABLE "public"."AccessZone" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccessZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Door" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "deviceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Door_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AccessLevel" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "schedules" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccessLevel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AccessLevelZone" (
+    "accessLevelId" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+
+    CONSTRAINT "AccessLevelZone_pkey" PRIMARY KEY ("accessLevelId","zoneId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."AccessLevelAssignment" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "accessLevelId" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "departmentId" TEXT,
+    "guestVisitId" TEXT,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccessLevelAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccessZone_organizationId_idx" ON "public"."AccessZone"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccessZone_branchId_name_key" ON "public"."AccessZone"("branchId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Door_deviceId_key" ON "public"."Door"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "Door_organizationId_idx" ON "public"."Door"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Door_zoneId_name_key" ON "public"."Door"("zoneId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccessLevel_organizationId_name_key" ON "public"."AccessLevel"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "AccessLevelZone_zoneId_idx" ON "public"."AccessLevelZone"("zoneId");
+
+-- CreateIndex
+CREATE INDEX "AccessLevelAssignment_organizationId_employeeId_idx" ON "public"."AccessLevelAssignment"("organizationId", "employeeId");
+
+-- CreateIndex
+CREATE INDEX "AccessLevelAssignment_organizationId_departmentId_idx" ON "public"."AccessLevelAssignment"("organizationId", "departmentId");
+
+-- CreateIndex
+CREATE INDEX "AccessLevelAssignment_guestVisitId_idx" ON "public"."AccessLevelAssignment"("guestVisitId");
+
+-- CreateIndex
+CREATE INDEX "AccessLevelAssignment_accessLevelId_idx" ON "public"."AccessLevelAssignment"("accessLevelId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessZone" ADD CONSTRAINT "AccessZone_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessZone" ADD CONSTRAINT "AccessZone_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "public"."Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Door" ADD CONSTRAINT "Door_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "public"."AccessZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Door" ADD CONSTRAINT "Door_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."Device"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevel" ADD CONSTRAINT "AccessLevel_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelZone" ADD CONSTRAINT "AccessLevelZone_accessLevelId_fkey" FOREIGN KEY ("accessLevelId") REFERENCES "public"."AccessLevel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelZone" ADD CONSTRAINT "AccessLevelZone_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "public"."AccessZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelAssignment" ADD CONSTRAINT "AccessLevelAssignment_accessLevelId_fkey" FOREIGN KEY ("accessLevelId") REFERENCES "public"."AccessLevel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelAssignment" ADD CONSTRAINT "AccessLevelAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "public"."Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelAssignment" ADD CONSTRAINT "AccessLevelAssignment_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "public"."Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AccessLevelAssignment" ADD CONSTRAINT "AccessLevelAssignment_guestVisitId_fkey" FOREIGN KEY ("guestVisitId") REFERENCES "public"."GuestVisit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
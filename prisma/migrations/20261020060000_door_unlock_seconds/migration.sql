@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Door" ADD COLUMN     "unlockSeconds" INTEGER NOT NULL DEFAULT 5;
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "public"."EmployeeCredential_organizationId_type_value_key";
+
+-- CreateIndex
+CREATE INDEX "EmployeeCredential_organizationId_type_value_idx" ON "public"."EmployeeCredential"("organizationId", "type", "value");
+
+-- Only credentials that are not revoked hold their value, so it can be issued again
+CREATE UNIQUE INDEX "EmployeeCredential_active_value_key" ON "public"."EmployeeCredential"("organizationId", "type", "value") WHERE "revokedAt" IS NULL;
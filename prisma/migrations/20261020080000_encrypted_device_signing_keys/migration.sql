@@ -0,0 +1,4 @@
+-- The stored keys are encrypted with DEVICE_SECRET_ENCRYPTION_KEY; keys stored in plain text
+-- before are encrypted by the application when it starts
+ALTER TABLE "public"."Device" RENAME COLUMN "secretHash" TO "encryptedSigningKey";
+ALTER TABLE "public"."Device" RENAME COLUMN "previousSecretHash" TO "previousEncryptedSigningKey";
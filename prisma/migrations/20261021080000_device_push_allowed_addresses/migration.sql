@@ -0,0 +1,3 @@
+-- Push protocol devices are only accepted from these addresses; until some are entered for a
+-- device its requests are refused
+ALTER TABLE "public"."Device" ADD COLUMN "pushAllowedAddresses" TEXT[] DEFAULT ARRAY[]::TEXT[];
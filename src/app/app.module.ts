@@ -17,9 +17,19 @@ import { EmployeeModule } from '@/modules/employee/employee.module';
 import { QueueModule } from '@/core/queue/queue.module';
 import { AdapterModule } from '@/shared/adapters/adapter.module';
 import { DeviceModule } from '@/modules/device/device.module';
+import { DeviceCommandModule } from '@/modules/device-command/device-command.module';
+import { FirmwareModule } from '@/modules/firmware/firmware.module';
+import { DeviceConfigurationModule } from '@/modules/device-configuration/device-configuration.module';
+import { AccessControlModule } from '@/modules/access-control/access-control.module';
 import { EventModule } from '@/modules/events/event.module';
 import { AttendanceModule } from '@/modules/attendance/attendance.module';
 import { GuestModule } from '@/modules/guest/guest.module';
+import { ShiftModule } from '@/modules/shift/shift.module';
+import { LeaveModule } from '@/modules/leave/leave.module';
+import { HolidayModule } from '@/modules/holiday/holiday.module';
+import { PayPeriodModule } from '@/modules/pay-period/pay-period.module';
+import { ZktecoModule } from '@/modules/zkteco/zkteco.module';
+import { MqttChannelModule } from '@/modules/mqtt/mqtt-channel.module';
 
 import { LoggingInterceptor } from '@/shared/interceptors';
 import { GlobalExceptionFilter } from '@/shared/filters';
@@ -47,9 +57,19 @@ import { CorrelationIdMiddleware } from '@/shared/middleware';
         QueueModule,
         AdapterModule,
         DeviceModule,
+        DeviceCommandModule,
+        FirmwareModule,
+        DeviceConfigurationModule,
+        AccessControlModule,
         EventModule,
         AttendanceModule,
         GuestModule,
+        ShiftModule,
+        LeaveModule,
+        HolidayModule,
+        PayPeriodModule,
+        ZktecoModule,
+        MqttChannelModule,
         // AuditModule,
         // ReportingModule,
         // ReportProcessorModule,
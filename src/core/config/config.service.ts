@@ -59,6 +59,22 @@ export class ConfigService {
         return secret;
     }
 
+    /**
+     * Key the digests of employee PINs are computed with, so a copy of the database alone is
+     * not enough to recover them. Changing it invalidates every stored PIN.
+     */
+    get credentialPepper(): string {
+        return this.requireSecret('CREDENTIAL_PEPPER');
+    }
+
+    /**
+     * Key the signing keys of devices are encrypted with at rest. Changing it makes every
+     * device need a new secret.
+     */
+    get deviceSecretEncryptionKey(): string {
+        return this.requireSecret('DEVICE_SECRET_ENCRYPTION_KEY');
+    }
+
     get refreshTokenExpirationTime(): string {
         return this.configService.get<string>('REFRESH_TOKEN_EXPIRATION_TIME', '7d');
     }
@@ -79,6 +95,67 @@ export class ConfigService {
         return this.configService.get<string>('S3_BUCKET_NAME');
     }
 
+    get hikvisionUsername(): string {
+        return this.configService.get<string>('HIKVISION_USERNAME', 'admin');
+    }
+
+    get hikvisionPassword(): string {
+        return this.configService.get<string>('HIKVISION_PASSWORD', '');
+    }
+
+    get hikvisionUseHttps(): boolean {
+        return this.configService.get<string>('HIKVISION_USE_HTTPS', 'false') === 'true';
+    }
+
+    /**
+     * Hikvision devices ship with self-signed certificates
+     */
+    get hikvisionAllowSelfSignedCertificates(): boolean {
+        return this.configService.get<string>('HIKVISION_ALLOW_SELF_SIGNED', 'false') === 'true';
+    }
+
+    get hikvisionRequestTimeoutMs(): number {
+        return Number(this.configService.get<string>('HIKVISION_REQUEST_TIMEOUT_MS', '10000'));
+    }
+
+    /**
+     * Hosts probed by device discovery, as ISAPI has no network discovery of its own
+     */
+    get hikvisionDiscoveryHosts(): string[] {
+        return this.configService
+            .get<string>('HIKVISION_DISCOVERY_HOSTS', '')
+            .split(',')
+            .map(host => host.trim())
+            .filter(Boolean);
+    }
+
+    /**
+     * Broker devices publish their events to, e.g. mqtt://broker:1883 or mqtts://broker:8883.
+     * MQTT ingestion is off without it.
+     */
+    get mqttBrokerUrl(): string | undefined {
+        return this.configService.get<string>('MQTT_BROKER_URL') || undefined;
+    }
+
+    get mqttUsername(): string | undefined {
+        return this.configService.get<string>('MQTT_USERNAME') || undefined;
+    }
+
+    get mqttPassword(): string | undefined {
+        return this.configService.get<string>('MQTT_PASSWORD') || undefined;
+    }
+
+    /**
+     * Instances of the application must connect with different client IDs
+     */
+    get mqttClientId(): string {
+        return this.configService.get<string>('MQTT_CLIENT_ID', `sector-staff-${process.pid}`);
+    }
+
+    get mqttKeepAliveSeconds(): number {
+        return Number(this.configService.get<string>('MQTT_KEEP_ALIVE_SECONDS', '60'));
+    }
+
     get logLevel(): string {
         return this.configService.get<string>('LOG_LEVEL', 'info');
     }
@@ -104,7 +181,14 @@ export class ConfigService {
      * Call this method in app bootstrap to ensure all required vars are present
      */
     validateConfig(): void {
-        const requiredVars = ['DATABASE_URL', 'REDIS_URL', 'JWT_SECRET', 'REFRESH_TOKEN_SECRET'];
+        const requiredVars = [
+            'DATABASE_URL',
+            'REDIS_URL',
+            'JWT_SECRET',
+            'REFRESH_TOKEN_SECRET',
+            'CREDENTIAL_PEPPER',
+            'DEVICE_SECRET_ENCRYPTION_KEY',
+        ];
 
         const missing = requiredVars.filter(varName => {
             const value = this.configService.get<string>(varName);
@@ -118,12 +202,28 @@ export class ConfigService {
             );
         }
 
-        // Validate JWT secrets length
+        // Validate the length of the secrets
         try {
             this.jwtSecret; // This will throw if too short
             this.refreshTokenSecret; // This will throw if too short
+            this.requireSecret('CREDENTIAL_PEPPER');
+            this.requireSecret('DEVICE_SECRET_ENCRYPTION_KEY');
         } catch (error) {
             throw new Error(`Configuration validation failed: ${error.message}`);
         }
     }
+
+    /**
+     * Read a secret, throwing when it is missing or shorter than 32 characters
+     */
+    private requireSecret(varName: string): string {
+        const secret = this.configService.get<string>(varName);
+        if (!secret) {
+            throw new Error(`${varName} is required but not provided in environment variables`);
+        }
+        if (secret.length < 32) {
+            throw new Error(`${varName} must be at least 32 characters long for security`);
+        }
+        return secret;
+    }
 }
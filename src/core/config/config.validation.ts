@@ -31,6 +31,12 @@ export class EnvironmentVariables {
     @IsOptional()
     REFRESH_TOKEN_EXPIRATION_TIME: string = '7d';
 
+    @IsString()
+    CREDENTIAL_PEPPER: string;
+
+    @IsString()
+    DEVICE_SECRET_ENCRYPTION_KEY: string;
+
     @IsUrl({ require_tld: false })
     S3_ENDPOINT: string;
 
@@ -43,6 +49,30 @@ export class EnvironmentVariables {
     @IsString()
     S3_BUCKET_NAME: string;
 
+    @IsString()
+    @IsOptional()
+    HIKVISION_USERNAME: string = 'admin';
+
+    @IsString()
+    @IsOptional()
+    HIKVISION_PASSWORD: string;
+
+    @IsString()
+    @IsOptional()
+    HIKVISION_DISCOVERY_HOSTS: string;
+
+    @IsString()
+    @IsOptional()
+    MQTT_BROKER_URL: string;
+
+    @IsString()
+    @IsOptional()
+    MQTT_USERNAME: string;
+
+    @IsString()
+    @IsOptional()
+    MQTT_PASSWORD: string;
+
     @IsIn(['error', 'warn', 'info', 'debug', 'verbose'])
     @IsOptional()
     LOG_LEVEL: string = 'info';
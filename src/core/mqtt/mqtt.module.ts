@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MqttService } from './mqtt.service';
+import { ConfigModule } from '../config/config.module';
+import { LoggerModule } from '../logger/logger.module';
+
+@Module({
+    imports: [ConfigModule, LoggerModule],
+    providers: [MqttService],
+    exports: [MqttService],
+})
+export class MqttModule {}
@@ -0,0 +1,174 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ISubscriptionGrant, MqttClient, connect } from 'mqtt';
+import { ConfigService } from '../config/config.service';
+import { LoggerService } from '../logger/logger.service';
+import { MqttTopicUtil } from '@/shared/utils/mqtt-topic.util';
+
+/** The delivery guarantees in use: at most once and at least once */
+export type MqttQos = 0 | 1;
+
+export type MqttMessageHandler = (topic: string, payload: Buffer) => Promise<void> | void;
+
+const RECONNECT_DELAY_MS = 5000;
+const CONNECT_TIMEOUT_MS = 10000;
+/** Granted QoS of a subscription the broker refused */
+const SUBACK_FAILURE = 0x80;
+
+/**
+ * The application's connection to the MQTT broker. Subscriptions are kept across reconnects,
+ * so callers subscribe once and are called for every matching message.
+ */
+@Injectable()
+export class MqttService implements OnModuleInit, OnModuleDestroy {
+    private client: MqttClient | null = null;
+    private connected = false;
+    private readonly subscriptions = new Map<
+        string,
+        { qos: MqttQos; handler: MqttMessageHandler }
+    >();
+
+    constructor(
+        private readonly config: ConfigService,
+        private readonly logger: LoggerService
+    ) {}
+
+    get isEnabled(): boolean {
+        return !!this.config.mqttBrokerUrl;
+    }
+
+    get isConnected(): boolean {
+        return this.connected;
+    }
+
+    async onModuleInit(): Promise<void> {
+        if (this.isEnabled) {
+            // A broker that is down does not stop the application, connecting is retried later
+            await this.connect();
+        }
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        const client = this.client;
+        this.client = null;
+        this.connected = false;
+        await client?.endAsync();
+    }
+
+    /**
+     * Call the handler for every message matching the topic filter; one handler per filter
+     */
+    async subscribe(filter: string, qos: MqttQos, handler: MqttMessageHandler): Promise<void> {
+        this.subscriptions.set(filter, { qos, handler });
+
+        if (this.connected) {
+            this.assertGranted(await this.client.subscribeAsync({ [filter]: { qos } }));
+        }
+    }
+
+    async unsubscribe(filter: string): Promise<void> {
+        if (!this.subscriptions.delete(filter) || !this.connected) {
+            return;
+        }
+
+        await this.client.unsubscribeAsync(filter);
+    }
+
+    async publish(topic: string, payload: string | Buffer, qos: MqttQos = 1): Promise<void> {
+        if (!this.connected) {
+            throw new Error('Not connected to the MQTT broker');
+        }
+
+        await this.client.publishAsync(topic, payload, { qos });
+    }
+
+    /**
+     * Connect, resolving once the first attempt succeeded or failed. The client reconnects by
+     * itself; the subscriptions are restored on every connect.
+     */
+    private async connect(): Promise<void> {
+        const client = connect(this.config.mqttBrokerUrl, {
+            clientId: this.config.mqttClientId,
+            username: this.config.mqttUsername,
+            password: this.config.mqttPassword,
+            keepalive: this.config.mqttKeepAliveSeconds,
+            protocolVersion: 4,
+            clean: true,
+            reconnectPeriod: RECONNECT_DELAY_MS,
+            connectTimeout: CONNECT_TIMEOUT_MS,
+            // Restored from the subscriptions kept here, which unsubscribing keeps current
+            resubscribe: false,
+        });
+        this.client = client;
+
+        // Messages are handled one at a time and QoS 1 messages acknowledged once handled
+        client.handleMessage = (packet, callback) => {
+            void this.dispatch(packet.topic, packet.payload as Buffer).then(() => callback());
+        };
+        client.on('error', error => {
+            this.logger.error('Failed to connect to the MQTT broker', error, { module: 'mqtt' });
+        });
+        client.on('close', () => {
+            if (this.connected) {
+                this.connected = false;
+                this.logger.warn('Lost the connection to the MQTT broker', { module: 'mqtt' });
+            }
+        });
+
+        await new Promise<void>(resolve => {
+            client.on('connect', () => void this.restoreSubscriptions(client).then(resolve));
+            client.once('close', () => resolve());
+        });
+    }
+
+    private async restoreSubscriptions(client: MqttClient): Promise<void> {
+        if (this.client !== client) {
+            return;
+        }
+
+        this.connected = true;
+        const subscriptions = Object.fromEntries(
+            [...this.subscriptions].map(([topic, { qos }]) => [topic, { qos }])
+        );
+
+        try {
+            if (this.subscriptions.size) {
+                this.assertGranted(await client.subscribeAsync(subscriptions));
+            }
+
+            this.logger.log('Connected to the MQTT broker', {
+                subscriptions: this.subscriptions.size,
+                module: 'mqtt',
+            });
+        } catch (error) {
+            this.logger.error('Failed to restore the MQTT subscriptions', error, {
+                module: 'mqtt',
+            });
+        }
+    }
+
+    private assertGranted(granted: ISubscriptionGrant[]): void {
+        const refused = granted.filter(({ qos }) => qos === SUBACK_FAILURE);
+        if (refused.length) {
+            throw new Error(
+                `MQTT broker refused the subscription to ${refused.map(s => s.topic).join(', ')}`
+            );
+        }
+    }
+
+    private async dispatch(topic: string, payload: Buffer): Promise<void> {
+        for (const [filter, { handler }] of this.subscriptions) {
+            if (!MqttTopicUtil.matches(filter, topic)) {
+                continue;
+            }
+
+            try {
+                await handler(topic, payload);
+            } catch (error) {
+                this.logger.error('Failed to handle an MQTT message', error, {
+                    topic,
+                    module: 'mqtt',
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,190 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { Packet, generate, parser } from 'mqtt-packet';
+import { MqttQos } from '../mqtt.service';
+import { MqttTopicUtil } from '@/shared/utils/mqtt-topic.util';
+
+export interface MqttBrokerStandInOptions {
+    username?: string;
+    password?: string;
+}
+
+interface StandInConnection {
+    socket: net.Socket;
+    clientId?: string;
+    subscriptions: Map<string, MqttQos>;
+    nextPacketId: number;
+}
+
+/**
+ * Embedded MQTT 3.1.1 broker for tests and local development: QoS 0 and 1, no retained
+ * messages, no persistent sessions. Every message routed through it is recorded.
+ *
+ *   npx ts-node -r tsconfig-paths/register src/core/mqtt/testing/mqtt-broker.stand-in.ts [port]
+ */
+export class MqttBrokerStandIn {
+    readonly messages: Array<{ topic: string; payload: Buffer; clientId?: string }> = [];
+    /** Number of connections refused for bad credentials */
+    refusedCount = 0;
+
+    private server: net.Server;
+    private readonly connections = new Set<StandInConnection>();
+
+    constructor(private readonly options: MqttBrokerStandInOptions = {}) {}
+
+    get url(): string {
+        return `mqtt://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    get clientCount(): number {
+        return [...this.connections].filter(connection => connection.clientId !== undefined).length;
+    }
+
+    /**
+     * Whether any client subscribed to the filter
+     */
+    hasSubscription(filter: string): boolean {
+        return [...this.connections].some(connection => connection.subscriptions.has(filter));
+    }
+
+    async start(port = 0): Promise<number> {
+        this.server = net.createServer(socket => this.accept(socket));
+        await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    async stop(): Promise<void> {
+        this.disconnectAll();
+
+        if (this.server) {
+            await new Promise<void>(resolve => this.server.close(() => resolve()));
+        }
+    }
+
+    /**
+     * Publish as a device would
+     */
+    publish(topic: string, payload: string | Buffer, qos: MqttQos = 1): void {
+        this.route(topic, Buffer.isBuffer(payload) ? payload : Buffer.from(payload), qos);
+    }
+
+    /**
+     * Drop every connection, as a restarting broker would
+     */
+    disconnectAll(): void {
+        this.connections.forEach(connection => connection.socket.destroy());
+        this.connections.clear();
+    }
+
+    private accept(socket: net.Socket): void {
+        const connection: StandInConnection = {
+            socket,
+            subscriptions: new Map(),
+            nextPacketId: 1,
+        };
+        const packets = parser({ protocolVersion: 4 });
+        this.connections.add(connection);
+
+        packets.on('packet', packet => this.handle(connection, packet));
+        packets.on('error', () => socket.destroy());
+        socket.on('data', chunk => packets.parse(chunk));
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => this.connections.delete(connection));
+    }
+
+    private handle(connection: StandInConnection, packet: Packet): void {
+        const send = (response: Packet) => {
+            if (!connection.socket.destroyed) {
+                connection.socket.write(generate(response));
+            }
+        };
+
+        switch (packet.cmd) {
+            case 'connect': {
+                const authorized =
+                    this.options.username === undefined ||
+                    (packet.username === this.options.username &&
+                        packet.password?.toString() === this.options.password);
+                if (!authorized) {
+                    this.refusedCount++;
+                    send({ cmd: 'connack', sessionPresent: false, returnCode: 4 });
+                    connection.socket.end();
+                    return;
+                }
+
+                connection.clientId = packet.clientId;
+                send({ cmd: 'connack', sessionPresent: false, returnCode: 0 });
+                break;
+            }
+            case 'subscribe':
+                packet.subscriptions.forEach(({ topic, qos }) =>
+                    connection.subscriptions.set(topic, Math.min(qos, 1) as MqttQos)
+                );
+                send({
+                    cmd: 'suback',
+                    messageId: packet.messageId,
+                    granted: packet.subscriptions.map(({ qos }) => Math.min(qos, 1)),
+                });
+                break;
+            case 'unsubscribe':
+                packet.unsubscriptions.forEach(topic => connection.subscriptions.delete(topic));
+                // MQTT 3.1.1 acknowledges unsubscribing without a result per topic
+                send({ cmd: 'unsuback', messageId: packet.messageId, granted: [] });
+                break;
+            case 'publish': {
+                const qos = Math.min(packet.qos, 1) as MqttQos;
+                if (qos === 1) {
+                    send({ cmd: 'puback', messageId: packet.messageId });
+                }
+                this.route(packet.topic, Buffer.from(packet.payload), qos, connection.clientId);
+                break;
+            }
+            case 'pingreq':
+                send({ cmd: 'pingresp' });
+                break;
+            case 'disconnect':
+                connection.socket.end();
+                break;
+        }
+    }
+
+    private route(topic: string, payload: Buffer, qos: MqttQos, clientId?: string): void {
+        this.messages.push({ topic, payload, clientId });
+
+        for (const connection of this.connections) {
+            const granted = [...connection.subscriptions]
+                .filter(([filter]) => MqttTopicUtil.matches(filter, topic))
+                .map(([, subscriptionQos]) => subscriptionQos);
+            if (!granted.length || connection.socket.destroyed) {
+                continue;
+            }
+
+            // One delivery per client, at the highest QoS of its matching subscriptions
+            const deliveryQos = Math.min(qos, Math.max(...granted)) as MqttQos;
+            const messageId = connection.nextPacketId;
+            connection.nextPacketId = messageId === 0xffff ? 1 : messageId + 1;
+            connection.socket.write(
+                generate({
+                    cmd: 'publish',
+                    topic,
+                    payload,
+                    qos: deliveryQos,
+                    messageId: deliveryQos > 0 ? messageId : undefined,
+                    dup: false,
+                    retain: false,
+                })
+            );
+        }
+    }
+}
+
+if (require.main === module) {
+    const broker = new MqttBrokerStandIn({
+        username: process.env.MQTT_USERNAME || undefined,
+        password: process.env.MQTT_PASSWORD || undefined,
+    });
+    broker.start(Number(process.argv[2] || 1883)).then(port => {
+        console.log(`MQTT broker stand-in listening on mqtt://127.0.0.1:${port}`);
+    });
+}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Job } from 'bullmq';
+import { DeviceCommandStatus } from '@prisma/client';
+import { DeviceCommandProcessor } from './device-command.processor';
+import { LoggerService } from '../../logger/logger.service';
+import { DeviceCommandJobData } from '../queue.producer';
+import { DeviceRepository } from '../../../modules/device/device.repository';
+import { DeviceCommandRepository } from '../../../modules/device-command/device-command.repository';
+import { DeviceAdapterRegistry } from '../../../shared/adapters/device-adapter.registry';
+
+describe('DeviceCommandProcessor', () => {
+    let processor: DeviceCommandProcessor;
+    let deviceCommandRepository: jest.Mocked<DeviceCommandRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let adapter: { sendCommand: jest.Mock };
+
+    const mockCommand = {
+        id: 'command-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        deviceId: 'device-123',
+        command: 'unlock_door',
+        parameters: { door: 1 },
+        status: DeviceCommandStatus.QUEUED,
+        timeoutSeconds: 300,
+        maxAttempts: 3,
+        attempts: 0,
+        result: null,
+        error: null,
+        batchId: null,
+        requestedByUserId: 'user-123',
+        expiresAt: new Date(Date.now() + 300000),
+        deliveredAt: null,
+        completedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        deviceIdentifier: 'reader-1',
+        isActive: true,
+    };
+
+    const job = (attemptsMade = 0) =>
+        ({
+            id: 'job-123',
+            name: 'send-device-command',
+            data: { commandId: 'command-123', organizationId: 'org-123' },
+            attemptsMade,
+            opts: { attempts: 3 },
+        }) as Job<DeviceCommandJobData>;
+
+    beforeEach(async () => {
+        adapter = {
+            sendCommand: jest.fn().mockResolvedValue({ success: true, message: 'Door unlocked' }),
+        };
+
+        const mockDeviceCommandRepository = {
+            findForDispatch: jest.fn().mockResolvedValue(mockCommand),
+            startAttempt: jest.fn().mockResolvedValue({ ...mockCommand, attempts: 1 }),
+            recordOutcome: jest.fn().mockResolvedValue(true),
+            recordAttemptError: jest.fn(),
+        };
+
+        const mockDeviceRepository = {
+            findById: jest.fn().mockResolvedValue(mockDevice),
+        };
+
+        const mockDeviceAdapterRegistry = {
+            forDevice: jest.fn().mockReturnValue(adapter),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            warn: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceCommandProcessor,
+                {
+                    provide: DeviceCommandRepository,
+                    useValue: mockDeviceCommandRepository,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: DeviceAdapterRegistry,
+                    useValue: mockDeviceAdapterRegistry,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        processor = module.get<DeviceCommandProcessor>(DeviceCommandProcessor);
+        deviceCommandRepository = module.get(DeviceCommandRepository);
+        deviceRepository = module.get(DeviceRepository);
+    });
+
+    it('should send the command and record that it succeeded', async () => {
+        const result = await processor.process(job());
+
+        expect(result).toEqual({ commandId: 'command-123', status: 'SUCCEEDED' });
+        expect(deviceRepository.findById).toHaveBeenCalledWith('device-123', {
+            organizationId: 'org-123',
+            branchIds: ['branch-123'],
+        });
+        expect(adapter.sendCommand).toHaveBeenCalledWith('reader-1', {
+            command: 'unlock_door',
+            parameters: { door: 1 },
+            timeout: 300,
+            commandId: 'command-123',
+        });
+        expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+            'command-123',
+            expect.objectContaining({
+                status: 'SUCCEEDED',
+                result: { message: 'Door unlocked' },
+                deliveredAt: expect.any(Date),
+                completedAt: expect.any(Date),
+            })
+        );
+    });
+
+    it('should leave commands the device reports on later delivered', async () => {
+        adapter.sendCommand.mockResolvedValue({ success: true, pending: true });
+
+        const result = await processor.process(job());
+
+        expect(result.status).toBe('DELIVERED');
+        expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+            'command-123',
+            expect.objectContaining({ status: 'DELIVERED', completedAt: undefined })
+        );
+    });
+
+    it('should fail commands the device rejects', async () => {
+        adapter.sendCommand.mockResolvedValue({ success: false, message: 'Door jammed' });
+
+        const result = await processor.process(job());
+
+        expect(result.status).toBe('FAILED');
+        expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+            'command-123',
+            expect.objectContaining({ status: 'FAILED', error: 'Door jammed' })
+        );
+    });
+
+    it('should expire commands that waited past their timeout', async () => {
+        deviceCommandRepository.findForDispatch.mockResolvedValue({
+            ...mockCommand,
+            expiresAt: new Date(Date.now() - 1000),
+        });
+
+        const result = await processor.process(job());
+
+        expect(result.status).toBe('EXPIRED');
+        expect(deviceCommandRepository.startAttempt).not.toHaveBeenCalled();
+        expect(adapter.sendCommand).not.toHaveBeenCalled();
+    });
+
+    it('should skip commands that are no longer queued', async () => {
+        deviceCommandRepository.findForDispatch.mockResolvedValue({
+            ...mockCommand,
+            status: DeviceCommandStatus.EXPIRED,
+        });
+
+        await processor.process(job());
+
+        expect(adapter.sendCommand).not.toHaveBeenCalled();
+        expect(deviceCommandRepository.recordOutcome).not.toHaveBeenCalled();
+    });
+
+    it('should fail commands for inactive devices without sending them', async () => {
+        deviceRepository.findById.mockResolvedValue({ ...mockDevice, isActive: false } as any);
+
+        const result = await processor.process(job());
+
+        expect(result.status).toBe('FAILED');
+        expect(adapter.sendCommand).not.toHaveBeenCalled();
+    });
+
+    it('should record the error and retry while attempts remain', async () => {
+        adapter.sendCommand.mockRejectedValue(new Error('Device offline'));
+
+        await expect(processor.process(job())).rejects.toThrow('Device offline');
+
+        expect(deviceCommandRepository.recordAttemptError).toHaveBeenCalledWith(
+            'command-123',
+            'Device offline'
+        );
+        expect(deviceCommandRepository.recordOutcome).not.toHaveBeenCalled();
+    });
+
+    it('should fail the command on its last attempt', async () => {
+        adapter.sendCommand.mockRejectedValue(new Error('Device offline'));
+
+        await expect(processor.process(job(2))).rejects.toThrow('Device offline');
+
+        expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+            'command-123',
+            expect.objectContaining({ status: 'FAILED', error: 'Device offline' })
+        );
+        expect(deviceCommandRepository.recordAttemptError).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { DeviceCommandRequest, DeviceCommandStatus } from '@prisma/client';
+import { LoggerService } from '../../logger/logger.service';
+import { DeviceCommandJobData } from '../queue.producer';
+import { DeviceRepository } from '../../../modules/device/device.repository';
+import {
+    DeviceCommandOutcome,
+    DeviceCommandRepository,
+} from '../../../modules/device-command/device-command.repository';
+import { DeviceCommand } from '../../../shared/adapters/device.adapter';
+import { DeviceAdapterRegistry } from '../../../shared/adapters/device-adapter.registry';
+
+export interface SentDeviceCommandResult {
+    commandId: string;
+    status: DeviceCommandStatus;
+}
+
+@Injectable()
+@Processor('device-commands')
+export class DeviceCommandProcessor extends WorkerHost {
+    constructor(
+        private readonly logger: LoggerService,
+        private readonly deviceCommandRepository: DeviceCommandRepository,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly deviceAdapterRegistry: DeviceAdapterRegistry
+    ) {
+        super();
+    }
+
+    async process(job: Job<DeviceCommandJobData>): Promise<any> {
+        switch (job.name) {
+            case 'send-device-command':
+                return this.sendDeviceCommand(job);
+            default:
+                throw new Error(`Unknown job type: ${job.name}`);
+        }
+    }
+
+    /**
+     * Send a queued command through the adapter of its device. Errors, e.g. of a device that is
+     * offline, are retried until the attempts run out or the command expires.
+     */
+    private async sendDeviceCommand(
+        job: Job<DeviceCommandJobData>
+    ): Promise<SentDeviceCommandResult> {
+        const { commandId } = job.data;
+
+        const queued = await this.deviceCommandRepository.findForDispatch(commandId);
+        if (!queued || queued.status !== DeviceCommandStatus.QUEUED) {
+            // Expired or completed meanwhile
+            return { commandId, status: queued?.status };
+        }
+
+        if (queued.expiresAt <= new Date()) {
+            return this.complete(queued, {
+                status: DeviceCommandStatus.EXPIRED,
+                completedAt: new Date(),
+            });
+        }
+
+        const command = await this.deviceCommandRepository.startAttempt(commandId);
+        if (!command) {
+            return { commandId, status: queued.status };
+        }
+
+        const device = await this.deviceRepository.findById(command.deviceId, {
+            organizationId: command.organizationId,
+            branchIds: [command.branchId],
+        });
+        if (!device?.isActive) {
+            return this.complete(command, {
+                status: DeviceCommandStatus.FAILED,
+                error: 'Device not found or inactive',
+                completedAt: new Date(),
+            });
+        }
+
+        try {
+            const result = await this.deviceAdapterRegistry
+                .forDevice(device)
+                .sendCommand(device.deviceIdentifier, {
+                    command: command.command as DeviceCommand['command'],
+                    parameters: (command.parameters as Record<string, any>) || undefined,
+                    timeout: command.timeoutSeconds,
+                    commandId: command.id,
+                });
+            const now = new Date();
+            const recorded = { message: result.message, data: result.data };
+
+            if (!result.success) {
+                return this.complete(command, {
+                    status: DeviceCommandStatus.FAILED,
+                    result: recorded,
+                    error: result.message || 'The device rejected the command',
+                    completedAt: now,
+                });
+            }
+
+            // Devices that execute commands later report the result themselves
+            return this.complete(command, {
+                status: result.pending
+                    ? DeviceCommandStatus.DELIVERED
+                    : DeviceCommandStatus.SUCCEEDED,
+                result: recorded,
+                error: null,
+                deliveredAt: now,
+                completedAt: result.pending ? undefined : now,
+            });
+        } catch (error) {
+            const lastAttempt =
+                command.attempts >= command.maxAttempts ||
+                job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+            if (lastAttempt) {
+                await this.complete(command, {
+                    status: DeviceCommandStatus.FAILED,
+                    error: error.message,
+                    completedAt: new Date(),
+                });
+            } else {
+                await this.deviceCommandRepository.recordAttemptError(command.id, error.message);
+            }
+
+            throw error;
+        }
+    }
+
+    private async complete(
+        command: DeviceCommandRequest,
+        outcome: DeviceCommandOutcome
+    ): Promise<SentDeviceCommandResult> {
+        await this.deviceCommandRepository.recordOutcome(command.id, outcome);
+
+        this.logger.log('Device command processed', {
+            commandId: command.id,
+            deviceId: command.deviceId,
+            command: command.command,
+            status: outcome.status,
+            attempts: command.attempts,
+            error: outcome.error,
+        });
+
+        return { commandId: command.id, status: outcome.status };
+    }
+
+    @OnWorkerEvent('failed')
+    onFailed(job: Job<DeviceCommandJobData>, error: Error) {
+        this.logger.warn('Device command attempt failed', {
+            jobId: job.id,
+            commandId: job.data.commandId,
+            error: error.message,
+            attemptsMade: job.attemptsMade,
+            attemptsTotal: job.opts.attempts,
+        });
+    }
+}
@@ -1,17 +1,29 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { Job } from 'bullmq';
+import { ConflictException } from '@nestjs/common';
+import { Job, UnrecoverableError } from 'bullmq';
 import { DeviceEventProcessor } from './device-event.processor';
 import { LoggerService } from '../../logger/logger.service';
 import { EmployeeRepository } from '../../../modules/employee/employee.repository';
+import { EmployeeCredentialService } from '../../../modules/employee/employee-credential.service';
 import { AttendanceService } from '../../../modules/attendance/attendance.service';
+import { TimesheetService } from '../../../modules/attendance/timesheet.service';
+import { EventRepository } from '../../../modules/events/event.repository';
+import { FailedDeviceEventRepository } from '../../../modules/events/failed-event.repository';
+import { AccessPolicyService } from '../../../modules/access-control/access-policy.service';
 import { IMatchingAdapter } from '../../../shared/adapters/matching.adapter';
-import { DeviceEventData } from '../queue.producer';
+import { AttendanceCalculationData, DeviceEventData, QueueProducer } from '../queue.producer';
 
 describe('DeviceEventProcessor', () => {
     let processor: DeviceEventProcessor;
     let loggerService: jest.Mocked<LoggerService>;
     let employeeRepository: jest.Mocked<EmployeeRepository>;
+    let employeeCredentialService: jest.Mocked<EmployeeCredentialService>;
     let attendanceService: jest.Mocked<AttendanceService>;
+    let timesheetService: jest.Mocked<TimesheetService>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+    let eventRepository: jest.Mocked<EventRepository>;
+    let failedEventRepository: jest.Mocked<FailedDeviceEventRepository>;
+    let accessPolicyService: jest.Mocked<AccessPolicyService>;
     let matchingAdapter: jest.Mocked<IMatchingAdapter>;
 
     const mockDeviceEventData: DeviceEventData = {
@@ -56,9 +68,45 @@ describe('DeviceEventProcessor', () => {
             findMany: jest.fn(),
         };
 
+        const mockEmployeeCredentialService = {
+            findEmployeeIdByCredential: jest.fn().mockResolvedValue(undefined),
+        };
+
         const mockAttendanceService = {
             createAttendanceRecord: jest.fn(),
             getLastAttendanceForEmployee: jest.fn(),
+            getAttendanceDayStart: jest.fn().mockResolvedValue(new Date()),
+            resequenceAttendanceDay: jest.fn().mockResolvedValue(0),
+            getDeviceEventAttendance: jest.fn().mockResolvedValue([]),
+            deleteAttendanceRecord: jest.fn(),
+        };
+
+        const mockTimesheetService = {
+            recalculateForTimestamp: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockQueueProducer = {
+            processAttendanceCalculation: jest.fn(),
+        };
+
+        const mockEventRepository = {
+            recordProcessingOutcome: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const mockFailedEventRepository = {
+            recordFailure: jest.fn(),
+            resolveForEventLog: jest.fn().mockResolvedValue(false),
+        };
+
+        // Devices without a door let everybody identified through
+        const mockAccessPolicyService = {
+            evaluate: jest
+                .fn()
+                .mockImplementation(async request =>
+                    request.employeeId
+                        ? { granted: true }
+                        : { granted: false, reason: 'UNKNOWN_CREDENTIAL' }
+                ),
         };
 
         const mockMatchingAdapter = {
@@ -78,10 +126,34 @@ describe('DeviceEventProcessor', () => {
                     provide: EmployeeRepository,
                     useValue: mockEmployeeRepository,
                 },
+                {
+                    provide: EmployeeCredentialService,
+                    useValue: mockEmployeeCredentialService,
+                },
                 {
                     provide: AttendanceService,
                     useValue: mockAttendanceService,
                 },
+                {
+                    provide: TimesheetService,
+                    useValue: mockTimesheetService,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: EventRepository,
+                    useValue: mockEventRepository,
+                },
+                {
+                    provide: FailedDeviceEventRepository,
+                    useValue: mockFailedEventRepository,
+                },
+                {
+                    provide: AccessPolicyService,
+                    useValue: mockAccessPolicyService,
+                },
                 {
                     provide: 'IMatchingAdapter',
                     useValue: mockMatchingAdapter,
@@ -92,7 +164,13 @@ describe('DeviceEventProcessor', () => {
         processor = module.get<DeviceEventProcessor>(DeviceEventProcessor);
         loggerService = module.get(LoggerService);
         employeeRepository = module.get(EmployeeRepository);
+        employeeCredentialService = module.get(EmployeeCredentialService);
         attendanceService = module.get(AttendanceService);
+        timesheetService = module.get(TimesheetService);
+        queueProducer = module.get(QueueProducer);
+        eventRepository = module.get(EventRepository);
+        failedEventRepository = module.get(FailedDeviceEventRepository);
+        accessPolicyService = module.get(AccessPolicyService);
         matchingAdapter = module.get('IMatchingAdapter');
     });
 
@@ -158,6 +236,62 @@ describe('DeviceEventProcessor', () => {
                 }),
                 expect.any(Object)
             );
+
+            expect(queueProducer.processAttendanceCalculation).toHaveBeenCalledWith({
+                employeeId: 'emp-123',
+                date: eventData.timestamp,
+                organizationId: 'org-123',
+                branchId: 'branch-123',
+                correlationId: undefined,
+            });
+        });
+
+        it('should resolve the employee from a registered card', async () => {
+            const job = createMockJob(mockDeviceEventData);
+
+            employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue('emp-123');
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-123',
+                employeeId: 'emp-123',
+                eventType: 'CHECK_IN',
+            } as any);
+
+            const result = await (processor as any).execute(job);
+
+            expect(employeeCredentialService.findEmployeeIdByCredential).toHaveBeenCalledWith(
+                'CARD',
+                'CARD-123',
+                { organizationId: 'org-123', branchIds: ['branch-123'] },
+                mockDeviceEventData.timestamp
+            );
+            expect(result.employeeId).toBe('emp-123');
+            expect(result.eventType).toBe('CHECK_IN');
+            expect(matchingAdapter.matchBiometric).not.toHaveBeenCalled();
+        });
+
+        it('should resolve the employee from the employee code a device reports', async () => {
+            const job = createMockJob({
+                ...mockDeviceEventData,
+                rawData: { eventType: 'face.scan', employeeCode: 'EMP001' },
+            });
+
+            employeeRepository.findByEmployeeCode.mockResolvedValue(mockEmployee);
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-123',
+                employeeId: 'emp-123',
+                eventType: 'CHECK_IN',
+            } as any);
+
+            const result = await (processor as any).execute(job);
+
+            expect(employeeRepository.findByEmployeeCode).toHaveBeenCalledWith('EMP001', {
+                organizationId: 'org-123',
+                branchIds: ['branch-123'],
+            });
+            expect(result.employeeId).toBe('emp-123');
+            expect(employeeCredentialService.findEmployeeIdByCredential).not.toHaveBeenCalled();
         });
 
         it('should process event with biometric identification', async () => {
@@ -222,10 +356,129 @@ describe('DeviceEventProcessor', () => {
                 employeeId: undefined,
                 attendanceId: undefined,
                 eventType: 'ACCESS_DENIED',
+                denialReason: 'UNKNOWN_CREDENTIAL',
                 processingTime: expect.any(Number),
             });
 
             expect(attendanceService.createAttendanceRecord).not.toHaveBeenCalled();
+            expect(queueProducer.processAttendanceCalculation).not.toHaveBeenCalled();
+        });
+
+        it('should record no attendance when the access policy denies the employee', async () => {
+            employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue('emp-123');
+            accessPolicyService.evaluate.mockResolvedValue({
+                granted: false,
+                reason: 'OUTSIDE_SCHEDULE',
+                doorId: 'door-1',
+                zoneId: 'zone-1',
+            });
+
+            const result = await (processor as any).execute(
+                createMockJob({ ...mockDeviceEventData, eventLogId: 'event-log-123' })
+            );
+
+            expect(accessPolicyService.evaluate).toHaveBeenCalledWith({
+                organizationId: 'org-123',
+                deviceId: 'device-123',
+                timestamp: new Date(mockDeviceEventData.timestamp),
+                employeeId: 'emp-123',
+            });
+            expect(result).toEqual(
+                expect.objectContaining({
+                    employeeId: 'emp-123',
+                    eventType: 'ACCESS_DENIED',
+                    denialReason: 'OUTSIDE_SCHEDULE',
+                })
+            );
+            expect(attendanceService.getLastAttendanceForEmployee).not.toHaveBeenCalled();
+            expect(attendanceService.createAttendanceRecord).not.toHaveBeenCalled();
+            expect(queueProducer.processAttendanceCalculation).not.toHaveBeenCalled();
+            expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+                'event-log-123',
+                'DENIED',
+                { employeeId: 'emp-123', denialReason: 'OUTSIDE_SCHEDULE' }
+            );
+            // Identified, so not a dead letter
+            expect(failedEventRepository.recordFailure).not.toHaveBeenCalled();
+        });
+
+        describe('access decision events', () => {
+            const accessDecisionData = (decisionId: string): DeviceEventData => ({
+                ...mockDeviceEventData,
+                eventType: 'access_decision',
+                rawData: {
+                    eventType: 'access_decision',
+                    credentialType: 'CARD',
+                    readerId: 'device-123',
+                    employeeId: 'emp-123',
+                    accessDecision: { decisionId, granted: true, doorId: 'door-1' },
+                },
+                eventLogId: 'event-log-123',
+            });
+
+            beforeEach(() => {
+                employeeRepository.findById.mockResolvedValue(mockEmployee);
+                attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+                attendanceService.createAttendanceRecord.mockResolvedValue({
+                    id: 'attendance-123',
+                } as any);
+                accessPolicyService.evaluate.mockResolvedValue({
+                    granted: false,
+                    reason: 'OUTSIDE_SCHEDULE',
+                });
+            });
+
+            it('should record the decision the reader acted on without evaluating again', async () => {
+                const result = await (processor as any).execute(
+                    createMockJob(accessDecisionData('event-log-123'))
+                );
+
+                expect(accessPolicyService.evaluate).not.toHaveBeenCalled();
+                expect(result).toEqual(
+                    expect.objectContaining({ employeeId: 'emp-123', eventType: 'CHECK_IN' })
+                );
+                expect(attendanceService.createAttendanceRecord).toHaveBeenCalled();
+            });
+
+            it('should evaluate decisions logged under another event again', async () => {
+                const result = await (processor as any).execute(
+                    createMockJob(accessDecisionData('event-log-other'))
+                );
+
+                expect(accessPolicyService.evaluate).toHaveBeenCalled();
+                expect(result).toEqual(expect.objectContaining({ eventType: 'ACCESS_DENIED' }));
+                expect(attendanceService.createAttendanceRecord).not.toHaveBeenCalled();
+            });
+        });
+
+        it('should remove the attendance of a replayed event the policy now denies', async () => {
+            attendanceService.getDeviceEventAttendance.mockResolvedValue([
+                {
+                    id: 'attendance-old',
+                    employeeId: 'emp-123',
+                    eventType: 'CHECK_IN',
+                    timestamp: new Date(),
+                    corrected: false,
+                },
+            ]);
+            employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue('emp-123');
+            accessPolicyService.evaluate.mockResolvedValue({
+                granted: false,
+                reason: 'ZONE_NOT_PERMITTED',
+            });
+
+            await (processor as any).execute(
+                createMockJob({ ...mockDeviceEventData, eventLogId: 'event-log-123', replay: true })
+            );
+
+            expect(attendanceService.createAttendanceRecord).not.toHaveBeenCalled();
+            expect(attendanceService.deleteAttendanceRecord).toHaveBeenCalledWith(
+                'attendance-old',
+                expect.objectContaining({ organizationId: 'org-123' })
+            );
+            expect(queueProducer.processAttendanceCalculation).toHaveBeenCalledWith(
+                expect.objectContaining({ employeeId: 'emp-123' })
+            );
         });
 
         it('should determine CHECK_OUT when last event was CHECK_IN', async () => {
@@ -260,9 +513,25 @@ describe('DeviceEventProcessor', () => {
                 createdAt: new Date(),
             } as any);
 
+            // The attendance day started well before the check-in, e.g. at a noon boundary
+            const dayStart = new Date(Date.now() - 14 * 3600000);
+            attendanceService.getAttendanceDayStart.mockResolvedValue(dayStart);
+
             const result = await (processor as any).execute(job);
 
             expect(result.eventType).toBe('CHECK_OUT');
+            expect(attendanceService.getAttendanceDayStart).toHaveBeenCalledWith(
+                'emp-123',
+                new Date(eventData.timestamp),
+                expect.any(Object),
+                eventData.branchId
+            );
+            expect(attendanceService.getLastAttendanceForEmployee).toHaveBeenCalledWith(
+                'emp-123',
+                dayStart,
+                expect.any(Object),
+                new Date(eventData.timestamp)
+            );
             expect(attendanceService.createAttendanceRecord).toHaveBeenCalledWith(
                 expect.objectContaining({
                     eventType: 'CHECK_OUT',
@@ -271,6 +540,173 @@ describe('DeviceEventProcessor', () => {
             );
         });
 
+        it('should re-sequence the day when an earlier event arrives late', async () => {
+            const eventData = {
+                ...mockDeviceEventData,
+                rawData: {
+                    ...mockDeviceEventData.rawData,
+                    employeeId: 'emp-123',
+                },
+            };
+            const dayStart = new Date(Date.now() - 14 * 3600000);
+
+            employeeRepository.findById.mockResolvedValue(mockEmployee);
+            attendanceService.getAttendanceDayStart.mockResolvedValue(dayStart);
+            // Nothing precedes the buffered punch, later punches of the day were taken in already
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-late',
+            } as any);
+            attendanceService.resequenceAttendanceDay.mockResolvedValue(2);
+
+            const result = await (processor as any).execute(createMockJob(eventData));
+
+            expect(result.eventType).toBe('CHECK_IN');
+            expect(attendanceService.resequenceAttendanceDay).toHaveBeenCalledWith(
+                'emp-123',
+                dayStart,
+                expect.objectContaining({ organizationId: eventData.organizationId }),
+                eventData.branchId
+            );
+            expect(loggerService.log).toHaveBeenCalledWith(
+                'Reconciled attendance after a late device event',
+                expect.objectContaining({ employeeId: 'emp-123', retyped: 2 })
+            );
+            expect(queueProducer.processAttendanceCalculation).toHaveBeenCalled();
+        });
+
+        it('should keep the attendance record when reconciling fails', async () => {
+            const eventData = {
+                ...mockDeviceEventData,
+                rawData: {
+                    ...mockDeviceEventData.rawData,
+                    employeeId: 'emp-123',
+                },
+            };
+
+            employeeRepository.findById.mockResolvedValue(mockEmployee);
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-123',
+            } as any);
+            attendanceService.resequenceAttendanceDay.mockRejectedValue(new Error('DB error'));
+
+            const result = await (processor as any).execute(createMockJob(eventData));
+
+            expect(result.attendanceId).toBe('attendance-123');
+            expect(loggerService.warn).toHaveBeenCalledWith(
+                'Failed to reconcile attendance day',
+                expect.objectContaining({ error: 'DB error' })
+            );
+        });
+
+        it('should record the outcome on the event log', async () => {
+            const result = await (processor as any).execute(
+                createMockJob({ ...mockDeviceEventData, eventLogId: 'event-log-123' })
+            );
+
+            expect(result.eventType).toBe('ACCESS_DENIED');
+            expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+                'event-log-123',
+                'DENIED',
+                { employeeId: undefined, denialReason: 'UNKNOWN_CREDENTIAL' }
+            );
+            expect(attendanceService.getDeviceEventAttendance).not.toHaveBeenCalled();
+        });
+
+        it('should replace the attendance a replayed event recorded before', async () => {
+            const eventData = {
+                ...mockDeviceEventData,
+                eventLogId: 'event-log-123',
+                replay: true,
+                previousEmployeeId: 'emp-999',
+            };
+
+            attendanceService.getDeviceEventAttendance.mockResolvedValue([
+                {
+                    id: 'attendance-old',
+                    employeeId: 'emp-999',
+                    eventType: 'CHECK_OUT',
+                    timestamp: eventData.timestamp,
+                    corrected: false,
+                },
+            ]);
+            employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue('emp-123');
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-new',
+            } as any);
+
+            const result = await (processor as any).execute(createMockJob(eventData));
+
+            expect(result).toEqual(
+                expect.objectContaining({ employeeId: 'emp-123', attendanceId: 'attendance-new' })
+            );
+            expect(attendanceService.createAttendanceRecord).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    metadata: expect.objectContaining({ eventLogId: 'event-log-123' }),
+                }),
+                expect.any(Object)
+            );
+            // Only the punches of the employee it was attributed to are the event's
+            expect(attendanceService.getDeviceEventAttendance).toHaveBeenCalledWith(
+                'device-123',
+                new Date(eventData.timestamp),
+                'event-log-123',
+                expect.objectContaining({ organizationId: 'org-123' }),
+                'emp-999'
+            );
+            expect(attendanceService.deleteAttendanceRecord).toHaveBeenCalledWith(
+                'attendance-old',
+                expect.objectContaining({ organizationId: 'org-123' })
+            );
+            // The day of the employee the event was wrongly matched to is rebuilt too
+            expect(attendanceService.resequenceAttendanceDay.mock.calls.map(([id]) => id)).toEqual([
+                'emp-123',
+                'emp-999',
+            ]);
+            expect(
+                queueProducer.processAttendanceCalculation.mock.calls.map(
+                    ([data]) => data.employeeId
+                )
+            ).toEqual(['emp-123', 'emp-999']);
+            expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+                'event-log-123',
+                'MATCHED',
+                { employeeId: 'emp-123' }
+            );
+        });
+
+        it('should keep attendance an approved correction changed when replaying', async () => {
+            attendanceService.getDeviceEventAttendance.mockResolvedValue([
+                {
+                    id: 'attendance-corrected',
+                    employeeId: 'emp-123',
+                    eventType: 'CHECK_IN',
+                    timestamp: new Date(),
+                    corrected: true,
+                },
+            ]);
+
+            const result = await (processor as any).execute(
+                createMockJob({ ...mockDeviceEventData, eventLogId: 'event-log-123', replay: true })
+            );
+
+            expect(result).toEqual(
+                expect.objectContaining({
+                    attendanceId: 'attendance-corrected',
+                    eventType: 'CHECK_IN',
+                })
+            );
+            expect(attendanceService.createAttendanceRecord).not.toHaveBeenCalled();
+            expect(attendanceService.deleteAttendanceRecord).not.toHaveBeenCalled();
+            expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+                'event-log-123',
+                'MATCHED',
+                { employeeId: 'emp-123' }
+            );
+        });
+
         it('should handle biometric matching failure gracefully', async () => {
             const eventData = {
                 ...mockDeviceEventData,
@@ -299,6 +735,132 @@ describe('DeviceEventProcessor', () => {
         });
     });
 
+    describe('dead letters', () => {
+        const createMockJob = (data: DeviceEventData, attemptsMade = 0): Job<DeviceEventData> =>
+            ({
+                id: 'job-123',
+                name: 'process-raw-device-event',
+                data: { ...data, eventLogId: 'event-log-123' },
+                opts: { attempts: 3 },
+                attemptsMade,
+                updateProgress: jest.fn(),
+            }) as any;
+
+        const matchEmployee = () => {
+            employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue('emp-123');
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+        };
+
+        it('should record events whose credential matches nobody and complete them', async () => {
+            const result = await processor.process(createMockJob(mockDeviceEventData));
+
+            expect(result.eventType).toBe('ACCESS_DENIED');
+            expect(failedEventRepository.recordFailure).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    eventLogId: 'event-log-123',
+                    failureClass: 'UNMATCHED_CREDENTIAL',
+                    jobName: 'process-raw-device-event',
+                    payload: expect.objectContaining({ rawData: mockDeviceEventData.rawData }),
+                })
+            );
+        });
+
+        it('should not record events without a credential nobody matched', async () => {
+            await processor.process(createMockJob({ ...mockDeviceEventData, rawData: {} }));
+
+            expect(failedEventRepository.recordFailure).not.toHaveBeenCalled();
+        });
+
+        it('should record errors that fail the same way every time without retrying', async () => {
+            matchEmployee();
+            attendanceService.createAttendanceRecord.mockRejectedValue(
+                new ConflictException('The pay period is locked')
+            );
+
+            await expect(processor.process(createMockJob(mockDeviceEventData))).rejects.toThrow(
+                UnrecoverableError
+            );
+            expect(failedEventRepository.recordFailure).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    failureClass: 'VALIDATION',
+                    error: 'The pay period is locked',
+                })
+            );
+        });
+
+        it('should record transient errors once the attempts run out', async () => {
+            matchEmployee();
+            attendanceService.createAttendanceRecord.mockRejectedValue(new Error('DB down'));
+
+            await expect(processor.process(createMockJob(mockDeviceEventData, 1))).rejects.toThrow(
+                'DB down'
+            );
+            expect(failedEventRepository.recordFailure).not.toHaveBeenCalled();
+
+            await expect(processor.process(createMockJob(mockDeviceEventData, 2))).rejects.toThrow(
+                'DB down'
+            );
+            expect(failedEventRepository.recordFailure).toHaveBeenCalledWith(
+                expect.objectContaining({ failureClass: 'TRANSIENT', error: 'DB down' })
+            );
+        });
+
+        it('should fail with the original error when recording the failure fails', async () => {
+            matchEmployee();
+            attendanceService.createAttendanceRecord.mockRejectedValue(new Error('DB down'));
+            failedEventRepository.recordFailure.mockRejectedValue(new Error('Still down'));
+
+            await expect(processor.process(createMockJob(mockDeviceEventData, 2))).rejects.toThrow(
+                'DB down'
+            );
+            expect(loggerService.warn).toHaveBeenCalledWith(
+                'Failed to record a failed device event',
+                expect.objectContaining({ error: 'Still down' })
+            );
+        });
+
+        it('should record a retried event for the employee set in triage', async () => {
+            employeeRepository.findById.mockResolvedValue(mockEmployee as any);
+            attendanceService.getLastAttendanceForEmployee.mockResolvedValue(null);
+            attendanceService.createAttendanceRecord.mockResolvedValue({
+                id: 'attendance-123',
+            } as any);
+
+            const result = await processor.process(
+                createMockJob({
+                    ...mockDeviceEventData,
+                    replay: true,
+                    resolvedEmployeeId: 'emp-123',
+                })
+            );
+
+            expect(result.employeeId).toBe('emp-123');
+            expect(employeeCredentialService.findEmployeeIdByCredential).not.toHaveBeenCalled();
+            expect(failedEventRepository.resolveForEventLog).toHaveBeenCalledWith('event-log-123');
+            expect(failedEventRepository.recordFailure).not.toHaveBeenCalled();
+        });
+
+        it('should fail retries for an employee that no longer exists', async () => {
+            employeeRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                processor.process(
+                    createMockJob({
+                        ...mockDeviceEventData,
+                        replay: true,
+                        resolvedEmployeeId: 'emp-gone',
+                    })
+                )
+            ).rejects.toThrow(UnrecoverableError);
+            expect(failedEventRepository.recordFailure).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    failureClass: 'VALIDATION',
+                    error: 'Resolved employee not found',
+                })
+            );
+        });
+    });
+
     describe('processBiometricMatching', () => {
         it('should process biometric matching job successfully', async () => {
             const job = {
@@ -346,25 +908,34 @@ describe('DeviceEventProcessor', () => {
     });
 
     describe('processAttendanceCalculation', () => {
-        it('should process attendance calculation job', async () => {
+        it('should recalculate the timesheets around the event', async () => {
+            const date = new Date('2024-01-15T09:00:00Z');
             const job = {
                 id: 'calc-job-123',
                 name: 'process-attendance-calculation',
                 data: {
-                    ...mockDeviceEventData,
-                    rawData: {
-                        employeeId: 'emp-123',
-                    },
+                    employeeId: 'emp-123',
+                    date,
+                    organizationId: 'org-123',
+                    branchId: 'branch-123',
+                    correlationId: 'corr-123',
                 },
-            } as Job<DeviceEventData>;
+            } as unknown as Job<AttendanceCalculationData>;
+
+            timesheetService.recalculateForTimestamp.mockResolvedValue([{}, {}] as any);
 
             const result = await (processor as any).processAttendanceCalculation(job);
 
+            expect(timesheetService.recalculateForTimestamp).toHaveBeenCalledWith(
+                'emp-123',
+                date,
+                { organizationId: 'org-123', branchIds: ['branch-123'] },
+                'corr-123'
+            );
             expect(result).toEqual({
                 employeeId: 'emp-123',
-                date: mockDeviceEventData.timestamp,
-                totalHours: 8,
-                overtime: 0,
+                date,
+                timesheets: 2,
                 calculated: true,
             });
 
@@ -426,6 +997,23 @@ describe('DeviceEventProcessor', () => {
             );
         });
 
+        it('should record the failure on the event log', () => {
+            const job = {
+                id: 'job-456',
+                data: { ...mockDeviceEventData, eventLogId: 'event-log-123' },
+                attemptsMade: 1,
+                opts: { attempts: 3 },
+            } as Job<DeviceEventData>;
+
+            processor.onFailed(job, new Error('Pay period is locked'));
+
+            expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+                'event-log-123',
+                'FAILED',
+                { error: 'Pay period is locked' }
+            );
+        });
+
         it('should log stalled jobs', () => {
             processor.onStalled('stalled-job-789');
 
@@ -1,19 +1,42 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+import {
+    AccessDenialReason,
+    CredentialType,
+    DeviceEventFailureClass,
+    DeviceEventOutcome,
+} from '@prisma/client';
 import { LoggerService } from '../../logger/logger.service';
 import { BaseJobProcessor } from './base.processor';
-import { DeviceEventData } from '../queue.producer';
+import { AttendanceCalculationData, DeviceEventData, QueueProducer } from '../queue.producer';
 import { EmployeeRepository } from '../../../modules/employee/employee.repository';
-import { AttendanceService } from '../../../modules/attendance/attendance.service';
+import { EmployeeCredentialService } from '../../../modules/employee/employee-credential.service';
+import {
+    AttendanceService,
+    DeviceEventAttendance,
+} from '../../../modules/attendance/attendance.service';
+import { TimesheetService } from '../../../modules/attendance/timesheet.service';
+import { EventRepository } from '../../../modules/events/event.repository';
+import { FailedDeviceEventRepository } from '../../../modules/events/failed-event.repository';
+import {
+    ACCESS_DECISION_EVENT_TYPE,
+    AccessDecisionPayload,
+} from '../../../modules/events/access-decision.service';
+import {
+    AccessDecision,
+    AccessPolicyService,
+} from '../../../modules/access-control/access-policy.service';
 import { IMatchingAdapter } from '../../../shared/adapters/matching.adapter';
 import { DataScope } from '../../../shared/interfaces';
+import { DeviceEventFailureUtil } from '../../../shared/utils';
 
 export interface ProcessedEventResult {
     eventId: string;
     employeeId?: string;
     attendanceId?: string;
     eventType: 'CHECK_IN' | 'CHECK_OUT' | 'ACCESS_DENIED' | 'UNKNOWN';
+    denialReason?: AccessDenialReason;
     confidence?: number;
     processingTime: number;
 }
@@ -24,7 +47,13 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
     constructor(
         protected readonly logger: LoggerService,
         private readonly employeeRepository: EmployeeRepository,
+        private readonly employeeCredentialService: EmployeeCredentialService,
         private readonly attendanceService: AttendanceService,
+        private readonly timesheetService: TimesheetService,
+        private readonly queueProducer: QueueProducer,
+        private readonly eventRepository: EventRepository,
+        private readonly failedEventRepository: FailedDeviceEventRepository,
+        private readonly accessPolicyService: AccessPolicyService,
         @Inject('IMatchingAdapter') private readonly matchingAdapter: IMatchingAdapter
     ) {
         super(logger);
@@ -33,9 +62,12 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
     async process(job: Job<DeviceEventData>): Promise<any> {
         switch (job.name) {
             case 'process-raw-device-event':
+            case 'replay-device-event':
                 return this.processRawDeviceEvent(job);
             case 'process-attendance-calculation':
-                return this.processAttendanceCalculation(job);
+                return this.processAttendanceCalculation(
+                    job as unknown as Job<AttendanceCalculationData>
+                );
             case 'process-biometric-matching':
                 return this.processBiometricMatching(job);
             default:
@@ -49,21 +81,67 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
 
         await this.updateProgress(job, 10, 'Starting event processing');
 
+        // A replayed event replaces the attendance recorded for it before, unless an approved
+        // correction changed that; the correction stands
+        const previous = data.replay ? await this.getPreviousAttendance(data) : [];
+        const corrected = previous.find(record => record.corrected);
+        if (corrected) {
+            await this.recordOutcome(data, DeviceEventOutcome.MATCHED, corrected.employeeId);
+            await this.settleFailure(job, data, corrected.employeeId);
+
+            return {
+                eventId: job.id as string,
+                employeeId: corrected.employeeId,
+                attendanceId: corrected.id,
+                eventType: corrected.eventType as ProcessedEventResult['eventType'],
+                processingTime: Date.now() - startTime,
+            };
+        }
+
         // Step 1: Identify the employee
         const employeeId = await this.identifyEmployee(job, data);
         await this.updateProgress(job, 40, 'Employee identification complete');
 
-        // Step 2: Determine event type (CHECK_IN vs CHECK_OUT)
-        const eventType = await this.determineEventType(job, data, employeeId);
+        // Step 2: Check the access policy of the door the device controls
+        const decision = await this.evaluateAccess(data, employeeId);
+        await this.updateProgress(job, 50, 'Access policy evaluated');
+
+        // Step 3: Determine event type (CHECK_IN vs CHECK_OUT); denied access records nothing
+        const eventType = decision.granted
+            ? await this.determineEventType(job, data, employeeId)
+            : 'ACCESS_DENIED';
         await this.updateProgress(job, 60, 'Event type determined');
 
-        // Step 3: Create attendance record if applicable
+        // Step 4: Create attendance record if applicable
         let attendanceId: string | undefined;
         if (employeeId && (eventType === 'CHECK_IN' || eventType === 'CHECK_OUT')) {
             attendanceId = await this.createAttendanceRecord(job, data, employeeId, eventType);
+            await this.replacePreviousAttendance(data, previous);
+            await this.reconcileAttendanceDay(data, employeeId);
             await this.updateProgress(job, 80, 'Attendance record created');
+
+            // Step 5: Update the employee's timesheet in the background
+            await this.queueTimesheetCalculation(data, employeeId);
+        } else {
+            await this.replacePreviousAttendance(data, previous);
+        }
+
+        // The days of employees the event was attributed to before change as well
+        const recordedFor = attendanceId ? employeeId : undefined;
+        for (const previousEmployeeId of new Set(previous.map(record => record.employeeId))) {
+            if (previousEmployeeId !== recordedFor) {
+                await this.reconcileAttendanceDay(data, previousEmployeeId);
+                await this.queueTimesheetCalculation(data, previousEmployeeId);
+            }
         }
 
+        await this.recordOutcome(
+            data,
+            decision.granted ? DeviceEventOutcome.MATCHED : DeviceEventOutcome.DENIED,
+            employeeId,
+            decision.reason
+        );
+        await this.settleFailure(job, data, employeeId);
         await this.updateProgress(job, 100, 'Event processing complete');
 
         const processingTime = Date.now() - startTime;
@@ -73,30 +151,51 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
             employeeId,
             attendanceId,
             eventType,
+            denialReason: decision.reason,
             processingTime,
         };
     }
 
+    /**
+     * Events that fail for good, or run out of attempts on a transient error, go to the
+     * dead-letter store for triage. Only transient errors are retried.
+     */
     private async processRawDeviceEvent(job: Job<DeviceEventData>): Promise<ProcessedEventResult> {
-        return this.execute(job);
+        try {
+            return await this.execute(job);
+        } catch (error) {
+            const failureClass = DeviceEventFailureUtil.classify(error);
+            const retryable = DeviceEventFailureUtil.isRetryable(failureClass);
+
+            if (!retryable || job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+                await this.recordFailure(job, failureClass, error.message);
+            }
+
+            throw retryable ? error : new UnrecoverableError(error.message);
+        }
     }
 
-    private async processAttendanceCalculation(job: Job<DeviceEventData>): Promise<any> {
+    private async processAttendanceCalculation(job: Job<AttendanceCalculationData>): Promise<any> {
         const { data } = job;
+        const date = new Date(data.date);
 
-        // This would calculate attendance summaries, overtime, etc.
         this.logger.log('Processing attendance calculation', {
             jobId: job.id,
-            employeeId: data.rawData?.employeeId,
-            date: data.timestamp,
+            employeeId: data.employeeId,
+            date,
         });
 
-        // Mock calculation
+        const timesheets = await this.timesheetService.recalculateForTimestamp(
+            data.employeeId,
+            date,
+            { organizationId: data.organizationId, branchIds: [data.branchId] },
+            data.correlationId
+        );
+
         return {
-            employeeId: data.rawData?.employeeId,
-            date: data.timestamp,
-            totalHours: 8,
-            overtime: 0,
+            employeeId: data.employeeId,
+            date,
+            timesheets: timesheets.length,
             calculated: true,
         };
     }
@@ -132,8 +231,78 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
         }
     }
 
+    /**
+     * Identify the employee an event records attendance for without recording anything, e.g.
+     * to preview a replay. Employees the access policy denies get no attendance.
+     */
+    async resolveEmployee(data: DeviceEventData): Promise<string | undefined> {
+        const employeeId = await this.identifyEmployee(undefined, data);
+        if (!employeeId) {
+            return undefined;
+        }
+
+        const decision = await this.evaluateAccess(data, employeeId);
+
+        return decision.granted ? employeeId : undefined;
+    }
+
+    private async evaluateAccess(
+        data: DeviceEventData,
+        employeeId?: string
+    ): Promise<AccessDecision> {
+        // The reader already acted on the decision made while it waited; evaluating again
+        // could record a different outcome than the door did
+        const recorded = this.getRecordedAccessDecision(data, employeeId);
+        if (recorded) {
+            return recorded;
+        }
+
+        const decision = await this.accessPolicyService.evaluate({
+            organizationId: data.organizationId,
+            deviceId: data.deviceId,
+            timestamp: new Date(data.timestamp),
+            employeeId,
+        });
+
+        if (!decision.granted && employeeId) {
+            this.logger.log('Access denied by the access policy', {
+                employeeId,
+                deviceId: data.deviceId,
+                doorId: decision.doorId,
+                reason: decision.reason,
+            });
+        }
+
+        return decision;
+    }
+
+    /**
+     * The access decision an access decision event was logged with, if it was made for the
+     * employee now identified
+     */
+    private getRecordedAccessDecision(
+        data: DeviceEventData,
+        employeeId?: string
+    ): AccessDecision | undefined {
+        if (data.eventType !== ACCESS_DECISION_EVENT_TYPE || !employeeId) {
+            return undefined;
+        }
+
+        const payload = data.rawData as Partial<AccessDecisionPayload> | undefined;
+        const decision = payload?.accessDecision;
+        if (
+            !decision ||
+            decision.decisionId !== data.eventLogId ||
+            payload.employeeId !== employeeId
+        ) {
+            return undefined;
+        }
+
+        return { granted: decision.granted, reason: decision.reason, doorId: decision.doorId };
+    }
+
     private async identifyEmployee(
-        job: Job<DeviceEventData>,
+        job: Job<DeviceEventData> | undefined,
         data: DeviceEventData
     ): Promise<string | undefined> {
         const scope: DataScope = {
@@ -141,6 +310,16 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
             branchIds: [data.branchId],
         };
 
+        // The employee chosen in triage for an event whose credential matched nobody
+        if (data.resolvedEmployeeId) {
+            const employee = await this.employeeRepository.findById(data.resolvedEmployeeId, scope);
+            if (!employee) {
+                throw new NotFoundException('Resolved employee not found');
+            }
+
+            return employee.id;
+        }
+
         // Try different identification methods
         if (data.rawData?.employeeId) {
             // Direct employee ID
@@ -150,11 +329,32 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
             }
         }
 
+        if (data.rawData?.employeeCode) {
+            // Employee code, used as the user PIN by devices that keep their own user list
+            const employee = await this.employeeRepository.findByEmployeeCode(
+                String(data.rawData.employeeCode),
+                scope
+            );
+            if (employee) {
+                return employee.id;
+            }
+        }
+
         if (data.rawData?.cardId) {
-            // Card-based identification
-            // In a real implementation, you'd have a card-to-employee mapping
-            this.logger.log('Card-based identification not implemented', {
+            // Card-based identification through the credential registry
+            const employeeId = await this.employeeCredentialService.findEmployeeIdByCredential(
+                CredentialType.CARD,
+                String(data.rawData.cardId),
+                scope,
+                new Date(data.timestamp)
+            );
+            if (employeeId) {
+                return employeeId;
+            }
+
+            this.logger.log('No active credential found for card', {
                 cardId: data.rawData.cardId,
+                deviceId: data.deviceId,
             });
         }
 
@@ -192,24 +392,30 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
             return 'ACCESS_DENIED';
         }
 
-        // Get the employee's last attendance record for today
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
         const scope: DataScope = {
             organizationId: data.organizationId,
             branchIds: [data.branchId],
         };
 
         try {
+            // Get the employee's last attendance record before the event within its attendance
+            // day, which may start at a boundary other than midnight (e.g. for night shifts).
+            // Events uploaded late are placed where they happened, not after the latest one.
+            const dayStart = await this.attendanceService.getAttendanceDayStart(
+                employeeId,
+                new Date(data.timestamp),
+                scope,
+                data.branchId
+            );
             const lastAttendance = await this.attendanceService.getLastAttendanceForEmployee(
                 employeeId,
-                today,
-                scope
+                dayStart,
+                scope,
+                new Date(data.timestamp)
             );
 
             if (!lastAttendance) {
-                // No attendance today, this is a CHECK_IN
+                // No attendance this attendance day, this is a CHECK_IN
                 return 'CHECK_IN';
             }
 
@@ -249,6 +455,7 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
                     metadata: {
                         rawEventData: data.rawData,
                         processingJobId: job.id,
+                        ...(data.eventLogId && { eventLogId: data.eventLogId }),
                     },
                 },
                 scope
@@ -266,11 +473,174 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
         }
     }
 
+    private async getPreviousAttendance(data: DeviceEventData): Promise<DeviceEventAttendance[]> {
+        const scope: DataScope = {
+            organizationId: data.organizationId,
+            branchIds: [data.branchId],
+        };
+
+        return this.attendanceService.getDeviceEventAttendance(
+            data.deviceId,
+            new Date(data.timestamp),
+            data.eventLogId || '',
+            scope,
+            data.previousEmployeeId
+        );
+    }
+
+    /**
+     * Remove the attendance a replayed event had recorded before. This happens after the new
+     * record is created, so an event of a locked pay period keeps its attendance.
+     */
+    private async replacePreviousAttendance(
+        data: DeviceEventData,
+        previous: DeviceEventAttendance[]
+    ): Promise<void> {
+        const scope: DataScope = {
+            organizationId: data.organizationId,
+            branchIds: [data.branchId],
+        };
+
+        for (const record of previous) {
+            await this.attendanceService.deleteAttendanceRecord(record.id, scope);
+        }
+
+        if (previous.length) {
+            this.logger.log('Replaced attendance of a replayed device event', {
+                deviceId: data.deviceId,
+                eventLogId: data.eventLogId,
+                replaced: previous.map(record => record.id),
+            });
+        }
+    }
+
+    private async queueTimesheetCalculation(
+        data: DeviceEventData,
+        employeeId: string
+    ): Promise<void> {
+        await this.queueProducer.processAttendanceCalculation({
+            employeeId,
+            date: data.timestamp,
+            organizationId: data.organizationId,
+            branchId: data.branchId,
+            correlationId: data.correlationId,
+        });
+    }
+
+    private async recordOutcome(
+        data: DeviceEventData,
+        outcome: DeviceEventOutcome,
+        employeeId?: string,
+        denialReason?: AccessDenialReason
+    ): Promise<void> {
+        if (data.eventLogId) {
+            await this.eventRepository.recordProcessingOutcome(data.eventLogId, outcome, {
+                employeeId,
+                denialReason,
+            });
+        }
+    }
+
+    /**
+     * An event presenting a credential nobody matches goes to the dead-letter store, while the
+     * job completes as denied. A replayed event that is processed closes its open failure.
+     */
+    private async settleFailure(
+        job: Job<DeviceEventData>,
+        data: DeviceEventData,
+        employeeId?: string
+    ): Promise<void> {
+        if (!employeeId && DeviceEventFailureUtil.hasCredential(data.rawData)) {
+            await this.recordFailure(
+                job,
+                DeviceEventFailureClass.UNMATCHED_CREDENTIAL,
+                'No employee matches the credential of the event'
+            );
+        } else if (data.replay && data.eventLogId) {
+            await this.failedEventRepository.resolveForEventLog(data.eventLogId);
+        }
+    }
+
+    /**
+     * A failure to record the failure is logged; the job fails with the original error
+     */
+    private async recordFailure(
+        job: Job<DeviceEventData>,
+        failureClass: DeviceEventFailureClass,
+        error: string
+    ): Promise<void> {
+        const { data } = job;
+
+        try {
+            await this.failedEventRepository.recordFailure({
+                organizationId: data.organizationId,
+                branchId: data.branchId,
+                deviceId: data.deviceId,
+                eventLogId: data.eventLogId,
+                failureClass,
+                error,
+                jobName: job.name,
+                jobId: job.id,
+                payload: data,
+            });
+        } catch (recordError) {
+            this.logger.warn('Failed to record a failed device event', {
+                error: recordError.message,
+                failureClass,
+                jobId: job.id,
+                deviceId: data.deviceId,
+            });
+        }
+    }
+
+    /**
+     * An event a device buffered while offline may land after later ones of the same day; the
+     * check-ins and check-outs after it are re-sequenced. The attendance record exists by now,
+     * so a failure here is logged rather than retrying the job.
+     */
+    private async reconcileAttendanceDay(data: DeviceEventData, employeeId: string): Promise<void> {
+        const scope: DataScope = {
+            organizationId: data.organizationId,
+            branchIds: [data.branchId],
+        };
+
+        try {
+            const dayStart = await this.attendanceService.getAttendanceDayStart(
+                employeeId,
+                new Date(data.timestamp),
+                scope,
+                data.branchId
+            );
+            const retyped = await this.attendanceService.resequenceAttendanceDay(
+                employeeId,
+                dayStart,
+                scope,
+                data.branchId
+            );
+
+            if (retyped) {
+                this.logger.log('Reconciled attendance after a late device event', {
+                    employeeId,
+                    deviceId: data.deviceId,
+                    timestamp: data.timestamp,
+                    retyped,
+                });
+            }
+        } catch (error) {
+            this.logger.warn('Failed to reconcile attendance day', {
+                error: error.message,
+                employeeId,
+                deviceId: data.deviceId,
+            });
+        }
+    }
+
     @OnWorkerEvent('completed')
     onCompleted(job: Job, result: ProcessedEventResult) {
         this.logger.log('Device event processed successfully', {
             jobId: job.id,
             eventType: result.eventType,
+            denialReason: result.denialReason,
             employeeId: result.employeeId,
             attendanceId: result.attendanceId,
             processingTime: result.processingTime,
@@ -286,6 +656,20 @@ export class DeviceEventProcessor extends BaseJobProcessor<DeviceEventData> {
             attemptsMade: job.attemptsMade,
             attemptsTotal: job.opts.attempts,
         });
+
+        // Shown on the device timeline; a later attempt that succeeds replaces it
+        if (job.data.eventLogId) {
+            this.eventRepository
+                .recordProcessingOutcome(job.data.eventLogId, DeviceEventOutcome.FAILED, {
+                    error: error.message,
+                })
+                .catch(recordError =>
+                    this.logger.warn('Failed to record the outcome of a device event', {
+                        error: recordError.message,
+                        eventLogId: job.data.eventLogId,
+                    })
+                );
+        }
     }
 
     @OnWorkerEvent('stalled')
@@ -5,6 +5,7 @@ import { LoggerService } from '../../logger/logger.service';
 import { BaseJobProcessor } from './base.processor';
 import { ReportGenerationData } from '../queue.producer';
 import { ReportingService } from '../../../modules/reporting/reporting.service';
+import { PayrollExportService } from '../../../modules/reporting/payroll-export.service';
 import { AttendanceService } from '../../../modules/attendance/attendance.service';
 import { EmployeeService } from '../../../modules/employee/employee.service';
 import { DeviceService } from '../../../modules/device/device.service';
@@ -12,7 +13,9 @@ import { GuestService } from '../../../modules/guest/guest.service';
 import { AuditLogService } from '../../../shared/services/audit-log.service';
 import { IStorageAdapter } from '../../../shared/adapters/storage.adapter';
 import { INotificationAdapter } from '../../../shared/adapters/notification.adapter';
+import { OrganizationService } from '../../../modules/organization/organization.service';
 import { DataScope } from '../../../shared/interfaces';
+import { TimezoneUtil } from '../../../shared/utils';
 
 @Injectable()
 @Processor('exports')
@@ -25,6 +28,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         private readonly deviceService: DeviceService,
         private readonly guestService: GuestService,
         private readonly auditLogService: AuditLogService,
+        private readonly organizationService: OrganizationService,
+        private readonly payrollExportService: PayrollExportService,
         @Inject('IStorageAdapter') private readonly storageAdapter: IStorageAdapter,
         @Inject('INotificationAdapter') private readonly notificationAdapter: INotificationAdapter
     ) {
@@ -62,10 +67,16 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
                 branchIds: [], // Will be populated based on user permissions
             };
 
+            // Timestamps are written in the branch's (or organization's) local time
+            const timeZone = await this.organizationService.getTimeZone(
+                data.organizationId,
+                data.parameters?.branchId
+            );
+
             switch (data.type) {
                 case 'DAILY_ATTENDANCE':
                     ({ reportData, fileName, recordCount } =
-                        await this.generateDailyAttendanceReport(data, scope, job));
+                        await this.generateDailyAttendanceReport(data, scope, job, timeZone));
                     break;
                 case 'WEEKLY_ATTENDANCE':
                     ({ reportData, fileName, recordCount } =
@@ -79,25 +90,36 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
                     ({ reportData, fileName, recordCount } = await this.generateEmployeeListReport(
                         data,
                         scope,
-                        job
+                        job,
+                        timeZone
                     ));
                     break;
                 case 'DEVICE_STATUS':
                     ({ reportData, fileName, recordCount } = await this.generateDeviceStatusReport(
                         data,
                         scope,
-                        job
+                        job,
+                        timeZone
                     ));
                     break;
                 case 'GUEST_VISITS':
                     ({ reportData, fileName, recordCount } = await this.generateGuestVisitsReport(
                         data,
                         scope,
-                        job
+                        job,
+                        timeZone
                     ));
                     break;
                 case 'SECURITY_AUDIT':
                     ({ reportData, fileName, recordCount } = await this.generateSecurityAuditReport(
+                        data,
+                        scope,
+                        job,
+                        timeZone
+                    ));
+                    break;
+                case 'PAYROLL_EXPORT':
+                    ({ reportData, fileName, recordCount } = await this.generatePayrollExport(
                         data,
                         scope,
                         job
@@ -170,15 +192,15 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
     private async generateDailyAttendanceReport(
         data: ReportGenerationData,
         scope: DataScope,
-        job: Job
+        job: Job,
+        timeZone?: string
     ) {
         const { date, branchId, includeDetails } = data.parameters;
-        const reportDate = new Date(date);
 
         await this.updateProgress(job, 20, 'Fetching attendance data');
 
         const attendanceReport = await this.attendanceService.getDailyAttendanceReport(
-            reportDate,
+            date,
             branchId,
             scope
         );
@@ -189,7 +211,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         let fileName: string;
 
         if (data.format === 'CSV') {
-            reportData = this.formatDailyAttendanceCSV(attendanceReport, includeDetails);
+            reportData = this.formatDailyAttendanceCSV(attendanceReport, includeDetails, timeZone);
             fileName = `daily-attendance-${date}.csv`;
         } else {
             throw new Error(`Format ${data.format} not supported for daily attendance reports`);
@@ -208,12 +230,11 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         job: Job
     ) {
         const { startDate, branchId, includeSummary } = data.parameters;
-        const weekStartDate = new Date(startDate);
 
         await this.updateProgress(job, 20, 'Fetching weekly attendance data');
 
         const weeklyReport = await this.attendanceService.getWeeklyAttendanceReport(
-            weekStartDate,
+            startDate,
             branchId,
             scope
         );
@@ -280,7 +301,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
     private async generateEmployeeListReport(
         data: ReportGenerationData,
         scope: DataScope,
-        job: Job
+        job: Job,
+        timeZone?: string
     ) {
         const { branchId, departmentId, isActive, includeContactInfo } = data.parameters;
 
@@ -306,7 +328,11 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         let fileName: string;
 
         if (data.format === 'CSV') {
-            reportData = this.formatEmployeeListCSV(filteredEmployees, includeContactInfo);
+            reportData = this.formatEmployeeListCSV(
+                filteredEmployees,
+                includeContactInfo,
+                timeZone
+            );
             fileName = 'employee-list.csv';
         } else {
             throw new Error(`Format ${data.format} not supported for employee list reports`);
@@ -322,7 +348,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
     private async generateDeviceStatusReport(
         data: ReportGenerationData,
         scope: DataScope,
-        job: Job
+        job: Job,
+        timeZone?: string
     ) {
         const { branchId, deviceType, includeOffline } = data.parameters;
 
@@ -348,7 +375,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         let fileName: string;
 
         if (data.format === 'CSV') {
-            reportData = this.formatDeviceStatusCSV(filteredDevices);
+            reportData = this.formatDeviceStatusCSV(filteredDevices, timeZone);
             fileName = 'device-status.csv';
         } else {
             throw new Error(`Format ${data.format} not supported for device status reports`);
@@ -364,7 +391,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
     private async generateGuestVisitsReport(
         data: ReportGenerationData,
         scope: DataScope,
-        job: Job
+        job: Job,
+        timeZone?: string
     ) {
         const { startDate, endDate, branchId, status } = data.parameters;
 
@@ -385,7 +413,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         let fileName: string;
 
         if (data.format === 'CSV') {
-            reportData = this.formatGuestVisitsCSV(guestVisits);
+            reportData = this.formatGuestVisitsCSV(guestVisits, timeZone);
             fileName = `guest-visits-${startDate}-to-${endDate}.csv`;
         } else {
             throw new Error(`Format ${data.format} not supported for guest visits reports`);
@@ -401,7 +429,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
     private async generateSecurityAuditReport(
         data: ReportGenerationData,
         scope: DataScope,
-        job: Job
+        job: Job,
+        timeZone?: string
     ) {
         const { startDate, endDate, severity, includeDetails } = data.parameters;
 
@@ -424,7 +453,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         let fileName: string;
 
         if (data.format === 'CSV') {
-            reportData = this.formatSecurityAuditCSV(securityEvents.data, includeDetails);
+            reportData = this.formatSecurityAuditCSV(securityEvents.data, includeDetails, timeZone);
             fileName = `security-audit-${startDate}-to-${endDate}.csv`;
         } else {
             throw new Error(`Format ${data.format} not supported for security audit reports`);
@@ -437,7 +466,36 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         };
     }
 
-    private formatDailyAttendanceCSV(report: any, includeDetails: boolean): string {
+    private async generatePayrollExport(data: ReportGenerationData, scope: DataScope, job: Job) {
+        const { profile, startDate, endDate, branchId } = data.parameters;
+
+        if (data.format !== 'CSV') {
+            throw new Error(`Format ${data.format} not supported for payroll exports`);
+        }
+
+        await this.updateProgress(job, 20, 'Fetching timesheets');
+
+        // The profile was copied into the parameters when the export was requested
+        const { content, fileName, recordCount } = await this.payrollExportService.generateExport(
+            profile,
+            { startDate, endDate, branchId },
+            scope
+        );
+
+        await this.updateProgress(job, 50, 'Formatting report data');
+
+        return {
+            reportData: content,
+            fileName,
+            recordCount,
+        };
+    }
+
+    private formatDailyAttendanceCSV(
+        report: any,
+        includeDetails: boolean,
+        timeZone?: string
+    ): string {
         const headers = [
             'Employee Code',
             'Employee Name',
@@ -457,14 +515,22 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
                 `${employee.employee.firstName} ${employee.employee.lastName}`,
                 employee.status,
                 employee.totalHours.toString(),
-                employee.firstCheckIn ? employee.firstCheckIn.toISOString() : '',
-                employee.lastCheckOut ? employee.lastCheckOut.toISOString() : '',
+                employee.firstCheckIn
+                    ? TimezoneUtil.formatIso(employee.firstCheckIn, timeZone)
+                    : '',
+                employee.lastCheckOut
+                    ? TimezoneUtil.formatIso(employee.lastCheckOut, timeZone)
+                    : '',
             ];
 
             if (includeDetails) {
                 row.push(
-                    employee.checkIns.map((time: Date) => time.toISOString()).join('; '),
-                    employee.checkOuts.map((time: Date) => time.toISOString()).join('; ')
+                    employee.checkIns
+                        .map((time: Date) => TimezoneUtil.formatIso(time, timeZone))
+                        .join('; '),
+                    employee.checkOuts
+                        .map((time: Date) => TimezoneUtil.formatIso(time, timeZone))
+                        .join('; ')
                 );
             }
 
@@ -482,8 +548,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
 
         if (includeSummary) {
             csvContent += `Weekly Summary\n`;
-            csvContent += `Start Date,${report.startDate.toISOString().split('T')[0]}\n`;
-            csvContent += `End Date,${report.endDate.toISOString().split('T')[0]}\n`;
+            csvContent += `Start Date,${report.dailyReports[0].date}\n`;
+            csvContent += `End Date,${report.dailyReports[report.dailyReports.length - 1].date}\n`;
             csvContent += `Total Hours,${report.totalHours}\n`;
             csvContent += `Average Daily Hours,${report.averageDailyHours}\n`;
             csvContent += `Total Employees,${report.totalEmployees}\n\n`;
@@ -493,7 +559,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
 
         report.dailyReports.forEach((daily: any) => {
             csvContent += `${[
-                daily.date.toISOString().split('T')[0],
+                daily.date,
                 daily.totalEmployees,
                 daily.presentEmployees,
                 daily.partialEmployees,
@@ -534,7 +600,11 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         return csvContent;
     }
 
-    private formatEmployeeListCSV(employees: any[], includeContactInfo: boolean): string {
+    private formatEmployeeListCSV(
+        employees: any[],
+        includeContactInfo: boolean,
+        timeZone?: string
+    ): string {
         const headers = [
             'Employee Code',
             'First Name',
@@ -557,7 +627,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
                 employee.branchId,
                 employee.departmentId || '',
                 employee.isActive ? 'Active' : 'Inactive',
-                employee.createdAt.toISOString(),
+                TimezoneUtil.formatIso(employee.createdAt, timeZone),
             ];
 
             if (includeContactInfo) {
@@ -573,7 +643,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         ].join('\n');
     }
 
-    private formatDeviceStatusCSV(devices: any[]): string {
+    private formatDeviceStatusCSV(devices: any[], timeZone?: string): string {
         const headers = [
             'Device Name',
             'Device Type',
@@ -590,8 +660,8 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
             device.status,
             device.branchId,
             device.ipAddress || '',
-            device.lastSeen ? device.lastSeen.toISOString() : '',
-            device.createdAt.toISOString(),
+            device.lastSeen ? TimezoneUtil.formatIso(device.lastSeen, timeZone) : '',
+            TimezoneUtil.formatIso(device.createdAt, timeZone),
         ]);
 
         return [
@@ -600,7 +670,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         ].join('\n');
     }
 
-    private formatGuestVisitsCSV(guestVisits: any[]): string {
+    private formatGuestVisitsCSV(guestVisits: any[], timeZone?: string): string {
         const headers = [
             'Guest Name',
             'Guest Email',
@@ -614,11 +684,11 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         const rows = guestVisits.map(visit => [
             visit.guestName,
             visit.guestEmail,
-            visit.visitDate.toISOString(),
+            TimezoneUtil.formatIso(visit.scheduledEntryTime, timeZone),
             visit.status,
             visit.branchId,
             visit.approvedBy || '',
-            visit.createdAt.toISOString(),
+            TimezoneUtil.formatIso(visit.createdAt, timeZone),
         ]);
 
         return [
@@ -627,7 +697,11 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
         ].join('\n');
     }
 
-    private formatSecurityAuditCSV(auditLogs: any[], includeDetails: boolean): string {
+    private formatSecurityAuditCSV(
+        auditLogs: any[],
+        includeDetails: boolean,
+        timeZone?: string
+    ): string {
         const headers = [
             'Timestamp',
             'Action',
@@ -644,7 +718,7 @@ export class ReportGenerationProcessor extends BaseJobProcessor<ReportGeneration
 
         const rows = auditLogs.map(log => {
             const row = [
-                log.timestamp.toISOString(),
+                TimezoneUtil.formatIso(log.timestamp, timeZone),
                 log.action,
                 log.resource,
                 log.user?.email || '',
@@ -6,10 +6,18 @@ import { QueueProducer } from './queue.producer';
 import { QueueController } from './queue.controller';
 import { QueueMonitorProcessor } from './queue.monitor';
 import { DeviceEventProcessor } from './processors/device-event.processor';
+import { DeviceCommandProcessor } from './processors/device-command.processor';
 import { LoggerModule } from '../logger/logger.module';
 import { EmployeeModule } from '../../modules/employee/employee.module';
 import { AttendanceModule } from '../../modules/attendance/attendance.module';
+import { DeviceModule } from '../../modules/device/device.module';
+import { EventRepository } from '../../modules/events/event.repository';
+import { FailedDeviceEventRepository } from '../../modules/events/failed-event.repository';
+import { DeviceCommandRepository } from '../../modules/device-command/device-command.repository';
+import { FirmwareCampaignRepository } from '../../modules/firmware/firmware-campaign.repository';
+import { FirmwareRolloutService } from '../../modules/firmware/firmware-rollout.service';
 import { AdapterModule } from '@/shared/adapters/adapter.module';
+import { AccessControlModule } from '../../modules/access-control/access-control.module';
 
 @Module({
     imports: [
@@ -17,7 +25,9 @@ import { AdapterModule } from '@/shared/adapters/adapter.module';
         LoggerModule,
         EmployeeModule,
         AttendanceModule,
+        DeviceModule,
         AdapterModule,
+        AccessControlModule,
         BullModule.forRootAsync({
             imports: [ConfigModule],
             useFactory: async (configService: ConfigService) => ({
@@ -43,11 +53,29 @@ import { AdapterModule } from '@/shared/adapters/adapter.module';
             { name: 'events' },
             { name: 'notifications' },
             { name: 'exports' },
-            { name: 'system-health' }
+            { name: 'system-health' },
+            { name: 'device-commands' }
         ),
     ],
     controllers: [QueueController],
-    providers: [QueueService, QueueProducer, QueueMonitorProcessor, DeviceEventProcessor],
-    exports: [QueueService, QueueProducer, BullModule],
+    providers: [
+        QueueService,
+        QueueProducer,
+        QueueMonitorProcessor,
+        DeviceEventProcessor,
+        DeviceCommandProcessor,
+        EventRepository,
+        FailedDeviceEventRepository,
+        DeviceCommandRepository,
+        FirmwareCampaignRepository,
+        FirmwareRolloutService,
+    ],
+    exports: [
+        QueueService,
+        QueueProducer,
+        DeviceEventProcessor,
+        FirmwareRolloutService,
+        BullModule,
+    ],
 })
 export class QueueModule {}
@@ -1,19 +1,59 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { LoggerService } from '../logger/logger.service';
 import { QueueService } from './queue.service';
+import { QueueProducer } from './queue.producer';
+import { DeviceHeartbeatService } from '../../modules/device/device-heartbeat.service';
+import { DeviceEnrollmentService } from '../../modules/device/device-enrollment.service';
+import { DeviceCommandRepository } from '../../modules/device-command/device-command.repository';
+import { FirmwareRolloutService } from '../../modules/firmware/firmware-rollout.service';
 
 @Injectable()
 @Processor('system-health')
-export class QueueMonitorProcessor extends WorkerHost {
+export class QueueMonitorProcessor extends WorkerHost implements OnApplicationBootstrap {
     constructor(
         private readonly logger: LoggerService,
-        private readonly queueService: QueueService
+        private readonly queueService: QueueService,
+        private readonly queueProducer: QueueProducer,
+        private readonly deviceHeartbeatService: DeviceHeartbeatService,
+        private readonly deviceEnrollmentService: DeviceEnrollmentService,
+        private readonly deviceCommandRepository: DeviceCommandRepository,
+        private readonly firmwareRolloutService: FirmwareRolloutService
     ) {
         super();
     }
 
+    /**
+     * Offline detection, command and enrollment token expiry and firmware rollouts have to run
+     * without anyone starting them; repeated jobs are only added once
+     */
+    async onApplicationBootstrap() {
+        try {
+            await this.queueProducer.scheduleDeviceHeartbeatCheck();
+        } catch (error) {
+            this.logger.error('Failed to schedule the device heartbeat check', error);
+        }
+
+        try {
+            await this.queueProducer.scheduleDeviceCommandExpiry();
+        } catch (error) {
+            this.logger.error('Failed to schedule the device command expiry', error);
+        }
+
+        try {
+            await this.queueProducer.scheduleDeviceEnrollmentTokenExpiry();
+        } catch (error) {
+            this.logger.error('Failed to schedule the device enrollment token expiry', error);
+        }
+
+        try {
+            await this.queueProducer.scheduleFirmwareCampaignProgress();
+        } catch (error) {
+            this.logger.error('Failed to schedule the firmware campaign progress', error);
+        }
+    }
+
     async process(job: Job): Promise<any> {
         switch (job.name) {
             case 'queue-monitoring':
@@ -22,11 +62,37 @@ export class QueueMonitorProcessor extends WorkerHost {
                 return this.performHealthCheck(job.data);
             case 'database-cleanup':
                 return this.performDatabaseCleanup(job.data);
+            case 'device-heartbeat-check':
+                return this.deviceHeartbeatService.detectStaleDevices();
+            case 'device-command-expiry':
+                return this.expireDeviceCommands();
+            case 'device-enrollment-token-expiry':
+                return this.expireEnrollmentTokens();
+            case 'firmware-campaign-progress':
+                return this.firmwareRolloutService.advanceCampaigns();
             default:
                 throw new Error(`Unknown job type: ${job.name}`);
         }
     }
 
+    private async expireDeviceCommands() {
+        const expired = await this.deviceCommandRepository.expireOverdue();
+        if (expired) {
+            this.logger.log('Expired device commands not completed in time', { expired });
+        }
+
+        return { expired };
+    }
+
+    private async expireEnrollmentTokens() {
+        const expired = await this.deviceEnrollmentService.expireLapsedTokens();
+        if (expired) {
+            this.logger.log('Expired device enrollment tokens not used in time', { expired });
+        }
+
+        return { expired };
+    }
+
     private async monitorQueues() {
         try {
             const stats = await this.queueService.getAllQueueStats();
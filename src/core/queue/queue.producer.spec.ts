@@ -12,6 +12,7 @@ describe('QueueProducer', () => {
             addNotificationJob: jest.fn(),
             addExportJob: jest.fn(),
             addSystemHealthJob: jest.fn(),
+            addDeviceCommandJob: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -59,6 +60,42 @@ describe('QueueProducer', () => {
         });
     });
 
+    describe('replayDeviceEvent', () => {
+        it('should add a replay job below the priority of real-time events', async () => {
+            const eventData: DeviceEventData = {
+                deviceId: 'device-123',
+                eventType: 'access_attempt',
+                timestamp: new Date(),
+                rawData: { cardId: 'card-456' },
+                organizationId: 'org-123',
+                branchId: 'branch-123',
+                eventLogId: 'event-log-123',
+            };
+
+            await producer.replayDeviceEvent(eventData);
+
+            expect(queueService.addEventJob).toHaveBeenCalledWith(
+                'replay-device-event',
+                { ...eventData, replay: true },
+                { priority: 4 }
+            );
+        });
+    });
+
+    describe('sendDeviceCommand', () => {
+        it('should add a device command job with the attempts of the command', async () => {
+            const commandData = { commandId: 'command-123', organizationId: 'org-123' };
+
+            await producer.sendDeviceCommand(commandData, 5);
+
+            expect(queueService.addDeviceCommandJob).toHaveBeenCalledWith(
+                'send-device-command',
+                commandData,
+                { attempts: 5, priority: 9 }
+            );
+        });
+    });
+
     describe('processAttendanceCalculation', () => {
         it('should add attendance calculation job', async () => {
             const attendanceData = {
@@ -206,6 +243,26 @@ describe('QueueProducer', () => {
         });
     });
 
+    describe('scheduleDeviceHeartbeatCheck', () => {
+        it('should check device heartbeats every minute', async () => {
+            const mockJob = { id: 'job-heartbeat' };
+            queueService.addSystemHealthJob.mockResolvedValue(mockJob as any);
+
+            const result = await producer.scheduleDeviceHeartbeatCheck();
+
+            expect(queueService.addSystemHealthJob).toHaveBeenCalledWith(
+                'device-heartbeat-check',
+                {},
+                {
+                    repeat: {
+                        pattern: '* * * * *', // Every minute
+                    },
+                }
+            );
+            expect(result).toBe(mockJob);
+        });
+    });
+
     describe('processGuestVisitExpiration', () => {
         it('should schedule guest visit expiration with correct delay', async () => {
             const futureDate = new Date(Date.now() + 3600000); // 1 hour from now
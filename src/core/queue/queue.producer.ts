@@ -9,6 +9,26 @@ export interface DeviceEventData extends QueueJobData {
     organizationId: string;
     branchId: string;
     idempotencyKey?: string;
+    /** The device event log entry the event was recorded under */
+    eventLogId?: string;
+    /** Processed again, replacing the attendance recorded for it before */
+    replay?: boolean;
+    /** The employee the event was attributed to when last processed */
+    previousEmployeeId?: string;
+    /** The employee of the event, set in triage when its credential did not match */
+    resolvedEmployeeId?: string;
+}
+
+export interface AttendanceCalculationData extends QueueJobData {
+    employeeId: string;
+    date: Date;
+    organizationId: string;
+    branchId: string;
+}
+
+export interface DeviceCommandJobData extends QueueJobData {
+    commandId: string;
+    organizationId: string;
 }
 
 export interface NotificationData extends QueueJobData {
@@ -64,24 +84,45 @@ export class QueueProducer {
         });
     }
 
+    /**
+     * Process a recorded device event again, e.g. to rebuild attendance after a matching fix
+     */
+    async replayDeviceEvent(data: DeviceEventData, options?: QueueJobOptions) {
+        return this.queueService.addEventJob(
+            'replay-device-event',
+            { ...data, replay: true },
+            {
+                ...options,
+                priority: 4, // Below real-time events, so a large replay does not delay them
+            }
+        );
+    }
+
     /**
      * Process attendance calculation
      */
-    async processAttendanceCalculation(
-        data: {
-            employeeId: string;
-            date: Date;
-            organizationId: string;
-            branchId: string;
-        },
-        options?: QueueJobOptions
-    ) {
+    async processAttendanceCalculation(data: AttendanceCalculationData, options?: QueueJobOptions) {
         return this.queueService.addEventJob('process-attendance-calculation', data, {
             ...options,
             priority: 8,
         });
     }
 
+    /**
+     * Send a device command; attempts are those of the command, retried while it has not expired
+     */
+    async sendDeviceCommand(
+        data: DeviceCommandJobData,
+        maxAttempts: number,
+        options?: QueueJobOptions
+    ) {
+        return this.queueService.addDeviceCommandJob('send-device-command', data, {
+            ...options,
+            attempts: maxAttempts,
+            priority: 9, // Door commands are issued by someone waiting at the door
+        });
+    }
+
     /**
      * Send notification
      */
@@ -172,6 +213,70 @@ export class QueueProducer {
         );
     }
 
+    /**
+     * Device heartbeat check, flipping silent devices to DEGRADED or OFFLINE
+     */
+    async scheduleDeviceHeartbeatCheck(options?: QueueJobOptions) {
+        return this.queueService.addSystemHealthJob(
+            'device-heartbeat-check',
+            {},
+            {
+                ...options,
+                repeat: {
+                    pattern: '* * * * *', // Every minute
+                },
+            }
+        );
+    }
+
+    /**
+     * Device command expiry, for commands not completed before their timeout
+     */
+    async scheduleDeviceCommandExpiry(options?: QueueJobOptions) {
+        return this.queueService.addSystemHealthJob(
+            'device-command-expiry',
+            {},
+            {
+                ...options,
+                repeat: {
+                    pattern: '* * * * *', // Every minute
+                },
+            }
+        );
+    }
+
+    /**
+     * Device enrollment token expiry, for codes that ran out unused
+     */
+    async scheduleDeviceEnrollmentTokenExpiry(options?: QueueJobOptions) {
+        return this.queueService.addSystemHealthJob(
+            'device-enrollment-token-expiry',
+            {},
+            {
+                ...options,
+                repeat: {
+                    pattern: '*/5 * * * *', // Every 5 minutes
+                },
+            }
+        );
+    }
+
+    /**
+     * Firmware campaign progress, which settles updates and sends the next waves
+     */
+    async scheduleFirmwareCampaignProgress(options?: QueueJobOptions) {
+        return this.queueService.addSystemHealthJob(
+            'firmware-campaign-progress',
+            {},
+            {
+                ...options,
+                repeat: {
+                    pattern: '* * * * *', // Every minute
+                },
+            }
+        );
+    }
+
     /**
      * Process guest visit expiration
      */
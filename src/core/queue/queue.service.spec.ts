@@ -9,6 +9,7 @@ describe('QueueService', () => {
     let mockNotificationsQueue: any;
     let mockExportsQueue: any;
     let mockSystemHealthQueue: any;
+    let mockDeviceCommandsQueue: any;
     let loggerService: jest.Mocked<LoggerService>;
 
     beforeEach(async () => {
@@ -26,6 +27,7 @@ describe('QueueService', () => {
         mockNotificationsQueue = { ...mockQueue };
         mockExportsQueue = { ...mockQueue };
         mockSystemHealthQueue = { ...mockQueue };
+        mockDeviceCommandsQueue = { ...mockQueue };
 
         const mockLoggerService = {
             log: jest.fn(),
@@ -53,6 +55,10 @@ describe('QueueService', () => {
                     provide: getQueueToken('system-health'),
                     useValue: mockSystemHealthQueue,
                 },
+                {
+                    provide: getQueueToken('device-commands'),
+                    useValue: mockDeviceCommandsQueue,
+                },
                 {
                     provide: LoggerService,
                     useValue: mockLoggerService,
@@ -130,6 +136,32 @@ describe('QueueService', () => {
         });
     });
 
+    describe('addDeviceCommandJob', () => {
+        it('should add job to device commands queue with a slower backoff', async () => {
+            const mockJob = { id: 'job-789' };
+            const jobData = { organizationId: 'org-123', commandId: 'command-123' };
+
+            mockDeviceCommandsQueue.add.mockResolvedValue(mockJob);
+
+            const result = await service.addDeviceCommandJob('send-device-command', jobData, {
+                attempts: 5,
+            });
+
+            expect(mockDeviceCommandsQueue.add).toHaveBeenCalledWith(
+                'send-device-command',
+                jobData,
+                {
+                    attempts: 5,
+                    backoff: {
+                        type: 'exponential',
+                        delay: 10000,
+                    },
+                }
+            );
+            expect(result).toBe(mockJob);
+        });
+    });
+
     describe('getQueueStats', () => {
         it('should return queue statistics', async () => {
             const mockJobs = {
@@ -181,6 +213,7 @@ describe('QueueService', () => {
                 mockNotificationsQueue,
                 mockExportsQueue,
                 mockSystemHealthQueue,
+                mockDeviceCommandsQueue,
             ].forEach(queue => {
                 Object.keys(mockStats).forEach(method => {
                     queue[
@@ -191,12 +224,13 @@ describe('QueueService', () => {
 
             const result = await service.getAllQueueStats();
 
-            expect(result).toHaveLength(4);
+            expect(result).toHaveLength(5);
             expect(result.map(stat => stat.name)).toEqual([
                 'events',
                 'notifications',
                 'exports',
                 'system-health',
+                'device-commands',
             ]);
         });
     });
@@ -23,6 +23,7 @@ export class QueueService {
         @InjectQueue('notifications') private notificationsQueue: Queue,
         @InjectQueue('exports') private exportsQueue: Queue,
         @InjectQueue('system-health') private systemHealthQueue: Queue,
+        @InjectQueue('device-commands') private deviceCommandsQueue: Queue,
         private readonly logger: LoggerService
     ) {}
 
@@ -162,6 +163,40 @@ export class QueueService {
         }
     }
 
+    /**
+     * Add job to device commands queue
+     */
+    async addDeviceCommandJob(
+        jobName: string,
+        data: QueueJobData,
+        options?: QueueJobOptions
+    ): Promise<Job> {
+        try {
+            const job = await this.deviceCommandsQueue.add(jobName, data, {
+                ...options,
+                attempts: options?.attempts || 3,
+                backoff: options?.backoff || {
+                    type: 'exponential',
+                    delay: 10000, // Devices that are offline often take a while to come back
+                },
+            });
+
+            this.logger.log(`Device command job added: ${jobName}`, {
+                jobId: job.id,
+                queueName: 'device-commands',
+                data,
+            });
+
+            return job;
+        } catch (error) {
+            this.logger.error(`Failed to add device command job: ${jobName}`, error, {
+                data,
+                options,
+            });
+            throw error;
+        }
+    }
+
     /**
      * Get queue statistics
      */
@@ -181,6 +216,9 @@ export class QueueService {
             case 'system-health':
                 queue = this.systemHealthQueue;
                 break;
+            case 'device-commands':
+                queue = this.deviceCommandsQueue;
+                break;
             default:
                 throw new Error(`Unknown queue: ${queueName}`);
         }
@@ -207,7 +245,13 @@ export class QueueService {
      * Get all queue statistics
      */
     async getAllQueueStats() {
-        const queueNames = ['events', 'notifications', 'exports', 'system-health'];
+        const queueNames = [
+            'events',
+            'notifications',
+            'exports',
+            'system-health',
+            'device-commands',
+        ];
         const stats = await Promise.all(queueNames.map(name => this.getQueueStats(name)));
 
         return stats;
@@ -233,6 +277,9 @@ export class QueueService {
             case 'system-health':
                 queue = this.systemHealthQueue;
                 break;
+            case 'device-commands':
+                queue = this.deviceCommandsQueue;
+                break;
             default:
                 throw new Error(`Unknown queue: ${queueName}`);
         }
@@ -262,6 +309,9 @@ export class QueueService {
             case 'system-health':
                 queue = this.systemHealthQueue;
                 break;
+            case 'device-commands':
+                queue = this.deviceCommandsQueue;
+                break;
             default:
                 throw new Error(`Unknown queue: ${queueName}`);
         }
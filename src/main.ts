@@ -1,13 +1,15 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app/app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ConfigService } from './core/config/config.service';
 import { LoggerService } from './core/logger/logger.service';
 
 async function bootstrap() {
-    const app = await NestFactory.create(AppModule, {
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
         bufferLogs: true,
+        rawBody: true, // Device signatures cover the body as sent
     });
 
     // Get services
@@ -43,8 +45,14 @@ async function bootstrap() {
         })
     );
 
-    // Global prefix for all routes
-    app.setGlobalPrefix('api/v1');
+    // Global prefix for all routes but the ZKTeco push protocol, whose paths are fixed on devices
+    app.setGlobalPrefix('api/v1', { exclude: ['iclock/*path'] });
+
+    // Devices flush the events they buffered while offline in one batch
+    app.useBodyParser('json', { limit: '1mb' });
+
+    // ZKTeco devices send plain text whatever content type they claim
+    app.useBodyParser('text', { type: req => (req.url || '').startsWith('/iclock/') });
 
     const config = new DocumentBuilder()
         .setTitle('Sector Staff API')
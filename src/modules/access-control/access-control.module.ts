@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { AccessLevelController } from './access-level.controller';
+import { AccessLevelRepository } from './access-level.repository';
+import { AccessLevelService } from './access-level.service';
+import { AccessPolicyService } from './access-policy.service';
+import { AccessZoneController } from './access-zone.controller';
+import { AccessZoneRepository } from './access-zone.repository';
+import { AccessZoneService } from './access-zone.service';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule],
+    controllers: [AccessZoneController, AccessLevelController],
+    providers: [
+        AccessZoneService,
+        AccessZoneRepository,
+        AccessLevelService,
+        AccessLevelRepository,
+        AccessPolicyService,
+    ],
+    exports: [AccessPolicyService, AccessLevelRepository],
+})
+export class AccessControlModule {}
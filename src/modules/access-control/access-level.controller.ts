@@ -0,0 +1,240 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { AccessLevelAssignment } from '@prisma/client';
+import { AccessLevelService } from './access-level.service';
+import { AccessLevelWithZones } from './access-level.repository';
+import {
+    AccessLevelAssignmentResponseDto,
+    AccessLevelFiltersDto,
+    AccessLevelResponseDto,
+    AccessLevelScheduleDto,
+    CreateAccessLevelAssignmentDto,
+    CreateAccessLevelDto,
+    PaginationDto,
+    PaginationResponseDto,
+    UpdateAccessLevelDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Access Control')
+@ApiBearerAuth()
+@Controller('access-levels')
+export class AccessLevelController {
+    constructor(private readonly accessLevelService: AccessLevelService) {}
+
+    @Post()
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Create an access level from zones and weekly schedules' })
+    @ApiBody({ type: CreateAccessLevelDto })
+    @ApiResponse({ status: 201, type: AccessLevelResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access zone not found.' })
+    @ApiResponse({ status: 409, description: 'An access level with this name exists.' })
+    async createAccessLevel(
+        @Body() createLevelDto: CreateAccessLevelDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AccessLevelResponseDto> {
+        const level = await this.accessLevelService.createAccessLevel(
+            createLevelDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(level);
+    }
+
+    @Get()
+    @Permissions('access:read')
+    @ApiOperation({ summary: 'Get the access levels of the organization' })
+    @ApiQuery({ name: 'filtersDto', type: AccessLevelFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getAccessLevels(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: AccessLevelFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<AccessLevelResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.accessLevelService.getAccessLevels(
+            { search: filtersDto.search },
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            data.map(level => this.toResponse(level)),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Delete('assignments/:assignmentId')
+    @Permissions('access:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Remove an access level assignment' })
+    @ApiParam({ name: 'assignmentId', description: 'ID of the access level assignment' })
+    @ApiResponse({ status: 204, description: 'The assignment has been removed.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level assignment not found.' })
+    async removeAssignment(
+        @Param('assignmentId') assignmentId: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.accessLevelService.removeAssignment(assignmentId, scope, user.sub);
+    }
+
+    @Get(':id')
+    @Permissions('access:read')
+    @ApiOperation({ summary: 'Get an access level' })
+    @ApiParam({ name: 'id', description: 'ID of the access level' })
+    @ApiResponse({ status: 200, type: AccessLevelResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level not found.' })
+    async getAccessLevelById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<AccessLevelResponseDto> {
+        return this.toResponse(await this.accessLevelService.getAccessLevelById(id, scope));
+    }
+
+    @Patch(':id')
+    @Permissions('access:manage')
+    @ApiOperation({
+        summary: 'Update an access level',
+        description: 'Zones and schedules given replace those of the level.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the access level' })
+    @ApiBody({ type: UpdateAccessLevelDto })
+    @ApiResponse({ status: 200, type: AccessLevelResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level or zone not found.' })
+    @ApiResponse({ status: 409, description: 'An access level with this name exists.' })
+    async updateAccessLevel(
+        @Param('id') id: string,
+        @Body() updateLevelDto: UpdateAccessLevelDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AccessLevelResponseDto> {
+        const level = await this.accessLevelService.updateAccessLevel(
+            id,
+            updateLevelDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(level);
+    }
+
+    @Delete(':id')
+    @Permissions('access:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete an access level and its assignments' })
+    @ApiParam({ name: 'id', description: 'ID of the access level' })
+    @ApiResponse({ status: 204, description: 'The access level has been deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level not found.' })
+    async deleteAccessLevel(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.accessLevelService.deleteAccessLevel(id, scope, user.sub);
+    }
+
+    @Post(':id/assignments')
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Assign an access level to an employee, department or guest visit' })
+    @ApiParam({ name: 'id', description: 'ID of the access level' })
+    @ApiBody({ type: CreateAccessLevelAssignmentDto })
+    @ApiResponse({ status: 201, type: AccessLevelAssignmentResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level or assignment target not found.' })
+    async assignAccessLevel(
+        @Param('id') id: string,
+        @Body() assignmentDto: CreateAccessLevelAssignmentDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AccessLevelAssignmentResponseDto> {
+        const assignment = await this.accessLevelService.assignAccessLevel(
+            id,
+            assignmentDto,
+            scope,
+            user.sub
+        );
+
+        return this.toAssignmentResponse(assignment);
+    }
+
+    @Get(':id/assignments')
+    @Permissions('access:read')
+    @ApiOperation({ summary: 'Get the assignments of an access level' })
+    @ApiParam({ name: 'id', description: 'ID of the access level' })
+    @ApiResponse({ status: 200, type: [AccessLevelAssignmentResponseDto] })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access level not found.' })
+    async getAssignments(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<AccessLevelAssignmentResponseDto[]> {
+        const assignments = await this.accessLevelService.getAssignments(id, scope);
+
+        return assignments.map(assignment => this.toAssignmentResponse(assignment));
+    }
+
+    private toResponse(level: AccessLevelWithZones): AccessLevelResponseDto {
+        return {
+            id: level.id,
+            organizationId: level.organizationId,
+            name: level.name,
+            description: level.description || undefined,
+            zoneIds: level.zones.map(zone => zone.zoneId),
+            schedules: level.schedules as unknown as AccessLevelScheduleDto[],
+            isActive: level.isActive,
+            createdAt: level.createdAt,
+            updatedAt: level.updatedAt,
+        };
+    }
+
+    private toAssignmentResponse(
+        assignment: AccessLevelAssignment
+    ): AccessLevelAssignmentResponseDto {
+        return {
+            id: assignment.id,
+            accessLevelId: assignment.accessLevelId,
+            employeeId: assignment.employeeId || undefined,
+            departmentId: assignment.departmentId || undefined,
+            guestVisitId: assignment.guestVisitId || undefined,
+            validFrom: assignment.validFrom || undefined,
+            validUntil: assignment.validUntil || undefined,
+            createdAt: assignment.createdAt,
+        };
+    }
+}
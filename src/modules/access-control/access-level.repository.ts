@@ -0,0 +1,261 @@
+import { Injectable } from '@nestjs/common';
+import {
+    AccessLevel,
+    AccessLevelAssignment,
+    AccessLevelZone,
+    GuestVisit,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { AccessScheduleWindow, QueryBuilder } from '@/shared/utils';
+
+export type AccessLevelWithZones = AccessLevel & { zones: AccessLevelZone[] };
+
+export type AccessLevelAssignmentWithLevel = AccessLevelAssignment & {
+    accessLevel: AccessLevelWithZones;
+};
+
+export type AccessGuestVisit = Pick<
+    GuestVisit,
+    'id' | 'status' | 'scheduledEntryTime' | 'scheduledExitTime'
+>;
+
+export interface AccessLevelData {
+    name?: string;
+    description?: string;
+    schedules?: AccessScheduleWindow[];
+    isActive?: boolean;
+}
+
+export interface AccessLevelFilters {
+    search?: string;
+}
+
+export interface CreateAccessLevelAssignmentData {
+    accessLevelId: string;
+    employeeId?: string;
+    departmentId?: string;
+    guestVisitId?: string;
+    validFrom?: Date;
+    validUntil?: Date;
+    createdByUserId: string;
+}
+
+/** Whom the assignments are looked up for; each given ID matches its own assignments */
+export interface AccessSubject {
+    employeeId?: string;
+    departmentId?: string | null;
+    guestVisitId?: string;
+}
+
+const WITH_ZONES = { zones: true } as const;
+
+@Injectable()
+export class AccessLevelRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: AccessLevelData & { name: string },
+        zoneIds: string[],
+        scope: DataScope
+    ): Promise<AccessLevelWithZones> {
+        return this.prisma.accessLevel.create({
+            data: {
+                ...this.toLevelData(data),
+                name: data.name,
+                schedules: (data.schedules || []) as unknown as Prisma.InputJsonArray,
+                organizationId: scope.organizationId,
+                zones: { create: zoneIds.map(zoneId => ({ zoneId })) },
+            },
+            include: WITH_ZONES,
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<AccessLevelWithZones | null> {
+        return this.prisma.accessLevel.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+            include: WITH_ZONES,
+        });
+    }
+
+    async findMany(
+        filters: AccessLevelFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{ data: AccessLevelWithZones[]; total: number; page: number; limit: number }> {
+        const where: Prisma.AccessLevelWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            ...(filters.search && {
+                name: { contains: filters.search, mode: 'insensitive' as const },
+            }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.accessLevel.findMany({
+                where,
+                include: WITH_ZONES,
+                orderBy: { name: 'asc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.accessLevel.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    /**
+     * Update the level; the zones given replace its zones
+     */
+    async update(
+        id: string,
+        data: AccessLevelData,
+        zoneIds?: string[]
+    ): Promise<AccessLevelWithZones> {
+        return this.prisma.accessLevel.update({
+            where: { id },
+            data: {
+                ...this.toLevelData(data),
+                ...(zoneIds && {
+                    zones: {
+                        deleteMany: {},
+                        create: zoneIds.map(zoneId => ({ zoneId })),
+                    },
+                }),
+            },
+            include: WITH_ZONES,
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.accessLevel.delete({ where: { id } });
+    }
+
+    async countZones(zoneIds: string[], scope: DataScope): Promise<number> {
+        return this.prisma.accessZone.count({
+            where: { id: { in: zoneIds }, ...QueryBuilder.buildOrganizationScope(scope) },
+        });
+    }
+
+    async createAssignment(
+        data: CreateAccessLevelAssignmentData,
+        scope: DataScope
+    ): Promise<AccessLevelAssignment> {
+        return this.prisma.accessLevelAssignment.create({
+            data: { ...data, organizationId: scope.organizationId },
+        });
+    }
+
+    async findAssignmentById(id: string, scope: DataScope): Promise<AccessLevelAssignment | null> {
+        return this.prisma.accessLevelAssignment.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+        });
+    }
+
+    async findAssignmentsByLevel(
+        accessLevelId: string,
+        scope: DataScope
+    ): Promise<AccessLevelAssignment[]> {
+        return this.prisma.accessLevelAssignment.findMany({
+            where: { accessLevelId, ...QueryBuilder.buildOrganizationScope(scope) },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async deleteAssignment(id: string): Promise<void> {
+        await this.prisma.accessLevelAssignment.delete({ where: { id } });
+    }
+
+    /**
+     * The assignments of active levels the subject holds at the given time
+     */
+    async findActiveAssignments(
+        subject: AccessSubject,
+        organizationId: string,
+        at: Date
+    ): Promise<AccessLevelAssignmentWithLevel[]> {
+        const holders: Prisma.AccessLevelAssignmentWhereInput[] = [
+            ...(subject.employeeId ? [{ employeeId: subject.employeeId }] : []),
+            ...(subject.departmentId ? [{ departmentId: subject.departmentId }] : []),
+            ...(subject.guestVisitId ? [{ guestVisitId: subject.guestVisitId }] : []),
+        ];
+
+        if (!holders.length) {
+            return [];
+        }
+
+        return this.prisma.accessLevelAssignment.findMany({
+            where: {
+                organizationId,
+                OR: holders,
+                AND: [
+                    { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+                    { OR: [{ validUntil: null }, { validUntil: { gt: at } }] },
+                ],
+                accessLevel: { isActive: true },
+            },
+            include: { accessLevel: { include: WITH_ZONES } },
+        });
+    }
+
+    async findEmployee(
+        employeeId: string,
+        scope: DataScope
+    ): Promise<{ id: string; departmentId: string | null; isActive: boolean } | null> {
+        return this.prisma.employee.findFirst({
+            where: { id: employeeId, ...QueryBuilder.buildBranchScope(scope) },
+            select: { id: true, departmentId: true, isActive: true },
+        });
+    }
+
+    async departmentExists(departmentId: string, scope: DataScope): Promise<boolean> {
+        const branchScope = QueryBuilder.buildBranchScope(scope);
+
+        const department = await this.prisma.department.findFirst({
+            where: {
+                id: departmentId,
+                branchId: branchScope.branchId,
+                branch: { organizationId: scope.organizationId },
+            },
+            select: { id: true },
+        });
+
+        return !!department;
+    }
+
+    async findGuestVisit(guestVisitId: string, scope: DataScope): Promise<AccessGuestVisit | null> {
+        return this.prisma.guestVisit.findFirst({
+            where: { id: guestVisitId, ...QueryBuilder.buildBranchScope(scope) },
+            select: { id: true, status: true, scheduledEntryTime: true, scheduledExitTime: true },
+        });
+    }
+
+    /**
+     * The latest guest visit issued the credential with the hash, whatever its status; whether
+     * it admits the guest is up to the policy
+     */
+    async findGuestVisitByCredentialHash(
+        accessCredentialHash: string,
+        scope: DataScope
+    ): Promise<{ id: string; guestName: string } | null> {
+        return this.prisma.guestVisit.findFirst({
+            where: { accessCredentialHash, ...QueryBuilder.buildBranchScope(scope) },
+            select: { id: true, guestName: true },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    private toLevelData(data: AccessLevelData) {
+        return {
+            name: data.name,
+            description: data.description,
+            isActive: data.isActive,
+            ...(data.schedules && {
+                schedules: data.schedules as unknown as Prisma.InputJsonArray,
+            }),
+        };
+    }
+}
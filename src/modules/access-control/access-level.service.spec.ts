@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { AccessLevelService } from './access-level.service';
+import { AccessLevelRepository } from './access-level.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('AccessLevelService', () => {
+    let service: AccessLevelService;
+    let accessLevelRepository: jest.Mocked<AccessLevelRepository>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockLevel = {
+        id: 'level-123',
+        organizationId: 'org-123',
+        name: 'Office staff',
+        description: null,
+        schedules: [],
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        zones: [{ accessLevelId: 'level-123', zoneId: 'zone-1' }],
+    };
+
+    beforeEach(async () => {
+        const mockAccessLevelRepository = {
+            create: jest.fn().mockResolvedValue(mockLevel),
+            findById: jest.fn().mockResolvedValue(mockLevel),
+            update: jest.fn().mockResolvedValue(mockLevel),
+            countZones: jest.fn().mockResolvedValue(1),
+            createAssignment: jest.fn().mockImplementation(async data => ({
+                id: 'assignment-123',
+                ...data,
+            })),
+            findAssignmentById: jest.fn(),
+            deleteAssignment: jest.fn(),
+            findEmployee: jest.fn().mockResolvedValue({ id: 'emp-123' }),
+            departmentExists: jest.fn().mockResolvedValue(true),
+            findGuestVisit: jest.fn().mockResolvedValue({ id: 'visit-123' }),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AccessLevelService,
+                {
+                    provide: AccessLevelRepository,
+                    useValue: mockAccessLevelRepository,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<AccessLevelService>(AccessLevelService);
+        accessLevelRepository = module.get(AccessLevelRepository);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('createAccessLevel', () => {
+        it('should create the level with its zones', async () => {
+            await service.createAccessLevel(
+                { name: 'Office staff', zoneIds: ['zone-1'] },
+                mockScope,
+                'user-123'
+            );
+
+            expect(accessLevelRepository.countZones).toHaveBeenCalledWith(['zone-1'], mockScope);
+            expect(accessLevelRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ name: 'Office staff', schedules: [] }),
+                ['zone-1'],
+                mockScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'ACCESS_LEVEL_CREATED',
+                expect.objectContaining({ accessLevelId: 'level-123' }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should reject zones of another organization', async () => {
+            accessLevelRepository.countZones.mockResolvedValue(1);
+
+            await expect(
+                service.createAccessLevel(
+                    { name: 'Office staff', zoneIds: ['zone-1', 'zone-foreign'] },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(NotFoundException);
+            expect(accessLevelRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('assignAccessLevel', () => {
+        it('should assign the level to a guest visit', async () => {
+            const assignment = await service.assignAccessLevel(
+                'level-123',
+                { guestVisitId: 'visit-123', validUntil: '2026-10-20T18:00:00Z' },
+                mockScope,
+                'user-123'
+            );
+
+            expect(accessLevelRepository.findGuestVisit).toHaveBeenCalledWith(
+                'visit-123',
+                mockScope
+            );
+            expect(assignment).toEqual(
+                expect.objectContaining({
+                    accessLevelId: 'level-123',
+                    guestVisitId: 'visit-123',
+                    validUntil: new Date('2026-10-20T18:00:00Z'),
+                    createdByUserId: 'user-123',
+                })
+            );
+        });
+
+        it('should require exactly one holder', async () => {
+            await expect(
+                service.assignAccessLevel(
+                    'level-123',
+                    { employeeId: 'emp-123', departmentId: 'dept-123' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            await expect(
+                service.assignAccessLevel('level-123', {}, mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject a validity that ends before it starts', async () => {
+            await expect(
+                service.assignAccessLevel(
+                    'level-123',
+                    {
+                        employeeId: 'emp-123',
+                        validFrom: '2026-10-20T00:00:00Z',
+                        validUntil: '2026-10-19T00:00:00Z',
+                    },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject holders outside the scope', async () => {
+            accessLevelRepository.findEmployee.mockResolvedValue(null);
+
+            await expect(
+                service.assignAccessLevel(
+                    'level-123',
+                    { employeeId: 'emp-other' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow('Employee not found');
+            expect(accessLevelRepository.createAssignment).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('removeAssignment', () => {
+        it('should throw when the assignment does not exist', async () => {
+            accessLevelRepository.findAssignmentById.mockResolvedValue(null);
+
+            await expect(
+                service.removeAssignment('assignment-404', mockScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+            expect(accessLevelRepository.deleteAssignment).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,277 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { AccessLevelAssignment } from '@prisma/client';
+import {
+    AccessLevelFilters,
+    AccessLevelRepository,
+    AccessLevelWithZones,
+} from './access-level.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    CreateAccessLevelAssignmentDto,
+    CreateAccessLevelDto,
+    UpdateAccessLevelDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil } from '@/shared/utils';
+
+@Injectable()
+export class AccessLevelService {
+    constructor(
+        private readonly accessLevelRepository: AccessLevelRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    async createAccessLevel(
+        createLevelDto: CreateAccessLevelDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<AccessLevelWithZones> {
+        await this.validateZones(createLevelDto.zoneIds, scope);
+
+        let level: AccessLevelWithZones;
+        try {
+            level = await this.accessLevelRepository.create(
+                {
+                    name: createLevelDto.name,
+                    description: createLevelDto.description,
+                    schedules: createLevelDto.schedules || [],
+                    isActive: createLevelDto.isActive,
+                },
+                createLevelDto.zoneIds,
+                scope
+            );
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An access level with this name already exists');
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'ACCESS_LEVEL_CREATED',
+            { accessLevelId: level.id, name: level.name, zoneIds: createLevelDto.zoneIds },
+            scope.organizationId,
+            correlationId
+        );
+
+        return level;
+    }
+
+    async getAccessLevels(
+        filters: AccessLevelFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number }
+    ) {
+        return this.accessLevelRepository.findMany(filters, scope, pagination);
+    }
+
+    async getAccessLevelById(id: string, scope: DataScope): Promise<AccessLevelWithZones> {
+        const level = await this.accessLevelRepository.findById(id, scope);
+        if (!level) {
+            throw new NotFoundException('Access level not found');
+        }
+
+        return level;
+    }
+
+    /**
+     * Update an access level; zones and schedules given replace the current ones
+     */
+    async updateAccessLevel(
+        id: string,
+        updateLevelDto: UpdateAccessLevelDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<AccessLevelWithZones> {
+        await this.getAccessLevelById(id, scope);
+        if (updateLevelDto.zoneIds) {
+            await this.validateZones(updateLevelDto.zoneIds, scope);
+        }
+
+        let level: AccessLevelWithZones;
+        try {
+            level = await this.accessLevelRepository.update(
+                id,
+                {
+                    name: updateLevelDto.name,
+                    description: updateLevelDto.description,
+                    schedules: updateLevelDto.schedules,
+                    isActive: updateLevelDto.isActive,
+                },
+                updateLevelDto.zoneIds
+            );
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An access level with this name already exists');
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'ACCESS_LEVEL_UPDATED',
+            { accessLevelId: id, changes: updateLevelDto },
+            scope.organizationId,
+            correlationId
+        );
+
+        return level;
+    }
+
+    async deleteAccessLevel(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const level = await this.getAccessLevelById(id, scope);
+
+        await this.accessLevelRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'ACCESS_LEVEL_DELETED',
+            { accessLevelId: id, name: level.name },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Assign an access level to an employee, a department or a guest visit
+     */
+    async assignAccessLevel(
+        accessLevelId: string,
+        assignmentDto: CreateAccessLevelAssignmentDto,
+        scope: DataScope,
+        assignedByUserId: string,
+        correlationId?: string
+    ): Promise<AccessLevelAssignment> {
+        await this.getAccessLevelById(accessLevelId, scope);
+
+        const targets = [
+            assignmentDto.employeeId,
+            assignmentDto.departmentId,
+            assignmentDto.guestVisitId,
+        ].filter(Boolean);
+
+        if (targets.length !== 1) {
+            throw new BadRequestException(
+                'Exactly one of employeeId, departmentId or guestVisitId must be provided'
+            );
+        }
+
+        const validFrom = assignmentDto.validFrom ? new Date(assignmentDto.validFrom) : undefined;
+        const validUntil = assignmentDto.validUntil
+            ? new Date(assignmentDto.validUntil)
+            : undefined;
+
+        if (validFrom && validUntil && validUntil <= validFrom) {
+            throw new BadRequestException('validUntil must be after validFrom');
+        }
+
+        await this.validateAssignmentTarget(assignmentDto, scope);
+
+        const assignment = await this.accessLevelRepository.createAssignment(
+            {
+                accessLevelId,
+                employeeId: assignmentDto.employeeId,
+                departmentId: assignmentDto.departmentId,
+                guestVisitId: assignmentDto.guestVisitId,
+                validFrom,
+                validUntil,
+                createdByUserId: assignedByUserId,
+            },
+            scope
+        );
+
+        this.logger.logUserAction(
+            assignedByUserId,
+            'ACCESS_LEVEL_ASSIGNED',
+            {
+                accessLevelId,
+                assignmentId: assignment.id,
+                employeeId: assignment.employeeId,
+                departmentId: assignment.departmentId,
+                guestVisitId: assignment.guestVisitId,
+                validFrom: assignment.validFrom,
+                validUntil: assignment.validUntil,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return assignment;
+    }
+
+    async getAssignments(
+        accessLevelId: string,
+        scope: DataScope
+    ): Promise<AccessLevelAssignment[]> {
+        await this.getAccessLevelById(accessLevelId, scope);
+
+        return this.accessLevelRepository.findAssignmentsByLevel(accessLevelId, scope);
+    }
+
+    async removeAssignment(
+        assignmentId: string,
+        scope: DataScope,
+        removedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const assignment = await this.accessLevelRepository.findAssignmentById(assignmentId, scope);
+        if (!assignment) {
+            throw new NotFoundException('Access level assignment not found');
+        }
+
+        // Branch managers may only remove assignments of holders they manage
+        await this.validateAssignmentTarget(assignment, scope);
+
+        await this.accessLevelRepository.deleteAssignment(assignmentId);
+
+        this.logger.logUserAction(
+            removedByUserId,
+            'ACCESS_LEVEL_ASSIGNMENT_REMOVED',
+            { assignmentId, accessLevelId: assignment.accessLevelId },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    private async validateZones(zoneIds: string[], scope: DataScope): Promise<void> {
+        if ((await this.accessLevelRepository.countZones(zoneIds, scope)) !== zoneIds.length) {
+            throw new NotFoundException('Access zone not found');
+        }
+    }
+
+    private async validateAssignmentTarget(
+        target: {
+            employeeId?: string | null;
+            departmentId?: string | null;
+            guestVisitId?: string | null;
+        },
+        scope: DataScope
+    ): Promise<void> {
+        if (target.employeeId) {
+            if (!(await this.accessLevelRepository.findEmployee(target.employeeId, scope))) {
+                throw new NotFoundException('Employee not found');
+            }
+        } else if (target.departmentId) {
+            if (!(await this.accessLevelRepository.departmentExists(target.departmentId, scope))) {
+                throw new NotFoundException('Department not found');
+            }
+        } else if (target.guestVisitId) {
+            if (!(await this.accessLevelRepository.findGuestVisit(target.guestVisitId, scope))) {
+                throw new NotFoundException('Guest visit not found');
+            }
+        }
+    }
+}
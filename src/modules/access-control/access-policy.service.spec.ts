@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccessPolicyService } from './access-policy.service';
+import { AccessZoneRepository } from './access-zone.repository';
+import { AccessLevelRepository } from './access-level.repository';
+
+describe('AccessPolicyService', () => {
+    let service: AccessPolicyService;
+    let accessZoneRepository: jest.Mocked<AccessZoneRepository>;
+    let accessLevelRepository: jest.Mocked<AccessLevelRepository>;
+
+    // Monday 10:00 in Tashkent
+    const timestamp = new Date('2026-10-19T05:00:00Z');
+
+    const door = {
+        id: 'door-1',
+        organizationId: 'org-123',
+        zoneId: 'zone-1',
+        name: 'Main entrance',
+        deviceId: 'device-123',
+        unlockSeconds: 5,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        zone: {
+            id: 'zone-1',
+            organizationId: 'org-123',
+            branchId: 'branch-123',
+            name: 'Office',
+            description: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            branch: { timezone: null, organization: { timezone: 'Asia/Tashkent' } },
+        },
+    };
+
+    const createAssignment = (level: { zoneIds: string[]; schedules?: any[] }, id = 'level-1') =>
+        ({
+            id: `assignment-${id}`,
+            accessLevelId: id,
+            accessLevel: {
+                id,
+                isActive: true,
+                schedules: level.schedules || [],
+                zones: level.zoneIds.map(zoneId => ({ accessLevelId: id, zoneId })),
+            },
+        }) as any;
+
+    const request = {
+        organizationId: 'org-123',
+        deviceId: 'device-123',
+        timestamp,
+        employeeId: 'emp-123',
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AccessPolicyService,
+                {
+                    provide: AccessZoneRepository,
+                    useValue: { findDoorByDevice: jest.fn().mockResolvedValue(door) },
+                },
+                {
+                    provide: AccessLevelRepository,
+                    useValue: {
+                        findEmployee: jest.fn().mockResolvedValue({
+                            id: 'emp-123',
+                            departmentId: 'dept-123',
+                            isActive: true,
+                        }),
+                        findGuestVisit: jest.fn(),
+                        findActiveAssignments: jest.fn().mockResolvedValue([]),
+                    },
+                },
+            ],
+        }).compile();
+
+        service = module.get<AccessPolicyService>(AccessPolicyService);
+        accessZoneRepository = module.get(AccessZoneRepository);
+        accessLevelRepository = module.get(AccessLevelRepository);
+    });
+
+    it('should let everybody identified pass devices that control no door', async () => {
+        accessZoneRepository.findDoorByDevice.mockResolvedValue(null);
+
+        await expect(service.evaluate(request)).resolves.toEqual({ granted: true });
+        expect(accessLevelRepository.findActiveAssignments).not.toHaveBeenCalled();
+    });
+
+    it('should still deny inactive holders at devices that control no door', async () => {
+        accessZoneRepository.findDoorByDevice.mockResolvedValue(null);
+        accessLevelRepository.findEmployee.mockResolvedValue({
+            id: 'emp-123',
+            departmentId: null,
+            isActive: false,
+        });
+
+        await expect(service.evaluate(request)).resolves.toEqual({
+            granted: false,
+            reason: 'EMPLOYEE_INACTIVE',
+        });
+    });
+
+    it('should deny events that identify nobody', async () => {
+        await expect(service.evaluate({ ...request, employeeId: undefined })).resolves.toEqual({
+            granted: false,
+            reason: 'UNKNOWN_CREDENTIAL',
+            doorId: 'door-1',
+            zoneId: 'zone-1',
+        });
+    });
+
+    it('should deny inactive employees', async () => {
+        accessLevelRepository.findEmployee.mockResolvedValue({
+            id: 'emp-123',
+            departmentId: null,
+            isActive: false,
+        });
+
+        await expect(service.evaluate(request)).resolves.toEqual(
+            expect.objectContaining({ granted: false, reason: 'EMPLOYEE_INACTIVE' })
+        );
+    });
+
+    it('should look up the levels of the employee and their department', async () => {
+        await expect(service.evaluate(request)).resolves.toEqual(
+            expect.objectContaining({ granted: false, reason: 'NO_ACCESS_LEVEL' })
+        );
+        expect(accessLevelRepository.findActiveAssignments).toHaveBeenCalledWith(
+            { employeeId: 'emp-123', departmentId: 'dept-123' },
+            'org-123',
+            timestamp
+        );
+    });
+
+    it('should deny levels without the zone of the door', async () => {
+        accessLevelRepository.findActiveAssignments.mockResolvedValue([
+            createAssignment({ zoneIds: ['zone-2'] }),
+        ]);
+
+        await expect(service.evaluate(request)).resolves.toEqual(
+            expect.objectContaining({ granted: false, reason: 'ZONE_NOT_PERMITTED' })
+        );
+    });
+
+    it('should read schedules in the time zone of the branch of the door', async () => {
+        accessLevelRepository.findActiveAssignments.mockResolvedValue([
+            createAssignment({
+                zoneIds: ['zone-1'],
+                // 05:00 UTC is outside these hours, 10:00 in Tashkent is not
+                schedules: [{ daysOfWeek: [1], startTime: '09:00', endTime: '18:00' }],
+            }),
+        ]);
+
+        await expect(service.evaluate(request)).resolves.toEqual({
+            granted: true,
+            doorId: 'door-1',
+            zoneId: 'zone-1',
+            accessLevelId: 'level-1',
+            unlockSeconds: 5,
+        });
+    });
+
+    it('should deny outside the schedules of every level with the zone', async () => {
+        accessLevelRepository.findActiveAssignments.mockResolvedValue([
+            createAssignment(
+                {
+                    zoneIds: ['zone-1'],
+                    schedules: [{ daysOfWeek: [0, 6], startTime: '09:00', endTime: '18:00' }],
+                },
+                'level-weekend'
+            ),
+            createAssignment({ zoneIds: ['zone-2'] }, 'level-other'),
+        ]);
+
+        await expect(service.evaluate(request)).resolves.toEqual(
+            expect.objectContaining({ granted: false, reason: 'OUTSIDE_SCHEDULE' })
+        );
+    });
+
+    it('should admit guests only during an approved visit', async () => {
+        const visit = {
+            id: 'visit-1',
+            status: 'APPROVED' as const,
+            scheduledEntryTime: new Date('2026-10-19T04:00:00Z'),
+            scheduledExitTime: new Date('2026-10-19T06:00:00Z'),
+        };
+        const guestRequest = { ...request, employeeId: undefined, guestVisitId: 'visit-1' };
+
+        accessLevelRepository.findGuestVisit.mockResolvedValue({ ...visit, status: 'COMPLETED' });
+        await expect(service.evaluate(guestRequest)).resolves.toEqual(
+            expect.objectContaining({ granted: false, reason: 'GUEST_VISIT_NOT_ACTIVE' })
+        );
+
+        accessLevelRepository.findGuestVisit.mockResolvedValue(visit);
+        accessLevelRepository.findActiveAssignments.mockResolvedValue([
+            createAssignment({ zoneIds: ['zone-1'] }),
+        ]);
+        await expect(service.evaluate(guestRequest)).resolves.toEqual(
+            expect.objectContaining({ granted: true, accessLevelId: 'level-1' })
+        );
+        expect(accessLevelRepository.findActiveAssignments).toHaveBeenCalledWith(
+            { guestVisitId: 'visit-1' },
+            'org-123',
+            timestamp
+        );
+    });
+});
@@ -0,0 +1,149 @@
+import { Injectable } from '@nestjs/common';
+import { AccessDenialReason, GuestStatus } from '@prisma/client';
+import { AccessZoneRepository } from './access-zone.repository';
+import { AccessGuestVisit, AccessLevelRepository, AccessSubject } from './access-level.repository';
+import { AccessScheduleUtil, AccessScheduleWindow } from '@/shared/utils';
+
+export interface AccessRequest {
+    organizationId: string;
+    deviceId: string;
+    timestamp: Date;
+    employeeId?: string;
+    guestVisitId?: string;
+}
+
+export interface AccessDecision {
+    granted: boolean;
+    reason?: AccessDenialReason;
+    doorId?: string;
+    zoneId?: string;
+    /** The access level that granted access */
+    accessLevelId?: string;
+    /** How long the door stays unlocked on a grant */
+    unlockSeconds?: number;
+}
+
+const ADMITTED_GUEST_STATUSES: GuestStatus[] = [GuestStatus.APPROVED, GuestStatus.ACTIVE];
+
+@Injectable()
+export class AccessPolicyService {
+    constructor(
+        private readonly accessZoneRepository: AccessZoneRepository,
+        private readonly accessLevelRepository: AccessLevelRepository
+    ) {}
+
+    /**
+     * Decide whether the employee or guest identified at a device may pass its door at the
+     * time. Devices that control no door are not subject to access levels, so every active
+     * employee and every guest during their visit passes them.
+     */
+    async evaluate(request: AccessRequest): Promise<AccessDecision> {
+        const door = await this.accessZoneRepository.findDoorByDevice(
+            request.deviceId,
+            request.organizationId
+        );
+        const location = door ? { doorId: door.id, zoneId: door.zoneId } : {};
+        const deny = (reason: AccessDenialReason): AccessDecision => ({
+            granted: false,
+            reason,
+            ...location,
+        });
+
+        const subject = await this.resolveSubject(request);
+        if (typeof subject === 'string') {
+            return deny(subject);
+        }
+        if (!door) {
+            return { granted: true };
+        }
+
+        const assignments = await this.accessLevelRepository.findActiveAssignments(
+            subject,
+            request.organizationId,
+            request.timestamp
+        );
+        if (!assignments.length) {
+            return deny(AccessDenialReason.NO_ACCESS_LEVEL);
+        }
+
+        const levels = assignments
+            .map(assignment => assignment.accessLevel)
+            .filter(level => level.zones.some(zone => zone.zoneId === door.zoneId));
+        if (!levels.length) {
+            return deny(AccessDenialReason.ZONE_NOT_PERMITTED);
+        }
+
+        // Schedules are read in the time zone of the branch the door is in
+        const timeZone = door.zone.branch.timezone || door.zone.branch.organization.timezone;
+        const level = levels.find(candidate =>
+            AccessScheduleUtil.isWithinSchedules(
+                candidate.schedules as unknown as AccessScheduleWindow[],
+                request.timestamp,
+                timeZone
+            )
+        );
+        if (!level) {
+            return deny(AccessDenialReason.OUTSIDE_SCHEDULE);
+        }
+
+        return {
+            granted: true,
+            ...location,
+            accessLevelId: level.id,
+            unlockSeconds: door.unlockSeconds,
+        };
+    }
+
+    /**
+     * Whether a guest visit admits its guest at the time: approved, or under way, and within
+     * its scheduled entry and exit
+     */
+    isGuestVisitActive(visit: AccessGuestVisit, at: Date): boolean {
+        return (
+            ADMITTED_GUEST_STATUSES.includes(visit.status) &&
+            visit.scheduledEntryTime <= at &&
+            at < visit.scheduledExitTime
+        );
+    }
+
+    /**
+     * The holder whose access levels apply, or the reason they may not pass at all
+     */
+    private async resolveSubject(
+        request: AccessRequest
+    ): Promise<AccessSubject | AccessDenialReason> {
+        const scope = { organizationId: request.organizationId };
+
+        if (request.employeeId) {
+            const employee = await this.accessLevelRepository.findEmployee(
+                request.employeeId,
+                scope
+            );
+            if (!employee) {
+                return AccessDenialReason.UNKNOWN_CREDENTIAL;
+            }
+            if (!employee.isActive) {
+                return AccessDenialReason.EMPLOYEE_INACTIVE;
+            }
+
+            return { employeeId: employee.id, departmentId: employee.departmentId };
+        }
+
+        if (request.guestVisitId) {
+            const visit = await this.accessLevelRepository.findGuestVisit(
+                request.guestVisitId,
+                scope
+            );
+            if (!visit) {
+                return AccessDenialReason.UNKNOWN_CREDENTIAL;
+            }
+            if (!this.isGuestVisitActive(visit, request.timestamp)) {
+                return AccessDenialReason.GUEST_VISIT_NOT_ACTIVE;
+            }
+
+            return { guestVisitId: visit.id };
+        }
+
+        return AccessDenialReason.UNKNOWN_CREDENTIAL;
+    }
+}
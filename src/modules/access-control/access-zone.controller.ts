@@ -0,0 +1,234 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { Door } from '@prisma/client';
+import { AccessZoneService } from './access-zone.service';
+import { AccessZoneWithDoors } from './access-zone.repository';
+import {
+    AccessZoneFiltersDto,
+    AccessZoneResponseDto,
+    CreateAccessZoneDto,
+    CreateDoorDto,
+    DoorResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+    UpdateAccessZoneDto,
+    UpdateDoorDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Access Control')
+@ApiBearerAuth()
+@Controller('access-zones')
+export class AccessZoneController {
+    constructor(private readonly accessZoneService: AccessZoneService) {}
+
+    @Post()
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Create an access zone in a branch' })
+    @ApiBody({ type: CreateAccessZoneDto })
+    @ApiResponse({ status: 201, type: AccessZoneResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    @ApiResponse({ status: 409, description: 'A zone with this name exists in the branch.' })
+    async createZone(
+        @Body() createZoneDto: CreateAccessZoneDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AccessZoneResponseDto> {
+        const zone = await this.accessZoneService.createZone(createZoneDto, scope, user.sub);
+
+        return this.toResponse(zone);
+    }
+
+    @Get()
+    @Permissions('access:read')
+    @ApiOperation({ summary: 'Get the access zones with their doors' })
+    @ApiQuery({ name: 'filtersDto', type: AccessZoneFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getZones(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: AccessZoneFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<AccessZoneResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.accessZoneService.getZones(
+            { branchId: filtersDto.branchId, search: filtersDto.search },
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            data.map(zone => this.toResponse(zone)),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Get(':id')
+    @Permissions('access:read')
+    @ApiOperation({ summary: 'Get an access zone with its doors' })
+    @ApiParam({ name: 'id', description: 'ID of the access zone' })
+    @ApiResponse({ status: 200, type: AccessZoneResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access zone not found.' })
+    async getZoneById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<AccessZoneResponseDto> {
+        return this.toResponse(await this.accessZoneService.getZoneById(id, scope));
+    }
+
+    @Patch(':id')
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Update an access zone' })
+    @ApiParam({ name: 'id', description: 'ID of the access zone' })
+    @ApiBody({ type: UpdateAccessZoneDto })
+    @ApiResponse({ status: 200, type: AccessZoneResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access zone not found.' })
+    @ApiResponse({ status: 409, description: 'A zone with this name exists in the branch.' })
+    async updateZone(
+        @Param('id') id: string,
+        @Body() updateZoneDto: UpdateAccessZoneDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AccessZoneResponseDto> {
+        const zone = await this.accessZoneService.updateZone(id, updateZoneDto, scope, user.sub);
+
+        return this.toResponse(zone);
+    }
+
+    @Delete(':id')
+    @Permissions('access:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete an access zone and its doors' })
+    @ApiParam({ name: 'id', description: 'ID of the access zone' })
+    @ApiResponse({ status: 204, description: 'The access zone has been deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access zone not found.' })
+    async deleteZone(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.accessZoneService.deleteZone(id, scope, user.sub);
+    }
+
+    @Post(':id/doors')
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Add a door to an access zone, optionally with its reader' })
+    @ApiParam({ name: 'id', description: 'ID of the access zone' })
+    @ApiBody({ type: CreateDoorDto })
+    @ApiResponse({ status: 201, type: DoorResponseDto })
+    @ApiResponse({ status: 400, description: 'The device is in another branch.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Access zone or device not found.' })
+    @ApiResponse({
+        status: 409,
+        description: 'A door with this name exists, or the device controls a door.',
+    })
+    async addDoor(
+        @Param('id') id: string,
+        @Body() createDoorDto: CreateDoorDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DoorResponseDto> {
+        const door = await this.accessZoneService.addDoor(id, createDoorDto, scope, user.sub);
+
+        return this.toDoorResponse(door);
+    }
+
+    @Patch('doors/:doorId')
+    @Permissions('access:manage')
+    @ApiOperation({ summary: 'Rename a door, change its reader or how long it unlocks' })
+    @ApiParam({ name: 'doorId', description: 'ID of the door' })
+    @ApiBody({ type: UpdateDoorDto })
+    @ApiResponse({ status: 200, type: DoorResponseDto })
+    @ApiResponse({ status: 400, description: 'The device is in another branch.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Door or device not found.' })
+    @ApiResponse({
+        status: 409,
+        description: 'A door with this name exists, or the device controls a door.',
+    })
+    async updateDoor(
+        @Param('doorId') doorId: string,
+        @Body() updateDoorDto: UpdateDoorDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DoorResponseDto> {
+        const door = await this.accessZoneService.updateDoor(
+            doorId,
+            updateDoorDto,
+            scope,
+            user.sub
+        );
+
+        return this.toDoorResponse(door);
+    }
+
+    @Delete('doors/:doorId')
+    @Permissions('access:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Remove a door; its reader is no longer subject to access levels' })
+    @ApiParam({ name: 'doorId', description: 'ID of the door' })
+    @ApiResponse({ status: 204, description: 'The door has been removed.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Door not found.' })
+    async removeDoor(
+        @Param('doorId') doorId: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.accessZoneService.removeDoor(doorId, scope, user.sub);
+    }
+
+    private toResponse(zone: AccessZoneWithDoors): AccessZoneResponseDto {
+        return {
+            id: zone.id,
+            organizationId: zone.organizationId,
+            branchId: zone.branchId,
+            name: zone.name,
+            description: zone.description || undefined,
+            doors: zone.doors.map(door => this.toDoorResponse(door)),
+            createdAt: zone.createdAt,
+            updatedAt: zone.updatedAt,
+        };
+    }
+
+    private toDoorResponse(door: Door): DoorResponseDto {
+        return {
+            id: door.id,
+            zoneId: door.zoneId,
+            name: door.name,
+            deviceId: door.deviceId || undefined,
+            unlockSeconds: door.unlockSeconds,
+            createdAt: door.createdAt,
+            updatedAt: door.updatedAt,
+        };
+    }
+}
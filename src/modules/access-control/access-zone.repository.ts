@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { AccessZone, Door, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export type AccessZoneWithDoors = AccessZone & { doors: Door[] };
+
+export type DoorWithZone = Door & {
+    zone: AccessZone & {
+        branch: { timezone: string | null; organization: { timezone: string } };
+    };
+};
+
+export interface AccessZoneFilters {
+    branchId?: string;
+    search?: string;
+}
+
+export interface DoorData {
+    name?: string;
+    deviceId?: string | null;
+    unlockSeconds?: number;
+}
+
+const WITH_DOORS = { doors: { orderBy: { name: 'asc' } } } as const;
+
+@Injectable()
+export class AccessZoneRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: { branchId: string; name: string; description?: string },
+        scope: DataScope
+    ): Promise<AccessZoneWithDoors> {
+        return this.prisma.accessZone.create({
+            data: { ...data, organizationId: scope.organizationId },
+            include: WITH_DOORS,
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<AccessZoneWithDoors | null> {
+        return this.prisma.accessZone.findFirst({
+            where: { id, ...QueryBuilder.buildBranchScope(scope) },
+            include: WITH_DOORS,
+        });
+    }
+
+    async findMany(
+        filters: AccessZoneFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{ data: AccessZoneWithDoors[]; total: number; page: number; limit: number }> {
+        const where: Prisma.AccessZoneWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+            ...(filters.branchId && { AND: [{ branchId: filters.branchId }] }),
+            ...(filters.search && {
+                name: { contains: filters.search, mode: 'insensitive' as const },
+            }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.accessZone.findMany({
+                where,
+                include: WITH_DOORS,
+                orderBy: { name: 'asc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.accessZone.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    async update(
+        id: string,
+        data: { name?: string; description?: string }
+    ): Promise<AccessZoneWithDoors> {
+        return this.prisma.accessZone.update({ where: { id }, data, include: WITH_DOORS });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.accessZone.delete({ where: { id } });
+    }
+
+    async createDoor(
+        zoneId: string,
+        data: DoorData & { name: string },
+        scope: DataScope
+    ): Promise<Door> {
+        return this.prisma.door.create({
+            data: { ...data, zoneId, organizationId: scope.organizationId },
+        });
+    }
+
+    async findDoorById(id: string, scope: DataScope): Promise<Door | null> {
+        return this.prisma.door.findFirst({
+            where: { id, zone: QueryBuilder.buildBranchScope(scope) },
+        });
+    }
+
+    async updateDoor(id: string, data: DoorData): Promise<Door> {
+        return this.prisma.door.update({ where: { id }, data });
+    }
+
+    async deleteDoor(id: string): Promise<void> {
+        await this.prisma.door.delete({ where: { id } });
+    }
+
+    /**
+     * The door a device controls, with the time zone its access schedules are read in
+     */
+    async findDoorByDevice(deviceId: string, organizationId: string): Promise<DoorWithZone | null> {
+        return this.prisma.door.findFirst({
+            where: { deviceId, organizationId },
+            include: {
+                zone: {
+                    include: {
+                        branch: {
+                            select: {
+                                timezone: true,
+                                organization: { select: { timezone: true } },
+                            },
+                        },
+                    },
+                },
+            },
+        });
+    }
+
+    async findDevice(
+        deviceId: string,
+        scope: DataScope
+    ): Promise<{ id: string; branchId: string } | null> {
+        return this.prisma.device.findFirst({
+            where: { id: deviceId, ...QueryBuilder.buildBranchScope(scope) },
+            select: { id: true, branchId: true },
+        });
+    }
+
+    async branchExists(branchId: string, scope: DataScope): Promise<boolean> {
+        if (scope.branchIds?.length && !scope.branchIds.includes(branchId)) {
+            return false;
+        }
+
+        const branch = await this.prisma.branch.findFirst({
+            where: { id: branchId, ...QueryBuilder.buildOrganizationScope(scope) },
+            select: { id: true },
+        });
+
+        return !!branch;
+    }
+}
@@ -0,0 +1,250 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { Door } from '@prisma/client';
+import {
+    AccessZoneFilters,
+    AccessZoneRepository,
+    AccessZoneWithDoors,
+} from './access-zone.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    CreateAccessZoneDto,
+    CreateDoorDto,
+    UpdateAccessZoneDto,
+    UpdateDoorDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil } from '@/shared/utils';
+
+@Injectable()
+export class AccessZoneService {
+    constructor(
+        private readonly accessZoneRepository: AccessZoneRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    async createZone(
+        createZoneDto: CreateAccessZoneDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<AccessZoneWithDoors> {
+        if (!(await this.accessZoneRepository.branchExists(createZoneDto.branchId, scope))) {
+            throw new NotFoundException('Branch not found');
+        }
+
+        let zone: AccessZoneWithDoors;
+        try {
+            zone = await this.accessZoneRepository.create(createZoneDto, scope);
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An access zone with this name exists in the branch');
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'ACCESS_ZONE_CREATED',
+            { zoneId: zone.id, branchId: zone.branchId, name: zone.name },
+            scope.organizationId,
+            correlationId
+        );
+
+        return zone;
+    }
+
+    async getZones(
+        filters: AccessZoneFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number }
+    ) {
+        return this.accessZoneRepository.findMany(filters, scope, pagination);
+    }
+
+    async getZoneById(id: string, scope: DataScope): Promise<AccessZoneWithDoors> {
+        const zone = await this.accessZoneRepository.findById(id, scope);
+        if (!zone) {
+            throw new NotFoundException('Access zone not found');
+        }
+
+        return zone;
+    }
+
+    async updateZone(
+        id: string,
+        updateZoneDto: UpdateAccessZoneDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<AccessZoneWithDoors> {
+        await this.getZoneById(id, scope);
+
+        let zone: AccessZoneWithDoors;
+        try {
+            zone = await this.accessZoneRepository.update(id, updateZoneDto);
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An access zone with this name exists in the branch');
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'ACCESS_ZONE_UPDATED',
+            { zoneId: id, changes: updateZoneDto },
+            scope.organizationId,
+            correlationId
+        );
+
+        return zone;
+    }
+
+    /**
+     * Delete a zone with its doors; access levels no longer include it
+     */
+    async deleteZone(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const zone = await this.getZoneById(id, scope);
+
+        await this.accessZoneRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'ACCESS_ZONE_DELETED',
+            { zoneId: id, name: zone.name, doors: zone.doors.length },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    async addDoor(
+        zoneId: string,
+        createDoorDto: CreateDoorDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<Door> {
+        const zone = await this.getZoneById(zoneId, scope);
+        if (createDoorDto.deviceId) {
+            await this.validateDevice(createDoorDto.deviceId, zone.branchId, scope);
+        }
+
+        let door: Door;
+        try {
+            door = await this.accessZoneRepository.createDoor(zoneId, createDoorDto, scope);
+        } catch (error) {
+            this.handleDoorConflict(error);
+        }
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'DOOR_CREATED',
+            { doorId: door.id, zoneId, name: door.name, deviceId: door.deviceId },
+            scope.organizationId,
+            correlationId
+        );
+
+        return door;
+    }
+
+    async updateDoor(
+        doorId: string,
+        updateDoorDto: UpdateDoorDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<Door> {
+        const existing = await this.getDoorById(doorId, scope);
+        if (updateDoorDto.deviceId) {
+            const zone = await this.getZoneById(existing.zoneId, scope);
+            await this.validateDevice(updateDoorDto.deviceId, zone.branchId, scope);
+        }
+
+        let door: Door;
+        try {
+            door = await this.accessZoneRepository.updateDoor(doorId, {
+                name: updateDoorDto.name,
+                deviceId: updateDoorDto.deviceId,
+                unlockSeconds: updateDoorDto.unlockSeconds,
+            });
+        } catch (error) {
+            this.handleDoorConflict(error);
+        }
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'DOOR_UPDATED',
+            { doorId, zoneId: door.zoneId, changes: updateDoorDto },
+            scope.organizationId,
+            correlationId
+        );
+
+        return door;
+    }
+
+    async removeDoor(
+        doorId: string,
+        scope: DataScope,
+        removedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const door = await this.getDoorById(doorId, scope);
+
+        await this.accessZoneRepository.deleteDoor(doorId);
+
+        this.logger.logUserAction(
+            removedByUserId,
+            'DOOR_DELETED',
+            { doorId, zoneId: door.zoneId, name: door.name },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    private async getDoorById(id: string, scope: DataScope): Promise<Door> {
+        const door = await this.accessZoneRepository.findDoorById(id, scope);
+        if (!door) {
+            throw new NotFoundException('Door not found');
+        }
+
+        return door;
+    }
+
+    /**
+     * A reader controls doors of the branch it is installed in
+     */
+    private async validateDevice(
+        deviceId: string,
+        branchId: string,
+        scope: DataScope
+    ): Promise<void> {
+        const device = await this.accessZoneRepository.findDevice(deviceId, scope);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+        if (device.branchId !== branchId) {
+            throw new BadRequestException('The device is not in the branch of the access zone');
+        }
+    }
+
+    private handleDoorConflict(error: any): never {
+        if (DatabaseUtil.isUniqueConstraintError(error)) {
+            throw new ConflictException(
+                DatabaseUtil.getUniqueConstraintFields(error).includes('deviceId')
+                    ? 'The device already controls a door'
+                    : 'A door with this name exists in the access zone'
+            );
+        }
+        throw error;
+    }
+}
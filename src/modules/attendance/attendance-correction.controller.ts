@@ -0,0 +1,230 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Query } from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { AttendanceCorrectionStatus } from '@prisma/client';
+import { AttendanceCorrectionService } from './attendance-correction.service';
+import { AttendanceCorrectionWithDetails } from './attendance-correction.repository';
+import {
+    AttendanceCorrectionFiltersDto,
+    AttendanceCorrectionResponseDto,
+    CreateAttendanceCorrectionDto,
+    RejectAttendanceCorrectionDto,
+    ReviewAttendanceCorrectionDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Attendance Corrections')
+@ApiBearerAuth()
+@Controller('attendance-corrections')
+export class AttendanceCorrectionController {
+    constructor(private readonly correctionService: AttendanceCorrectionService) {}
+
+    @Post()
+    @Permissions('attendance:correction:create:self')
+    @ApiOperation({ summary: 'Request a correction of your own attendance' })
+    @ApiBody({ type: CreateAttendanceCorrectionDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The correction has been requested and awaits approval.',
+        type: AttendanceCorrectionResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee or attendance record not found.' })
+    @ApiResponse({ status: 409, description: 'A correction of the record is already pending.' })
+    async createCorrection(
+        @Body() createCorrectionDto: CreateAttendanceCorrectionDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto> {
+        const correction = await this.correctionService.createCorrection(
+            createCorrectionDto,
+            user.email,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(correction);
+    }
+
+    @Get('my')
+    @Permissions('attendance:correction:read:self')
+    @ApiOperation({ summary: 'Get the corrections you have requested' })
+    @ApiQuery({ name: 'status', required: false, enum: AttendanceCorrectionStatus })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of your corrections.',
+        type: [AttendanceCorrectionResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    async getOwnCorrections(
+        @User() user: UserContext,
+        @Scope() scope: DataScope,
+        @Query('status') status?: AttendanceCorrectionStatus
+    ): Promise<AttendanceCorrectionResponseDto[]> {
+        const corrections = await this.correctionService.getOwnCorrections(
+            user.email,
+            status,
+            scope
+        );
+
+        return corrections.map(correction => this.toResponse(correction));
+    }
+
+    @Get()
+    @Permissions('attendance:correction:read:all')
+    @ApiOperation({ summary: 'Get attendance corrections with filters' })
+    @ApiQuery({ name: 'filtersDto', type: AttendanceCorrectionFiltersDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of attendance corrections.',
+        type: [AttendanceCorrectionResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getCorrections(
+        @Query() filtersDto: AttendanceCorrectionFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto[]> {
+        const corrections = await this.correctionService.getCorrections(filtersDto, scope);
+
+        return corrections.map(correction => this.toResponse(correction));
+    }
+
+    @Get(':id')
+    @Permissions('attendance:correction:read:all')
+    @ApiOperation({ summary: 'Get a specific attendance correction by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the correction' })
+    @ApiResponse({
+        status: 200,
+        description: 'The correction details.',
+        type: AttendanceCorrectionResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Attendance correction not found.' })
+    async getCorrectionById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto> {
+        const correction = await this.correctionService.getCorrectionById(id, scope);
+
+        return this.toResponse(correction);
+    }
+
+    @Post(':id/approve')
+    @Permissions('attendance:correction:approve')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Approve a pending correction and apply it to the attendance' })
+    @ApiParam({ name: 'id', description: 'ID of the correction' })
+    @ApiBody({ type: ReviewAttendanceCorrectionDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The correction has been approved and applied.',
+        type: AttendanceCorrectionResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Not pending or the record no longer exists.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Attendance correction not found.' })
+    async approveCorrection(
+        @Param('id') id: string,
+        @Body() reviewDto: ReviewAttendanceCorrectionDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto> {
+        const correction = await this.correctionService.approveCorrection(
+            id,
+            reviewDto.note,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(correction);
+    }
+
+    @Post(':id/reject')
+    @Permissions('attendance:correction:approve')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Reject a pending correction' })
+    @ApiParam({ name: 'id', description: 'ID of the correction' })
+    @ApiBody({ type: RejectAttendanceCorrectionDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The correction has been rejected.',
+        type: AttendanceCorrectionResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Not pending.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Attendance correction not found.' })
+    async rejectCorrection(
+        @Param('id') id: string,
+        @Body() rejectDto: RejectAttendanceCorrectionDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto> {
+        const correction = await this.correctionService.rejectCorrection(
+            id,
+            rejectDto.reason,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(correction);
+    }
+
+    @Post(':id/cancel')
+    @Permissions('attendance:correction:create:self')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Withdraw a correction you have requested' })
+    @ApiParam({ name: 'id', description: 'ID of the correction' })
+    @ApiResponse({
+        status: 200,
+        description: 'The correction has been cancelled.',
+        type: AttendanceCorrectionResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Not pending.' })
+    @ApiResponse({ status: 403, description: 'Requested by another user.' })
+    @ApiResponse({ status: 404, description: 'Attendance correction not found.' })
+    async cancelCorrection(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<AttendanceCorrectionResponseDto> {
+        const correction = await this.correctionService.cancelCorrection(id, scope, user.sub);
+
+        return this.toResponse(correction);
+    }
+
+    private toResponse(
+        correction: AttendanceCorrectionWithDetails
+    ): AttendanceCorrectionResponseDto {
+        return {
+            id: correction.id,
+            organizationId: correction.organizationId,
+            branchId: correction.branchId,
+            employeeId: correction.employeeId,
+            attendanceId: correction.attendanceId,
+            type: correction.type,
+            checkInAt: correction.checkInAt,
+            checkOutAt: correction.checkOutAt,
+            reason: correction.reason,
+            status: correction.status,
+            originalTimestamp: correction.originalTimestamp,
+            createdAttendanceIds: correction.createdAttendanceIds,
+            requestedByUserId: correction.requestedByUserId,
+            reviewedByUserId: correction.reviewedByUserId,
+            reviewedAt: correction.reviewedAt,
+            reviewNote: correction.reviewNote,
+            createdAt: correction.createdAt,
+            updatedAt: correction.updatedAt,
+            employee: correction.employee,
+        };
+    }
+}
@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import {
+    AttendanceCorrection,
+    AttendanceCorrectionStatus,
+    AttendanceCorrectionType,
+    AttendanceEventType,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export type AttendanceCorrectionWithDetails = AttendanceCorrection & {
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string };
+};
+
+export interface CreateAttendanceCorrectionData {
+    branchId: string;
+    employeeId: string;
+    attendanceId?: string;
+    type: AttendanceCorrectionType;
+    checkInAt?: Date;
+    checkOutAt?: Date;
+    reason: string;
+    originalTimestamp?: Date;
+    requestedByUserId: string;
+}
+
+/**
+ * Attendance changes made when a correction is approved
+ */
+export interface AttendanceCorrectionChanges {
+    create: { eventType: AttendanceEventType; timestamp: Date }[];
+    update?: { attendanceId: string; timestamp: Date; originalTimestamp: Date };
+}
+
+const CORRECTION_INCLUDE = {
+    employee: {
+        select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            employeeCode: true,
+        },
+    },
+};
+
+@Injectable()
+export class AttendanceCorrectionRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: CreateAttendanceCorrectionData,
+        scope: DataScope
+    ): Promise<AttendanceCorrectionWithDetails> {
+        return this.prisma.attendanceCorrection.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+            include: CORRECTION_INCLUDE,
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<AttendanceCorrectionWithDetails | null> {
+        return this.prisma.attendanceCorrection.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+            include: CORRECTION_INCLUDE,
+        });
+    }
+
+    async findMany(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            statuses?: AttendanceCorrectionStatus[];
+        },
+        scope: DataScope
+    ): Promise<AttendanceCorrectionWithDetails[]> {
+        const where: Prisma.AttendanceCorrectionWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+        };
+
+        if (filters.employeeId) {
+            where.employeeId = filters.employeeId;
+        }
+
+        if (filters.branchId) {
+            where.branchId = filters.branchId;
+        }
+
+        if (filters.statuses) {
+            where.status = { in: filters.statuses };
+        }
+
+        return this.prisma.attendanceCorrection.findMany({
+            where,
+            include: CORRECTION_INCLUDE,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Find a pending correction of the attendance record
+     */
+    async findPendingForAttendance(attendanceId: string): Promise<AttendanceCorrection | null> {
+        return this.prisma.attendanceCorrection.findFirst({
+            where: {
+                attendanceId,
+                status: 'PENDING',
+            },
+        });
+    }
+
+    async updateStatus(
+        id: string,
+        data: {
+            status: AttendanceCorrectionStatus;
+            reviewedByUserId?: string;
+            reviewNote?: string;
+        }
+    ): Promise<AttendanceCorrectionWithDetails> {
+        return this.prisma.attendanceCorrection.update({
+            where: { id },
+            data: {
+                ...data,
+                ...(data.reviewedByUserId && { reviewedAt: new Date() }),
+            },
+            include: CORRECTION_INCLUDE,
+        });
+    }
+
+    /**
+     * Approve the correction and apply it to the attendance records in one transaction. Added
+     * and moved records point back to the correction in their meta.
+     */
+    async approve(
+        correction: AttendanceCorrection,
+        changes: AttendanceCorrectionChanges,
+        data: { reviewedByUserId: string; reviewNote?: string }
+    ): Promise<AttendanceCorrectionWithDetails> {
+        return this.prisma.$transaction(async tx => {
+            const meta = {
+                source: 'correction',
+                correctionId: correction.id,
+                approvedByUserId: data.reviewedByUserId,
+            };
+
+            const created = [];
+            for (const record of changes.create) {
+                created.push(
+                    await tx.attendance.create({
+                        data: {
+                            organizationId: correction.organizationId,
+                            branchId: correction.branchId,
+                            employeeId: correction.employeeId,
+                            eventType: record.eventType,
+                            timestamp: record.timestamp,
+                            meta,
+                        },
+                    })
+                );
+            }
+
+            if (changes.update) {
+                const attendance = await tx.attendance.findUnique({
+                    where: { id: changes.update.attendanceId },
+                });
+
+                await tx.attendance.update({
+                    where: { id: changes.update.attendanceId },
+                    data: {
+                        timestamp: changes.update.timestamp,
+                        meta: {
+                            ...((attendance?.meta as Prisma.JsonObject) || {}),
+                            correction: {
+                                ...meta,
+                                originalTimestamp: changes.update.originalTimestamp.toISOString(),
+                            },
+                        },
+                    },
+                });
+            }
+
+            return tx.attendanceCorrection.update({
+                where: { id: correction.id },
+                data: {
+                    status: 'APPROVED',
+                    reviewedByUserId: data.reviewedByUserId,
+                    reviewNote: data.reviewNote,
+                    reviewedAt: new Date(),
+                    createdAttendanceIds: created.map(attendance => attendance.id),
+                    ...(changes.update && {
+                        originalTimestamp: changes.update.originalTimestamp,
+                    }),
+                },
+                include: CORRECTION_INCLUDE,
+            });
+        });
+    }
+}
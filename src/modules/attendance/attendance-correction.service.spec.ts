@@ -0,0 +1,410 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+} from '@nestjs/common';
+import { AttendanceCorrectionService } from './attendance-correction.service';
+import { AttendanceCorrectionRepository } from './attendance-correction.repository';
+import { AttendanceRepository } from './attendance.repository';
+import { TimesheetService } from './timesheet.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { EmployeeRepository } from '@/modules/employee/employee.repository';
+import { PayPeriodService } from '@/modules/pay-period/pay-period.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('AttendanceCorrectionService', () => {
+    let service: AttendanceCorrectionService;
+    let correctionRepository: jest.Mocked<AttendanceCorrectionRepository>;
+    let attendanceRepository: jest.Mocked<AttendanceRepository>;
+    let employeeRepository: jest.Mocked<EmployeeRepository>;
+    let timesheetService: jest.Mocked<TimesheetService>;
+    let payPeriodService: jest.Mocked<PayPeriodService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const employeeScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const managerScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockEmployee = {
+        id: 'emp-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        departmentId: null,
+        firstName: 'John',
+        lastName: 'Doe',
+        employeeCode: 'EMP001',
+        email: 'john.doe@example.com',
+    };
+
+    const mockAttendance = {
+        id: 'attendance-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        employeeId: 'emp-123',
+        guestId: null,
+        deviceId: 'device-123',
+        eventType: 'CHECK_OUT' as const,
+        timestamp: new Date('2026-10-15T13:00:00.000Z'),
+        meta: null,
+        createdAt: new Date(),
+    };
+
+    const mockCorrection = {
+        id: 'correction-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        employeeId: 'emp-123',
+        attendanceId: null,
+        type: 'MISSING_CHECK_OUT' as const,
+        checkInAt: null,
+        checkOutAt: new Date('2026-10-15T13:00:00.000Z'),
+        reason: 'The turnstile was out of order',
+        status: 'PENDING' as const,
+        originalTimestamp: null,
+        createdAttendanceIds: [],
+        requestedByUserId: 'user-employee',
+        reviewedByUserId: null,
+        reviewedAt: null,
+        reviewNote: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        employee: {
+            id: 'emp-123',
+            firstName: 'John',
+            lastName: 'Doe',
+            employeeCode: 'EMP001',
+        },
+    };
+
+    beforeEach(async () => {
+        const mockCorrectionRepository = {
+            create: jest.fn().mockResolvedValue(mockCorrection),
+            findById: jest.fn().mockResolvedValue(mockCorrection),
+            findMany: jest.fn().mockResolvedValue([]),
+            findPendingForAttendance: jest.fn().mockResolvedValue(null),
+            updateStatus: jest.fn(),
+            approve: jest.fn(),
+        };
+
+        const mockAttendanceRepository = {
+            findById: jest.fn().mockResolvedValue(mockAttendance),
+        };
+
+        const mockEmployeeRepository = {
+            findByEmail: jest.fn().mockResolvedValue(mockEmployee),
+        };
+
+        const mockTimesheetService = {
+            refreshForTimestamp: jest.fn(),
+        };
+
+        const mockPayPeriodService = {
+            assertUnlocked: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AttendanceCorrectionService,
+                {
+                    provide: AttendanceCorrectionRepository,
+                    useValue: mockCorrectionRepository,
+                },
+                {
+                    provide: AttendanceRepository,
+                    useValue: mockAttendanceRepository,
+                },
+                {
+                    provide: EmployeeRepository,
+                    useValue: mockEmployeeRepository,
+                },
+                {
+                    provide: TimesheetService,
+                    useValue: mockTimesheetService,
+                },
+                {
+                    provide: PayPeriodService,
+                    useValue: mockPayPeriodService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<AttendanceCorrectionService>(AttendanceCorrectionService);
+        correctionRepository = module.get(AttendanceCorrectionRepository);
+        attendanceRepository = module.get(AttendanceRepository);
+        employeeRepository = module.get(EmployeeRepository);
+        timesheetService = module.get(TimesheetService);
+        payPeriodService = module.get(PayPeriodService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createCorrection', () => {
+        it("should request the missing check-out for the user's employee record", async () => {
+            const result = await service.createCorrection(
+                {
+                    type: 'MISSING_CHECK_OUT',
+                    checkInAt: '2026-10-15T04:00:00.000Z',
+                    checkOutAt: '2026-10-15T13:00:00.000Z',
+                    reason: 'The turnstile was out of order',
+                },
+                'john.doe@example.com',
+                employeeScope,
+                'user-employee',
+                'corr-123'
+            );
+
+            expect(result).toEqual(mockCorrection);
+            expect(employeeRepository.findByEmail).toHaveBeenCalledWith(
+                'john.doe@example.com',
+                employeeScope
+            );
+            expect(correctionRepository.create).toHaveBeenCalledWith(
+                {
+                    branchId: 'branch-123',
+                    employeeId: 'emp-123',
+                    type: 'MISSING_CHECK_OUT',
+                    checkOutAt: new Date('2026-10-15T13:00:00.000Z'),
+                    reason: 'The turnstile was out of order',
+                    requestedByUserId: 'user-employee',
+                },
+                employeeScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-employee',
+                'ATTENDANCE_CORRECTION_REQUESTED',
+                expect.objectContaining({ correctionId: 'correction-123', employeeId: 'emp-123' }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should keep the original time of a record reported as wrong', async () => {
+            await service.createCorrection(
+                {
+                    type: 'WRONG_TIME',
+                    attendanceId: 'attendance-123',
+                    checkOutAt: '2026-10-15T12:30:00.000Z',
+                    reason: 'Badged out at the wrong reader',
+                },
+                'john.doe@example.com',
+                employeeScope,
+                'user-employee'
+            );
+
+            expect(correctionRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    attendanceId: 'attendance-123',
+                    checkOutAt: new Date('2026-10-15T12:30:00.000Z'),
+                    originalTimestamp: mockAttendance.timestamp,
+                }),
+                employeeScope
+            );
+            // Both the old and the new time must be outside locked pay periods
+            expect(payPeriodService.assertUnlocked).toHaveBeenCalledWith(
+                [new Date('2026-10-15T12:30:00.000Z'), mockAttendance.timestamp],
+                employeeScope,
+                'branch-123'
+            );
+        });
+
+        it("should not let an employee correct someone else's record", async () => {
+            attendanceRepository.findById.mockResolvedValue({
+                ...mockAttendance,
+                employeeId: 'emp-456',
+            } as any);
+
+            await expect(
+                service.createCorrection(
+                    {
+                        type: 'WRONG_TIME',
+                        attendanceId: 'attendance-123',
+                        checkOutAt: '2026-10-15T12:30:00.000Z',
+                        reason: 'Wrong time',
+                    },
+                    'john.doe@example.com',
+                    employeeScope,
+                    'user-employee'
+                )
+            ).rejects.toThrow(NotFoundException);
+            expect(correctionRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject a second pending correction of the same record', async () => {
+            correctionRepository.findPendingForAttendance.mockResolvedValue(mockCorrection as any);
+
+            await expect(
+                service.createCorrection(
+                    {
+                        type: 'WRONG_TIME',
+                        attendanceId: 'attendance-123',
+                        checkOutAt: '2026-10-15T12:30:00.000Z',
+                        reason: 'Wrong time',
+                    },
+                    'john.doe@example.com',
+                    employeeScope,
+                    'user-employee'
+                )
+            ).rejects.toThrow(ConflictException);
+        });
+
+        it('should require both times for a forgotten badge', async () => {
+            await expect(
+                service.createCorrection(
+                    {
+                        type: 'FORGOTTEN_BADGE',
+                        checkInAt: '2026-10-15T04:00:00.000Z',
+                        reason: 'Left my badge at home',
+                    },
+                    'john.doe@example.com',
+                    employeeScope,
+                    'user-employee'
+                )
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw NotFoundException when the user has no employee record', async () => {
+            employeeRepository.findByEmail.mockResolvedValue(null);
+
+            await expect(
+                service.createCorrection(
+                    {
+                        type: 'MISSING_CHECK_IN',
+                        checkInAt: '2026-10-15T04:00:00.000Z',
+                        reason: 'Forgot to badge in',
+                    },
+                    'admin@example.com',
+                    employeeScope,
+                    'user-admin'
+                )
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('approveCorrection', () => {
+        it('should add the missing punch and recalculate the timesheet', async () => {
+            correctionRepository.approve.mockResolvedValue({
+                ...mockCorrection,
+                status: 'APPROVED',
+                createdAttendanceIds: ['attendance-456'],
+            } as any);
+
+            const result = await service.approveCorrection(
+                'correction-123',
+                'Confirmed with security',
+                managerScope,
+                'user-manager'
+            );
+
+            expect(result.status).toBe('APPROVED');
+            expect(correctionRepository.approve).toHaveBeenCalledWith(
+                mockCorrection,
+                {
+                    create: [{ eventType: 'CHECK_OUT', timestamp: mockCorrection.checkOutAt }],
+                },
+                { reviewedByUserId: 'user-manager', reviewNote: 'Confirmed with security' }
+            );
+            expect(timesheetService.refreshForTimestamp).toHaveBeenCalledWith(
+                'emp-123',
+                mockCorrection.checkOutAt,
+                managerScope,
+                undefined
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-manager',
+                'ATTENDANCE_CORRECTION_APPROVED',
+                expect.objectContaining({ createdAttendanceIds: ['attendance-456'] }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should move a wrong record and recalculate both of its days', async () => {
+            const wrongTime = {
+                ...mockCorrection,
+                type: 'WRONG_TIME' as const,
+                attendanceId: 'attendance-123',
+                checkOutAt: new Date('2026-10-14T13:00:00.000Z'),
+                originalTimestamp: mockAttendance.timestamp,
+            };
+            correctionRepository.findById.mockResolvedValue(wrongTime);
+            correctionRepository.approve.mockResolvedValue({
+                ...wrongTime,
+                status: 'APPROVED',
+            } as any);
+
+            await service.approveCorrection('correction-123', undefined, managerScope, 'user-1');
+
+            expect(correctionRepository.approve).toHaveBeenCalledWith(
+                wrongTime,
+                {
+                    create: [],
+                    update: {
+                        attendanceId: 'attendance-123',
+                        timestamp: wrongTime.checkOutAt,
+                        originalTimestamp: mockAttendance.timestamp,
+                    },
+                },
+                { reviewedByUserId: 'user-1', reviewNote: undefined }
+            );
+            expect(timesheetService.refreshForTimestamp).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not approve a correction that is no longer pending', async () => {
+            correctionRepository.findById.mockResolvedValue({
+                ...mockCorrection,
+                status: 'REJECTED',
+            });
+
+            await expect(
+                service.approveCorrection('correction-123', undefined, managerScope, 'user-1')
+            ).rejects.toThrow(BadRequestException);
+            expect(correctionRepository.approve).not.toHaveBeenCalled();
+        });
+
+        it('should not approve a correction inside a pay period locked since the request', async () => {
+            payPeriodService.assertUnlocked.mockRejectedValue(new ConflictException());
+
+            await expect(
+                service.approveCorrection('correction-123', undefined, managerScope, 'user-1')
+            ).rejects.toThrow(ConflictException);
+            expect(payPeriodService.assertUnlocked).toHaveBeenCalledWith(
+                [mockCorrection.checkOutAt],
+                managerScope,
+                mockCorrection.branchId
+            );
+            expect(correctionRepository.approve).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cancelCorrection', () => {
+        it('should only let the requester cancel', async () => {
+            await expect(
+                service.cancelCorrection('correction-123', employeeScope, 'user-other')
+            ).rejects.toThrow(ForbiddenException);
+            expect(correctionRepository.updateStatus).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,370 @@
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { AttendanceCorrectionStatus } from '@prisma/client';
+import {
+    AttendanceCorrectionChanges,
+    AttendanceCorrectionRepository,
+    AttendanceCorrectionWithDetails,
+    CreateAttendanceCorrectionData,
+} from './attendance-correction.repository';
+import { AttendanceRepository } from './attendance.repository';
+import { TimesheetService } from './timesheet.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { EmployeeRepository } from '@/modules/employee/employee.repository';
+import { PayPeriodService } from '@/modules/pay-period/pay-period.service';
+import { CreateAttendanceCorrectionDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+
+@Injectable()
+export class AttendanceCorrectionService {
+    constructor(
+        private readonly correctionRepository: AttendanceCorrectionRepository,
+        private readonly attendanceRepository: AttendanceRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly timesheetService: TimesheetService,
+        private readonly payPeriodService: PayPeriodService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Request a correction of the signed-in employee's attendance. It is routed to the managers
+     * of the employee's branch.
+     */
+    async createCorrection(
+        createCorrectionDto: CreateAttendanceCorrectionDto,
+        email: string,
+        scope: DataScope,
+        requestedByUserId: string,
+        correlationId?: string
+    ): Promise<AttendanceCorrectionWithDetails> {
+        const employee = await this.getOwnEmployee(email, scope);
+        const checkInAt = createCorrectionDto.checkInAt && new Date(createCorrectionDto.checkInAt);
+        const checkOutAt =
+            createCorrectionDto.checkOutAt && new Date(createCorrectionDto.checkOutAt);
+        const now = new Date();
+
+        if ((checkInAt && checkInAt > now) || (checkOutAt && checkOutAt > now)) {
+            throw new BadRequestException('Corrected times must not be in the future');
+        }
+
+        const data: CreateAttendanceCorrectionData = {
+            branchId: employee.branchId,
+            employeeId: employee.id,
+            type: createCorrectionDto.type,
+            reason: createCorrectionDto.reason,
+            requestedByUserId,
+        };
+
+        switch (createCorrectionDto.type) {
+            case 'MISSING_CHECK_IN':
+                if (!checkInAt) {
+                    throw new BadRequestException('The check-in time is required');
+                }
+                data.checkInAt = checkInAt;
+                break;
+
+            case 'MISSING_CHECK_OUT':
+                if (!checkOutAt) {
+                    throw new BadRequestException('The check-out time is required');
+                }
+                data.checkOutAt = checkOutAt;
+                break;
+
+            case 'FORGOTTEN_BADGE':
+                if (!checkInAt || !checkOutAt) {
+                    throw new BadRequestException('Both check-in and check-out times are required');
+                }
+                if (checkInAt >= checkOutAt) {
+                    throw new BadRequestException('Check-in must be before check-out');
+                }
+                data.checkInAt = checkInAt;
+                data.checkOutAt = checkOutAt;
+                break;
+
+            case 'WRONG_TIME': {
+                const attendance = await this.getOwnAttendance(
+                    createCorrectionDto.attendanceId,
+                    employee.id,
+                    scope
+                );
+                const timestamp = attendance.eventType === 'CHECK_IN' ? checkInAt : checkOutAt;
+                if (!timestamp) {
+                    throw new BadRequestException(
+                        attendance.eventType === 'CHECK_IN'
+                            ? 'The corrected check-in time is required'
+                            : 'The corrected check-out time is required'
+                    );
+                }
+                if (await this.correctionRepository.findPendingForAttendance(attendance.id)) {
+                    throw new ConflictException('A correction of this record is already pending');
+                }
+                data.attendanceId = attendance.id;
+                data.originalTimestamp = attendance.timestamp;
+                if (attendance.eventType === 'CHECK_IN') {
+                    data.checkInAt = timestamp;
+                } else {
+                    data.checkOutAt = timestamp;
+                }
+                break;
+            }
+        }
+
+        await this.payPeriodService.assertUnlocked(
+            [data.checkInAt, data.checkOutAt, data.originalTimestamp].filter(Boolean),
+            scope,
+            employee.branchId
+        );
+
+        const correction = await this.correctionRepository.create(data, scope);
+
+        this.logger.logUserAction(
+            requestedByUserId,
+            'ATTENDANCE_CORRECTION_REQUESTED',
+            {
+                correctionId: correction.id,
+                employeeId: employee.id,
+                branchId: employee.branchId,
+                type: correction.type,
+                attendanceId: correction.attendanceId,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return correction;
+    }
+
+    /**
+     * Get the corrections requested by the signed-in employee
+     */
+    async getOwnCorrections(
+        email: string,
+        status: AttendanceCorrectionStatus | undefined,
+        scope: DataScope
+    ): Promise<AttendanceCorrectionWithDetails[]> {
+        const employee = await this.getOwnEmployee(email, scope);
+
+        return this.correctionRepository.findMany(
+            { employeeId: employee.id, statuses: status && [status] },
+            scope
+        );
+    }
+
+    /**
+     * Get corrections (scoped to managed branches)
+     */
+    async getCorrections(
+        filters: { employeeId?: string; branchId?: string; status?: AttendanceCorrectionStatus },
+        scope: DataScope
+    ): Promise<AttendanceCorrectionWithDetails[]> {
+        return this.correctionRepository.findMany(
+            {
+                employeeId: filters.employeeId,
+                branchId: filters.branchId,
+                statuses: filters.status && [filters.status],
+            },
+            scope
+        );
+    }
+
+    /**
+     * Get correction by ID
+     */
+    async getCorrectionById(
+        id: string,
+        scope: DataScope
+    ): Promise<AttendanceCorrectionWithDetails> {
+        const correction = await this.correctionRepository.findById(id, scope);
+        if (!correction) {
+            throw new NotFoundException('Attendance correction not found');
+        }
+
+        return correction;
+    }
+
+    /**
+     * Approve a pending correction, adding or moving the attendance records it asks for, and
+     * recalculate the affected timesheets
+     */
+    async approveCorrection(
+        id: string,
+        note: string | undefined,
+        scope: DataScope,
+        approvedByUserId: string,
+        correlationId?: string
+    ): Promise<AttendanceCorrectionWithDetails> {
+        const correction = await this.getCorrectionById(id, scope);
+        if (correction.status !== 'PENDING') {
+            throw new BadRequestException('Only pending corrections can be approved');
+        }
+
+        const changes: AttendanceCorrectionChanges = { create: [] };
+        if (correction.type === 'WRONG_TIME') {
+            // The record may have been deleted or moved since the correction was requested
+            const attendance =
+                correction.attendanceId &&
+                (await this.attendanceRepository.findById(correction.attendanceId, scope));
+            if (!attendance) {
+                throw new BadRequestException('The attendance record no longer exists');
+            }
+            changes.update = {
+                attendanceId: attendance.id,
+                timestamp: correction.checkInAt || correction.checkOutAt,
+                originalTimestamp: attendance.timestamp,
+            };
+        } else {
+            if (correction.checkInAt) {
+                changes.create.push({ eventType: 'CHECK_IN', timestamp: correction.checkInAt });
+            }
+            if (correction.checkOutAt) {
+                changes.create.push({ eventType: 'CHECK_OUT', timestamp: correction.checkOutAt });
+            }
+        }
+
+        // The period may have been locked since the correction was requested
+        const timestamps = [
+            ...changes.create.map(record => record.timestamp),
+            ...(changes.update ? [changes.update.timestamp, changes.update.originalTimestamp] : []),
+        ];
+        await this.payPeriodService.assertUnlocked(timestamps, scope, correction.branchId);
+
+        const approvedCorrection = await this.correctionRepository.approve(correction, changes, {
+            reviewedByUserId: approvedByUserId,
+            reviewNote: note,
+        });
+
+        this.logger.logUserAction(
+            approvedByUserId,
+            'ATTENDANCE_CORRECTION_APPROVED',
+            {
+                correctionId: id,
+                employeeId: correction.employeeId,
+                type: correction.type,
+                attendanceId: correction.attendanceId,
+                originalTimestamp: changes.update?.originalTimestamp,
+                createdAttendanceIds: approvedCorrection.createdAttendanceIds,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        for (const timestamp of timestamps) {
+            await this.timesheetService.refreshForTimestamp(
+                correction.employeeId,
+                timestamp,
+                scope,
+                correlationId
+            );
+        }
+
+        return approvedCorrection;
+    }
+
+    /**
+     * Reject a pending correction
+     */
+    async rejectCorrection(
+        id: string,
+        reason: string,
+        scope: DataScope,
+        rejectedByUserId: string,
+        correlationId?: string
+    ): Promise<AttendanceCorrectionWithDetails> {
+        const correction = await this.getCorrectionById(id, scope);
+        if (correction.status !== 'PENDING') {
+            throw new BadRequestException('Only pending corrections can be rejected');
+        }
+
+        const rejectedCorrection = await this.correctionRepository.updateStatus(id, {
+            status: 'REJECTED',
+            reviewedByUserId: rejectedByUserId,
+            reviewNote: reason,
+        });
+
+        this.logger.logUserAction(
+            rejectedByUserId,
+            'ATTENDANCE_CORRECTION_REJECTED',
+            {
+                correctionId: id,
+                employeeId: correction.employeeId,
+                reason,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return rejectedCorrection;
+    }
+
+    /**
+     * Withdraw a pending correction; only the employee who requested it can do so
+     */
+    async cancelCorrection(
+        id: string,
+        scope: DataScope,
+        cancelledByUserId: string,
+        correlationId?: string
+    ): Promise<AttendanceCorrectionWithDetails> {
+        const correction = await this.getCorrectionById(id, scope);
+        if (correction.requestedByUserId !== cancelledByUserId) {
+            throw new ForbiddenException('Only the requester can cancel a correction');
+        }
+        if (correction.status !== 'PENDING') {
+            throw new BadRequestException('Only pending corrections can be cancelled');
+        }
+
+        const cancelledCorrection = await this.correctionRepository.updateStatus(id, {
+            status: 'CANCELLED',
+        });
+
+        this.logger.logUserAction(
+            cancelledByUserId,
+            'ATTENDANCE_CORRECTION_CANCELLED',
+            {
+                correctionId: id,
+                employeeId: correction.employeeId,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return cancelledCorrection;
+    }
+
+    /**
+     * Get the employee record of the signed-in user
+     */
+    private async getOwnEmployee(email: string, scope: DataScope) {
+        const employee = email && (await this.employeeRepository.findByEmail(email, scope));
+        if (!employee) {
+            throw new NotFoundException('No employee record is linked to this user');
+        }
+
+        return employee;
+    }
+
+    private async getOwnAttendance(
+        attendanceId: string | undefined,
+        employeeId: string,
+        scope: DataScope
+    ) {
+        if (!attendanceId) {
+            throw new BadRequestException('The attendance record to correct is required');
+        }
+
+        const attendance = await this.attendanceRepository.findById(attendanceId, scope);
+        if (!attendance || attendance.employeeId !== employeeId) {
+            throw new NotFoundException('Attendance record not found');
+        }
+        if (attendance.eventType !== 'CHECK_IN' && attendance.eventType !== 'CHECK_OUT') {
+            throw new BadRequestException('Only check-in and check-out times can be corrected');
+        }
+
+        return attendance;
+    }
+}
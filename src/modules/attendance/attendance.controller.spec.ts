@@ -1,12 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AttendanceController } from './attendance.controller';
 import { AttendanceService } from './attendance.service';
+import { TimesheetService } from './timesheet.service';
 import { AttendanceFiltersDto, CreateAttendanceDto } from '@/shared/dto';
 import { DataScope, UserContext } from '@/shared/interfaces';
 
 describe('AttendanceController', () => {
     let controller: AttendanceController;
     let attendanceService: jest.Mocked<AttendanceService>;
+    let timesheetService: jest.Mocked<TimesheetService>;
 
     const mockUserContext: UserContext = {
         sub: 'user-123',
@@ -21,6 +23,8 @@ describe('AttendanceController', () => {
         branchIds: ['branch-123'],
     };
 
+    const mockShiftStatusCounts = { on_time: 0, late: 0, early_leave: 0, absent: 0, day_off: 0 };
+
     const mockAttendanceRecord = {
         id: 'attendance-123',
         organizationId: 'org-123',
@@ -56,6 +60,14 @@ describe('AttendanceController', () => {
             getDailyAttendanceReport: jest.fn(),
             getWeeklyAttendanceReport: jest.fn(),
             getMonthlyAttendanceReport: jest.fn(),
+            getCurrentAttendanceDay: jest.fn().mockResolvedValue({
+                start: new Date('2024-01-15T00:00:00Z'),
+                end: new Date('2024-01-15T23:59:59.999Z'),
+            }),
+        };
+
+        const mockTimesheetService = {
+            refreshForTimestamp: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -65,11 +77,16 @@ describe('AttendanceController', () => {
                     provide: AttendanceService,
                     useValue: mockAttendanceService,
                 },
+                {
+                    provide: TimesheetService,
+                    useValue: mockTimesheetService,
+                },
             ],
         }).compile();
 
         controller = module.get<AttendanceController>(AttendanceController);
         attendanceService = module.get(AttendanceService);
+        timesheetService = module.get(TimesheetService);
     });
 
     it('should be defined', () => {
@@ -100,6 +117,11 @@ describe('AttendanceController', () => {
                 createDto,
                 mockDataScope
             );
+            expect(timesheetService.refreshForTimestamp).toHaveBeenCalledWith(
+                'emp-123',
+                mockAttendanceRecord.timestamp,
+                mockDataScope
+            );
             expect(result).toEqual({
                 id: mockAttendanceRecord.id,
                 organizationId: mockAttendanceRecord.organizationId,
@@ -188,16 +210,26 @@ describe('AttendanceController', () => {
                 startDate: new Date('2024-01-01'),
                 endDate: new Date('2024-01-31'),
                 totalHours: 160,
+                overtimeHours: 4,
+                nightHours: 0,
                 presentDays: 20,
                 partialDays: 2,
                 absentDays: 9,
+                leaveDays: 0,
+                shiftStatusCounts: mockShiftStatusCounts,
                 dailySummary: [
                     {
                         date: '2024-01-15',
                         checkIn: new Date('2024-01-15T09:00:00Z'),
                         checkOut: new Date('2024-01-15T17:00:00Z'),
                         totalHours: 8,
+                        overtimeHours: 0,
+                        nightHours: 0,
                         status: 'present' as const,
+                        shiftStatus: 'on_time' as const,
+                        lateMinutes: 0,
+                        earlyLeaveMinutes: 0,
+                        leaveTypeId: null,
                     },
                 ],
             };
@@ -213,8 +245,8 @@ describe('AttendanceController', () => {
 
             expect(attendanceService.getAttendanceSummary).toHaveBeenCalledWith(
                 'emp-123',
-                new Date('2024-01-01'),
-                new Date('2024-01-31'),
+                '2024-01-01',
+                '2024-01-31',
                 mockDataScope
             );
             expect(result.totalHours).toBe(160);
@@ -251,12 +283,18 @@ describe('AttendanceController', () => {
             const attendanceRecords = [mockAttendanceRecord];
             attendanceService.getAttendanceRecords.mockResolvedValue(attendanceRecords as any);
 
-            const result = await controller.getTodayAttendance(mockDataScope, {});
+            const result = await controller.getTodayAttendance(mockDataScope, {
+                branchId: 'branch-123',
+            });
 
+            expect(attendanceService.getCurrentAttendanceDay).toHaveBeenCalledWith(
+                mockDataScope,
+                'branch-123'
+            );
             expect(attendanceService.getAttendanceRecords).toHaveBeenCalledWith(
                 expect.objectContaining({
-                    startDate: expect.any(Date),
-                    endDate: expect.any(Date),
+                    startDate: new Date('2024-01-15T00:00:00Z'),
+                    endDate: new Date('2024-01-15T23:59:59.999Z'),
                 }),
                 mockDataScope
             );
@@ -315,7 +353,7 @@ describe('AttendanceController', () => {
 
     describe('deleteAttendanceRecord', () => {
         it('should delete an attendance record successfully', async () => {
-            attendanceService.deleteAttendanceRecord.mockResolvedValue();
+            attendanceService.deleteAttendanceRecord.mockResolvedValue(mockAttendanceRecord as any);
 
             await controller.deleteAttendanceRecord(
                 'attendance-123',
@@ -327,18 +365,26 @@ describe('AttendanceController', () => {
                 'attendance-123',
                 mockDataScope
             );
+            expect(timesheetService.refreshForTimestamp).toHaveBeenCalledWith(
+                'emp-123',
+                mockAttendanceRecord.timestamp,
+                mockDataScope
+            );
         });
     });
 
     describe('getDailyAttendanceReport', () => {
         it('should return daily attendance report', async () => {
             const mockReport = {
-                date: new Date('2024-01-15'),
+                date: '2024-01-15',
                 branchId: 'branch-123',
+                holiday: null,
                 totalEmployees: 10,
                 presentEmployees: 8,
                 partialEmployees: 1,
                 absentEmployees: 1,
+                onLeaveEmployees: 0,
+                shiftStatusCounts: mockShiftStatusCounts,
                 totalHours: 64,
                 averageHours: 8,
                 employeeDetails: [],
@@ -353,7 +399,7 @@ describe('AttendanceController', () => {
             );
 
             expect(attendanceService.getDailyAttendanceReport).toHaveBeenCalledWith(
-                new Date('2024-01-15'),
+                '2024-01-15',
                 'branch-123',
                 mockDataScope
             );
@@ -362,12 +408,15 @@ describe('AttendanceController', () => {
 
         it('should use current date when no date provided', async () => {
             const mockReport = {
-                date: expect.any(Date),
+                date: expect.any(String),
                 branchId: undefined,
+                holiday: null,
                 totalEmployees: 5,
                 presentEmployees: 4,
                 partialEmployees: 1,
                 absentEmployees: 0,
+                onLeaveEmployees: 0,
+                shiftStatusCounts: mockShiftStatusCounts,
                 totalHours: 32,
                 averageHours: 8,
                 employeeDetails: [],
@@ -394,6 +443,8 @@ describe('AttendanceController', () => {
                 totalHours: 320,
                 averageDailyHours: 45.7,
                 totalEmployees: 10,
+                workingDays: 5,
+                shiftStatusCounts: mockShiftStatusCounts,
                 dailyReports: [],
             };
 
@@ -406,7 +457,7 @@ describe('AttendanceController', () => {
             );
 
             expect(attendanceService.getWeeklyAttendanceReport).toHaveBeenCalledWith(
-                new Date('2024-01-15'),
+                '2024-01-15',
                 'branch-123',
                 mockDataScope
             );
@@ -428,6 +479,7 @@ describe('AttendanceController', () => {
                 branchId: 'branch-123',
                 startDate: new Date('2024-01-01'),
                 endDate: new Date('2024-01-31'),
+                workingDays: 23,
                 totalEmployees: 10,
                 totalHours: 1600,
                 averageHoursPerEmployee: 160,
@@ -19,6 +19,7 @@ import {
     ApiTags,
 } from '@nestjs/swagger';
 import { AttendanceService } from './attendance.service';
+import { TimesheetService } from './timesheet.service';
 import {
     AttendanceFiltersDto,
     AttendanceResponseDto,
@@ -35,7 +36,10 @@ import { DataScope, UserContext } from '@/shared/interfaces';
 @ApiBearerAuth()
 @Controller('attendance')
 export class AttendanceController {
-    constructor(private readonly attendanceService: AttendanceService) {}
+    constructor(
+        private readonly attendanceService: AttendanceService,
+        private readonly timesheetService: TimesheetService
+    ) {}
 
     @Post()
     @Permissions('attendance:create')
@@ -58,6 +62,14 @@ export class AttendanceController {
             scope
         );
 
+        if (attendance.employeeId) {
+            await this.timesheetService.refreshForTimestamp(
+                attendance.employeeId,
+                attendance.timestamp,
+                scope
+            );
+        }
+
         return {
             id: attendance.id,
             organizationId: attendance.organizationId,
@@ -210,12 +222,7 @@ export class AttendanceController {
             throw new Error('Start date and end date are required');
         }
 
-        return this.attendanceService.getAttendanceSummary(
-            employeeId,
-            new Date(startDate),
-            new Date(endDate),
-            scope
-        );
+        return this.attendanceService.getAttendanceSummary(employeeId, startDate, endDate, scope);
     }
 
     @Get('branch/:branchId')
@@ -278,16 +285,16 @@ export class AttendanceController {
         @Scope() scope: DataScope,
         @Query() filtersDto: Pick<AttendanceFiltersDto, 'employeeId' | 'branchId'>
     ): Promise<AttendanceResponseDto[]> {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
+        const today = await this.attendanceService.getCurrentAttendanceDay(
+            scope,
+            filtersDto.branchId
+        );
 
         const filters = {
             employeeId: filtersDto.employeeId,
             branchId: filtersDto.branchId,
-            startDate: today,
-            endDate: tomorrow,
+            startDate: today.start,
+            endDate: today.end,
         };
 
         const attendanceRecords = await this.attendanceService.getAttendanceRecords(filters, scope);
@@ -334,12 +341,14 @@ export class AttendanceController {
         }>;
         recentActivity: AttendanceResponseDto[];
     }> {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        const today = await this.attendanceService.getCurrentAttendanceDay(
+            scope,
+            filtersDto.branchId
+        );
 
         const filters = {
             branchId: filtersDto.branchId,
-            startDate: today,
+            startDate: today.start,
             endDate: new Date(),
         };
 
@@ -476,7 +485,15 @@ export class AttendanceController {
         @User() user: UserContext,
         @Scope() scope: DataScope
     ): Promise<void> {
-        await this.attendanceService.deleteAttendanceRecord(id, scope);
+        const attendance = await this.attendanceService.deleteAttendanceRecord(id, scope);
+
+        if (attendance.employeeId) {
+            await this.timesheetService.refreshForTimestamp(
+                attendance.employeeId,
+                attendance.timestamp,
+                scope
+            );
+        }
     }
 
     @Get('reports/daily')
@@ -491,8 +508,7 @@ export class AttendanceController {
         @Query('branchId') branchId?: string,
         @Scope() scope?: DataScope
     ) {
-        const reportDate = date ? new Date(date) : new Date();
-        return this.attendanceService.getDailyAttendanceReport(reportDate, branchId, scope);
+        return this.attendanceService.getDailyAttendanceReport(date || new Date(), branchId, scope);
     }
 
     @Get('reports/weekly')
@@ -511,11 +527,7 @@ export class AttendanceController {
         if (!startDate) {
             throw new Error('Start date is required for weekly report');
         }
-        return this.attendanceService.getWeeklyAttendanceReport(
-            new Date(startDate),
-            branchId,
-            scope
-        );
+        return this.attendanceService.getWeeklyAttendanceReport(startDate, branchId, scope);
     }
 
     @Get('reports/monthly')
@@ -2,13 +2,39 @@ import { Module } from '@nestjs/common';
 import { AttendanceController } from './attendance.controller';
 import { AttendanceService } from './attendance.service';
 import { AttendanceRepository } from './attendance.repository';
+import { TimesheetController } from './timesheet.controller';
+import { TimesheetService } from './timesheet.service';
+import { TimesheetRepository } from './timesheet.repository';
+import { AttendanceCorrectionController } from './attendance-correction.controller';
+import { AttendanceCorrectionService } from './attendance-correction.service';
+import { AttendanceCorrectionRepository } from './attendance-correction.repository';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
+import { EmployeeModule } from '@/modules/employee/employee.module';
+import { ShiftModule } from '@/modules/shift/shift.module';
+import { OrganizationModule } from '@/modules/organization/organization.module';
+import { HolidayModule } from '@/modules/holiday/holiday.module';
+import { PayPeriodModule } from '@/modules/pay-period/pay-period.module';
 
 @Module({
-    imports: [DatabaseModule, LoggerModule],
-    controllers: [AttendanceController],
-    providers: [AttendanceService, AttendanceRepository],
-    exports: [AttendanceService, AttendanceRepository],
+    imports: [
+        DatabaseModule,
+        LoggerModule,
+        EmployeeModule,
+        ShiftModule,
+        OrganizationModule,
+        HolidayModule,
+        PayPeriodModule,
+    ],
+    controllers: [AttendanceController, TimesheetController, AttendanceCorrectionController],
+    providers: [
+        AttendanceService,
+        AttendanceRepository,
+        TimesheetService,
+        TimesheetRepository,
+        AttendanceCorrectionService,
+        AttendanceCorrectionRepository,
+    ],
+    exports: [AttendanceService, AttendanceRepository, TimesheetService],
 })
 export class AttendanceModule {}
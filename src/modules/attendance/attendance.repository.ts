@@ -106,11 +106,18 @@ export class AttendanceRepository {
         });
     }
 
-    async findLastAttendanceForEmployee(employeeId: string, date: Date, scope: DataScope) {
+    /**
+     * Find the employee's last attendance of the day starting at the date, optionally the last
+     * one before a time within it
+     */
+    async findLastAttendanceForEmployee(
+        employeeId: string,
+        date: Date,
+        scope: DataScope,
+        before?: Date
+    ) {
         const whereClause = QueryBuilder.buildOrganizationScope(scope);
-
-        const endOfDay = new Date(date);
-        endOfDay.setHours(23, 59, 59, 999);
+        const endOfDay = this.getEndOfDay(date);
 
         return this.prisma.attendance.findFirst({
             where: {
@@ -118,6 +125,7 @@ export class AttendanceRepository {
                 timestamp: {
                     gte: date,
                     lte: endOfDay,
+                    ...(before && { lt: before }),
                 },
                 ...whereClause,
             },
@@ -125,6 +133,88 @@ export class AttendanceRepository {
         });
     }
 
+    /**
+     * Find the check-ins and check-outs of the employee's day starting at the date
+     */
+    async findDayPunches(employeeId: string, date: Date, scope: DataScope) {
+        return this.prisma.attendance.findMany({
+            where: {
+                employeeId,
+                eventType: { in: ['CHECK_IN', 'CHECK_OUT'] },
+                timestamp: {
+                    gte: date,
+                    lte: this.getEndOfDay(date),
+                },
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            select: { id: true, eventType: true, timestamp: true, meta: true },
+            orderBy: { timestamp: 'asc' },
+        });
+    }
+
+    /**
+     * Find the attendance recorded for a device event: by the event log it came from, or for
+     * records made before that was kept, by device and time and the employee if known. The
+     * latter also returns records of other events at that time; callers drop the ones that
+     * name their event log.
+     */
+    async findByDeviceEvent(
+        deviceId: string,
+        timestamp: Date,
+        eventLogId: string,
+        scope: DataScope,
+        employeeId?: string
+    ) {
+        return this.prisma.attendance.findMany({
+            where: {
+                OR: [
+                    { deviceId, timestamp, ...(employeeId && { employeeId }) },
+                    { deviceId, meta: { path: ['eventLogId'], equals: eventLogId } },
+                ],
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            select: { id: true, employeeId: true, eventType: true, timestamp: true, meta: true },
+        });
+    }
+
+    /**
+     * Find the attendance recorded by a device in a time range
+     */
+    async findDeviceRecords(
+        deviceId: string,
+        range: { startDate: Date; endDate: Date },
+        scope: DataScope
+    ) {
+        return this.prisma.attendance.findMany({
+            where: {
+                deviceId,
+                timestamp: { gte: range.startDate, lte: range.endDate },
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            select: { id: true, employeeId: true, eventType: true, timestamp: true, meta: true },
+            orderBy: { timestamp: 'asc' },
+        });
+    }
+
+    /**
+     * Change the type of attendance records, by record ID
+     */
+    async updateEventTypes(eventTypes: Map<string, 'CHECK_IN' | 'CHECK_OUT'>): Promise<void> {
+        const idsByType = (eventType: string) =>
+            [...eventTypes].filter(([, type]) => type === eventType).map(([id]) => id);
+
+        await this.prisma.$transaction([
+            this.prisma.attendance.updateMany({
+                where: { id: { in: idsByType('CHECK_IN') } },
+                data: { eventType: 'CHECK_IN' },
+            }),
+            this.prisma.attendance.updateMany({
+                where: { id: { in: idsByType('CHECK_OUT') } },
+                data: { eventType: 'CHECK_OUT' },
+            }),
+        ]);
+    }
+
     async delete(id: string, scope: DataScope) {
         await this.prisma.attendance.delete({
             where: { id },
@@ -261,4 +351,60 @@ export class AttendanceRepository {
             }))
             .sort((a, b) => a.date.localeCompare(b.date));
     }
+
+    /**
+     * Find approved leave overlapping the period; dates are YYYY-MM-DD keys of calendar days
+     */
+    async findApprovedLeaves(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            startDate: string;
+            endDate: string;
+        },
+        scope: DataScope
+    ) {
+        const where: any = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            status: 'APPROVED',
+            startDate: { lte: new Date(`${filters.endDate}T00:00:00.000Z`) },
+            endDate: { gte: new Date(`${filters.startDate}T00:00:00.000Z`) },
+        };
+
+        if (filters.employeeId) {
+            where.employeeId = filters.employeeId;
+        }
+
+        if (filters.branchId) {
+            where.branchId = filters.branchId;
+        }
+
+        return this.prisma.leaveRequest.findMany({
+            where,
+            select: {
+                employeeId: true,
+                startDate: true,
+                endDate: true,
+                leaveType: {
+                    select: {
+                        id: true,
+                        name: true,
+                        isPaid: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * The day runs until the same time tomorrow, so it also works for attendance days that
+     * start at a boundary other than midnight
+     */
+    private getEndOfDay(date: Date): Date {
+        const endOfDay = new Date(date);
+        endOfDay.setDate(endOfDay.getDate() + 1);
+        endOfDay.setTime(endOfDay.getTime() - 1);
+
+        return endOfDay;
+    }
 }
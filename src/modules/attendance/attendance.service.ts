@@ -1,17 +1,88 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { AttendanceRepository } from './attendance.repository';
+import { TimesheetRepository } from './timesheet.repository';
 import { LoggerService } from '@/core/logger/logger.service';
+import { EmployeeRepository } from '@/modules/employee/employee.repository';
+import { ShiftAssignee, ShiftService } from '@/modules/shift/shift.service';
+import { ShiftAssignmentWithShift } from '@/modules/shift/shift.repository';
+import { OrganizationRepository } from '@/modules/organization/organization.repository';
+import { HolidayService } from '@/modules/holiday/holiday.service';
+import { PayPeriodService } from '@/modules/pay-period/pay-period.service';
 import { CreateAttendanceDto } from '@/shared/dto';
 import { DataScope } from '@/shared/interfaces';
+import {
+    AttendanceDayPunches,
+    AttendanceDayStatus,
+    AttendanceDayUtil,
+    AttendancePunch,
+    DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+    DEFAULT_WORKING_DAYS,
+    HolidayEntry,
+    HolidayUtil,
+    SequencedPunch,
+    ShiftDayClassification,
+    ShiftUtil,
+    TimesheetUtil,
+    TimezoneUtil,
+} from '@/shared/utils';
+
+export interface LeaveDay {
+    leaveTypeId: string;
+    leaveTypeName: string;
+    isPaid: boolean;
+}
+
+export interface DeviceEventAttendance {
+    id: string;
+    employeeId: string;
+    eventType: string;
+    timestamp: Date;
+    /** Changed by an approved correction */
+    corrected: boolean;
+    /** The device event log the record came from, for records made since that is kept */
+    eventLogId?: string;
+}
+
+export interface EmployeeAttendanceDays {
+    employee: { id: string; branchId: string } | null;
+    assignments?: ShiftAssignmentWithShift[];
+    timeZone?: string;
+    days: Map<string, AttendanceDayPunches>;
+    /** Approved leave by date key */
+    leaves: Map<string, LeaveDay>;
+    /** Date keys of the holidays in the employee's branch */
+    holidays: Set<string>;
+}
+
+type AttendanceStatus = 'present' | 'partial' | 'absent' | 'on_leave';
+
+interface AttendanceSettings {
+    dayBoundary: string;
+    timeZone?: string;
+    branchTimeZones: Map<string, string>;
+}
 
 @Injectable()
 export class AttendanceService {
     constructor(
         private readonly attendanceRepository: AttendanceRepository,
+        private readonly timesheetRepository: TimesheetRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly shiftService: ShiftService,
+        private readonly organizationRepository: OrganizationRepository,
+        private readonly holidayService: HolidayService,
+        private readonly payPeriodService: PayPeriodService,
         private readonly logger: LoggerService
     ) {}
 
     async createAttendanceRecord(createAttendanceDto: CreateAttendanceDto, scope: DataScope) {
+        await this.payPeriodService.assertUnlocked(
+            [new Date(createAttendanceDto.timestamp)],
+            scope,
+            createAttendanceDto.branchId
+        );
+
         try {
             const attendance = await this.attendanceRepository.create(createAttendanceDto, scope);
 
@@ -34,8 +105,162 @@ export class AttendanceService {
         }
     }
 
-    async getLastAttendanceForEmployee(employeeId: string, date: Date, scope: DataScope) {
-        return this.attendanceRepository.findLastAttendanceForEmployee(employeeId, date, scope);
+    async getLastAttendanceForEmployee(
+        employeeId: string,
+        date: Date,
+        scope: DataScope,
+        before?: Date
+    ) {
+        return this.attendanceRepository.findLastAttendanceForEmployee(
+            employeeId,
+            date,
+            scope,
+            before
+        );
+    }
+
+    /**
+     * Re-sequence the check-ins and check-outs of the attendance day starting at dayStart, e.g.
+     * after a punch an offline device buffered arrives after later ones. Punches entered by
+     * approved corrections keep their type. Days in a locked pay period are left as they are.
+     * Returns the number of punches retyped.
+     */
+    async resequenceAttendanceDay(
+        employeeId: string,
+        dayStart: Date,
+        scope: DataScope,
+        branchId?: string
+    ): Promise<number> {
+        const punches = await this.getDayPunches(employeeId, dayStart, scope);
+        const changes = AttendanceDayUtil.sequencePunches(punches);
+        if (!changes.size) {
+            return 0;
+        }
+
+        try {
+            await this.payPeriodService.assertUnlocked([dayStart], scope, branchId);
+        } catch (error) {
+            if (!(error instanceof ConflictException)) {
+                throw error;
+            }
+
+            this.logger.warn('Attendance day not re-sequenced, its pay period is locked', {
+                employeeId,
+                dayStart,
+                organizationId: scope.organizationId,
+            });
+            return 0;
+        }
+
+        await this.attendanceRepository.updateEventTypes(changes);
+
+        this.logger.log('Attendance day re-sequenced', {
+            employeeId,
+            dayStart,
+            retyped: Object.fromEntries(changes),
+            organizationId: scope.organizationId,
+        });
+
+        return changes.size;
+    }
+
+    /**
+     * Get the check-ins and check-outs of the attendance day starting at dayStart, with the
+     * punches entered by approved corrections marked as fixed
+     */
+    async getDayPunches(
+        employeeId: string,
+        dayStart: Date,
+        scope: DataScope
+    ): Promise<SequencedPunch[]> {
+        const punches = await this.attendanceRepository.findDayPunches(employeeId, dayStart, scope);
+
+        return punches.map(punch => ({
+            id: punch.id,
+            eventType: punch.eventType,
+            timestamp: punch.timestamp,
+            fixed: this.isCorrected(punch.meta),
+        }));
+    }
+
+    /**
+     * Get the attendance recorded for a device event. Records an approved correction changed
+     * are marked, as the correction stands when the event is processed again. Records made
+     * before the event log was kept on them are matched by their time, and by the employee the
+     * event was last attributed to if known; another employee's punch at the same moment is
+     * not the event's.
+     */
+    async getDeviceEventAttendance(
+        deviceId: string,
+        timestamp: Date,
+        eventLogId: string,
+        scope: DataScope,
+        employeeId?: string
+    ): Promise<DeviceEventAttendance[]> {
+        const records = await this.attendanceRepository.findByDeviceEvent(
+            deviceId,
+            timestamp,
+            eventLogId,
+            scope,
+            employeeId
+        );
+
+        return records
+            .map(record => this.toDeviceEventAttendance(record))
+            .filter(record => !record.eventLogId || record.eventLogId === eventLogId);
+    }
+
+    /**
+     * Get the attendance a device recorded in a time range
+     */
+    async getDeviceAttendance(
+        deviceId: string,
+        range: { startDate: Date; endDate: Date },
+        scope: DataScope
+    ): Promise<DeviceEventAttendance[]> {
+        const records = await this.attendanceRepository.findDeviceRecords(deviceId, range, scope);
+
+        return records.map(record => this.toDeviceEventAttendance(record));
+    }
+
+    /**
+     * Get the moment the employee's attendance day containing the given time started.
+     * The boundary of the shift in effect wins over the organization's boundary, and the day
+     * is computed in the time zone of the branch.
+     */
+    async getAttendanceDayStart(
+        employeeId: string,
+        at: Date,
+        scope: DataScope,
+        branchId?: string
+    ): Promise<Date> {
+        const settings = await this.getAttendanceSettings(scope);
+        const timeZone = this.getTimeZone(settings, branchId);
+        const shift = await this.shiftService.getEffectiveShift(employeeId, at, scope, timeZone);
+
+        return AttendanceDayUtil.getDayStart(
+            at,
+            shift?.dayBoundary || settings.dayBoundary,
+            timeZone
+        );
+    }
+
+    /**
+     * Get the range of the attendance day in progress in the branch's (or organization's) zone
+     */
+    async getCurrentAttendanceDay(
+        scope: DataScope,
+        branchId?: string,
+        now: Date = new Date()
+    ): Promise<{ start: Date; end: Date }> {
+        const settings = await this.getAttendanceSettings(scope);
+        const timeZone = this.getTimeZone(settings, branchId);
+
+        return AttendanceDayUtil.getDayRange(
+            AttendanceDayUtil.getAttendanceDate(now, settings.dayBoundary, timeZone),
+            settings.dayBoundary,
+            timeZone
+        );
     }
 
     async getAttendanceRecords(
@@ -58,22 +283,102 @@ export class AttendanceService {
         return attendance;
     }
 
-    async getAttendanceSummary(
+    /**
+     * Group an employee's punches by attendance day for the date keys in the range, together
+     * with the shift assignments and time zone the days were resolved with, the approved leave
+     * and the holidays
+     */
+    async getEmployeeAttendanceDays(
         employeeId: string,
-        startDate: Date,
-        endDate: Date,
+        firstKey: string,
+        lastKey: string,
         scope: DataScope
-    ) {
+    ): Promise<EmployeeAttendanceDays> {
+        const employee = await this.employeeRepository.findById(employeeId, scope);
+        const settings = await this.getAttendanceSettings(scope);
+        const timeZone = this.getTimeZone(settings, employee?.branchId);
+
+        const lookupRange = this.getLookupRange(firstKey, lastKey, [timeZone]);
         const attendanceRecords = await this.attendanceRepository.findMany(
             {
                 employeeId,
-                startDate,
-                endDate,
+                startDate: lookupRange.startDate,
+                endDate: lookupRange.endDate,
             },
             scope
         );
 
-        // Group by date and calculate hours
+        const shiftAssignments = employee
+            ? await this.getShiftAssignments(
+                  [employee],
+                  lookupRange.startDate,
+                  lookupRange.endDate,
+                  scope
+              )
+            : new Map<string, ShiftAssignmentWithShift[]>();
+        const assignments = shiftAssignments.get(employeeId);
+
+        // Sessions are attributed to the attendance day they started on
+        const days = this.groupByAttendanceDay(
+            attendanceRecords,
+            assignments,
+            settings.dayBoundary,
+            timeZone,
+            firstKey,
+            lastKey
+        );
+
+        const leaves = await this.getLeaveDays({ employeeId }, firstKey, lastKey, scope);
+        const holidayEntries = await this.getHolidayEntries(firstKey, lastKey, scope);
+
+        return {
+            employee,
+            assignments,
+            timeZone,
+            days,
+            leaves: leaves.get(employeeId) || new Map(),
+            holidays: new Set(
+                HolidayUtil.getHolidays(
+                    holidayEntries,
+                    firstKey,
+                    lastKey,
+                    employee?.branchId
+                ).keys()
+            ),
+        };
+    }
+
+    /**
+     * Summarize an employee's attendance from the calculated daily timesheets, for the days
+     * of the range in the time zone of the employee's branch
+     */
+    async getAttendanceSummary(
+        employeeId: string,
+        startDate: Date | string,
+        endDate: Date | string,
+        scope: DataScope
+    ) {
+        const employee = await this.employeeRepository.findById(employeeId, scope);
+        const settings = await this.getAttendanceSettings(scope);
+        const timeZone = this.getTimeZone(settings, employee?.branchId);
+        const firstKey = this.toReportDateKey(startDate, timeZone);
+        const lastKey = this.toReportDateKey(endDate, timeZone);
+        const range = this.getDateKeyRange(firstKey, lastKey, timeZone);
+
+        const timesheets = await this.timesheetRepository.findMany(
+            { employeeId, startDate: firstKey, endDate: lastKey },
+            scope
+        );
+
+        const shiftAssignments = employee
+            ? await this.getShiftAssignments([employee], range.startDate, range.endDate, scope)
+            : new Map<string, ShiftAssignmentWithShift[]>();
+        const assignments = shiftAssignments.get(employeeId);
+        const leaves =
+            (await this.getLeaveDays({ employeeId }, firstKey, lastKey, scope)).get(employeeId) ||
+            new Map<string, LeaveDay>();
+        const holidayEntries = await this.getHolidayEntries(firstKey, lastKey, scope);
+
         const dailySummary = new Map<
             string,
             {
@@ -81,55 +386,98 @@ export class AttendanceService {
                 checkIn?: Date;
                 checkOut?: Date;
                 totalHours: number;
-                status: 'present' | 'partial' | 'absent';
+                overtimeHours: number;
+                nightHours: number;
+                status: AttendanceStatus;
+                shiftStatus: AttendanceDayStatus | null;
+                lateMinutes: number;
+                earlyLeaveMinutes: number;
+                leaveTypeId: string | null;
             }
         >();
 
-        attendanceRecords.forEach(record => {
-            const dateKey = record.timestamp.toISOString().split('T')[0];
-
-            if (!dailySummary.has(dateKey)) {
-                dailySummary.set(dateKey, {
-                    date: dateKey,
-                    totalHours: 0,
-                    status: 'absent',
-                });
-            }
-
-            const dayData = dailySummary.get(dateKey)!;
+        timesheets.forEach(timesheet => {
+            const date = this.timesheetRepository.toDateKey(timesheet.date);
+            dailySummary.set(date, {
+                date,
+                checkIn: timesheet.firstCheckIn || undefined,
+                checkOut: timesheet.lastCheckOut || undefined,
+                totalHours: this.toHours(timesheet.netMinutes),
+                overtimeHours: this.toHours(
+                    timesheet.overtimeMinutes + timesheet.weeklyOvertimeMinutes
+                ),
+                nightHours: this.toHours(timesheet.nightMinutes),
+                status: timesheet.status as AttendanceStatus,
+                shiftStatus: timesheet.shiftStatus as AttendanceDayStatus | null,
+                lateMinutes: timesheet.lateMinutes,
+                earlyLeaveMinutes: timesheet.earlyLeaveMinutes,
+                leaveTypeId: timesheet.leaveTypeId,
+            });
+        });
 
-            if (record.eventType === 'CHECK_IN') {
-                dayData.checkIn = record.timestamp;
-                dayData.status = 'partial';
-            } else if (record.eventType === 'CHECK_OUT') {
-                dayData.checkOut = record.timestamp;
+        // Scheduled or leave days without a timesheet had no punches and still need a status
+        if (assignments || leaves.size > 0) {
+            TimesheetUtil.getDateKeys(firstKey, lastKey).forEach(dateKey => {
+                if (dailySummary.has(dateKey)) {
+                    return;
+                }
 
-                if (dayData.checkIn) {
-                    const hours =
-                        (record.timestamp.getTime() - dayData.checkIn.getTime()) / (1000 * 60 * 60);
-                    dayData.totalHours = Math.round(hours * 100) / 100;
-                    dayData.status = 'present';
+                const isHoliday = HolidayUtil.isHoliday(
+                    holidayEntries,
+                    dateKey,
+                    employee?.branchId
+                );
+                const classification = this.classifyShiftDay(
+                    assignments,
+                    AttendanceDayUtil.fromDateKey(dateKey, timeZone),
+                    [],
+                    [],
+                    timeZone,
+                    isHoliday
+                );
+                const leave = this.getExcusingLeave(leaves.get(dateKey), classification, isHoliday);
+                if (classification || leave) {
+                    dailySummary.set(dateKey, {
+                        date: dateKey,
+                        totalHours: 0,
+                        overtimeHours: 0,
+                        nightHours: 0,
+                        status: leave ? 'on_leave' : 'absent',
+                        shiftStatus: leave ? null : classification.status,
+                        lateMinutes: 0,
+                        earlyLeaveMinutes: 0,
+                        leaveTypeId: leave ? leave.leaveTypeId : null,
+                    });
                 }
-            }
-        });
+            });
+        }
 
         const summary = Array.from(dailySummary.values()).sort((a, b) =>
             a.date.localeCompare(b.date)
         );
 
         const totalHours = summary.reduce((sum, day) => sum + day.totalHours, 0);
+        const overtimeHours = summary.reduce((sum, day) => sum + day.overtimeHours, 0);
+        const nightHours = summary.reduce((sum, day) => sum + day.nightHours, 0);
         const presentDays = summary.filter(day => day.status === 'present').length;
         const partialDays = summary.filter(day => day.status === 'partial').length;
-        const absentDays = summary.filter(day => day.status === 'absent').length;
+        const absentDays = summary.filter(
+            day => day.status === 'absent' && day.shiftStatus !== 'day_off'
+        ).length;
+        const leaveDays = summary.filter(day => day.status === 'on_leave').length;
 
         return {
             employeeId,
-            startDate,
-            endDate,
+            startDate: range.startDate,
+            endDate: range.endDate,
             totalHours: Math.round(totalHours * 100) / 100,
+            overtimeHours: Math.round(overtimeHours * 100) / 100,
+            nightHours: Math.round(nightHours * 100) / 100,
             presentDays,
             partialDays,
             absentDays,
+            leaveDays,
+            shiftStatusCounts: this.countShiftStatuses(summary.map(day => day.shiftStatus)),
             dailySummary: summary,
         };
     }
@@ -140,6 +488,12 @@ export class AttendanceService {
             throw new NotFoundException('Attendance record not found');
         }
 
+        await this.payPeriodService.assertUnlocked(
+            [attendance.timestamp],
+            scope,
+            attendance.branchId
+        );
+
         await this.attendanceRepository.delete(id, scope);
 
         this.logger.log('Attendance record deleted', {
@@ -147,6 +501,8 @@ export class AttendanceService {
             employeeId: attendance.employeeId,
             organizationId: scope.organizationId,
         });
+
+        return attendance;
     }
 
     async getAttendanceStats(
@@ -160,52 +516,87 @@ export class AttendanceService {
         return this.attendanceRepository.getAttendanceStats(filters, scope);
     }
 
-    async getDailyAttendanceReport(date: Date, branchId?: string, scope?: DataScope) {
-        const startOfDay = new Date(date);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(date);
-        endOfDay.setHours(23, 59, 59, 999);
+    /**
+     * Report the attendance of a day, taken in the time zone of the branch (or organization)
+     */
+    async getDailyAttendanceReport(date: Date | string, branchId?: string, scope?: DataScope) {
+        const settings = await this.getAttendanceSettings(scope);
+        const dateKey = this.toReportDateKey(date, this.getTimeZone(settings, branchId));
+        const lookupRange = this.getLookupRange(
+            dateKey,
+            dateKey,
+            this.getReportTimeZones(settings, branchId)
+        );
 
         const filters = {
             branchId,
-            startDate: startOfDay,
-            endDate: endOfDay,
+            startDate: lookupRange.startDate,
+            endDate: lookupRange.endDate,
         };
 
         const attendanceRecords = await this.attendanceRepository.findMany(filters, scope);
+        const employees = await this.getActiveEmployees(branchId, scope);
+        const shiftAssignments = await this.getShiftAssignments(
+            employees,
+            lookupRange.startDate,
+            lookupRange.endDate,
+            scope
+        );
+        const leaves = await this.getLeaveDays({ branchId }, dateKey, dateKey, scope);
+        const holidayEntries = await this.getHolidayEntries(dateKey, dateKey, scope);
 
         // Group by employee
+        const employeeRecords = this.groupRecordsByEmployee(attendanceRecords, employees);
+
+        // Keep the sessions that started on this attendance day, in each branch's time zone
         const employeeAttendance = new Map<
             string,
-            {
-                employee: any;
-                checkIns: Date[];
-                checkOuts: Date[];
-                totalHours: number;
-                status: 'present' | 'partial' | 'absent';
-            }
+            { employee: any; branchId: string; timeZone?: string } & AttendanceDayPunches
         >();
 
-        attendanceRecords.forEach(record => {
-            if (!record.employeeId || !record.employee) return;
+        employeeRecords.forEach(({ employee, branchId: employeeBranchId, records }, employeeId) => {
+            const timeZone = this.getTimeZone(settings, employeeBranchId);
+            const punches = this.groupByAttendanceDay(
+                records,
+                shiftAssignments.get(employeeId),
+                settings.dayBoundary,
+                timeZone,
+                dateKey,
+                dateKey
+            ).get(dateKey);
 
-            const employeeId = record.employeeId;
-            if (!employeeAttendance.has(employeeId)) {
+            if (punches) {
                 employeeAttendance.set(employeeId, {
-                    employee: record.employee,
-                    checkIns: [],
-                    checkOuts: [],
-                    totalHours: 0,
-                    status: 'absent',
+                    employee,
+                    branchId: employeeBranchId,
+                    timeZone,
+                    ...punches,
                 });
             }
+        });
 
-            const attendance = employeeAttendance.get(employeeId)!;
-
-            if (record.eventType === 'CHECK_IN') {
-                attendance.checkIns.push(record.timestamp);
-            } else if (record.eventType === 'CHECK_OUT') {
-                attendance.checkOuts.push(record.timestamp);
+        // Employees scheduled for a shift or on leave appear in the report even without punches
+        employees.forEach(employee => {
+            const assignments = shiftAssignments.get(employee.id);
+            const timeZone = this.getTimeZone(settings, employee.branchId);
+            const isScheduled =
+                assignments &&
+                ShiftUtil.findAssignmentForDate(
+                    assignments,
+                    AttendanceDayUtil.fromDateKey(dateKey, timeZone),
+                    timeZone
+                );
+            if (
+                !employeeAttendance.has(employee.id) &&
+                (isScheduled || leaves.get(employee.id)?.has(dateKey))
+            ) {
+                employeeAttendance.set(employee.id, {
+                    employee,
+                    branchId: employee.branchId,
+                    timeZone,
+                    checkIns: [],
+                    checkOuts: [],
+                });
             }
         });
 
@@ -214,18 +605,8 @@ export class AttendanceService {
             attendance.checkIns.sort((a, b) => a.getTime() - b.getTime());
             attendance.checkOuts.sort((a, b) => a.getTime() - b.getTime());
 
-            let totalHours = 0;
-            let status: 'present' | 'partial' | 'absent' = 'absent';
-
-            // Calculate total hours worked
-            const minLength = Math.min(attendance.checkIns.length, attendance.checkOuts.length);
-            for (let i = 0; i < minLength; i++) {
-                const checkIn = attendance.checkIns[i];
-                const checkOut = attendance.checkOuts[i];
-                if (checkOut > checkIn) {
-                    totalHours += (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60);
-                }
-            }
+            const totalHours = this.calculateWorkedHours(attendance.checkIns, attendance.checkOuts);
+            let status: AttendanceStatus = 'absent';
 
             // Determine status
             if (attendance.checkIns.length > 0) {
@@ -236,6 +617,28 @@ export class AttendanceService {
                 }
             }
 
+            const isHoliday = HolidayUtil.isHoliday(holidayEntries, dateKey, attendance.branchId);
+            const classification = this.classifyShiftDay(
+                shiftAssignments.get(attendance.employee.id),
+                AttendanceDayUtil.fromDateKey(dateKey, attendance.timeZone),
+                attendance.checkIns,
+                attendance.checkOuts,
+                attendance.timeZone,
+                isHoliday
+            );
+
+            // Approved leave excuses a day without punches
+            const leave =
+                attendance.checkIns.length === 0 &&
+                this.getExcusingLeave(
+                    leaves.get(attendance.employee.id)?.get(dateKey),
+                    classification,
+                    isHoliday
+                );
+            if (leave) {
+                status = 'on_leave';
+            }
+
             return {
                 employee: {
                     id: attendance.employee.id,
@@ -247,18 +650,29 @@ export class AttendanceService {
                 checkOuts: attendance.checkOuts,
                 totalHours: Math.round(totalHours * 100) / 100,
                 status,
+                leaveType: leave ? { id: leave.leaveTypeId, name: leave.leaveTypeName } : null,
+                shiftStatus: classification && !leave ? classification.status : null,
+                lateMinutes: classification ? classification.lateMinutes : 0,
+                earlyLeaveMinutes: classification ? classification.earlyLeaveMinutes : 0,
                 firstCheckIn: attendance.checkIns[0] || null,
                 lastCheckOut: attendance.checkOuts[attendance.checkOuts.length - 1] || null,
             };
         });
 
+        const holiday = HolidayUtil.findEntry(holidayEntries, dateKey, branchId);
+
         return {
-            date,
+            date: dateKey,
             branchId,
+            holiday: holiday && holiday.isDayOff ? holiday.name : null,
             totalEmployees: report.length,
             presentEmployees: report.filter(r => r.status === 'present').length,
             partialEmployees: report.filter(r => r.status === 'partial').length,
-            absentEmployees: report.filter(r => r.status === 'absent').length,
+            absentEmployees: report.filter(
+                r => r.status === 'absent' && r.shiftStatus !== 'day_off'
+            ).length,
+            onLeaveEmployees: report.filter(r => r.status === 'on_leave').length,
+            shiftStatusCounts: this.countShiftStatuses(report.map(r => r.shiftStatus)),
             totalHours: report.reduce((sum, r) => sum + r.totalHours, 0),
             averageHours:
                 report.length > 0
@@ -270,97 +684,200 @@ export class AttendanceService {
         };
     }
 
-    async getWeeklyAttendanceReport(startDate: Date, branchId?: string, scope?: DataScope) {
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 6);
-        endDate.setHours(23, 59, 59, 999);
+    /**
+     * Report the attendance of the seven days from the start date, in the time zone of the
+     * branch (or organization)
+     */
+    async getWeeklyAttendanceReport(
+        startDate: Date | string,
+        branchId?: string,
+        scope?: DataScope
+    ) {
+        const settings = await this.getAttendanceSettings(scope);
+        const timeZone = this.getTimeZone(settings, branchId);
+        const firstKey = this.toReportDateKey(startDate, timeZone);
+        const lastKey = TimesheetUtil.addDaysToKey(firstKey, 6);
+        const range = this.getDateKeyRange(firstKey, lastKey, timeZone);
 
         const dailyReports = [];
-        const currentDate = new Date(startDate);
+        const holidayEntries = await this.getHolidayEntries(firstKey, lastKey, scope);
 
-        while (currentDate <= endDate) {
-            const dailyReport = await this.getDailyAttendanceReport(
-                new Date(currentDate),
-                branchId,
-                scope
-            );
-            dailyReports.push(dailyReport);
-            currentDate.setDate(currentDate.getDate() + 1);
+        for (const dateKey of TimesheetUtil.getDateKeys(firstKey, lastKey)) {
+            dailyReports.push(await this.getDailyAttendanceReport(dateKey, branchId, scope));
         }
 
         const totalHours = dailyReports.reduce((sum, report) => sum + report.totalHours, 0);
         const totalEmployees = Math.max(...dailyReports.map(r => r.totalEmployees));
         const averageDailyHours = dailyReports.length > 0 ? totalHours / dailyReports.length : 0;
+        const shiftStatusCounts = this.countShiftStatuses([]);
+        dailyReports.forEach(report => {
+            Object.keys(shiftStatusCounts).forEach(status => {
+                shiftStatusCounts[status] += report.shiftStatusCounts[status];
+            });
+        });
 
         return {
-            startDate,
-            endDate,
+            startDate: range.startDate,
+            endDate: range.endDate,
             branchId,
             totalHours: Math.round(totalHours * 100) / 100,
             averageDailyHours: Math.round(averageDailyHours * 100) / 100,
             totalEmployees,
+            workingDays: HolidayUtil.countWorkingDays(holidayEntries, firstKey, lastKey, branchId),
+            shiftStatusCounts,
             dailyReports,
         };
     }
 
+    /**
+     * Report the attendance of a calendar month, in the time zone of the branch (or
+     * organization)
+     */
     async getMonthlyAttendanceReport(
         year: number,
         month: number,
         branchId?: string,
         scope?: DataScope
     ) {
-        const startDate = new Date(year, month - 1, 1);
-        const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+        const settings = await this.getAttendanceSettings(scope);
+        // Calendar arithmetic on UTC dates, which have no zone of their own to shift the keys
+        const firstKey = new Date(Date.UTC(year, month - 1, 1)).toISOString().slice(0, 10);
+        const lastKey = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+        const range = this.getDateKeyRange(firstKey, lastKey, this.getTimeZone(settings, branchId));
+
+        const lookupRange = this.getLookupRange(
+            firstKey,
+            lastKey,
+            this.getReportTimeZones(settings, branchId)
+        );
 
         const filters = {
             branchId,
-            startDate,
-            endDate,
+            startDate: lookupRange.startDate,
+            endDate: lookupRange.endDate,
         };
 
         const attendanceRecords = await this.attendanceRepository.findMany(filters, scope);
+        const employees = await this.getActiveEmployees(branchId, scope);
+        const shiftAssignments = await this.getShiftAssignments(
+            employees,
+            lookupRange.startDate,
+            lookupRange.endDate,
+            scope
+        );
+        const leaves = await this.getLeaveDays({ branchId }, firstKey, lastKey, scope);
+        const holidayEntries = await this.getHolidayEntries(firstKey, lastKey, scope);
+
+        // Group by employee, then by the attendance day each session started on
+        const employeeRecords = this.groupRecordsByEmployee(attendanceRecords, employees);
 
-        // Group by employee and date
         const employeeMonthlyData = new Map<
             string,
             {
                 employee: any;
-                dailyHours: Map<string, number>;
-                totalHours: number;
-                daysWorked: number;
+                branchId: string;
+                timeZone?: string;
+                dailyPunches: Map<string, AttendanceDayPunches>;
             }
         >();
 
-        attendanceRecords.forEach(record => {
-            if (!record.employeeId || !record.employee) return;
-
-            const employeeId = record.employeeId;
-            const dateKey = record.timestamp.toISOString().split('T')[0];
+        employeeRecords.forEach(({ employee, branchId: employeeBranchId, records }, employeeId) => {
+            const timeZone = this.getTimeZone(settings, employeeBranchId);
+            employeeMonthlyData.set(employeeId, {
+                employee,
+                branchId: employeeBranchId,
+                timeZone,
+                dailyPunches: this.groupByAttendanceDay(
+                    records,
+                    shiftAssignments.get(employeeId),
+                    settings.dayBoundary,
+                    timeZone,
+                    firstKey,
+                    lastKey
+                ),
+            });
+        });
 
-            if (!employeeMonthlyData.has(employeeId)) {
-                employeeMonthlyData.set(employeeId, {
-                    employee: record.employee,
-                    dailyHours: new Map(),
-                    totalHours: 0,
-                    daysWorked: 0,
+        employees.forEach(employee => {
+            if (
+                !employeeMonthlyData.has(employee.id) &&
+                (shiftAssignments.has(employee.id) || leaves.has(employee.id))
+            ) {
+                employeeMonthlyData.set(employee.id, {
+                    employee,
+                    branchId: employee.branchId,
+                    timeZone: this.getTimeZone(settings, employee.branchId),
+                    dailyPunches: new Map(),
                 });
             }
-
-            // This is a simplified calculation - in reality you'd need to pair check-ins with check-outs
-            // For now, we'll just count the records
-            const employeeData = employeeMonthlyData.get(employeeId)!;
-            if (!employeeData.dailyHours.has(dateKey)) {
-                employeeData.dailyHours.set(dateKey, 0);
-            }
         });
 
         const monthlyReport = Array.from(employeeMonthlyData.values()).map(data => {
-            const daysWorked = data.dailyHours.size;
-            const totalHours = Array.from(data.dailyHours.values()).reduce(
-                (sum, hours) => sum + hours,
-                0
+            const assignments = shiftAssignments.get(data.employee.id);
+            const employeeLeaves = leaves.get(data.employee.id) || new Map<string, LeaveDay>();
+            const timeZone = data.timeZone;
+            const holidays = HolidayUtil.getHolidays(
+                holidayEntries,
+                firstKey,
+                lastKey,
+                data.branchId
             );
 
+            // Scheduled and leave days without any punches still need to be classified
+            if (assignments || employeeLeaves.size > 0) {
+                TimesheetUtil.getDateKeys(firstKey, lastKey).forEach(dateKey => {
+                    if (
+                        !data.dailyPunches.has(dateKey) &&
+                        (employeeLeaves.has(dateKey) ||
+                            (assignments &&
+                                ShiftUtil.findAssignmentForDate(
+                                    assignments,
+                                    AttendanceDayUtil.fromDateKey(dateKey, timeZone),
+                                    timeZone
+                                )))
+                    ) {
+                        data.dailyPunches.set(dateKey, { checkIns: [], checkOuts: [] });
+                    }
+                });
+            }
+
+            const dailyBreakdown = Array.from(data.dailyPunches.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([date, punches]) => {
+                    punches.checkIns.sort((a, b) => a.getTime() - b.getTime());
+                    punches.checkOuts.sort((a, b) => a.getTime() - b.getTime());
+
+                    const classification = this.classifyShiftDay(
+                        assignments,
+                        AttendanceDayUtil.fromDateKey(date, timeZone),
+                        punches.checkIns,
+                        punches.checkOuts,
+                        timeZone,
+                        holidays.has(date)
+                    );
+                    const onLeave =
+                        punches.checkIns.length === 0 &&
+                        !!this.getExcusingLeave(
+                            employeeLeaves.get(date),
+                            classification,
+                            holidays.has(date)
+                        );
+
+                    return {
+                        date,
+                        hours:
+                            Math.round(
+                                this.calculateWorkedHours(punches.checkIns, punches.checkOuts) * 100
+                            ) / 100,
+                        worked: punches.checkIns.length > 0,
+                        onLeave,
+                        shiftStatus: classification && !onLeave ? classification.status : null,
+                    };
+                });
+
+            const daysWorked = dailyBreakdown.filter(day => day.worked).length;
+            const totalHours = dailyBreakdown.reduce((sum, day) => sum + day.hours, 0);
+
             return {
                 employee: {
                     id: data.employee.id,
@@ -370,11 +887,24 @@ export class AttendanceService {
                 },
                 totalHours: Math.round(totalHours * 100) / 100,
                 daysWorked,
+                workingDays: this.countWorkingDays(
+                    assignments,
+                    holidays,
+                    firstKey,
+                    lastKey,
+                    timeZone
+                ),
                 averageHoursPerDay:
                     daysWorked > 0 ? Math.round((totalHours / daysWorked) * 100) / 100 : 0,
-                dailyBreakdown: Array.from(data.dailyHours.entries()).map(([date, hours]) => ({
+                leaveDays: dailyBreakdown.filter(day => day.onLeave).length,
+                shiftStatusCounts: this.countShiftStatuses(
+                    dailyBreakdown.map(day => day.shiftStatus)
+                ),
+                dailyBreakdown: dailyBreakdown.map(({ date, hours, onLeave, shiftStatus }) => ({
                     date,
-                    hours: Math.round(hours * 100) / 100,
+                    hours,
+                    onLeave,
+                    shiftStatus,
                 })),
             };
         });
@@ -383,8 +913,9 @@ export class AttendanceService {
             year,
             month,
             branchId,
-            startDate,
-            endDate,
+            startDate: range.startDate,
+            endDate: range.endDate,
+            workingDays: HolidayUtil.countWorkingDays(holidayEntries, firstKey, lastKey, branchId),
             totalEmployees: monthlyReport.length,
             totalHours: monthlyReport.reduce((sum, emp) => sum + emp.totalHours, 0),
             averageHoursPerEmployee:
@@ -397,4 +928,419 @@ export class AttendanceService {
             ),
         };
     }
+
+    /**
+     * Sum worked hours by pairing sorted check-ins with sorted check-outs
+     */
+    private calculateWorkedHours(checkIns: Date[], checkOuts: Date[]): number {
+        let totalHours = 0;
+
+        const minLength = Math.min(checkIns.length, checkOuts.length);
+        for (let i = 0; i < minLength; i++) {
+            if (checkOuts[i] > checkIns[i]) {
+                totalHours += (checkOuts[i].getTime() - checkIns[i].getTime()) / (1000 * 60 * 60);
+            }
+        }
+
+        return totalHours;
+    }
+
+    private toHours(minutes: number): number {
+        return Math.round((minutes / 60) * 100) / 100;
+    }
+
+    private async getActiveEmployees(branchId?: string, scope?: DataScope) {
+        if (!scope) {
+            return [];
+        }
+
+        return this.employeeRepository.findMany(
+            { isActive: true, ...(branchId && { branchId }) },
+            scope
+        );
+    }
+
+    private async getShiftAssignments(
+        employees: ShiftAssignee[],
+        startDate: Date,
+        endDate: Date,
+        scope?: DataScope
+    ): Promise<Map<string, ShiftAssignmentWithShift[]>> {
+        if (!scope || employees.length === 0) {
+            return new Map();
+        }
+
+        return this.shiftService.getShiftAssignmentsForEmployees(
+            employees,
+            startDate,
+            endDate,
+            scope
+        );
+    }
+
+    /**
+     * Classify a day against the shift in effect, or return null when none applies.
+     * A holiday is a day off whatever the shift says.
+     */
+    private classifyShiftDay(
+        assignments: ShiftAssignmentWithShift[] | undefined,
+        day: Date,
+        checkIns: Date[] = [],
+        checkOuts: Date[] = [],
+        timeZone?: string,
+        isHoliday = false
+    ): ShiftDayClassification | null {
+        const assignment =
+            assignments && ShiftUtil.findAssignmentForDate(assignments, day, timeZone);
+        if (!assignment) {
+            return null;
+        }
+
+        if (isHoliday) {
+            return { status: 'day_off', lateMinutes: 0, earlyLeaveMinutes: 0 };
+        }
+
+        const firstCheckIn =
+            checkIns.length > 0 ? new Date(Math.min(...checkIns.map(Number))) : null;
+        const lastCheckOut =
+            checkOuts.length > 0 ? new Date(Math.max(...checkOuts.map(Number))) : null;
+
+        return ShiftUtil.classifyDay(assignment.shift, day, firstCheckIn, lastCheckOut, timeZone);
+    }
+
+    /**
+     * Leave excuses a day the employee was expected at work; it does not cover days off
+     */
+    private getExcusingLeave(
+        leave: LeaveDay | undefined,
+        classification: ShiftDayClassification | null,
+        isHoliday = false
+    ): LeaveDay | undefined {
+        if (!leave || isHoliday || classification?.status === 'day_off') {
+            return undefined;
+        }
+
+        return leave;
+    }
+
+    /**
+     * Count the days of the range the employee is expected at work: the working days of the
+     * shift in effect, or the default working weekdays, less holidays
+     */
+    private countWorkingDays(
+        assignments: ShiftAssignmentWithShift[] | undefined,
+        holidays: Map<string, HolidayEntry>,
+        firstKey: string,
+        lastKey: string,
+        timeZone?: string
+    ): number {
+        let workingDays = 0;
+
+        TimesheetUtil.getDateKeys(firstKey, lastKey).forEach(dateKey => {
+            if (holidays.has(dateKey)) {
+                return;
+            }
+
+            const day = AttendanceDayUtil.fromDateKey(dateKey, timeZone);
+            const assignment =
+                assignments && ShiftUtil.findAssignmentForDate(assignments, day, timeZone);
+            const isWorkingDay = assignment
+                ? ShiftUtil.isWorkingDay(assignment.shift, day, timeZone)
+                : DEFAULT_WORKING_DAYS.includes(TimezoneUtil.getParts(day, timeZone).weekday);
+
+            if (isWorkingDay) {
+                workingDays++;
+            }
+        });
+
+        return workingDays;
+    }
+
+    /**
+     * Load the holiday calendar entries of the organization and its branches for the range
+     */
+    private async getHolidayEntries(
+        firstKey: string,
+        lastKey: string,
+        scope?: DataScope
+    ): Promise<HolidayEntry[]> {
+        if (!scope) {
+            return [];
+        }
+
+        return this.holidayService.getHolidayEntries(firstKey, lastKey, scope);
+    }
+
+    /**
+     * Load approved leave overlapping the range, by employee and date key
+     */
+    private async getLeaveDays(
+        filters: { employeeId?: string; branchId?: string },
+        firstKey: string,
+        lastKey: string,
+        scope?: DataScope
+    ): Promise<Map<string, Map<string, LeaveDay>>> {
+        const result = new Map<string, Map<string, LeaveDay>>();
+        if (!scope) {
+            return result;
+        }
+
+        const leaves = await this.attendanceRepository.findApprovedLeaves(
+            { ...filters, startDate: firstKey, endDate: lastKey },
+            scope
+        );
+
+        leaves.forEach(leave => {
+            const leaveStart = leave.startDate.toISOString().slice(0, 10);
+            const leaveEnd = leave.endDate.toISOString().slice(0, 10);
+            const days = result.get(leave.employeeId) || new Map<string, LeaveDay>();
+
+            TimesheetUtil.getDateKeys(
+                leaveStart > firstKey ? leaveStart : firstKey,
+                leaveEnd < lastKey ? leaveEnd : lastKey
+            ).forEach(dateKey =>
+                days.set(dateKey, {
+                    leaveTypeId: leave.leaveType.id,
+                    leaveTypeName: leave.leaveType.name,
+                    isPaid: leave.leaveType.isPaid,
+                })
+            );
+            result.set(leave.employeeId, days);
+        });
+
+        return result;
+    }
+
+    private countShiftStatuses(
+        statuses: (AttendanceDayStatus | null)[]
+    ): Record<AttendanceDayStatus, number> {
+        const counts: Record<AttendanceDayStatus, number> = {
+            on_time: 0,
+            late: 0,
+            early_leave: 0,
+            absent: 0,
+            day_off: 0,
+        };
+
+        statuses.forEach(status => {
+            if (status) {
+                counts[status]++;
+            }
+        });
+
+        return counts;
+    }
+
+    /**
+     * Get the date key of a report day in the time zone of the report. Plain YYYY-MM-DD
+     * strings name the day as they are; instants fall on the day they do in the zone.
+     */
+    private toReportDateKey(date: Date | string, timeZone?: string): string {
+        const instant =
+            typeof date === 'string' ? TimezoneUtil.parseDateTime(date, timeZone) : date;
+
+        return AttendanceDayUtil.toDateKey(instant, timeZone);
+    }
+
+    /**
+     * Get the instants the days from the first to the last date key span in the time zone
+     */
+    private getDateKeyRange(
+        firstKey: string,
+        lastKey: string,
+        timeZone?: string
+    ): { startDate: Date; endDate: Date } {
+        const end = AttendanceDayUtil.fromDateKey(TimesheetUtil.addDaysToKey(lastKey, 1), timeZone);
+
+        return {
+            startDate: AttendanceDayUtil.fromDateKey(firstKey, timeZone),
+            endDate: new Date(end.getTime() - 1),
+        };
+    }
+
+    /**
+     * The time zones the days of a report are resolved in: the branch's, or those of every
+     * branch of the organization
+     */
+    private getReportTimeZones(settings: AttendanceSettings, branchId?: string): string[] {
+        if (branchId) {
+            return [this.getTimeZone(settings, branchId)];
+        }
+
+        return [settings.timeZone, ...settings.branchTimeZones.values()];
+    }
+
+    /**
+     * Get the instants to load punches for so sessions crossing the edges of the days are seen
+     * whole in each of the time zones: a day before for check-ins still open at the start, two
+     * days after for late boundaries and overnight check-outs
+     */
+    private getLookupRange(
+        firstKey: string,
+        lastKey: string,
+        timeZones: (string | undefined)[]
+    ): { startDate: Date; endDate: Date } {
+        const starts = timeZones.map(timeZone =>
+            AttendanceDayUtil.fromDateKey(
+                TimesheetUtil.addDaysToKey(firstKey, -1),
+                timeZone
+            ).getTime()
+        );
+        const ends = timeZones.map(
+            timeZone =>
+                AttendanceDayUtil.fromDateKey(
+                    TimesheetUtil.addDaysToKey(lastKey, 3),
+                    timeZone
+                ).getTime() - 1
+        );
+
+        return { startDate: new Date(Math.min(...starts)), endDate: new Date(Math.max(...ends)) };
+    }
+
+    /**
+     * Group an employee's punches by attendance day and keep the days within the range
+     */
+    private groupByAttendanceDay(
+        records: AttendancePunch[],
+        assignments: ShiftAssignmentWithShift[] | undefined,
+        defaultBoundary: string,
+        timeZone: string | undefined,
+        firstKey: string,
+        lastKey: string
+    ): Map<string, AttendanceDayPunches> {
+        const days = AttendanceDayUtil.groupByAttendanceDay(
+            records,
+            timestamp => this.resolveDayBoundary(assignments, timestamp, defaultBoundary, timeZone),
+            timeZone
+        );
+        days.forEach((_, dateKey) => {
+            if (dateKey < firstKey || dateKey > lastKey) {
+                days.delete(dateKey);
+            }
+        });
+
+        return days;
+    }
+
+    /**
+     * Use the day boundary of the shift in effect on the punch's calendar day, if it sets one
+     */
+    private resolveDayBoundary(
+        assignments: ShiftAssignmentWithShift[] | undefined,
+        timestamp: Date,
+        defaultBoundary: string,
+        timeZone?: string
+    ): string {
+        if (assignments) {
+            const day = TimezoneUtil.startOfDay(timestamp, timeZone);
+
+            const assignment = ShiftUtil.findAssignmentForDate(assignments, day, timeZone);
+            if (assignment?.shift.dayBoundary) {
+                return assignment.shift.dayBoundary;
+            }
+        }
+
+        return defaultBoundary;
+    }
+
+    /**
+     * Load the organization's day boundary and time zones, falling back to server defaults
+     */
+    private async getAttendanceSettings(scope?: DataScope): Promise<AttendanceSettings> {
+        const settings: AttendanceSettings = {
+            dayBoundary: DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+            branchTimeZones: new Map(),
+        };
+        if (!scope) {
+            return settings;
+        }
+
+        const organization = await this.organizationRepository.findAttendanceSettings(
+            scope.organizationId
+        );
+        if (!organization) {
+            return settings;
+        }
+
+        settings.dayBoundary =
+            organization.attendanceDayBoundary || DEFAULT_ATTENDANCE_DAY_BOUNDARY;
+        settings.timeZone = organization.timezone || undefined;
+        organization.branches.forEach(branch => {
+            if (branch.timezone) {
+                settings.branchTimeZones.set(branch.id, branch.timezone);
+            }
+        });
+
+        return settings;
+    }
+
+    /**
+     * Whether an attendance record was entered or moved by an approved correction
+     */
+    private toDeviceEventAttendance(record: {
+        id: string;
+        employeeId: string;
+        eventType: string;
+        timestamp: Date;
+        meta: Prisma.JsonValue;
+    }): DeviceEventAttendance {
+        const meta = (record.meta || {}) as Prisma.JsonObject;
+
+        return {
+            id: record.id,
+            employeeId: record.employeeId,
+            eventType: record.eventType,
+            timestamp: record.timestamp,
+            corrected: this.isCorrected(record.meta),
+            ...(typeof meta.eventLogId === 'string' && { eventLogId: meta.eventLogId }),
+        };
+    }
+
+    private isCorrected(meta: Prisma.JsonValue): boolean {
+        const values = (meta || {}) as Prisma.JsonObject;
+
+        return values.source === 'correction' || !!values.correction;
+    }
+
+    /**
+     * A branch's own time zone takes precedence over the organization's
+     */
+    private getTimeZone(settings: AttendanceSettings, branchId?: string): string | undefined {
+        return (branchId && settings.branchTimeZones.get(branchId)) || settings.timeZone;
+    }
+
+    /**
+     * Group records by employee, keeping the branch whose time zone applies to them
+     */
+    private groupRecordsByEmployee(
+        records: any[],
+        employees: { id: string; branchId: string }[]
+    ): Map<string, { employee: any; branchId?: string; records: AttendancePunch[] }> {
+        const employeeBranches = new Map(
+            employees.map(employee => [employee.id, employee.branchId])
+        );
+        const grouped = new Map<
+            string,
+            { employee: any; branchId?: string; records: AttendancePunch[] }
+        >();
+
+        records.forEach(record => {
+            if (!record.employeeId || !record.employee) return;
+
+            if (!grouped.has(record.employeeId)) {
+                grouped.set(record.employeeId, {
+                    employee: record.employee,
+                    branchId:
+                        employeeBranches.get(record.employeeId) ||
+                        record.employee.branchId ||
+                        record.branchId,
+                    records: [],
+                });
+            }
+
+            grouped.get(record.employeeId)!.records.push(record);
+        });
+
+        return grouped;
+    }
 }
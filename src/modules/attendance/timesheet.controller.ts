@@ -0,0 +1,104 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Post, Query } from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { TimesheetService } from './timesheet.service';
+import { DailyTimesheetWithEmployee } from './timesheet.repository';
+import {
+    DailyTimesheetResponseDto,
+    RecalculateTimesheetDto,
+    TimesheetFiltersDto,
+} from '@/shared/dto';
+import { Permissions, Scope } from '@/shared/decorators';
+import { DataScope } from '@/shared/interfaces';
+
+@ApiTags('Timesheets')
+@ApiBearerAuth()
+@Controller('timesheets')
+export class TimesheetController {
+    constructor(private readonly timesheetService: TimesheetService) {}
+
+    @Get()
+    @Permissions('timesheet:read:all')
+    @ApiOperation({ summary: 'Get calculated daily timesheets' })
+    @ApiQuery({ name: 'filtersDto', type: TimesheetFiltersDto })
+    @ApiResponse({
+        status: 200,
+        description: 'Daily timesheets in the date range.',
+        type: [DailyTimesheetResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getTimesheets(
+        @Query() filtersDto: TimesheetFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<DailyTimesheetResponseDto[]> {
+        const timesheets = await this.timesheetService.getTimesheets(
+            {
+                employeeId: filtersDto.employeeId,
+                branchId: filtersDto.branchId,
+                startDate: new Date(filtersDto.startDate),
+                endDate: new Date(filtersDto.endDate),
+            },
+            scope
+        );
+
+        return timesheets.map(timesheet => this.toResponse(timesheet));
+    }
+
+    @Post('recalculate')
+    @Permissions('timesheet:recalculate')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: "Recalculate an employee's timesheets from attendance events" })
+    @ApiBody({ type: RecalculateTimesheetDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The recalculated timesheets of every week in the range.',
+        type: [DailyTimesheetResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    async recalculate(
+        @Body() recalculateDto: RecalculateTimesheetDto,
+        @Scope() scope: DataScope
+    ): Promise<DailyTimesheetResponseDto[]> {
+        const timesheets = await this.timesheetService.recalculate(
+            recalculateDto.employeeId,
+            new Date(recalculateDto.startDate),
+            new Date(recalculateDto.endDate),
+            scope
+        );
+
+        return timesheets.map(timesheet => this.toResponse(timesheet));
+    }
+
+    private toResponse(timesheet: DailyTimesheetWithEmployee): DailyTimesheetResponseDto {
+        return {
+            id: timesheet.id,
+            employeeId: timesheet.employeeId,
+            branchId: timesheet.branchId,
+            shiftId: timesheet.shiftId,
+            date: timesheet.date.toISOString().slice(0, 10),
+            firstCheckIn: timesheet.firstCheckIn,
+            lastCheckOut: timesheet.lastCheckOut,
+            status: timesheet.status,
+            shiftStatus: timesheet.shiftStatus,
+            leaveTypeId: timesheet.leaveTypeId,
+            lateMinutes: timesheet.lateMinutes,
+            earlyLeaveMinutes: timesheet.earlyLeaveMinutes,
+            workedMinutes: timesheet.workedMinutes,
+            breakMinutes: timesheet.breakMinutes,
+            netMinutes: timesheet.netMinutes,
+            regularMinutes: timesheet.regularMinutes,
+            overtimeMinutes: timesheet.overtimeMinutes,
+            weeklyOvertimeMinutes: timesheet.weeklyOvertimeMinutes,
+            nightMinutes: timesheet.nightMinutes,
+            calculatedAt: timesheet.calculatedAt,
+            employee: timesheet.employee,
+        };
+    }
+}
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { DailyTimesheet, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export type DailyTimesheetData = Omit<
+    Prisma.DailyTimesheetUncheckedCreateInput,
+    'id' | 'organizationId' | 'employeeId' | 'date' | 'createdAt' | 'updatedAt'
+> & { date: string };
+
+export type DailyTimesheetWithEmployee = DailyTimesheet & {
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string };
+};
+
+@Injectable()
+export class TimesheetRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Find timesheets; dates are YYYY-MM-DD keys of the attendance days
+     */
+    async findMany(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            startDate?: string;
+            endDate?: string;
+        },
+        scope: DataScope
+    ): Promise<DailyTimesheetWithEmployee[]> {
+        const where: Prisma.DailyTimesheetWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+        };
+
+        if (filters.employeeId) {
+            where.employeeId = filters.employeeId;
+        }
+
+        if (filters.branchId) {
+            where.branchId = filters.branchId;
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.date = {
+                ...(filters.startDate && { gte: this.toDate(filters.startDate) }),
+                ...(filters.endDate && { lte: this.toDate(filters.endDate) }),
+            };
+        }
+
+        return this.prisma.dailyTimesheet.findMany({
+            where,
+            include: {
+                employee: {
+                    select: {
+                        id: true,
+                        firstName: true,
+                        lastName: true,
+                        employeeCode: true,
+                    },
+                },
+            },
+            orderBy: [{ date: 'asc' }, { employeeId: 'asc' }],
+        });
+    }
+
+    /**
+     * Replace an employee's timesheets for the date range with freshly calculated ones
+     */
+    async replaceRange(
+        employeeId: string,
+        startDate: string,
+        endDate: string,
+        timesheets: DailyTimesheetData[],
+        scope: DataScope
+    ): Promise<number> {
+        const calculatedAt = new Date();
+
+        const [, created] = await this.prisma.$transaction([
+            this.prisma.dailyTimesheet.deleteMany({
+                where: {
+                    organizationId: scope.organizationId,
+                    employeeId,
+                    date: { gte: this.toDate(startDate), lte: this.toDate(endDate) },
+                },
+            }),
+            this.prisma.dailyTimesheet.createMany({
+                data: timesheets.map(timesheet => ({
+                    ...timesheet,
+                    organizationId: scope.organizationId,
+                    employeeId,
+                    date: this.toDate(timesheet.date),
+                    calculatedAt,
+                })),
+            }),
+        ]);
+
+        return created.count;
+    }
+
+    /**
+     * Get the YYYY-MM-DD key a stored timesheet date stands for
+     */
+    toDateKey(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    private toDate(dateKey: string): Date {
+        return new Date(`${dateKey}T00:00:00.000Z`);
+    }
+}
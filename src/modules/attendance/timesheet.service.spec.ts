@@ -0,0 +1,338 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { TimesheetService } from './timesheet.service';
+import { TimesheetRepository } from './timesheet.repository';
+import { AttendanceService } from './attendance.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { OrganizationRepository } from '@/modules/organization/organization.repository';
+import { DataScope } from '@/shared/interfaces';
+
+describe('TimesheetService', () => {
+    let service: TimesheetService;
+    let timesheetRepository: jest.Mocked<TimesheetRepository>;
+    let attendanceService: jest.Mocked<AttendanceService>;
+    let organizationRepository: jest.Mocked<OrganizationRepository>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const tz = 'Asia/Tashkent';
+    // Wall-clock time in Tashkent (UTC+5)
+    const at = (day: number, time: string) => new Date(`2024-01-${day}T${time}:00+05:00`);
+
+    const dayShift = {
+        id: 'shift-day',
+        startTime: '09:00',
+        endTime: '18:00',
+        breakMinutes: 60,
+        gracePeriodMinutes: 0,
+        daysOfWeek: [1, 2, 3, 4, 5],
+        dayBoundary: null,
+    };
+
+    const mockSettings = {
+        attendanceDayBoundary: '00:00',
+        timezone: tz,
+        dailyOvertimeThresholdMinutes: 480,
+        weeklyOvertimeThresholdMinutes: 2400,
+        weekStartDay: 1,
+        nightStartTime: '22:00',
+        nightEndTime: '06:00',
+        branches: [],
+    };
+
+    beforeEach(async () => {
+        const mockTimesheetRepository = {
+            findMany: jest.fn().mockResolvedValue([]),
+            replaceRange: jest.fn().mockResolvedValue(0),
+        };
+
+        const mockAttendanceService = {
+            getEmployeeAttendanceDays: jest.fn(),
+        };
+
+        const mockOrganizationRepository = {
+            findAttendanceSettings: jest.fn().mockResolvedValue(mockSettings),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TimesheetService,
+                {
+                    provide: TimesheetRepository,
+                    useValue: mockTimesheetRepository,
+                },
+                {
+                    provide: AttendanceService,
+                    useValue: mockAttendanceService,
+                },
+                {
+                    provide: OrganizationRepository,
+                    useValue: mockOrganizationRepository,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<TimesheetService>(TimesheetService);
+        timesheetRepository = module.get(TimesheetRepository);
+        attendanceService = module.get(AttendanceService);
+        organizationRepository = module.get(OrganizationRepository);
+        loggerService = module.get(LoggerService);
+
+        attendanceService.getEmployeeAttendanceDays.mockResolvedValue({
+            employee: { id: 'emp-123', branchId: 'branch-123' },
+            assignments: [
+                {
+                    employeeId: 'emp-123',
+                    effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+                    effectiveTo: null,
+                    shift: dayShift,
+                },
+            ],
+            timeZone: tz,
+            days: new Map([
+                ['2024-01-15', { checkIns: [at(15, '09:00')], checkOuts: [at(15, '19:00')] }],
+                ['2024-01-16', { checkIns: [at(16, '09:00')], checkOuts: [] }],
+            ]),
+            leaves: new Map(),
+            holidays: new Set(),
+        } as any);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('getTimesheets', () => {
+        it('should find timesheets for the attendance days in the range', async () => {
+            await service.getTimesheets(
+                {
+                    branchId: 'branch-123',
+                    startDate: new Date(2024, 0, 1),
+                    endDate: new Date(2024, 0, 31),
+                },
+                mockDataScope
+            );
+
+            expect(timesheetRepository.findMany).toHaveBeenCalledWith(
+                {
+                    employeeId: undefined,
+                    branchId: 'branch-123',
+                    startDate: '2024-01-01',
+                    endDate: '2024-01-31',
+                },
+                mockDataScope
+            );
+        });
+    });
+
+    describe('recalculate', () => {
+        it('should recalculate the whole week and store a timesheet per scheduled or worked day', async () => {
+            await service.recalculate(
+                'emp-123',
+                new Date(2024, 0, 17, 12),
+                new Date(2024, 0, 17, 12),
+                mockDataScope,
+                'corr-123'
+            );
+
+            const [employeeId, startKey, endKey, timesheets] =
+                timesheetRepository.replaceRange.mock.calls[0];
+
+            expect(employeeId).toBe('emp-123');
+            expect(startKey).toBe('2024-01-15');
+            expect(endKey).toBe('2024-01-21');
+            // The weekend is a day off without punches
+            expect(timesheets.map(timesheet => timesheet.date)).toEqual([
+                '2024-01-15',
+                '2024-01-16',
+                '2024-01-17',
+                '2024-01-18',
+                '2024-01-19',
+            ]);
+
+            expect(timesheets[0]).toMatchObject({
+                branchId: 'branch-123',
+                shiftId: 'shift-day',
+                status: 'present',
+                shiftStatus: 'on_time',
+                workedMinutes: 600,
+                breakMinutes: 60,
+                netMinutes: 540,
+                regularMinutes: 480,
+                overtimeMinutes: 60,
+                weeklyOvertimeMinutes: 0,
+            });
+            expect(timesheets[1]).toMatchObject({ status: 'partial', netMinutes: 0 });
+            expect(timesheets[2]).toMatchObject({
+                status: 'absent',
+                shiftStatus: 'absent',
+                netMinutes: 0,
+            });
+
+            expect(timesheetRepository.findMany).toHaveBeenCalledWith(
+                { employeeId: 'emp-123', startDate: '2024-01-15', endDate: '2024-01-21' },
+                mockDataScope
+            );
+            expect(loggerService.log).toHaveBeenCalledWith(
+                'Timesheets recalculated',
+                expect.objectContaining({ employeeId: 'emp-123', correlationId: 'corr-123' })
+            );
+        });
+
+        it('should move regular time over the weekly threshold into weekly overtime', async () => {
+            organizationRepository.findAttendanceSettings.mockResolvedValue({
+                ...mockSettings,
+                weeklyOvertimeThresholdMinutes: 300,
+            } as any);
+
+            await service.recalculate(
+                'emp-123',
+                new Date(2024, 0, 15, 12),
+                new Date(2024, 0, 15, 12),
+                mockDataScope
+            );
+
+            const timesheets = timesheetRepository.replaceRange.mock.calls[0][3];
+            expect(timesheets[0]).toMatchObject({
+                regularMinutes: 300,
+                overtimeMinutes: 60,
+                weeklyOvertimeMinutes: 180,
+            });
+        });
+
+        it('should store approved leave on a scheduled day as an excused absence', async () => {
+            attendanceService.getEmployeeAttendanceDays.mockResolvedValue({
+                employee: { id: 'emp-123', branchId: 'branch-123' },
+                assignments: [
+                    {
+                        employeeId: 'emp-123',
+                        effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+                        effectiveTo: null,
+                        shift: dayShift,
+                    },
+                ],
+                timeZone: tz,
+                days: new Map(),
+                leaves: new Map([
+                    [
+                        '2024-01-17',
+                        { leaveTypeId: 'leave-annual', leaveTypeName: 'Annual', isPaid: true },
+                    ],
+                    [
+                        '2024-01-20',
+                        { leaveTypeId: 'leave-annual', leaveTypeName: 'Annual', isPaid: true },
+                    ],
+                ]),
+                holidays: new Set(),
+            } as any);
+
+            await service.recalculate(
+                'emp-123',
+                new Date(2024, 0, 17, 12),
+                new Date(2024, 0, 17, 12),
+                mockDataScope
+            );
+
+            const timesheets = timesheetRepository.replaceRange.mock.calls[0][3];
+            // Leave does not add a timesheet for the weekend day off
+            expect(timesheets.map(timesheet => timesheet.date)).not.toContain('2024-01-20');
+            expect(timesheets[2]).toMatchObject({
+                date: '2024-01-17',
+                status: 'on_leave',
+                shiftStatus: null,
+                leaveTypeId: 'leave-annual',
+                netMinutes: 0,
+            });
+            expect(timesheets[3]).toMatchObject({
+                status: 'absent',
+                shiftStatus: 'absent',
+                leaveTypeId: null,
+            });
+        });
+
+        it('should treat a holiday as a day off of the shift', async () => {
+            attendanceService.getEmployeeAttendanceDays.mockResolvedValue({
+                employee: { id: 'emp-123', branchId: 'branch-123' },
+                assignments: [
+                    {
+                        employeeId: 'emp-123',
+                        effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+                        effectiveTo: null,
+                        shift: dayShift,
+                    },
+                ],
+                timeZone: tz,
+                days: new Map([
+                    ['2024-01-16', { checkIns: [at(16, '10:00')], checkOuts: [at(16, '14:00')] }],
+                ]),
+                leaves: new Map(),
+                holidays: new Set(['2024-01-15', '2024-01-16']),
+            } as any);
+
+            await service.recalculate(
+                'emp-123',
+                new Date(2024, 0, 15, 12),
+                new Date(2024, 0, 15, 12),
+                mockDataScope
+            );
+
+            const timesheets = timesheetRepository.replaceRange.mock.calls[0][3];
+            expect(timesheets.map(timesheet => timesheet.date)).not.toContain('2024-01-15');
+            expect(timesheets[0]).toMatchObject({
+                date: '2024-01-16',
+                status: 'present',
+                shiftStatus: 'day_off',
+                lateMinutes: 0,
+            });
+        });
+
+        it('should throw NotFoundException when the employee is not found', async () => {
+            attendanceService.getEmployeeAttendanceDays.mockResolvedValue({
+                employee: null,
+                days: new Map(),
+                leaves: new Map(),
+                holidays: new Set(),
+            });
+
+            await expect(
+                service.recalculate(
+                    'emp-404',
+                    new Date(2024, 0, 15),
+                    new Date(2024, 0, 15),
+                    mockDataScope
+                )
+            ).rejects.toThrow(NotFoundException);
+            expect(timesheetRepository.replaceRange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('refreshForTimestamp', () => {
+        it('should log a failed recalculation instead of throwing', async () => {
+            attendanceService.getEmployeeAttendanceDays.mockRejectedValue(new Error('db down'));
+
+            await expect(
+                service.refreshForTimestamp('emp-123', at(15, '09:00'), mockDataScope)
+            ).resolves.toBeUndefined();
+            expect(loggerService.error).toHaveBeenCalledWith(
+                'Failed to recalculate timesheets',
+                expect.any(Error),
+                expect.objectContaining({ employeeId: 'emp-123' })
+            );
+        });
+    });
+});
@@ -0,0 +1,297 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AttendanceService } from './attendance.service';
+import {
+    DailyTimesheetData,
+    DailyTimesheetWithEmployee,
+    TimesheetRepository,
+} from './timesheet.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { OrganizationRepository } from '@/modules/organization/organization.repository';
+import { DataScope } from '@/shared/interfaces';
+import {
+    AttendanceDayUtil,
+    ShiftDayClassification,
+    ShiftUtil,
+    TimesheetPolicy,
+    TimesheetUtil,
+} from '@/shared/utils';
+
+type OrganizationTimesheetPolicy = Omit<TimesheetPolicy, 'breakMinutes'> & {
+    weeklyOvertimeThresholdMinutes: number;
+    weekStartDay: number;
+};
+
+const DEFAULT_POLICY: OrganizationTimesheetPolicy = {
+    dailyOvertimeThresholdMinutes: 480,
+    weeklyOvertimeThresholdMinutes: 2400,
+    weekStartDay: 1,
+    nightStartTime: '22:00',
+    nightEndTime: '06:00',
+};
+
+@Injectable()
+export class TimesheetService {
+    constructor(
+        private readonly timesheetRepository: TimesheetRepository,
+        private readonly attendanceService: AttendanceService,
+        private readonly organizationRepository: OrganizationRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Get calculated timesheets for the attendance days in the range
+     */
+    async getTimesheets(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            startDate: Date;
+            endDate: Date;
+        },
+        scope: DataScope
+    ): Promise<DailyTimesheetWithEmployee[]> {
+        return this.timesheetRepository.findMany(
+            {
+                employeeId: filters.employeeId,
+                branchId: filters.branchId,
+                startDate: AttendanceDayUtil.toDateKey(filters.startDate),
+                endDate: AttendanceDayUtil.toDateKey(filters.endDate),
+            },
+            scope
+        );
+    }
+
+    /**
+     * Rebuild an employee's timesheets from their attendance events. Every week overlapping
+     * the range is recalculated in full, since weekly overtime depends on the earlier days.
+     */
+    async recalculate(
+        employeeId: string,
+        startDate: Date,
+        endDate: Date,
+        scope: DataScope,
+        correlationId?: string
+    ): Promise<DailyTimesheetWithEmployee[]> {
+        const policy = await this.getPolicy(scope);
+        const { startKey } = TimesheetUtil.getWeekRange(
+            AttendanceDayUtil.toDateKey(startDate),
+            policy.weekStartDay
+        );
+        const { endKey } = TimesheetUtil.getWeekRange(
+            AttendanceDayUtil.toDateKey(endDate),
+            policy.weekStartDay
+        );
+
+        const { employee, assignments, timeZone, days, leaves, holidays } =
+            await this.attendanceService.getEmployeeAttendanceDays(
+                employeeId,
+                startKey,
+                endKey,
+                scope
+            );
+        if (!employee) {
+            throw new NotFoundException('Employee not found');
+        }
+
+        const timesheets: DailyTimesheetData[] = [];
+
+        TimesheetUtil.getDateKeys(startKey, endKey).forEach(dateKey => {
+            const punches = days.get(dateKey) || { checkIns: [], checkOuts: [] };
+            const day = AttendanceDayUtil.fromDateKey(dateKey, timeZone);
+            const assignment =
+                assignments && ShiftUtil.findAssignmentForDate(assignments, day, timeZone);
+
+            const checkIns = [...punches.checkIns].sort((a, b) => a.getTime() - b.getTime());
+            const checkOuts = [...punches.checkOuts].sort((a, b) => a.getTime() - b.getTime());
+            const firstCheckIn = checkIns[0] || null;
+            const lastCheckOut = checkOuts[checkOuts.length - 1] || null;
+
+            // A holiday is a day off whatever the shift says
+            let classification: ShiftDayClassification | null = null;
+            if (assignment) {
+                classification = holidays.has(dateKey)
+                    ? { status: 'day_off', lateMinutes: 0, earlyLeaveMinutes: 0 }
+                    : ShiftUtil.classifyDay(
+                          assignment.shift,
+                          day,
+                          firstCheckIn,
+                          lastCheckOut,
+                          timeZone
+                      );
+            }
+
+            // Days without punches are kept only when the employee was expected at work or on
+            // approved leave, which excuses the absence
+            const hasPunches = checkIns.length > 0 || checkOuts.length > 0;
+            const leave = !hasPunches && !holidays.has(dateKey) && leaves.get(dateKey);
+            if (classification?.status === 'day_off' && !hasPunches) {
+                return;
+            }
+            if (!hasPunches && !classification && !leave) {
+                return;
+            }
+
+            const calculation = TimesheetUtil.calculateDay(
+                checkIns,
+                checkOuts,
+                { ...policy, breakMinutes: assignment ? assignment.shift.breakMinutes : 0 },
+                timeZone
+            );
+
+            let status: 'present' | 'partial' | 'absent' | 'on_leave' = leave
+                ? 'on_leave'
+                : 'absent';
+            if (checkIns.length > 0) {
+                status = checkOuts.length >= checkIns.length ? 'present' : 'partial';
+            }
+
+            timesheets.push({
+                date: dateKey,
+                branchId: employee.branchId,
+                shiftId: assignment ? assignment.shift.id : null,
+                firstCheckIn,
+                lastCheckOut,
+                status,
+                shiftStatus: classification && !leave ? classification.status : null,
+                lateMinutes: classification ? classification.lateMinutes : 0,
+                earlyLeaveMinutes: classification ? classification.earlyLeaveMinutes : 0,
+                leaveTypeId: leave ? leave.leaveTypeId : null,
+                ...calculation,
+            });
+        });
+
+        this.applyWeeklyOvertime(timesheets, policy);
+
+        await this.timesheetRepository.replaceRange(
+            employeeId,
+            startKey,
+            endKey,
+            timesheets,
+            scope
+        );
+
+        this.logger.log('Timesheets recalculated', {
+            employeeId,
+            startDate: startKey,
+            endDate: endKey,
+            days: timesheets.length,
+            organizationId: scope.organizationId,
+            correlationId,
+        });
+
+        return this.timesheetRepository.findMany(
+            { employeeId, startDate: startKey, endDate: endKey },
+            scope
+        );
+    }
+
+    /**
+     * Recalculate the weeks around an attendance event. The day before and after are included
+     * since the event may belong to a neighbouring attendance day in the employee's time zone.
+     */
+    async recalculateForTimestamp(
+        employeeId: string,
+        timestamp: Date,
+        scope: DataScope,
+        correlationId?: string
+    ): Promise<DailyTimesheetWithEmployee[]> {
+        const dayMs = 24 * 60 * 60 * 1000;
+
+        return this.recalculate(
+            employeeId,
+            new Date(timestamp.getTime() - dayMs),
+            new Date(timestamp.getTime() + dayMs),
+            scope,
+            correlationId
+        );
+    }
+
+    /**
+     * Recalculate after an attendance change without failing the change itself.
+     * Errors are logged; a later event or a manual recalculation repairs the timesheet.
+     */
+    async refreshForTimestamp(
+        employeeId: string,
+        timestamp: Date,
+        scope: DataScope,
+        correlationId?: string
+    ): Promise<void> {
+        try {
+            await this.recalculateForTimestamp(employeeId, timestamp, scope, correlationId);
+        } catch (error) {
+            this.logger.error('Failed to recalculate timesheets', error, {
+                employeeId,
+                timestamp,
+                organizationId: scope.organizationId,
+                correlationId,
+            });
+        }
+    }
+
+    /**
+     * Recalculate a range after a change affecting it, e.g. approved leave, without failing
+     * the change itself
+     */
+    async refreshRange(
+        employeeId: string,
+        startDate: Date,
+        endDate: Date,
+        scope: DataScope,
+        correlationId?: string
+    ): Promise<void> {
+        try {
+            await this.recalculate(employeeId, startDate, endDate, scope, correlationId);
+        } catch (error) {
+            this.logger.error('Failed to recalculate timesheets', error, {
+                employeeId,
+                startDate,
+                endDate,
+                organizationId: scope.organizationId,
+                correlationId,
+            });
+        }
+    }
+
+    /**
+     * Split regular time over the weekly threshold into weekly overtime, week by week
+     */
+    private applyWeeklyOvertime(
+        timesheets: DailyTimesheetData[],
+        policy: OrganizationTimesheetPolicy
+    ): void {
+        const weeks = new Map<string, DailyTimesheetData[]>();
+        timesheets.forEach(timesheet => {
+            const { startKey } = TimesheetUtil.getWeekRange(timesheet.date, policy.weekStartDay);
+            weeks.set(startKey, [...(weeks.get(startKey) || []), timesheet]);
+        });
+
+        weeks.forEach(week => {
+            const splits = TimesheetUtil.splitWeeklyOvertime(
+                week.map(timesheet => timesheet.regularMinutes as number),
+                policy.weeklyOvertimeThresholdMinutes
+            );
+
+            week.forEach((timesheet, i) => {
+                timesheet.regularMinutes = splits[i].regularMinutes;
+                timesheet.weeklyOvertimeMinutes = splits[i].weeklyOvertimeMinutes;
+            });
+        });
+    }
+
+    private async getPolicy(scope: DataScope): Promise<OrganizationTimesheetPolicy> {
+        const organization = await this.organizationRepository.findAttendanceSettings(
+            scope.organizationId
+        );
+        if (!organization) {
+            return DEFAULT_POLICY;
+        }
+
+        return {
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
+        };
+    }
+}
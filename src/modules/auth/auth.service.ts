@@ -317,13 +317,49 @@ export class AuthService {
                 'employee:read:self',
                 'employee:update:all',
                 'employee:delete',
+                'employee:credential:read',
+                'employee:credential:manage',
                 'device:create',
                 'device:manage:all',
+                'device:secret:rotate',
+                'device:enrollment:manage',
+                'device:mqtt:manage',
+                'device:command:send',
+                'device:command:read',
+                'firmware:manage',
+                'firmware:read',
+                'device:configuration:manage',
+                'device:configuration:read',
+                'access:manage',
+                'access:read',
+                'event:read:all',
+                'event:replay',
+                'event:triage',
                 'guest:create',
                 'guest:approve',
                 'report:generate:org',
                 'report:generate:branch',
+                'payroll:profile:manage',
+                'payroll:export',
+                'payroll:period:read',
+                'payroll:period:manage',
+                'payroll:period:reopen',
                 'audit:read:org',
+                'shift:create',
+                'shift:read:all',
+                'shift:update:managed',
+                'shift:assign',
+                'timesheet:read:all',
+                'timesheet:recalculate',
+                'leave:type:manage',
+                'leave:balance:manage',
+                'leave:read:all',
+                'leave:request:create',
+                'leave:request:approve',
+                'holiday:manage',
+                'holiday:read',
+                'attendance:correction:read:all',
+                'attendance:correction:approve',
             ],
             [Role.BRANCH_MANAGER]: [
                 'branch:read:all',
@@ -335,13 +371,38 @@ export class AuthService {
                 'employee:read:self',
                 'employee:update:all',
                 'employee:delete',
+                'employee:credential:read',
+                'employee:credential:manage',
                 'device:create',
                 'device:manage:all',
+                'device:secret:rotate',
+                'device:enrollment:manage',
+                'device:command:send',
+                'device:command:read',
+                'device:configuration:read',
+                'access:read',
+                'event:read:all',
+                'event:triage',
                 'guest:create',
                 'guest:approve',
                 'report:generate:branch',
+                'payroll:period:read',
+                'shift:read:all',
+                'shift:assign',
+                'timesheet:read:all',
+                'timesheet:recalculate',
+                'leave:read:all',
+                'leave:request:create',
+                'leave:request:approve',
+                'holiday:read',
+                'attendance:correction:read:all',
+                'attendance:correction:approve',
+            ],
+            [Role.EMPLOYEE]: [
+                'employee:read:self',
+                'attendance:correction:create:self',
+                'attendance:correction:read:self',
             ],
-            [Role.EMPLOYEE]: ['employee:read:self'],
         };
 
         return permissionMatrix[role] || [];
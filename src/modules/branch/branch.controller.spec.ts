@@ -28,6 +28,7 @@ describe('BranchController', () => {
         organizationId: 'org-123',
         name: 'Main Branch',
         address: '123 Main St',
+        timezone: 'Asia/Tashkent',
         createdAt: new Date(),
         updatedAt: new Date(),
     };
@@ -122,6 +123,7 @@ describe('BranchController', () => {
                 organizationId: mockBranch.organizationId,
                 name: mockBranch.name,
                 address: mockBranch.address,
+                timezone: mockBranch.timezone,
                 createdAt: mockBranch.createdAt,
                 updatedAt: mockBranch.updatedAt,
             });
@@ -291,6 +293,7 @@ describe('BranchController', () => {
                 organizationId: mockBranch.organizationId,
                 name: mockBranch.name,
                 address: mockBranch.address,
+                timezone: mockBranch.timezone,
                 createdAt: mockBranch.createdAt,
                 updatedAt: mockBranch.updatedAt,
                 statistics: {
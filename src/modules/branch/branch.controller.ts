@@ -61,6 +61,7 @@ export class BranchController {
             organizationId: branch.organizationId,
             name: branch.name,
             address: branch.address,
+            timezone: branch.timezone,
             createdAt: branch.createdAt,
             updatedAt: branch.updatedAt,
         };
@@ -93,6 +94,7 @@ export class BranchController {
             organizationId: branch.organizationId,
             name: branch.name,
             address: branch.address,
+            timezone: branch.timezone,
             createdAt: branch.createdAt,
             updatedAt: branch.updatedAt,
         }));
@@ -125,6 +127,7 @@ export class BranchController {
             organizationId: branch.organizationId,
             name: branch.name,
             address: branch.address,
+            timezone: branch.timezone,
             createdAt: branch.createdAt,
             updatedAt: branch.updatedAt,
         }));
@@ -162,6 +165,7 @@ export class BranchController {
             organizationId: branch.organizationId,
             name: branch.name,
             address: branch.address,
+            timezone: branch.timezone,
             createdAt: branch.createdAt,
             updatedAt: branch.updatedAt,
         };
@@ -204,6 +208,7 @@ export class BranchController {
             organizationId: branch.organizationId,
             name: branch.name,
             address: branch.address,
+            timezone: branch.timezone,
             createdAt: branch.createdAt,
             updatedAt: branch.updatedAt,
         };
@@ -149,6 +149,7 @@ export class BranchService {
             organizationId: branchWithStats.organizationId,
             name: branchWithStats.name,
             address: branchWithStats.address,
+            timezone: branchWithStats.timezone,
             createdAt: branchWithStats.createdAt,
             updatedAt: branchWithStats.updatedAt,
             statistics: {
@@ -0,0 +1,222 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Query } from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { DeviceCommandRequest } from '@prisma/client';
+import { DeviceCommandService } from './device-command.service';
+import {
+    BranchDeviceCommandResponseDto,
+    DeviceCommandFiltersDto,
+    DeviceCommandResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+    SendDeviceCommandDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Device Commands')
+@ApiBearerAuth()
+@Controller('device-commands')
+export class DeviceCommandController {
+    constructor(private readonly deviceCommandService: DeviceCommandService) {}
+
+    @Get()
+    @Permissions('device:command:read')
+    @ApiOperation({ summary: 'Get device commands, with filters and pagination' })
+    @ApiQuery({ name: 'filtersDto', type: DeviceCommandFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A paginated list of device commands, newest first.',
+        type: PaginationResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getCommands(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: DeviceCommandFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<DeviceCommandResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const result = await this.deviceCommandService.getCommands(
+            this.toFilters(filtersDto),
+            scope,
+            { page, limit }
+        );
+
+        return this.toPaginatedResponse(result);
+    }
+
+    @Get('devices/:deviceId')
+    @Permissions('device:command:read')
+    @ApiOperation({ summary: 'Get the command history of a device' })
+    @ApiParam({ name: 'deviceId', description: 'ID of the device' })
+    @ApiQuery({ name: 'filtersDto', type: DeviceCommandFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A paginated list of the commands of the device, newest first.',
+        type: PaginationResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Device not found.' })
+    async getDeviceCommandHistory(
+        @Param('deviceId') deviceId: string,
+        @Scope() scope: DataScope,
+        @Query() filtersDto: DeviceCommandFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<DeviceCommandResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const result = await this.deviceCommandService.getDeviceCommandHistory(
+            deviceId,
+            this.toFilters(filtersDto),
+            scope,
+            { page, limit }
+        );
+
+        return this.toPaginatedResponse(result);
+    }
+
+    @Get(':id')
+    @Permissions('device:command:read')
+    @ApiOperation({ summary: 'Get a device command by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the device command' })
+    @ApiResponse({ status: 200, type: DeviceCommandResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Device command not found.' })
+    async getCommandById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<DeviceCommandResponseDto> {
+        const command = await this.deviceCommandService.getCommandById(id, scope);
+
+        return this.toResponse(command);
+    }
+
+    @Post('devices/:deviceId')
+    @Permissions('device:command:send')
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Queue a command for a device',
+        description:
+            'The command is sent in the background and retried while the device is ' +
+            'unreachable. Follow it up by its ID.',
+    })
+    @ApiParam({ name: 'deviceId', description: 'ID of the device' })
+    @ApiBody({ type: SendDeviceCommandDto })
+    @ApiResponse({
+        status: 202,
+        description: 'The queued command.',
+        type: DeviceCommandResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid command or inactive device.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Device not found.' })
+    async sendCommand(
+        @Param('deviceId') deviceId: string,
+        @Body() commandDto: SendDeviceCommandDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceCommandResponseDto> {
+        const command = await this.deviceCommandService.sendCommand(
+            deviceId,
+            commandDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(command);
+    }
+
+    @Post('branches/:branchId')
+    @Permissions('device:command:send')
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({ summary: 'Queue a command for every active device of a branch' })
+    @ApiParam({ name: 'branchId', description: 'ID of the branch' })
+    @ApiBody({ type: SendDeviceCommandDto })
+    @ApiResponse({
+        status: 202,
+        description: 'The queued commands, one per device.',
+        type: BranchDeviceCommandResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid command or no active devices.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    async sendBranchCommand(
+        @Param('branchId') branchId: string,
+        @Body() commandDto: SendDeviceCommandDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<BranchDeviceCommandResponseDto> {
+        const { batchId, commands } = await this.deviceCommandService.sendBranchCommand(
+            branchId,
+            commandDto,
+            scope,
+            user.sub
+        );
+
+        return {
+            batchId,
+            queued: commands.length,
+            commands: commands.map(command => this.toResponse(command)),
+        };
+    }
+
+    private toFilters(filtersDto: DeviceCommandFiltersDto) {
+        return {
+            deviceId: filtersDto.deviceId,
+            branchId: filtersDto.branchId,
+            status: filtersDto.status,
+            command: filtersDto.command,
+            batchId: filtersDto.batchId,
+            startDate: filtersDto.startDate ? new Date(filtersDto.startDate) : undefined,
+            endDate: filtersDto.endDate ? new Date(filtersDto.endDate) : undefined,
+        };
+    }
+
+    private toPaginatedResponse(result: {
+        data: DeviceCommandRequest[];
+        total: number;
+        page: number;
+        limit: number;
+    }): PaginationResponseDto<DeviceCommandResponseDto> {
+        return new PaginationResponseDto(
+            result.data.map(command => this.toResponse(command)),
+            result.total,
+            result.page,
+            result.limit
+        );
+    }
+
+    private toResponse(command: DeviceCommandRequest): DeviceCommandResponseDto {
+        return {
+            id: command.id,
+            organizationId: command.organizationId,
+            branchId: command.branchId,
+            deviceId: command.deviceId,
+            command: command.command,
+            parameters: command.parameters || undefined,
+            status: command.status,
+            timeoutSeconds: command.timeoutSeconds,
+            maxAttempts: command.maxAttempts,
+            attempts: command.attempts,
+            result: command.result || undefined,
+            error: command.error || undefined,
+            batchId: command.batchId || undefined,
+            requestedByUserId: command.requestedByUserId || undefined,
+            expiresAt: command.expiresAt,
+            deliveredAt: command.deliveredAt || undefined,
+            completedAt: command.completedAt || undefined,
+            createdAt: command.createdAt,
+            updatedAt: command.updatedAt,
+        };
+    }
+}
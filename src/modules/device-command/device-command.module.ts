@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DeviceCommandController } from './device-command.controller';
+import { DeviceCommandService } from './device-command.service';
+import { DeviceCommandRepository } from './device-command.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { QueueModule } from '@/core/queue/queue.module';
+import { DeviceModule } from '../device/device.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, QueueModule, DeviceModule],
+    controllers: [DeviceCommandController],
+    providers: [DeviceCommandService, DeviceCommandRepository],
+    exports: [DeviceCommandService],
+})
+export class DeviceCommandModule {}
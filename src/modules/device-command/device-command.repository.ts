@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { DeviceCommandRequest, DeviceCommandStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils/query-builder.util';
+
+export interface CreateDeviceCommandRequestDto {
+    organizationId: string;
+    branchId: string;
+    deviceId: string;
+    command: string;
+    parameters?: Record<string, any>;
+    timeoutSeconds: number;
+    maxAttempts: number;
+    batchId?: string;
+    requestedByUserId?: string;
+}
+
+export interface DeviceCommandFilters {
+    deviceId?: string;
+    branchId?: string;
+    status?: DeviceCommandStatus;
+    command?: string;
+    batchId?: string;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+export interface DeviceCommandOutcome {
+    status: DeviceCommandStatus;
+    result?: any;
+    error?: string | null;
+    deliveredAt?: Date;
+    completedAt?: Date;
+}
+
+/** Commands that may still be delivered or completed */
+const OPEN_STATUSES: DeviceCommandStatus[] = [
+    DeviceCommandStatus.QUEUED,
+    DeviceCommandStatus.DELIVERED,
+];
+
+@Injectable()
+export class DeviceCommandRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async createMany(commands: CreateDeviceCommandRequestDto[]): Promise<DeviceCommandRequest[]> {
+        const now = Date.now();
+
+        return this.prisma.$transaction(
+            commands.map(command =>
+                this.prisma.deviceCommandRequest.create({
+                    data: {
+                        ...command,
+                        expiresAt: new Date(now + command.timeoutSeconds * 1000),
+                    },
+                })
+            )
+        );
+    }
+
+    async findById(id: string, scope: DataScope): Promise<DeviceCommandRequest | null> {
+        return this.prisma.deviceCommandRequest.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+        });
+    }
+
+    /**
+     * Find a command for the queue, which works outside of any user's scope
+     */
+    async findForDispatch(id: string): Promise<DeviceCommandRequest | null> {
+        return this.prisma.deviceCommandRequest.findUnique({
+            where: { id },
+        });
+    }
+
+    async findMany(
+        filters: DeviceCommandFilters,
+        scope: DataScope,
+        pagination: {
+            page: number;
+            limit: number;
+        } = { page: 1, limit: 50 }
+    ) {
+        const where: Prisma.DeviceCommandRequestWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+            ...(filters.deviceId && { deviceId: filters.deviceId }),
+            ...(filters.status && { status: filters.status }),
+            ...(filters.command && { command: filters.command }),
+            ...(filters.batchId && { batchId: filters.batchId }),
+        };
+
+        // Combined with the branch scope rather than replacing it
+        if (filters.branchId) {
+            where.AND = [{ branchId: filters.branchId }];
+        }
+
+        if (filters.startDate || filters.endDate) {
+            where.createdAt = {
+                ...(filters.startDate && { gte: filters.startDate }),
+                ...(filters.endDate && { lte: filters.endDate }),
+            };
+        }
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [commands, total] = await Promise.all([
+            this.prisma.deviceCommandRequest.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.deviceCommandRequest.count({ where }),
+        ]);
+
+        return {
+            data: commands,
+            total,
+            page: pagination.page,
+            limit: pagination.limit,
+        };
+    }
+
+    /**
+     * Count an attempt to send a queued command; returns the command, or null unless it is
+     * still queued, e.g. because it expired meanwhile
+     */
+    async startAttempt(id: string): Promise<DeviceCommandRequest | null> {
+        const { count } = await this.prisma.deviceCommandRequest.updateMany({
+            where: { id, status: DeviceCommandStatus.QUEUED },
+            data: { attempts: { increment: 1 } },
+        });
+
+        return count ? this.findForDispatch(id) : null;
+    }
+
+    /**
+     * Record what became of a command, unless it was completed or expired meanwhile
+     */
+    async recordOutcome(id: string, outcome: DeviceCommandOutcome): Promise<boolean> {
+        const { count } = await this.prisma.deviceCommandRequest.updateMany({
+            where: { id, status: { in: OPEN_STATUSES } },
+            data: outcome,
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Record the error of an attempt that is retried
+     */
+    async recordAttemptError(id: string, error: string): Promise<void> {
+        await this.prisma.deviceCommandRequest.updateMany({
+            where: { id, status: DeviceCommandStatus.QUEUED },
+            data: { error },
+        });
+    }
+
+    /**
+     * Expire the commands not completed before their timeout. ZKTeco commands a device has not
+     * fetched yet are failed with them, so it does not execute them late. Returns how many
+     * commands expired.
+     */
+    async expireOverdue(now: Date = new Date()): Promise<number> {
+        return this.prisma.$transaction(async tx => {
+            const overdue = await tx.deviceCommandRequest.findMany({
+                where: { status: { in: OPEN_STATUSES }, expiresAt: { lt: now } },
+                select: { id: true },
+            });
+            if (!overdue.length) {
+                return 0;
+            }
+
+            const ids = overdue.map(command => command.id);
+            await tx.deviceCommandRequest.updateMany({
+                where: { id: { in: ids }, status: { in: OPEN_STATUSES } },
+                data: {
+                    status: DeviceCommandStatus.EXPIRED,
+                    completedAt: now,
+                },
+            });
+            await tx.zktecoCommand.updateMany({
+                where: { deviceCommandId: { in: ids }, status: 'PENDING' },
+                data: { status: 'FAILED', completedAt: now },
+            });
+
+            return ids.length;
+        });
+    }
+}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DeviceCommandService } from './device-command.service';
+import { DeviceCommandRepository } from './device-command.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { DataScope } from '@/shared/interfaces';
+
+describe('DeviceCommandService', () => {
+    let service: DeviceCommandService;
+    let deviceCommandRepository: jest.Mocked<DeviceCommandRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockDevice = (id: string, isActive = true) => ({
+        id,
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        name: `Reader ${id}`,
+        deviceIdentifier: `reader-${id}`,
+        isActive,
+    });
+
+    const commandDto = { command: 'unlock_door' as const, parameters: { door: 1 } };
+
+    beforeEach(async () => {
+        const mockDeviceCommandRepository = {
+            createMany: jest.fn().mockImplementation(async commands =>
+                commands.map((command, index) => ({
+                    ...command,
+                    id: `command-${index + 1}`,
+                    status: 'QUEUED',
+                    attempts: 0,
+                }))
+            ),
+            findById: jest.fn(),
+            findMany: jest.fn(),
+            recordOutcome: jest.fn(),
+        };
+
+        const mockDeviceRepository = {
+            findById: jest.fn().mockResolvedValue(mockDevice('device-1')),
+            findByBranch: jest.fn(),
+        };
+
+        const mockQueueProducer = {
+            sendDeviceCommand: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceCommandService,
+                {
+                    provide: DeviceCommandRepository,
+                    useValue: mockDeviceCommandRepository,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<DeviceCommandService>(DeviceCommandService);
+        deviceCommandRepository = module.get(DeviceCommandRepository);
+        deviceRepository = module.get(DeviceRepository);
+        queueProducer = module.get(QueueProducer);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('sendCommand', () => {
+        it('should record the command and queue it', async () => {
+            const command = await service.sendCommand(
+                'device-1',
+                { ...commandDto, maxAttempts: 5 },
+                mockScope,
+                'user-123'
+            );
+
+            expect(command.id).toBe('command-1');
+            expect(deviceCommandRepository.createMany).toHaveBeenCalledWith([
+                {
+                    organizationId: 'org-123',
+                    branchId: 'branch-123',
+                    deviceId: 'device-1',
+                    command: 'unlock_door',
+                    parameters: { door: 1 },
+                    timeoutSeconds: 300,
+                    maxAttempts: 5,
+                    batchId: undefined,
+                    requestedByUserId: 'user-123',
+                },
+            ]);
+            expect(queueProducer.sendDeviceCommand).toHaveBeenCalledWith(
+                { commandId: 'command-1', organizationId: 'org-123', correlationId: undefined },
+                5
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'DEVICE_COMMAND_QUEUED',
+                expect.objectContaining({ commandId: 'command-1', deviceId: 'device-1' }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should reject commands for inactive devices', async () => {
+            deviceRepository.findById.mockResolvedValue(mockDevice('device-1', false) as any);
+
+            await expect(
+                service.sendCommand('device-1', commandDto, mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(deviceCommandRepository.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should fail the command when it cannot be queued', async () => {
+            queueProducer.sendDeviceCommand.mockRejectedValue(new Error('Redis unavailable'));
+
+            await expect(
+                service.sendCommand('device-1', commandDto, mockScope, 'user-123')
+            ).rejects.toThrow('Redis unavailable');
+            expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+                'command-1',
+                expect.objectContaining({
+                    status: 'FAILED',
+                    error: 'Failed to queue the command: Redis unavailable',
+                })
+            );
+        });
+    });
+
+    describe('sendBranchCommand', () => {
+        it('should queue the command for every active device of the branch in one batch', async () => {
+            deviceRepository.findByBranch.mockResolvedValue([
+                mockDevice('device-1'),
+                mockDevice('device-2', false),
+                mockDevice('device-3'),
+            ] as any);
+
+            const { batchId, commands } = await service.sendBranchCommand(
+                'branch-123',
+                commandDto,
+                mockScope,
+                'user-123'
+            );
+
+            expect(commands.map(command => command.deviceId)).toEqual(['device-1', 'device-3']);
+            expect(commands.every(command => command.batchId === batchId)).toBe(true);
+            expect(queueProducer.sendDeviceCommand).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject branches outside of the scope', async () => {
+            await expect(
+                service.sendBranchCommand('branch-999', commandDto, mockScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+            expect(deviceRepository.findByBranch).not.toHaveBeenCalled();
+        });
+
+        it('should reject branches without active devices', async () => {
+            deviceRepository.findByBranch.mockResolvedValue([mockDevice('device-2', false)] as any);
+
+            await expect(
+                service.sendBranchCommand('branch-123', commandDto, mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('getDeviceCommandHistory', () => {
+        it('should throw for devices outside of the scope', async () => {
+            deviceRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.getDeviceCommandHistory('device-9', {}, mockScope)
+            ).rejects.toThrow(NotFoundException);
+            expect(deviceCommandRepository.findMany).not.toHaveBeenCalled();
+        });
+    });
+});
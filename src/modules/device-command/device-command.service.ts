@@ -0,0 +1,182 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Device, DeviceCommandRequest, DeviceCommandStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { DeviceCommandFilters, DeviceCommandRepository } from './device-command.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { DEFAULT_DEVICE_COMMAND_TIMEOUT_SECONDS, SendDeviceCommandDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+
+@Injectable()
+export class DeviceCommandService {
+    constructor(
+        private readonly deviceCommandRepository: DeviceCommandRepository,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly queueProducer: QueueProducer,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Queue a command for a device. It is sent in the background and retried while the device
+     * is unreachable, until it runs out of attempts or expires.
+     */
+    async sendCommand(
+        deviceId: string,
+        commandDto: SendDeviceCommandDto,
+        scope: DataScope,
+        requestedByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceCommandRequest> {
+        const device = await this.deviceRepository.findById(deviceId, scope);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        if (!device.isActive) {
+            throw new BadRequestException('Cannot send command to inactive device');
+        }
+
+        const [command] = await this.queueCommands([device], commandDto, requestedByUserId, {
+            correlationId,
+        });
+
+        this.logger.logUserAction(
+            requestedByUserId,
+            'DEVICE_COMMAND_QUEUED',
+            {
+                commandId: command.id,
+                deviceId,
+                deviceName: device.name,
+                command: command.command,
+                timeoutSeconds: command.timeoutSeconds,
+                maxAttempts: command.maxAttempts,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return command;
+    }
+
+    /**
+     * Queue a command for every active device of a branch; the commands share a batch ID
+     */
+    async sendBranchCommand(
+        branchId: string,
+        commandDto: SendDeviceCommandDto,
+        scope: DataScope,
+        requestedByUserId: string,
+        correlationId?: string
+    ): Promise<{ batchId: string; commands: DeviceCommandRequest[] }> {
+        if (scope.branchIds?.length && !scope.branchIds.includes(branchId)) {
+            throw new NotFoundException('Branch not found');
+        }
+
+        const devices = (await this.deviceRepository.findByBranch(branchId, scope)).filter(
+            device => device.isActive
+        );
+        if (!devices.length) {
+            throw new BadRequestException('The branch has no active devices');
+        }
+
+        const batchId = randomUUID();
+        const commands = await this.queueCommands(devices, commandDto, requestedByUserId, {
+            batchId,
+            correlationId,
+        });
+
+        this.logger.logUserAction(
+            requestedByUserId,
+            'DEVICE_COMMAND_BRANCH_QUEUED',
+            {
+                batchId,
+                branchId,
+                command: commandDto.command,
+                devices: devices.length,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return { batchId, commands };
+    }
+
+    async getCommands(
+        filters: DeviceCommandFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        return this.deviceCommandRepository.findMany(filters, scope, pagination);
+    }
+
+    /**
+     * The commands sent to a device, newest first
+     */
+    async getDeviceCommandHistory(
+        deviceId: string,
+        filters: DeviceCommandFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        const device = await this.deviceRepository.findById(deviceId, scope);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        return this.deviceCommandRepository.findMany({ ...filters, deviceId }, scope, pagination);
+    }
+
+    async getCommandById(id: string, scope: DataScope): Promise<DeviceCommandRequest> {
+        const command = await this.deviceCommandRepository.findById(id, scope);
+        if (!command) {
+            throw new NotFoundException('Device command not found');
+        }
+
+        return command;
+    }
+
+    private async queueCommands(
+        devices: Device[],
+        commandDto: SendDeviceCommandDto,
+        requestedByUserId: string,
+        options: { batchId?: string; correlationId?: string }
+    ): Promise<DeviceCommandRequest[]> {
+        const commands = await this.deviceCommandRepository.createMany(
+            devices.map(device => ({
+                organizationId: device.organizationId,
+                branchId: device.branchId,
+                deviceId: device.id,
+                command: commandDto.command,
+                parameters: commandDto.parameters,
+                timeoutSeconds: commandDto.timeoutSeconds || DEFAULT_DEVICE_COMMAND_TIMEOUT_SECONDS,
+                maxAttempts: commandDto.maxAttempts || 3,
+                batchId: options.batchId,
+                requestedByUserId,
+            }))
+        );
+
+        for (const command of commands) {
+            try {
+                await this.queueProducer.sendDeviceCommand(
+                    {
+                        commandId: command.id,
+                        organizationId: command.organizationId,
+                        correlationId: options.correlationId,
+                    },
+                    command.maxAttempts
+                );
+            } catch (error) {
+                // Nothing would send it; fail it rather than leave it to expire
+                await this.deviceCommandRepository.recordOutcome(command.id, {
+                    status: DeviceCommandStatus.FAILED,
+                    error: `Failed to queue the command: ${error.message}`,
+                    completedAt: new Date(),
+                });
+                throw error;
+            }
+        }
+
+        return commands;
+    }
+}
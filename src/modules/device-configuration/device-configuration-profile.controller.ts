@@ -0,0 +1,307 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { DeviceConfigurationProfileVersion } from '@prisma/client';
+import { DeviceConfigurationProfileService } from './device-configuration-profile.service';
+import { DeviceConfigurationProfileWithCount } from './device-configuration-profile.repository';
+import {
+    ApplyDeviceConfigurationProfileDto,
+    AssignDeviceConfigurationProfileDto,
+    CreateDeviceConfigurationProfileDto,
+    DeviceConfigurationApplyResultDto,
+    DeviceConfigurationAssignResponseDto,
+    DeviceConfigurationDriftDto,
+    DeviceConfigurationDriftFiltersDto,
+    DeviceConfigurationProfileFiltersDto,
+    DeviceConfigurationProfileResponseDto,
+    DeviceConfigurationProfileVersionResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+    UpdateDeviceConfigurationProfileDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Device Configuration')
+@ApiBearerAuth()
+@Controller('device-configuration-profiles')
+export class DeviceConfigurationProfileController {
+    constructor(private readonly profileService: DeviceConfigurationProfileService) {}
+
+    @Post()
+    @Permissions('device:configuration:manage')
+    @ApiOperation({ summary: 'Create a configuration profile; its content is version 1' })
+    @ApiBody({ type: CreateDeviceConfigurationProfileDto })
+    @ApiResponse({ status: 201, type: DeviceConfigurationProfileResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid schedules or access rules.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'A profile with this name exists.' })
+    async createProfile(
+        @Body() createProfileDto: CreateDeviceConfigurationProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationProfileResponseDto> {
+        const profile = await this.profileService.createProfile(createProfileDto, scope, user.sub);
+
+        return this.getProfileById(profile.id, scope);
+    }
+
+    @Get()
+    @Permissions('device:configuration:read')
+    @ApiOperation({ summary: 'Get the configuration profiles of the organization' })
+    @ApiQuery({ name: 'filtersDto', type: DeviceConfigurationProfileFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getProfiles(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: DeviceConfigurationProfileFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<DeviceConfigurationProfileResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.profileService.getProfiles(
+            { search: filtersDto.search },
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            data.map(profile => this.toResponse(profile)),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Get(':id')
+    @Permissions('device:configuration:read')
+    @ApiOperation({
+        summary: 'Get a configuration profile with the content of its current version',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiResponse({ status: 200, type: DeviceConfigurationProfileResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    async getProfileById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationProfileResponseDto> {
+        const profile = await this.profileService.getProfileById(id, scope);
+        const version = await this.profileService.getVersion(id, profile.currentVersion, scope);
+
+        return { ...this.toResponse(profile), configuration: this.toVersionResponse(version) };
+    }
+
+    @Patch(':id')
+    @Permissions('device:configuration:manage')
+    @ApiOperation({
+        summary: 'Update a configuration profile',
+        description:
+            'Content (settings, schedules, access rules) that differs from the current ' +
+            'version is stored as a new version; devices need it applied afterwards.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiBody({ type: UpdateDeviceConfigurationProfileDto })
+    @ApiResponse({ status: 200, type: DeviceConfigurationProfileResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid schedules or access rules.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    @ApiResponse({ status: 409, description: 'A profile with this name exists.' })
+    async updateProfile(
+        @Param('id') id: string,
+        @Body() updateProfileDto: UpdateDeviceConfigurationProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationProfileResponseDto> {
+        await this.profileService.updateProfile(id, updateProfileDto, scope, user.sub);
+
+        return this.getProfileById(id, scope);
+    }
+
+    @Delete(':id')
+    @Permissions('device:configuration:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a configuration profile, unassigning its devices' })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiResponse({ status: 204, description: 'The configuration profile has been deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    async deleteProfile(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.profileService.deleteProfile(id, scope, user.sub);
+    }
+
+    @Get(':id/versions')
+    @Permissions('device:configuration:read')
+    @ApiOperation({ summary: 'Get the versions of a configuration profile, newest first' })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiResponse({ status: 200, type: [DeviceConfigurationProfileVersionResponseDto] })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    async getVersions(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationProfileVersionResponseDto[]> {
+        const versions = await this.profileService.getVersions(id, scope);
+
+        return versions.map(version => this.toVersionResponse(version));
+    }
+
+    @Post(':id/versions/:version/restore')
+    @Permissions('device:configuration:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Make the content of an earlier version current as a new version' })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiParam({ name: 'version', description: 'The version to restore' })
+    @ApiResponse({ status: 200, type: DeviceConfigurationProfileResponseDto })
+    @ApiResponse({ status: 400, description: 'The version is the current version.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile or version not found.' })
+    async restoreVersion(
+        @Param('id') id: string,
+        @Param('version', ParseIntPipe) version: number,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationProfileResponseDto> {
+        await this.profileService.restoreVersion(id, version, scope, user.sub);
+
+        return this.getProfileById(id, scope);
+    }
+
+    @Post(':id/devices')
+    @Permissions('device:configuration:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Assign a configuration profile to devices',
+        description: 'Replaces the profile the devices had; optionally applies it right away.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiBody({ type: AssignDeviceConfigurationProfileDto })
+    @ApiResponse({ status: 200, type: DeviceConfigurationAssignResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile or device not found.' })
+    async assignDevices(
+        @Param('id') id: string,
+        @Body() assignDto: AssignDeviceConfigurationProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationAssignResponseDto> {
+        return this.profileService.assignDevices(id, assignDto, scope, user.sub);
+    }
+
+    @Delete(':id/devices/:deviceId')
+    @Permissions('device:configuration:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Unassign a device from a configuration profile' })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiParam({ name: 'deviceId', description: 'ID of the device' })
+    @ApiResponse({ status: 204, description: 'The device has been unassigned.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile or device not found.' })
+    async unassignDevice(
+        @Param('id') id: string,
+        @Param('deviceId') deviceId: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.profileService.unassignDevice(id, deviceId, scope, user.sub);
+    }
+
+    @Get(':id/drift')
+    @Permissions('device:configuration:read')
+    @ApiOperation({
+        summary: 'Compare the profile with the configuration its devices report',
+        description:
+            'Reads the configuration of each device of the profile. Devices that do not ' +
+            'report their configuration back are UNKNOWN.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiQuery({ name: 'filtersDto', type: DeviceConfigurationDriftFiltersDto })
+    @ApiResponse({ status: 200, type: [DeviceConfigurationDriftDto] })
+    @ApiResponse({ status: 400, description: 'The profile is not assigned to the device.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    async getDrift(
+        @Param('id') id: string,
+        @Scope() scope: DataScope,
+        @Query() filtersDto: DeviceConfigurationDriftFiltersDto
+    ): Promise<DeviceConfigurationDriftDto[]> {
+        return this.profileService.getDrift(id, scope, filtersDto.deviceId);
+    }
+
+    @Post(':id/apply')
+    @Permissions('device:configuration:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Apply the current version of the profile to its devices',
+        description: 'Re-applies the profile to all of its devices, or to those given.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the configuration profile' })
+    @ApiBody({ type: ApplyDeviceConfigurationProfileDto })
+    @ApiResponse({ status: 200, type: [DeviceConfigurationApplyResultDto] })
+    @ApiResponse({ status: 400, description: 'The profile is not assigned to the devices.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Configuration profile not found.' })
+    async applyProfile(
+        @Param('id') id: string,
+        @Body() applyDto: ApplyDeviceConfigurationProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceConfigurationApplyResultDto[]> {
+        return this.profileService.applyProfile(id, applyDto, scope, user.sub);
+    }
+
+    private toResponse(
+        profile: DeviceConfigurationProfileWithCount
+    ): DeviceConfigurationProfileResponseDto {
+        return {
+            id: profile.id,
+            organizationId: profile.organizationId,
+            name: profile.name,
+            description: profile.description || undefined,
+            currentVersion: profile.currentVersion,
+            deviceCount: profile._count.devices,
+            createdByUserId: profile.createdByUserId || undefined,
+            createdAt: profile.createdAt,
+            updatedAt: profile.updatedAt,
+        };
+    }
+
+    private toVersionResponse(
+        version: DeviceConfigurationProfileVersion
+    ): DeviceConfigurationProfileVersionResponseDto {
+        return {
+            id: version.id,
+            version: version.version,
+            settings: version.settings as Record<string, any>,
+            schedules: version.schedules as any[],
+            accessRules: version.accessRules as any[],
+            changeNote: version.changeNote || undefined,
+            createdByUserId: version.createdByUserId || undefined,
+            createdAt: version.createdAt,
+        };
+    }
+}
@@ -0,0 +1,218 @@
+import { Injectable } from '@nestjs/common';
+import {
+    Device,
+    DeviceConfigurationProfile,
+    DeviceConfigurationProfileVersion,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { DesiredDeviceConfiguration, QueryBuilder } from '@/shared/utils';
+
+export type DeviceConfigurationProfileWithCount = DeviceConfigurationProfile & {
+    _count: { devices: number };
+};
+
+export interface DeviceConfigurationProfileData {
+    name?: string;
+    description?: string;
+}
+
+export interface DeviceConfigurationVersionData extends DesiredDeviceConfiguration {
+    changeNote?: string;
+    createdByUserId: string;
+}
+
+export interface DeviceConfigurationProfileFilters {
+    search?: string;
+}
+
+const WITH_DEVICE_COUNT = { _count: { select: { devices: true } } } as const;
+
+@Injectable()
+export class DeviceConfigurationProfileRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Create the profile with its content as version 1
+     */
+    async create(
+        data: DeviceConfigurationProfileData & { name: string },
+        content: DeviceConfigurationVersionData,
+        scope: DataScope
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        return this.prisma.deviceConfigurationProfile.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+                currentVersion: 1,
+                createdByUserId: content.createdByUserId,
+                versions: { create: { ...this.toVersionData(content), version: 1 } },
+            },
+            include: WITH_DEVICE_COUNT,
+        });
+    }
+
+    async findById(
+        id: string,
+        scope: DataScope
+    ): Promise<DeviceConfigurationProfileWithCount | null> {
+        return this.prisma.deviceConfigurationProfile.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+            include: WITH_DEVICE_COUNT,
+        });
+    }
+
+    async findMany(
+        filters: DeviceConfigurationProfileFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{
+        data: DeviceConfigurationProfileWithCount[];
+        total: number;
+        page: number;
+        limit: number;
+    }> {
+        const where: Prisma.DeviceConfigurationProfileWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            ...(filters.search && {
+                name: { contains: filters.search, mode: 'insensitive' as const },
+            }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.deviceConfigurationProfile.findMany({
+                where,
+                include: WITH_DEVICE_COUNT,
+                orderBy: { name: 'asc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.deviceConfigurationProfile.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    async findVersion(
+        profileId: string,
+        version: number
+    ): Promise<DeviceConfigurationProfileVersion | null> {
+        return this.prisma.deviceConfigurationProfileVersion.findUnique({
+            where: { profileId_version: { profileId, version } },
+        });
+    }
+
+    async findVersions(profileId: string): Promise<DeviceConfigurationProfileVersion[]> {
+        return this.prisma.deviceConfigurationProfileVersion.findMany({
+            where: { profileId },
+            orderBy: { version: 'desc' },
+        });
+    }
+
+    async update(
+        id: string,
+        data: DeviceConfigurationProfileData
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        return this.prisma.deviceConfigurationProfile.update({
+            where: { id },
+            data,
+            include: WITH_DEVICE_COUNT,
+        });
+    }
+
+    /**
+     * Store new content as the next version; concurrent changes get consecutive versions
+     */
+    async addVersion(
+        id: string,
+        data: DeviceConfigurationProfileData,
+        content: DeviceConfigurationVersionData
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        return this.prisma.$transaction(async tx => {
+            const profile = await tx.deviceConfigurationProfile.update({
+                where: { id },
+                data: { ...data, currentVersion: { increment: 1 } },
+                include: WITH_DEVICE_COUNT,
+            });
+
+            await tx.deviceConfigurationProfileVersion.create({
+                data: {
+                    ...this.toVersionData(content),
+                    profileId: id,
+                    version: profile.currentVersion,
+                },
+            });
+
+            return profile;
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.deviceConfigurationProfile.delete({ where: { id } });
+    }
+
+    /**
+     * Assign the profile to the devices; devices that move from another profile (or none)
+     * have nothing of it applied yet
+     */
+    async assignDevices(id: string, deviceIds: string[]): Promise<void> {
+        await this.prisma.device.updateMany({
+            where: {
+                id: { in: deviceIds },
+                OR: [{ configurationProfileId: null }, { configurationProfileId: { not: id } }],
+            },
+            data: {
+                configurationProfileId: id,
+                appliedConfigurationVersion: null,
+                configurationAppliedAt: null,
+            },
+        });
+    }
+
+    /**
+     * @returns false when the device is not assigned to the profile
+     */
+    async unassignDevice(id: string, deviceId: string): Promise<boolean> {
+        const { count } = await this.prisma.device.updateMany({
+            where: { id: deviceId, configurationProfileId: id },
+            data: {
+                configurationProfileId: null,
+                appliedConfigurationVersion: null,
+                configurationAppliedAt: null,
+            },
+        });
+
+        return count > 0;
+    }
+
+    async findDevices(id: string, scope: DataScope, deviceIds?: string[]): Promise<Device[]> {
+        return this.prisma.device.findMany({
+            where: {
+                configurationProfileId: id,
+                ...(deviceIds && { id: { in: deviceIds } }),
+                branch: QueryBuilder.buildBranchScope(scope),
+            },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async recordApplied(deviceId: string, version: number, appliedAt: Date): Promise<void> {
+        await this.prisma.device.update({
+            where: { id: deviceId },
+            data: { appliedConfigurationVersion: version, configurationAppliedAt: appliedAt },
+        });
+    }
+
+    private toVersionData(content: DeviceConfigurationVersionData) {
+        return {
+            settings: content.settings as Prisma.InputJsonObject,
+            schedules: content.schedules as unknown as Prisma.InputJsonArray,
+            accessRules: content.accessRules as unknown as Prisma.InputJsonArray,
+            changeNote: content.changeNote,
+            createdByUserId: content.createdByUserId,
+        };
+    }
+}
@@ -0,0 +1,419 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DeviceConfigurationProfileService } from './device-configuration-profile.service';
+import { DeviceConfigurationProfileRepository } from './device-configuration-profile.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DeviceAdapterRegistry } from '@/shared/adapters/device-adapter.registry';
+import { DataScope } from '@/shared/interfaces';
+
+describe('DeviceConfigurationProfileService', () => {
+    let service: DeviceConfigurationProfileService;
+    let profileRepository: jest.Mocked<DeviceConfigurationProfileRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let loggerService: jest.Mocked<LoggerService>;
+    let adapter: {
+        getDeviceConfiguration: jest.Mock;
+        updateDeviceConfiguration: jest.Mock;
+    };
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const officeHours = {
+        id: 'office-hours',
+        name: 'Office hours',
+        startTime: '08:00',
+        endTime: '18:00',
+        daysOfWeek: [1, 2, 3, 4, 5],
+        enabled: true,
+    };
+
+    const mockProfile = {
+        id: 'profile-123',
+        organizationId: 'org-123',
+        name: 'Entrance readers',
+        description: null,
+        currentVersion: 2,
+        createdByUserId: 'user-123',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        _count: { devices: 2 },
+    };
+
+    const mockVersion = {
+        id: 'version-2',
+        profileId: 'profile-123',
+        version: 2,
+        settings: { doorOpenTimeout: 5 },
+        schedules: [officeHours],
+        accessRules: [],
+        changeNote: null,
+        createdByUserId: 'user-123',
+        createdAt: new Date(),
+    };
+
+    const device = (id: string, overrides: Record<string, any> = {}) => ({
+        id,
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        name: `Reader ${id}`,
+        deviceIdentifier: `reader-${id}`,
+        type: 'CARD_READER',
+        isActive: true,
+        appliedConfigurationVersion: 2,
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        adapter = {
+            getDeviceConfiguration: jest.fn(),
+            updateDeviceConfiguration: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const mockProfileRepository = {
+            create: jest.fn().mockResolvedValue({ ...mockProfile, currentVersion: 1 }),
+            findById: jest.fn().mockResolvedValue(mockProfile),
+            findVersion: jest.fn().mockResolvedValue(mockVersion),
+            update: jest.fn().mockResolvedValue(mockProfile),
+            addVersion: jest.fn().mockResolvedValue({ ...mockProfile, currentVersion: 3 }),
+            assignDevices: jest.fn(),
+            findDevices: jest.fn().mockResolvedValue([device('device-1'), device('device-2')]),
+            recordApplied: jest.fn(),
+        };
+
+        const mockDeviceRepository = {
+            findMany: jest.fn(),
+        };
+
+        const mockDeviceAdapterRegistry = {
+            forDevice: jest.fn().mockReturnValue(adapter),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+            warn: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceConfigurationProfileService,
+                {
+                    provide: DeviceConfigurationProfileRepository,
+                    useValue: mockProfileRepository,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: DeviceAdapterRegistry,
+                    useValue: mockDeviceAdapterRegistry,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<DeviceConfigurationProfileService>(DeviceConfigurationProfileService);
+        profileRepository = module.get(DeviceConfigurationProfileRepository);
+        deviceRepository = module.get(DeviceRepository);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('createProfile', () => {
+        it('should store the content as the first version', async () => {
+            await service.createProfile(
+                { name: 'Entrance readers', settings: { doorOpenTimeout: 5 } },
+                mockScope,
+                'user-123'
+            );
+
+            expect(profileRepository.create).toHaveBeenCalledWith(
+                { name: 'Entrance readers', description: undefined },
+                {
+                    settings: { doorOpenTimeout: 5 },
+                    schedules: [],
+                    accessRules: [],
+                    changeNote: undefined,
+                    createdByUserId: 'user-123',
+                },
+                mockScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'DEVICE_CONFIGURATION_PROFILE_CREATED',
+                expect.objectContaining({ profileId: 'profile-123' }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should reject access rules with unknown schedules', async () => {
+            await expect(
+                service.createProfile(
+                    {
+                        name: 'Entrance readers',
+                        settings: {},
+                        schedules: [officeHours],
+                        accessRules: [
+                            {
+                                id: 'staff',
+                                name: 'Staff',
+                                userGroups: ['staff'],
+                                timeSchedules: ['night'],
+                                enabled: true,
+                            },
+                        ],
+                    },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            expect(profileRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateProfile', () => {
+        it('should store changed content as a new version, keeping the rest', async () => {
+            const profile = await service.updateProfile(
+                'profile-123',
+                { settings: { doorOpenTimeout: 10 }, changeNote: 'Longer door opening' },
+                mockScope,
+                'user-123'
+            );
+
+            expect(profile.currentVersion).toBe(3);
+            expect(profileRepository.addVersion).toHaveBeenCalledWith(
+                'profile-123',
+                { name: undefined, description: undefined },
+                {
+                    settings: { doorOpenTimeout: 10 },
+                    schedules: [officeHours],
+                    accessRules: [],
+                    changeNote: 'Longer door opening',
+                    createdByUserId: 'user-123',
+                }
+            );
+        });
+
+        it('should not create a version for unchanged content', async () => {
+            await service.updateProfile(
+                'profile-123',
+                { name: 'Lobby readers', settings: { doorOpenTimeout: 5 } },
+                mockScope,
+                'user-123'
+            );
+
+            expect(profileRepository.addVersion).not.toHaveBeenCalled();
+            expect(profileRepository.update).toHaveBeenCalledWith('profile-123', {
+                name: 'Lobby readers',
+                description: undefined,
+            });
+        });
+    });
+
+    describe('restoreVersion', () => {
+        it('should make the content of the version current as a new version', async () => {
+            profileRepository.findVersion.mockResolvedValue({
+                ...mockVersion,
+                id: 'version-1',
+                version: 1,
+                settings: { doorOpenTimeout: 3 },
+            });
+
+            await service.restoreVersion('profile-123', 1, mockScope, 'user-123');
+
+            expect(profileRepository.addVersion).toHaveBeenCalledWith(
+                'profile-123',
+                {},
+                expect.objectContaining({
+                    settings: { doorOpenTimeout: 3 },
+                    changeNote: 'Restored version 1',
+                })
+            );
+        });
+
+        it('should reject restoring the current version', async () => {
+            await expect(
+                service.restoreVersion('profile-123', 2, mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('assignDevices', () => {
+        it('should assign devices in scope and apply the profile when asked', async () => {
+            deviceRepository.findMany.mockResolvedValue([device('device-1')] as any);
+            profileRepository.findDevices.mockResolvedValue([device('device-1')] as any);
+
+            const result = await service.assignDevices(
+                'profile-123',
+                { deviceIds: ['device-1'], apply: true },
+                mockScope,
+                'user-123'
+            );
+
+            expect(profileRepository.assignDevices).toHaveBeenCalledWith('profile-123', [
+                'device-1',
+            ]);
+            expect(result).toEqual({
+                assigned: 1,
+                applied: [
+                    {
+                        deviceId: 'device-1',
+                        deviceName: 'Reader device-1',
+                        version: 2,
+                        applied: true,
+                    },
+                ],
+            });
+        });
+
+        it('should reject devices out of scope', async () => {
+            deviceRepository.findMany.mockResolvedValue([]);
+
+            await expect(
+                service.assignDevices(
+                    'profile-123',
+                    { deviceIds: ['device-9'] },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(NotFoundException);
+            expect(profileRepository.assignDevices).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getDrift', () => {
+        it('should compare the current version with what each device reports', async () => {
+            profileRepository.findDevices.mockResolvedValue([
+                device('device-1'),
+                device('device-2', { appliedConfigurationVersion: 1 }),
+                device('device-3', { appliedConfigurationVersion: null }),
+                device('device-4'),
+            ] as any);
+            adapter.getDeviceConfiguration.mockImplementation(async deviceId => {
+                switch (deviceId) {
+                    case 'reader-device-1':
+                        return {
+                            deviceId,
+                            settings: { doorOpenTimeout: '5', volume: 3 },
+                            schedules: [officeHours],
+                            accessRules: [],
+                        };
+                    case 'reader-device-2':
+                        return {
+                            deviceId,
+                            settings: { doorOpenTimeout: 8 },
+                            schedules: [],
+                            accessRules: [],
+                            reported: ['settings'],
+                        };
+                    case 'reader-device-3':
+                        return { deviceId, settings: {}, reported: [] };
+                    default:
+                        throw new Error('Connection refused');
+                }
+            });
+
+            const drift = await service.getDrift('profile-123', mockScope);
+
+            expect(drift).toEqual([
+                expect.objectContaining({
+                    deviceId: 'device-1',
+                    status: 'IN_SYNC',
+                    outdated: false,
+                    differences: [],
+                }),
+                expect.objectContaining({
+                    deviceId: 'device-2',
+                    status: 'DRIFTED',
+                    appliedVersion: 1,
+                    outdated: true,
+                    differences: [
+                        { section: 'settings', key: 'doorOpenTimeout', expected: 5, actual: 8 },
+                    ],
+                }),
+                expect.objectContaining({
+                    deviceId: 'device-3',
+                    status: 'UNKNOWN',
+                    appliedVersion: undefined,
+                    outdated: true,
+                }),
+                expect.objectContaining({
+                    deviceId: 'device-4',
+                    status: 'UNREACHABLE',
+                    error: 'Connection refused',
+                }),
+            ]);
+        });
+
+        it('should reject devices the profile is not assigned to', async () => {
+            profileRepository.findDevices.mockResolvedValue([]);
+
+            await expect(service.getDrift('profile-123', mockScope, 'device-9')).rejects.toThrow(
+                BadRequestException
+            );
+        });
+    });
+
+    describe('applyProfile', () => {
+        it('should apply the current version and record it, reporting failed devices', async () => {
+            adapter.updateDeviceConfiguration.mockImplementation(async deviceId => {
+                if (deviceId === 'reader-device-2') {
+                    throw new Error('Connection refused');
+                }
+            });
+
+            const results = await service.applyProfile('profile-123', {}, mockScope, 'user-123');
+
+            expect(adapter.updateDeviceConfiguration).toHaveBeenCalledWith('reader-device-1', {
+                deviceId: 'reader-device-1',
+                settings: { doorOpenTimeout: 5 },
+                schedules: [officeHours],
+                accessRules: [],
+            });
+            expect(profileRepository.recordApplied).toHaveBeenCalledTimes(1);
+            expect(profileRepository.recordApplied).toHaveBeenCalledWith(
+                'device-1',
+                2,
+                expect.any(Date)
+            );
+            expect(results).toEqual([
+                expect.objectContaining({ deviceId: 'device-1', applied: true }),
+                expect.objectContaining({
+                    deviceId: 'device-2',
+                    applied: false,
+                    error: 'Connection refused',
+                }),
+            ]);
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'DEVICE_CONFIGURATION_PROFILE_APPLIED',
+                expect.objectContaining({ version: 2, applied: 1, failed: 1 }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should skip inactive devices', async () => {
+            profileRepository.findDevices.mockResolvedValue([
+                device('device-1', { isActive: false }),
+            ] as any);
+
+            const [result] = await service.applyProfile(
+                'profile-123',
+                { deviceIds: ['device-1'] },
+                mockScope,
+                'user-123'
+            );
+
+            expect(result).toEqual(expect.objectContaining({ applied: false }));
+            expect(adapter.updateDeviceConfiguration).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,487 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { Device, DeviceConfigurationProfileVersion } from '@prisma/client';
+import {
+    DeviceConfigurationProfileFilters,
+    DeviceConfigurationProfileRepository,
+    DeviceConfigurationProfileWithCount,
+} from './device-configuration-profile.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DeviceAccessRule, DeviceSchedule } from '@/shared/adapters/device.adapter';
+import { DeviceAdapterRegistry } from '@/shared/adapters/device-adapter.registry';
+import {
+    ApplyDeviceConfigurationProfileDto,
+    AssignDeviceConfigurationProfileDto,
+    CreateDeviceConfigurationProfileDto,
+    DeviceConfigurationApplyResultDto,
+    DeviceConfigurationAssignResponseDto,
+    DeviceConfigurationDriftDto,
+    UpdateDeviceConfigurationProfileDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil, DesiredDeviceConfiguration, DeviceConfigurationUtil } from '@/shared/utils';
+
+@Injectable()
+export class DeviceConfigurationProfileService {
+    constructor(
+        private readonly profileRepository: DeviceConfigurationProfileRepository,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly deviceAdapterRegistry: DeviceAdapterRegistry,
+        private readonly logger: LoggerService
+    ) {}
+
+    async createProfile(
+        createProfileDto: CreateDeviceConfigurationProfileDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        const content: DesiredDeviceConfiguration = {
+            settings: createProfileDto.settings,
+            schedules: createProfileDto.schedules || [],
+            accessRules: createProfileDto.accessRules || [],
+        };
+        this.validateContent(content);
+
+        let profile: DeviceConfigurationProfileWithCount;
+        try {
+            profile = await this.profileRepository.create(
+                { name: createProfileDto.name, description: createProfileDto.description },
+                { ...content, changeNote: createProfileDto.changeNote, createdByUserId },
+                scope
+            );
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException(
+                    'A configuration profile with this name already exists'
+                );
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_CREATED',
+            { profileId: profile.id, name: profile.name },
+            scope.organizationId,
+            correlationId
+        );
+
+        return profile;
+    }
+
+    async getProfiles(
+        filters: DeviceConfigurationProfileFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number }
+    ) {
+        return this.profileRepository.findMany(filters, scope, pagination);
+    }
+
+    async getProfileById(
+        id: string,
+        scope: DataScope
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        const profile = await this.profileRepository.findById(id, scope);
+        if (!profile) {
+            throw new NotFoundException('Configuration profile not found');
+        }
+
+        return profile;
+    }
+
+    async getVersions(id: string, scope: DataScope): Promise<DeviceConfigurationProfileVersion[]> {
+        await this.getProfileById(id, scope);
+
+        return this.profileRepository.findVersions(id);
+    }
+
+    async getVersion(
+        id: string,
+        version: number,
+        scope: DataScope
+    ): Promise<DeviceConfigurationProfileVersion> {
+        await this.getProfileById(id, scope);
+
+        return this.findVersion(id, version);
+    }
+
+    /**
+     * Change the profile. The content given replaces that of the current version as a new
+     * version; content equal to the current version's does not create one.
+     */
+    async updateProfile(
+        id: string,
+        updateProfileDto: UpdateDeviceConfigurationProfileDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        const existing = await this.getProfileById(id, scope);
+        const data = { name: updateProfileDto.name, description: updateProfileDto.description };
+
+        const current = this.toContent(await this.findVersion(id, existing.currentVersion));
+        const content: DesiredDeviceConfiguration = {
+            settings: updateProfileDto.settings ?? current.settings,
+            schedules: updateProfileDto.schedules ?? current.schedules,
+            accessRules: updateProfileDto.accessRules ?? current.accessRules,
+        };
+        const changed = !DeviceConfigurationUtil.isEqual(content, current);
+        if (changed) {
+            this.validateContent(content);
+        }
+
+        let profile: DeviceConfigurationProfileWithCount;
+        try {
+            profile = changed
+                ? await this.profileRepository.addVersion(id, data, {
+                      ...content,
+                      changeNote: updateProfileDto.changeNote,
+                      createdByUserId: updatedByUserId,
+                  })
+                : await this.profileRepository.update(id, data);
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException(
+                    'A configuration profile with this name already exists'
+                );
+            }
+            throw error;
+        }
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_UPDATED',
+            {
+                profileId: id,
+                name: profile.name,
+                version: profile.currentVersion,
+                newVersion: changed,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return profile;
+    }
+
+    /**
+     * Make the content of an earlier version current again, as a new version
+     */
+    async restoreVersion(
+        id: string,
+        version: number,
+        scope: DataScope,
+        restoredByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceConfigurationProfileWithCount> {
+        const existing = await this.getProfileById(id, scope);
+        if (version === existing.currentVersion) {
+            throw new BadRequestException(`Version ${version} is the current version`);
+        }
+
+        const restored = await this.findVersion(id, version);
+        const profile = await this.profileRepository.addVersion(
+            id,
+            {},
+            {
+                ...this.toContent(restored),
+                changeNote: `Restored version ${version}`,
+                createdByUserId: restoredByUserId,
+            }
+        );
+
+        this.logger.logUserAction(
+            restoredByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_RESTORED',
+            { profileId: id, restoredVersion: version, version: profile.currentVersion },
+            scope.organizationId,
+            correlationId
+        );
+
+        return profile;
+    }
+
+    /**
+     * Delete the profile; its devices keep their configuration but are no longer assigned
+     */
+    async deleteProfile(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const profile = await this.getProfileById(id, scope);
+
+        await this.profileRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_DELETED',
+            { profileId: id, name: profile.name, devices: profile._count.devices },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Assign the profile to devices, replacing the profile they had
+     */
+    async assignDevices(
+        id: string,
+        assignDto: AssignDeviceConfigurationProfileDto,
+        scope: DataScope,
+        assignedByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceConfigurationAssignResponseDto> {
+        await this.getProfileById(id, scope);
+
+        const devices = await this.deviceRepository.findMany(
+            { id: { in: assignDto.deviceIds } },
+            scope
+        );
+        if (devices.length !== assignDto.deviceIds.length) {
+            throw new NotFoundException('Device not found');
+        }
+
+        await this.profileRepository.assignDevices(id, assignDto.deviceIds);
+
+        this.logger.logUserAction(
+            assignedByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_ASSIGNED',
+            { profileId: id, deviceIds: assignDto.deviceIds },
+            scope.organizationId,
+            correlationId
+        );
+
+        if (!assignDto.apply) {
+            return { assigned: devices.length };
+        }
+
+        return {
+            assigned: devices.length,
+            applied: await this.applyProfile(
+                id,
+                { deviceIds: assignDto.deviceIds },
+                scope,
+                assignedByUserId,
+                correlationId
+            ),
+        };
+    }
+
+    async unassignDevice(
+        id: string,
+        deviceId: string,
+        scope: DataScope,
+        unassignedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        await this.getProfileById(id, scope);
+
+        const [device] = await this.profileRepository.findDevices(id, scope, [deviceId]);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        await this.profileRepository.unassignDevice(id, deviceId);
+
+        this.logger.logUserAction(
+            unassignedByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_UNASSIGNED',
+            { profileId: id, deviceId, deviceName: device.name },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Compare the current version of the profile with what each of its devices reports
+     */
+    async getDrift(
+        id: string,
+        scope: DataScope,
+        deviceId?: string
+    ): Promise<DeviceConfigurationDriftDto[]> {
+        const profile = await this.getProfileById(id, scope);
+        const desired = this.toContent(await this.findVersion(id, profile.currentVersion));
+        const devices = await this.findDevices(id, scope, deviceId && [deviceId]);
+
+        const drift: DeviceConfigurationDriftDto[] = [];
+        for (const device of devices) {
+            drift.push(await this.checkDevice(device, desired, profile.currentVersion));
+        }
+
+        return drift;
+    }
+
+    /**
+     * Push the current version of the profile to its devices, all of them or those given, so
+     * that drifted devices can be brought back in line. Devices that fail are reported and
+     * do not stop the others.
+     */
+    async applyProfile(
+        id: string,
+        applyDto: ApplyDeviceConfigurationProfileDto,
+        scope: DataScope,
+        appliedByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceConfigurationApplyResultDto[]> {
+        const profile = await this.getProfileById(id, scope);
+        const version = profile.currentVersion;
+        const content = this.toContent(await this.findVersion(id, version));
+        const devices = await this.findDevices(id, scope, applyDto.deviceIds);
+
+        const results: DeviceConfigurationApplyResultDto[] = [];
+        for (const device of devices) {
+            const result = { deviceId: device.id, deviceName: device.name, version };
+
+            if (!device.isActive) {
+                results.push({ ...result, applied: false, error: 'The device is inactive' });
+                continue;
+            }
+
+            try {
+                await this.deviceAdapterRegistry
+                    .forDevice(device)
+                    .updateDeviceConfiguration(device.deviceIdentifier, {
+                        deviceId: device.deviceIdentifier,
+                        ...content,
+                    });
+                await this.profileRepository.recordApplied(device.id, version, new Date());
+
+                results.push({ ...result, applied: true });
+            } catch (error) {
+                this.logger.warn('Failed to apply configuration profile to device', {
+                    profileId: id,
+                    deviceId: device.id,
+                    error: error.message,
+                });
+                results.push({ ...result, applied: false, error: error.message });
+            }
+        }
+
+        const applied = results.filter(result => result.applied).length;
+        this.logger.logUserAction(
+            appliedByUserId,
+            'DEVICE_CONFIGURATION_PROFILE_APPLIED',
+            {
+                profileId: id,
+                version,
+                devices: results.length,
+                applied,
+                failed: results.length - applied,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return results;
+    }
+
+    private async checkDevice(
+        device: Device,
+        desired: DesiredDeviceConfiguration,
+        currentVersion: number
+    ): Promise<DeviceConfigurationDriftDto> {
+        const drift = {
+            deviceId: device.id,
+            deviceName: device.name,
+            branchId: device.branchId,
+            currentVersion,
+            appliedVersion: device.appliedConfigurationVersion ?? undefined,
+            outdated: device.appliedConfigurationVersion !== currentVersion,
+            checkedAt: new Date(),
+        };
+
+        if (!device.isActive) {
+            return {
+                ...drift,
+                status: 'UNREACHABLE',
+                differences: [],
+                error: 'The device is inactive',
+            };
+        }
+
+        try {
+            const actual = await this.deviceAdapterRegistry
+                .forDevice(device)
+                .getDeviceConfiguration(device.deviceIdentifier);
+            const differences = DeviceConfigurationUtil.findDifferences(desired, actual);
+
+            return {
+                ...drift,
+                status: !DeviceConfigurationUtil.reportedSections(actual).length
+                    ? 'UNKNOWN'
+                    : differences.length
+                      ? 'DRIFTED'
+                      : 'IN_SYNC',
+                differences,
+            };
+        } catch (error) {
+            return { ...drift, status: 'UNREACHABLE', differences: [], error: error.message };
+        }
+    }
+
+    /**
+     * The devices of the profile; asking for devices it is not assigned to is an error
+     */
+    private async findDevices(
+        id: string,
+        scope: DataScope,
+        deviceIds?: string[]
+    ): Promise<Device[]> {
+        const devices = await this.profileRepository.findDevices(id, scope, deviceIds);
+        if (deviceIds && devices.length !== deviceIds.length) {
+            throw new BadRequestException('The profile is not assigned to all of the devices');
+        }
+
+        return devices;
+    }
+
+    private async findVersion(
+        id: string,
+        version: number
+    ): Promise<DeviceConfigurationProfileVersion> {
+        const profileVersion = await this.profileRepository.findVersion(id, version);
+        if (!profileVersion) {
+            throw new NotFoundException('Configuration profile version not found');
+        }
+
+        return profileVersion;
+    }
+
+    private validateContent(content: DesiredDeviceConfiguration): void {
+        const scheduleIds = new Set(content.schedules.map(schedule => schedule.id));
+        if (scheduleIds.size !== content.schedules.length) {
+            throw new BadRequestException('Schedule IDs must be unique');
+        }
+
+        const ruleIds = new Set(content.accessRules.map(rule => rule.id));
+        if (ruleIds.size !== content.accessRules.length) {
+            throw new BadRequestException('Access rule IDs must be unique');
+        }
+
+        for (const rule of content.accessRules) {
+            const unknown = rule.timeSchedules.find(scheduleId => !scheduleIds.has(scheduleId));
+            if (unknown) {
+                throw new BadRequestException(
+                    `Access rule ${rule.id} refers to unknown schedule ${unknown}`
+                );
+            }
+        }
+    }
+
+    private toContent(version: DeviceConfigurationProfileVersion): DesiredDeviceConfiguration {
+        return {
+            settings: version.settings as Record<string, any>,
+            schedules: version.schedules as unknown as DeviceSchedule[],
+            accessRules: version.accessRules as unknown as DeviceAccessRule[],
+        };
+    }
+}
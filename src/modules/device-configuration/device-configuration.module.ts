@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DeviceConfigurationProfileController } from './device-configuration-profile.controller';
+import { DeviceConfigurationProfileService } from './device-configuration-profile.service';
+import { DeviceConfigurationProfileRepository } from './device-configuration-profile.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { DeviceModule } from '../device/device.module';
+import { AdapterModule } from '@/shared/adapters/adapter.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, DeviceModule, AdapterModule],
+    controllers: [DeviceConfigurationProfileController],
+    providers: [DeviceConfigurationProfileService, DeviceConfigurationProfileRepository],
+    exports: [DeviceConfigurationProfileService],
+})
+export class DeviceConfigurationModule {}
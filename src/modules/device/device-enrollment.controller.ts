@@ -0,0 +1,139 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Post,
+    Query,
+    Req,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { DeviceEnrollmentToken } from '@prisma/client';
+import { Request } from 'express';
+import { DeviceEnrollmentService } from './device-enrollment.service';
+import {
+    CreateDeviceEnrollmentTokenDto,
+    DeviceEnrollmentResponseDto,
+    DeviceEnrollmentTokenFiltersDto,
+    DeviceEnrollmentTokenResponseDto,
+    EnrollDeviceDto,
+} from '@/shared/dto';
+import { Permissions, Public, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Device Enrollment')
+@ApiBearerAuth()
+@Controller('device-enrollment')
+export class DeviceEnrollmentController {
+    constructor(private readonly enrollmentService: DeviceEnrollmentService) {}
+
+    @Post('tokens')
+    @Permissions('device:enrollment:manage')
+    @ApiOperation({ summary: 'Issue a one-time enrollment code for devices of a branch' })
+    @ApiBody({ type: CreateDeviceEnrollmentTokenDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The token, with the code to enter on the device; it is not shown again.',
+        type: DeviceEnrollmentTokenResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    async createToken(
+        @Body() createTokenDto: CreateDeviceEnrollmentTokenDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceEnrollmentTokenResponseDto> {
+        const { token, code } = await this.enrollmentService.createToken(
+            createTokenDto,
+            scope,
+            user.sub
+        );
+
+        return { ...this.toResponse(token), token: code };
+    }
+
+    @Get('tokens')
+    @Permissions('device:enrollment:manage')
+    @ApiOperation({ summary: 'Get the enrollment tokens, latest first' })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of enrollment tokens.',
+        type: [DeviceEnrollmentTokenResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getTokens(
+        @Query() filtersDto: DeviceEnrollmentTokenFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<DeviceEnrollmentTokenResponseDto[]> {
+        const tokens = await this.enrollmentService.getTokens(filtersDto, scope);
+
+        return tokens.map(token => this.toResponse(token));
+    }
+
+    @Delete('tokens/:id')
+    @Permissions('device:enrollment:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Revoke an unused enrollment token' })
+    @ApiParam({ name: 'id', description: 'ID of the enrollment token' })
+    @ApiResponse({ status: 204, description: 'The token has been revoked.' })
+    @ApiResponse({ status: 400, description: 'Only active enrollment tokens can be revoked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Enrollment token not found.' })
+    async revokeToken(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.enrollmentService.revokeToken(id, scope, user.sub);
+    }
+
+    @Post('enroll')
+    @Public() // Called by the device with its enrollment code
+    @ApiOperation({ summary: 'Enroll a device with a one-time code' })
+    @ApiBody({ type: EnrollDeviceDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The device, its signing secret and its initial configuration.',
+        type: DeviceEnrollmentResponseDto,
+    })
+    @ApiResponse({ status: 401, description: 'Invalid or expired enrollment token.' })
+    @ApiResponse({ status: 409, description: 'The MAC address belongs to another device.' })
+    async enroll(
+        @Body() enrollDto: EnrollDeviceDto,
+        @Req() request: Request
+    ): Promise<DeviceEnrollmentResponseDto> {
+        const { device, secret, configuration } = await this.enrollmentService.enroll(enrollDto, {
+            ipAddress: request.ip,
+            userAgent: request.headers['user-agent'],
+        });
+
+        return { deviceId: device.id, secret, configuration };
+    }
+
+    private toResponse(token: DeviceEnrollmentToken): DeviceEnrollmentTokenResponseDto {
+        return {
+            id: token.id,
+            organizationId: token.organizationId,
+            branchId: token.branchId,
+            deviceType: token.deviceType,
+            status: token.status,
+            expiresAt: token.expiresAt,
+            createdByUserId: token.createdByUserId,
+            usedAt: token.usedAt,
+            usedByDeviceId: token.usedByDeviceId,
+            revokedAt: token.revokedAt,
+            createdAt: token.createdAt,
+        };
+    }
+}
@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import {
+    Device,
+    DeviceEnrollmentToken,
+    DeviceEnrollmentTokenStatus,
+    DeviceType,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export interface EnrolledDeviceData {
+    name: string;
+    type: DeviceType;
+    macAddress: string;
+    model?: string;
+    firmwareVersion?: string;
+    ipAddress?: string;
+    encryptedSigningKey: string;
+}
+
+@Injectable()
+export class DeviceEnrollmentRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: {
+            branchId: string;
+            deviceType?: DeviceType;
+            tokenHash: string;
+            expiresAt: Date;
+            createdByUserId: string;
+        },
+        scope: DataScope
+    ): Promise<DeviceEnrollmentToken> {
+        return this.prisma.deviceEnrollmentToken.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<DeviceEnrollmentToken | null> {
+        return this.prisma.deviceEnrollmentToken.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+        });
+    }
+
+    async findMany(
+        filters: { status?: DeviceEnrollmentTokenStatus },
+        scope: DataScope
+    ): Promise<DeviceEnrollmentToken[]> {
+        const where: Prisma.DeviceEnrollmentTokenWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+        };
+
+        if (filters.status) {
+            where.status = filters.status;
+        }
+
+        return this.prisma.deviceEnrollmentToken.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Look a token up by its hash; the device is not signed in to any organization yet
+     */
+    async findByTokenHash(tokenHash: string): Promise<DeviceEnrollmentToken | null> {
+        return this.prisma.deviceEnrollmentToken.findUnique({
+            where: { tokenHash },
+        });
+    }
+
+    /**
+     * Active tokens past their expiry that are not marked expired yet
+     */
+    async findLapsed(scope?: DataScope): Promise<DeviceEnrollmentToken[]> {
+        return this.prisma.deviceEnrollmentToken.findMany({
+            where: {
+                ...(scope && QueryBuilder.buildBranchScope(scope)),
+                status: 'ACTIVE',
+                expiresAt: { lte: new Date() },
+            },
+        });
+    }
+
+    /**
+     * MAC addresses are unique across organizations, so the device is looked up unscoped
+     */
+    async findDeviceByMacAddress(macAddress: string): Promise<Device | null> {
+        return this.prisma.device.findUnique({
+            where: { macAddress },
+        });
+    }
+
+    async findBranchSettings(branchId: string, organizationId: string) {
+        return this.prisma.branch.findFirst({
+            where: { id: branchId, organizationId },
+            select: {
+                id: true,
+                timezone: true,
+                organization: {
+                    select: { timezone: true },
+                },
+            },
+        });
+    }
+
+    /**
+     * Move an active token to the given status. Returns false when the token is no longer
+     * active, so concurrent changes are applied only once.
+     */
+    async close(
+        id: string,
+        status: 'EXPIRED' | 'REVOKED',
+        data: Prisma.DeviceEnrollmentTokenUpdateManyMutationInput = {}
+    ): Promise<boolean> {
+        const { count } = await this.prisma.deviceEnrollmentToken.updateMany({
+            where: { id, status: 'ACTIVE' },
+            data: { ...data, status },
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Use up the token and create the device, or move the existing device with the same MAC
+     * address to the token's branch, in one transaction. Returns null when the token was used
+     * or has expired in the meantime.
+     */
+    async enroll(
+        token: DeviceEnrollmentToken,
+        existingDevice: Device | null,
+        data: EnrolledDeviceData
+    ): Promise<Device | null> {
+        return this.prisma.$transaction(async tx => {
+            const now = new Date();
+            const { count } = await tx.deviceEnrollmentToken.updateMany({
+                where: { id: token.id, status: 'ACTIVE', expiresAt: { gt: now } },
+                data: { status: 'USED', usedAt: now },
+            });
+            if (!count) {
+                return null;
+            }
+
+            const secret = {
+                encryptedSigningKey: data.encryptedSigningKey,
+                secretIssuedAt: now,
+                previousEncryptedSigningKey: null,
+                previousSecretExpiresAt: null,
+            };
+
+            const device = existingDevice
+                ? await tx.device.update({
+                      where: { id: existingDevice.id },
+                      data: {
+                          branchId: token.branchId,
+                          model: data.model ?? existingDevice.model,
+                          firmwareVersion: data.firmwareVersion ?? existingDevice.firmwareVersion,
+                          ipAddress: data.ipAddress ?? existingDevice.ipAddress,
+                          isActive: true,
+                          ...secret,
+                      },
+                  })
+                : await tx.device.create({
+                      data: {
+                          organizationId: token.organizationId,
+                          branchId: token.branchId,
+                          name: data.name,
+                          type: data.type,
+                          macAddress: data.macAddress,
+                          model: data.model,
+                          firmwareVersion: data.firmwareVersion,
+                          ipAddress: data.ipAddress,
+                          ...secret,
+                      },
+                  });
+
+            await tx.deviceEnrollmentToken.update({
+                where: { id: token.id },
+                data: { usedByDeviceId: device.id },
+            });
+
+            return device;
+        });
+    }
+}
@@ -0,0 +1,321 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { DeviceEnrollmentService } from './device-enrollment.service';
+import { DeviceEnrollmentRepository } from './device-enrollment.repository';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { AuditLogService } from '@/shared/services/audit-log.service';
+import { DataScope } from '@/shared/interfaces';
+import { DeviceSignatureUtil } from '@/shared/utils';
+
+describe('DeviceEnrollmentService', () => {
+    let service: DeviceEnrollmentService;
+    let enrollmentRepository: jest.Mocked<DeviceEnrollmentRepository>;
+    let auditLogService: jest.Mocked<AuditLogService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const encryptionKey = 'test-device-secret-encryption-key-of-32-chars';
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockToken = {
+        id: 'token-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        tokenHash: 'a'.repeat(64),
+        deviceType: 'CARD_READER' as const,
+        status: 'ACTIVE' as const,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        createdByUserId: 'user-123',
+        usedAt: null,
+        usedByDeviceId: null,
+        revokedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        name: 'DS-K1T671M 00:1B:44:11:3A:B7',
+        deviceIdentifier: null,
+        type: 'CARD_READER' as const,
+        ipAddress: null,
+        macAddress: '00:1B:44:11:3A:B7',
+        model: 'DS-K1T671M',
+        firmwareVersion: 'V3.2.30',
+        description: null,
+        status: 'ONLINE' as const,
+        isActive: true,
+        lastSeenAt: null,
+        lastSeen: null,
+        uptimeSeconds: null,
+        healthMetrics: null,
+        pushAllowedAddresses: [],
+        encryptedSigningKey: 'b'.repeat(64),
+        secretIssuedAt: new Date(),
+        previousEncryptedSigningKey: null,
+        previousSecretExpiresAt: null,
+        configurationProfileId: null,
+        appliedConfigurationVersion: null,
+        configurationAppliedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const enrollDto = {
+        token: 'k7qm-3xvd-9pwh',
+        macAddress: '00:1B:44:11:3A:B7',
+        model: 'DS-K1T671M',
+        firmwareVersion: 'V3.2.30',
+    };
+
+    beforeEach(async () => {
+        const mockEnrollmentRepository = {
+            create: jest.fn().mockResolvedValue(mockToken),
+            findById: jest.fn().mockResolvedValue(mockToken),
+            findMany: jest.fn().mockResolvedValue([mockToken]),
+            findByTokenHash: jest.fn().mockResolvedValue(mockToken),
+            findLapsed: jest.fn().mockResolvedValue([]),
+            findDeviceByMacAddress: jest.fn().mockResolvedValue(null),
+            findBranchSettings: jest.fn().mockResolvedValue({
+                id: 'branch-123',
+                timezone: 'Asia/Tashkent',
+                organization: { timezone: 'UTC' },
+            }),
+            close: jest.fn().mockResolvedValue(true),
+            enroll: jest.fn().mockResolvedValue(mockDevice),
+        };
+
+        const mockAuditLogService = {
+            createAuditLog: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+            logSecurityEvent: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceEnrollmentService,
+                {
+                    provide: DeviceEnrollmentRepository,
+                    useValue: mockEnrollmentRepository,
+                },
+                {
+                    provide: AuditLogService,
+                    useValue: mockAuditLogService,
+                },
+                {
+                    provide: ConfigService,
+                    useValue: { deviceSecretEncryptionKey: encryptionKey },
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<DeviceEnrollmentService>(DeviceEnrollmentService);
+        enrollmentRepository = module.get(DeviceEnrollmentRepository);
+        auditLogService = module.get(AuditLogService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createToken', () => {
+        it('should store only the hash of the code', async () => {
+            const { code } = await service.createToken(
+                { branchId: 'branch-123', expiresInMinutes: 30 },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(code).toMatch(/^[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}$/);
+            const [data] = enrollmentRepository.create.mock.calls[0];
+            expect(data.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+            expect(data.tokenHash).not.toContain(code);
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'CREATE', resourceId: 'token-123' })
+            );
+        });
+
+        it('should reject branches outside the scope', async () => {
+            await expect(
+                service.createToken({ branchId: 'branch-456' }, mockDataScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(enrollmentRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('revokeToken', () => {
+        it('should only revoke active tokens', async () => {
+            enrollmentRepository.findById.mockResolvedValue({ ...mockToken, status: 'USED' });
+
+            await expect(
+                service.revokeToken('token-123', mockDataScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(enrollmentRepository.close).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('expireLapsedTokens', () => {
+        it('should audit each token that expired', async () => {
+            enrollmentRepository.findLapsed.mockResolvedValue([mockToken, mockToken]);
+            enrollmentRepository.close.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+            const expired = await service.expireLapsedTokens(mockDataScope);
+
+            expect(expired).toBe(1);
+            expect(auditLogService.createAuditLog).toHaveBeenCalledTimes(1);
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'EXPIRE', organizationId: 'org-123' })
+            );
+        });
+
+        it('should expire the tokens of every organization without a scope', async () => {
+            enrollmentRepository.findLapsed.mockResolvedValue([mockToken]);
+            enrollmentRepository.close.mockResolvedValue(true);
+
+            await expect(service.expireLapsedTokens()).resolves.toBe(1);
+            expect(enrollmentRepository.findLapsed).toHaveBeenCalledWith(undefined);
+        });
+    });
+
+    describe('enroll', () => {
+        it('should create the device, issue its secret and return its configuration', async () => {
+            const result = await service.enroll(enrollDto, { ipAddress: '10.0.0.5' });
+
+            const [token, existingDevice, data] = enrollmentRepository.enroll.mock.calls[0];
+            expect(token).toBe(mockToken);
+            expect(existingDevice).toBeNull();
+            expect(data).toEqual(
+                expect.objectContaining({
+                    name: 'DS-K1T671M 00:1B:44:11:3A:B7',
+                    type: 'CARD_READER',
+                })
+            );
+            expect(
+                DeviceSignatureUtil.decryptSigningKey(data.encryptedSigningKey, encryptionKey)
+            ).toBe(DeviceSignatureUtil.deriveSigningKey(result.secret));
+            expect(result.configuration).toEqual({
+                deviceId: 'device-123',
+                settings: expect.objectContaining({
+                    branchId: 'branch-123',
+                    timezone: 'Asia/Tashkent',
+                }),
+            });
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'ENROLL',
+                    status: 'SUCCESS',
+                    ipAddress: '10.0.0.5',
+                })
+            );
+        });
+
+        it('should accept the code without dashes or case', async () => {
+            await service.enroll(enrollDto);
+            await service.enroll({ ...enrollDto, token: 'K7QM3XVD9PWH' });
+
+            const [[firstHash], [secondHash]] = enrollmentRepository.findByTokenHash.mock.calls;
+            expect(secondHash).toBe(firstHash);
+        });
+
+        it('should claim an existing device of the organization', async () => {
+            enrollmentRepository.findDeviceByMacAddress.mockResolvedValue({
+                ...mockDevice,
+                branchId: 'branch-456',
+                encryptedSigningKey: null,
+            });
+
+            await service.enroll(enrollDto);
+
+            expect(enrollmentRepository.enroll).toHaveBeenCalledWith(
+                mockToken,
+                expect.objectContaining({ id: 'device-123' }),
+                expect.any(Object)
+            );
+        });
+
+        it('should not claim a device of another organization', async () => {
+            enrollmentRepository.findDeviceByMacAddress.mockResolvedValue({
+                ...mockDevice,
+                organizationId: 'org-456',
+            });
+
+            await expect(service.enroll(enrollDto)).rejects.toThrow(ConflictException);
+            expect(enrollmentRepository.enroll).not.toHaveBeenCalled();
+        });
+
+        it('should not claim a device that is already enrolled', async () => {
+            enrollmentRepository.findDeviceByMacAddress.mockResolvedValue(mockDevice);
+
+            await expect(service.enroll(enrollDto)).rejects.toThrow(
+                new ConflictException('Device with this MAC address is already enrolled')
+            );
+            expect(enrollmentRepository.enroll).not.toHaveBeenCalled();
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'ENROLL', status: 'FAILED' })
+            );
+        });
+
+        it('should reject and audit an unknown or used token', async () => {
+            enrollmentRepository.findByTokenHash.mockResolvedValue({
+                ...mockToken,
+                status: 'USED',
+            });
+
+            await expect(service.enroll(enrollDto)).rejects.toThrow(
+                new UnauthorizedException('Invalid enrollment token')
+            );
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'ENROLL',
+                    status: 'FAILED',
+                    errorMessage: 'Invalid enrollment token',
+                })
+            );
+            expect(loggerService.logSecurityEvent).toHaveBeenCalledWith(
+                'DEVICE_ENROLLMENT_FAILED',
+                expect.objectContaining({ macAddress: '00:1B:44:11:3A:B7' }),
+                undefined,
+                'org-123'
+            );
+        });
+
+        it('should expire a lapsed token and reject it', async () => {
+            enrollmentRepository.findByTokenHash.mockResolvedValue({
+                ...mockToken,
+                expiresAt: new Date(Date.now() - 1000),
+            });
+
+            await expect(service.enroll(enrollDto)).rejects.toThrow(
+                new UnauthorizedException('Enrollment token has expired')
+            );
+            expect(enrollmentRepository.close).toHaveBeenCalledWith('token-123', 'EXPIRED');
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'EXPIRE' })
+            );
+        });
+
+        it('should reject a token used by another device in the meantime', async () => {
+            enrollmentRepository.enroll.mockResolvedValue(null);
+
+            await expect(service.enroll(enrollDto)).rejects.toThrow(UnauthorizedException);
+        });
+    });
+});
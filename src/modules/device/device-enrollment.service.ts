@@ -0,0 +1,403 @@
+import {
+    BadRequestException,
+    ConflictException,
+    HttpException,
+    Injectable,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
+import { Device, DeviceEnrollmentToken, DeviceEnrollmentTokenStatus } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { DeviceEnrollmentRepository } from './device-enrollment.repository';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { AuditLogService, CreateAuditLogData } from '@/shared/services/audit-log.service';
+import { CreateDeviceEnrollmentTokenDto, EnrollDeviceDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DeviceConfiguration } from '@/shared/adapters/device.adapter';
+import { DEVICE_REQUEST_TOLERANCE_MS, DatabaseUtil, DeviceSignatureUtil } from '@/shared/utils';
+
+const AUDIT_RESOURCE = 'device_enrollment';
+const TOKENS_URL = '/api/v1/device-enrollment/tokens';
+const ENROLL_URL = '/api/v1/device-enrollment/enroll';
+
+/** Characters of enrollment codes; no 0/O or 1/I so codes can be typed in on a keypad */
+const CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 12;
+const DEFAULT_TOKEN_TTL_MINUTES = 60;
+
+export interface EnrollmentRequestContext {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+@Injectable()
+export class DeviceEnrollmentService {
+    constructor(
+        private readonly enrollmentRepository: DeviceEnrollmentRepository,
+        private readonly auditLogService: AuditLogService,
+        private readonly configService: ConfigService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Issue a one-time enrollment code for a branch. Only its hash is stored, so the code is
+     * returned once.
+     */
+    async createToken(
+        createTokenDto: CreateDeviceEnrollmentTokenDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<{ token: DeviceEnrollmentToken; code: string }> {
+        if (scope.branchIds && !scope.branchIds.includes(createTokenDto.branchId)) {
+            throw new BadRequestException('Branch not accessible within your scope');
+        }
+
+        const branch = await this.enrollmentRepository.findBranchSettings(
+            createTokenDto.branchId,
+            scope.organizationId
+        );
+        if (!branch) {
+            throw new NotFoundException('Branch not found');
+        }
+
+        const code = this.generateCode();
+        const expiresInMinutes = createTokenDto.expiresInMinutes ?? DEFAULT_TOKEN_TTL_MINUTES;
+        const token = await this.enrollmentRepository.create(
+            {
+                branchId: createTokenDto.branchId,
+                deviceType: createTokenDto.deviceType,
+                tokenHash: this.hashCode(code),
+                expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+                createdByUserId,
+            },
+            scope
+        );
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'DEVICE_ENROLLMENT_TOKEN_CREATED',
+            { tokenId: token.id, branchId: token.branchId, expiresAt: token.expiresAt },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit({
+            action: 'CREATE',
+            resourceId: token.id,
+            userId: createdByUserId,
+            organizationId: scope.organizationId,
+            method: 'POST',
+            url: TOKENS_URL,
+            status: 'SUCCESS',
+            newValues: {
+                branchId: token.branchId,
+                deviceType: token.deviceType,
+                expiresAt: token.expiresAt,
+            },
+        });
+
+        return { token, code };
+    }
+
+    async getTokens(
+        filters: { status?: DeviceEnrollmentTokenStatus },
+        scope: DataScope
+    ): Promise<DeviceEnrollmentToken[]> {
+        await this.expireLapsedTokens(scope);
+
+        return this.enrollmentRepository.findMany(filters, scope);
+    }
+
+    async revokeToken(
+        id: string,
+        scope: DataScope,
+        revokedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const token = await this.enrollmentRepository.findById(id, scope);
+        if (!token) {
+            throw new NotFoundException('Enrollment token not found');
+        }
+
+        const revokedAt = new Date();
+        const revoked =
+            token.status === 'ACTIVE' &&
+            (await this.enrollmentRepository.close(id, 'REVOKED', { revokedAt }));
+        if (!revoked) {
+            throw new BadRequestException('Only active enrollment tokens can be revoked');
+        }
+
+        this.logger.logUserAction(
+            revokedByUserId,
+            'DEVICE_ENROLLMENT_TOKEN_REVOKED',
+            { tokenId: id, branchId: token.branchId },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit({
+            action: 'REVOKE',
+            resourceId: id,
+            userId: revokedByUserId,
+            organizationId: scope.organizationId,
+            method: 'DELETE',
+            url: `${TOKENS_URL}/${id}`,
+            status: 'SUCCESS',
+            oldValues: { status: token.status },
+            newValues: { status: 'REVOKED', revokedAt },
+        });
+    }
+
+    /**
+     * Mark the tokens that ran out unused as expired, recording each in the audit log.
+     * Without a scope the tokens of every organization are expired, as the scheduled job on
+     * the system-health queue does.
+     */
+    async expireLapsedTokens(scope?: DataScope): Promise<number> {
+        const lapsedTokens = await this.enrollmentRepository.findLapsed(scope);
+
+        let expired = 0;
+        for (const token of lapsedTokens) {
+            if (await this.expireToken(token)) {
+                expired++;
+            }
+        }
+
+        return expired;
+    }
+
+    /**
+     * Enroll a device with a code: create its device record, or claim the organization's
+     * existing record with the same MAC address if no secret was issued to it yet, issue its
+     * signing secret and return its initial configuration. Every attempt is audited.
+     */
+    async enroll(
+        enrollDto: EnrollDeviceDto,
+        context: EnrollmentRequestContext = {}
+    ): Promise<{ device: Device; secret: string; configuration: DeviceConfiguration }> {
+        const token = await this.enrollmentRepository.findByTokenHash(
+            this.hashCode(enrollDto.token)
+        );
+        if (!token || token.status !== 'ACTIVE') {
+            return this.rejectEnrollment(
+                new UnauthorizedException('Invalid enrollment token'),
+                enrollDto,
+                context,
+                token
+            );
+        }
+
+        if (token.expiresAt <= new Date()) {
+            await this.expireToken(token);
+
+            return this.rejectEnrollment(
+                new UnauthorizedException('Enrollment token has expired'),
+                enrollDto,
+                context,
+                token
+            );
+        }
+
+        const existingDevice = await this.enrollmentRepository.findDeviceByMacAddress(
+            enrollDto.macAddress
+        );
+        if (existingDevice && existingDevice.organizationId !== token.organizationId) {
+            return this.rejectEnrollment(
+                new ConflictException('Device with this MAC address already exists'),
+                enrollDto,
+                context,
+                token
+            );
+        }
+
+        // A device that holds a secret is enrolled; a code must not take it over
+        if (existingDevice?.encryptedSigningKey) {
+            return this.rejectEnrollment(
+                new ConflictException('Device with this MAC address is already enrolled'),
+                enrollDto,
+                context,
+                token
+            );
+        }
+
+        const secret = DeviceSignatureUtil.generateSecret();
+        let device: Device | null;
+        try {
+            device = await this.enrollmentRepository.enroll(token, existingDevice, {
+                name: enrollDto.name || `${enrollDto.model || 'Device'} ${enrollDto.macAddress}`,
+                type: token.deviceType || 'OTHER',
+                macAddress: enrollDto.macAddress,
+                model: enrollDto.model,
+                firmwareVersion: enrollDto.firmwareVersion,
+                ipAddress: enrollDto.ipAddress,
+                encryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(
+                    DeviceSignatureUtil.deriveSigningKey(secret),
+                    this.configService.deviceSecretEncryptionKey
+                ),
+            });
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                const fields = DatabaseUtil.getUniqueConstraintFields(error);
+                return this.rejectEnrollment(
+                    new ConflictException(`Device with this ${fields.join(', ')} already exists`),
+                    enrollDto,
+                    context,
+                    token
+                );
+            }
+            throw error;
+        }
+
+        if (!device) {
+            return this.rejectEnrollment(
+                new UnauthorizedException('Invalid enrollment token'),
+                enrollDto,
+                context,
+                token
+            );
+        }
+
+        this.logger.log('Device enrolled', {
+            deviceId: device.id,
+            tokenId: token.id,
+            organizationId: token.organizationId,
+            branchId: token.branchId,
+            claimed: !!existingDevice,
+            module: 'device-enrollment',
+        });
+
+        await this.audit({
+            action: 'ENROLL',
+            resourceId: token.id,
+            organizationId: token.organizationId,
+            method: 'POST',
+            url: ENROLL_URL,
+            status: 'SUCCESS',
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            oldValues: existingDevice ? { branchId: existingDevice.branchId } : undefined,
+            newValues: {
+                deviceId: device.id,
+                branchId: device.branchId,
+                macAddress: device.macAddress,
+                model: device.model,
+                firmwareVersion: device.firmwareVersion,
+                claimed: !!existingDevice,
+            },
+        });
+
+        return {
+            device,
+            secret,
+            configuration: await this.buildInitialConfiguration(device),
+        };
+    }
+
+    /**
+     * Settings a device needs to start sending events: where to, in which time zone and how
+     * to sign its requests
+     */
+    private async buildInitialConfiguration(device: Device): Promise<DeviceConfiguration> {
+        const branch = await this.enrollmentRepository.findBranchSettings(
+            device.branchId,
+            device.organizationId
+        );
+
+        return {
+            deviceId: device.id,
+            settings: {
+                organizationId: device.organizationId,
+                branchId: device.branchId,
+                timezone: branch?.timezone || branch?.organization.timezone || 'UTC',
+                eventEndpoint: '/api/v1/events/raw',
+                signature: {
+                    algorithm: 'HMAC-SHA256',
+                    key: 'SHA-256 of the secret, hex encoded',
+                    headers: ['x-device-id', 'x-device-signature', 'x-timestamp', 'x-nonce'],
+                    timestampToleranceSeconds: DEVICE_REQUEST_TOLERANCE_MS / 1000,
+                },
+            },
+        };
+    }
+
+    private async expireToken(token: DeviceEnrollmentToken): Promise<boolean> {
+        const expired = await this.enrollmentRepository.close(token.id, 'EXPIRED');
+        if (expired) {
+            await this.audit({
+                action: 'EXPIRE',
+                resourceId: token.id,
+                organizationId: token.organizationId,
+                method: 'SYSTEM',
+                url: `${TOKENS_URL}/${token.id}`,
+                status: 'SUCCESS',
+                oldValues: { status: token.status },
+                newValues: { status: 'EXPIRED', expiresAt: token.expiresAt },
+            });
+        }
+
+        return expired;
+    }
+
+    private async rejectEnrollment(
+        error: HttpException,
+        enrollDto: EnrollDeviceDto,
+        context: EnrollmentRequestContext,
+        token: DeviceEnrollmentToken | null
+    ): Promise<never> {
+        this.logger.logSecurityEvent(
+            'DEVICE_ENROLLMENT_FAILED',
+            { reason: error.message, tokenId: token?.id, macAddress: enrollDto.macAddress },
+            undefined,
+            token?.organizationId
+        );
+
+        await this.audit({
+            action: 'ENROLL',
+            resourceId: token?.id,
+            organizationId: token?.organizationId,
+            method: 'POST',
+            url: ENROLL_URL,
+            status: 'FAILED',
+            errorMessage: error.message,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            requestData: {
+                macAddress: enrollDto.macAddress,
+                model: enrollDto.model,
+                firmwareVersion: enrollDto.firmwareVersion,
+            },
+        });
+
+        throw error;
+    }
+
+    private generateCode(): string {
+        // 256 is a multiple of the alphabet size, so every character is equally likely
+        const characters = Array.from(
+            randomBytes(CODE_LENGTH),
+            byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+        ).join('');
+
+        return characters.match(/.{4}/g).join('-');
+    }
+
+    /**
+     * Codes are compared without dashes, spaces or case, as they may be typed in by hand
+     */
+    private hashCode(code: string): string {
+        return createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+    }
+
+    private async audit(
+        data: Omit<CreateAuditLogData, 'resource' | 'duration' | 'timestamp'>
+    ): Promise<void> {
+        await this.auditLogService.createAuditLog({
+            ...data,
+            resource: AUDIT_RESOURCE,
+            duration: 0,
+            timestamp: new Date(),
+        });
+    }
+}
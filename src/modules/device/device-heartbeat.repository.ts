@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import { Device, DeviceStatus, DeviceStatusHistory, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+@Injectable()
+export class DeviceHeartbeatRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Mark the device as seen, keeping what the heartbeat reported
+     */
+    async recordHeartbeat(
+        id: string,
+        seenAt: Date,
+        data: {
+            uptimeSeconds?: number;
+            firmwareVersion?: string;
+            ipAddress?: string;
+            healthMetrics?: Prisma.InputJsonValue;
+        }
+    ): Promise<Device> {
+        return this.prisma.device.update({
+            where: { id },
+            data: {
+                lastSeenAt: seenAt,
+                lastSeen: seenAt,
+                uptimeSeconds: data.uptimeSeconds,
+                firmwareVersion: data.firmwareVersion,
+                ipAddress: data.ipAddress,
+                healthMetrics: data.healthMetrics,
+            },
+        });
+    }
+
+    /**
+     * Active devices of all organizations in one of the given statuses that have not been seen
+     * since the given time. Devices that were never seen are left alone.
+     */
+    async findStale(seenBefore: Date, statuses: DeviceStatus[]): Promise<Device[]> {
+        return this.prisma.device.findMany({
+            where: {
+                isActive: true,
+                status: { in: statuses },
+                lastSeenAt: { lt: seenBefore },
+            },
+            orderBy: { lastSeenAt: 'asc' },
+        });
+    }
+
+    /**
+     * Move the device to the status and record the change. Returns null when the status was
+     * changed in the meantime, so a change is recorded only once.
+     */
+    async changeStatus(
+        device: Device,
+        toStatus: DeviceStatus,
+        reason: string
+    ): Promise<DeviceStatusHistory | null> {
+        return this.prisma.$transaction(async tx => {
+            const { count } = await tx.device.updateMany({
+                where: { id: device.id, status: device.status },
+                data: { status: toStatus },
+            });
+            if (!count) {
+                return null;
+            }
+
+            return tx.deviceStatusHistory.create({
+                data: {
+                    organizationId: device.organizationId,
+                    deviceId: device.id,
+                    branchId: device.branchId,
+                    fromStatus: device.status,
+                    toStatus,
+                    reason,
+                    lastSeenAt: device.lastSeenAt,
+                },
+            });
+        });
+    }
+
+    async findStatusHistory(
+        deviceId: string,
+        scope: DataScope,
+        limit: number
+    ): Promise<DeviceStatusHistory[]> {
+        return this.prisma.deviceStatusHistory.findMany({
+            where: {
+                deviceId,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    }
+
+    /**
+     * Email addresses of the active managers of the branch
+     */
+    async findBranchManagerEmails(branchId: string): Promise<string[]> {
+        const managedBranches = await this.prisma.managedBranch.findMany({
+            where: {
+                branchId,
+                manager: {
+                    role: 'BRANCH_MANAGER',
+                    user: { isActive: true },
+                },
+            },
+            select: {
+                manager: {
+                    select: {
+                        user: { select: { email: true } },
+                    },
+                },
+            },
+        });
+
+        return managedBranches.map(managedBranch => managedBranch.manager.user.email);
+    }
+}
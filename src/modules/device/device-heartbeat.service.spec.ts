@@ -0,0 +1,295 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { DeviceHeartbeatService, OFFLINE_AFTER_MS } from './device-heartbeat.service';
+import { DeviceHeartbeatRepository } from './device-heartbeat.repository';
+import { DeviceRepository } from './device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('DeviceHeartbeatService', () => {
+    let service: DeviceHeartbeatService;
+    let heartbeatRepository: jest.Mocked<DeviceHeartbeatRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let notificationAdapter: { sendEmail: jest.Mock };
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockDeviceContext = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        signature: 'a'.repeat(64),
+        timestamp: new Date().toISOString(),
+        authenticated: true as const,
+    };
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        name: 'Main Door Reader',
+        deviceIdentifier: null,
+        type: 'CARD_READER' as const,
+        ipAddress: null,
+        macAddress: '00:1B:44:11:3A:B7',
+        model: null,
+        firmwareVersion: null,
+        description: null,
+        status: 'ONLINE' as const,
+        isActive: true,
+        lastSeenAt: new Date(),
+        lastSeen: new Date(),
+        uptimeSeconds: null,
+        healthMetrics: null,
+        pushAllowedAddresses: [],
+        encryptedSigningKey: null,
+        secretIssuedAt: null,
+        previousEncryptedSigningKey: null,
+        previousSecretExpiresAt: null,
+        configurationProfileId: null,
+        appliedConfigurationVersion: null,
+        configurationAppliedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const historyFor = (fromStatus: any, toStatus: any) => ({
+        id: 'history-123',
+        organizationId: 'org-123',
+        deviceId: 'device-123',
+        branchId: 'branch-123',
+        fromStatus,
+        toStatus,
+        reason: 'reason',
+        lastSeenAt: mockDevice.lastSeenAt,
+        createdAt: new Date(),
+    });
+
+    beforeEach(async () => {
+        const mockHeartbeatRepository = {
+            recordHeartbeat: jest.fn().mockResolvedValue(mockDevice),
+            findStale: jest.fn().mockResolvedValue([]),
+            changeStatus: jest.fn((device, toStatus) =>
+                Promise.resolve(historyFor(device.status, toStatus))
+            ),
+            findStatusHistory: jest.fn().mockResolvedValue([]),
+            findBranchManagerEmails: jest.fn().mockResolvedValue(['manager@example.com']),
+        };
+
+        const mockDeviceRepository = {
+            findById: jest.fn().mockResolvedValue(mockDevice),
+        };
+
+        const mockNotificationAdapter = {
+            sendEmail: jest.fn().mockResolvedValue({ success: true }),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceHeartbeatService,
+                {
+                    provide: DeviceHeartbeatRepository,
+                    useValue: mockHeartbeatRepository,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: 'INotificationAdapter',
+                    useValue: mockNotificationAdapter,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<DeviceHeartbeatService>(DeviceHeartbeatService);
+        heartbeatRepository = module.get(DeviceHeartbeatRepository);
+        deviceRepository = module.get(DeviceRepository);
+        notificationAdapter = module.get('INotificationAdapter');
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('recordHeartbeat', () => {
+        it('should keep an online device online without a status change', async () => {
+            const result = await service.recordHeartbeat(mockDeviceContext, {
+                uptimeSeconds: 3600,
+                firmwareVersion: 'V3.2.30',
+                metrics: { cpuUsage: 12 },
+            });
+
+            expect(heartbeatRepository.recordHeartbeat).toHaveBeenCalledWith(
+                'device-123',
+                expect.any(Date),
+                expect.objectContaining({
+                    uptimeSeconds: 3600,
+                    firmwareVersion: 'V3.2.30',
+                    healthMetrics: { cpuUsage: 12 },
+                })
+            );
+            expect(heartbeatRepository.changeStatus).not.toHaveBeenCalled();
+            expect(result).toEqual(
+                expect.objectContaining({ status: 'ONLINE', heartbeatIntervalSeconds: 60 })
+            );
+        });
+
+        it('should bring an offline device back online and notify the branch managers', async () => {
+            heartbeatRepository.recordHeartbeat.mockResolvedValue({
+                ...mockDevice,
+                status: 'OFFLINE',
+            });
+
+            await service.recordHeartbeat(mockDeviceContext, {});
+
+            expect(heartbeatRepository.changeStatus).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'OFFLINE' }),
+                'ONLINE',
+                'Heartbeat received'
+            );
+            expect(notificationAdapter.sendEmail).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    to: ['manager@example.com'],
+                    subject: 'Device "Main Door Reader" is ONLINE',
+                })
+            );
+        });
+
+        it('should mark a device reporting issues as degraded', async () => {
+            const result = await service.recordHeartbeat(mockDeviceContext, {
+                metrics: { issues: ['Door sensor disconnected'] },
+            });
+
+            expect(heartbeatRepository.changeStatus).toHaveBeenCalledWith(
+                expect.any(Object),
+                'DEGRADED',
+                'Device reported: Door sensor disconnected'
+            );
+            expect(result.status).toBe('DEGRADED');
+        });
+
+        it('should leave devices in maintenance alone', async () => {
+            heartbeatRepository.recordHeartbeat.mockResolvedValue({
+                ...mockDevice,
+                status: 'maintenance',
+            });
+
+            const result = await service.recordHeartbeat(mockDeviceContext, {});
+
+            expect(heartbeatRepository.changeStatus).not.toHaveBeenCalled();
+            expect(result.status).toBe('maintenance');
+        });
+    });
+
+    describe('recordActivity', () => {
+        it('should mark the device as seen and leave a degraded device degraded', async () => {
+            heartbeatRepository.recordHeartbeat.mockResolvedValue({
+                ...mockDevice,
+                status: 'DEGRADED',
+            });
+
+            await service.recordActivity(mockDeviceContext);
+
+            expect(heartbeatRepository.recordHeartbeat).toHaveBeenCalledWith(
+                'device-123',
+                expect.any(Date),
+                {}
+            );
+            expect(heartbeatRepository.changeStatus).not.toHaveBeenCalled();
+            expect(notificationAdapter.sendEmail).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('detectStaleDevices', () => {
+        it('should flip silent devices offline and late ones to degraded', async () => {
+            const silentDevice = {
+                ...mockDevice,
+                id: 'device-silent',
+                lastSeenAt: new Date(Date.now() - OFFLINE_AFTER_MS - 60000),
+            };
+            const lateDevice = {
+                ...mockDevice,
+                id: 'device-late',
+                lastSeenAt: new Date(Date.now() - 4 * 60000),
+            };
+            heartbeatRepository.findStale
+                .mockResolvedValueOnce([silentDevice])
+                .mockResolvedValueOnce([lateDevice]);
+
+            const result = await service.detectStaleDevices();
+
+            expect(result).toEqual({ degraded: 1, offline: 1 });
+            expect(heartbeatRepository.findStale).toHaveBeenNthCalledWith(1, expect.any(Date), [
+                'ONLINE',
+                'online',
+                'DEGRADED',
+            ]);
+            expect(heartbeatRepository.changeStatus).toHaveBeenCalledWith(
+                silentDevice,
+                'OFFLINE',
+                'No heartbeat for 11 minutes'
+            );
+            expect(heartbeatRepository.changeStatus).toHaveBeenCalledWith(
+                lateDevice,
+                'DEGRADED',
+                'No heartbeat for 4 minutes'
+            );
+        });
+
+        it('should not count or notify a change made in the meantime', async () => {
+            heartbeatRepository.findStale.mockResolvedValueOnce([
+                { ...mockDevice, lastSeenAt: new Date(Date.now() - OFFLINE_AFTER_MS - 60000) },
+            ]);
+            heartbeatRepository.changeStatus.mockResolvedValue(null);
+
+            const result = await service.detectStaleDevices();
+
+            expect(result).toEqual({ degraded: 0, offline: 0 });
+            expect(notificationAdapter.sendEmail).not.toHaveBeenCalled();
+        });
+
+        it('should keep the status change when the notification fails', async () => {
+            heartbeatRepository.findStale.mockResolvedValueOnce([
+                { ...mockDevice, lastSeenAt: new Date(Date.now() - OFFLINE_AFTER_MS - 60000) },
+            ]);
+            notificationAdapter.sendEmail.mockRejectedValue(new Error('SMTP down'));
+
+            const result = await service.detectStaleDevices();
+
+            expect(result.offline).toBe(1);
+            expect(loggerService.error).toHaveBeenCalledWith(
+                'Failed to notify branch managers of a device status change',
+                expect.any(Error),
+                expect.objectContaining({ deviceId: 'device-123' })
+            );
+        });
+    });
+
+    describe('getStatusHistory', () => {
+        it('should throw NotFoundException for devices outside the scope', async () => {
+            deviceRepository.findById.mockResolvedValue(null);
+
+            await expect(service.getStatusHistory('device-456', mockDataScope)).rejects.toThrow(
+                NotFoundException
+            );
+            expect(heartbeatRepository.findStatusHistory).not.toHaveBeenCalled();
+        });
+    });
+});
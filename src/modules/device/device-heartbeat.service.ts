@@ -0,0 +1,189 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Device, DeviceStatus, DeviceStatusHistory } from '@prisma/client';
+import { DeviceHeartbeatRepository } from './device-heartbeat.repository';
+import { DeviceRepository } from './device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DeviceHeartbeatDto } from '@/shared/dto';
+import { DataScope, DeviceContext } from '@/shared/interfaces';
+import { INotificationAdapter } from '@/shared/adapters/notification.adapter';
+
+/** How often devices are asked to send a heartbeat */
+export const HEARTBEAT_INTERVAL_SECONDS = 60;
+/** Without a heartbeat for this long an online device is DEGRADED */
+export const DEGRADED_AFTER_MS = 3 * HEARTBEAT_INTERVAL_SECONDS * 1000;
+/** Without a heartbeat for this long a device is OFFLINE */
+export const OFFLINE_AFTER_MS = 10 * HEARTBEAT_INTERVAL_SECONDS * 1000;
+
+/** Statuses set by hand, which heartbeats and the offline detection leave alone */
+const MANUAL_STATUSES: DeviceStatus[] = ['maintenance', 'error', 'ERROR'];
+
+@Injectable()
+export class DeviceHeartbeatService {
+    constructor(
+        private readonly heartbeatRepository: DeviceHeartbeatRepository,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly logger: LoggerService,
+        @Inject('INotificationAdapter') private readonly notificationAdapter: INotificationAdapter
+    ) {}
+
+    /**
+     * Record a heartbeat; the device is back ONLINE, or DEGRADED while it reports issues
+     */
+    async recordHeartbeat(
+        device: Pick<DeviceContext, 'id'>,
+        heartbeatDto: DeviceHeartbeatDto
+    ): Promise<{ status: DeviceStatus; serverTime: Date; heartbeatIntervalSeconds: number }> {
+        const seenAt = new Date();
+        const updatedDevice = await this.heartbeatRepository.recordHeartbeat(device.id, seenAt, {
+            uptimeSeconds: heartbeatDto.uptimeSeconds,
+            firmwareVersion: heartbeatDto.firmwareVersion,
+            ipAddress: heartbeatDto.ipAddress,
+            healthMetrics: heartbeatDto.metrics ? { ...heartbeatDto.metrics } : undefined,
+        });
+
+        const issues = heartbeatDto.metrics?.issues || [];
+        const status: DeviceStatus = issues.length ? 'DEGRADED' : 'ONLINE';
+        if (updatedDevice.status !== status && !MANUAL_STATUSES.includes(updatedDevice.status)) {
+            await this.changeStatus(
+                updatedDevice,
+                status,
+                issues.length ? `Device reported: ${issues.join('; ')}` : 'Heartbeat received'
+            );
+        }
+
+        return {
+            status: MANUAL_STATUSES.includes(updatedDevice.status) ? updatedDevice.status : status,
+            serverTime: seenAt,
+            heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS,
+        };
+    }
+
+    /**
+     * Record that the device was heard from other than by a heartbeat, such as by publishing an
+     * event. Only keeps it from being taken for silent; its status is left to heartbeats.
+     */
+    async recordActivity(device: Pick<DeviceContext, 'id'>): Promise<void> {
+        await this.heartbeatRepository.recordHeartbeat(device.id, new Date(), {});
+    }
+
+    /**
+     * Flip devices whose heartbeats stopped to DEGRADED and, once they have been silent for
+     * longer, to OFFLINE. Runs as a scheduled job on the system-health queue.
+     */
+    async detectStaleDevices(): Promise<{ degraded: number; offline: number }> {
+        const now = Date.now();
+
+        const silentDevices = await this.heartbeatRepository.findStale(
+            new Date(now - OFFLINE_AFTER_MS),
+            ['ONLINE', 'online', 'DEGRADED']
+        );
+        let offline = 0;
+        for (const device of silentDevices) {
+            if (await this.changeStatus(device, 'OFFLINE', this.describeSilence(device, now))) {
+                offline++;
+            }
+        }
+
+        // The devices gone offline no longer match, leaving those between both thresholds
+        const lateDevices = await this.heartbeatRepository.findStale(
+            new Date(now - DEGRADED_AFTER_MS),
+            ['ONLINE', 'online']
+        );
+        let degraded = 0;
+        for (const device of lateDevices) {
+            if (await this.changeStatus(device, 'DEGRADED', this.describeSilence(device, now))) {
+                degraded++;
+            }
+        }
+
+        if (degraded || offline) {
+            this.logger.log('Device heartbeat check changed device statuses', {
+                degraded,
+                offline,
+                module: 'device-heartbeat',
+            });
+        }
+
+        return { degraded, offline };
+    }
+
+    async getStatusHistory(
+        deviceId: string,
+        scope: DataScope,
+        limit = 100
+    ): Promise<DeviceStatusHistory[]> {
+        const device = await this.deviceRepository.findById(deviceId, scope);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        return this.heartbeatRepository.findStatusHistory(deviceId, scope, limit);
+    }
+
+    private async changeStatus(
+        device: Device,
+        toStatus: DeviceStatus,
+        reason: string
+    ): Promise<DeviceStatusHistory | null> {
+        const history = await this.heartbeatRepository.changeStatus(device, toStatus, reason);
+        if (!history) {
+            return null;
+        }
+
+        this.logger.log('Device status changed', {
+            deviceId: device.id,
+            organizationId: device.organizationId,
+            fromStatus: history.fromStatus,
+            toStatus,
+            reason,
+            module: 'device-heartbeat',
+        });
+
+        await this.notifyBranchManagers(device, history);
+
+        return history;
+    }
+
+    /**
+     * Email the managers of the device's branch; a failed notification doesn't undo the change
+     */
+    private async notifyBranchManagers(
+        device: Device,
+        history: DeviceStatusHistory
+    ): Promise<void> {
+        try {
+            const recipients = await this.heartbeatRepository.findBranchManagerEmails(
+                device.branchId
+            );
+            if (!recipients.length) {
+                return;
+            }
+
+            await this.notificationAdapter.sendEmail({
+                to: recipients,
+                subject: `Device "${device.name}" is ${history.toStatus}`,
+                text:
+                    `The status of the device "${device.name}" changed from ` +
+                    `${history.fromStatus} to ${history.toStatus}: ${history.reason}.`,
+                templateData: {
+                    deviceId: device.id,
+                    branchId: device.branchId,
+                    fromStatus: history.fromStatus,
+                    toStatus: history.toStatus,
+                    lastSeenAt: history.lastSeenAt,
+                },
+            });
+        } catch (error) {
+            this.logger.error('Failed to notify branch managers of a device status change', error, {
+                deviceId: device.id,
+                historyId: history.id,
+            });
+        }
+    }
+
+    private describeSilence(device: Device, now: number): string {
+        const minutes = Math.floor((now - device.lastSeenAt.getTime()) / 60000);
+
+        return `No heartbeat for ${minutes} minutes`;
+    }
+}
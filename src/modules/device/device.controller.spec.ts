@@ -1,12 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { DeviceController } from './device.controller';
 import { DeviceService } from './device.service';
-import { CreateDeviceDto, DeviceCommandDto, UpdateDeviceDto } from '@/shared/dto';
+import { DeviceHeartbeatService } from './device-heartbeat.service';
+import { CreateDeviceDto, UpdateDeviceDto } from '@/shared/dto';
 import { DataScope, UserContext } from '@/shared/interfaces';
 
 describe('DeviceController', () => {
     let controller: DeviceController;
     let deviceService: jest.Mocked<DeviceService>;
+    let deviceHeartbeatService: jest.Mocked<DeviceHeartbeatService>;
 
     const mockUserContext: UserContext = {
         sub: 'user-123',
@@ -31,11 +33,22 @@ describe('DeviceController', () => {
         ipAddress: '192.168.1.100',
         macAddress: '00:11:22:33:44:55',
         model: 'Reader-X1',
+        firmwareVersion: 'V1.2.0',
         description: 'Main entrance card reader',
         status: 'ONLINE' as any,
         isActive: true,
         lastSeenAt: new Date(),
         lastSeen: new Date(),
+        uptimeSeconds: 3600,
+        healthMetrics: null,
+        pushAllowedAddresses: [],
+        encryptedSigningKey: 'a'.repeat(64),
+        secretIssuedAt: new Date(),
+        previousEncryptedSigningKey: null,
+        previousSecretExpiresAt: null,
+        configurationProfileId: null,
+        appliedConfigurationVersion: null,
+        configurationAppliedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
     };
@@ -56,8 +69,12 @@ describe('DeviceController', () => {
             getDeviceWithStats: jest.fn(),
             getDeviceHealth: jest.fn(),
             testDeviceConnection: jest.fn(),
-            sendDeviceCommand: jest.fn(),
             discoverDevices: jest.fn(),
+            rotateSecret: jest.fn(),
+        };
+
+        const mockDeviceHeartbeatService = {
+            getStatusHistory: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -67,11 +84,16 @@ describe('DeviceController', () => {
                     provide: DeviceService,
                     useValue: mockDeviceService,
                 },
+                {
+                    provide: DeviceHeartbeatService,
+                    useValue: mockDeviceHeartbeatService,
+                },
             ],
         }).compile();
 
         controller = module.get<DeviceController>(DeviceController);
         deviceService = module.get(DeviceService);
+        deviceHeartbeatService = module.get(DeviceHeartbeatService);
     });
 
     it('should be defined', () => {
@@ -361,40 +383,73 @@ describe('DeviceController', () => {
         });
     });
 
-    describe('sendDeviceCommand', () => {
-        it('should send command to device successfully', async () => {
-            const commandDto: DeviceCommandDto = {
-                command: 'unlock_door',
-                parameters: { duration: 5 },
-                timeout: 30,
-            };
-
-            const commandResult = {
-                success: true,
-                message: 'Command executed successfully',
-                executedAt: new Date(),
-            };
-
-            deviceService.sendDeviceCommand.mockResolvedValue(commandResult);
+    describe('rotateDeviceSecret', () => {
+        it('should return the new secret but never its hash', async () => {
+            const previousSecretExpiresAt = new Date(Date.now() + 60 * 60 * 1000);
+            deviceService.rotateSecret.mockResolvedValue({
+                device: {
+                    ...mockDevice,
+                    previousEncryptedSigningKey: 'b'.repeat(64),
+                    previousSecretExpiresAt,
+                },
+                secret: 'new-secret',
+            });
 
-            const result = await controller.sendDeviceCommand(
+            const result = await controller.rotateDeviceSecret(
                 'device-123',
-                commandDto,
+                {},
                 mockUserContext,
                 mockDataScope
             );
 
-            expect(deviceService.sendDeviceCommand).toHaveBeenCalledWith(
+            expect(deviceService.rotateSecret).toHaveBeenCalledWith(
                 'device-123',
-                {
-                    command: commandDto.command,
-                    parameters: commandDto.parameters,
-                    timeout: commandDto.timeout,
-                },
+                60,
                 mockDataScope,
                 mockUserContext.sub
             );
-            expect(result.success).toBe(true);
+            expect(result).toEqual({
+                deviceId: 'device-123',
+                secret: 'new-secret',
+                secretIssuedAt: mockDevice.secretIssuedAt,
+                previousSecretExpiresAt,
+            });
+        });
+    });
+
+    describe('getDeviceStatusHistory', () => {
+        it('should return the status changes of the device', async () => {
+            const change = {
+                id: 'history-123',
+                organizationId: 'org-123',
+                deviceId: 'device-123',
+                branchId: 'branch-123',
+                fromStatus: 'ONLINE' as const,
+                toStatus: 'OFFLINE' as const,
+                reason: 'No heartbeat for 10 minutes',
+                lastSeenAt: new Date(),
+                createdAt: new Date(),
+            };
+            deviceHeartbeatService.getStatusHistory.mockResolvedValue([change]);
+
+            const result = await controller.getDeviceStatusHistory('device-123', mockDataScope);
+
+            expect(deviceHeartbeatService.getStatusHistory).toHaveBeenCalledWith(
+                'device-123',
+                mockDataScope
+            );
+            expect(result).toEqual([
+                {
+                    id: 'history-123',
+                    deviceId: 'device-123',
+                    branchId: 'branch-123',
+                    fromStatus: 'ONLINE',
+                    toStatus: 'OFFLINE',
+                    reason: 'No heartbeat for 10 minutes',
+                    lastSeenAt: change.lastSeenAt,
+                    createdAt: change.createdAt,
+                },
+            ]);
         });
     });
 
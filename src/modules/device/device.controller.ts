@@ -20,13 +20,16 @@ import {
     ApiTags,
 } from '@nestjs/swagger';
 import { DeviceService } from './device.service';
+import { DeviceHeartbeatService } from './device-heartbeat.service';
 import {
     CreateDeviceDto,
-    DeviceCommandDto,
     DeviceDiscoveryResponseDto,
     DeviceResponseDto,
+    DeviceSecretResponseDto,
+    DeviceStatusHistoryResponseDto,
     PaginationDto,
     PaginationResponseDto,
+    RotateDeviceSecretDto,
     UpdateDeviceDto,
 } from '@/shared/dto';
 import { Permissions, Scope, User } from '@/shared/decorators';
@@ -36,7 +39,10 @@ import { DataScope, UserContext } from '@/shared/interfaces';
 @ApiBearerAuth()
 @Controller('devices')
 export class DeviceController {
-    constructor(private readonly deviceService: DeviceService) {}
+    constructor(
+        private readonly deviceService: DeviceService,
+        private readonly deviceHeartbeatService: DeviceHeartbeatService
+    ) {}
 
     private mapDeviceToResponse(device: any): DeviceResponseDto {
         return {
@@ -49,11 +55,13 @@ export class DeviceController {
             ipAddress: device.ipAddress,
             macAddress: device.macAddress,
             model: device.model,
+            firmwareVersion: device.firmwareVersion,
             description: device.description,
             status: device.status,
             isActive: device.isActive,
             lastSeen: device.lastSeen || device.lastSeenAt,
             lastSeenAt: device.lastSeenAt,
+            secretIssuedAt: device.secretIssuedAt,
             createdAt: device.createdAt,
             updatedAt: device.updatedAt,
         };
@@ -250,6 +258,35 @@ export class DeviceController {
         return this.deviceService.getDeviceHealth(id, scope);
     }
 
+    @Get(':id/status-history')
+    @Permissions('device:read:all')
+    @ApiOperation({ summary: 'Get the status changes of a specific device, latest first' })
+    @ApiParam({ name: 'id', description: 'ID of the device' })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of status changes.',
+        type: [DeviceStatusHistoryResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Device not found.' })
+    async getDeviceStatusHistory(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<DeviceStatusHistoryResponseDto[]> {
+        const history = await this.deviceHeartbeatService.getStatusHistory(id, scope);
+
+        return history.map(entry => ({
+            id: entry.id,
+            deviceId: entry.deviceId,
+            branchId: entry.branchId,
+            fromStatus: entry.fromStatus,
+            toStatus: entry.toStatus,
+            reason: entry.reason,
+            lastSeenAt: entry.lastSeenAt,
+            createdAt: entry.createdAt,
+        }));
+    }
+
     @Post(':id/test-connection')
     @Permissions('device:manage:managed')
     @ApiOperation({ summary: 'Test the connection to a device' })
@@ -261,31 +298,39 @@ export class DeviceController {
         return this.deviceService.testDeviceConnection(id, scope);
     }
 
-    @Post(':id/command')
-    @Permissions('device:manage:managed')
-    @ApiOperation({ summary: 'Send a command to a device' })
+    @Post(':id/secret/rotate')
+    @Permissions('device:secret:rotate')
+    @ApiOperation({
+        summary: 'Issue a new signing secret to a device, keeping the old one for a while',
+    })
     @ApiParam({ name: 'id', description: 'ID of the device' })
-    @ApiBody({ type: DeviceCommandDto })
-    @ApiResponse({ status: 200, description: 'The result of the command.' })
-    @ApiResponse({ status: 400, description: 'Invalid command.' })
+    @ApiBody({ type: RotateDeviceSecretDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The new secret; it is not shown again.',
+        type: DeviceSecretResponseDto,
+    })
     @ApiResponse({ status: 403, description: 'Forbidden.' })
     @ApiResponse({ status: 404, description: 'Device not found.' })
-    async sendDeviceCommand(
+    async rotateDeviceSecret(
         @Param('id') id: string,
-        @Body() commandDto: DeviceCommandDto,
+        @Body() rotateSecretDto: RotateDeviceSecretDto,
         @User() user: UserContext,
         @Scope() scope: DataScope
-    ) {
-        return this.deviceService.sendDeviceCommand(
+    ): Promise<DeviceSecretResponseDto> {
+        const { device, secret } = await this.deviceService.rotateSecret(
             id,
-            {
-                command: commandDto.command,
-                parameters: commandDto.parameters,
-                timeout: commandDto.timeout,
-            },
+            rotateSecretDto.overlapMinutes ?? 60,
             scope,
             user.sub
         );
+
+        return {
+            deviceId: device.id,
+            secret,
+            secretIssuedAt: device.secretIssuedAt,
+            previousSecretExpiresAt: device.previousSecretExpiresAt,
+        };
     }
 
     @Patch(':id')
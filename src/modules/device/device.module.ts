@@ -2,14 +2,28 @@ import { Module } from '@nestjs/common';
 import { DeviceController } from './device.controller';
 import { DeviceService } from './device.service';
 import { DeviceRepository } from './device.repository';
+import { DeviceEnrollmentController } from './device-enrollment.controller';
+import { DeviceEnrollmentService } from './device-enrollment.service';
+import { DeviceEnrollmentRepository } from './device-enrollment.repository';
+import { DeviceHeartbeatService } from './device-heartbeat.service';
+import { DeviceHeartbeatRepository } from './device-heartbeat.repository';
+import { ConfigModule } from '@/core/config/config.module';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
 import { AdapterModule } from '@/shared/adapters/adapter.module';
+import { AuditModule } from '@/modules/audit/audit.module';
 
 @Module({
-    imports: [DatabaseModule, LoggerModule, AdapterModule],
-    controllers: [DeviceController],
-    providers: [DeviceService, DeviceRepository],
-    exports: [DeviceService, DeviceRepository],
+    imports: [ConfigModule, DatabaseModule, LoggerModule, AdapterModule, AuditModule],
+    controllers: [DeviceController, DeviceEnrollmentController],
+    providers: [
+        DeviceService,
+        DeviceRepository,
+        DeviceEnrollmentService,
+        DeviceEnrollmentRepository,
+        DeviceHeartbeatService,
+        DeviceHeartbeatRepository,
+    ],
+    exports: [DeviceService, DeviceRepository, DeviceEnrollmentService, DeviceHeartbeatService],
 })
 export class DeviceModule {}
@@ -4,6 +4,7 @@ import { PrismaService } from '@/core/database/prisma.service';
 import { CreateDeviceDto, UpdateDeviceDto } from '@/shared/dto';
 import { DataScope } from '@/shared/interfaces';
 import { QueryBuilder } from '@/shared/utils/query-builder.util';
+import { ENCRYPTED_SIGNING_KEY_PREFIX } from '@/shared/utils/device-signature.util';
 
 @Injectable()
 export class DeviceRepository {
@@ -17,6 +18,7 @@ export class DeviceRepository {
                 branchId: data.branchId,
                 ipAddress: data.ipAddress,
                 macAddress: data.macAddress,
+                pushAllowedAddresses: data.pushAllowedAddresses,
                 model: data.model,
                 organizationId: scope.organizationId,
             },
@@ -90,6 +92,8 @@ export class DeviceRepository {
         if (data.type !== undefined) updateData.type = data.type;
         if (data.ipAddress !== undefined) updateData.ipAddress = data.ipAddress;
         if (data.macAddress !== undefined) updateData.macAddress = data.macAddress;
+        if (data.pushAllowedAddresses !== undefined)
+            updateData.pushAllowedAddresses = data.pushAllowedAddresses;
         if (data.model !== undefined) updateData.model = data.model;
         if (data.status !== undefined) updateData.status = data.status;
 
@@ -188,6 +192,73 @@ export class DeviceRepository {
         });
     }
 
+    /**
+     * Replace the device's secret, keeping the current one valid until the given time
+     */
+    async rotateSecret(
+        device: Device,
+        encryptedSigningKey: string,
+        previousSecretExpiresAt: Date | null
+    ): Promise<Device> {
+        return this.prisma.device.update({
+            where: { id: device.id },
+            data: {
+                encryptedSigningKey,
+                secretIssuedAt: new Date(),
+                previousEncryptedSigningKey: previousSecretExpiresAt
+                    ? device.encryptedSigningKey
+                    : null,
+                previousSecretExpiresAt,
+            },
+        });
+    }
+
+    /**
+     * Find devices whose current or previous signing key is still stored in plain text
+     */
+    async findWithUnencryptedSigningKeys(): Promise<
+        Pick<Device, 'id' | 'encryptedSigningKey' | 'previousEncryptedSigningKey'>[]
+    > {
+        const unencrypted = { not: { startsWith: ENCRYPTED_SIGNING_KEY_PREFIX } };
+
+        return this.prisma.device.findMany({
+            where: {
+                OR: [
+                    { encryptedSigningKey: unencrypted },
+                    { previousEncryptedSigningKey: unencrypted },
+                ],
+            },
+            select: { id: true, encryptedSigningKey: true, previousEncryptedSigningKey: true },
+        });
+    }
+
+    /**
+     * Replace the stored signing keys, unless they were changed since they were read
+     */
+    async replaceSigningKeys(
+        device: Pick<Device, 'id' | 'encryptedSigningKey' | 'previousEncryptedSigningKey'>,
+        encryptedSigningKey: string | null,
+        previousEncryptedSigningKey: string | null
+    ): Promise<boolean> {
+        const { count } = await this.prisma.device.updateMany({
+            where: {
+                id: device.id,
+                encryptedSigningKey: device.encryptedSigningKey,
+                previousEncryptedSigningKey: device.previousEncryptedSigningKey,
+            },
+            data: { encryptedSigningKey, previousEncryptedSigningKey },
+        });
+
+        return count > 0;
+    }
+
+    async recordFirmwareVersion(id: string, firmwareVersion: string): Promise<void> {
+        await this.prisma.device.update({
+            where: { id },
+            data: { firmwareVersion },
+        });
+    }
+
     async updateLastSeen(id: string, lastSeenAt: Date): Promise<void> {
         await this.prisma.device.update({
             where: { id },
@@ -1,26 +1,60 @@
 import {
     BadRequestException,
     ConflictException,
-    Inject,
     Injectable,
     NotFoundException,
+    OnModuleInit,
 } from '@nestjs/common';
 import { Device } from '@prisma/client';
 import { DeviceRepository } from './device.repository';
+import { ConfigService } from '@/core/config/config.service';
 import { LoggerService } from '@/core/logger/logger.service';
-import { DatabaseUtil } from '@/shared/utils';
+import { DatabaseUtil, DeviceSignatureUtil, ZktecoPushUtil } from '@/shared/utils';
 import { CreateDeviceDto, UpdateDeviceDto } from '@/shared/dto';
 import { DataScope } from '@/shared/interfaces';
-import { DeviceCommand, IDeviceAdapter } from '@/shared/adapters/device.adapter';
+import { DeviceAdapterRegistry } from '@/shared/adapters/device-adapter.registry';
 
 @Injectable()
-export class DeviceService {
+export class DeviceService implements OnModuleInit {
     constructor(
         private readonly deviceRepository: DeviceRepository,
+        private readonly configService: ConfigService,
         private readonly logger: LoggerService,
-        @Inject('IDeviceAdapter') private readonly deviceAdapter: IDeviceAdapter
+        private readonly deviceAdapterRegistry: DeviceAdapterRegistry
     ) {}
 
+    /**
+     * Encrypt the signing keys stored in plain text before they were encrypted at rest, so
+     * devices enrolled by then keep working
+     */
+    async onModuleInit(): Promise<void> {
+        const devices = await this.deviceRepository.findWithUnencryptedSigningKeys();
+        const encrypt = (signingKey: string | null) =>
+            signingKey && !DeviceSignatureUtil.isEncrypted(signingKey)
+                ? DeviceSignatureUtil.encryptSigningKey(
+                      signingKey,
+                      this.configService.deviceSecretEncryptionKey
+                  )
+                : signingKey;
+
+        let encrypted = 0;
+        for (const device of devices) {
+            // Another instance may have encrypted them first; then there is nothing to do
+            const replaced = await this.deviceRepository.replaceSigningKeys(
+                device,
+                encrypt(device.encryptedSigningKey),
+                encrypt(device.previousEncryptedSigningKey)
+            );
+            if (replaced) {
+                encrypted++;
+            }
+        }
+
+        if (encrypted > 0) {
+            this.logger.log('Encrypted the signing keys of devices', { count: encrypted });
+        }
+    }
+
     /**
      * Create a new device
      */
@@ -35,6 +69,7 @@ export class DeviceService {
             if (scope.branchIds && !scope.branchIds.includes(createDeviceDto.branchId)) {
                 throw new BadRequestException('Branch not accessible within your scope');
             }
+            this.validatePushAllowedAddresses(createDeviceDto.pushAllowedAddresses);
 
             // Check if device with same MAC address already exists (if provided)
             if (createDeviceDto.macAddress) {
@@ -138,6 +173,7 @@ export class DeviceService {
             ) {
                 throw new BadRequestException('Target branch not accessible within your scope');
             }
+            this.validatePushAllowedAddresses(updateDeviceDto.pushAllowedAddresses);
 
             // Check MAC address uniqueness if being updated
             if (
@@ -275,6 +311,52 @@ export class DeviceService {
         return updatedDevice;
     }
 
+    /**
+     * Issue a new secret to the device. The replaced secret stays valid for the overlap window,
+     * so devices can be moved to the new secret without downtime.
+     */
+    async rotateSecret(
+        id: string,
+        overlapMinutes: number,
+        scope: DataScope,
+        rotatedByUserId: string,
+        correlationId?: string
+    ): Promise<{ device: Device; secret: string }> {
+        const existingDevice = await this.deviceRepository.findById(id, scope);
+        if (!existingDevice) {
+            throw new NotFoundException('Device not found');
+        }
+
+        const secret = DeviceSignatureUtil.generateSecret();
+        const previousSecretExpiresAt =
+            existingDevice.encryptedSigningKey && overlapMinutes > 0
+                ? new Date(Date.now() + overlapMinutes * 60 * 1000)
+                : null;
+
+        const device = await this.deviceRepository.rotateSecret(
+            existingDevice,
+            DeviceSignatureUtil.encryptSigningKey(
+                DeviceSignatureUtil.deriveSigningKey(secret),
+                this.configService.deviceSecretEncryptionKey
+            ),
+            previousSecretExpiresAt
+        );
+
+        this.logger.logUserAction(
+            rotatedByUserId,
+            existingDevice.encryptedSigningKey ? 'DEVICE_SECRET_ROTATED' : 'DEVICE_SECRET_ISSUED',
+            {
+                deviceId: id,
+                deviceName: existingDevice.name,
+                previousSecretExpiresAt,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return { device, secret };
+    }
+
     /**
      * Get device with statistics
      */
@@ -303,71 +385,28 @@ export class DeviceService {
     }
 
     /**
-     * Send command to device
+     * Get device health status; a firmware version the device reports is recorded
      */
-    async sendDeviceCommand(
-        id: string,
-        command: DeviceCommand,
-        scope: DataScope,
-        commandByUserId: string,
-        correlationId?: string
-    ) {
+    async getDeviceHealth(id: string, scope: DataScope) {
         const device = await this.deviceRepository.findById(id, scope);
         if (!device) {
             throw new NotFoundException('Device not found');
         }
 
-        if (!device.isActive) {
-            throw new BadRequestException('Cannot send command to inactive device');
-        }
-
         try {
-            const result = await this.deviceAdapter.sendCommand(device.deviceIdentifier, command);
-
-            this.logger.logUserAction(
-                commandByUserId,
-                'DEVICE_COMMAND_SENT',
-                {
-                    deviceId: id,
-                    deviceName: device.name,
-                    command: command.command,
-                    success: result.success,
-                    message: result.message,
-                },
-                scope.organizationId,
-                correlationId
-            );
+            const health = await this.deviceAdapterRegistry
+                .forDevice(device)
+                .getDeviceHealth(device.deviceIdentifier);
 
-            return result;
-        } catch (error) {
-            this.logger.logUserAction(
-                commandByUserId,
-                'DEVICE_COMMAND_FAILED',
-                {
+            if (health.firmwareVersion && health.firmwareVersion !== device.firmwareVersion) {
+                await this.deviceRepository.recordFirmwareVersion(id, health.firmwareVersion);
+                this.logger.log('Device firmware version changed', {
                     deviceId: id,
-                    deviceName: device.name,
-                    command: command.command,
-                    error: error.message,
-                },
-                scope.organizationId,
-                correlationId
-            );
-
-            throw error;
-        }
-    }
-
-    /**
-     * Get device health status
-     */
-    async getDeviceHealth(id: string, scope: DataScope) {
-        const device = await this.deviceRepository.findById(id, scope);
-        if (!device) {
-            throw new NotFoundException('Device not found');
-        }
+                    fromVersion: device.firmwareVersion,
+                    toVersion: health.firmwareVersion,
+                });
+            }
 
-        try {
-            const health = await this.deviceAdapter.getDeviceHealth(device.deviceIdentifier);
             return health;
         } catch (error) {
             this.logger.error(`Failed to get device health for ${device.name}`, error, {
@@ -395,7 +434,9 @@ export class DeviceService {
         }
 
         try {
-            const isConnected = await this.deviceAdapter.testConnection(device.deviceIdentifier);
+            const isConnected = await this.deviceAdapterRegistry
+                .forDevice(device)
+                .testConnection(device.deviceIdentifier);
 
             // Update last seen if connection is successful
             if (isConnected) {
@@ -429,7 +470,11 @@ export class DeviceService {
      */
     async discoverDevices(scope: DataScope) {
         try {
-            const discoveredDevices = await this.deviceAdapter.discoverDevices();
+            const discoveredDevices = (
+                await Promise.all(
+                    this.deviceAdapterRegistry.getAll().map(adapter => adapter.discoverDevices())
+                )
+            ).flat();
 
             // Filter out devices that are already registered
             const existingIdentifiers = await this.deviceRepository.getAllIdentifiers(scope);
@@ -454,4 +499,11 @@ export class DeviceService {
             throw new BadRequestException('Failed to discover devices');
         }
     }
+
+    private validatePushAllowedAddresses(addresses?: string[]): void {
+        const invalid = (addresses || []).filter(entry => !ZktecoPushUtil.isAddressRange(entry));
+        if (invalid.length) {
+            throw new BadRequestException(`Not an IP address or CIDR range: ${invalid.join(', ')}`);
+        }
+    }
 }
@@ -0,0 +1,253 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { EmployeeCredential } from '@prisma/client';
+import { EmployeeCredentialService } from './employee-credential.service';
+import {
+    CreateEmployeeCredentialDto,
+    EmployeeCredentialResponseDto,
+    ReissueEmployeeCredentialDto,
+    RevokeEmployeeCredentialDto,
+    UpdateEmployeeCredentialDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Employee Credentials')
+@ApiBearerAuth()
+@Controller('employees/:employeeId/credentials')
+export class EmployeeCredentialController {
+    constructor(private readonly credentialService: EmployeeCredentialService) {}
+
+    @Post()
+    @Permissions('employee:credential:manage')
+    @ApiOperation({ summary: 'Issue a credential to an employee' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiBody({ type: CreateEmployeeCredentialDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The credential has been issued.',
+        type: EmployeeCredentialResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    @ApiResponse({ status: 409, description: 'Credential already registered.' })
+    async issueCredential(
+        @Param('employeeId') employeeId: string,
+        @Body() createDto: CreateEmployeeCredentialDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<EmployeeCredentialResponseDto> {
+        const credential = await this.credentialService.issueCredential(
+            employeeId,
+            createDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(credential);
+    }
+
+    @Get()
+    @Permissions('employee:credential:read')
+    @ApiOperation({ summary: 'Get the credentials of an employee' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiQuery({ name: 'includeRevoked', required: false, type: Boolean })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of credentials.',
+        type: [EmployeeCredentialResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    async getCredentials(
+        @Param('employeeId') employeeId: string,
+        @Scope() scope: DataScope,
+        @Query('includeRevoked') includeRevoked?: string
+    ): Promise<EmployeeCredentialResponseDto[]> {
+        const credentials = await this.credentialService.getCredentials(
+            employeeId,
+            scope,
+            includeRevoked === 'true'
+        );
+
+        return credentials.map(credential => this.toResponse(credential));
+    }
+
+    @Get(':credentialId')
+    @Permissions('employee:credential:read')
+    @ApiOperation({ summary: 'Get a specific credential' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiParam({ name: 'credentialId', description: 'ID of the credential' })
+    @ApiResponse({
+        status: 200,
+        description: 'The credential details.',
+        type: EmployeeCredentialResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Credential not found.' })
+    async getCredentialById(
+        @Param('employeeId') employeeId: string,
+        @Param('credentialId') credentialId: string,
+        @Scope() scope: DataScope
+    ): Promise<EmployeeCredentialResponseDto> {
+        const credential = await this.credentialService.getCredentialById(
+            employeeId,
+            credentialId,
+            scope
+        );
+
+        return this.toResponse(credential);
+    }
+
+    @Patch(':credentialId')
+    @Permissions('employee:credential:manage')
+    @ApiOperation({ summary: 'Update the validity window of a credential' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiParam({ name: 'credentialId', description: 'ID of the credential' })
+    @ApiBody({ type: UpdateEmployeeCredentialDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The credential has been updated.',
+        type: EmployeeCredentialResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input or credential revoked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Credential not found.' })
+    async updateCredential(
+        @Param('employeeId') employeeId: string,
+        @Param('credentialId') credentialId: string,
+        @Body() updateDto: UpdateEmployeeCredentialDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<EmployeeCredentialResponseDto> {
+        const credential = await this.credentialService.updateCredential(
+            employeeId,
+            credentialId,
+            updateDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(credential);
+    }
+
+    @Post(':credentialId/revoke')
+    @Permissions('employee:credential:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Revoke a credential' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiParam({ name: 'credentialId', description: 'ID of the credential' })
+    @ApiBody({ type: RevokeEmployeeCredentialDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The credential has been revoked.',
+        type: EmployeeCredentialResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Credential already revoked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Credential not found.' })
+    async revokeCredential(
+        @Param('employeeId') employeeId: string,
+        @Param('credentialId') credentialId: string,
+        @Body() revokeDto: RevokeEmployeeCredentialDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<EmployeeCredentialResponseDto> {
+        const credential = await this.credentialService.revokeCredential(
+            employeeId,
+            credentialId,
+            revokeDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(credential);
+    }
+
+    @Post(':credentialId/reissue')
+    @Permissions('employee:credential:manage')
+    @ApiOperation({ summary: 'Revoke a credential and issue a replacement' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiParam({ name: 'credentialId', description: 'ID of the credential to replace' })
+    @ApiBody({ type: ReissueEmployeeCredentialDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The replacement credential.',
+        type: EmployeeCredentialResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Credential already revoked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Credential not found.' })
+    @ApiResponse({ status: 409, description: 'Credential already registered.' })
+    async reissueCredential(
+        @Param('employeeId') employeeId: string,
+        @Param('credentialId') credentialId: string,
+        @Body() reissueDto: ReissueEmployeeCredentialDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<EmployeeCredentialResponseDto> {
+        const credential = await this.credentialService.reissueCredential(
+            employeeId,
+            credentialId,
+            reissueDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(credential);
+    }
+
+    @Delete(':credentialId')
+    @Permissions('employee:credential:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a credential' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiParam({ name: 'credentialId', description: 'ID of the credential' })
+    @ApiResponse({ status: 204, description: 'The credential has been deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Credential not found.' })
+    async deleteCredential(
+        @Param('employeeId') employeeId: string,
+        @Param('credentialId') credentialId: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.credentialService.deleteCredential(employeeId, credentialId, scope, user.sub);
+    }
+
+    private toResponse(credential: EmployeeCredential): EmployeeCredentialResponseDto {
+        return {
+            id: credential.id,
+            employeeId: credential.employeeId,
+            type: credential.type,
+            value: this.credentialService.maskValue(credential),
+            validFrom: credential.validFrom,
+            validUntil: credential.validUntil,
+            revokedAt: credential.revokedAt,
+            revokeReason: credential.revokeReason,
+            replacedById: credential.replacedById,
+            createdAt: credential.createdAt,
+            updatedAt: credential.updatedAt,
+        };
+    }
+}
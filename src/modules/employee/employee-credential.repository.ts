@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { CredentialType, EmployeeCredential, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces/data-scope.interface';
+import { QueryBuilder } from '@/shared/utils/query-builder.util';
+
+export interface CreateEmployeeCredentialData {
+    employeeId: string;
+    type: CredentialType;
+    value: string;
+    validFrom?: Date;
+    validUntil?: Date;
+    issuedByUserId?: string;
+}
+
+@Injectable()
+export class EmployeeCredentialRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: CreateEmployeeCredentialData,
+        scope: DataScope
+    ): Promise<EmployeeCredential> {
+        return this.prisma.employeeCredential.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<EmployeeCredential | null> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.employeeCredential.findFirst({
+            where: {
+                id,
+                ...whereClause,
+            },
+        });
+    }
+
+    async findByEmployee(
+        employeeId: string,
+        scope: DataScope,
+        includeRevoked = false
+    ): Promise<EmployeeCredential[]> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.employeeCredential.findMany({
+            where: {
+                employeeId,
+                ...whereClause,
+                ...(includeRevoked ? {} : { revokedAt: null }),
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Find a non-revoked credential valid at the given time, together with its employee
+     */
+    async findActiveByValue(type: CredentialType, value: string, at: Date, scope: DataScope) {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.employeeCredential.findFirst({
+            where: {
+                ...whereClause,
+                type,
+                value,
+                revokedAt: null,
+                validFrom: { lte: at },
+                OR: [{ validUntil: null }, { validUntil: { gte: at } }],
+            },
+            include: {
+                employee: {
+                    select: {
+                        id: true,
+                        branchId: true,
+                        isActive: true,
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * The credentials that are not revoked and hold the value, whatever their validity
+     */
+    async findUnrevokedByValue(
+        type: CredentialType,
+        value: string,
+        scope: DataScope
+    ): Promise<EmployeeCredential[]> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.employeeCredential.findMany({
+            where: {
+                ...whereClause,
+                type,
+                value,
+                revokedAt: null,
+            },
+        });
+    }
+
+    async update(
+        id: string,
+        data: Prisma.EmployeeCredentialUpdateInput
+    ): Promise<EmployeeCredential> {
+        return this.prisma.employeeCredential.update({
+            where: { id },
+            data,
+        });
+    }
+
+    /**
+     * Revoke a credential and issue its replacement atomically
+     */
+    async reissue(
+        id: string,
+        revokeData: { revokedByUserId: string; revokeReason?: string },
+        replacement: CreateEmployeeCredentialData,
+        scope: DataScope
+    ): Promise<{ revoked: EmployeeCredential; issued: EmployeeCredential }> {
+        return this.prisma.$transaction(async tx => {
+            const issued = await tx.employeeCredential.create({
+                data: {
+                    ...replacement,
+                    organizationId: scope.organizationId,
+                },
+            });
+
+            const revoked = await tx.employeeCredential.update({
+                where: { id },
+                data: {
+                    ...revokeData,
+                    revokedAt: new Date(),
+                    replacedById: issued.id,
+                },
+            });
+
+            return { revoked, issued };
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.employeeCredential.delete({
+            where: { id },
+        });
+    }
+}
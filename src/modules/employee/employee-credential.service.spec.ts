@@ -0,0 +1,428 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { createHash, createHmac } from 'crypto';
+import { EmployeeCredentialService } from './employee-credential.service';
+import { EmployeeCredentialRepository } from './employee-credential.repository';
+import { EmployeeRepository } from './employee.repository';
+import { CacheService } from '@/core/cache/cache.service';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { AuditLogService } from '@/shared/services/audit-log.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('EmployeeCredentialService', () => {
+    let service: EmployeeCredentialService;
+    let credentialRepository: jest.Mocked<EmployeeCredentialRepository>;
+    let employeeRepository: jest.Mocked<EmployeeRepository>;
+    let auditLogService: jest.Mocked<AuditLogService>;
+    let cacheService: jest.Mocked<CacheService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const pepper = 'test-credential-pepper-of-32-characters';
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockCredential = {
+        id: 'cred-123',
+        organizationId: 'org-123',
+        employeeId: 'emp-123',
+        type: 'CARD' as const,
+        value: 'A1B2C3',
+        validFrom: new Date('2024-01-01T00:00:00Z'),
+        validUntil: null,
+        revokedAt: null,
+        revokedByUserId: null,
+        revokeReason: null,
+        replacedById: null,
+        issuedByUserId: 'user-123',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(async () => {
+        const mockCredentialRepository = {
+            create: jest.fn(),
+            findById: jest.fn(),
+            findByEmployee: jest.fn(),
+            findActiveByValue: jest.fn(),
+            findUnrevokedByValue: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            reissue: jest.fn(),
+            delete: jest.fn(),
+        };
+
+        const mockEmployeeRepository = {
+            findById: jest.fn().mockResolvedValue({ id: 'emp-123', branchId: 'branch-123' }),
+        };
+
+        const mockAuditLogService = {
+            createAuditLog: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EmployeeCredentialService,
+                {
+                    provide: EmployeeCredentialRepository,
+                    useValue: mockCredentialRepository,
+                },
+                {
+                    provide: EmployeeRepository,
+                    useValue: mockEmployeeRepository,
+                },
+                {
+                    provide: AuditLogService,
+                    useValue: mockAuditLogService,
+                },
+                {
+                    provide: CacheService,
+                    useValue: { invalidateCache: jest.fn() },
+                },
+                {
+                    provide: ConfigService,
+                    useValue: { credentialPepper: pepper },
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<EmployeeCredentialService>(EmployeeCredentialService);
+        credentialRepository = module.get(EmployeeCredentialRepository);
+        employeeRepository = module.get(EmployeeRepository);
+        auditLogService = module.get(AuditLogService);
+        cacheService = module.get(CacheService);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('issueCredential', () => {
+        it('should normalize card numbers and audit the issue', async () => {
+            credentialRepository.create.mockResolvedValue(mockCredential);
+
+            const result = await service.issueCredential(
+                'emp-123',
+                { type: 'CARD', value: ' a1b2c3 ' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    employeeId: 'emp-123',
+                    type: 'CARD',
+                    value: 'A1B2C3',
+                    issuedByUserId: 'user-123',
+                }),
+                mockDataScope
+            );
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'ISSUE',
+                    resource: 'employee_credential',
+                    resourceId: 'cred-123',
+                    userId: 'user-123',
+                    organizationId: 'org-123',
+                    status: 'SUCCESS',
+                })
+            );
+            expect(result).toEqual(mockCredential);
+        });
+
+        it('should store PINs as a keyed digest and keep them out of the audit log', async () => {
+            const digest = createHmac('sha256', pepper).update('1234').digest('hex');
+            credentialRepository.create.mockResolvedValue({
+                ...mockCredential,
+                type: 'PIN',
+                value: digest,
+            } as any);
+
+            await service.issueCredential(
+                'emp-123',
+                { type: 'PIN', value: '1234' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ value: digest }),
+                mockDataScope
+            );
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    newValues: expect.objectContaining({ value: '****' }),
+                })
+            );
+        });
+
+        it('should throw ConflictException when the value is already registered', async () => {
+            credentialRepository.create.mockRejectedValue(
+                new PrismaClientKnownRequestError('Unique constraint failed', {
+                    code: 'P2002',
+                    clientVersion: '6.13.0',
+                    meta: { target: ['organizationId', 'type', 'value'] },
+                })
+            );
+
+            await expect(
+                service.issueCredential(
+                    'emp-123',
+                    { type: 'CARD', value: 'A1B2C3' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(ConflictException);
+        });
+
+        it('should revoke an expired credential holding the value before issuing it', async () => {
+            const expired = {
+                ...mockCredential,
+                id: 'cred-expired',
+                employeeId: 'emp-old',
+                validUntil: new Date('2024-03-01T00:00:00Z'),
+            };
+            credentialRepository.findUnrevokedByValue.mockResolvedValue([expired]);
+            credentialRepository.update.mockResolvedValue({
+                ...expired,
+                revokedAt: new Date(),
+                revokeReason: 'EXPIRED',
+            });
+            credentialRepository.create.mockResolvedValue(mockCredential);
+
+            await service.issueCredential(
+                'emp-123',
+                { type: 'CARD', value: 'A1B2C3' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.update).toHaveBeenCalledWith('cred-expired', {
+                revokedAt: expect.any(Date),
+                revokedByUserId: 'user-123',
+                revokeReason: 'EXPIRED',
+            });
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'REVOKE', resourceId: 'cred-expired' })
+            );
+            expect(credentialRepository.create).toHaveBeenCalled();
+        });
+
+        it('should leave a credential that is still valid to the unique index', async () => {
+            credentialRepository.findUnrevokedByValue.mockResolvedValue([mockCredential]);
+            credentialRepository.create.mockResolvedValue(mockCredential);
+
+            await service.issueCredential(
+                'emp-123',
+                { type: 'CARD', value: 'A1B2C3' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for an employee outside the scope', async () => {
+            employeeRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.issueCredential(
+                    'emp-999',
+                    { type: 'CARD', value: 'A1B2C3' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('revokeCredential', () => {
+        it('should revoke an active credential', async () => {
+            const revoked = { ...mockCredential, revokedAt: new Date(), revokeReason: 'Lost' };
+            credentialRepository.findById.mockResolvedValue(mockCredential);
+            credentialRepository.update.mockResolvedValue(revoked);
+
+            const result = await service.revokeCredential(
+                'emp-123',
+                'cred-123',
+                { reason: 'Lost' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.update).toHaveBeenCalledWith('cred-123', {
+                revokedAt: expect.any(Date),
+                revokedByUserId: 'user-123',
+                revokeReason: 'Lost',
+            });
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({ action: 'REVOKE', resourceId: 'cred-123' })
+            );
+            expect(cacheService.invalidateCache).toHaveBeenCalledWith(
+                'access:credential:org-123:*'
+            );
+            expect(result).toEqual(revoked);
+        });
+
+        it('should keep the revocation when clearing the cached holders fails', async () => {
+            credentialRepository.findById.mockResolvedValue(mockCredential);
+            credentialRepository.update.mockResolvedValue({
+                ...mockCredential,
+                revokedAt: new Date(),
+            });
+            cacheService.invalidateCache.mockRejectedValue(new Error('Redis unavailable'));
+
+            await expect(
+                service.revokeCredential('emp-123', 'cred-123', {}, mockDataScope, 'user-123')
+            ).resolves.toEqual(expect.objectContaining({ id: 'cred-123' }));
+            expect(loggerService.error).toHaveBeenCalledWith(
+                'Failed to clear the cached credential holders',
+                expect.any(Error),
+                expect.objectContaining({ organizationId: 'org-123' })
+            );
+        });
+
+        it('should reject revoking an already revoked credential', async () => {
+            credentialRepository.findById.mockResolvedValue({
+                ...mockCredential,
+                revokedAt: new Date(),
+            });
+
+            await expect(
+                service.revokeCredential('emp-123', 'cred-123', {}, mockDataScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should not expose credentials of another employee', async () => {
+            credentialRepository.findById.mockResolvedValue({
+                ...mockCredential,
+                employeeId: 'emp-456',
+            });
+
+            await expect(
+                service.revokeCredential('emp-123', 'cred-123', {}, mockDataScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('reissueCredential', () => {
+        it('should replace the credential and audit both values', async () => {
+            const issued = { ...mockCredential, id: 'cred-456', value: 'D4E5F6' };
+            credentialRepository.findById.mockResolvedValue(mockCredential);
+            credentialRepository.reissue.mockResolvedValue({
+                revoked: { ...mockCredential, revokedAt: new Date(), replacedById: 'cred-456' },
+                issued,
+            });
+
+            const result = await service.reissueCredential(
+                'emp-123',
+                'cred-123',
+                { value: 'd4e5f6' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(credentialRepository.reissue).toHaveBeenCalledWith(
+                'cred-123',
+                { revokedByUserId: 'user-123', revokeReason: 'REISSUED' },
+                expect.objectContaining({ type: 'CARD', value: 'D4E5F6' }),
+                mockDataScope
+            );
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'REISSUE',
+                    oldValues: expect.objectContaining({ value: 'A1B2C3' }),
+                    newValues: expect.objectContaining({ value: 'D4E5F6' }),
+                })
+            );
+            expect(result).toEqual(issued);
+        });
+    });
+
+    describe('findEmployeeIdByCredential', () => {
+        const at = new Date('2024-06-01T09:00:00Z');
+
+        it('should resolve an active credential to its employee', async () => {
+            credentialRepository.findActiveByValue.mockResolvedValue({
+                ...mockCredential,
+                employee: { id: 'emp-123', branchId: 'branch-123', isActive: true },
+            } as any);
+
+            const result = await service.findEmployeeIdByCredential(
+                'CARD',
+                'a1b2c3',
+                mockDataScope,
+                at
+            );
+
+            expect(credentialRepository.findActiveByValue).toHaveBeenCalledWith(
+                'CARD',
+                'A1B2C3',
+                at,
+                mockDataScope
+            );
+            expect(result).toBe('emp-123');
+        });
+
+        it('should ignore inactive employees', async () => {
+            credentialRepository.findActiveByValue.mockResolvedValue({
+                ...mockCredential,
+                employee: { id: 'emp-123', branchId: 'branch-123', isActive: false },
+            } as any);
+
+            await expect(
+                service.findEmployeeIdByCredential('CARD', 'A1B2C3', mockDataScope, at)
+            ).resolves.toBeUndefined();
+        });
+
+        it('should rewrite PINs stored as a plain digest when they are presented', async () => {
+            const legacy = createHash('sha256').update('1234').digest('hex');
+            const keyed = createHmac('sha256', pepper).update('1234').digest('hex');
+            credentialRepository.findActiveByValue
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce({
+                    ...mockCredential,
+                    type: 'PIN',
+                    value: legacy,
+                    employee: { id: 'emp-123', branchId: 'branch-123', isActive: true },
+                } as any);
+
+            const result = await service.findEmployeeIdByCredential(
+                'PIN',
+                '1234',
+                mockDataScope,
+                at
+            );
+
+            expect(credentialRepository.findActiveByValue).toHaveBeenNthCalledWith(
+                2,
+                'PIN',
+                legacy,
+                at,
+                mockDataScope
+            );
+            expect(credentialRepository.update).toHaveBeenCalledWith('cred-123', { value: keyed });
+            expect(result).toBe('emp-123');
+        });
+
+        it('should return undefined for unknown credentials', async () => {
+            credentialRepository.findActiveByValue.mockResolvedValue(null);
+
+            await expect(
+                service.findEmployeeIdByCredential('CARD', 'UNKNOWN', mockDataScope, at)
+            ).resolves.toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,473 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { CredentialType, EmployeeCredential } from '@prisma/client';
+import { createHash, createHmac } from 'crypto';
+import { EmployeeCredentialRepository } from './employee-credential.repository';
+import { EmployeeRepository } from './employee.repository';
+import { CacheService } from '@/core/cache/cache.service';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    CreateEmployeeCredentialDto,
+    ReissueEmployeeCredentialDto,
+    RevokeEmployeeCredentialDto,
+    UpdateEmployeeCredentialDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { AuditLogService } from '@/shared/services/audit-log.service';
+import { DatabaseUtil } from '@/shared/utils';
+
+const AUDIT_RESOURCE = 'employee_credential';
+
+/** Why an expired credential was revoked when its value was issued again */
+const EXPIRED_REVOKE_REASON = 'EXPIRED';
+
+/** Prefix of the cached holders of presented credentials, followed by the organization ID */
+export const CREDENTIAL_HOLDER_CACHE_PREFIX = 'access:credential';
+
+@Injectable()
+export class EmployeeCredentialService {
+    constructor(
+        private readonly credentialRepository: EmployeeCredentialRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly auditLogService: AuditLogService,
+        private readonly cacheService: CacheService,
+        private readonly configService: ConfigService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Issue a new credential to an employee
+     */
+    async issueCredential(
+        employeeId: string,
+        createDto: CreateEmployeeCredentialDto,
+        scope: DataScope,
+        issuedByUserId: string,
+        correlationId?: string
+    ): Promise<EmployeeCredential> {
+        await this.ensureEmployee(employeeId, scope);
+
+        const validFrom = createDto.validFrom ? new Date(createDto.validFrom) : undefined;
+        const validUntil = createDto.validUntil ? new Date(createDto.validUntil) : undefined;
+        this.validateValidity(validFrom || new Date(), validUntil);
+
+        const value = this.normalizeValue(createDto.type, createDto.value);
+        await this.releaseExpiredValue(createDto.type, value, scope, issuedByUserId);
+
+        try {
+            const credential = await this.credentialRepository.create(
+                {
+                    employeeId,
+                    type: createDto.type,
+                    value,
+                    validFrom,
+                    validUntil,
+                    issuedByUserId,
+                },
+                scope
+            );
+            await this.forgetCachedHolders(scope);
+
+            this.logger.logUserAction(
+                issuedByUserId,
+                'CREDENTIAL_ISSUED',
+                { credentialId: credential.id, employeeId, type: credential.type },
+                scope.organizationId,
+                correlationId
+            );
+
+            await this.audit('ISSUE', 'POST', credential, scope, issuedByUserId, {
+                newValues: this.toAuditValues(credential),
+            });
+
+            return credential;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException(
+                    'This credential is already registered in the organization'
+                );
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get credentials of an employee
+     */
+    async getCredentials(
+        employeeId: string,
+        scope: DataScope,
+        includeRevoked = false
+    ): Promise<EmployeeCredential[]> {
+        await this.ensureEmployee(employeeId, scope);
+
+        return this.credentialRepository.findByEmployee(employeeId, scope, includeRevoked);
+    }
+
+    /**
+     * Get a single credential of an employee
+     */
+    async getCredentialById(
+        employeeId: string,
+        credentialId: string,
+        scope: DataScope
+    ): Promise<EmployeeCredential> {
+        await this.ensureEmployee(employeeId, scope);
+
+        const credential = await this.credentialRepository.findById(credentialId, scope);
+        if (!credential || credential.employeeId !== employeeId) {
+            throw new NotFoundException('Credential not found');
+        }
+
+        return credential;
+    }
+
+    /**
+     * Update the validity window of a credential
+     */
+    async updateCredential(
+        employeeId: string,
+        credentialId: string,
+        updateDto: UpdateEmployeeCredentialDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<EmployeeCredential> {
+        const existing = await this.getCredentialById(employeeId, credentialId, scope);
+        if (existing.revokedAt) {
+            throw new BadRequestException('Revoked credentials cannot be updated');
+        }
+
+        const validFrom = updateDto.validFrom ? new Date(updateDto.validFrom) : existing.validFrom;
+        const validUntil = updateDto.validUntil
+            ? new Date(updateDto.validUntil)
+            : existing.validUntil;
+        this.validateValidity(validFrom, validUntil);
+
+        const updated = await this.credentialRepository.update(credentialId, {
+            validFrom,
+            validUntil,
+        });
+        await this.forgetCachedHolders(scope);
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'CREDENTIAL_UPDATED',
+            { credentialId, employeeId, changes: updateDto },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit('UPDATE', 'PATCH', updated, scope, updatedByUserId, {
+            oldValues: this.toAuditValues(existing),
+            newValues: this.toAuditValues(updated),
+        });
+
+        return updated;
+    }
+
+    /**
+     * Revoke a credential so devices no longer accept it
+     */
+    async revokeCredential(
+        employeeId: string,
+        credentialId: string,
+        revokeDto: RevokeEmployeeCredentialDto,
+        scope: DataScope,
+        revokedByUserId: string,
+        correlationId?: string
+    ): Promise<EmployeeCredential> {
+        const existing = await this.getCredentialById(employeeId, credentialId, scope);
+        if (existing.revokedAt) {
+            throw new BadRequestException('Credential is already revoked');
+        }
+
+        const revoked = await this.credentialRepository.update(credentialId, {
+            revokedAt: new Date(),
+            revokedByUserId,
+            revokeReason: revokeDto.reason,
+        });
+        await this.forgetCachedHolders(scope);
+
+        this.logger.logUserAction(
+            revokedByUserId,
+            'CREDENTIAL_REVOKED',
+            { credentialId, employeeId, reason: revokeDto.reason },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit('REVOKE', 'POST', revoked, scope, revokedByUserId, {
+            oldValues: this.toAuditValues(existing),
+            newValues: this.toAuditValues(revoked),
+        });
+
+        return revoked;
+    }
+
+    /**
+     * Revoke a credential and issue a replacement of the same type (e.g. a lost card)
+     */
+    async reissueCredential(
+        employeeId: string,
+        credentialId: string,
+        reissueDto: ReissueEmployeeCredentialDto,
+        scope: DataScope,
+        reissuedByUserId: string,
+        correlationId?: string
+    ): Promise<EmployeeCredential> {
+        const existing = await this.getCredentialById(employeeId, credentialId, scope);
+        if (existing.revokedAt) {
+            throw new BadRequestException('Credential is already revoked');
+        }
+
+        const validUntil = reissueDto.validUntil ? new Date(reissueDto.validUntil) : undefined;
+        this.validateValidity(new Date(), validUntil);
+
+        const value = this.normalizeValue(existing.type, reissueDto.value);
+        await this.releaseExpiredValue(existing.type, value, scope, reissuedByUserId);
+
+        try {
+            const { revoked, issued } = await this.credentialRepository.reissue(
+                credentialId,
+                {
+                    revokedByUserId: reissuedByUserId,
+                    revokeReason: reissueDto.reason || 'REISSUED',
+                },
+                {
+                    employeeId,
+                    type: existing.type,
+                    value,
+                    validUntil,
+                    issuedByUserId: reissuedByUserId,
+                },
+                scope
+            );
+            await this.forgetCachedHolders(scope);
+
+            this.logger.logUserAction(
+                reissuedByUserId,
+                'CREDENTIAL_REISSUED',
+                { credentialId, replacementId: issued.id, employeeId, type: issued.type },
+                scope.organizationId,
+                correlationId
+            );
+
+            await this.audit('REISSUE', 'POST', revoked, scope, reissuedByUserId, {
+                oldValues: this.toAuditValues(existing),
+                newValues: this.toAuditValues(issued),
+            });
+
+            return issued;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException(
+                    'This credential is already registered in the organization'
+                );
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Permanently delete a credential with its history; revoking it is enough to reuse its value
+     */
+    async deleteCredential(
+        employeeId: string,
+        credentialId: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const existing = await this.getCredentialById(employeeId, credentialId, scope);
+
+        await this.credentialRepository.delete(credentialId);
+        await this.forgetCachedHolders(scope);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'CREDENTIAL_DELETED',
+            { credentialId, employeeId, type: existing.type },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit('DELETE', 'DELETE', existing, scope, deletedByUserId, {
+            oldValues: this.toAuditValues(existing),
+        });
+    }
+
+    /**
+     * Resolve a presented credential to an active employee.
+     * Returns undefined for unknown, revoked or expired credentials and inactive employees.
+     */
+    async findEmployeeIdByCredential(
+        type: CredentialType,
+        value: string,
+        scope: DataScope,
+        at: Date = new Date()
+    ): Promise<string | undefined> {
+        const normalized = this.normalizeValue(type, value);
+        let credential = await this.credentialRepository.findActiveByValue(
+            type,
+            normalized,
+            at,
+            scope
+        );
+
+        // PINs issued before they were keyed are stored as a plain digest; they are rewritten
+        // the first time they are presented
+        if (!credential && type === CredentialType.PIN) {
+            credential = await this.credentialRepository.findActiveByValue(
+                type,
+                this.legacyPinDigest(value),
+                at,
+                scope
+            );
+            if (credential) {
+                await this.credentialRepository.update(credential.id, { value: normalized });
+            }
+        }
+
+        if (!credential || !credential.employee.isActive) {
+            return undefined;
+        }
+
+        if (scope.branchIds?.length && !scope.branchIds.includes(credential.employee.branchId)) {
+            return undefined;
+        }
+
+        return credential.employee.id;
+    }
+
+    /**
+     * Hide secret credential values from API responses and audit trails
+     */
+    maskValue(credential: Pick<EmployeeCredential, 'type' | 'value'>): string {
+        return credential.type === CredentialType.PIN ? '****' : credential.value;
+    }
+
+    private normalizeValue(type: CredentialType, value: string): string {
+        const trimmed = String(value).trim();
+
+        switch (type) {
+            case CredentialType.CARD:
+                return trimmed.toUpperCase();
+            case CredentialType.PIN:
+                // A keyed digest keeps PINs unique and searchable, but a copy of the database
+                // alone is not enough to recover them
+                return createHmac('sha256', this.configService.credentialPepper)
+                    .update(trimmed)
+                    .digest('hex');
+            default:
+                return trimmed;
+        }
+    }
+
+    private legacyPinDigest(value: string): string {
+        return createHash('sha256').update(String(value).trim()).digest('hex');
+    }
+
+    /**
+     * Revoke the expired credentials that still hold a value about to be issued, keeping
+     * them for the audit history. A credential that is still valid keeps its value.
+     */
+    private async releaseExpiredValue(
+        type: CredentialType,
+        value: string,
+        scope: DataScope,
+        userId: string
+    ): Promise<void> {
+        const now = new Date();
+        const holders = await this.credentialRepository.findUnrevokedByValue(type, value, scope);
+
+        for (const holder of holders) {
+            if (!holder.validUntil || holder.validUntil > now) {
+                continue;
+            }
+
+            const revoked = await this.credentialRepository.update(holder.id, {
+                revokedAt: now,
+                revokedByUserId: userId,
+                revokeReason: EXPIRED_REVOKE_REASON,
+            });
+
+            await this.audit('REVOKE', 'POST', revoked, scope, userId, {
+                oldValues: this.toAuditValues(holder),
+                newValues: this.toAuditValues(revoked),
+            });
+        }
+    }
+
+    /**
+     * Drop the credential holders cached for access decisions in the organization, so a
+     * revoked credential stops opening doors at once. The change itself is already saved, so
+     * a failing cache is logged rather than failing it.
+     */
+    private async forgetCachedHolders(scope: DataScope): Promise<void> {
+        try {
+            await this.cacheService.invalidateCache(
+                `${CREDENTIAL_HOLDER_CACHE_PREFIX}:${scope.organizationId}:*`
+            );
+        } catch (error) {
+            this.logger.error('Failed to clear the cached credential holders', error, {
+                organizationId: scope.organizationId,
+                module: 'employee-credential',
+            });
+        }
+    }
+
+    private validateValidity(validFrom: Date, validUntil?: Date | null): void {
+        if (validUntil && validUntil <= validFrom) {
+            throw new BadRequestException('validUntil must be after validFrom');
+        }
+    }
+
+    private async ensureEmployee(employeeId: string, scope: DataScope): Promise<void> {
+        const employee = await this.employeeRepository.findById(employeeId, scope);
+        if (!employee) {
+            throw new NotFoundException('Employee not found');
+        }
+    }
+
+    private toAuditValues(credential: EmployeeCredential) {
+        return {
+            employeeId: credential.employeeId,
+            type: credential.type,
+            value: this.maskValue(credential),
+            validFrom: credential.validFrom,
+            validUntil: credential.validUntil,
+            revokedAt: credential.revokedAt,
+            revokeReason: credential.revokeReason,
+            replacedById: credential.replacedById,
+        };
+    }
+
+    private async audit(
+        action: string,
+        method: string,
+        credential: EmployeeCredential,
+        scope: DataScope,
+        userId: string,
+        values: { oldValues?: any; newValues?: any }
+    ): Promise<void> {
+        await this.auditLogService.createAuditLog({
+            action,
+            resource: AUDIT_RESOURCE,
+            resourceId: credential.id,
+            userId,
+            organizationId: scope.organizationId,
+            method,
+            url: `/api/v1/employees/${credential.employeeId}/credentials/${credential.id}`,
+            status: 'SUCCESS',
+            duration: 0,
+            timestamp: new Date(),
+            ...values,
+        });
+    }
+}
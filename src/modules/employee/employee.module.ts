@@ -2,13 +2,23 @@ import { Module } from '@nestjs/common';
 import { EmployeeController } from './employee.controller';
 import { EmployeeService } from './employee.service';
 import { EmployeeRepository } from './employee.repository';
+import { EmployeeCredentialController } from './employee-credential.controller';
+import { EmployeeCredentialService } from './employee-credential.service';
+import { EmployeeCredentialRepository } from './employee-credential.repository';
+import { ConfigModule } from '@/core/config/config.module';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
+import { AuditModule } from '@/modules/audit/audit.module';
 
 @Module({
-    imports: [DatabaseModule, LoggerModule],
-    controllers: [EmployeeController],
-    providers: [EmployeeService, EmployeeRepository],
-    exports: [EmployeeService, EmployeeRepository],
+    imports: [ConfigModule, DatabaseModule, LoggerModule, AuditModule],
+    controllers: [EmployeeController, EmployeeCredentialController],
+    providers: [
+        EmployeeService,
+        EmployeeRepository,
+        EmployeeCredentialService,
+        EmployeeCredentialRepository,
+    ],
+    exports: [EmployeeService, EmployeeRepository, EmployeeCredentialService],
 })
 export class EmployeeModule {}
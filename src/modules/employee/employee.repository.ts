@@ -44,6 +44,21 @@ export class EmployeeRepository {
         });
     }
 
+    /**
+     * Find the employee record of a user, who is matched by email within the organization
+     */
+    async findByEmail(email: string, scope: DataScope): Promise<Employee | null> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.employee.findFirst({
+            where: {
+                email: { equals: email, mode: 'insensitive' },
+                isActive: true,
+                ...whereClause,
+            },
+        });
+    }
+
     async findMany(filters: any = {}, scope: DataScope): Promise<Employee[]> {
         const whereClause = QueryBuilder.buildBranchScope(scope);
 
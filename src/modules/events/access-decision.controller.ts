@@ -0,0 +1,45 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AccessDecisionService } from './access-decision.service';
+import { AccessDecisionRequestDto, AccessDecisionResponseDto } from '@/shared/dto';
+import { CurrentDevice, Public } from '@/shared/decorators';
+import { DeviceContext } from '@/shared/interfaces';
+import { DeviceAuthGuard } from '@/shared/guards/device-auth.guard';
+
+@ApiTags('Access Control')
+@Controller('api/v1/access')
+@UseGuards(DeviceAuthGuard)
+export class AccessDecisionController {
+    constructor(private readonly accessDecisionService: AccessDecisionService) {}
+
+    @Post('decisions')
+    @Public() // This endpoint uses DeviceAuthGuard instead of JWT
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Decide whether a card, QR code or PIN opens the door of a reader',
+        description:
+            'For door controllers that wait for the answer before unlocking. Every decision is ' +
+            'logged as a device event of the reader.',
+    })
+    @ApiHeader({ name: 'x-device-id', description: 'Unique ID of the device', required: true })
+    @ApiHeader({
+        name: 'x-device-signature',
+        description: 'Signature of the request, as for raw events',
+        required: true,
+    })
+    @ApiHeader({ name: 'x-timestamp', description: 'ISO 8601 time of the request', required: true })
+    @ApiHeader({ name: 'x-nonce', description: 'Unique value per request', required: true })
+    @ApiResponse({
+        status: 200,
+        description: 'Whether to unlock, for how long, and what to display.',
+        type: AccessDecisionResponseDto,
+    })
+    @ApiResponse({ status: 401, description: 'Unauthorized (e.g., invalid signature).' })
+    @ApiResponse({ status: 404, description: 'Reader not found in the branch of the device.' })
+    async decide(
+        @Body() requestDto: AccessDecisionRequestDto,
+        @CurrentDevice() device: DeviceContext
+    ): Promise<AccessDecisionResponseDto> {
+        return this.accessDecisionService.decide(requestDto, device);
+    }
+}
@@ -0,0 +1,299 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { AccessDecisionService } from './access-decision.service';
+import { EventRepository } from './event.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { EmployeeRepository } from '../employee/employee.repository';
+import { EmployeeCredentialService } from '../employee/employee-credential.service';
+import { AccessLevelRepository } from '../access-control/access-level.repository';
+import { AccessPolicyService } from '../access-control/access-policy.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { DeviceContext } from '@/shared/interfaces';
+
+describe('AccessDecisionService', () => {
+    let service: AccessDecisionService;
+    let eventRepository: jest.Mocked<EventRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let employeeCredentialService: jest.Mocked<EmployeeCredentialService>;
+    let accessLevelRepository: jest.Mocked<AccessLevelRepository>;
+    let accessPolicyService: jest.Mocked<AccessPolicyService>;
+    let cacheService: jest.Mocked<CacheService>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+
+    const device: DeviceContext = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        signature: 'signature',
+        timestamp: '2026-10-19T08:00:00.000Z',
+        authenticated: true,
+    };
+
+    const scope = { organizationId: 'org-123', branchIds: ['branch-123'] };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AccessDecisionService,
+                {
+                    provide: EventRepository,
+                    useValue: {
+                        createDeviceEventLog: jest.fn().mockResolvedValue({ id: 'event-log-123' }),
+                        recordProcessingOutcome: jest.fn(),
+                    },
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: {
+                        findById: jest.fn().mockResolvedValue(null),
+                        findByDeviceIdentifier: jest.fn().mockResolvedValue(null),
+                        findByMacAddress: jest.fn().mockResolvedValue(null),
+                    },
+                },
+                {
+                    provide: EmployeeRepository,
+                    useValue: {
+                        findById: jest.fn().mockResolvedValue({ id: 'emp-123', firstName: 'Aziz' }),
+                    },
+                },
+                {
+                    provide: EmployeeCredentialService,
+                    useValue: {
+                        findEmployeeIdByCredential: jest.fn().mockResolvedValue('emp-123'),
+                    },
+                },
+                {
+                    provide: AccessLevelRepository,
+                    useValue: { findGuestVisitByCredentialHash: jest.fn().mockResolvedValue(null) },
+                },
+                {
+                    provide: AccessPolicyService,
+                    useValue: {
+                        evaluate: jest.fn().mockResolvedValue({
+                            granted: true,
+                            doorId: 'door-1',
+                            zoneId: 'zone-1',
+                            accessLevelId: 'level-1',
+                            unlockSeconds: 8,
+                        }),
+                    },
+                },
+                {
+                    provide: CacheService,
+                    useValue: {
+                        getCachedData: jest.fn().mockResolvedValue(null),
+                        cacheData: jest.fn(),
+                    },
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: { processRawDeviceEvent: jest.fn() },
+                },
+                {
+                    provide: LoggerService,
+                    useValue: { log: jest.fn(), warn: jest.fn() },
+                },
+            ],
+        }).compile();
+
+        service = module.get<AccessDecisionService>(AccessDecisionService);
+        eventRepository = module.get(EventRepository);
+        deviceRepository = module.get(DeviceRepository);
+        employeeCredentialService = module.get(EmployeeCredentialService);
+        accessLevelRepository = module.get(AccessLevelRepository);
+        accessPolicyService = module.get(AccessPolicyService);
+        cacheService = module.get(CacheService);
+        queueProducer = module.get(QueueProducer);
+    });
+
+    it('should open the door for employees and queue the event for attendance', async () => {
+        const response = await service.decide(
+            { credentialType: 'CARD', credential: ' 04a1b2c3 ' },
+            device
+        );
+
+        expect(response).toEqual({
+            decisionId: 'event-log-123',
+            granted: true,
+            reason: undefined,
+            unlockSeconds: 8,
+            displayText: 'Welcome, Aziz',
+            doorId: 'door-1',
+        });
+        expect(employeeCredentialService.findEmployeeIdByCredential).toHaveBeenCalledWith(
+            'CARD',
+            '04a1b2c3',
+            scope
+        );
+        expect(accessPolicyService.evaluate).toHaveBeenCalledWith(
+            expect.objectContaining({ deviceId: 'device-123', employeeId: 'emp-123' })
+        );
+        // The decision travels with the event, logged under the ID it names
+        const { id, metadata } = eventRepository.createDeviceEventLog.mock.calls[0][0];
+        expect(metadata).toEqual(
+            expect.objectContaining({
+                eventType: 'access_decision',
+                employeeId: 'emp-123',
+                accessDecision: {
+                    decisionId: id,
+                    granted: true,
+                    reason: undefined,
+                    doorId: 'door-1',
+                },
+            })
+        );
+        expect(queueProducer.processRawDeviceEvent).toHaveBeenCalledWith(
+            expect.objectContaining({
+                deviceId: 'device-123',
+                rawData: metadata,
+                eventLogId: 'event-log-123',
+            })
+        );
+        expect(eventRepository.recordProcessingOutcome).not.toHaveBeenCalled();
+    });
+
+    it('should not keep the credential in the event log or the cache key', async () => {
+        await service.decide({ credentialType: 'PIN', credential: '1234' }, device);
+
+        const { metadata } = eventRepository.createDeviceEventLog.mock.calls[0][0];
+        expect(JSON.stringify(metadata)).not.toContain('1234');
+        expect(cacheService.cacheData.mock.calls[0][0]).not.toContain('1234');
+    });
+
+    it('should log denials with their reason and keep the door locked', async () => {
+        accessPolicyService.evaluate.mockResolvedValue({
+            granted: false,
+            reason: 'OUTSIDE_SCHEDULE',
+            doorId: 'door-1',
+            zoneId: 'zone-1',
+        });
+
+        const response = await service.decide(
+            { credentialType: 'CARD', credential: '04A1B2C3' },
+            device
+        );
+
+        expect(response).toEqual(
+            expect.objectContaining({
+                granted: false,
+                reason: 'OUTSIDE_SCHEDULE',
+                unlockSeconds: 0,
+                displayText: 'No access at this time',
+            })
+        );
+        expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+            'event-log-123',
+            'DENIED',
+            { employeeId: 'emp-123', denialReason: 'OUTSIDE_SCHEDULE' }
+        );
+        expect(queueProducer.processRawDeviceEvent).not.toHaveBeenCalled();
+    });
+
+    it('should validate QR codes against the credential hash of guest visits', async () => {
+        const hash = createHash('sha256').update('{"visitId":"visit-1"}').digest('hex');
+        accessLevelRepository.findGuestVisitByCredentialHash.mockResolvedValue({
+            id: 'visit-1',
+            guestName: 'Dilnoza',
+        });
+
+        const response = await service.decide(
+            { credentialType: 'QR_CODE', credential: hash.toUpperCase() },
+            device
+        );
+
+        expect(employeeCredentialService.findEmployeeIdByCredential).not.toHaveBeenCalled();
+        expect(accessLevelRepository.findGuestVisitByCredentialHash).toHaveBeenCalledWith(
+            hash,
+            scope
+        );
+        expect(accessPolicyService.evaluate).toHaveBeenCalledWith(
+            expect.objectContaining({ guestVisitId: 'visit-1', employeeId: undefined })
+        );
+        expect(response.displayText).toBe('Welcome, Dilnoza');
+        expect(eventRepository.recordProcessingOutcome).toHaveBeenCalledWith(
+            'event-log-123',
+            'MATCHED',
+            { employeeId: undefined, denialReason: undefined }
+        );
+    });
+
+    it('should fall back to the temporary cards of guests for unknown cards', async () => {
+        employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue(undefined);
+
+        await service.decide({ credentialType: 'CARD', credential: 'TEMP-1-ABC' }, device);
+
+        expect(accessLevelRepository.findGuestVisitByCredentialHash).toHaveBeenCalledWith(
+            createHash('sha256').update('TEMP-1-ABC').digest('hex'),
+            scope
+        );
+    });
+
+    it('should use cached credential holders', async () => {
+        cacheService.getCachedData.mockResolvedValue({ value: { employeeId: 'emp-cached' } });
+
+        await service.decide({ credentialType: 'CARD', credential: '04A1B2C3' }, device);
+
+        expect(employeeCredentialService.findEmployeeIdByCredential).not.toHaveBeenCalled();
+        expect(accessPolicyService.evaluate).toHaveBeenCalledWith(
+            expect.objectContaining({ employeeId: 'emp-cached' })
+        );
+    });
+
+    it('should not cache unknown credentials, so newly issued ones work at once', async () => {
+        employeeCredentialService.findEmployeeIdByCredential.mockResolvedValue(undefined);
+
+        await service.decide({ credentialType: 'PIN', credential: '1234' }, device);
+
+        expect(accessPolicyService.evaluate).toHaveBeenCalledWith(
+            expect.objectContaining({ employeeId: undefined, guestVisitId: undefined })
+        );
+        expect(cacheService.cacheData).not.toHaveBeenCalled();
+    });
+
+    it('should look up credentials in the database when the cache fails', async () => {
+        cacheService.getCachedData.mockRejectedValue(new Error('Redis unavailable'));
+        cacheService.cacheData.mockRejectedValue(new Error('Redis unavailable'));
+
+        await expect(
+            service.decide({ credentialType: 'CARD', credential: '04A1B2C3' }, device)
+        ).resolves.toEqual(expect.objectContaining({ granted: true }));
+        expect(employeeCredentialService.findEmployeeIdByCredential).toHaveBeenCalled();
+    });
+
+    it('should decide for readers in the branch of the controller', async () => {
+        deviceRepository.findByMacAddress.mockResolvedValue({
+            id: 'reader-1',
+            branchId: 'branch-123',
+        } as any);
+
+        await service.decide(
+            { credentialType: 'CARD', credential: '04A1B2C3', readerId: 'AA:BB:CC:DD:EE:FF' },
+            device
+        );
+
+        expect(accessPolicyService.evaluate).toHaveBeenCalledWith(
+            expect.objectContaining({ deviceId: 'reader-1' })
+        );
+        expect(eventRepository.createDeviceEventLog).toHaveBeenCalledWith(
+            expect.objectContaining({ deviceId: 'reader-1' })
+        );
+    });
+
+    it('should reject readers of other branches', async () => {
+        deviceRepository.findById.mockResolvedValue({
+            id: 'reader-2',
+            branchId: 'branch-other',
+        } as any);
+
+        await expect(
+            service.decide(
+                { credentialType: 'CARD', credential: '04A1B2C3', readerId: 'reader-2' },
+                device
+            )
+        ).rejects.toThrow(NotFoundException);
+        expect(eventRepository.createDeviceEventLog).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,281 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AccessDenialReason, CredentialType, DeviceEventOutcome } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { EventRepository } from './event.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { EmployeeRepository } from '../employee/employee.repository';
+import {
+    CREDENTIAL_HOLDER_CACHE_PREFIX,
+    EmployeeCredentialService,
+} from '../employee/employee-credential.service';
+import { AccessLevelRepository } from '../access-control/access-level.repository';
+import { AccessPolicyService } from '../access-control/access-policy.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import {
+    AccessDecisionRequestDto,
+    AccessDecisionResponseDto,
+    DEFAULT_DOOR_UNLOCK_SECONDS,
+} from '@/shared/dto';
+import { DeviceContext } from '@/shared/interfaces';
+
+export const ACCESS_DECISION_EVENT_TYPE = 'access_decision';
+
+/**
+ * How long readers and credential holders stay cached. Changing an employee credential clears
+ * its holders at once and unknown credentials are not cached, so a newly issued one opens doors
+ * straight away; access levels and the state of employees and visits are always read afresh.
+ */
+const LOOKUP_CACHE_TTL_SECONDS = 60;
+
+/**
+ * The event logged for an access decision and queued for processing. The decision is kept so
+ * processing records what the reader did rather than evaluating the access policy again.
+ */
+export interface AccessDecisionPayload {
+    eventType: typeof ACCESS_DECISION_EVENT_TYPE;
+    credentialType: AccessDecisionRequestDto['credentialType'];
+    readerId: string;
+    employeeId?: string;
+    guestVisitId?: string;
+    accessDecision: {
+        /** The ID of the event log the decision was recorded under */
+        decisionId: string;
+        granted: boolean;
+        reason?: AccessDenialReason;
+        doorId?: string;
+    };
+}
+
+/** Whom a credential identifies, with the name the reader greets them by */
+interface CredentialHolder {
+    employeeId?: string;
+    guestVisitId?: string;
+    name?: string;
+}
+
+const DENIAL_TEXTS: Record<AccessDenialReason, string> = {
+    UNKNOWN_CREDENTIAL: 'Unknown card or code',
+    EMPLOYEE_INACTIVE: 'Access denied',
+    GUEST_VISIT_NOT_ACTIVE: 'Visit not active',
+    NO_ACCESS_LEVEL: 'No access',
+    ZONE_NOT_PERMITTED: 'No access to this area',
+    OUTSIDE_SCHEDULE: 'No access at this time',
+};
+
+@Injectable()
+export class AccessDecisionService {
+    constructor(
+        private readonly eventRepository: EventRepository,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly employeeCredentialService: EmployeeCredentialService,
+        private readonly accessLevelRepository: AccessLevelRepository,
+        private readonly accessPolicyService: AccessPolicyService,
+        private readonly cacheService: CacheService,
+        private readonly queueProducer: QueueProducer,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Decide at once whether the credential presented at a reader opens its door, for
+     * controllers that wait for the answer. The decision is logged as a device event; granted
+     * employees are then processed with it like any other event, so their attendance is recorded.
+     */
+    async decide(
+        request: AccessDecisionRequestDto,
+        device: DeviceContext
+    ): Promise<AccessDecisionResponseDto> {
+        const timestamp = new Date();
+        const readerId = await this.resolveReader(request.readerId, device);
+        const holder = await this.resolveHolder(request, device);
+
+        const decision = await this.accessPolicyService.evaluate({
+            organizationId: device.organizationId,
+            deviceId: readerId,
+            timestamp,
+            employeeId: holder.employeeId,
+            guestVisitId: holder.guestVisitId,
+        });
+
+        // The event log doubles as the raw payload, so a replay carries the decision as well
+        const decisionId = randomUUID();
+        const payload: AccessDecisionPayload = {
+            eventType: ACCESS_DECISION_EVENT_TYPE,
+            credentialType: request.credentialType,
+            readerId,
+            employeeId: holder.employeeId,
+            guestVisitId: holder.guestVisitId,
+            accessDecision: {
+                decisionId,
+                granted: decision.granted,
+                reason: decision.reason,
+                doorId: decision.doorId,
+            },
+        };
+        const eventLog = await this.eventRepository.createDeviceEventLog({
+            id: decisionId,
+            deviceId: readerId,
+            eventType: ACCESS_DECISION_EVENT_TYPE,
+            metadata: payload,
+            timestamp,
+            organizationId: device.organizationId,
+        });
+
+        if (decision.granted && holder.employeeId) {
+            // Processed with the decision the reader acted on, which is not evaluated again
+            await this.queueProducer.processRawDeviceEvent({
+                deviceId: readerId,
+                eventType: ACCESS_DECISION_EVENT_TYPE,
+                timestamp,
+                rawData: payload,
+                organizationId: device.organizationId,
+                branchId: device.branchId,
+                idempotencyKey: `${ACCESS_DECISION_EVENT_TYPE}-${eventLog.id}`,
+                eventLogId: eventLog.id,
+            });
+        } else {
+            await this.eventRepository.recordProcessingOutcome(
+                eventLog.id,
+                decision.granted ? DeviceEventOutcome.MATCHED : DeviceEventOutcome.DENIED,
+                { employeeId: holder.employeeId, denialReason: decision.reason }
+            );
+        }
+
+        this.logger.log('Access decision made', {
+            decisionId: eventLog.id,
+            deviceId: device.id,
+            readerId,
+            granted: decision.granted,
+            reason: decision.reason,
+        });
+
+        return {
+            decisionId: eventLog.id,
+            granted: decision.granted,
+            reason: decision.reason,
+            unlockSeconds: decision.granted
+                ? decision.unlockSeconds || DEFAULT_DOOR_UNLOCK_SECONDS
+                : 0,
+            displayText: decision.granted
+                ? holder.name
+                    ? `Welcome, ${holder.name}`
+                    : 'Welcome'
+                : DENIAL_TEXTS[decision.reason],
+            doorId: decision.doorId,
+        };
+    }
+
+    /**
+     * The device the credential was presented at: the controller itself, or a reader in its
+     * branch named by ID, identifier or MAC address
+     */
+    private async resolveReader(readerId: string | undefined, device: DeviceContext) {
+        if (!readerId || readerId === device.id) {
+            return device.id;
+        }
+
+        const reader = await this.cached(`access:reader:${device.id}:${readerId}`, async () => {
+            const scope = { organizationId: device.organizationId };
+            const found =
+                (await this.deviceRepository.findById(readerId, scope)) ||
+                (await this.deviceRepository.findByDeviceIdentifier(readerId, scope)) ||
+                (await this.deviceRepository.findByMacAddress(readerId, scope));
+
+            return found && found.branchId === device.branchId ? found.id : null;
+        });
+        if (!reader) {
+            throw new NotFoundException('Reader not found');
+        }
+
+        return reader;
+    }
+
+    /**
+     * Whom the credential identifies in the branch of the controller. Cards are looked up
+     * among employee credentials first, then among the temporary cards issued to guests; QR
+     * codes are always issued to guests and PINs only to employees.
+     */
+    private async resolveHolder(
+        request: AccessDecisionRequestDto,
+        device: DeviceContext
+    ): Promise<CredentialHolder> {
+        const credential = request.credential.trim();
+        const scope = { organizationId: device.organizationId, branchIds: [device.branchId] };
+        // Keyed by a hash so that no card number or PIN is kept in the cache
+        const key =
+            `${CREDENTIAL_HOLDER_CACHE_PREFIX}:${device.organizationId}:${device.branchId}:` +
+            `${request.credentialType}:${this.sha256(credential)}`;
+
+        const holder = await this.cached(key, async () => {
+            if (request.credentialType !== 'QR_CODE') {
+                const employeeId = await this.employeeCredentialService.findEmployeeIdByCredential(
+                    request.credentialType as CredentialType,
+                    credential,
+                    scope
+                );
+                if (employeeId) {
+                    const employee = await this.employeeRepository.findById(employeeId, scope);
+
+                    return { employeeId, name: employee?.firstName };
+                }
+                if (request.credentialType === 'PIN') {
+                    return null;
+                }
+            }
+
+            const accessCredentialHash =
+                request.credentialType === 'QR_CODE'
+                    ? credential.toLowerCase()
+                    : this.sha256(credential);
+            const visit = await this.accessLevelRepository.findGuestVisitByCredentialHash(
+                accessCredentialHash,
+                scope
+            );
+
+            return visit ? { guestVisitId: visit.id, name: visit.guestName } : null;
+        });
+
+        return holder || {};
+    }
+
+    /**
+     * Read a lookup through the cache. Nothing found (null) is not cached, so what is created
+     * meanwhile is found at once. The cache only saves time: when it fails, the lookup goes to
+     * the database.
+     */
+    private async cached<T>(key: string, load: () => Promise<T | null>): Promise<T | null> {
+        try {
+            const hit = await this.cacheService.getCachedData<{ value: T }>(key);
+            if (hit) {
+                return hit.value;
+            }
+        } catch (error) {
+            this.logger.warn('Failed to read the access decision cache', {
+                key,
+                error: error.message,
+            });
+        }
+
+        const value = await load();
+        if (value === null) {
+            return value;
+        }
+
+        try {
+            await this.cacheService.cacheData(key, { value }, LOOKUP_CACHE_TTL_SECONDS);
+        } catch (error) {
+            this.logger.warn('Failed to write the access decision cache', {
+                key,
+                error: error.message,
+            });
+        }
+
+        return value;
+    }
+
+    private sha256(value: string): string {
+        return createHash('sha256').update(value).digest('hex');
+    }
+}
@@ -0,0 +1,183 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    NotFoundException,
+    Param,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { EventService } from './event.service';
+import { DeviceEventLogWithDetails } from './event.repository';
+import { EventReplayService } from './event-replay.service';
+import {
+    DeviceEventLogResponseDto,
+    DeviceEventReplayResponseDto,
+    DeviceTimelineQueryDto,
+    DeviceTimelineResponseDto,
+    EventLogFiltersDto,
+    MAX_REPLAY_EVENTS,
+    PaginationDto,
+    PaginationResponseDto,
+    ReplayDeviceEventsDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Event Logs')
+@ApiBearerAuth()
+@Controller('event-logs')
+export class EventLogController {
+    constructor(
+        private readonly eventService: EventService,
+        private readonly eventReplayService: EventReplayService
+    ) {}
+
+    @Get()
+    @Permissions('event:read:all')
+    @ApiOperation({ summary: 'Get the events devices sent, with filters and pagination' })
+    @ApiQuery({ name: 'filtersDto', type: EventLogFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A paginated list of device events, newest first.',
+        type: PaginationResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getEventLogs(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: EventLogFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<DeviceEventLogResponseDto>> {
+        const filters = {
+            deviceId: filtersDto.deviceId,
+            branchId: filtersDto.branchId,
+            employeeId: filtersDto.employeeId,
+            eventType: filtersDto.eventType,
+            isProcessed: filtersDto.isProcessed,
+            outcome: filtersDto.outcome,
+            startDate: filtersDto.startDate ? new Date(filtersDto.startDate) : undefined,
+            endDate: filtersDto.endDate ? new Date(filtersDto.endDate) : undefined,
+        };
+
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const result = await this.eventService.getEventLogs(filters, scope, { page, limit });
+
+        return new PaginationResponseDto(
+            result.data.map(eventLog => this.toResponse(eventLog)),
+            result.total,
+            result.page,
+            result.limit
+        );
+    }
+
+    @Get('devices/:deviceId/timeline')
+    @Permissions('event:read:all')
+    @ApiOperation({
+        summary: 'Get what a device sent and what became of it',
+        description:
+            'Each event with the employee it was matched to, the outcome of its processing and ' +
+            'the attendance records it produced. Covers the last day unless a range is given.',
+    })
+    @ApiParam({ name: 'deviceId', description: 'ID of the device' })
+    @ApiResponse({
+        status: 200,
+        description: 'The events of the device, newest first.',
+        type: DeviceTimelineResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Device not found.' })
+    async getDeviceTimeline(
+        @Param('deviceId') deviceId: string,
+        @Query() queryDto: DeviceTimelineQueryDto,
+        @Scope() scope: DataScope
+    ): Promise<DeviceTimelineResponseDto> {
+        return this.eventService.getDeviceTimeline(
+            deviceId,
+            {
+                startDate: queryDto.startDate ? new Date(queryDto.startDate) : undefined,
+                endDate: queryDto.endDate ? new Date(queryDto.endDate) : undefined,
+                limit: queryDto.limit,
+            },
+            scope
+        );
+    }
+
+    @Get(':id')
+    @Permissions('event:read:all')
+    @ApiOperation({ summary: 'Get a device event by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the event log entry' })
+    @ApiResponse({ status: 200, type: DeviceEventLogResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Event not found.' })
+    async getEventLogById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<DeviceEventLogResponseDto> {
+        const eventLog = await this.eventService.getEventLogById(id, scope);
+        if (!eventLog) {
+            throw new NotFoundException('Event not found');
+        }
+
+        return this.toResponse(eventLog);
+    }
+
+    @Post('replay')
+    @Permissions('event:replay')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Process recorded device events again to rebuild attendance',
+        description:
+            `Replays up to ${MAX_REPLAY_EVENTS} events of a time range from their raw payloads, ` +
+            'e.g. after a matching or pairing fix. A dry run reports the attendance changes ' +
+            'without making them.',
+    })
+    @ApiBody({ type: ReplayDeviceEventsDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The events queued, or for a dry run the attendance changes.',
+        type: DeviceEventReplayResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid time range or too many events.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async replayEvents(
+        @Body() replayDto: ReplayDeviceEventsDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<DeviceEventReplayResponseDto> {
+        return this.eventReplayService.replayEvents(replayDto, scope, user.sub);
+    }
+
+    private toResponse(eventLog: DeviceEventLogWithDetails): DeviceEventLogResponseDto {
+        return {
+            id: eventLog.id,
+            deviceId: eventLog.deviceId,
+            eventType: eventLog.eventType,
+            metadata: eventLog.metadata,
+            rawPayloadUrl: eventLog.rawPayloadUrl,
+            timestamp: eventLog.timestamp,
+            organizationId: eventLog.organizationId,
+            isProcessed: eventLog.isProcessed,
+            outcome: eventLog.outcome,
+            denialReason: eventLog.denialReason,
+            employeeId: eventLog.employeeId,
+            processingError: eventLog.processingError,
+            processedAt: eventLog.processedAt,
+            createdAt: eventLog.createdAt,
+            device: eventLog.device,
+            employee: eventLog.employee,
+        };
+    }
+}
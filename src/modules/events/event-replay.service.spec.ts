@@ -0,0 +1,301 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { EventReplayService } from './event-replay.service';
+import { EventRepository } from './event.repository';
+import { EventService } from './event.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { DeviceEventProcessor } from '@/core/queue/processors/device-event.processor';
+import { AttendanceService } from '@/modules/attendance/attendance.service';
+import { MAX_REPLAY_EVENTS } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+
+describe('EventReplayService', () => {
+    let service: EventReplayService;
+    let eventRepository: jest.Mocked<EventRepository>;
+    let attendanceService: jest.Mocked<AttendanceService>;
+    let deviceEventProcessor: jest.Mocked<DeviceEventProcessor>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const at = (time: string) => new Date(`2026-10-19T${time}:00.000Z`);
+
+    const eventLog = (id: string, time: string) => ({
+        id,
+        organizationId: 'org-123',
+        deviceId: 'device-123',
+        eventType: 'card.read',
+        timestamp: at(time),
+        rawPayloadUrl: `device-events/${id}.json`,
+        metadata: {},
+        isProcessed: true,
+        employeeId: null,
+        createdAt: at(time),
+        device: { id: 'device-123', branchId: 'branch-123' },
+    });
+
+    const replayDto = {
+        startDate: '2026-10-19T00:00:00.000Z',
+        endDate: '2026-10-19T23:59:59.999Z',
+    };
+
+    beforeEach(async () => {
+        const mockEventRepository = {
+            findEventLogsForReplay: jest
+                .fn()
+                .mockResolvedValue([eventLog('log-1', '08:00'), eventLog('log-2', '12:00')]),
+        };
+
+        const mockEventService = {
+            getRawPayload: jest
+                .fn()
+                .mockImplementation(async log => ({ eventType: 'card.read', cardId: log.id })),
+        };
+
+        const mockAttendanceService = {
+            getDeviceEventAttendance: jest.fn().mockResolvedValue([]),
+            getAttendanceDayStart: jest.fn().mockResolvedValue(at('00:00')),
+            getDayPunches: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockDeviceEventProcessor = {
+            resolveEmployee: jest.fn(),
+        };
+
+        const mockQueueProducer = {
+            replayDeviceEvent: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+            warn: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EventReplayService,
+                {
+                    provide: EventRepository,
+                    useValue: mockEventRepository,
+                },
+                {
+                    provide: EventService,
+                    useValue: mockEventService,
+                },
+                {
+                    provide: AttendanceService,
+                    useValue: mockAttendanceService,
+                },
+                {
+                    provide: DeviceEventProcessor,
+                    useValue: mockDeviceEventProcessor,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<EventReplayService>(EventReplayService);
+        eventRepository = module.get(EventRepository);
+        attendanceService = module.get(AttendanceService);
+        deviceEventProcessor = module.get(DeviceEventProcessor);
+        queueProducer = module.get(QueueProducer);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should queue the events from their raw payloads, oldest first', async () => {
+        eventRepository.findEventLogsForReplay.mockResolvedValue([
+            { ...eventLog('log-1', '08:00'), employeeId: 'emp-456' },
+            eventLog('log-2', '12:00'),
+        ] as any);
+
+        const result = await service.replayEvents(
+            { ...replayDto, deviceId: 'device-123', unprocessedOnly: true },
+            mockScope,
+            'user-123'
+        );
+
+        expect(result).toEqual({ dryRun: false, events: 2, queued: 2 });
+        expect(eventRepository.findEventLogsForReplay).toHaveBeenCalledWith(
+            expect.objectContaining({ deviceId: 'device-123', unprocessedOnly: true }),
+            mockScope,
+            MAX_REPLAY_EVENTS + 1
+        );
+        expect(queueProducer.replayDeviceEvent.mock.calls.map(([data]) => data)).toEqual([
+            expect.objectContaining({
+                eventLogId: 'log-1',
+                branchId: 'branch-123',
+                rawData: { eventType: 'card.read', cardId: 'log-1' },
+                previousEmployeeId: 'emp-456',
+            }),
+            expect.objectContaining({ eventLogId: 'log-2', previousEmployeeId: undefined }),
+        ]);
+        expect(loggerService.logUserAction).toHaveBeenCalledWith(
+            'user-123',
+            'DEVICE_EVENTS_REPLAYED',
+            expect.objectContaining({ events: 2 }),
+            'org-123',
+            undefined
+        );
+    });
+
+    it('should report the attendance changes of a dry run without queueing', async () => {
+        // log-1 was matched to the wrong employee; after the fix it belongs to emp-123 and log-2
+        // still matches nobody
+        attendanceService.getDeviceEventAttendance.mockImplementation(
+            async (deviceId, timestamp, eventLogId) =>
+                eventLogId === 'log-1'
+                    ? [
+                          {
+                              id: 'attendance-1',
+                              employeeId: 'emp-999',
+                              eventType: 'CHECK_IN',
+                              timestamp: at('08:00'),
+                              corrected: false,
+                          },
+                      ]
+                    : []
+        );
+        deviceEventProcessor.resolveEmployee.mockImplementation(async data =>
+            data.eventLogId === 'log-1' ? 'emp-123' : undefined
+        );
+        attendanceService.getDayPunches.mockImplementation(async employeeId =>
+            employeeId === 'emp-123'
+                ? [{ id: 'attendance-3', eventType: 'CHECK_IN', timestamp: at('17:00') }]
+                : [
+                      { id: 'attendance-1', eventType: 'CHECK_IN', timestamp: at('08:00') },
+                      { id: 'attendance-2', eventType: 'CHECK_OUT', timestamp: at('18:00') },
+                  ]
+        );
+
+        const result = await service.replayEvents(
+            { ...replayDto, dryRun: true },
+            mockScope,
+            'user-123'
+        );
+
+        expect(result).toEqual({
+            dryRun: true,
+            events: 2,
+            queued: 0,
+            changes: [
+                {
+                    change: 'update',
+                    attendanceId: 'attendance-1',
+                    eventLogId: 'log-1',
+                    deviceId: 'device-123',
+                    timestamp: at('08:00'),
+                    before: { employeeId: 'emp-999', eventType: 'CHECK_IN' },
+                    after: { employeeId: 'emp-123', eventType: 'CHECK_IN' },
+                },
+                {
+                    change: 'update',
+                    attendanceId: 'attendance-3',
+                    timestamp: at('17:00'),
+                    before: { employeeId: 'emp-123', eventType: 'CHECK_IN' },
+                    after: { employeeId: 'emp-123', eventType: 'CHECK_OUT' },
+                },
+                {
+                    change: 'update',
+                    attendanceId: 'attendance-2',
+                    timestamp: at('18:00'),
+                    before: { employeeId: 'emp-999', eventType: 'CHECK_OUT' },
+                    after: { employeeId: 'emp-999', eventType: 'CHECK_IN' },
+                },
+            ],
+        });
+        expect(queueProducer.replayDeviceEvent).not.toHaveBeenCalled();
+    });
+
+    it('should report new and removed attendance in a dry run', async () => {
+        attendanceService.getDeviceEventAttendance.mockImplementation(
+            async (deviceId, timestamp, eventLogId) =>
+                eventLogId === 'log-2'
+                    ? [
+                          {
+                              id: 'attendance-2',
+                              employeeId: 'emp-999',
+                              eventType: 'CHECK_IN',
+                              timestamp: at('12:00'),
+                              corrected: false,
+                          },
+                      ]
+                    : []
+        );
+        deviceEventProcessor.resolveEmployee.mockImplementation(async data =>
+            data.eventLogId === 'log-1' ? 'emp-123' : undefined
+        );
+
+        const { changes } = await service.replayEvents(
+            { ...replayDto, dryRun: true },
+            mockScope,
+            'user-123'
+        );
+
+        expect(changes).toEqual([
+            expect.objectContaining({
+                change: 'create',
+                eventLogId: 'log-1',
+                after: { employeeId: 'emp-123', eventType: 'CHECK_IN' },
+            }),
+            expect.objectContaining({
+                change: 'delete',
+                eventLogId: 'log-2',
+                attendanceId: 'attendance-2',
+            }),
+        ]);
+    });
+
+    it('should leave events whose attendance was corrected out of a dry run', async () => {
+        attendanceService.getDeviceEventAttendance.mockResolvedValue([
+            {
+                id: 'attendance-1',
+                employeeId: 'emp-999',
+                eventType: 'CHECK_IN',
+                timestamp: at('08:00'),
+                corrected: true,
+            },
+        ]);
+
+        const { changes } = await service.replayEvents(
+            { ...replayDto, dryRun: true },
+            mockScope,
+            'user-123'
+        );
+
+        expect(changes).toEqual([]);
+        expect(deviceEventProcessor.resolveEmployee).not.toHaveBeenCalled();
+    });
+
+    it('should reject replays of too many events', async () => {
+        eventRepository.findEventLogsForReplay.mockResolvedValue(
+            new Array(MAX_REPLAY_EVENTS + 1).fill(eventLog('log-1', '08:00'))
+        );
+
+        await expect(service.replayEvents(replayDto, mockScope, 'user-123')).rejects.toThrow(
+            BadRequestException
+        );
+        expect(queueProducer.replayDeviceEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time range that ends before it starts', async () => {
+        await expect(
+            service.replayEvents(
+                { startDate: replayDto.endDate, endDate: replayDto.startDate },
+                mockScope,
+                'user-123'
+            )
+        ).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,264 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { EventRepository } from './event.repository';
+import { EventService } from './event.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DeviceEventData, QueueProducer } from '@/core/queue/queue.producer';
+import { DeviceEventProcessor } from '@/core/queue/processors/device-event.processor';
+import { AttendanceService, DeviceEventAttendance } from '@/modules/attendance/attendance.service';
+import {
+    AttendanceReplayChangeDto,
+    DeviceEventReplayResponseDto,
+    MAX_REPLAY_EVENTS,
+    ReplayDeviceEventsDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { AttendanceDayUtil, SequencedPunch } from '@/shared/utils';
+
+interface ReplayedEvent {
+    data: DeviceEventData;
+    /** Attendance the event recorded before, replaced by the replay */
+    previous: DeviceEventAttendance[];
+    employeeId?: string;
+    dayKey?: string;
+}
+
+interface AffectedDay {
+    employeeId: string;
+    dayStart: Date;
+    data: DeviceEventData;
+}
+
+@Injectable()
+export class EventReplayService {
+    constructor(
+        private readonly eventRepository: EventRepository,
+        private readonly eventService: EventService,
+        private readonly attendanceService: AttendanceService,
+        private readonly deviceEventProcessor: DeviceEventProcessor,
+        private readonly queueProducer: QueueProducer,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Process the device events matching the filters again from their raw payloads, oldest
+     * first, replacing the attendance they recorded. Attendance an approved correction changed
+     * stands. A dry run reports the attendance changes instead of queueing the events.
+     */
+    async replayEvents(
+        replayDto: ReplayDeviceEventsDto,
+        scope: DataScope,
+        requestedByUserId: string,
+        correlationId?: string
+    ): Promise<DeviceEventReplayResponseDto> {
+        const startDate = new Date(replayDto.startDate);
+        const endDate = new Date(replayDto.endDate);
+        if (startDate > endDate) {
+            throw new BadRequestException('startDate must not be after endDate');
+        }
+
+        const eventLogs = await this.eventRepository.findEventLogsForReplay(
+            {
+                startDate,
+                endDate,
+                deviceId: replayDto.deviceId,
+                eventType: replayDto.eventType,
+                unprocessedOnly: replayDto.unprocessedOnly,
+            },
+            scope,
+            MAX_REPLAY_EVENTS + 1
+        );
+        if (eventLogs.length > MAX_REPLAY_EVENTS) {
+            throw new BadRequestException(
+                `More than ${MAX_REPLAY_EVENTS} events match; narrow the time range or filters`
+            );
+        }
+
+        const events: DeviceEventData[] = [];
+        for (const eventLog of eventLogs) {
+            events.push({
+                deviceId: eventLog.deviceId,
+                eventType: eventLog.eventType,
+                timestamp: eventLog.timestamp,
+                rawData: await this.eventService.getRawPayload(eventLog),
+                organizationId: eventLog.organizationId,
+                branchId: eventLog.device.branchId,
+                eventLogId: eventLog.id,
+                previousEmployeeId: eventLog.employeeId || undefined,
+                correlationId,
+            });
+        }
+
+        if (replayDto.dryRun) {
+            return {
+                dryRun: true,
+                events: events.length,
+                queued: 0,
+                changes: await this.previewChanges(events),
+            };
+        }
+
+        for (const event of events) {
+            await this.queueProducer.replayDeviceEvent(event);
+        }
+
+        this.logger.logUserAction(
+            requestedByUserId,
+            'DEVICE_EVENTS_REPLAYED',
+            {
+                startDate,
+                endDate,
+                deviceId: replayDto.deviceId,
+                eventType: replayDto.eventType,
+                unprocessedOnly: !!replayDto.unprocessedOnly,
+                events: events.length,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return { dryRun: false, events: events.length, queued: events.length };
+    }
+
+    /**
+     * Work out the attendance a replay would leave: each event is identified again, replaces
+     * what it recorded before, and every attendance day it touches is re-sequenced as the
+     * processor does
+     */
+    private async previewChanges(events: DeviceEventData[]): Promise<AttendanceReplayChangeDto[]> {
+        const replayed: ReplayedEvent[] = [];
+        const replacedIds = new Set<string>();
+        const days = new Map<string, AffectedDay>();
+
+        const addDay = async (employeeId: string, data: DeviceEventData) => {
+            const dayStart = await this.attendanceService.getAttendanceDayStart(
+                employeeId,
+                new Date(data.timestamp),
+                this.getScope(data),
+                data.branchId
+            );
+            const dayKey = `${employeeId}|${dayStart.toISOString()}`;
+            if (!days.has(dayKey)) {
+                days.set(dayKey, { employeeId, dayStart, data });
+            }
+            return dayKey;
+        };
+
+        for (const data of events) {
+            const previous = await this.attendanceService.getDeviceEventAttendance(
+                data.deviceId,
+                new Date(data.timestamp),
+                data.eventLogId!,
+                this.getScope(data),
+                data.previousEmployeeId
+            );
+            if (previous.some(record => record.corrected)) {
+                continue;
+            }
+
+            const event: ReplayedEvent = {
+                data,
+                previous,
+                employeeId: await this.deviceEventProcessor.resolveEmployee(data),
+            };
+            if (event.employeeId) {
+                event.dayKey = await addDay(event.employeeId, data);
+            }
+            for (const record of previous) {
+                replacedIds.add(record.id);
+                await addDay(record.employeeId, data);
+            }
+
+            replayed.push(event);
+        }
+
+        const changes: AttendanceReplayChangeDto[] = [];
+        const replayedTypes = new Map<string, string>();
+
+        for (const [dayKey, day] of days) {
+            const current = await this.attendanceService.getDayPunches(
+                day.employeeId,
+                day.dayStart,
+                this.getScope(day.data)
+            );
+            const kept = current.filter(punch => !replacedIds.has(punch.id));
+            const added: SequencedPunch[] = replayed
+                .filter(event => event.dayKey === dayKey)
+                .map(event => ({
+                    id: event.data.eventLogId!,
+                    eventType: 'CHECK_IN',
+                    timestamp: new Date(event.data.timestamp),
+                }));
+            const sequence = AttendanceDayUtil.sequencePunches([...kept, ...added]);
+
+            added.forEach(punch =>
+                replayedTypes.set(punch.id, sequence.get(punch.id) || punch.eventType)
+            );
+            kept.filter(punch => sequence.has(punch.id)).forEach(punch =>
+                changes.push({
+                    change: 'update',
+                    attendanceId: punch.id,
+                    timestamp: punch.timestamp,
+                    before: { employeeId: day.employeeId, eventType: punch.eventType },
+                    after: { employeeId: day.employeeId, eventType: sequence.get(punch.id)! },
+                })
+            );
+        }
+
+        for (const { data, previous, employeeId } of replayed) {
+            const change = {
+                eventLogId: data.eventLogId,
+                deviceId: data.deviceId,
+                timestamp: new Date(data.timestamp),
+            };
+            const after = employeeId
+                ? { employeeId, eventType: replayedTypes.get(data.eventLogId!)! }
+                : undefined;
+            const [replaced, ...duplicates] = previous;
+
+            if (!replaced) {
+                if (after) {
+                    changes.push({ ...change, change: 'create', after });
+                }
+            } else {
+                const before = { employeeId: replaced.employeeId, eventType: replaced.eventType };
+                if (!after) {
+                    changes.push({
+                        ...change,
+                        change: 'delete',
+                        attendanceId: replaced.id,
+                        before,
+                    });
+                } else if (
+                    after.employeeId !== before.employeeId ||
+                    after.eventType !== before.eventType
+                ) {
+                    changes.push({
+                        ...change,
+                        change: 'update',
+                        attendanceId: replaced.id,
+                        before,
+                        after,
+                    });
+                }
+            }
+
+            duplicates.forEach(record =>
+                changes.push({
+                    ...change,
+                    change: 'delete',
+                    attendanceId: record.id,
+                    before: { employeeId: record.employeeId, eventType: record.eventType },
+                })
+            );
+        }
+
+        return changes.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    private getScope(data: DeviceEventData): DataScope {
+        return {
+            organizationId: data.organizationId,
+            branchIds: [data.branchId],
+        };
+    }
+}
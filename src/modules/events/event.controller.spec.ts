@@ -1,18 +1,27 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, UnauthorizedException } from '@nestjs/common';
 import { EventController } from './event.controller';
 import { EventService } from './event.service';
+import { DeviceHeartbeatService } from '@/modules/device/device-heartbeat.service';
+import { ConfigService } from '@/core/config/config.service';
 import { LoggerService } from '@/core/logger/logger.service';
+import { PrismaService } from '@/core/database/prisma.service';
+import { CacheService } from '@/core/cache/cache.service';
 import { CreateRawEventDto } from '@/shared/dto';
 
 describe('EventController', () => {
     let controller: EventController;
     let eventService: jest.Mocked<EventService>;
+    let deviceHeartbeatService: jest.Mocked<DeviceHeartbeatService>;
     let loggerService: jest.Mocked<LoggerService>;
 
     beforeEach(async () => {
         const mockEventService = {
             processRawEvent: jest.fn(),
+            processRawEventBatch: jest.fn(),
+        };
+
+        const mockDeviceHeartbeatService = {
+            recordHeartbeat: jest.fn(),
         };
 
         const mockLoggerService = {
@@ -29,15 +38,32 @@ describe('EventController', () => {
                     provide: EventService,
                     useValue: mockEventService,
                 },
+                {
+                    provide: DeviceHeartbeatService,
+                    useValue: mockDeviceHeartbeatService,
+                },
                 {
                     provide: LoggerService,
                     useValue: mockLoggerService,
                 },
+                {
+                    provide: PrismaService,
+                    useValue: {},
+                },
+                {
+                    provide: CacheService,
+                    useValue: {},
+                },
+                {
+                    provide: ConfigService,
+                    useValue: {},
+                },
             ],
         }).compile();
 
         controller = module.get<EventController>(EventController);
         eventService = module.get(EventService);
+        deviceHeartbeatService = module.get(DeviceHeartbeatService);
         loggerService = module.get(LoggerService);
     });
 
@@ -46,6 +72,15 @@ describe('EventController', () => {
     });
 
     describe('processRawEvent', () => {
+        const device = {
+            id: 'device-123',
+            organizationId: 'org-123',
+            branchId: 'branch-123',
+            signature: 'a'.repeat(64),
+            timestamp: new Date().toISOString(),
+            authenticated: true as const,
+        };
+
         const mockEventDto: CreateRawEventDto = {
             eventType: 'access_attempt',
             timestamp: new Date().toISOString(),
@@ -55,23 +90,16 @@ describe('EventController', () => {
 
         it('should process raw event successfully', async () => {
             const deviceId = 'device-123';
-            const signature = 'dev-mock-signature';
             const idempotencyKey = 'unique-key-123';
             const eventId = 'event-456';
 
             eventService.processRawEvent.mockResolvedValue(eventId);
 
-            const result = await controller.processRawEvent(
-                mockEventDto,
-                deviceId,
-                signature,
-                idempotencyKey
-            );
+            const result = await controller.processRawEvent(mockEventDto, device, idempotencyKey);
 
             expect(eventService.processRawEvent).toHaveBeenCalledWith(
                 mockEventDto,
                 deviceId,
-                signature,
                 idempotencyKey
             );
 
@@ -94,42 +122,22 @@ describe('EventController', () => {
 
         it('should generate idempotency key if not provided', async () => {
             const deviceId = 'device-123';
-            const signature = 'dev-mock-signature';
             const eventId = 'event-456';
 
             eventService.processRawEvent.mockResolvedValue(eventId);
 
-            const result = await controller.processRawEvent(mockEventDto, deviceId, signature);
+            const result = await controller.processRawEvent(mockEventDto, device);
 
             expect(eventService.processRawEvent).toHaveBeenCalledWith(
                 mockEventDto,
                 deviceId,
-                signature,
                 expect.stringContaining(deviceId)
             );
 
             expect(result.eventId).toBe(eventId);
         });
 
-        it('should throw BadRequestException when device ID is missing', async () => {
-            const signature = 'dev-mock-signature';
-
-            await expect(controller.processRawEvent(mockEventDto, '', signature)).rejects.toThrow(
-                BadRequestException
-            );
-        });
-
-        it('should throw UnauthorizedException when signature is missing', async () => {
-            const deviceId = 'device-123';
-
-            await expect(controller.processRawEvent(mockEventDto, deviceId, '')).rejects.toThrow(
-                UnauthorizedException
-            );
-        });
-
         it('should handle duplicate events', async () => {
-            const deviceId = 'device-123';
-            const signature = 'dev-mock-signature';
             const idempotencyKey = 'duplicate-key';
             const existingEventId = 'existing-event-123';
 
@@ -137,12 +145,7 @@ describe('EventController', () => {
             (duplicateError as any).existingEventId = existingEventId;
             eventService.processRawEvent.mockRejectedValue(duplicateError);
 
-            const result = await controller.processRawEvent(
-                mockEventDto,
-                deviceId,
-                signature,
-                idempotencyKey
-            );
+            const result = await controller.processRawEvent(mockEventDto, device, idempotencyKey);
 
             expect(result).toEqual({
                 eventId: existingEventId,
@@ -153,14 +156,13 @@ describe('EventController', () => {
 
         it('should handle processing errors', async () => {
             const deviceId = 'device-123';
-            const signature = 'dev-mock-signature';
             const idempotencyKey = 'error-key';
 
             const processingError = new Error('Processing failed');
             eventService.processRawEvent.mockRejectedValue(processingError);
 
             await expect(
-                controller.processRawEvent(mockEventDto, deviceId, signature, idempotencyKey)
+                controller.processRawEvent(mockEventDto, device, idempotencyKey)
             ).rejects.toThrow('Processing failed');
 
             expect(loggerService.error).toHaveBeenCalledWith(
@@ -210,4 +212,77 @@ describe('EventController', () => {
             expect(key1).not.toBe(key2);
         });
     });
+
+    describe('processRawEventBatch', () => {
+        it('should pass each event with its own idempotency key', async () => {
+            const device = {
+                id: 'device-123',
+                organizationId: 'org-123',
+                branchId: 'branch-123',
+                signature: 'a'.repeat(64),
+                timestamp: new Date().toISOString(),
+                authenticated: true as const,
+            };
+            const keyed = {
+                eventType: 'card.read',
+                timestamp: '2026-10-19T08:00:00.000Z',
+                cardId: 'CARD-1',
+            };
+            const unkeyed = {
+                eventType: 'card.read',
+                timestamp: '2026-10-19T17:00:00.000Z',
+                cardId: 'CARD-1',
+            };
+            const response = { accepted: 2, duplicates: 0, rejected: 0, results: [] };
+            eventService.processRawEventBatch.mockResolvedValue(response);
+
+            const result = await controller.processRawEventBatch(
+                { events: [{ ...keyed, idempotencyKey: 'buffer-1' }, unkeyed] },
+                device
+            );
+
+            expect(eventService.processRawEventBatch).toHaveBeenCalledWith(
+                [
+                    { event: keyed, idempotencyKey: 'buffer-1' },
+                    {
+                        event: unkeyed,
+                        idempotencyKey: (controller as any).generateIdempotencyKey(
+                            'device-123',
+                            unkeyed
+                        ),
+                    },
+                ],
+                'device-123'
+            );
+            expect(result).toBe(response);
+        });
+    });
+
+    describe('recordHeartbeat', () => {
+        it('should record the heartbeat of the authenticated device', async () => {
+            const device = {
+                id: 'device-123',
+                organizationId: 'org-123',
+                branchId: 'branch-123',
+                signature: 'a'.repeat(64),
+                timestamp: new Date().toISOString(),
+                authenticated: true as const,
+            };
+            const heartbeatDto = { uptimeSeconds: 3600, metrics: { cpuUsage: 12 } };
+            const response = {
+                status: 'ONLINE' as const,
+                serverTime: new Date(),
+                heartbeatIntervalSeconds: 60,
+            };
+            deviceHeartbeatService.recordHeartbeat.mockResolvedValue(response);
+
+            const result = await controller.recordHeartbeat(heartbeatDto, device);
+
+            expect(deviceHeartbeatService.recordHeartbeat).toHaveBeenCalledWith(
+                device,
+                heartbeatDto
+            );
+            expect(result).toBe(response);
+        });
+    });
 });
@@ -1,18 +1,18 @@
-import {
-    BadRequestException,
-    Body,
-    Controller,
-    Headers,
-    HttpCode,
-    HttpStatus,
-    Post,
-    UnauthorizedException,
-} from '@nestjs/common';
+import { Body, Controller, Headers, HttpCode, HttpStatus, Post } from '@nestjs/common';
 import { ApiHeader, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { EventService } from './event.service';
 import { LoggerService } from '@/core/logger/logger.service';
-import { CreateRawEventDto } from '@/shared/dto';
-import { Public } from '@/shared/decorators';
+import { DeviceHeartbeatService } from '@/modules/device/device-heartbeat.service';
+import {
+    CreateRawEventBatchDto,
+    CreateRawEventDto,
+    DeviceHeartbeatDto,
+    DeviceHeartbeatResponseDto,
+    MAX_RAW_EVENT_BATCH_SIZE,
+    RawEventBatchResponseDto,
+} from '@/shared/dto';
+import { CurrentDevice, Public } from '@/shared/decorators';
+import { DeviceContext } from '@/shared/interfaces';
 import { DeviceAuthGuard } from '@/shared/guards/device-auth.guard';
 import { UseGuards } from '@nestjs/common';
 
@@ -22,6 +22,7 @@ import { UseGuards } from '@nestjs/common';
 export class EventController {
     constructor(
         private readonly eventService: EventService,
+        private readonly deviceHeartbeatService: DeviceHeartbeatService,
         private readonly logger: LoggerService
     ) {}
 
@@ -32,9 +33,13 @@ export class EventController {
     @ApiHeader({ name: 'x-device-id', description: 'Unique ID of the device', required: true })
     @ApiHeader({
         name: 'x-device-signature',
-        description: 'HMAC signature of the payload',
+        description:
+            'Hex HMAC-SHA256, keyed with the SHA-256 of the device secret, of the lines: method, ' +
+            'path with query, x-timestamp, x-nonce and the SHA-256 of the body',
         required: true,
     })
+    @ApiHeader({ name: 'x-timestamp', description: 'ISO 8601 time of the request', required: true })
+    @ApiHeader({ name: 'x-nonce', description: 'Unique value per request', required: true })
     @ApiHeader({
         name: 'x-idempotency-key',
         description: 'Idempotency key for preventing duplicate requests',
@@ -46,18 +51,11 @@ export class EventController {
     @ApiResponse({ status: 200, description: 'Duplicate event, already processed.' })
     async processRawEvent(
         @Body() createRawEventDto: CreateRawEventDto,
-        @Headers('x-device-id') deviceId: string,
-        @Headers('x-device-signature') signature: string,
+        @CurrentDevice() device: DeviceContext,
         @Headers('x-idempotency-key') idempotencyKey?: string
     ): Promise<{ eventId: string; status: string; message: string }> {
-        // Validate required headers
-        if (!deviceId) {
-            throw new BadRequestException('Device ID header is required');
-        }
-
-        if (!signature) {
-            throw new UnauthorizedException('Device signature header is required');
-        }
+        // The device the guard authenticated, whichever of its IDs the x-device-id header held
+        const deviceId = device.id;
 
         // Generate idempotency key if not provided
         const finalIdempotencyKey =
@@ -67,7 +65,6 @@ export class EventController {
             const eventId = await this.eventService.processRawEvent(
                 createRawEventDto,
                 deviceId,
-                signature,
                 finalIdempotencyKey
             );
 
@@ -102,6 +99,67 @@ export class EventController {
         }
     }
 
+    @Post('raw/batch')
+    @Public() // This endpoint uses DeviceAuthGuard instead of JWT
+    @HttpCode(HttpStatus.ACCEPTED)
+    @ApiOperation({
+        summary: 'Upload the events a device buffered while offline',
+        description:
+            `Up to ${MAX_RAW_EVENT_BATCH_SIZE} events, each with its own idempotency key, so a ` +
+            'batch can be uploaded again after a failure. The request is signed as a whole.',
+    })
+    @ApiHeader({ name: 'x-device-id', description: 'Unique ID of the device', required: true })
+    @ApiHeader({
+        name: 'x-device-signature',
+        description: 'Signature of the request, as for raw events',
+        required: true,
+    })
+    @ApiHeader({ name: 'x-timestamp', description: 'ISO 8601 time of the request', required: true })
+    @ApiHeader({ name: 'x-nonce', description: 'Unique value per request', required: true })
+    @ApiResponse({
+        status: 202,
+        description: 'The result of each event: accepted, duplicate or rejected.',
+        type: RawEventBatchResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Bad request (e.g., too many events).' })
+    @ApiResponse({ status: 401, description: 'Unauthorized (e.g., invalid signature).' })
+    async processRawEventBatch(
+        @Body() batchDto: CreateRawEventBatchDto,
+        @CurrentDevice() device: DeviceContext
+    ): Promise<RawEventBatchResponseDto> {
+        const events = batchDto.events.map(({ idempotencyKey, ...event }) => ({
+            event,
+            idempotencyKey: idempotencyKey || this.generateIdempotencyKey(device.id, event),
+        }));
+
+        return this.eventService.processRawEventBatch(events, device.id);
+    }
+
+    @Post('heartbeat')
+    @Public() // This endpoint uses DeviceAuthGuard instead of JWT
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Report that a device is alive, with its uptime and health' })
+    @ApiHeader({ name: 'x-device-id', description: 'Unique ID of the device', required: true })
+    @ApiHeader({
+        name: 'x-device-signature',
+        description: 'Signature of the request, as for raw events',
+        required: true,
+    })
+    @ApiHeader({ name: 'x-timestamp', description: 'ISO 8601 time of the request', required: true })
+    @ApiHeader({ name: 'x-nonce', description: 'Unique value per request', required: true })
+    @ApiResponse({
+        status: 200,
+        description: 'The status of the device and when to send the next heartbeat.',
+        type: DeviceHeartbeatResponseDto,
+    })
+    @ApiResponse({ status: 401, description: 'Unauthorized (e.g., invalid signature).' })
+    async recordHeartbeat(
+        @Body() heartbeatDto: DeviceHeartbeatDto,
+        @CurrentDevice() device: DeviceContext
+    ): Promise<DeviceHeartbeatResponseDto> {
+        return this.deviceHeartbeatService.recordHeartbeat(device, heartbeatDto);
+    }
+
     private generateIdempotencyKey(deviceId: string, eventData: CreateRawEventDto): string {
         const timestamp = eventData.timestamp || new Date().toISOString();
         const dataHash = this.hashEventData(eventData);
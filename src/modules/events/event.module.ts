@@ -1,17 +1,52 @@
 import { Module } from '@nestjs/common';
+import { AccessDecisionController } from './access-decision.controller';
+import { AccessDecisionService } from './access-decision.service';
 import { EventController } from './event.controller';
+import { EventLogController } from './event-log.controller';
+import { EventReplayService } from './event-replay.service';
 import { EventService } from './event.service';
 import { EventRepository } from './event.repository';
+import { FailedDeviceEventController } from './failed-event.controller';
+import { FailedDeviceEventService } from './failed-event.service';
+import { FailedDeviceEventRepository } from './failed-event.repository';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
 import { CacheModule } from '@/core/cache/cache.module';
+import { ConfigModule } from '@/core/config/config.module';
 import { QueueModule } from '@/core/queue/queue.module';
 import { DeviceModule } from '../device/device.module';
+import { EmployeeModule } from '../employee/employee.module';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { AccessControlModule } from '../access-control/access-control.module';
+import { AdapterModule } from '@/shared/adapters/adapter.module';
 
 @Module({
-    imports: [DatabaseModule, LoggerModule, CacheModule, QueueModule, DeviceModule],
-    controllers: [EventController],
-    providers: [EventService, EventRepository],
+    imports: [
+        DatabaseModule,
+        LoggerModule,
+        CacheModule,
+        ConfigModule,
+        QueueModule,
+        DeviceModule,
+        EmployeeModule,
+        AttendanceModule,
+        AccessControlModule,
+        AdapterModule,
+    ],
+    controllers: [
+        EventController,
+        EventLogController,
+        FailedDeviceEventController,
+        AccessDecisionController,
+    ],
+    providers: [
+        EventService,
+        EventReplayService,
+        EventRepository,
+        FailedDeviceEventService,
+        FailedDeviceEventRepository,
+        AccessDecisionService,
+    ],
     exports: [EventService, EventRepository],
 })
 export class EventModule {}
@@ -1,9 +1,12 @@
 import { Injectable } from '@nestjs/common';
+import { AccessDenialReason, DeviceEventLog, DeviceEventOutcome, Prisma } from '@prisma/client';
 import { PrismaService } from '@/core/database/prisma.service';
 import { DataScope } from '@/shared/interfaces';
 import { QueryBuilder } from '@/shared/utils/query-builder.util';
 
 export interface CreateDeviceEventLogDto {
+    /** Set when the ID is needed before the entry exists, e.g. to archive the payload under it */
+    id?: string;
     deviceId: string;
     eventType: string;
     metadata?: any;
@@ -12,13 +15,48 @@ export interface CreateDeviceEventLogDto {
     organizationId: string;
 }
 
+export type DeviceEventLogWithDetails = DeviceEventLog & {
+    device: { id: string; name: string; type: string; macAddress: string; branchId: string };
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string } | null;
+};
+
 export interface EventLogFilters {
     deviceId?: string;
+    branchId?: string;
+    employeeId?: string;
     eventType?: string;
+    isProcessed?: boolean;
+    outcome?: DeviceEventOutcome;
     startDate?: Date;
     endDate?: Date;
 }
 
+const EVENT_LOG_INCLUDE = {
+    device: {
+        select: {
+            id: true,
+            name: true,
+            type: true,
+            macAddress: true,
+            branchId: true,
+        },
+    },
+    employee: {
+        select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            employeeCode: true,
+        },
+    },
+};
+
+export interface ReplayEventLogFilters extends EventLogFilters {
+    startDate: Date;
+    endDate: Date;
+    unprocessedOnly?: boolean;
+}
+
 @Injectable()
 export class EventRepository {
     constructor(private readonly prisma: PrismaService) {}
@@ -26,6 +64,7 @@ export class EventRepository {
     async createDeviceEventLog(data: CreateDeviceEventLogDto) {
         return this.prisma.deviceEventLog.create({
             data: {
+                id: data.id,
                 deviceId: data.deviceId,
                 eventType: data.eventType,
                 metadata: data.metadata,
@@ -43,24 +82,25 @@ export class EventRepository {
             where: {
                 id,
                 ...whereClause,
+                ...(scope?.branchIds?.length && {
+                    device: { branchId: { in: scope.branchIds } },
+                }),
             },
-            include: {
-                device: {
-                    select: {
-                        id: true,
-                        name: true,
-                        type: true,
-                        macAddress: true,
-                    },
-                },
-            },
+            include: EVENT_LOG_INCLUDE,
         });
     }
 
-    async findEventLogs(filters: EventLogFilters, scope?: DataScope) {
+    async findEventLogs(
+        filters: EventLogFilters,
+        scope?: DataScope,
+        pagination: {
+            page: number;
+            limit: number;
+        } = { page: 1, limit: 50 }
+    ) {
         const whereClause = scope ? QueryBuilder.buildOrganizationScope(scope) : {};
 
-        const where: any = {
+        const where: Prisma.DeviceEventLogWhereInput = {
             ...whereClause,
         };
 
@@ -72,30 +112,126 @@ export class EventRepository {
             where.eventType = filters.eventType;
         }
 
+        if (filters.employeeId) {
+            where.employeeId = filters.employeeId;
+        }
+
+        if (filters.isProcessed !== undefined) {
+            where.isProcessed = filters.isProcessed;
+        }
+
+        if (filters.outcome) {
+            where.outcome = filters.outcome;
+        }
+
+        // Event logs are kept per organization; branches are those of their devices
+        if (filters.branchId || scope?.branchIds?.length) {
+            where.device = {
+                branchId: {
+                    ...(filters.branchId && { equals: filters.branchId }),
+                    ...(scope?.branchIds?.length && { in: scope.branchIds }),
+                },
+            };
+        }
+
         if (filters.startDate || filters.endDate) {
-            where.timestamp = {};
-            if (filters.startDate) {
-                where.timestamp.gte = filters.startDate;
-            }
-            if (filters.endDate) {
-                where.timestamp.lte = filters.endDate;
-            }
+            where.timestamp = {
+                ...(filters.startDate && { gte: filters.startDate }),
+                ...(filters.endDate && { lte: filters.endDate }),
+            };
         }
 
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [eventLogs, total] = await Promise.all([
+            this.prisma.deviceEventLog.findMany({
+                where,
+                include: EVENT_LOG_INCLUDE,
+                orderBy: { timestamp: 'desc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.deviceEventLog.count({ where }),
+        ]);
+
+        return {
+            data: eventLogs,
+            total,
+            page: pagination.page,
+            limit: pagination.limit,
+        };
+    }
+
+    /**
+     * Find the events of a device in a time range, newest first
+     */
+    async findDeviceTimeline(
+        deviceId: string,
+        range: { startDate: Date; endDate: Date },
+        scope: DataScope,
+        take: number
+    ) {
+        return this.prisma.deviceEventLog.findMany({
+            where: {
+                deviceId,
+                timestamp: { gte: range.startDate, lte: range.endDate },
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            include: {
+                employee: EVENT_LOG_INCLUDE.employee,
+            },
+            orderBy: [{ timestamp: 'desc' }, { createdAt: 'desc' }],
+            take,
+        });
+    }
+
+    /**
+     * Find the event logs to replay, oldest first, with the branch of their device
+     */
+    async findEventLogsForReplay(filters: ReplayEventLogFilters, scope: DataScope, take: number) {
+        const where: Prisma.DeviceEventLogWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            timestamp: { gte: filters.startDate, lte: filters.endDate },
+            ...(filters.deviceId && { deviceId: filters.deviceId }),
+            ...(filters.eventType && { eventType: filters.eventType }),
+            ...(filters.unprocessedOnly && { isProcessed: false }),
+            ...(scope.branchIds?.length && { device: { branchId: { in: scope.branchIds } } }),
+        };
+
         return this.prisma.deviceEventLog.findMany({
             where,
             include: {
                 device: {
                     select: {
                         id: true,
-                        name: true,
-                        type: true,
-                        macAddress: true,
+                        branchId: true,
                     },
                 },
             },
-            orderBy: { timestamp: 'desc' },
-            take: 1000, // Limit to prevent large queries
+            orderBy: [{ timestamp: 'asc' }, { createdAt: 'asc' }],
+            take,
+        });
+    }
+
+    /**
+     * Record the outcome of processing an event. An event whose processing failed is left
+     * unprocessed, so it is picked up by a replay of unprocessed events.
+     */
+    async recordProcessingOutcome(
+        id: string,
+        outcome: DeviceEventOutcome,
+        details: { employeeId?: string; denialReason?: AccessDenialReason; error?: string } = {}
+    ): Promise<void> {
+        await this.prisma.deviceEventLog.updateMany({
+            where: { id },
+            data: {
+                outcome,
+                denialReason: details.denialReason || null,
+                employeeId: details.employeeId || null,
+                processingError: details.error || null,
+                isProcessed: outcome !== DeviceEventOutcome.FAILED,
+                processedAt: new Date(),
+            },
         });
     }
 
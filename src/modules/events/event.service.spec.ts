@@ -0,0 +1,413 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EventService } from './event.service';
+import { EventRepository } from './event.repository';
+import { DeviceRepository } from '../device/device.repository';
+import { AttendanceService } from '../attendance/attendance.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
+import { Readable } from 'stream';
+
+describe('EventService', () => {
+    let service: EventService;
+    let eventRepository: jest.Mocked<EventRepository>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let cacheService: jest.Mocked<CacheService>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+    let storageAdapter: jest.Mocked<IStorageAdapter>;
+    let loggerService: jest.Mocked<LoggerService>;
+    let attendanceService: jest.Mocked<AttendanceService>;
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        status: 'ONLINE',
+        isActive: true,
+    };
+
+    beforeEach(async () => {
+        const idempotencyKeys = new Map<string, string>();
+
+        const mockEventRepository = {
+            createDeviceEventLog: jest.fn().mockImplementation(async data => ({
+                id: data.id,
+                timestamp: data.timestamp,
+            })),
+            findDeviceTimeline: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockDeviceRepository = {
+            findById: jest.fn().mockResolvedValue(mockDevice),
+            findByMacAddress: jest.fn().mockResolvedValue(null),
+            updateLastSeen: jest.fn(),
+        };
+
+        const mockCacheService = {
+            get: jest.fn().mockImplementation(async key => idempotencyKeys.get(key) || null),
+            set: jest.fn().mockImplementation(async (key, value) => {
+                idempotencyKeys.set(key, value);
+            }),
+        };
+
+        const mockAttendanceService = {
+            getDeviceAttendance: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockStorageAdapter = {
+            uploadFile: jest.fn().mockImplementation(async key => ({ key, url: `s3://${key}` })),
+            downloadFile: jest.fn(),
+        };
+
+        const mockQueueProducer = {
+            processRawDeviceEvent: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EventService,
+                {
+                    provide: EventRepository,
+                    useValue: mockEventRepository,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: CacheService,
+                    useValue: mockCacheService,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: AttendanceService,
+                    useValue: mockAttendanceService,
+                },
+                {
+                    provide: 'IStorageAdapter',
+                    useValue: mockStorageAdapter,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<EventService>(EventService);
+        eventRepository = module.get(EventRepository);
+        deviceRepository = module.get(DeviceRepository);
+        cacheService = module.get(CacheService);
+        queueProducer = module.get(QueueProducer);
+        storageAdapter = module.get('IStorageAdapter');
+        loggerService = module.get(LoggerService);
+        attendanceService = module.get(AttendanceService);
+    });
+
+    describe('processRawEvent', () => {
+        const rawEvent = {
+            eventType: 'card.read',
+            timestamp: '2026-10-19T08:00:00.000Z',
+            cardId: 'CARD-1',
+        };
+
+        it('should archive the raw payload and reference it from the event log', async () => {
+            const eventId = await service.processRawEvent(rawEvent, 'device-123', 'key-in');
+
+            const [key, body, contentType] = storageAdapter.uploadFile.mock.calls[0];
+            expect(key).toBe(`device-events/org-123/device-123/2026-10-19/${eventId}.json`);
+            expect(contentType).toBe('application/json');
+            expect(JSON.parse(body.toString())).toEqual(
+                expect.objectContaining({ idempotencyKey: 'key-in', event: rawEvent })
+            );
+            expect(eventRepository.createDeviceEventLog).toHaveBeenCalledWith(
+                expect.objectContaining({ id: eventId, rawPayloadUrl: key })
+            );
+            expect(queueProducer.processRawDeviceEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ eventLogId: eventId })
+            );
+        });
+
+        it('should take in the event when archiving fails', async () => {
+            storageAdapter.uploadFile.mockRejectedValue(new Error('Storage unavailable'));
+
+            await service.processRawEvent(rawEvent, 'device-123', 'key-in');
+
+            expect(eventRepository.createDeviceEventLog).toHaveBeenCalledWith(
+                expect.objectContaining({ rawPayloadUrl: undefined, metadata: rawEvent })
+            );
+            expect(queueProducer.processRawDeviceEvent).toHaveBeenCalled();
+            expect(loggerService.error).toHaveBeenCalledWith(
+                'Failed to archive raw device payload',
+                expect.any(Error),
+                expect.objectContaining({ deviceId: 'device-123' })
+            );
+        });
+
+        it('should take in events from degraded devices', async () => {
+            deviceRepository.findById.mockResolvedValue({
+                ...mockDevice,
+                status: 'DEGRADED',
+            } as any);
+
+            await service.processRawEvent(rawEvent, 'device-123', 'key-in');
+
+            expect(queueProducer.processRawDeviceEvent).toHaveBeenCalled();
+            expect(deviceRepository.updateLastSeen).toHaveBeenCalledWith(
+                'device-123',
+                expect.any(Date)
+            );
+        });
+
+        it('should reject events from devices in maintenance', async () => {
+            deviceRepository.findById.mockResolvedValue({
+                ...mockDevice,
+                status: 'maintenance',
+            } as any);
+
+            await expect(service.processRawEvent(rawEvent, 'device-123', 'key-in')).rejects.toThrow(
+                BadRequestException
+            );
+            expect(eventRepository.createDeviceEventLog).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getRawPayload', () => {
+        it('should read the archived payload', async () => {
+            storageAdapter.downloadFile.mockResolvedValue({
+                stream: Readable.from([JSON.stringify({ event: { eventType: 'card.read' } })]),
+            });
+
+            await expect(
+                service.getRawPayload({ id: 'event-1', rawPayloadUrl: 'key', metadata: {} })
+            ).resolves.toEqual({ eventType: 'card.read' });
+        });
+
+        it('should fall back to the copy in the event log', async () => {
+            storageAdapter.downloadFile.mockRejectedValue(new Error('Not found'));
+
+            await expect(
+                service.getRawPayload({
+                    id: 'event-1',
+                    rawPayloadUrl: 'key',
+                    metadata: { eventType: 'face.scan' },
+                })
+            ).resolves.toEqual({ eventType: 'face.scan' });
+            expect(loggerService.warn).toHaveBeenCalled();
+        });
+    });
+
+    describe('processRawEventBatch', () => {
+        const event = (time: string) => ({
+            eventType: 'card.read',
+            timestamp: `2026-10-19T${time}:00.000Z`,
+            cardId: 'CARD-1',
+        });
+
+        it('should queue the events oldest first and report them in batch order', async () => {
+            const result = await service.processRawEventBatch(
+                [
+                    { event: event('17:00'), idempotencyKey: 'key-out' },
+                    { event: event('08:00'), idempotencyKey: 'key-in' },
+                ],
+                'device-123'
+            );
+            const [inLogId, outLogId] = eventRepository.createDeviceEventLog.mock.calls.map(
+                ([data]) => data.id
+            );
+
+            expect(
+                queueProducer.processRawDeviceEvent.mock.calls.map(([data]) => data.idempotencyKey)
+            ).toEqual(['key-in', 'key-out']);
+            expect(result).toEqual({
+                accepted: 2,
+                duplicates: 0,
+                rejected: 0,
+                results: [
+                    { index: 0, idempotencyKey: 'key-out', status: 'accepted', eventId: outLogId },
+                    { index: 1, idempotencyKey: 'key-in', status: 'accepted', eventId: inLogId },
+                ],
+            });
+        });
+
+        it('should report events uploaded before as duplicates', async () => {
+            await service.processRawEventBatch(
+                [{ event: event('08:00'), idempotencyKey: 'key-in' }],
+                'device-123'
+            );
+
+            const result = await service.processRawEventBatch(
+                [
+                    { event: event('08:00'), idempotencyKey: 'key-in' },
+                    { event: event('17:00'), idempotencyKey: 'key-out' },
+                ],
+                'device-123'
+            );
+
+            expect(result.accepted).toBe(1);
+            expect(result.duplicates).toBe(1);
+            expect(result.results[0]).toEqual({
+                index: 0,
+                idempotencyKey: 'key-in',
+                status: 'duplicate',
+                eventId: eventRepository.createDeviceEventLog.mock.calls[0][0].id,
+            });
+            expect(eventRepository.createDeviceEventLog).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject events without failing the batch', async () => {
+            deviceRepository.findById.mockResolvedValue({
+                ...mockDevice,
+                status: 'maintenance',
+            } as any);
+
+            const result = await service.processRawEventBatch(
+                [{ event: event('08:00'), idempotencyKey: 'key-in' }],
+                'device-123'
+            );
+
+            expect(result.rejected).toBe(1);
+            expect(result.results[0]).toEqual({
+                index: 0,
+                idempotencyKey: 'key-in',
+                status: 'rejected',
+                error: 'Device is in maintenance',
+            });
+            expect(cacheService.set).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getDeviceTimeline', () => {
+        const mockScope = { organizationId: 'org-123', branchIds: [] };
+        const at = (time: string) => new Date(`2026-10-19T${time}:00.000Z`);
+
+        const eventLog = (id: string, time: string, details: Record<string, any> = {}) => ({
+            id,
+            organizationId: 'org-123',
+            deviceId: 'device-123',
+            eventType: 'card.read',
+            timestamp: at(time),
+            rawPayloadUrl: null,
+            metadata: {},
+            isProcessed: false,
+            outcome: null,
+            employeeId: null,
+            processingError: null,
+            processedAt: null,
+            createdAt: at(time),
+            employee: null,
+            ...details,
+        });
+
+        it('should join the events with their outcome and the attendance they produced', async () => {
+            const employee = {
+                id: 'emp-123',
+                firstName: 'John',
+                lastName: 'Doe',
+                employeeCode: 'EMP001',
+            };
+            eventRepository.findDeviceTimeline.mockResolvedValue([
+                eventLog('log-3', '17:00'),
+                eventLog('log-2', '12:00', {
+                    outcome: 'FAILED',
+                    processingError: 'Pay period is locked',
+                }),
+                eventLog('log-1', '08:00', {
+                    isProcessed: true,
+                    outcome: 'MATCHED',
+                    employeeId: 'emp-123',
+                    employee,
+                    processedAt: at('08:00'),
+                }),
+            ] as any);
+            attendanceService.getDeviceAttendance.mockResolvedValue([
+                {
+                    id: 'attendance-1',
+                    employeeId: 'emp-123',
+                    eventType: 'CHECK_IN',
+                    timestamp: at('08:00'),
+                    corrected: false,
+                    eventLogId: 'log-1',
+                },
+            ]);
+
+            const result = await service.getDeviceTimeline(
+                'device-123',
+                { startDate: at('00:00'), endDate: at('23:59') },
+                mockScope
+            );
+
+            expect(eventRepository.findDeviceTimeline).toHaveBeenCalledWith(
+                'device-123',
+                { startDate: at('00:00'), endDate: at('23:59') },
+                mockScope,
+                100
+            );
+            expect(attendanceService.getDeviceAttendance).toHaveBeenCalledWith(
+                'device-123',
+                { startDate: at('08:00'), endDate: at('17:00') },
+                mockScope
+            );
+            expect(result.events.map(event => [event.eventLogId, event.status])).toEqual([
+                ['log-3', 'PENDING'],
+                ['log-2', 'FAILED'],
+                ['log-1', 'MATCHED'],
+            ]);
+            expect(result.events[1].processingError).toBe('Pay period is locked');
+            expect(result.events[2]).toEqual(
+                expect.objectContaining({
+                    employee,
+                    attendance: [
+                        {
+                            id: 'attendance-1',
+                            employeeId: 'emp-123',
+                            eventType: 'CHECK_IN',
+                            timestamp: at('08:00'),
+                            corrected: false,
+                        },
+                    ],
+                })
+            );
+        });
+
+        it('should join attendance recorded before event logs were kept on it by time', async () => {
+            eventRepository.findDeviceTimeline.mockResolvedValue([
+                eventLog('log-1', '08:00', { isProcessed: true }),
+            ] as any);
+            attendanceService.getDeviceAttendance.mockResolvedValue([
+                {
+                    id: 'attendance-1',
+                    employeeId: 'emp-123',
+                    eventType: 'CHECK_IN',
+                    timestamp: at('08:00'),
+                    corrected: false,
+                },
+            ]);
+
+            const result = await service.getDeviceTimeline('device-123', {}, mockScope);
+
+            expect(result.events[0].attendance.map(record => record.id)).toEqual(['attendance-1']);
+        });
+
+        it('should throw NotFoundException for a device out of scope', async () => {
+            deviceRepository.findById.mockResolvedValue(null);
+
+            await expect(service.getDeviceTimeline('device-123', {}, mockScope)).rejects.toThrow(
+                NotFoundException
+            );
+            expect(eventRepository.findDeviceTimeline).not.toHaveBeenCalled();
+        });
+    });
+});
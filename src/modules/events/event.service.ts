@@ -1,11 +1,35 @@
-import { BadRequestException, Injectable, UnauthorizedException } from '@nestjs/common';
-import { EventRepository } from './event.repository';
+import {
+    BadRequestException,
+    HttpException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { EventLogFilters, EventRepository } from './event.repository';
 import { DeviceRepository } from '../device/device.repository';
+import { AttendanceService } from '../attendance/attendance.service';
 import { LoggerService } from '@/core/logger/logger.service';
 import { CacheService } from '@/core/cache/cache.service';
 import { QueueProducer } from '@/core/queue/queue.producer';
-import { CreateRawEventDto } from '@/shared/dto';
+import {
+    CreateRawEventDto,
+    DeviceTimelineResponseDto,
+    RawEventBatchResponseDto,
+    RawEventBatchResultDto,
+} from '@/shared/dto';
 import { DataScope } from '@/shared/interfaces';
+import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
+import { TimezoneUtil } from '@/shared/utils';
+
+/** A raw device payload as archived in storage */
+export interface ArchivedRawPayload {
+    deviceId: string;
+    organizationId: string;
+    idempotencyKey: string;
+    receivedAt: string;
+    event: CreateRawEventDto;
+}
 
 @Injectable()
 export class EventService {
@@ -14,13 +38,14 @@ export class EventService {
         private readonly deviceRepository: DeviceRepository,
         private readonly logger: LoggerService,
         private readonly cacheService: CacheService,
-        private readonly queueProducer: QueueProducer
+        private readonly queueProducer: QueueProducer,
+        private readonly attendanceService: AttendanceService,
+        @Inject('IStorageAdapter') private readonly storageAdapter: IStorageAdapter
     ) {}
 
     async processRawEvent(
         createRawEventDto: CreateRawEventDto,
         deviceId: string,
-        signature: string,
         idempotencyKey: string
     ): Promise<string> {
         // Check idempotency
@@ -31,27 +56,41 @@ export class EventService {
             throw error;
         }
 
-        // Verify device authentication
-        await this.verifyDeviceAuthentication(deviceId, signature, createRawEventDto);
-
         // Get device information
         const device = await this.getDeviceInfo(deviceId);
         if (!device) {
             throw new BadRequestException('Device not found');
         }
 
-        if (device.status !== 'ONLINE') {
-            throw new BadRequestException('Device is not online');
+        // Degraded and offline devices still deliver events, such as the batch they buffered
+        // while offline; only devices taken out of service are refused
+        if (!device.isActive) {
+            throw new BadRequestException('Device is inactive');
+        }
+        if (device.status === 'maintenance') {
+            throw new BadRequestException('Device is in maintenance');
         }
 
-        // Create device event log
+        // Archive the payload as received, then create the device event log referencing it
+        const eventLogId = randomUUID();
+        const timestamp = createRawEventDto.timestamp
+            ? new Date(createRawEventDto.timestamp)
+            : new Date();
+        const rawPayloadUrl = await this.archiveRawPayload(eventLogId, timestamp, {
+            deviceId: device.id,
+            organizationId: device.organizationId,
+            idempotencyKey,
+            receivedAt: new Date().toISOString(),
+            event: createRawEventDto,
+        });
+
         const eventLog = await this.eventRepository.createDeviceEventLog({
+            id: eventLogId,
             deviceId: device.id,
             eventType: createRawEventDto.eventType,
             metadata: createRawEventDto,
-            timestamp: createRawEventDto.timestamp
-                ? new Date(createRawEventDto.timestamp)
-                : new Date(),
+            rawPayloadUrl,
+            timestamp,
             organizationId: device.organizationId,
         });
 
@@ -67,6 +106,7 @@ export class EventService {
             organizationId: device.organizationId,
             branchId: device.branchId,
             idempotencyKey,
+            eventLogId: eventLog.id,
         });
 
         // Update device last seen
@@ -75,6 +115,133 @@ export class EventService {
         return eventLog.id;
     }
 
+    /**
+     * Take in the events a device buffered while offline, each under its own idempotency key.
+     * They are queued oldest first so attendance is built in the order it happened, and one
+     * event failing does not fail the others. Results are in the order of the batch.
+     */
+    async processRawEventBatch(
+        events: Array<{ event: CreateRawEventDto; idempotencyKey: string }>,
+        deviceId: string
+    ): Promise<RawEventBatchResponseDto> {
+        const results = new Array<RawEventBatchResultDto>(events.length);
+        const order = events
+            .map((item, index) => ({
+                ...item,
+                index,
+                time: item.event.timestamp ? new Date(item.event.timestamp).getTime() : Date.now(),
+            }))
+            .sort((a, b) => a.time - b.time);
+
+        for (const { event, idempotencyKey, index } of order) {
+            try {
+                const eventId = await this.processRawEvent(event, deviceId, idempotencyKey);
+                results[index] = { index, idempotencyKey, status: 'accepted', eventId };
+            } catch (error) {
+                if (error.message === 'DUPLICATE_EVENT') {
+                    results[index] = {
+                        index,
+                        idempotencyKey,
+                        status: 'duplicate',
+                        eventId: error.existingEventId,
+                    };
+                    continue;
+                }
+
+                if (!(error instanceof HttpException)) {
+                    this.logger.error('Failed to process batched event', error, {
+                        deviceId,
+                        eventType: event.eventType,
+                        idempotencyKey,
+                    });
+                }
+                results[index] = {
+                    index,
+                    idempotencyKey,
+                    status: 'rejected',
+                    error: error.message,
+                };
+            }
+        }
+
+        const count = (status: RawEventBatchResultDto['status']) =>
+            results.filter(result => result.status === status).length;
+        const response = {
+            accepted: count('accepted'),
+            duplicates: count('duplicate'),
+            rejected: count('rejected'),
+            results,
+        };
+
+        this.logger.log('Raw event batch processed', {
+            deviceId,
+            events: events.length,
+            accepted: response.accepted,
+            duplicates: response.duplicates,
+            rejected: response.rejected,
+        });
+
+        return response;
+    }
+
+    /**
+     * Get the raw payload of a device event log: the archived one, or where it was not
+     * archived or cannot be read, the copy kept in the log itself
+     */
+    async getRawPayload(eventLog: {
+        id: string;
+        rawPayloadUrl: string | null;
+        metadata: unknown;
+    }): Promise<CreateRawEventDto> {
+        if (eventLog.rawPayloadUrl) {
+            try {
+                const { stream } = await this.storageAdapter.downloadFile(eventLog.rawPayloadUrl);
+                const chunks: Buffer[] = [];
+                for await (const chunk of stream) {
+                    chunks.push(Buffer.from(chunk));
+                }
+
+                const archived: ArchivedRawPayload = JSON.parse(Buffer.concat(chunks).toString());
+                return archived.event;
+            } catch (error) {
+                this.logger.warn('Failed to read archived raw payload, using the event log', {
+                    error: error.message,
+                    eventLogId: eventLog.id,
+                    key: eventLog.rawPayloadUrl,
+                });
+            }
+        }
+
+        return eventLog.metadata as CreateRawEventDto;
+    }
+
+    /**
+     * Store the raw payload under the ID of its event log. Storage being unavailable does not
+     * fail the event; the log keeps a copy of the payload.
+     */
+    private async archiveRawPayload(
+        eventLogId: string,
+        timestamp: Date,
+        payload: ArchivedRawPayload
+    ): Promise<string | undefined> {
+        const key = `device-events/${payload.organizationId}/${payload.deviceId}/${TimezoneUtil.toDateKey(timestamp)}/${eventLogId}.json`;
+
+        try {
+            const upload = await this.storageAdapter.uploadFile(
+                key,
+                Buffer.from(JSON.stringify(payload)),
+                'application/json'
+            );
+            return upload.key;
+        } catch (error) {
+            this.logger.error('Failed to archive raw device payload', error, {
+                deviceId: payload.deviceId,
+                eventLogId,
+            });
+            return undefined;
+        }
+    }
+
     private async checkIdempotency(idempotencyKey: string): Promise<string | null> {
         const cacheKey = `idempotency:${idempotencyKey}`;
         return this.cacheService.get(cacheKey);
@@ -86,41 +253,6 @@ export class EventService {
         await this.cacheService.set(cacheKey, eventId, 86400);
     }
 
-    private async verifyDeviceAuthentication(
-        deviceId: string,
-        signature: string,
-        eventData: CreateRawEventDto
-    ): Promise<void> {
-        // In a real implementation, this would verify the device signature
-        // using a shared secret or certificate-based authentication
-
-        // For now, we'll do a simple validation
-        if (!signature || signature.length < 10) {
-            throw new UnauthorizedException('Invalid device signature');
-        }
-
-        // Mock signature verification
-        const expectedSignature = this.generateMockSignature(deviceId, eventData);
-        if (signature !== expectedSignature && !signature.startsWith('dev-')) {
-            // Allow dev- prefixed signatures for development
-            throw new UnauthorizedException('Device signature verification failed');
-        }
-    }
-
-    private generateMockSignature(deviceId: string, eventData: CreateRawEventDto): string {
-        const crypto = require('crypto');
-        const payload = JSON.stringify({
-            deviceId,
-            eventType: eventData.eventType,
-            timestamp: eventData.timestamp,
-        });
-        return crypto
-            .createHash('sha256')
-            .update(`${payload}mock-secret`)
-            .digest('hex')
-            .substring(0, 32);
-    }
-
     private async getDeviceInfo(deviceId: string) {
         // Create a scope that allows access to all organizations for device lookup
         const globalScope: DataScope = {
@@ -141,27 +273,91 @@ export class EventService {
     }
 
     async getEventLogs(
-        deviceId?: string,
-        eventType?: string,
-        startDate?: Date,
-        endDate?: Date,
-        scope?: DataScope
+        filters: EventLogFilters,
+        scope: DataScope,
+        pagination: {
+            page: number;
+            limit: number;
+        } = { page: 1, limit: 50 }
     ) {
-        return this.eventRepository.findEventLogs(
-            {
-                deviceId,
-                eventType,
-                startDate,
-                endDate,
-            },
-            scope
-        );
+        return this.eventRepository.findEventLogs(filters, scope, pagination);
     }
 
     async getEventLogById(id: string, scope: DataScope) {
         return this.eventRepository.findEventLogById(id, scope);
     }
 
+    /**
+     * Get what a device sent in a time range, newest first, each event with the outcome of its
+     * processing and the attendance records it produced
+     */
+    async getDeviceTimeline(
+        deviceId: string,
+        query: { startDate?: Date; endDate?: Date; limit?: number },
+        scope: DataScope
+    ): Promise<DeviceTimelineResponseDto> {
+        const device = await this.deviceRepository.findById(deviceId, scope);
+        if (!device) {
+            throw new NotFoundException('Device not found');
+        }
+
+        const endDate = query.endDate || new Date();
+        const startDate = query.startDate || new Date(endDate.getTime() - 24 * 60 * 60 * 1000);
+        if (startDate > endDate) {
+            throw new BadRequestException('startDate must not be after endDate');
+        }
+
+        const eventLogs = await this.eventRepository.findDeviceTimeline(
+            device.id,
+            { startDate, endDate },
+            scope,
+            query.limit || 100
+        );
+        const attendance = eventLogs.length
+            ? await this.attendanceService.getDeviceAttendance(
+                  device.id,
+                  {
+                      startDate: eventLogs[eventLogs.length - 1].timestamp,
+                      endDate: eventLogs[0].timestamp,
+                  },
+                  scope
+              )
+            : [];
+
+        // Records made before the event log was kept on them are joined by their time
+        const producedBy = (eventLog: { id: string; timestamp: Date }) =>
+            attendance.filter(record =>
+                record.eventLogId
+                    ? record.eventLogId === eventLog.id
+                    : record.timestamp.getTime() === eventLog.timestamp.getTime()
+            );
+
+        return {
+            deviceId: device.id,
+            startDate,
+            endDate,
+            events: eventLogs.map(eventLog => ({
+                eventLogId: eventLog.id,
+                eventType: eventLog.eventType,
+                timestamp: eventLog.timestamp,
+                receivedAt: eventLog.createdAt,
+                status: eventLog.outcome || 'PENDING',
+                denialReason: eventLog.denialReason || undefined,
+                processingError: eventLog.processingError || undefined,
+                processedAt: eventLog.processedAt || undefined,
+                employee: eventLog.employee || undefined,
+                attendance: producedBy(eventLog).map(record => ({
+                    id: record.id,
+                    employeeId: record.employeeId,
+                    eventType: record.eventType,
+                    timestamp: record.timestamp,
+                    corrected: record.corrected,
+                })),
+                rawPayloadUrl: eventLog.rawPayloadUrl || undefined,
+            })),
+        };
+    }
+
     async getEventStats(deviceId?: string, startDate?: Date, endDate?: Date, scope?: DataScope) {
         return this.eventRepository.getEventStats(
             {
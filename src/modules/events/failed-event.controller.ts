@@ -0,0 +1,219 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { FailedDeviceEvent } from '@prisma/client';
+import { FailedDeviceEventService } from './failed-event.service';
+import {
+    DiscardFailedDeviceEventDto,
+    FailedDeviceEventFiltersDto,
+    FailedDeviceEventMetricsDto,
+    FailedDeviceEventResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+    UpdateFailedDeviceEventDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Failed Device Events')
+@ApiBearerAuth()
+@Controller('failed-events')
+export class FailedDeviceEventController {
+    constructor(private readonly failedEventService: FailedDeviceEventService) {}
+
+    @Get()
+    @Permissions('event:read:all')
+    @ApiOperation({
+        summary: 'Get the device events processing gave up on, with filters and pagination',
+    })
+    @ApiQuery({ name: 'filtersDto', type: FailedDeviceEventFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A paginated list of failed device events, latest failure first.',
+        type: PaginationResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getFailedEvents(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: FailedDeviceEventFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<FailedDeviceEventResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const result = await this.failedEventService.getFailedEvents(
+            this.toFilters(filtersDto),
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            result.data.map(failedEvent => this.toResponse(failedEvent)),
+            result.total,
+            result.page,
+            result.limit
+        );
+    }
+
+    @Get('metrics')
+    @Permissions('event:read:all')
+    @ApiOperation({ summary: 'Count failed device events per failure class and status' })
+    @ApiQuery({ name: 'filtersDto', type: FailedDeviceEventFiltersDto })
+    @ApiResponse({ status: 200, type: FailedDeviceEventMetricsDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getMetrics(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: FailedDeviceEventFiltersDto
+    ): Promise<FailedDeviceEventMetricsDto> {
+        return this.failedEventService.getMetrics(this.toFilters(filtersDto), scope);
+    }
+
+    @Get(':id')
+    @Permissions('event:read:all')
+    @ApiOperation({ summary: 'Get a failed device event by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the failed device event' })
+    @ApiResponse({ status: 200, type: FailedDeviceEventResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Failed event not found.' })
+    async getFailedEventById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<FailedDeviceEventResponseDto> {
+        const failedEvent = await this.failedEventService.getFailedEventById(id, scope);
+
+        return this.toResponse(failedEvent);
+    }
+
+    @Patch(':id')
+    @Permissions('event:triage')
+    @ApiOperation({
+        summary: 'Set the employee to record an open failed device event for',
+        description: 'Used on retry instead of matching the credential of the event again.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the failed device event' })
+    @ApiBody({ type: UpdateFailedDeviceEventDto })
+    @ApiResponse({ status: 200, type: FailedDeviceEventResponseDto })
+    @ApiResponse({
+        status: 400,
+        description: 'The event is not open or the employee is not in the branch of the device.',
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Failed event not found.' })
+    async updateFailedEvent(
+        @Param('id') id: string,
+        @Body() updateDto: UpdateFailedDeviceEventDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FailedDeviceEventResponseDto> {
+        const failedEvent = await this.failedEventService.updateFailedEvent(
+            id,
+            updateDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(failedEvent);
+    }
+
+    @Post(':id/retry')
+    @Permissions('event:triage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Process a failed device event again',
+        description:
+            'Queues the event as a replay. It is resolved once processed, or opened again with ' +
+            'the new error if it fails.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the failed device event' })
+    @ApiResponse({ status: 200, type: FailedDeviceEventResponseDto })
+    @ApiResponse({ status: 400, description: 'The event was resolved or discarded.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Failed event not found.' })
+    async retryFailedEvent(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FailedDeviceEventResponseDto> {
+        const failedEvent = await this.failedEventService.retryFailedEvent(id, scope, user.sub);
+
+        return this.toResponse(failedEvent);
+    }
+
+    @Post(':id/discard')
+    @Permissions('event:triage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Give up on an open failed device event' })
+    @ApiParam({ name: 'id', description: 'ID of the failed device event' })
+    @ApiBody({ type: DiscardFailedDeviceEventDto })
+    @ApiResponse({ status: 200, type: FailedDeviceEventResponseDto })
+    @ApiResponse({ status: 400, description: 'The event is not open.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Failed event not found.' })
+    async discardFailedEvent(
+        @Param('id') id: string,
+        @Body() discardDto: DiscardFailedDeviceEventDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FailedDeviceEventResponseDto> {
+        const failedEvent = await this.failedEventService.discardFailedEvent(
+            id,
+            discardDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(failedEvent);
+    }
+
+    private toFilters(filtersDto: FailedDeviceEventFiltersDto) {
+        return {
+            status: filtersDto.status,
+            failureClass: filtersDto.failureClass,
+            deviceId: filtersDto.deviceId,
+            startDate: filtersDto.startDate ? new Date(filtersDto.startDate) : undefined,
+            endDate: filtersDto.endDate ? new Date(filtersDto.endDate) : undefined,
+        };
+    }
+
+    private toResponse(failedEvent: FailedDeviceEvent): FailedDeviceEventResponseDto {
+        return {
+            id: failedEvent.id,
+            organizationId: failedEvent.organizationId,
+            branchId: failedEvent.branchId,
+            deviceId: failedEvent.deviceId,
+            eventLogId: failedEvent.eventLogId || undefined,
+            failureClass: failedEvent.failureClass,
+            status: failedEvent.status,
+            error: failedEvent.error,
+            jobName: failedEvent.jobName,
+            jobId: failedEvent.jobId || undefined,
+            payload: failedEvent.payload,
+            failureCount: failedEvent.failureCount,
+            resolvedEmployeeId: failedEvent.resolvedEmployeeId || undefined,
+            resolvedByUserId: failedEvent.resolvedByUserId || undefined,
+            note: failedEvent.note || undefined,
+            firstFailedAt: failedEvent.firstFailedAt,
+            lastFailedAt: failedEvent.lastFailedAt,
+            closedAt: failedEvent.closedAt || undefined,
+            createdAt: failedEvent.createdAt,
+            updatedAt: failedEvent.updatedAt,
+        };
+    }
+}
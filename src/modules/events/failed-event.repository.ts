@@ -0,0 +1,218 @@
+import { Injectable } from '@nestjs/common';
+import {
+    DeviceEventFailureClass,
+    FailedDeviceEvent,
+    FailedDeviceEventStatus,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils/query-builder.util';
+
+export interface RecordDeviceEventFailureDto {
+    organizationId: string;
+    branchId: string;
+    deviceId: string;
+    eventLogId?: string;
+    failureClass: DeviceEventFailureClass;
+    error: string;
+    jobName: string;
+    jobId?: string;
+    payload: any;
+}
+
+export interface FailedDeviceEventFilters {
+    status?: FailedDeviceEventStatus;
+    failureClass?: DeviceEventFailureClass;
+    deviceId?: string;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+export interface FailedDeviceEventChanges {
+    status?: FailedDeviceEventStatus;
+    resolvedEmployeeId?: string | null;
+    resolvedByUserId?: string;
+    note?: string;
+}
+
+export interface FailedDeviceEventCount {
+    failureClass: DeviceEventFailureClass;
+    status: FailedDeviceEventStatus;
+    count: number;
+}
+
+const CLOSED_STATUSES: FailedDeviceEventStatus[] = [
+    FailedDeviceEventStatus.RESOLVED,
+    FailedDeviceEventStatus.DISCARDED,
+];
+
+@Injectable()
+export class FailedDeviceEventRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Record that a device event failed. An event that fails again, e.g. after a retry, keeps
+     * its entry, which is opened again with the latest error.
+     */
+    async recordFailure(data: RecordDeviceEventFailureDto): Promise<FailedDeviceEvent> {
+        const failure = {
+            failureClass: data.failureClass,
+            error: data.error,
+            jobName: data.jobName,
+            jobId: data.jobId,
+            payload: data.payload,
+        };
+
+        if (!data.eventLogId) {
+            return this.prisma.failedDeviceEvent.create({
+                data: {
+                    ...failure,
+                    organizationId: data.organizationId,
+                    branchId: data.branchId,
+                    deviceId: data.deviceId,
+                },
+            });
+        }
+
+        return this.prisma.failedDeviceEvent.upsert({
+            where: { eventLogId: data.eventLogId },
+            create: {
+                ...failure,
+                organizationId: data.organizationId,
+                branchId: data.branchId,
+                deviceId: data.deviceId,
+                eventLogId: data.eventLogId,
+            },
+            update: {
+                ...failure,
+                status: FailedDeviceEventStatus.OPEN,
+                failureCount: { increment: 1 },
+                lastFailedAt: new Date(),
+                closedAt: null,
+            },
+        });
+    }
+
+    /**
+     * Close the open failure of an event that was processed after all. Returns whether there
+     * was one.
+     */
+    async resolveForEventLog(eventLogId: string): Promise<boolean> {
+        const result = await this.prisma.failedDeviceEvent.updateMany({
+            where: { eventLogId, status: { notIn: CLOSED_STATUSES } },
+            data: {
+                status: FailedDeviceEventStatus.RESOLVED,
+                closedAt: new Date(),
+            },
+        });
+
+        return result.count > 0;
+    }
+
+    async findById(id: string, scope: DataScope): Promise<FailedDeviceEvent | null> {
+        return this.prisma.failedDeviceEvent.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+        });
+    }
+
+    async findMany(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope,
+        pagination: {
+            page: number;
+            limit: number;
+        } = { page: 1, limit: 50 }
+    ) {
+        const where = this.buildWhere(filters, scope);
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [failedEvents, total] = await Promise.all([
+            this.prisma.failedDeviceEvent.findMany({
+                where,
+                orderBy: { lastFailedAt: 'desc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.failedDeviceEvent.count({ where }),
+        ]);
+
+        return {
+            data: failedEvents,
+            total,
+            page: pagination.page,
+            limit: pagination.limit,
+        };
+    }
+
+    async update(id: string, data: FailedDeviceEventChanges): Promise<FailedDeviceEvent> {
+        return this.prisma.failedDeviceEvent.update({
+            where: { id },
+            data: {
+                ...data,
+                ...(data.status &&
+                    CLOSED_STATUSES.includes(data.status) && { closedAt: new Date() }),
+            },
+        });
+    }
+
+    async countByClassAndStatus(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope
+    ): Promise<FailedDeviceEventCount[]> {
+        const groups = await this.prisma.failedDeviceEvent.groupBy({
+            by: ['failureClass', 'status'],
+            where: this.buildWhere(filters, scope),
+            _count: {
+                id: true,
+            },
+        });
+
+        return groups.map(group => ({
+            failureClass: group.failureClass,
+            status: group.status,
+            count: group._count.id,
+        }));
+    }
+
+    /**
+     * When the longest-waiting open failure first failed
+     */
+    async findOldestOpenFailure(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope
+    ): Promise<Date | null> {
+        const result = await this.prisma.failedDeviceEvent.aggregate({
+            where: {
+                ...this.buildWhere(filters, scope),
+                status: FailedDeviceEventStatus.OPEN,
+            },
+            _min: {
+                firstFailedAt: true,
+            },
+        });
+
+        return result._min.firstFailedAt;
+    }
+
+    private buildWhere(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope
+    ): Prisma.FailedDeviceEventWhereInput {
+        return {
+            ...QueryBuilder.buildBranchScope(scope),
+            ...(filters.status && { status: filters.status }),
+            ...(filters.failureClass && { failureClass: filters.failureClass }),
+            ...(filters.deviceId && { deviceId: filters.deviceId }),
+            ...((filters.startDate || filters.endDate) && {
+                lastFailedAt: {
+                    ...(filters.startDate && { gte: filters.startDate }),
+                    ...(filters.endDate && { lte: filters.endDate }),
+                },
+            }),
+        };
+    }
+}
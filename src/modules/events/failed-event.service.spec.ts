@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { FailedDeviceEventService } from './failed-event.service';
+import { FailedDeviceEventRepository } from './failed-event.repository';
+import { EmployeeRepository } from '../employee/employee.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { DataScope } from '@/shared/interfaces';
+
+describe('FailedDeviceEventService', () => {
+    let service: FailedDeviceEventService;
+    let failedEventRepository: jest.Mocked<FailedDeviceEventRepository>;
+    let employeeRepository: jest.Mocked<EmployeeRepository>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const payload = {
+        deviceId: 'device-123',
+        eventType: 'card.read',
+        timestamp: '2026-10-19T08:00:00.000Z',
+        rawData: { eventType: 'card.read', cardId: 'CARD-NEW' },
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        eventLogId: 'event-log-123',
+    };
+
+    const mockFailedEvent = {
+        id: 'failed-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        deviceId: 'device-123',
+        eventLogId: 'event-log-123',
+        failureClass: 'UNMATCHED_CREDENTIAL',
+        status: 'OPEN',
+        error: 'No employee matches the credential of the event',
+        jobName: 'process-raw-device-event',
+        jobId: 'job-123',
+        payload,
+        failureCount: 1,
+        resolvedEmployeeId: null,
+        resolvedByUserId: null,
+        note: null,
+        firstFailedAt: new Date('2026-10-19T08:00:01.000Z'),
+        lastFailedAt: new Date('2026-10-19T08:00:01.000Z'),
+        closedAt: null,
+        createdAt: new Date('2026-10-19T08:00:01.000Z'),
+        updatedAt: new Date('2026-10-19T08:00:01.000Z'),
+    } as any;
+
+    beforeEach(async () => {
+        const mockFailedEventRepository = {
+            findById: jest.fn().mockResolvedValue(mockFailedEvent),
+            findMany: jest.fn(),
+            update: jest
+                .fn()
+                .mockImplementation(async (id, data) => ({ ...mockFailedEvent, ...data })),
+            countByClassAndStatus: jest.fn().mockResolvedValue([]),
+            findOldestOpenFailure: jest.fn().mockResolvedValue(null),
+        };
+
+        const mockEmployeeRepository = {
+            findById: jest.fn().mockResolvedValue({ id: 'emp-123' }),
+        };
+
+        const mockQueueProducer = {
+            replayDeviceEvent: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                FailedDeviceEventService,
+                {
+                    provide: FailedDeviceEventRepository,
+                    useValue: mockFailedEventRepository,
+                },
+                {
+                    provide: EmployeeRepository,
+                    useValue: mockEmployeeRepository,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<FailedDeviceEventService>(FailedDeviceEventService);
+        failedEventRepository = module.get(FailedDeviceEventRepository);
+        employeeRepository = module.get(EmployeeRepository);
+        queueProducer = module.get(QueueProducer);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('getFailedEventById', () => {
+        it('should throw NotFoundException for failed events out of scope', async () => {
+            failedEventRepository.findById.mockResolvedValue(null);
+
+            await expect(service.getFailedEventById('failed-123', mockScope)).rejects.toThrow(
+                NotFoundException
+            );
+        });
+    });
+
+    describe('getMetrics', () => {
+        it('should count the failed events of every failure class by status', async () => {
+            const oldest = new Date('2026-10-18T07:00:00.000Z');
+            failedEventRepository.countByClassAndStatus.mockResolvedValue([
+                { failureClass: 'UNMATCHED_CREDENTIAL', status: 'OPEN', count: 4 },
+                { failureClass: 'UNMATCHED_CREDENTIAL', status: 'RESOLVED', count: 2 },
+                { failureClass: 'TRANSIENT', status: 'OPEN', count: 1 },
+            ] as any);
+            failedEventRepository.findOldestOpenFailure.mockResolvedValue(oldest);
+
+            const result = await service.getMetrics({}, mockScope);
+
+            expect(result.open).toBe(5);
+            expect(result.oldestOpenFailedAt).toEqual(oldest);
+            expect(result.byFailureClass).toHaveLength(4);
+            expect(
+                result.byFailureClass.find(item => item.failureClass === 'UNMATCHED_CREDENTIAL')
+            ).toEqual({
+                failureClass: 'UNMATCHED_CREDENTIAL',
+                open: 4,
+                retried: 0,
+                resolved: 2,
+                discarded: 0,
+                total: 6,
+            });
+            expect(
+                result.byFailureClass.find(item => item.failureClass === 'UNKNOWN_DEVICE').total
+            ).toBe(0);
+        });
+    });
+
+    describe('updateFailedEvent', () => {
+        it('should set the employee after checking it belongs to the branch of the device', async () => {
+            const result = await service.updateFailedEvent(
+                'failed-123',
+                { resolvedEmployeeId: 'emp-123' },
+                mockScope,
+                'user-123'
+            );
+
+            expect(result.resolvedEmployeeId).toBe('emp-123');
+            expect(employeeRepository.findById).toHaveBeenCalledWith('emp-123', {
+                organizationId: 'org-123',
+                branchIds: ['branch-123'],
+            });
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'FAILED_DEVICE_EVENT_UPDATED',
+                expect.objectContaining({
+                    failedEventId: 'failed-123',
+                    newResolvedEmployeeId: 'emp-123',
+                }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should clear the employee', async () => {
+            await service.updateFailedEvent(
+                'failed-123',
+                { resolvedEmployeeId: null },
+                mockScope,
+                'user-123'
+            );
+
+            expect(employeeRepository.findById).not.toHaveBeenCalled();
+            expect(failedEventRepository.update).toHaveBeenCalledWith('failed-123', {
+                note: undefined,
+                resolvedEmployeeId: null,
+            });
+        });
+
+        it('should reject employees of other branches', async () => {
+            employeeRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.updateFailedEvent(
+                    'failed-123',
+                    { resolvedEmployeeId: 'emp-999' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            expect(failedEventRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should reject changes to failed events that are not open', async () => {
+            failedEventRepository.findById.mockResolvedValue({
+                ...mockFailedEvent,
+                status: 'RETRIED',
+            });
+
+            await expect(
+                service.updateFailedEvent('failed-123', { note: 'x' }, mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('retryFailedEvent', () => {
+        it('should queue the event as a replay for the employee set in triage', async () => {
+            failedEventRepository.findById.mockResolvedValue({
+                ...mockFailedEvent,
+                resolvedEmployeeId: 'emp-123',
+            });
+
+            const result = await service.retryFailedEvent(
+                'failed-123',
+                mockScope,
+                'user-123',
+                'corr-123'
+            );
+
+            expect(queueProducer.replayDeviceEvent).toHaveBeenCalledWith({
+                ...payload,
+                resolvedEmployeeId: 'emp-123',
+                correlationId: 'corr-123',
+            });
+            expect(result.status).toBe('RETRIED');
+            expect(failedEventRepository.update).toHaveBeenCalledWith('failed-123', {
+                status: 'RETRIED',
+                resolvedByUserId: 'user-123',
+            });
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'FAILED_DEVICE_EVENT_RETRIED',
+                expect.objectContaining({ failedEventId: 'failed-123' }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should not retry discarded events', async () => {
+            failedEventRepository.findById.mockResolvedValue({
+                ...mockFailedEvent,
+                status: 'DISCARDED',
+            });
+
+            await expect(
+                service.retryFailedEvent('failed-123', mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(queueProducer.replayDeviceEvent).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('discardFailedEvent', () => {
+        it('should discard the event with the reason', async () => {
+            const result = await service.discardFailedEvent(
+                'failed-123',
+                { reason: 'Test card' },
+                mockScope,
+                'user-123'
+            );
+
+            expect(result.status).toBe('DISCARDED');
+            expect(failedEventRepository.update).toHaveBeenCalledWith('failed-123', {
+                status: 'DISCARDED',
+                resolvedByUserId: 'user-123',
+                note: 'Test card',
+            });
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'FAILED_DEVICE_EVENT_DISCARDED',
+                expect.objectContaining({ reason: 'Test card' }),
+                'org-123',
+                undefined
+            );
+        });
+    });
+});
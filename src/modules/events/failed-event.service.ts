@@ -0,0 +1,220 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import {
+    DeviceEventFailureClass,
+    FailedDeviceEvent,
+    FailedDeviceEventStatus,
+} from '@prisma/client';
+import {
+    FailedDeviceEventChanges,
+    FailedDeviceEventFilters,
+    FailedDeviceEventRepository,
+} from './failed-event.repository';
+import { EmployeeRepository } from '../employee/employee.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DeviceEventData, QueueProducer } from '@/core/queue/queue.producer';
+import {
+    DiscardFailedDeviceEventDto,
+    FailedDeviceEventMetricsDto,
+    UpdateFailedDeviceEventDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+
+/**
+ * Triage of the device events the events queue gave up on: they can be inspected, given the
+ * employee their credential should have matched, retried or discarded
+ */
+@Injectable()
+export class FailedDeviceEventService {
+    constructor(
+        private readonly failedEventRepository: FailedDeviceEventRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly queueProducer: QueueProducer,
+        private readonly logger: LoggerService
+    ) {}
+
+    async getFailedEvents(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        return this.failedEventRepository.findMany(filters, scope, pagination);
+    }
+
+    async getFailedEventById(id: string, scope: DataScope): Promise<FailedDeviceEvent> {
+        const failedEvent = await this.failedEventRepository.findById(id, scope);
+        if (!failedEvent) {
+            throw new NotFoundException('Failed event not found');
+        }
+
+        return failedEvent;
+    }
+
+    async getMetrics(
+        filters: FailedDeviceEventFilters,
+        scope: DataScope
+    ): Promise<FailedDeviceEventMetricsDto> {
+        const [counts, oldestOpenFailedAt] = await Promise.all([
+            this.failedEventRepository.countByClassAndStatus(filters, scope),
+            this.failedEventRepository.findOldestOpenFailure(filters, scope),
+        ]);
+
+        const byFailureClass = Object.values(DeviceEventFailureClass).map(failureClass => {
+            const count = (status: FailedDeviceEventStatus) =>
+                counts.find(item => item.failureClass === failureClass && item.status === status)
+                    ?.count || 0;
+            const metrics = {
+                failureClass,
+                open: count(FailedDeviceEventStatus.OPEN),
+                retried: count(FailedDeviceEventStatus.RETRIED),
+                resolved: count(FailedDeviceEventStatus.RESOLVED),
+                discarded: count(FailedDeviceEventStatus.DISCARDED),
+            };
+
+            return {
+                ...metrics,
+                total: metrics.open + metrics.retried + metrics.resolved + metrics.discarded,
+            };
+        });
+
+        return {
+            byFailureClass,
+            open: byFailureClass.reduce((sum, metrics) => sum + metrics.open, 0),
+            oldestOpenFailedAt: oldestOpenFailedAt || undefined,
+        };
+    }
+
+    /**
+     * Set the employee an open failed event is recorded for when retried, e.g. for a card
+     * that was never registered
+     */
+    async updateFailedEvent(
+        id: string,
+        updateDto: UpdateFailedDeviceEventDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<FailedDeviceEvent> {
+        const failedEvent = await this.getOpenFailedEvent(id, scope);
+
+        const changes: FailedDeviceEventChanges = { note: updateDto.note };
+        if (updateDto.resolvedEmployeeId !== undefined) {
+            changes.resolvedEmployeeId = updateDto.resolvedEmployeeId;
+        }
+
+        if (updateDto.resolvedEmployeeId) {
+            const employee = await this.employeeRepository.findById(updateDto.resolvedEmployeeId, {
+                organizationId: scope.organizationId,
+                branchIds: [failedEvent.branchId],
+            });
+            if (!employee) {
+                throw new BadRequestException('Employee not found in the branch of the device');
+            }
+        }
+
+        const updated = await this.failedEventRepository.update(id, changes);
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'FAILED_DEVICE_EVENT_UPDATED',
+            {
+                failedEventId: id,
+                eventLogId: failedEvent.eventLogId,
+                oldResolvedEmployeeId: failedEvent.resolvedEmployeeId,
+                newResolvedEmployeeId: updated.resolvedEmployeeId,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return updated;
+    }
+
+    /**
+     * Queue a failed event again as a replay, for the employee set in triage if any. The entry
+     * is resolved once the event is processed, or opened again if it fails.
+     */
+    async retryFailedEvent(
+        id: string,
+        scope: DataScope,
+        retriedByUserId: string,
+        correlationId?: string
+    ): Promise<FailedDeviceEvent> {
+        const failedEvent = await this.getFailedEventById(id, scope);
+        if (
+            failedEvent.status === FailedDeviceEventStatus.RESOLVED ||
+            failedEvent.status === FailedDeviceEventStatus.DISCARDED
+        ) {
+            throw new BadRequestException(
+                `The failed event is ${failedEvent.status.toLowerCase()} and cannot be retried`
+            );
+        }
+
+        const payload = failedEvent.payload as unknown as DeviceEventData;
+        await this.queueProducer.replayDeviceEvent({
+            ...payload,
+            eventLogId: failedEvent.eventLogId || undefined,
+            resolvedEmployeeId: failedEvent.resolvedEmployeeId || undefined,
+            correlationId,
+        });
+
+        const updated = await this.failedEventRepository.update(id, {
+            status: FailedDeviceEventStatus.RETRIED,
+            resolvedByUserId: retriedByUserId,
+        });
+
+        this.logger.logUserAction(
+            retriedByUserId,
+            'FAILED_DEVICE_EVENT_RETRIED',
+            {
+                failedEventId: id,
+                eventLogId: failedEvent.eventLogId,
+                failureClass: failedEvent.failureClass,
+                resolvedEmployeeId: failedEvent.resolvedEmployeeId,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return updated;
+    }
+
+    async discardFailedEvent(
+        id: string,
+        discardDto: DiscardFailedDeviceEventDto,
+        scope: DataScope,
+        discardedByUserId: string,
+        correlationId?: string
+    ): Promise<FailedDeviceEvent> {
+        const failedEvent = await this.getOpenFailedEvent(id, scope);
+
+        const updated = await this.failedEventRepository.update(id, {
+            status: FailedDeviceEventStatus.DISCARDED,
+            resolvedByUserId: discardedByUserId,
+            note: discardDto.reason,
+        });
+
+        this.logger.logUserAction(
+            discardedByUserId,
+            'FAILED_DEVICE_EVENT_DISCARDED',
+            {
+                failedEventId: id,
+                eventLogId: failedEvent.eventLogId,
+                failureClass: failedEvent.failureClass,
+                reason: discardDto.reason,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return updated;
+    }
+
+    private async getOpenFailedEvent(id: string, scope: DataScope): Promise<FailedDeviceEvent> {
+        const failedEvent = await this.getFailedEventById(id, scope);
+        if (failedEvent.status !== FailedDeviceEventStatus.OPEN) {
+            throw new BadRequestException('Only open failed events can be changed');
+        }
+
+        return failedEvent;
+    }
+}
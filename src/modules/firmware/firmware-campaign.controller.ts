@@ -0,0 +1,287 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Query } from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { FirmwareCampaignDevice } from '@prisma/client';
+import { FirmwareCampaignService } from './firmware-campaign.service';
+import {
+    FirmwareCampaignDeviceCounts,
+    FirmwareCampaignWithImage,
+} from './firmware-campaign.repository';
+import {
+    CreateFirmwareCampaignDto,
+    FirmwareCampaignDeviceFiltersDto,
+    FirmwareCampaignDeviceResponseDto,
+    FirmwareCampaignFiltersDto,
+    FirmwareCampaignResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+    PauseFirmwareCampaignDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Firmware')
+@ApiBearerAuth()
+@Controller('firmware/campaigns')
+export class FirmwareCampaignController {
+    constructor(private readonly campaignService: FirmwareCampaignService) {}
+
+    @Post()
+    @Permissions('firmware:manage')
+    @ApiOperation({
+        summary: 'Plan a firmware campaign',
+        description:
+            "Targets the active devices of the firmware image's model, in the given branches " +
+            'or all of them, split into waves. Nothing is sent until the campaign is started.',
+    })
+    @ApiBody({ type: CreateFirmwareCampaignDto })
+    @ApiResponse({ status: 201, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 400, description: 'The image is not uploaded or no device needs it.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware image or branch not found.' })
+    async createCampaign(
+        @Body() createCampaignDto: CreateFirmwareCampaignDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.createCampaign(
+            createCampaignDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    @Get()
+    @Permissions('firmware:read')
+    @ApiOperation({ summary: 'Get the firmware campaigns of the organization, newest first' })
+    @ApiQuery({ name: 'filtersDto', type: FirmwareCampaignFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getCampaigns(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: FirmwareCampaignFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<FirmwareCampaignResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.campaignService.getCampaigns(
+            { status: filtersDto.status, firmwareImageId: filtersDto.firmwareImageId },
+            scope,
+            { page, limit }
+        );
+        const progress = await this.campaignService.getProgress(data.map(campaign => campaign.id));
+
+        return new PaginationResponseDto(
+            data.map(campaign => this.toResponse(campaign, progress.get(campaign.id))),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Get(':id')
+    @Permissions('firmware:read')
+    @ApiOperation({ summary: 'Get a firmware campaign with its progress' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiResponse({ status: 200, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async getCampaignById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.getCampaignById(id, scope);
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    @Get(':id/devices')
+    @Permissions('firmware:read')
+    @ApiOperation({ summary: 'Get the progress of each device of a firmware campaign' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiQuery({ name: 'filtersDto', type: FirmwareCampaignDeviceFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async getCampaignDevices(
+        @Param('id') id: string,
+        @Scope() scope: DataScope,
+        @Query() filtersDto: FirmwareCampaignDeviceFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<FirmwareCampaignDeviceResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.campaignService.getCampaignDevices(
+            id,
+            { status: filtersDto.status, wave: filtersDto.wave },
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            data.map(campaignDevice => this.toDeviceResponse(campaignDevice)),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Post(':id/start')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Start a draft firmware campaign, sending its first wave' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiResponse({ status: 200, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 400, description: 'The campaign is not a draft.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async startCampaign(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.startCampaign(id, scope, user.sub);
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    @Post(':id/pause')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Pause a running firmware campaign before its next wave' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiBody({ type: PauseFirmwareCampaignDto })
+    @ApiResponse({ status: 200, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 400, description: 'The campaign is not running.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async pauseCampaign(
+        @Param('id') id: string,
+        @Body() pauseDto: PauseFirmwareCampaignDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.pauseCampaign(
+            id,
+            pauseDto.reason,
+            scope,
+            user.sub
+        );
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    @Post(':id/resume')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Resume a paused firmware campaign',
+        description: 'Failures before the campaign was resumed no longer count to its threshold.',
+    })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiResponse({ status: 200, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 400, description: 'The campaign is not paused.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async resumeCampaign(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.resumeCampaign(id, scope, user.sub);
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    @Post(':id/cancel')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Cancel a firmware campaign, skipping the waves not started' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware campaign' })
+    @ApiResponse({ status: 200, type: FirmwareCampaignResponseDto })
+    @ApiResponse({ status: 400, description: 'The campaign is finished.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware campaign not found.' })
+    async cancelCampaign(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareCampaignResponseDto> {
+        const campaign = await this.campaignService.cancelCampaign(id, scope, user.sub);
+
+        return this.toResponseWithProgress(campaign);
+    }
+
+    private async toResponseWithProgress(
+        campaign: FirmwareCampaignWithImage
+    ): Promise<FirmwareCampaignResponseDto> {
+        const progress = await this.campaignService.getProgress([campaign.id]);
+
+        return this.toResponse(campaign, progress.get(campaign.id));
+    }
+
+    private toResponse(
+        campaign: FirmwareCampaignWithImage,
+        counts?: FirmwareCampaignDeviceCounts
+    ): FirmwareCampaignResponseDto {
+        return {
+            id: campaign.id,
+            organizationId: campaign.organizationId,
+            name: campaign.name,
+            firmwareImageId: campaign.firmwareImageId,
+            deviceModel: campaign.firmwareImage?.deviceModel,
+            version: campaign.firmwareImage?.version,
+            status: campaign.status,
+            branchIds: campaign.branchIds,
+            waveSize: campaign.waveSize,
+            totalWaves: campaign.totalWaves,
+            currentWave: campaign.currentWave,
+            failureThresholdPercent: campaign.failureThresholdPercent,
+            verifyTimeoutMinutes: campaign.verifyTimeoutMinutes,
+            pausedReason: campaign.pausedReason || undefined,
+            progress: counts && {
+                total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+                pending: counts.PENDING,
+                inProgress: counts.IN_PROGRESS,
+                succeeded: counts.SUCCEEDED,
+                failed: counts.FAILED,
+                skipped: counts.SKIPPED,
+            },
+            createdByUserId: campaign.createdByUserId || undefined,
+            startedAt: campaign.startedAt || undefined,
+            resumedAt: campaign.resumedAt || undefined,
+            completedAt: campaign.completedAt || undefined,
+            createdAt: campaign.createdAt,
+            updatedAt: campaign.updatedAt,
+        };
+    }
+
+    private toDeviceResponse(
+        campaignDevice: FirmwareCampaignDevice
+    ): FirmwareCampaignDeviceResponseDto {
+        return {
+            id: campaignDevice.id,
+            campaignId: campaignDevice.campaignId,
+            deviceId: campaignDevice.deviceId,
+            branchId: campaignDevice.branchId,
+            wave: campaignDevice.wave,
+            status: campaignDevice.status,
+            previousVersion: campaignDevice.previousVersion || undefined,
+            error: campaignDevice.error || undefined,
+            deviceCommandId: campaignDevice.deviceCommandId || undefined,
+            startedAt: campaignDevice.startedAt || undefined,
+            completedAt: campaignDevice.completedAt || undefined,
+        };
+    }
+}
@@ -0,0 +1,316 @@
+import { Injectable } from '@nestjs/common';
+import {
+    FirmwareCampaign,
+    FirmwareCampaignDevice,
+    FirmwareCampaignDeviceStatus,
+    FirmwareCampaignStatus,
+    FirmwareImage,
+    Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export type FirmwareCampaignWithImage = FirmwareCampaign & { firmwareImage: FirmwareImage };
+
+export interface CreateFirmwareCampaignData {
+    name: string;
+    firmwareImageId: string;
+    branchIds: string[];
+    waveSize: number;
+    totalWaves: number;
+    failureThresholdPercent: number;
+    verifyTimeoutMinutes: number;
+    createdByUserId: string;
+}
+
+export interface FirmwareCampaignDeviceData {
+    deviceId: string;
+    branchId: string;
+    wave: number;
+    status: FirmwareCampaignDeviceStatus;
+    previousVersion?: string;
+    error?: string;
+}
+
+export interface FirmwareCampaignFilters {
+    status?: FirmwareCampaignStatus;
+    firmwareImageId?: string;
+}
+
+export interface FirmwareCampaignDeviceFilters {
+    status?: FirmwareCampaignDeviceStatus;
+    wave?: number;
+}
+
+export type FirmwareCampaignDeviceChanges = Partial<
+    Pick<
+        FirmwareCampaignDevice,
+        'status' | 'previousVersion' | 'error' | 'deviceCommandId' | 'startedAt' | 'completedAt'
+    >
+>;
+
+/** A device of a wave with what its update is checked against */
+export type FirmwareUpdate = FirmwareCampaignDevice & {
+    device: {
+        id: string;
+        organizationId: string;
+        branchId: string;
+        isActive: boolean;
+        firmwareVersion: string | null;
+    };
+    deviceCommand: { status: string; error: string | null } | null;
+};
+
+export type FirmwareCampaignDeviceCounts = Record<FirmwareCampaignDeviceStatus, number>;
+
+@Injectable()
+export class FirmwareCampaignRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: CreateFirmwareCampaignData,
+        devices: FirmwareCampaignDeviceData[],
+        scope: DataScope
+    ): Promise<FirmwareCampaignWithImage> {
+        return this.prisma.firmwareCampaign.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+                devices: { create: devices },
+            },
+            include: { firmwareImage: true },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<FirmwareCampaignWithImage | null> {
+        return this.prisma.firmwareCampaign.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+            include: { firmwareImage: true },
+        });
+    }
+
+    async findMany(
+        filters: FirmwareCampaignFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{
+        data: FirmwareCampaignWithImage[];
+        total: number;
+        page: number;
+        limit: number;
+    }> {
+        const where: Prisma.FirmwareCampaignWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            ...(filters.status && { status: filters.status }),
+            ...(filters.firmwareImageId && { firmwareImageId: filters.firmwareImageId }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.firmwareCampaign.findMany({
+                where,
+                include: { firmwareImage: true },
+                orderBy: { createdAt: 'desc' },
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.firmwareCampaign.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    /**
+     * Campaigns of all organizations that roll out waves or wait for updates sent before they
+     * were paused or cancelled
+     */
+    async findInProgress(): Promise<FirmwareCampaignWithImage[]> {
+        return this.prisma.firmwareCampaign.findMany({
+            where: {
+                OR: [
+                    { status: FirmwareCampaignStatus.RUNNING },
+                    { devices: { some: { status: FirmwareCampaignDeviceStatus.IN_PROGRESS } } },
+                ],
+            },
+            include: { firmwareImage: true },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * Move the campaign on from one of the given statuses; null when it was moved on meanwhile
+     */
+    async transition(
+        id: string,
+        fromStatuses: FirmwareCampaignStatus[],
+        data: Prisma.FirmwareCampaignUncheckedUpdateInput
+    ): Promise<FirmwareCampaignWithImage | null> {
+        const { count } = await this.prisma.firmwareCampaign.updateMany({
+            where: { id, status: { in: fromStatuses } },
+            data,
+        });
+        if (!count) {
+            return null;
+        }
+
+        return this.prisma.firmwareCampaign.findUnique({
+            where: { id },
+            include: { firmwareImage: true },
+        });
+    }
+
+    /**
+     * Start the next wave; false when another run started it already
+     */
+    async startWave(id: string, wave: number): Promise<boolean> {
+        const { count } = await this.prisma.firmwareCampaign.updateMany({
+            where: { id, status: FirmwareCampaignStatus.RUNNING, currentWave: wave - 1 },
+            data: { currentWave: wave },
+        });
+
+        return count > 0;
+    }
+
+    async countDevicesByStatus(
+        campaignIds: string[]
+    ): Promise<Map<string, FirmwareCampaignDeviceCounts>> {
+        const groups = await this.prisma.firmwareCampaignDevice.groupBy({
+            by: ['campaignId', 'status'],
+            where: { campaignId: { in: campaignIds } },
+            _count: { _all: true },
+        });
+
+        const counts = new Map<string, FirmwareCampaignDeviceCounts>();
+        for (const campaignId of campaignIds) {
+            counts.set(campaignId, {
+                PENDING: 0,
+                IN_PROGRESS: 0,
+                SUCCEEDED: 0,
+                FAILED: 0,
+                SKIPPED: 0,
+            });
+        }
+        for (const group of groups) {
+            counts.get(group.campaignId)![group.status] = group._count._all;
+        }
+
+        return counts;
+    }
+
+    /**
+     * Updates that succeeded and failed since the given time, or since the campaign started
+     */
+    async countOutcomes(
+        campaignId: string,
+        since?: Date | null
+    ): Promise<{ succeeded: number; failed: number }> {
+        const where: Prisma.FirmwareCampaignDeviceWhereInput = {
+            campaignId,
+            ...(since && { completedAt: { gte: since } }),
+        };
+
+        const [succeeded, failed] = await Promise.all([
+            this.prisma.firmwareCampaignDevice.count({
+                where: { ...where, status: FirmwareCampaignDeviceStatus.SUCCEEDED },
+            }),
+            this.prisma.firmwareCampaignDevice.count({
+                where: { ...where, status: FirmwareCampaignDeviceStatus.FAILED },
+            }),
+        ]);
+
+        return { succeeded, failed };
+    }
+
+    async findDevices(
+        campaignId: string,
+        filters: FirmwareCampaignDeviceFilters,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{ data: FirmwareCampaignDevice[]; total: number; page: number; limit: number }> {
+        const where: Prisma.FirmwareCampaignDeviceWhereInput = {
+            campaignId,
+            ...(filters.status && { status: filters.status }),
+            ...(filters.wave && { wave: filters.wave }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.firmwareCampaignDevice.findMany({
+                where,
+                orderBy: [{ wave: 'asc' }, { createdAt: 'asc' }],
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.firmwareCampaignDevice.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    /**
+     * The devices of the campaign in one of the statuses, of one wave or all waves
+     */
+    async findUpdates(
+        campaignId: string,
+        statuses: FirmwareCampaignDeviceStatus[],
+        wave?: number
+    ): Promise<FirmwareUpdate[]> {
+        return this.prisma.firmwareCampaignDevice.findMany({
+            where: {
+                campaignId,
+                status: { in: statuses },
+                ...(wave !== undefined && { wave }),
+            },
+            include: {
+                device: {
+                    select: {
+                        id: true,
+                        organizationId: true,
+                        branchId: true,
+                        isActive: true,
+                        firmwareVersion: true,
+                    },
+                },
+                deviceCommand: { select: { status: true, error: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    async countOpenInWave(campaignId: string, wave: number): Promise<number> {
+        return this.prisma.firmwareCampaignDevice.count({
+            where: {
+                campaignId,
+                wave,
+                status: {
+                    in: [
+                        FirmwareCampaignDeviceStatus.PENDING,
+                        FirmwareCampaignDeviceStatus.IN_PROGRESS,
+                    ],
+                },
+            },
+        });
+    }
+
+    async updateDevice(id: string, data: FirmwareCampaignDeviceChanges): Promise<void> {
+        await this.prisma.firmwareCampaignDevice.update({ where: { id }, data });
+    }
+
+    /**
+     * Skip the devices whose wave has not started; returns how many
+     */
+    async skipPendingDevices(campaignId: string, error: string): Promise<number> {
+        const { count } = await this.prisma.firmwareCampaignDevice.updateMany({
+            where: { campaignId, status: FirmwareCampaignDeviceStatus.PENDING },
+            data: {
+                status: FirmwareCampaignDeviceStatus.SKIPPED,
+                error,
+                completedAt: new Date(),
+            },
+        });
+
+        return count;
+    }
+}
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { FirmwareCampaignService } from './firmware-campaign.service';
+import { FirmwareCampaignRepository } from './firmware-campaign.repository';
+import { FirmwareImageService } from './firmware-image.service';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('FirmwareCampaignService', () => {
+    let service: FirmwareCampaignService;
+    let campaignRepository: jest.Mocked<FirmwareCampaignRepository>;
+    let firmwareImageService: jest.Mocked<FirmwareImageService>;
+    let firmwareRolloutService: jest.Mocked<FirmwareRolloutService>;
+    let deviceRepository: jest.Mocked<DeviceRepository>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const mockImage = {
+        id: 'image-123',
+        organizationId: 'org-123',
+        deviceModel: 'DS-K1T671M',
+        version: 'V3.2.30',
+        status: 'AVAILABLE',
+    };
+
+    const mockDevice = (id: string, branchId: string, firmwareVersion: string | null) => ({
+        id,
+        organizationId: 'org-123',
+        branchId,
+        name: `Reader ${id}`,
+        model: 'DS-K1T671M',
+        firmwareVersion,
+        isActive: true,
+    });
+
+    const mockCampaign = {
+        id: 'campaign-123',
+        organizationId: 'org-123',
+        name: 'Readers to V3.2.30',
+        status: 'DRAFT',
+        totalWaves: 2,
+        currentWave: 0,
+        pausedReason: null,
+        firmwareImage: mockImage,
+    };
+
+    beforeEach(async () => {
+        const mockCampaignRepository = {
+            create: jest.fn().mockImplementation(async data => ({ ...mockCampaign, ...data })),
+            findById: jest.fn().mockResolvedValue(mockCampaign),
+            transition: jest.fn(),
+            skipPendingDevices: jest.fn().mockResolvedValue(3),
+        };
+
+        const mockFirmwareImageService = {
+            getImageById: jest.fn().mockResolvedValue(mockImage),
+        };
+
+        const mockFirmwareRolloutService = {
+            advanceCampaign: jest.fn(),
+        };
+
+        const mockDeviceRepository = {
+            findMany: jest
+                .fn()
+                .mockResolvedValue([
+                    mockDevice('device-1', 'branch-2', 'V3.1.0'),
+                    mockDevice('device-2', 'branch-1', 'V3.2.30'),
+                    mockDevice('device-3', 'branch-1', null),
+                    mockDevice('device-4', 'branch-1', 'V3.1.0'),
+                ]),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                FirmwareCampaignService,
+                {
+                    provide: FirmwareCampaignRepository,
+                    useValue: mockCampaignRepository,
+                },
+                {
+                    provide: FirmwareImageService,
+                    useValue: mockFirmwareImageService,
+                },
+                {
+                    provide: FirmwareRolloutService,
+                    useValue: mockFirmwareRolloutService,
+                },
+                {
+                    provide: DeviceRepository,
+                    useValue: mockDeviceRepository,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<FirmwareCampaignService>(FirmwareCampaignService);
+        campaignRepository = module.get(FirmwareCampaignRepository);
+        firmwareImageService = module.get(FirmwareImageService);
+        firmwareRolloutService = module.get(FirmwareRolloutService);
+        deviceRepository = module.get(DeviceRepository);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('createCampaign', () => {
+        it('should split the devices of the model needing the version into waves', async () => {
+            await service.createCampaign(
+                {
+                    name: 'Readers to V3.2.30',
+                    firmwareImageId: 'image-123',
+                    branchIds: ['branch-1', 'branch-2'],
+                    waveSize: 2,
+                },
+                mockScope,
+                'user-123'
+            );
+
+            expect(deviceRepository.findMany).toHaveBeenCalledWith(
+                {
+                    model: 'DS-K1T671M',
+                    isActive: true,
+                    branchId: { in: ['branch-1', 'branch-2'] },
+                },
+                mockScope
+            );
+            expect(campaignRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    branchIds: ['branch-1', 'branch-2'],
+                    waveSize: 2,
+                    totalWaves: 2,
+                    failureThresholdPercent: 10,
+                    verifyTimeoutMinutes: 60,
+                }),
+                [
+                    expect.objectContaining({ deviceId: 'device-3', wave: 1, status: 'PENDING' }),
+                    expect.objectContaining({ deviceId: 'device-4', wave: 1, status: 'PENDING' }),
+                    expect.objectContaining({
+                        deviceId: 'device-1',
+                        wave: 2,
+                        previousVersion: 'V3.1.0',
+                    }),
+                    expect.objectContaining({ deviceId: 'device-2', wave: 0, status: 'SKIPPED' }),
+                ],
+                mockScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'FIRMWARE_CAMPAIGN_CREATED',
+                expect.objectContaining({ devices: 3, skipped: 1, totalWaves: 2 }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should reject images whose upload is not completed', async () => {
+            firmwareImageService.getImageById.mockResolvedValue({
+                ...mockImage,
+                status: 'PENDING_UPLOAD',
+            } as any);
+
+            await expect(
+                service.createCampaign(
+                    { name: 'Readers', firmwareImageId: 'image-123' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            expect(deviceRepository.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should reject campaigns without devices to update', async () => {
+            deviceRepository.findMany.mockResolvedValue([
+                mockDevice('device-2', 'branch-1', 'V3.2.30'),
+            ] as any);
+
+            await expect(
+                service.createCampaign(
+                    { name: 'Readers', firmwareImageId: 'image-123' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow('No active DS-K1T671M devices need version V3.2.30');
+        });
+    });
+
+    describe('startCampaign', () => {
+        it('should start a draft campaign and send its first wave', async () => {
+            const running = { ...mockCampaign, status: 'RUNNING' };
+            campaignRepository.transition.mockResolvedValue(running as any);
+
+            await service.startCampaign('campaign-123', mockScope, 'user-123');
+
+            expect(campaignRepository.transition).toHaveBeenCalledWith('campaign-123', ['DRAFT'], {
+                status: 'RUNNING',
+                startedAt: expect.any(Date),
+            });
+            expect(firmwareRolloutService.advanceCampaign).toHaveBeenCalledWith(running);
+        });
+
+        it('should reject campaigns that are not drafts', async () => {
+            campaignRepository.transition.mockResolvedValue(null);
+
+            await expect(
+                service.startCampaign('campaign-123', mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(firmwareRolloutService.advanceCampaign).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resumeCampaign', () => {
+        it('should count failures afresh from the time it was resumed', async () => {
+            campaignRepository.transition.mockResolvedValue({
+                ...mockCampaign,
+                status: 'RUNNING',
+            } as any);
+
+            await service.resumeCampaign('campaign-123', mockScope, 'user-123');
+
+            expect(campaignRepository.transition).toHaveBeenCalledWith('campaign-123', ['PAUSED'], {
+                status: 'RUNNING',
+                pausedReason: null,
+                resumedAt: expect.any(Date),
+            });
+            expect(firmwareRolloutService.advanceCampaign).toHaveBeenCalled();
+        });
+    });
+
+    describe('cancelCampaign', () => {
+        it('should skip the devices whose wave has not started', async () => {
+            campaignRepository.transition.mockResolvedValue({
+                ...mockCampaign,
+                status: 'CANCELLED',
+            } as any);
+
+            await service.cancelCampaign('campaign-123', mockScope, 'user-123');
+
+            expect(campaignRepository.skipPendingDevices).toHaveBeenCalledWith(
+                'campaign-123',
+                'The campaign was cancelled'
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'FIRMWARE_CAMPAIGN_CANCELLED',
+                expect.objectContaining({ skipped: 3 }),
+                'org-123',
+                undefined
+            );
+        });
+    });
+});
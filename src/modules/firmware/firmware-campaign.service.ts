@@ -0,0 +1,315 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import {
+    FirmwareCampaignDeviceStatus,
+    FirmwareCampaignStatus,
+    FirmwareImageStatus,
+} from '@prisma/client';
+import {
+    FirmwareCampaignDeviceCounts,
+    FirmwareCampaignDeviceData,
+    FirmwareCampaignDeviceFilters,
+    FirmwareCampaignFilters,
+    FirmwareCampaignRepository,
+    FirmwareCampaignWithImage,
+} from './firmware-campaign.repository';
+import { FirmwareImageService } from './firmware-image.service';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+import { DeviceRepository } from '../device/device.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    CreateFirmwareCampaignDto,
+    DEFAULT_FIRMWARE_FAILURE_THRESHOLD_PERCENT,
+    DEFAULT_FIRMWARE_VERIFY_TIMEOUT_MINUTES,
+    DEFAULT_FIRMWARE_WAVE_SIZE,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+
+@Injectable()
+export class FirmwareCampaignService {
+    constructor(
+        private readonly campaignRepository: FirmwareCampaignRepository,
+        private readonly firmwareImageService: FirmwareImageService,
+        private readonly firmwareRolloutService: FirmwareRolloutService,
+        private readonly deviceRepository: DeviceRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Plan a campaign: the active devices of the image's model in the branches are split into
+     * waves, and devices on the version already are skipped. Nothing is sent until it starts.
+     */
+    async createCampaign(
+        createCampaignDto: CreateFirmwareCampaignDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<FirmwareCampaignWithImage> {
+        const image = await this.firmwareImageService.getImageById(
+            createCampaignDto.firmwareImageId,
+            scope
+        );
+        if (image.status !== FirmwareImageStatus.AVAILABLE) {
+            throw new BadRequestException('The upload of the firmware image is not completed');
+        }
+
+        const branchIds = createCampaignDto.branchIds || [];
+        if (
+            scope.branchIds?.length &&
+            branchIds.some(branchId => !scope.branchIds.includes(branchId))
+        ) {
+            throw new NotFoundException('Branch not found');
+        }
+
+        const devices = await this.deviceRepository.findMany(
+            {
+                model: image.deviceModel,
+                isActive: true,
+                ...(branchIds.length && { branchId: { in: branchIds } }),
+            },
+            scope
+        );
+
+        const current = devices.filter(device => device.firmwareVersion === image.version);
+        const outdated = devices
+            .filter(device => device.firmwareVersion !== image.version)
+            .sort((a, b) => a.branchId.localeCompare(b.branchId) || a.name.localeCompare(b.name));
+        if (!outdated.length) {
+            throw new BadRequestException(
+                `No active ${image.deviceModel} devices need version ${image.version}`
+            );
+        }
+
+        const waveSize = createCampaignDto.waveSize || DEFAULT_FIRMWARE_WAVE_SIZE;
+        const campaignDevices: FirmwareCampaignDeviceData[] = [
+            ...outdated.map((device, index) => ({
+                deviceId: device.id,
+                branchId: device.branchId,
+                wave: Math.floor(index / waveSize) + 1,
+                status: FirmwareCampaignDeviceStatus.PENDING,
+                previousVersion: device.firmwareVersion || undefined,
+            })),
+            // Kept with the campaign so that its devices are accounted for
+            ...current.map(device => ({
+                deviceId: device.id,
+                branchId: device.branchId,
+                wave: 0,
+                status: FirmwareCampaignDeviceStatus.SKIPPED,
+                previousVersion: device.firmwareVersion || undefined,
+                error: 'The device is on the version already',
+            })),
+        ];
+
+        const campaign = await this.campaignRepository.create(
+            {
+                name: createCampaignDto.name,
+                firmwareImageId: image.id,
+                branchIds,
+                waveSize,
+                totalWaves: Math.ceil(outdated.length / waveSize),
+                failureThresholdPercent:
+                    createCampaignDto.failureThresholdPercent ??
+                    DEFAULT_FIRMWARE_FAILURE_THRESHOLD_PERCENT,
+                verifyTimeoutMinutes:
+                    createCampaignDto.verifyTimeoutMinutes ||
+                    DEFAULT_FIRMWARE_VERIFY_TIMEOUT_MINUTES,
+                createdByUserId,
+            },
+            campaignDevices,
+            scope
+        );
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'FIRMWARE_CAMPAIGN_CREATED',
+            {
+                campaignId: campaign.id,
+                name: campaign.name,
+                firmwareImageId: image.id,
+                deviceModel: image.deviceModel,
+                version: image.version,
+                devices: outdated.length,
+                skipped: current.length,
+                totalWaves: campaign.totalWaves,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return campaign;
+    }
+
+    async getCampaigns(
+        filters: FirmwareCampaignFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        return this.campaignRepository.findMany(filters, scope, pagination);
+    }
+
+    async getCampaignById(id: string, scope: DataScope): Promise<FirmwareCampaignWithImage> {
+        const campaign = await this.campaignRepository.findById(id, scope);
+        if (!campaign) {
+            throw new NotFoundException('Firmware campaign not found');
+        }
+
+        return campaign;
+    }
+
+    /**
+     * How many of the campaigns' devices are in each status, by campaign ID
+     */
+    async getProgress(campaignIds: string[]): Promise<Map<string, FirmwareCampaignDeviceCounts>> {
+        return this.campaignRepository.countDevicesByStatus(campaignIds);
+    }
+
+    async getCampaignDevices(
+        id: string,
+        filters: FirmwareCampaignDeviceFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        await this.getCampaignById(id, scope);
+
+        return this.campaignRepository.findDevices(id, filters, pagination);
+    }
+
+    /**
+     * Start the campaign, sending its first wave right away
+     */
+    async startCampaign(
+        id: string,
+        scope: DataScope,
+        userId: string,
+        correlationId?: string
+    ): Promise<FirmwareCampaignWithImage> {
+        await this.getCampaignById(id, scope);
+
+        const campaign = await this.campaignRepository.transition(
+            id,
+            [FirmwareCampaignStatus.DRAFT],
+            { status: FirmwareCampaignStatus.RUNNING, startedAt: new Date() }
+        );
+        if (!campaign) {
+            throw new BadRequestException('Only draft campaigns can be started');
+        }
+
+        this.logger.logUserAction(
+            userId,
+            'FIRMWARE_CAMPAIGN_STARTED',
+            { campaignId: id, name: campaign.name },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.firmwareRolloutService.advanceCampaign(campaign);
+
+        return this.getCampaignById(id, scope);
+    }
+
+    /**
+     * Pause the campaign; updates sent already are still followed up
+     */
+    async pauseCampaign(
+        id: string,
+        reason: string | undefined,
+        scope: DataScope,
+        userId: string,
+        correlationId?: string
+    ): Promise<FirmwareCampaignWithImage> {
+        await this.getCampaignById(id, scope);
+
+        const campaign = await this.campaignRepository.transition(
+            id,
+            [FirmwareCampaignStatus.RUNNING],
+            { status: FirmwareCampaignStatus.PAUSED, pausedReason: reason || 'Paused by a user' }
+        );
+        if (!campaign) {
+            throw new BadRequestException('Only running campaigns can be paused');
+        }
+
+        this.logger.logUserAction(
+            userId,
+            'FIRMWARE_CAMPAIGN_PAUSED',
+            { campaignId: id, name: campaign.name, reason },
+            scope.organizationId,
+            correlationId
+        );
+
+        return campaign;
+    }
+
+    /**
+     * Resume a paused campaign. The failure rate is counted afresh, so the failures that paused
+     * it don't pause it again.
+     */
+    async resumeCampaign(
+        id: string,
+        scope: DataScope,
+        userId: string,
+        correlationId?: string
+    ): Promise<FirmwareCampaignWithImage> {
+        const existingCampaign = await this.getCampaignById(id, scope);
+
+        const campaign = await this.campaignRepository.transition(
+            id,
+            [FirmwareCampaignStatus.PAUSED],
+            { status: FirmwareCampaignStatus.RUNNING, pausedReason: null, resumedAt: new Date() }
+        );
+        if (!campaign) {
+            throw new BadRequestException('Only paused campaigns can be resumed');
+        }
+
+        this.logger.logUserAction(
+            userId,
+            'FIRMWARE_CAMPAIGN_RESUMED',
+            { campaignId: id, name: campaign.name, pausedReason: existingCampaign.pausedReason },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.firmwareRolloutService.advanceCampaign(campaign);
+
+        return this.getCampaignById(id, scope);
+    }
+
+    /**
+     * Cancel the campaign; devices whose wave has not started are skipped, updates sent
+     * already are still followed up
+     */
+    async cancelCampaign(
+        id: string,
+        scope: DataScope,
+        userId: string,
+        correlationId?: string
+    ): Promise<FirmwareCampaignWithImage> {
+        await this.getCampaignById(id, scope);
+
+        const campaign = await this.campaignRepository.transition(
+            id,
+            [
+                FirmwareCampaignStatus.DRAFT,
+                FirmwareCampaignStatus.RUNNING,
+                FirmwareCampaignStatus.PAUSED,
+            ],
+            { status: FirmwareCampaignStatus.CANCELLED, completedAt: new Date() }
+        );
+        if (!campaign) {
+            throw new BadRequestException('The campaign is finished already');
+        }
+
+        const skipped = await this.campaignRepository.skipPendingDevices(
+            id,
+            'The campaign was cancelled'
+        );
+
+        this.logger.logUserAction(
+            userId,
+            'FIRMWARE_CAMPAIGN_CANCELLED',
+            { campaignId: id, name: campaign.name, skipped },
+            scope.organizationId,
+            correlationId
+        );
+
+        return campaign;
+    }
+}
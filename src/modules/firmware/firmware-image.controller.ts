@@ -0,0 +1,164 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { FirmwareImage } from '@prisma/client';
+import { FirmwareImageService } from './firmware-image.service';
+import {
+    CreateFirmwareImageDto,
+    FirmwareImageFiltersDto,
+    FirmwareImageResponseDto,
+    FirmwareImageUploadResponseDto,
+    PaginationDto,
+    PaginationResponseDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Firmware')
+@ApiBearerAuth()
+@Controller('firmware/images')
+export class FirmwareImageController {
+    constructor(private readonly firmwareImageService: FirmwareImageService) {}
+
+    @Post()
+    @Permissions('firmware:manage')
+    @ApiOperation({
+        summary: 'Register a firmware image',
+        description:
+            'Returns the URL to PUT the file to; complete the upload afterwards to make the ' +
+            'image available for campaigns.',
+    })
+    @ApiBody({ type: CreateFirmwareImageDto })
+    @ApiResponse({ status: 201, type: FirmwareImageUploadResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'The version exists for the device model.' })
+    async createImage(
+        @Body() createImageDto: CreateFirmwareImageDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareImageUploadResponseDto> {
+        const { image, uploadUrl } = await this.firmwareImageService.createImage(
+            createImageDto,
+            scope,
+            user.sub
+        );
+
+        return { image: this.toResponse(image), uploadUrl };
+    }
+
+    @Post(':id/complete-upload')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Complete the upload of a firmware image' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware image' })
+    @ApiResponse({ status: 200, type: FirmwareImageResponseDto })
+    @ApiResponse({ status: 400, description: 'The file has not been uploaded.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware image not found.' })
+    async completeUpload(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareImageResponseDto> {
+        const image = await this.firmwareImageService.completeUpload(id, scope, user.sub);
+
+        return this.toResponse(image);
+    }
+
+    @Get()
+    @Permissions('firmware:read')
+    @ApiOperation({ summary: 'Get the firmware images of the organization' })
+    @ApiQuery({ name: 'filtersDto', type: FirmwareImageFiltersDto })
+    @ApiQuery({ name: 'paginationDto', type: PaginationDto })
+    @ApiResponse({ status: 200, type: PaginationResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getImages(
+        @Scope() scope: DataScope,
+        @Query() filtersDto: FirmwareImageFiltersDto,
+        @Query() paginationDto: PaginationDto
+    ): Promise<PaginationResponseDto<FirmwareImageResponseDto>> {
+        const { page = 1, limit = 50 } = paginationDto;
+
+        const { data, total } = await this.firmwareImageService.getImages(
+            { deviceModel: filtersDto.deviceModel, status: filtersDto.status },
+            scope,
+            { page, limit }
+        );
+
+        return new PaginationResponseDto(
+            data.map(image => this.toResponse(image)),
+            total,
+            page,
+            limit
+        );
+    }
+
+    @Get(':id')
+    @Permissions('firmware:read')
+    @ApiOperation({ summary: 'Get a firmware image by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware image' })
+    @ApiResponse({ status: 200, type: FirmwareImageResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware image not found.' })
+    async getImageById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<FirmwareImageResponseDto> {
+        const image = await this.firmwareImageService.getImageById(id, scope);
+
+        return this.toResponse(image);
+    }
+
+    @Delete(':id')
+    @Permissions('firmware:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a firmware image and its file' })
+    @ApiParam({ name: 'id', description: 'ID of the firmware image' })
+    @ApiResponse({ status: 204, description: 'The firmware image has been deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Firmware image not found.' })
+    @ApiResponse({ status: 409, description: 'The image is used by a campaign.' })
+    async deleteImage(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.firmwareImageService.deleteImage(id, scope, user.sub);
+    }
+
+    private toResponse(image: FirmwareImage): FirmwareImageResponseDto {
+        return {
+            id: image.id,
+            organizationId: image.organizationId,
+            deviceModel: image.deviceModel,
+            version: image.version,
+            fileName: image.fileName,
+            contentType: image.contentType,
+            sizeBytes: image.sizeBytes ?? undefined,
+            checksum: image.checksum || undefined,
+            releaseNotes: image.releaseNotes || undefined,
+            status: image.status,
+            uploadedByUserId: image.uploadedByUserId || undefined,
+            uploadedAt: image.uploadedAt || undefined,
+            createdAt: image.createdAt,
+            updatedAt: image.updatedAt,
+        };
+    }
+}
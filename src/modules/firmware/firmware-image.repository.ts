@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { FirmwareImage, FirmwareImageStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export interface CreateFirmwareImageData {
+    deviceModel: string;
+    version: string;
+    fileName: string;
+    contentType: string;
+    storageKey: string;
+    checksum?: string;
+    releaseNotes?: string;
+    uploadedByUserId: string;
+}
+
+export interface FirmwareImageFilters {
+    deviceModel?: string;
+    status?: FirmwareImageStatus;
+}
+
+@Injectable()
+export class FirmwareImageRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(data: CreateFirmwareImageData, scope: DataScope): Promise<FirmwareImage> {
+        return this.prisma.firmwareImage.create({
+            data: { ...data, organizationId: scope.organizationId },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<FirmwareImage | null> {
+        return this.prisma.firmwareImage.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+        });
+    }
+
+    async findMany(
+        filters: FirmwareImageFilters,
+        scope: DataScope,
+        pagination: { page: number; limit: number } = { page: 1, limit: 50 }
+    ): Promise<{ data: FirmwareImage[]; total: number; page: number; limit: number }> {
+        const where: Prisma.FirmwareImageWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            ...(filters.deviceModel && { deviceModel: filters.deviceModel }),
+            ...(filters.status && { status: filters.status }),
+        };
+
+        const skip = (pagination.page - 1) * pagination.limit;
+
+        const [data, total] = await Promise.all([
+            this.prisma.firmwareImage.findMany({
+                where,
+                orderBy: [{ deviceModel: 'asc' }, { createdAt: 'desc' }],
+                skip,
+                take: pagination.limit,
+            }),
+            this.prisma.firmwareImage.count({ where }),
+        ]);
+
+        return { data, total, page: pagination.page, limit: pagination.limit };
+    }
+
+    /**
+     * Mark the file as uploaded; false when the upload was completed already
+     */
+    async completeUpload(id: string, sizeBytes: number, uploadedAt: Date): Promise<boolean> {
+        const { count } = await this.prisma.firmwareImage.updateMany({
+            where: { id, status: FirmwareImageStatus.PENDING_UPLOAD },
+            data: { status: FirmwareImageStatus.AVAILABLE, sizeBytes, uploadedAt },
+        });
+
+        return count > 0;
+    }
+
+    async countCampaigns(id: string): Promise<number> {
+        return this.prisma.firmwareCampaign.count({ where: { firmwareImageId: id } });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.firmwareImage.delete({ where: { id } });
+    }
+}
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { FirmwareImageService } from './firmware-image.service';
+import { FirmwareImageRepository } from './firmware-image.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
+import { DataScope } from '@/shared/interfaces';
+
+describe('FirmwareImageService', () => {
+    let service: FirmwareImageService;
+    let imageRepository: jest.Mocked<FirmwareImageRepository>;
+    let storageAdapter: jest.Mocked<IStorageAdapter>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const mockImage = {
+        id: 'image-123',
+        organizationId: 'org-123',
+        deviceModel: 'DS-K1T671M',
+        version: 'V3.2.30',
+        fileName: 'digicap.dav',
+        contentType: 'application/octet-stream',
+        storageKey: 'firmware/org-123/abc/digicap.dav',
+        status: 'PENDING_UPLOAD',
+    };
+
+    const createImageDto = {
+        deviceModel: 'DS-K1T671M',
+        version: 'V3.2.30',
+        fileName: 'digicap (1).dav',
+    };
+
+    beforeEach(async () => {
+        const mockImageRepository = {
+            create: jest.fn().mockImplementation(async data => ({ ...mockImage, ...data })),
+            findById: jest.fn().mockResolvedValue(mockImage),
+            completeUpload: jest.fn().mockResolvedValue(true),
+            countCampaigns: jest.fn().mockResolvedValue(0),
+            delete: jest.fn(),
+        };
+
+        const mockStorageAdapter = {
+            generatePresignedUploadUrl: jest
+                .fn()
+                .mockResolvedValue('https://storage.example.com/upload'),
+            fileExists: jest.fn().mockResolvedValue(true),
+            getFileMetadata: jest.fn().mockResolvedValue({ size: 4096 }),
+            deleteFile: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+            warn: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                FirmwareImageService,
+                {
+                    provide: FirmwareImageRepository,
+                    useValue: mockImageRepository,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+                {
+                    provide: 'IStorageAdapter',
+                    useValue: mockStorageAdapter,
+                },
+            ],
+        }).compile();
+
+        service = module.get<FirmwareImageService>(FirmwareImageService);
+        imageRepository = module.get(FirmwareImageRepository);
+        storageAdapter = module.get('IStorageAdapter');
+    });
+
+    describe('createImage', () => {
+        it('should register the image and hand out an upload URL', async () => {
+            const { image, uploadUrl } = await service.createImage(
+                createImageDto,
+                mockScope,
+                'user-123'
+            );
+
+            expect(uploadUrl).toBe('https://storage.example.com/upload');
+            expect(image.storageKey).toMatch(/^firmware\/org-123\/[\w-]+\/digicap__1_.dav$/);
+            expect(storageAdapter.generatePresignedUploadUrl).toHaveBeenCalledWith(
+                image.storageKey,
+                { expiresIn: 3600, contentType: 'application/octet-stream' }
+            );
+        });
+
+        it('should reject a version that exists for the model', async () => {
+            imageRepository.create.mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+                    code: 'P2002',
+                    clientVersion: '5.0.0',
+                })
+            );
+
+            await expect(
+                service.createImage(createImageDto, mockScope, 'user-123')
+            ).rejects.toThrow(ConflictException);
+        });
+    });
+
+    describe('completeUpload', () => {
+        it('should record the size of the uploaded file', async () => {
+            await service.completeUpload('image-123', mockScope, 'user-123');
+
+            expect(imageRepository.completeUpload).toHaveBeenCalledWith(
+                'image-123',
+                4096,
+                expect.any(Date)
+            );
+        });
+
+        it('should reject uploads whose file is missing', async () => {
+            storageAdapter.fileExists.mockResolvedValue(false);
+
+            await expect(
+                service.completeUpload('image-123', mockScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(imageRepository.completeUpload).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteImage', () => {
+        it('should keep images used by a campaign', async () => {
+            imageRepository.countCampaigns.mockResolvedValue(1);
+
+            await expect(service.deleteImage('image-123', mockScope, 'user-123')).rejects.toThrow(
+                ConflictException
+            );
+            expect(imageRepository.delete).not.toHaveBeenCalled();
+            expect(storageAdapter.deleteFile).not.toHaveBeenCalled();
+        });
+    });
+});
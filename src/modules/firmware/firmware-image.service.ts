@@ -0,0 +1,185 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { FirmwareImage, FirmwareImageStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { FirmwareImageFilters, FirmwareImageRepository } from './firmware-image.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
+import {
+    CreateFirmwareImageDto,
+    DEFAULT_FIRMWARE_CONTENT_TYPE,
+    FIRMWARE_UPLOAD_URL_EXPIRY_SECONDS,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil } from '@/shared/utils';
+
+@Injectable()
+export class FirmwareImageService {
+    constructor(
+        private readonly imageRepository: FirmwareImageRepository,
+        private readonly logger: LoggerService,
+        @Inject('IStorageAdapter') private readonly storageAdapter: IStorageAdapter
+    ) {}
+
+    /**
+     * Register a firmware image and hand out the URL its file is uploaded to; the image can be
+     * rolled out once the upload is completed
+     */
+    async createImage(
+        createImageDto: CreateFirmwareImageDto,
+        scope: DataScope,
+        uploadedByUserId: string,
+        correlationId?: string
+    ): Promise<{ image: FirmwareImage; uploadUrl: string }> {
+        const contentType = createImageDto.contentType || DEFAULT_FIRMWARE_CONTENT_TYPE;
+        const fileName = createImageDto.fileName.replace(/[^\w.-]/g, '_');
+
+        let image: FirmwareImage;
+        try {
+            image = await this.imageRepository.create(
+                {
+                    deviceModel: createImageDto.deviceModel,
+                    version: createImageDto.version,
+                    fileName: createImageDto.fileName,
+                    contentType,
+                    storageKey: `firmware/${scope.organizationId}/${randomUUID()}/${fileName}`,
+                    checksum: createImageDto.checksum?.toLowerCase(),
+                    releaseNotes: createImageDto.releaseNotes,
+                    uploadedByUserId,
+                },
+                scope
+            );
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException(
+                    'A firmware image of this version already exists for the device model'
+                );
+            }
+            throw error;
+        }
+
+        const uploadUrl = await this.storageAdapter.generatePresignedUploadUrl(image.storageKey, {
+            expiresIn: FIRMWARE_UPLOAD_URL_EXPIRY_SECONDS,
+            contentType,
+        });
+
+        this.logger.logUserAction(
+            uploadedByUserId,
+            'FIRMWARE_IMAGE_CREATED',
+            {
+                firmwareImageId: image.id,
+                deviceModel: image.deviceModel,
+                version: image.version,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return { image, uploadUrl };
+    }
+
+    /**
+     * Check that the file arrived in storage and make the image available for rollouts
+     */
+    async completeUpload(
+        id: string,
+        scope: DataScope,
+        userId: string,
+        correlationId?: string
+    ): Promise<FirmwareImage> {
+        const image = await this.getImageById(id, scope);
+        if (image.status !== FirmwareImageStatus.PENDING_UPLOAD) {
+            throw new BadRequestException('The upload of the firmware image is completed already');
+        }
+
+        if (!(await this.storageAdapter.fileExists(image.storageKey))) {
+            throw new BadRequestException('The firmware file has not been uploaded');
+        }
+
+        const { size } = await this.storageAdapter.getFileMetadata(image.storageKey);
+        if (!size) {
+            throw new BadRequestException('The uploaded firmware file is empty');
+        }
+
+        if (!(await this.imageRepository.completeUpload(id, size, new Date()))) {
+            throw new BadRequestException('The upload of the firmware image is completed already');
+        }
+
+        this.logger.logUserAction(
+            userId,
+            'FIRMWARE_IMAGE_UPLOADED',
+            {
+                firmwareImageId: id,
+                deviceModel: image.deviceModel,
+                version: image.version,
+                sizeBytes: size,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return this.getImageById(id, scope);
+    }
+
+    async getImages(
+        filters: FirmwareImageFilters,
+        scope: DataScope,
+        pagination?: { page: number; limit: number }
+    ) {
+        return this.imageRepository.findMany(filters, scope, pagination);
+    }
+
+    async getImageById(id: string, scope: DataScope): Promise<FirmwareImage> {
+        const image = await this.imageRepository.findById(id, scope);
+        if (!image) {
+            throw new NotFoundException('Firmware image not found');
+        }
+
+        return image;
+    }
+
+    /**
+     * Delete an image and its file; images rolled out by a campaign are kept
+     */
+    async deleteImage(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const image = await this.getImageById(id, scope);
+
+        if (await this.imageRepository.countCampaigns(id)) {
+            throw new ConflictException('The firmware image is used by a campaign');
+        }
+
+        await this.imageRepository.delete(id);
+
+        try {
+            await this.storageAdapter.deleteFile(image.storageKey);
+        } catch (error) {
+            this.logger.warn('Failed to delete the file of a firmware image', {
+                firmwareImageId: id,
+                storageKey: image.storageKey,
+                error: error.message,
+            });
+        }
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'FIRMWARE_IMAGE_DELETED',
+            {
+                firmwareImageId: id,
+                deviceModel: image.deviceModel,
+                version: image.version,
+            },
+            scope.organizationId,
+            correlationId
+        );
+    }
+}
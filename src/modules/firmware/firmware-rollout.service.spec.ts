@@ -0,0 +1,339 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+import { FirmwareCampaignRepository } from './firmware-campaign.repository';
+import { DeviceService } from '../device/device.service';
+import { DeviceCommandRepository } from '../device-command/device-command.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+
+describe('FirmwareRolloutService', () => {
+    let service: FirmwareRolloutService;
+    let campaignRepository: jest.Mocked<FirmwareCampaignRepository>;
+    let deviceCommandRepository: jest.Mocked<DeviceCommandRepository>;
+    let deviceService: jest.Mocked<DeviceService>;
+    let queueProducer: jest.Mocked<QueueProducer>;
+
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+    const mockCampaign = (overrides: Record<string, any> = {}) =>
+        ({
+            id: 'campaign-123',
+            organizationId: 'org-123',
+            name: 'Readers to V3.2.30',
+            firmwareImageId: 'image-123',
+            status: 'RUNNING',
+            branchIds: [],
+            waveSize: 2,
+            totalWaves: 2,
+            currentWave: 1,
+            failureThresholdPercent: 10,
+            verifyTimeoutMinutes: 60,
+            pausedReason: null,
+            createdByUserId: 'user-123',
+            resumedAt: null,
+            firmwareImage: {
+                id: 'image-123',
+                deviceModel: 'DS-K1T671M',
+                version: 'V3.2.30',
+                storageKey: 'firmware/org-123/abc/digicap.dav',
+                checksum: null,
+            },
+            ...overrides,
+        }) as any;
+
+    const mockUpdate = (id: string, overrides: Record<string, any> = {}) => ({
+        id: `update-${id}`,
+        campaignId: 'campaign-123',
+        deviceId: `device-${id}`,
+        branchId: 'branch-123',
+        wave: 1,
+        status: 'IN_PROGRESS',
+        startedAt: minutesAgo(5),
+        createdAt: minutesAgo(10),
+        device: {
+            id: `device-${id}`,
+            organizationId: 'org-123',
+            branchId: 'branch-123',
+            isActive: true,
+            firmwareVersion: 'V3.1.0',
+        },
+        deviceCommand: { status: 'DELIVERED', error: null },
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        const mockCampaignRepository = {
+            findInProgress: jest.fn().mockResolvedValue([]),
+            findUpdates: jest.fn().mockResolvedValue([]),
+            updateDevice: jest.fn(),
+            countOpenInWave: jest.fn().mockResolvedValue(0),
+            countOutcomes: jest.fn().mockResolvedValue({ succeeded: 2, failed: 0 }),
+            startWave: jest.fn().mockResolvedValue(true),
+            transition: jest.fn().mockResolvedValue(mockCampaign()),
+        };
+
+        const mockDeviceCommandRepository = {
+            createMany: jest.fn().mockImplementation(async commands =>
+                commands.map(command => ({
+                    ...command,
+                    id: `command-${command.deviceId}`,
+                }))
+            ),
+            recordOutcome: jest.fn(),
+        };
+
+        const mockDeviceService = {
+            getDeviceHealth: jest.fn().mockResolvedValue({ status: 'healthy' }),
+        };
+
+        const mockQueueProducer = {
+            sendDeviceCommand: jest.fn(),
+        };
+
+        const mockStorageAdapter = {
+            generatePresignedDownloadUrl: jest
+                .fn()
+                .mockResolvedValue('https://storage.example.com/digicap.dav'),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            warn: jest.fn(),
+            error: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                FirmwareRolloutService,
+                {
+                    provide: FirmwareCampaignRepository,
+                    useValue: mockCampaignRepository,
+                },
+                {
+                    provide: DeviceCommandRepository,
+                    useValue: mockDeviceCommandRepository,
+                },
+                {
+                    provide: DeviceService,
+                    useValue: mockDeviceService,
+                },
+                {
+                    provide: QueueProducer,
+                    useValue: mockQueueProducer,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+                {
+                    provide: 'IStorageAdapter',
+                    useValue: mockStorageAdapter,
+                },
+            ],
+        }).compile();
+
+        service = module.get<FirmwareRolloutService>(FirmwareRolloutService);
+        campaignRepository = module.get(FirmwareCampaignRepository);
+        deviceCommandRepository = module.get(DeviceCommandRepository);
+        deviceService = module.get(DeviceService);
+        queueProducer = module.get(QueueProducer);
+    });
+
+    describe('settling updates', () => {
+        it('should succeed updates once the device reports the version', async () => {
+            campaignRepository.findUpdates.mockResolvedValueOnce([
+                mockUpdate('1', {
+                    device: { ...mockUpdate('1').device, firmwareVersion: 'V3.2.30' },
+                }),
+            ] as any);
+            campaignRepository.countOpenInWave.mockResolvedValue(1);
+
+            await service.advanceCampaign(mockCampaign());
+
+            expect(campaignRepository.updateDevice).toHaveBeenCalledWith('update-1', {
+                status: 'SUCCEEDED',
+                completedAt: expect.any(Date),
+            });
+        });
+
+        it('should ask polled devices for their version once the command succeeded', async () => {
+            campaignRepository.findUpdates.mockResolvedValueOnce([
+                mockUpdate('1', { deviceCommand: { status: 'SUCCEEDED', error: null } }),
+            ] as any);
+            deviceService.getDeviceHealth.mockResolvedValue({
+                firmwareVersion: 'V3.2.30',
+            } as any);
+            campaignRepository.countOpenInWave.mockResolvedValue(1);
+
+            await service.advanceCampaign(mockCampaign());
+
+            expect(deviceService.getDeviceHealth).toHaveBeenCalledWith('device-1', {
+                organizationId: 'org-123',
+                branchIds: ['branch-123'],
+            });
+            expect(campaignRepository.updateDevice).toHaveBeenCalledWith(
+                'update-1',
+                expect.objectContaining({ status: 'SUCCEEDED' })
+            );
+        });
+
+        it('should fail updates whose command failed or that were not verified in time', async () => {
+            campaignRepository.findUpdates.mockResolvedValueOnce([
+                mockUpdate('1', { deviceCommand: { status: 'FAILED', error: 'Device offline' } }),
+                mockUpdate('2', { startedAt: minutesAgo(61) }),
+                mockUpdate('3'),
+            ] as any);
+            campaignRepository.countOpenInWave.mockResolvedValue(1);
+
+            await service.advanceCampaign(mockCampaign());
+
+            expect(campaignRepository.updateDevice.mock.calls).toEqual([
+                [
+                    'update-1',
+                    { status: 'FAILED', error: 'Device offline', completedAt: expect.any(Date) },
+                ],
+                [
+                    'update-2',
+                    {
+                        status: 'FAILED',
+                        error: 'The device did not report version V3.2.30 within 60 minutes',
+                        completedAt: expect.any(Date),
+                    },
+                ],
+            ]);
+            expect(campaignRepository.startWave).not.toHaveBeenCalled();
+        });
+
+        it('should follow up updates of paused campaigns without sending waves', async () => {
+            campaignRepository.findUpdates.mockResolvedValueOnce([
+                mockUpdate('1', { deviceCommand: { status: 'EXPIRED', error: null } }),
+            ] as any);
+
+            await service.advanceCampaign(mockCampaign({ status: 'PAUSED' }));
+
+            expect(campaignRepository.updateDevice).toHaveBeenCalledWith('update-1', {
+                status: 'FAILED',
+                error: 'The update command expired',
+                completedAt: expect.any(Date),
+            });
+            expect(campaignRepository.countOpenInWave).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sending waves', () => {
+        it('should send the update to the devices of the next wave', async () => {
+            campaignRepository.findUpdates.mockResolvedValueOnce([]).mockResolvedValueOnce([
+                mockUpdate('3', { status: 'PENDING', wave: 2, deviceCommand: null }),
+                mockUpdate('4', {
+                    status: 'PENDING',
+                    wave: 2,
+                    deviceCommand: null,
+                    device: { ...mockUpdate('4').device, isActive: false },
+                }),
+            ] as any);
+            campaignRepository.countOpenInWave.mockResolvedValueOnce(0).mockResolvedValue(1);
+
+            await service.advanceCampaign(mockCampaign());
+
+            expect(campaignRepository.countOutcomes).toHaveBeenCalledWith('campaign-123', null);
+            expect(campaignRepository.startWave).toHaveBeenCalledWith('campaign-123', 2);
+            expect(campaignRepository.findUpdates).toHaveBeenLastCalledWith(
+                'campaign-123',
+                ['PENDING'],
+                2
+            );
+            expect(deviceCommandRepository.createMany).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    deviceId: 'device-3',
+                    command: 'update_firmware',
+                    parameters: {
+                        firmwareUrl: 'https://storage.example.com/digicap.dav',
+                        version: 'V3.2.30',
+                        checksum: undefined,
+                        campaignId: 'campaign-123',
+                    },
+                    timeoutSeconds: 3600,
+                }),
+            ]);
+            expect(queueProducer.sendDeviceCommand).toHaveBeenCalledWith(
+                { commandId: 'command-device-3', organizationId: 'org-123' },
+                3
+            );
+            expect(campaignRepository.updateDevice.mock.calls).toEqual([
+                [
+                    'update-3',
+                    {
+                        status: 'IN_PROGRESS',
+                        previousVersion: 'V3.1.0',
+                        deviceCommandId: 'command-device-3',
+                        startedAt: expect.any(Date),
+                    },
+                ],
+                [
+                    'update-4',
+                    {
+                        status: 'SKIPPED',
+                        error: 'The device is no longer active',
+                        completedAt: expect.any(Date),
+                    },
+                ],
+            ]);
+        });
+
+        it('should pause the campaign when the failure rate passes the threshold', async () => {
+            const resumedAt = minutesAgo(30);
+            campaignRepository.countOutcomes.mockResolvedValue({ succeeded: 1, failed: 1 });
+
+            await service.advanceCampaign(mockCampaign({ resumedAt }));
+
+            expect(campaignRepository.countOutcomes).toHaveBeenCalledWith(
+                'campaign-123',
+                resumedAt
+            );
+            expect(campaignRepository.transition).toHaveBeenCalledWith(
+                'campaign-123',
+                ['RUNNING'],
+                {
+                    status: 'PAUSED',
+                    pausedReason: '1 of 2 updates failed, more than the threshold of 10%',
+                }
+            );
+            expect(campaignRepository.startWave).not.toHaveBeenCalled();
+        });
+
+        it('should complete the campaign once its last wave settled', async () => {
+            await service.advanceCampaign(mockCampaign({ currentWave: 2 }));
+
+            expect(campaignRepository.transition).toHaveBeenCalledWith(
+                'campaign-123',
+                ['RUNNING'],
+                { status: 'COMPLETED', completedAt: expect.any(Date) }
+            );
+            expect(campaignRepository.startWave).not.toHaveBeenCalled();
+        });
+
+        it('should fail updates that could not be queued', async () => {
+            campaignRepository.findUpdates
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([
+                    mockUpdate('3', { status: 'PENDING', wave: 2, deviceCommand: null }),
+                ] as any);
+            campaignRepository.countOpenInWave.mockResolvedValueOnce(0).mockResolvedValue(1);
+            queueProducer.sendDeviceCommand.mockRejectedValue(new Error('Redis unavailable'));
+
+            await service.advanceCampaign(mockCampaign());
+
+            expect(deviceCommandRepository.recordOutcome).toHaveBeenCalledWith(
+                'command-device-3',
+                expect.objectContaining({ status: 'FAILED' })
+            );
+            expect(campaignRepository.updateDevice).toHaveBeenCalledWith(
+                'update-3',
+                expect.objectContaining({
+                    status: 'FAILED',
+                    error: 'Failed to queue the update: Redis unavailable',
+                })
+            );
+        });
+    });
+});
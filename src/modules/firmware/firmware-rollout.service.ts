@@ -0,0 +1,299 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+    DeviceCommandStatus,
+    FirmwareCampaignDeviceStatus,
+    FirmwareCampaignStatus,
+} from '@prisma/client';
+import {
+    FirmwareCampaignDeviceChanges,
+    FirmwareCampaignRepository,
+    FirmwareCampaignWithImage,
+    FirmwareUpdate,
+} from './firmware-campaign.repository';
+import { DeviceService } from '../device/device.service';
+import { DeviceCommandRepository } from '../device-command/device-command.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { QueueProducer } from '@/core/queue/queue.producer';
+import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
+
+/** Attempts at sending the update command to a device that can't be reached */
+const UPDATE_COMMAND_ATTEMPTS = 3;
+
+/**
+ * Moves firmware campaigns along: settles the updates sent, pauses campaigns whose failure rate
+ * passed the threshold and sends the next wave once the current one has settled. Runs as a
+ * scheduled job on the system-health queue, and right after a campaign is started or resumed.
+ */
+@Injectable()
+export class FirmwareRolloutService {
+    constructor(
+        private readonly campaignRepository: FirmwareCampaignRepository,
+        private readonly deviceCommandRepository: DeviceCommandRepository,
+        private readonly deviceService: DeviceService,
+        private readonly queueProducer: QueueProducer,
+        private readonly logger: LoggerService,
+        @Inject('IStorageAdapter') private readonly storageAdapter: IStorageAdapter
+    ) {}
+
+    async advanceCampaigns(): Promise<{ campaigns: number }> {
+        const campaigns = await this.campaignRepository.findInProgress();
+
+        for (const campaign of campaigns) {
+            try {
+                await this.advanceCampaign(campaign);
+            } catch (error) {
+                this.logger.error('Failed to advance a firmware campaign', error, {
+                    campaignId: campaign.id,
+                    module: 'firmware',
+                });
+            }
+        }
+
+        return { campaigns: campaigns.length };
+    }
+
+    async advanceCampaign(campaign: FirmwareCampaignWithImage): Promise<void> {
+        await this.settleUpdates(campaign);
+
+        if (campaign.status !== FirmwareCampaignStatus.RUNNING) {
+            return;
+        }
+
+        let wave = campaign.currentWave;
+        while (!(await this.campaignRepository.countOpenInWave(campaign.id, wave))) {
+            if (wave >= campaign.totalWaves) {
+                await this.complete(campaign);
+                return;
+            }
+
+            if (wave > 0 && (await this.pauseOnFailures(campaign))) {
+                return;
+            }
+
+            // Another run started it already
+            if (!(await this.campaignRepository.startWave(campaign.id, wave + 1))) {
+                return;
+            }
+            wave++;
+
+            await this.sendWave(campaign, wave);
+        }
+    }
+
+    /**
+     * Settle the updates sent: succeeded once the device reports the version, failed when the
+     * command failed or the device did not report the version in time
+     */
+    private async settleUpdates(campaign: FirmwareCampaignWithImage): Promise<void> {
+        const updates = await this.campaignRepository.findUpdates(campaign.id, [
+            FirmwareCampaignDeviceStatus.IN_PROGRESS,
+        ]);
+        const version = campaign.firmwareImage.version;
+
+        for (const update of updates) {
+            const outcome = await this.checkUpdate(campaign, update);
+            if (!outcome) {
+                continue;
+            }
+
+            await this.campaignRepository.updateDevice(update.id, {
+                ...outcome,
+                completedAt: new Date(),
+            });
+
+            this.logger.log('Firmware update settled', {
+                campaignId: campaign.id,
+                deviceId: update.deviceId,
+                version,
+                status: outcome.status,
+                error: outcome.error,
+                module: 'firmware',
+            });
+        }
+    }
+
+    private async checkUpdate(
+        campaign: FirmwareCampaignWithImage,
+        update: FirmwareUpdate
+    ): Promise<FirmwareCampaignDeviceChanges | null> {
+        const version = campaign.firmwareImage.version;
+        if (update.device.firmwareVersion === version) {
+            return { status: FirmwareCampaignDeviceStatus.SUCCEEDED };
+        }
+
+        const commandStatus = update.deviceCommand?.status;
+        if (
+            commandStatus === DeviceCommandStatus.FAILED ||
+            commandStatus === DeviceCommandStatus.EXPIRED
+        ) {
+            return {
+                status: FirmwareCampaignDeviceStatus.FAILED,
+                error: update.deviceCommand!.error || 'The update command expired',
+            };
+        }
+
+        // Devices that are polled report their version through their health
+        if (commandStatus === DeviceCommandStatus.SUCCEEDED) {
+            const health = await this.deviceService.getDeviceHealth(update.deviceId, {
+                organizationId: update.device.organizationId,
+                branchIds: [update.device.branchId],
+            });
+            if (health.firmwareVersion === version) {
+                return { status: FirmwareCampaignDeviceStatus.SUCCEEDED };
+            }
+        }
+
+        const deadline =
+            (update.startedAt || update.createdAt).getTime() +
+            campaign.verifyTimeoutMinutes * 60 * 1000;
+        if (Date.now() >= deadline) {
+            return {
+                status: FirmwareCampaignDeviceStatus.FAILED,
+                error:
+                    `The device did not report version ${version} within ` +
+                    `${campaign.verifyTimeoutMinutes} minutes`,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Pause the campaign when more of the updates counted since it was (re)started failed than
+     * the threshold allows
+     */
+    private async pauseOnFailures(campaign: FirmwareCampaignWithImage): Promise<boolean> {
+        const { succeeded, failed } = await this.campaignRepository.countOutcomes(
+            campaign.id,
+            campaign.resumedAt
+        );
+        const settled = succeeded + failed;
+        if (!failed || failed * 100 <= campaign.failureThresholdPercent * settled) {
+            return false;
+        }
+
+        const pausedReason =
+            `${failed} of ${settled} updates failed, more than the threshold of ` +
+            `${campaign.failureThresholdPercent}%`;
+        const paused = await this.campaignRepository.transition(
+            campaign.id,
+            [FirmwareCampaignStatus.RUNNING],
+            { status: FirmwareCampaignStatus.PAUSED, pausedReason }
+        );
+        if (paused) {
+            this.logger.warn('Firmware campaign paused on failures', {
+                campaignId: campaign.id,
+                organizationId: campaign.organizationId,
+                wave: campaign.currentWave,
+                failed,
+                settled,
+                module: 'firmware',
+            });
+        }
+
+        return true;
+    }
+
+    private async complete(campaign: FirmwareCampaignWithImage): Promise<void> {
+        const completed = await this.campaignRepository.transition(
+            campaign.id,
+            [FirmwareCampaignStatus.RUNNING],
+            { status: FirmwareCampaignStatus.COMPLETED, completedAt: new Date() }
+        );
+        if (completed) {
+            this.logger.log('Firmware campaign completed', {
+                campaignId: campaign.id,
+                organizationId: campaign.organizationId,
+                module: 'firmware',
+            });
+        }
+    }
+
+    /**
+     * Send the update to the devices of the wave through the device command queue
+     */
+    private async sendWave(campaign: FirmwareCampaignWithImage, wave: number): Promise<void> {
+        const image = campaign.firmwareImage;
+        const timeoutSeconds = campaign.verifyTimeoutMinutes * 60;
+        const firmwareUrl = await this.storageAdapter.generatePresignedDownloadUrl(
+            image.storageKey,
+            { expiresIn: timeoutSeconds }
+        );
+
+        const updates = await this.campaignRepository.findUpdates(
+            campaign.id,
+            [FirmwareCampaignDeviceStatus.PENDING],
+            wave
+        );
+
+        for (const update of updates) {
+            const { device } = update;
+            if (!device.isActive || device.firmwareVersion === image.version) {
+                await this.campaignRepository.updateDevice(update.id, {
+                    status: FirmwareCampaignDeviceStatus.SKIPPED,
+                    error: device.isActive
+                        ? 'The device is on the version already'
+                        : 'The device is no longer active',
+                    completedAt: new Date(),
+                });
+                continue;
+            }
+
+            const [command] = await this.deviceCommandRepository.createMany([
+                {
+                    organizationId: device.organizationId,
+                    branchId: device.branchId,
+                    deviceId: device.id,
+                    command: 'update_firmware',
+                    parameters: {
+                        firmwareUrl,
+                        version: image.version,
+                        checksum: image.checksum || undefined,
+                        campaignId: campaign.id,
+                    },
+                    timeoutSeconds,
+                    maxAttempts: UPDATE_COMMAND_ATTEMPTS,
+                    requestedByUserId: campaign.createdByUserId || undefined,
+                },
+            ]);
+
+            const startedAt = new Date();
+            try {
+                await this.queueProducer.sendDeviceCommand(
+                    { commandId: command.id, organizationId: command.organizationId },
+                    command.maxAttempts
+                );
+
+                await this.campaignRepository.updateDevice(update.id, {
+                    status: FirmwareCampaignDeviceStatus.IN_PROGRESS,
+                    previousVersion: device.firmwareVersion,
+                    deviceCommandId: command.id,
+                    startedAt,
+                });
+            } catch (error) {
+                await this.deviceCommandRepository.recordOutcome(command.id, {
+                    status: DeviceCommandStatus.FAILED,
+                    error: `Failed to queue the command: ${error.message}`,
+                    completedAt: startedAt,
+                });
+                await this.campaignRepository.updateDevice(update.id, {
+                    status: FirmwareCampaignDeviceStatus.FAILED,
+                    previousVersion: device.firmwareVersion,
+                    deviceCommandId: command.id,
+                    error: `Failed to queue the update: ${error.message}`,
+                    startedAt,
+                    completedAt: startedAt,
+                });
+            }
+        }
+
+        this.logger.log('Firmware campaign wave sent', {
+            campaignId: campaign.id,
+            organizationId: campaign.organizationId,
+            wave,
+            totalWaves: campaign.totalWaves,
+            devices: updates.length,
+            module: 'firmware',
+        });
+    }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { FirmwareImageController } from './firmware-image.controller';
+import { FirmwareImageService } from './firmware-image.service';
+import { FirmwareImageRepository } from './firmware-image.repository';
+import { FirmwareCampaignController } from './firmware-campaign.controller';
+import { FirmwareCampaignService } from './firmware-campaign.service';
+import { FirmwareCampaignRepository } from './firmware-campaign.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { QueueModule } from '@/core/queue/queue.module';
+import { DeviceModule } from '../device/device.module';
+import { AdapterModule } from '@/shared/adapters/adapter.module';
+
+/** The rollout of campaigns runs on the system-health queue, see FirmwareRolloutService */
+@Module({
+    imports: [DatabaseModule, LoggerModule, QueueModule, DeviceModule, AdapterModule],
+    controllers: [FirmwareImageController, FirmwareCampaignController],
+    providers: [
+        FirmwareImageService,
+        FirmwareImageRepository,
+        FirmwareCampaignService,
+        FirmwareCampaignRepository,
+    ],
+})
+export class FirmwareModule {}
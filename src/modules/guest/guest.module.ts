@@ -5,9 +5,10 @@ import { GuestRepository } from './guest.repository';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
 import { QueueModule } from '@/core/queue/queue.module';
+import { OrganizationModule } from '@/modules/organization/organization.module';
 
 @Module({
-    imports: [DatabaseModule, LoggerModule, QueueModule],
+    imports: [DatabaseModule, LoggerModule, QueueModule, OrganizationModule],
     controllers: [GuestController],
     providers: [GuestService, GuestRepository],
     exports: [GuestService, GuestRepository],
@@ -10,13 +10,16 @@ import { LoggerService } from '@/core/logger/logger.service';
 import { QueueProducer } from '@/core/queue/queue.producer';
 import { ApproveGuestVisitDto, CreateGuestVisitDto, UpdateGuestVisitDto } from '@/shared/dto';
 import { DataScope } from '@/shared/interfaces';
+import { TimezoneUtil } from '@/shared/utils';
+import { OrganizationService } from '@/modules/organization/organization.service';
 
 @Injectable()
 export class GuestService {
     constructor(
         private readonly guestRepository: GuestRepository,
         private readonly logger: LoggerService,
-        private readonly queueProducer: QueueProducer
+        private readonly queueProducer: QueueProducer,
+        private readonly organizationService: OrganizationService
     ) {}
 
     /**
@@ -34,9 +37,19 @@ export class GuestService {
                 throw new BadRequestException('Branch not accessible within your scope');
             }
 
-            // Validate visit times
-            const scheduledEntry = new Date(createGuestVisitDto.scheduledEntryTime);
-            const scheduledExit = new Date(createGuestVisitDto.scheduledExitTime);
+            // Validate visit times, reading times without an offset in the branch's zone
+            const timeZone = await this.organizationService.getTimeZone(
+                scope.organizationId,
+                createGuestVisitDto.branchId
+            );
+            const scheduledEntry = TimezoneUtil.parseDateTime(
+                createGuestVisitDto.scheduledEntryTime,
+                timeZone
+            );
+            const scheduledExit = TimezoneUtil.parseDateTime(
+                createGuestVisitDto.scheduledExitTime,
+                timeZone
+            );
 
             if (scheduledEntry >= scheduledExit) {
                 throw new BadRequestException('Scheduled entry time must be before exit time');
@@ -47,7 +60,11 @@ export class GuestService {
             }
 
             const guestVisit = await this.guestRepository.create(
-                createGuestVisitDto,
+                {
+                    ...createGuestVisitDto,
+                    scheduledEntryTime: scheduledEntry.toISOString(),
+                    scheduledExitTime: scheduledExit.toISOString(),
+                },
                 scope,
                 createdByUserId
             );
@@ -120,20 +137,32 @@ export class GuestService {
         }
 
         // Validate visit times if being updated
+        const updateData = { ...updateGuestVisitDto };
         if (updateGuestVisitDto.scheduledEntryTime || updateGuestVisitDto.scheduledExitTime) {
+            const timeZone = await this.organizationService.getTimeZone(
+                scope.organizationId,
+                existingVisit.branchId
+            );
             const entryTime = updateGuestVisitDto.scheduledEntryTime
-                ? new Date(updateGuestVisitDto.scheduledEntryTime)
+                ? TimezoneUtil.parseDateTime(updateGuestVisitDto.scheduledEntryTime, timeZone)
                 : existingVisit.scheduledEntryTime;
             const exitTime = updateGuestVisitDto.scheduledExitTime
-                ? new Date(updateGuestVisitDto.scheduledExitTime)
+                ? TimezoneUtil.parseDateTime(updateGuestVisitDto.scheduledExitTime, timeZone)
                 : existingVisit.scheduledExitTime;
 
             if (entryTime >= exitTime) {
                 throw new BadRequestException('Scheduled entry time must be before exit time');
             }
+
+            if (updateGuestVisitDto.scheduledEntryTime) {
+                updateData.scheduledEntryTime = entryTime.toISOString();
+            }
+            if (updateGuestVisitDto.scheduledExitTime) {
+                updateData.scheduledExitTime = exitTime.toISOString();
+            }
         }
 
-        const updatedVisit = await this.guestRepository.update(id, updateGuestVisitDto, scope);
+        const updatedVisit = await this.guestRepository.update(id, updateData, scope);
 
         this.logger.logUserAction(
             updatedByUserId,
@@ -0,0 +1,194 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { Holiday } from '@prisma/client';
+import { HolidayService } from './holiday.service';
+import {
+    CreateHolidayDto,
+    HolidayCalendarQueryDto,
+    HolidayCalendarResponseDto,
+    HolidayFiltersDto,
+    HolidayResponseDto,
+    ImportHolidaysDto,
+    ImportHolidaysResponseDto,
+    UpdateHolidayDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Holidays')
+@ApiBearerAuth()
+@Controller('holidays')
+export class HolidayController {
+    constructor(private readonly holidayService: HolidayService) {}
+
+    @Post()
+    @Permissions('holiday:manage')
+    @ApiOperation({ summary: "Add a holiday to the organization's or a branch's calendar" })
+    @ApiBody({ type: CreateHolidayDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The holiday has been successfully created.',
+        type: HolidayResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    @ApiResponse({ status: 409, description: 'The calendar already has an entry on this date.' })
+    async createHoliday(
+        @Body() createHolidayDto: CreateHolidayDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<HolidayResponseDto> {
+        const holiday = await this.holidayService.createHoliday(createHolidayDto, scope, user.sub);
+
+        return this.toResponse(holiday);
+    }
+
+    @Post('import')
+    @Permissions('holiday:manage')
+    @ApiOperation({ summary: "Import a list of holidays, e.g. a year's public holidays" })
+    @ApiBody({ type: ImportHolidaysDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The holidays have been imported.',
+        type: ImportHolidaysResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    async importHolidays(
+        @Body() importHolidaysDto: ImportHolidaysDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<ImportHolidaysResponseDto> {
+        return this.holidayService.importHolidays(importHolidaysDto, scope, user.sub);
+    }
+
+    @Get()
+    @Permissions('holiday:read')
+    @ApiOperation({ summary: "Get the entries of the organization's or a branch's calendar" })
+    @ApiQuery({ name: 'filtersDto', type: HolidayFiltersDto })
+    @ApiResponse({ status: 200, description: 'A list of holidays.', type: [HolidayResponseDto] })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    async getHolidays(
+        @Query() filtersDto: HolidayFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<HolidayResponseDto[]> {
+        const holidays = await this.holidayService.getHolidays(filtersDto, scope);
+
+        return holidays.map(holiday => this.toResponse(holiday));
+    }
+
+    @Get('calendar')
+    @Permissions('holiday:read')
+    @ApiOperation({ summary: 'Get the days off of a year with branch overrides resolved' })
+    @ApiQuery({ name: 'queryDto', type: HolidayCalendarQueryDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The holiday calendar.',
+        type: HolidayCalendarResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Branch not found.' })
+    async getCalendar(
+        @Query() queryDto: HolidayCalendarQueryDto,
+        @Scope() scope: DataScope
+    ): Promise<HolidayCalendarResponseDto> {
+        return this.holidayService.getCalendar(queryDto.year, queryDto.branchId, scope);
+    }
+
+    @Get(':id')
+    @Permissions('holiday:read')
+    @ApiOperation({ summary: 'Get a specific holiday by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the holiday' })
+    @ApiResponse({ status: 200, description: 'The holiday details.', type: HolidayResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Holiday not found.' })
+    async getHolidayById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<HolidayResponseDto> {
+        const holiday = await this.holidayService.getHolidayById(id, scope);
+
+        return this.toResponse(holiday);
+    }
+
+    @Patch(':id')
+    @Permissions('holiday:manage')
+    @ApiOperation({ summary: 'Update a holiday' })
+    @ApiParam({ name: 'id', description: 'ID of the holiday' })
+    @ApiBody({ type: UpdateHolidayDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The holiday has been successfully updated.',
+        type: HolidayResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Holiday not found.' })
+    @ApiResponse({ status: 409, description: 'The calendar already has an entry on this date.' })
+    async updateHoliday(
+        @Param('id') id: string,
+        @Body() updateHolidayDto: UpdateHolidayDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<HolidayResponseDto> {
+        const holiday = await this.holidayService.updateHoliday(
+            id,
+            updateHolidayDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(holiday);
+    }
+
+    @Delete(':id')
+    @Permissions('holiday:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a holiday' })
+    @ApiParam({ name: 'id', description: 'ID of the holiday' })
+    @ApiResponse({ status: 204, description: 'The holiday has been successfully deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Holiday not found.' })
+    async deleteHoliday(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.holidayService.deleteHoliday(id, scope, user.sub);
+    }
+
+    private toResponse(holiday: Holiday): HolidayResponseDto {
+        return {
+            id: holiday.id,
+            organizationId: holiday.organizationId,
+            branchId: holiday.branchId,
+            name: holiday.name,
+            date: holiday.date.toISOString().slice(0, 10),
+            isRecurring: holiday.isRecurring,
+            isDayOff: holiday.isDayOff,
+            createdAt: holiday.createdAt,
+            updatedAt: holiday.updatedAt,
+        };
+    }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { HolidayController } from './holiday.controller';
+import { HolidayService } from './holiday.service';
+import { HolidayRepository } from './holiday.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule],
+    controllers: [HolidayController],
+    providers: [HolidayService, HolidayRepository],
+    exports: [HolidayService],
+})
+export class HolidayModule {}
@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { Holiday, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { HolidayEntry, QueryBuilder } from '@/shared/utils';
+
+export interface CreateHolidayData {
+    name: string;
+    date: string;
+    isRecurring?: boolean;
+    isDayOff?: boolean;
+    branchId?: string;
+}
+
+@Injectable()
+export class HolidayRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(data: CreateHolidayData, scope: DataScope): Promise<Holiday> {
+        return this.prisma.holiday.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+                date: this.toDate(data.date),
+            },
+        });
+    }
+
+    async createMany(data: CreateHolidayData[], scope: DataScope): Promise<number> {
+        const result = await this.prisma.holiday.createMany({
+            data: data.map(holiday => ({
+                ...holiday,
+                organizationId: scope.organizationId,
+                date: this.toDate(holiday.date),
+            })),
+        });
+
+        return result.count;
+    }
+
+    async findById(id: string, scope: DataScope): Promise<Holiday | null> {
+        return this.prisma.holiday.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+        });
+    }
+
+    /**
+     * Find the entries of one calendar: the branch's, or the organization's when no branch is
+     * given. A year limits one-off entries; recurring entries apply to every year.
+     */
+    async findMany(
+        filters: { branchId?: string; year?: number },
+        scope: DataScope
+    ): Promise<Holiday[]> {
+        const where: Prisma.HolidayWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+            branchId: filters.branchId || null,
+        };
+
+        if (filters.year) {
+            where.OR = [
+                { isRecurring: true },
+                {
+                    date: {
+                        gte: this.toDate(`${filters.year}-01-01`),
+                        lte: this.toDate(`${filters.year}-12-31`),
+                    },
+                },
+            ];
+        }
+
+        return this.prisma.holiday.findMany({
+            where,
+            orderBy: [{ date: 'asc' }, { name: 'asc' }],
+        });
+    }
+
+    /**
+     * Find the organization's and branches' entries that may fall into the period
+     */
+    async findEntries(
+        startDate: string,
+        endDate: string,
+        scope: DataScope
+    ): Promise<HolidayEntry[]> {
+        const holidays = await this.prisma.holiday.findMany({
+            where: {
+                ...QueryBuilder.buildOrganizationScope(scope),
+                OR: [
+                    { isRecurring: true },
+                    { date: { gte: this.toDate(startDate), lte: this.toDate(endDate) } },
+                ],
+            },
+            select: {
+                name: true,
+                date: true,
+                isRecurring: true,
+                isDayOff: true,
+                branchId: true,
+            },
+        });
+
+        return holidays.map(holiday => ({ ...holiday, date: this.toDateKey(holiday.date) }));
+    }
+
+    async update(
+        id: string,
+        data: { name?: string; date?: string; isRecurring?: boolean; isDayOff?: boolean }
+    ): Promise<Holiday> {
+        return this.prisma.holiday.update({
+            where: { id },
+            data: {
+                ...data,
+                ...(data.date && { date: this.toDate(data.date) }),
+            },
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.holiday.delete({
+            where: { id },
+        });
+    }
+
+    async branchExists(branchId: string, scope: DataScope): Promise<boolean> {
+        if (scope.branchIds?.length && !scope.branchIds.includes(branchId)) {
+            return false;
+        }
+
+        const branch = await this.prisma.branch.findFirst({
+            where: { id: branchId, ...QueryBuilder.buildOrganizationScope(scope) },
+            select: { id: true },
+        });
+
+        return !!branch;
+    }
+
+    /**
+     * Get the YYYY-MM-DD key a stored holiday date stands for
+     */
+    toDateKey(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    private toDate(dateKey: string): Date {
+        return new Date(`${dateKey}T00:00:00.000Z`);
+    }
+}
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { HolidayService } from './holiday.service';
+import { HolidayRepository } from './holiday.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('HolidayService', () => {
+    let service: HolidayService;
+    let holidayRepository: jest.Mocked<HolidayRepository>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockHoliday = {
+        id: 'holiday-123',
+        organizationId: 'org-123',
+        branchId: null,
+        name: 'New Year',
+        date: new Date('2026-01-01T00:00:00.000Z'),
+        isRecurring: true,
+        isDayOff: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(async () => {
+        const mockHolidayRepository = {
+            create: jest.fn().mockResolvedValue(mockHoliday),
+            createMany: jest.fn(),
+            findById: jest.fn().mockResolvedValue(mockHoliday),
+            findMany: jest.fn().mockResolvedValue([]),
+            findEntries: jest.fn().mockResolvedValue([]),
+            update: jest.fn(),
+            delete: jest.fn(),
+            branchExists: jest.fn().mockResolvedValue(true),
+            toDateKey: jest.fn((date: Date) => date.toISOString().slice(0, 10)),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                HolidayService,
+                {
+                    provide: HolidayRepository,
+                    useValue: mockHolidayRepository,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<HolidayService>(HolidayService);
+        holidayRepository = module.get(HolidayRepository);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createHoliday', () => {
+        it('should add the holiday to the calendar', async () => {
+            const createDto = { name: 'New Year', date: '2026-01-01', isRecurring: true };
+
+            const result = await service.createHoliday(
+                createDto,
+                mockDataScope,
+                'user-123',
+                'corr-123'
+            );
+
+            expect(result).toEqual(mockHoliday);
+            expect(holidayRepository.findMany).toHaveBeenCalledWith(
+                { branchId: undefined },
+                mockDataScope
+            );
+            expect(holidayRepository.create).toHaveBeenCalledWith(createDto, mockDataScope);
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'HOLIDAY_CREATED',
+                expect.objectContaining({ holidayId: 'holiday-123', date: '2026-01-01' }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should reject a second entry on a recurring date', async () => {
+            holidayRepository.findMany.mockResolvedValue([mockHoliday]);
+
+            await expect(
+                service.createHoliday(
+                    { name: 'Celebration', date: '2027-01-01' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(ConflictException);
+            expect(holidayRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for a branch outside the scope', async () => {
+            holidayRepository.branchExists.mockResolvedValue(false);
+
+            await expect(
+                service.createHoliday(
+                    { name: 'City day', date: '2026-05-20', branchId: 'branch-999' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('importHolidays', () => {
+        it('should skip entries already in the calendar or repeated in the list', async () => {
+            holidayRepository.findMany.mockResolvedValue([mockHoliday]);
+            holidayRepository.createMany.mockResolvedValue(2);
+
+            const result = await service.importHolidays(
+                {
+                    holidays: [
+                        { name: 'New Year', date: '2026-01-01' },
+                        { name: "Women's Day", date: '2026-03-08' },
+                        { name: 'Navruz', date: '2026-03-21' },
+                        { name: 'Navruz', date: '2026-03-21' },
+                    ],
+                },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(result).toEqual({ created: 2, skipped: 2 });
+            expect(holidayRepository.createMany).toHaveBeenCalledWith(
+                [
+                    { name: "Women's Day", date: '2026-03-08', branchId: undefined },
+                    { name: 'Navruz', date: '2026-03-21', branchId: undefined },
+                ],
+                mockDataScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'HOLIDAYS_IMPORTED',
+                { branchId: undefined, created: 2, skipped: 2 },
+                'org-123',
+                undefined
+            );
+        });
+    });
+
+    describe('getCalendar', () => {
+        it('should resolve the days off of a branch', async () => {
+            holidayRepository.findEntries.mockResolvedValue([
+                { name: 'New Year', date: '2026-01-01', isRecurring: true, isDayOff: true },
+                { name: 'Bridge day', date: '2026-01-02', isRecurring: false, isDayOff: true },
+                {
+                    name: 'Stock taking',
+                    date: '2026-01-02',
+                    isRecurring: false,
+                    isDayOff: false,
+                    branchId: 'branch-123',
+                },
+            ]);
+
+            const result = await service.getCalendar(2026, 'branch-123', mockDataScope);
+
+            expect(holidayRepository.findEntries).toHaveBeenCalledWith(
+                '2026-01-01',
+                '2026-12-31',
+                mockDataScope
+            );
+            expect(result.holidays).toEqual([
+                { date: '2026-01-01', name: 'New Year', branchId: undefined },
+            ]);
+            // 261 weekdays in 2026, less New Year on a Thursday
+            expect(result.workingDays).toBe(260);
+        });
+    });
+
+    describe('deleteHoliday', () => {
+        it('should throw NotFoundException when the holiday is not found', async () => {
+            holidayRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.deleteHoliday('holiday-999', mockDataScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+            expect(holidayRepository.delete).not.toHaveBeenCalled();
+        });
+    });
+});
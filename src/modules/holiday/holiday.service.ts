@@ -0,0 +1,266 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Holiday } from '@prisma/client';
+import { CreateHolidayData, HolidayRepository } from './holiday.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    CreateHolidayDto,
+    HolidayCalendarResponseDto,
+    ImportHolidaysDto,
+    ImportHolidaysResponseDto,
+    UpdateHolidayDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { HolidayEntry, HolidayUtil } from '@/shared/utils';
+
+@Injectable()
+export class HolidayService {
+    constructor(
+        private readonly holidayRepository: HolidayRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Add a holiday or working day to the organization's or a branch's calendar
+     */
+    async createHoliday(
+        createHolidayDto: CreateHolidayDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<Holiday> {
+        const data = { ...createHolidayDto, date: this.toDateKey(createHolidayDto.date) };
+        await this.validateBranch(data.branchId, scope);
+
+        const existing = await this.holidayRepository.findMany({ branchId: data.branchId }, scope);
+        if (existing.some(holiday => this.isSameEntry(holiday, data))) {
+            throw new ConflictException('The calendar already has an entry on this date');
+        }
+
+        const holiday = await this.holidayRepository.create(data, scope);
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'HOLIDAY_CREATED',
+            {
+                holidayId: holiday.id,
+                branchId: holiday.branchId,
+                name: holiday.name,
+                date: data.date,
+                isRecurring: holiday.isRecurring,
+                isDayOff: holiday.isDayOff,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return holiday;
+    }
+
+    /**
+     * Add a batch of entries, e.g. a year's public holidays, to one calendar. Entries already
+     * in the calendar are skipped so that the same list can be imported again.
+     */
+    async importHolidays(
+        importHolidaysDto: ImportHolidaysDto,
+        scope: DataScope,
+        importedByUserId: string,
+        correlationId?: string
+    ): Promise<ImportHolidaysResponseDto> {
+        const { branchId } = importHolidaysDto;
+        await this.validateBranch(branchId, scope);
+
+        const existing = await this.holidayRepository.findMany({ branchId }, scope);
+        const entries: CreateHolidayData[] = [];
+
+        importHolidaysDto.holidays.forEach(holiday => {
+            const data = { ...holiday, date: this.toDateKey(holiday.date), branchId };
+            if (
+                !existing.some(entry => this.isSameEntry(entry, data)) &&
+                !entries.some(entry => this.isSameEntry(entry, data))
+            ) {
+                entries.push(data);
+            }
+        });
+
+        const created =
+            entries.length > 0 ? await this.holidayRepository.createMany(entries, scope) : 0;
+        const skipped = importHolidaysDto.holidays.length - created;
+
+        this.logger.logUserAction(
+            importedByUserId,
+            'HOLIDAYS_IMPORTED',
+            { branchId, created, skipped },
+            scope.organizationId,
+            correlationId
+        );
+
+        return { created, skipped };
+    }
+
+    /**
+     * Get the entries of the organization's calendar, or of a branch's overrides
+     */
+    async getHolidays(
+        filters: { branchId?: string; year?: number },
+        scope: DataScope
+    ): Promise<Holiday[]> {
+        await this.validateBranch(filters.branchId, scope);
+
+        return this.holidayRepository.findMany(filters, scope);
+    }
+
+    /**
+     * Get holiday by ID
+     */
+    async getHolidayById(id: string, scope: DataScope): Promise<Holiday> {
+        const holiday = await this.holidayRepository.findById(id, scope);
+        if (!holiday) {
+            throw new NotFoundException('Holiday not found');
+        }
+
+        return holiday;
+    }
+
+    /**
+     * Update holiday
+     */
+    async updateHoliday(
+        id: string,
+        updateHolidayDto: UpdateHolidayDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<Holiday> {
+        const existingHoliday = await this.getHolidayById(id, scope);
+        const data = {
+            ...updateHolidayDto,
+            ...(updateHolidayDto.date && { date: this.toDateKey(updateHolidayDto.date) }),
+        };
+
+        const calendar = await this.holidayRepository.findMany(
+            { branchId: existingHoliday.branchId },
+            scope
+        );
+        const updated = {
+            date: data.date || this.holidayRepository.toDateKey(existingHoliday.date),
+            isRecurring: data.isRecurring ?? existingHoliday.isRecurring,
+        };
+        if (calendar.some(holiday => holiday.id !== id && this.isSameEntry(holiday, updated))) {
+            throw new ConflictException('The calendar already has an entry on this date');
+        }
+
+        const updatedHoliday = await this.holidayRepository.update(id, data);
+
+        this.logger.logUserAction(
+            updatedByUserId,
+            'HOLIDAY_UPDATED',
+            {
+                holidayId: id,
+                changes: data,
+                oldName: existingHoliday.name,
+                newName: updatedHoliday.name,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return updatedHoliday;
+    }
+
+    /**
+     * Delete holiday
+     */
+    async deleteHoliday(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const existingHoliday = await this.getHolidayById(id, scope);
+
+        await this.holidayRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'HOLIDAY_DELETED',
+            {
+                holidayId: id,
+                branchId: existingHoliday.branchId,
+                name: existingHoliday.name,
+                date: this.holidayRepository.toDateKey(existingHoliday.date),
+            },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Get the days off of a year as they apply to the organization or a branch, with the
+     * branch's overrides resolved
+     */
+    async getCalendar(
+        year: number,
+        branchId: string | undefined,
+        scope: DataScope
+    ): Promise<HolidayCalendarResponseDto> {
+        await this.validateBranch(branchId, scope);
+
+        const startKey = `${year}-01-01`;
+        const endKey = `${year}-12-31`;
+        const entries = await this.holidayRepository.findEntries(startKey, endKey, scope);
+        const holidays = HolidayUtil.getHolidays(entries, startKey, endKey, branchId);
+
+        return {
+            year,
+            branchId,
+            workingDays: HolidayUtil.countWorkingDays(entries, startKey, endKey, branchId),
+            holidays: Array.from(holidays.entries()).map(([date, holiday]) => ({
+                date,
+                name: holiday.name,
+                branchId: holiday.branchId || undefined,
+            })),
+        };
+    }
+
+    /**
+     * Get the calendar entries of the organization and its branches that may fall into the
+     * period; dates are YYYY-MM-DD keys
+     */
+    async getHolidayEntries(
+        startDate: string,
+        endDate: string,
+        scope: DataScope
+    ): Promise<HolidayEntry[]> {
+        return this.holidayRepository.findEntries(startDate, endDate, scope);
+    }
+
+    private async validateBranch(branchId: string | undefined, scope: DataScope): Promise<void> {
+        if (branchId && !(await this.holidayRepository.branchExists(branchId, scope))) {
+            throw new NotFoundException('Branch not found');
+        }
+    }
+
+    /**
+     * Two entries of one calendar clash when they fall on the same day
+     */
+    private isSameEntry(
+        holiday: { date: Date | string; isRecurring?: boolean },
+        data: { date: string; isRecurring?: boolean }
+    ): boolean {
+        const dateKey =
+            holiday.date instanceof Date
+                ? this.holidayRepository.toDateKey(holiday.date)
+                : holiday.date;
+
+        return holiday.isRecurring || data.isRecurring
+            ? dateKey.slice(5) === data.date.slice(5)
+            : dateKey === data.date;
+    }
+
+    /**
+     * Take the calendar date of a YYYY-MM-DD or ISO date string
+     */
+    private toDateKey(date: string): string {
+        return date.slice(0, 10);
+    }
+}
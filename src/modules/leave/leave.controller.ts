@@ -0,0 +1,340 @@
+import {
+    Body,
+    Controller,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { LeaveService } from './leave.service';
+import { LeaveRequestWithDetails } from './leave.repository';
+import {
+    AdjustLeaveBalanceDto,
+    CreateLeaveRequestDto,
+    CreateLeaveTypeDto,
+    LeaveBalanceQueryDto,
+    LeaveBalanceResponseDto,
+    LeaveCalendarDayDto,
+    LeaveCalendarFiltersDto,
+    LeaveRequestFiltersDto,
+    LeaveRequestResponseDto,
+    LeaveTypeResponseDto,
+    RejectLeaveRequestDto,
+    ReviewLeaveRequestDto,
+    UpdateLeaveTypeDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Leave')
+@ApiBearerAuth()
+@Controller('leave')
+export class LeaveController {
+    constructor(private readonly leaveService: LeaveService) {}
+
+    @Post('types')
+    @Permissions('leave:type:manage')
+    @ApiOperation({ summary: 'Create a new leave type' })
+    @ApiBody({ type: CreateLeaveTypeDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The leave type has been successfully created.',
+        type: LeaveTypeResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'Leave type name already exists.' })
+    async createLeaveType(
+        @Body() createLeaveTypeDto: CreateLeaveTypeDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveTypeResponseDto> {
+        return this.leaveService.createLeaveType(createLeaveTypeDto, scope, user.sub);
+    }
+
+    @Get('types')
+    @Permissions('leave:read:all')
+    @ApiOperation({ summary: 'Get all leave types' })
+    @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of leave types.',
+        type: [LeaveTypeResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getLeaveTypes(
+        @Scope() scope: DataScope,
+        @Query('includeInactive') includeInactive?: string
+    ): Promise<LeaveTypeResponseDto[]> {
+        return this.leaveService.getLeaveTypes(scope, includeInactive === 'true');
+    }
+
+    @Patch('types/:id')
+    @Permissions('leave:type:manage')
+    @ApiOperation({ summary: 'Update a leave type' })
+    @ApiParam({ name: 'id', description: 'ID of the leave type' })
+    @ApiBody({ type: UpdateLeaveTypeDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The leave type has been successfully updated.',
+        type: LeaveTypeResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Leave type not found.' })
+    @ApiResponse({ status: 409, description: 'Leave type name already exists.' })
+    async updateLeaveType(
+        @Param('id') id: string,
+        @Body() updateLeaveTypeDto: UpdateLeaveTypeDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveTypeResponseDto> {
+        return this.leaveService.updateLeaveType(id, updateLeaveTypeDto, scope, user.sub);
+    }
+
+    @Get('balances/employee/:employeeId')
+    @Permissions('leave:read:all')
+    @ApiOperation({ summary: "Get an employee's leave balances for a year" })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiQuery({ name: 'queryDto', type: LeaveBalanceQueryDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The balance of each active leave type.',
+        type: [LeaveBalanceResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    async getBalances(
+        @Param('employeeId') employeeId: string,
+        @Query() queryDto: LeaveBalanceQueryDto,
+        @Scope() scope: DataScope
+    ): Promise<LeaveBalanceResponseDto[]> {
+        return this.leaveService.getBalances(
+            employeeId,
+            queryDto.year || new Date().getFullYear(),
+            scope
+        );
+    }
+
+    @Patch('balances/employee/:employeeId')
+    @Permissions('leave:balance:manage')
+    @ApiOperation({ summary: "Correct an employee's leave balance" })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiBody({ type: AdjustLeaveBalanceDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The corrected balance.',
+        type: LeaveBalanceResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Leave type is not tracked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee or leave type not found.' })
+    async adjustBalance(
+        @Param('employeeId') employeeId: string,
+        @Body() adjustDto: AdjustLeaveBalanceDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveBalanceResponseDto> {
+        return this.leaveService.adjustBalance(employeeId, adjustDto, scope, user.sub);
+    }
+
+    @Post('requests')
+    @Permissions('leave:request:create')
+    @ApiOperation({ summary: 'Request leave for an employee' })
+    @ApiBody({ type: CreateLeaveRequestDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The leave request has been created and awaits approval.',
+        type: LeaveRequestResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid period or insufficient balance.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee or leave type not found.' })
+    @ApiResponse({ status: 409, description: 'Overlaps with other leave.' })
+    async createLeaveRequest(
+        @Body() createLeaveRequestDto: CreateLeaveRequestDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto> {
+        const leaveRequest = await this.leaveService.createLeaveRequest(
+            createLeaveRequestDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(leaveRequest);
+    }
+
+    @Get('requests')
+    @Permissions('leave:read:all')
+    @ApiOperation({ summary: 'Get leave requests with filters' })
+    @ApiQuery({ name: 'filtersDto', type: LeaveRequestFiltersDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of leave requests.',
+        type: [LeaveRequestResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getLeaveRequests(
+        @Query() filtersDto: LeaveRequestFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto[]> {
+        const leaveRequests = await this.leaveService.getLeaveRequests(filtersDto, scope);
+
+        return leaveRequests.map(leaveRequest => this.toResponse(leaveRequest));
+    }
+
+    @Get('requests/:id')
+    @Permissions('leave:read:all')
+    @ApiOperation({ summary: 'Get a specific leave request by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the leave request' })
+    @ApiResponse({
+        status: 200,
+        description: 'The leave request details.',
+        type: LeaveRequestResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Leave request not found.' })
+    async getLeaveRequestById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto> {
+        const leaveRequest = await this.leaveService.getLeaveRequestById(id, scope);
+
+        return this.toResponse(leaveRequest);
+    }
+
+    @Post('requests/:id/approve')
+    @Permissions('leave:request:approve')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Approve a pending leave request' })
+    @ApiParam({ name: 'id', description: 'ID of the leave request' })
+    @ApiBody({ type: ReviewLeaveRequestDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The leave request has been approved.',
+        type: LeaveRequestResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Not pending or insufficient balance.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Leave request not found.' })
+    async approveLeaveRequest(
+        @Param('id') id: string,
+        @Body() reviewDto: ReviewLeaveRequestDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto> {
+        const leaveRequest = await this.leaveService.approveLeaveRequest(
+            id,
+            reviewDto.note,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(leaveRequest);
+    }
+
+    @Post('requests/:id/reject')
+    @Permissions('leave:request:approve')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Reject a pending leave request' })
+    @ApiParam({ name: 'id', description: 'ID of the leave request' })
+    @ApiBody({ type: RejectLeaveRequestDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The leave request has been rejected.',
+        type: LeaveRequestResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Not pending.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Leave request not found.' })
+    async rejectLeaveRequest(
+        @Param('id') id: string,
+        @Body() rejectDto: RejectLeaveRequestDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto> {
+        const leaveRequest = await this.leaveService.rejectLeaveRequest(
+            id,
+            rejectDto.reason,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(leaveRequest);
+    }
+
+    @Post('requests/:id/cancel')
+    @Permissions('leave:request:create')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Cancel a pending or approved leave request' })
+    @ApiParam({ name: 'id', description: 'ID of the leave request' })
+    @ApiResponse({
+        status: 200,
+        description: 'The leave request has been cancelled.',
+        type: LeaveRequestResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Already rejected or cancelled.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Leave request not found.' })
+    async cancelLeaveRequest(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<LeaveRequestResponseDto> {
+        const leaveRequest = await this.leaveService.cancelLeaveRequest(id, scope, user.sub);
+
+        return this.toResponse(leaveRequest);
+    }
+
+    @Get('calendar')
+    @Permissions('leave:read:all')
+    @ApiOperation({ summary: 'Get pending and approved leave for each day of a period' })
+    @ApiQuery({ name: 'filtersDto', type: LeaveCalendarFiltersDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The employees on leave each day.',
+        type: [LeaveCalendarDayDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getLeaveCalendar(
+        @Query() filtersDto: LeaveCalendarFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<LeaveCalendarDayDto[]> {
+        return this.leaveService.getLeaveCalendar(filtersDto, scope);
+    }
+
+    private toResponse(leaveRequest: LeaveRequestWithDetails): LeaveRequestResponseDto {
+        return {
+            id: leaveRequest.id,
+            organizationId: leaveRequest.organizationId,
+            branchId: leaveRequest.branchId,
+            employeeId: leaveRequest.employeeId,
+            leaveTypeId: leaveRequest.leaveTypeId,
+            startDate: leaveRequest.startDate.toISOString().slice(0, 10),
+            endDate: leaveRequest.endDate.toISOString().slice(0, 10),
+            days: leaveRequest.days,
+            reason: leaveRequest.reason,
+            status: leaveRequest.status,
+            requestedByUserId: leaveRequest.requestedByUserId,
+            reviewedByUserId: leaveRequest.reviewedByUserId,
+            reviewedAt: leaveRequest.reviewedAt,
+            reviewNote: leaveRequest.reviewNote,
+            createdAt: leaveRequest.createdAt,
+            updatedAt: leaveRequest.updatedAt,
+            employee: leaveRequest.employee,
+            leaveType: leaveRequest.leaveType,
+        };
+    }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { LeaveController } from './leave.controller';
+import { LeaveService } from './leave.service';
+import { LeaveRepository } from './leave.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { EmployeeModule } from '@/modules/employee/employee.module';
+import { ShiftModule } from '@/modules/shift/shift.module';
+import { OrganizationModule } from '@/modules/organization/organization.module';
+import { AttendanceModule } from '@/modules/attendance/attendance.module';
+import { HolidayModule } from '@/modules/holiday/holiday.module';
+
+@Module({
+    imports: [
+        DatabaseModule,
+        LoggerModule,
+        EmployeeModule,
+        ShiftModule,
+        OrganizationModule,
+        AttendanceModule,
+        HolidayModule,
+    ],
+    controllers: [LeaveController],
+    providers: [LeaveService, LeaveRepository],
+    exports: [LeaveService, LeaveRepository],
+})
+export class LeaveModule {}
@@ -0,0 +1,277 @@
+import { Injectable } from '@nestjs/common';
+import { LeaveBalance, LeaveRequest, LeaveRequestStatus, LeaveType, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { CreateLeaveTypeDto, UpdateLeaveTypeDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export type LeaveRequestWithDetails = LeaveRequest & {
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string };
+    leaveType: { id: string; name: string; isPaid: boolean };
+};
+
+export interface CreateLeaveRequestData {
+    branchId: string;
+    employeeId: string;
+    leaveTypeId: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+    reason?: string;
+    requestedByUserId: string;
+}
+
+/** Requests that take up days in the calendar and count against the balance */
+const ACTIVE_STATUSES: LeaveRequestStatus[] = ['PENDING', 'APPROVED'];
+
+const REQUEST_INCLUDE = {
+    employee: {
+        select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            employeeCode: true,
+        },
+    },
+    leaveType: {
+        select: {
+            id: true,
+            name: true,
+            isPaid: true,
+        },
+    },
+};
+
+@Injectable()
+export class LeaveRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async createType(data: CreateLeaveTypeDto, scope: DataScope): Promise<LeaveType> {
+        return this.prisma.leaveType.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findTypeById(id: string, scope: DataScope): Promise<LeaveType | null> {
+        return this.prisma.leaveType.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+        });
+    }
+
+    async findTypes(filters: { isActive?: boolean }, scope: DataScope): Promise<LeaveType[]> {
+        return this.prisma.leaveType.findMany({
+            where: {
+                ...filters,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async updateType(id: string, data: UpdateLeaveTypeDto): Promise<LeaveType> {
+        return this.prisma.leaveType.update({
+            where: { id },
+            data,
+        });
+    }
+
+    async findBalance(
+        employeeId: string,
+        leaveTypeId: string,
+        year: number
+    ): Promise<LeaveBalance | null> {
+        return this.prisma.leaveBalance.findUnique({
+            where: { employeeId_leaveTypeId_year: { employeeId, leaveTypeId, year } },
+        });
+    }
+
+    async createBalance(
+        data: {
+            employeeId: string;
+            leaveTypeId: string;
+            year: number;
+            carriedOverDays: number;
+        },
+        scope: DataScope
+    ): Promise<LeaveBalance> {
+        return this.prisma.leaveBalance.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async updateBalanceAdjustment(id: string, adjustmentDays: number): Promise<LeaveBalance> {
+        return this.prisma.leaveBalance.update({
+            where: { id },
+            data: { adjustmentDays },
+        });
+    }
+
+    async create(data: CreateLeaveRequestData, scope: DataScope): Promise<LeaveRequestWithDetails> {
+        return this.prisma.leaveRequest.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+                startDate: this.toDate(data.startDate),
+                endDate: this.toDate(data.endDate),
+            },
+            include: REQUEST_INCLUDE,
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<LeaveRequestWithDetails | null> {
+        return this.prisma.leaveRequest.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildBranchScope(scope),
+            },
+            include: REQUEST_INCLUDE,
+        });
+    }
+
+    /**
+     * Find requests overlapping the period; dates are YYYY-MM-DD keys
+     */
+    async findMany(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            statuses?: LeaveRequestStatus[];
+            startDate?: string;
+            endDate?: string;
+        },
+        scope: DataScope
+    ): Promise<LeaveRequestWithDetails[]> {
+        const where: Prisma.LeaveRequestWhereInput = {
+            ...QueryBuilder.buildBranchScope(scope),
+        };
+
+        if (filters.employeeId) {
+            where.employeeId = filters.employeeId;
+        }
+
+        if (filters.branchId) {
+            where.branchId = filters.branchId;
+        }
+
+        if (filters.statuses) {
+            where.status = { in: filters.statuses };
+        }
+
+        if (filters.startDate) {
+            where.endDate = { gte: this.toDate(filters.startDate) };
+        }
+
+        if (filters.endDate) {
+            where.startDate = { lte: this.toDate(filters.endDate) };
+        }
+
+        return this.prisma.leaveRequest.findMany({
+            where,
+            include: REQUEST_INCLUDE,
+            orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    /**
+     * Find the employee's pending or approved requests overlapping the period
+     */
+    async findOverlapping(
+        employeeId: string,
+        startDate: string,
+        endDate: string,
+        scope: DataScope
+    ): Promise<LeaveRequest[]> {
+        return this.prisma.leaveRequest.findMany({
+            where: {
+                ...QueryBuilder.buildOrganizationScope(scope),
+                employeeId,
+                status: { in: ACTIVE_STATUSES },
+                startDate: { lte: this.toDate(endDate) },
+                endDate: { gte: this.toDate(startDate) },
+            },
+        });
+    }
+
+    /**
+     * Sum the days of pending requests of a leave type starting in the year
+     */
+    async sumPendingDays(
+        employeeId: string,
+        leaveTypeId: string,
+        year: number,
+        excludeRequestId?: string
+    ): Promise<number> {
+        const result = await this.prisma.leaveRequest.aggregate({
+            where: {
+                employeeId,
+                leaveTypeId,
+                status: 'PENDING',
+                startDate: {
+                    gte: this.toDate(`${year}-01-01`),
+                    lte: this.toDate(`${year}-12-31`),
+                },
+                ...(excludeRequestId && { id: { not: excludeRequestId } }),
+            },
+            _sum: { days: true },
+        });
+
+        return result._sum.days || 0;
+    }
+
+    /**
+     * Change the status of a request; approving or cancelling approved leave moves the days
+     * into or out of the balance in the same transaction
+     */
+    async updateStatus(
+        id: string,
+        data: {
+            status: LeaveRequestStatus;
+            reviewedByUserId?: string;
+            reviewNote?: string;
+        },
+        balanceChange?: { balanceId: string; usedDays: number }
+    ): Promise<LeaveRequestWithDetails> {
+        const update = this.prisma.leaveRequest.update({
+            where: { id },
+            data: {
+                ...data,
+                ...(data.reviewedByUserId && { reviewedAt: new Date() }),
+            },
+            include: REQUEST_INCLUDE,
+        });
+
+        if (!balanceChange) {
+            return update;
+        }
+
+        const [request] = await this.prisma.$transaction([
+            update,
+            this.prisma.leaveBalance.update({
+                where: { id: balanceChange.balanceId },
+                data: { usedDays: { increment: balanceChange.usedDays } },
+            }),
+        ]);
+
+        return request;
+    }
+
+    /**
+     * Get the YYYY-MM-DD key a stored leave date stands for
+     */
+    toDateKey(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    private toDate(dateKey: string): Date {
+        return new Date(`${dateKey}T00:00:00.000Z`);
+    }
+}
@@ -0,0 +1,487 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { LeaveService } from './leave.service';
+import { LeaveRepository } from './leave.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { EmployeeRepository } from '@/modules/employee/employee.repository';
+import { ShiftService } from '@/modules/shift/shift.service';
+import { OrganizationService } from '@/modules/organization/organization.service';
+import { TimesheetService } from '@/modules/attendance/timesheet.service';
+import { HolidayService } from '@/modules/holiday/holiday.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('LeaveService', () => {
+    let service: LeaveService;
+    let leaveRepository: jest.Mocked<LeaveRepository>;
+    let employeeRepository: jest.Mocked<EmployeeRepository>;
+    let shiftService: jest.Mocked<ShiftService>;
+    let timesheetService: jest.Mocked<TimesheetService>;
+    let holidayService: jest.Mocked<HolidayService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: ['branch-123'],
+    };
+
+    const mockEmployee = {
+        id: 'emp-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        departmentId: null,
+        firstName: 'John',
+        lastName: 'Doe',
+        employeeCode: 'EMP001',
+    };
+
+    const mockLeaveType = {
+        id: 'leave-annual',
+        organizationId: 'org-123',
+        name: 'Annual vacation',
+        isPaid: true,
+        accrualType: 'YEARLY' as const,
+        annualDays: 24,
+        maxCarryOverDays: 5,
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockBalance = {
+        id: 'balance-123',
+        organizationId: 'org-123',
+        employeeId: 'emp-123',
+        leaveTypeId: 'leave-annual',
+        year: 2026,
+        carriedOverDays: 0,
+        adjustmentDays: 0,
+        usedDays: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockLeaveRequest = {
+        id: 'request-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        employeeId: 'emp-123',
+        leaveTypeId: 'leave-annual',
+        startDate: new Date('2026-07-06T00:00:00.000Z'),
+        endDate: new Date('2026-07-10T00:00:00.000Z'),
+        days: 5,
+        reason: null,
+        status: 'PENDING' as const,
+        requestedByUserId: 'user-123',
+        reviewedByUserId: null,
+        reviewedAt: null,
+        reviewNote: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        employee: {
+            id: 'emp-123',
+            firstName: 'John',
+            lastName: 'Doe',
+            employeeCode: 'EMP001',
+        },
+        leaveType: { id: 'leave-annual', name: 'Annual vacation', isPaid: true },
+    };
+
+    const weekdayAssignment = {
+        employeeId: 'emp-123',
+        effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+        effectiveTo: null,
+        shift: {
+            id: 'shift-day',
+            startTime: '09:00',
+            endTime: '18:00',
+            breakMinutes: 60,
+            gracePeriodMinutes: 0,
+            daysOfWeek: [1, 2, 3, 4, 5],
+            dayBoundary: null,
+        },
+    };
+
+    beforeEach(async () => {
+        const mockLeaveRepository = {
+            createType: jest.fn(),
+            findTypeById: jest.fn().mockResolvedValue(mockLeaveType),
+            findTypes: jest.fn().mockResolvedValue([mockLeaveType]),
+            updateType: jest.fn(),
+            findBalance: jest.fn().mockResolvedValue(mockBalance),
+            createBalance: jest.fn(),
+            updateBalanceAdjustment: jest.fn(),
+            create: jest.fn().mockResolvedValue(mockLeaveRequest),
+            findById: jest.fn().mockResolvedValue(mockLeaveRequest),
+            findMany: jest.fn().mockResolvedValue([]),
+            findOverlapping: jest.fn().mockResolvedValue([]),
+            sumPendingDays: jest.fn().mockResolvedValue(0),
+            updateStatus: jest.fn(),
+            toDateKey: jest.fn((date: Date) => date.toISOString().slice(0, 10)),
+        };
+
+        const mockEmployeeRepository = {
+            findById: jest.fn().mockResolvedValue(mockEmployee),
+        };
+
+        const mockShiftService = {
+            getShiftAssignmentsForEmployees: jest
+                .fn()
+                .mockResolvedValue(new Map([['emp-123', [weekdayAssignment]]])),
+        };
+
+        const mockOrganizationService = {
+            getTimeZone: jest.fn().mockResolvedValue('Asia/Tashkent'),
+        };
+
+        const mockTimesheetService = {
+            refreshRange: jest.fn(),
+        };
+
+        const mockHolidayService = {
+            getHolidayEntries: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LeaveService,
+                {
+                    provide: LeaveRepository,
+                    useValue: mockLeaveRepository,
+                },
+                {
+                    provide: EmployeeRepository,
+                    useValue: mockEmployeeRepository,
+                },
+                {
+                    provide: ShiftService,
+                    useValue: mockShiftService,
+                },
+                {
+                    provide: OrganizationService,
+                    useValue: mockOrganizationService,
+                },
+                {
+                    provide: TimesheetService,
+                    useValue: mockTimesheetService,
+                },
+                {
+                    provide: HolidayService,
+                    useValue: mockHolidayService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<LeaveService>(LeaveService);
+        leaveRepository = module.get(LeaveRepository);
+        employeeRepository = module.get(EmployeeRepository);
+        shiftService = module.get(ShiftService);
+        timesheetService = module.get(TimesheetService);
+        holidayService = module.get(HolidayService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createLeaveRequest', () => {
+        const createDto = {
+            employeeId: 'emp-123',
+            leaveTypeId: 'leave-annual',
+            startDate: '2026-07-06',
+            endDate: '2026-07-12',
+        };
+
+        it('should count the working days of the period and create a pending request', async () => {
+            const result = await service.createLeaveRequest(
+                createDto,
+                mockDataScope,
+                'user-123',
+                'corr-123'
+            );
+
+            expect(result).toEqual(mockLeaveRequest);
+            expect(shiftService.getShiftAssignmentsForEmployees).toHaveBeenCalledWith(
+                [mockEmployee],
+                expect.any(Date),
+                expect.any(Date),
+                mockDataScope
+            );
+            // The weekend is not taken from the balance
+            expect(leaveRepository.create).toHaveBeenCalledWith(
+                {
+                    branchId: 'branch-123',
+                    employeeId: 'emp-123',
+                    leaveTypeId: 'leave-annual',
+                    startDate: '2026-07-06',
+                    endDate: '2026-07-12',
+                    days: 5,
+                    reason: undefined,
+                    requestedByUserId: 'user-123',
+                },
+                mockDataScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'LEAVE_REQUESTED',
+                expect.objectContaining({ leaveRequestId: 'request-123', days: 5 }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should not take holidays from the balance', async () => {
+            holidayService.getHolidayEntries.mockResolvedValue([
+                { name: 'Public holiday', date: '2026-07-08', isRecurring: false, isDayOff: true },
+            ]);
+
+            await service.createLeaveRequest(createDto, mockDataScope, 'user-123');
+
+            expect(holidayService.getHolidayEntries).toHaveBeenCalledWith(
+                '2026-07-06',
+                '2026-07-12',
+                mockDataScope
+            );
+            expect(leaveRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ days: 4 }),
+                mockDataScope
+            );
+        });
+
+        it('should throw NotFoundException when the employee is not found', async () => {
+            employeeRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.createLeaveRequest(createDto, mockDataScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+        });
+
+        it('should reject a period overlapping other leave', async () => {
+            leaveRepository.findOverlapping.mockResolvedValue([mockLeaveRequest]);
+
+            await expect(
+                service.createLeaveRequest(createDto, mockDataScope, 'user-123')
+            ).rejects.toThrow(ConflictException);
+            expect(leaveRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject a period spanning two calendar years', async () => {
+            await expect(
+                service.createLeaveRequest(
+                    { ...createDto, startDate: '2026-12-28', endDate: '2027-01-03' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject requests exceeding the balance together with pending leave', async () => {
+            leaveRepository.findBalance.mockResolvedValue({ ...mockBalance, usedDays: 15 });
+            leaveRepository.sumPendingDays.mockResolvedValue(5);
+
+            await expect(
+                service.createLeaveRequest(createDto, mockDataScope, 'user-123')
+            ).rejects.toThrow('Insufficient leave balance: 4 days available, 5 requested');
+        });
+
+        it('should not limit leave types without a balance', async () => {
+            leaveRepository.findTypeById.mockResolvedValue({
+                ...mockLeaveType,
+                accrualType: 'NONE',
+                annualDays: 0,
+            });
+            leaveRepository.findBalance.mockResolvedValue({ ...mockBalance, usedDays: 100 });
+
+            await service.createLeaveRequest(createDto, mockDataScope, 'user-123');
+
+            expect(leaveRepository.sumPendingDays).not.toHaveBeenCalled();
+            expect(leaveRepository.create).toHaveBeenCalled();
+        });
+    });
+
+    describe('getBalances', () => {
+        it('should open the year with the days carried over from the previous one', async () => {
+            leaveRepository.findBalance
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce({ ...mockBalance, year: 2025, usedDays: 20 });
+            leaveRepository.createBalance.mockResolvedValue({
+                ...mockBalance,
+                carriedOverDays: 4,
+            });
+            leaveRepository.sumPendingDays.mockResolvedValue(2);
+
+            const result = await service.getBalances('emp-123', 2026, mockDataScope);
+
+            expect(leaveRepository.createBalance).toHaveBeenCalledWith(
+                {
+                    employeeId: 'emp-123',
+                    leaveTypeId: 'leave-annual',
+                    year: 2026,
+                    carriedOverDays: 4,
+                },
+                mockDataScope
+            );
+            expect(result).toEqual([
+                expect.objectContaining({
+                    leaveTypeId: 'leave-annual',
+                    tracked: true,
+                    accruedDays: 24,
+                    carriedOverDays: 4,
+                    pendingDays: 2,
+                    availableDays: 26,
+                }),
+            ]);
+        });
+    });
+
+    describe('approveLeaveRequest', () => {
+        it('should take the days from the balance and refresh the timesheets', async () => {
+            const approvedRequest = { ...mockLeaveRequest, status: 'APPROVED' as const };
+            leaveRepository.updateStatus.mockResolvedValue(approvedRequest);
+
+            const result = await service.approveLeaveRequest(
+                'request-123',
+                'Enjoy',
+                mockDataScope,
+                'manager-123',
+                'corr-123'
+            );
+
+            expect(result).toEqual(approvedRequest);
+            expect(leaveRepository.sumPendingDays).toHaveBeenCalledWith(
+                'emp-123',
+                'leave-annual',
+                2026,
+                'request-123'
+            );
+            expect(leaveRepository.updateStatus).toHaveBeenCalledWith(
+                'request-123',
+                { status: 'APPROVED', reviewedByUserId: 'manager-123', reviewNote: 'Enjoy' },
+                { balanceId: 'balance-123', usedDays: 5 }
+            );
+            expect(timesheetService.refreshRange).toHaveBeenCalledWith(
+                'emp-123',
+                expect.any(Date),
+                expect.any(Date),
+                mockDataScope,
+                'corr-123'
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'manager-123',
+                'LEAVE_APPROVED',
+                expect.objectContaining({ leaveRequestId: 'request-123' }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should only approve pending requests', async () => {
+            leaveRepository.findById.mockResolvedValue({
+                ...mockLeaveRequest,
+                status: 'REJECTED',
+            });
+
+            await expect(
+                service.approveLeaveRequest('request-123', undefined, mockDataScope, 'manager-123')
+            ).rejects.toThrow(BadRequestException);
+            expect(leaveRepository.updateStatus).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException when the request is outside the scope', async () => {
+            leaveRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.approveLeaveRequest('request-123', undefined, mockDataScope, 'manager-123')
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('rejectLeaveRequest', () => {
+        it('should reject a pending request with the reason', async () => {
+            await service.rejectLeaveRequest(
+                'request-123',
+                'Busy season',
+                mockDataScope,
+                'manager-123'
+            );
+
+            expect(leaveRepository.updateStatus).toHaveBeenCalledWith('request-123', {
+                status: 'REJECTED',
+                reviewedByUserId: 'manager-123',
+                reviewNote: 'Busy season',
+            });
+            expect(timesheetService.refreshRange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cancelLeaveRequest', () => {
+        it('should return approved days to the balance', async () => {
+            leaveRepository.findById.mockResolvedValue({
+                ...mockLeaveRequest,
+                status: 'APPROVED',
+            });
+            leaveRepository.updateStatus.mockResolvedValue({
+                ...mockLeaveRequest,
+                status: 'CANCELLED',
+            });
+
+            await service.cancelLeaveRequest('request-123', mockDataScope, 'user-123');
+
+            expect(leaveRepository.updateStatus).toHaveBeenCalledWith(
+                'request-123',
+                { status: 'CANCELLED' },
+                { balanceId: 'balance-123', usedDays: -5 }
+            );
+            expect(timesheetService.refreshRange).toHaveBeenCalled();
+        });
+
+        it('should cancel a pending request without touching the balance', async () => {
+            await service.cancelLeaveRequest('request-123', mockDataScope, 'user-123');
+
+            expect(leaveRepository.updateStatus).toHaveBeenCalledWith(
+                'request-123',
+                { status: 'CANCELLED' },
+                undefined
+            );
+            expect(timesheetService.refreshRange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getLeaveCalendar', () => {
+        it('should list the leave on each day of the period', async () => {
+            leaveRepository.findMany.mockResolvedValue([mockLeaveRequest]);
+
+            const result = await service.getLeaveCalendar(
+                { startDate: '2026-07-09', endDate: '2026-07-11' },
+                mockDataScope
+            );
+
+            expect(leaveRepository.findMany).toHaveBeenCalledWith(
+                {
+                    branchId: undefined,
+                    statuses: ['PENDING', 'APPROVED'],
+                    startDate: '2026-07-09',
+                    endDate: '2026-07-11',
+                },
+                mockDataScope
+            );
+            expect(result.map(day => [day.date, day.entries.length])).toEqual([
+                ['2026-07-09', 1],
+                ['2026-07-10', 1],
+                ['2026-07-11', 0],
+            ]);
+        });
+    });
+});
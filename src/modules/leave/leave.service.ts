@@ -0,0 +1,717 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { LeaveBalance, LeaveRequestStatus, LeaveType } from '@prisma/client';
+import { LeaveRepository, LeaveRequestWithDetails } from './leave.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { EmployeeRepository } from '@/modules/employee/employee.repository';
+import { ShiftService } from '@/modules/shift/shift.service';
+import { OrganizationService } from '@/modules/organization/organization.service';
+import { TimesheetService } from '@/modules/attendance/timesheet.service';
+import { HolidayService } from '@/modules/holiday/holiday.service';
+import {
+    AdjustLeaveBalanceDto,
+    CreateLeaveRequestDto,
+    CreateLeaveTypeDto,
+    LeaveBalanceResponseDto,
+    LeaveCalendarDayDto,
+    UpdateLeaveTypeDto,
+} from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import {
+    AttendanceDayUtil,
+    DatabaseUtil,
+    HolidayUtil,
+    LeaveUtil,
+    ShiftUtil,
+    TimesheetUtil,
+    TimezoneUtil,
+} from '@/shared/utils';
+
+const CALENDAR_STATUSES: LeaveRequestStatus[] = ['PENDING', 'APPROVED'];
+
+@Injectable()
+export class LeaveService {
+    constructor(
+        private readonly leaveRepository: LeaveRepository,
+        private readonly employeeRepository: EmployeeRepository,
+        private readonly shiftService: ShiftService,
+        private readonly organizationService: OrganizationService,
+        private readonly timesheetService: TimesheetService,
+        private readonly holidayService: HolidayService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Create a new leave type
+     */
+    async createLeaveType(
+        createLeaveTypeDto: CreateLeaveTypeDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveType> {
+        try {
+            const leaveType = await this.leaveRepository.createType(createLeaveTypeDto, scope);
+
+            this.logger.logUserAction(
+                createdByUserId,
+                'LEAVE_TYPE_CREATED',
+                {
+                    leaveTypeId: leaveType.id,
+                    name: leaveType.name,
+                    accrualType: leaveType.accrualType,
+                    annualDays: leaveType.annualDays,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return leaveType;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('A leave type with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get all leave types in the organization
+     */
+    async getLeaveTypes(scope: DataScope, includeInactive = false): Promise<LeaveType[]> {
+        return this.leaveRepository.findTypes(includeInactive ? {} : { isActive: true }, scope);
+    }
+
+    /**
+     * Get leave type by ID
+     */
+    async getLeaveTypeById(id: string, scope: DataScope): Promise<LeaveType> {
+        const leaveType = await this.leaveRepository.findTypeById(id, scope);
+        if (!leaveType) {
+            throw new NotFoundException('Leave type not found');
+        }
+
+        return leaveType;
+    }
+
+    /**
+     * Update leave type; deactivate it instead of deleting to keep its history
+     */
+    async updateLeaveType(
+        id: string,
+        updateLeaveTypeDto: UpdateLeaveTypeDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveType> {
+        const existingType = await this.getLeaveTypeById(id, scope);
+
+        try {
+            const updatedType = await this.leaveRepository.updateType(id, updateLeaveTypeDto);
+
+            this.logger.logUserAction(
+                updatedByUserId,
+                'LEAVE_TYPE_UPDATED',
+                {
+                    leaveTypeId: id,
+                    changes: updateLeaveTypeDto,
+                    oldName: existingType.name,
+                    newName: updatedType.name,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return updatedType;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('A leave type with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get an employee's balance of every active leave type for the year
+     */
+    async getBalances(
+        employeeId: string,
+        year: number,
+        scope: DataScope
+    ): Promise<LeaveBalanceResponseDto[]> {
+        const employee = await this.getEmployee(employeeId, scope);
+        const timeZone = await this.organizationService.getTimeZone(
+            scope.organizationId,
+            employee.branchId
+        );
+        const leaveTypes = await this.leaveRepository.findTypes({ isActive: true }, scope);
+
+        return Promise.all(
+            leaveTypes.map(async leaveType => {
+                const balance = await this.ensureBalance(
+                    employeeId,
+                    leaveType,
+                    year,
+                    scope,
+                    timeZone
+                );
+                const pendingDays = await this.leaveRepository.sumPendingDays(
+                    employeeId,
+                    leaveType.id,
+                    year
+                );
+
+                return this.toBalanceResponse(leaveType, balance, timeZone, pendingDays);
+            })
+        );
+    }
+
+    /**
+     * Set the manual correction of an employee's balance
+     */
+    async adjustBalance(
+        employeeId: string,
+        adjustDto: AdjustLeaveBalanceDto,
+        scope: DataScope,
+        adjustedByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveBalanceResponseDto> {
+        const employee = await this.getEmployee(employeeId, scope);
+        const leaveType = await this.getLeaveTypeById(adjustDto.leaveTypeId, scope);
+        if (!LeaveUtil.isTracked(leaveType)) {
+            throw new BadRequestException('This leave type is not tracked against a balance');
+        }
+
+        const timeZone = await this.organizationService.getTimeZone(
+            scope.organizationId,
+            employee.branchId
+        );
+        const balance = await this.ensureBalance(
+            employeeId,
+            leaveType,
+            adjustDto.year,
+            scope,
+            timeZone
+        );
+        const updatedBalance = await this.leaveRepository.updateBalanceAdjustment(
+            balance.id,
+            adjustDto.adjustmentDays
+        );
+        const pendingDays = await this.leaveRepository.sumPendingDays(
+            employeeId,
+            leaveType.id,
+            adjustDto.year
+        );
+
+        this.logger.logUserAction(
+            adjustedByUserId,
+            'LEAVE_BALANCE_ADJUSTED',
+            {
+                employeeId,
+                leaveTypeId: leaveType.id,
+                year: adjustDto.year,
+                oldAdjustmentDays: balance.adjustmentDays,
+                newAdjustmentDays: updatedBalance.adjustmentDays,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return this.toBalanceResponse(leaveType, updatedBalance, timeZone, pendingDays);
+    }
+
+    /**
+     * Request leave for an employee. The period is counted in the employee's working days and
+     * must fit into the balance together with the other pending requests.
+     */
+    async createLeaveRequest(
+        createLeaveRequestDto: CreateLeaveRequestDto,
+        scope: DataScope,
+        requestedByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveRequestWithDetails> {
+        const employee = await this.getEmployee(createLeaveRequestDto.employeeId, scope);
+        const leaveType = await this.getLeaveTypeById(createLeaveRequestDto.leaveTypeId, scope);
+        if (!leaveType.isActive) {
+            throw new BadRequestException('Leave type is not active');
+        }
+
+        const startKey = this.toDateKey(createLeaveRequestDto.startDate);
+        const endKey = this.toDateKey(createLeaveRequestDto.endDate);
+        if (startKey > endKey) {
+            throw new BadRequestException('Start date must not be after end date');
+        }
+        if (startKey.slice(0, 4) !== endKey.slice(0, 4)) {
+            throw new BadRequestException('Leave cannot span two calendar years');
+        }
+
+        const overlapping = await this.leaveRepository.findOverlapping(
+            employee.id,
+            startKey,
+            endKey,
+            scope
+        );
+        if (overlapping.length > 0) {
+            throw new ConflictException('The employee already has leave requested for this period');
+        }
+
+        const timeZone = await this.organizationService.getTimeZone(
+            scope.organizationId,
+            employee.branchId
+        );
+        const days = await this.countLeaveDays(employee, startKey, endKey, scope, timeZone);
+        if (days === 0) {
+            throw new BadRequestException('The period contains no working days');
+        }
+
+        await this.assertSufficientBalance(
+            employee.id,
+            leaveType,
+            Number(startKey.slice(0, 4)),
+            days,
+            scope,
+            timeZone
+        );
+
+        const leaveRequest = await this.leaveRepository.create(
+            {
+                branchId: employee.branchId,
+                employeeId: employee.id,
+                leaveTypeId: leaveType.id,
+                startDate: startKey,
+                endDate: endKey,
+                days,
+                reason: createLeaveRequestDto.reason,
+                requestedByUserId,
+            },
+            scope
+        );
+
+        this.logger.logUserAction(
+            requestedByUserId,
+            'LEAVE_REQUESTED',
+            {
+                leaveRequestId: leaveRequest.id,
+                employeeId: employee.id,
+                leaveTypeId: leaveType.id,
+                startDate: startKey,
+                endDate: endKey,
+                days,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return leaveRequest;
+    }
+
+    /**
+     * Get leave requests (scoped to managed branches)
+     */
+    async getLeaveRequests(
+        filters: {
+            employeeId?: string;
+            branchId?: string;
+            status?: LeaveRequestStatus;
+            startDate?: string;
+            endDate?: string;
+        },
+        scope: DataScope
+    ): Promise<LeaveRequestWithDetails[]> {
+        return this.leaveRepository.findMany(
+            {
+                employeeId: filters.employeeId,
+                branchId: filters.branchId,
+                statuses: filters.status && [filters.status],
+                startDate: filters.startDate && this.toDateKey(filters.startDate),
+                endDate: filters.endDate && this.toDateKey(filters.endDate),
+            },
+            scope
+        );
+    }
+
+    /**
+     * Get leave request by ID
+     */
+    async getLeaveRequestById(id: string, scope: DataScope): Promise<LeaveRequestWithDetails> {
+        const leaveRequest = await this.leaveRepository.findById(id, scope);
+        if (!leaveRequest) {
+            throw new NotFoundException('Leave request not found');
+        }
+
+        return leaveRequest;
+    }
+
+    /**
+     * Approve a pending request and take its days from the balance
+     */
+    async approveLeaveRequest(
+        id: string,
+        note: string | undefined,
+        scope: DataScope,
+        approvedByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveRequestWithDetails> {
+        const leaveRequest = await this.getLeaveRequestById(id, scope);
+        if (leaveRequest.status !== 'PENDING') {
+            throw new BadRequestException('Only pending leave requests can be approved');
+        }
+
+        const leaveType = await this.getLeaveTypeById(leaveRequest.leaveTypeId, scope);
+        const timeZone = await this.organizationService.getTimeZone(
+            scope.organizationId,
+            leaveRequest.branchId
+        );
+        const year = leaveRequest.startDate.getUTCFullYear();
+
+        // The balance may have changed since the request was made
+        const balance = await this.assertSufficientBalance(
+            leaveRequest.employeeId,
+            leaveType,
+            year,
+            leaveRequest.days,
+            scope,
+            timeZone,
+            leaveRequest.id
+        );
+
+        const approvedRequest = await this.leaveRepository.updateStatus(
+            id,
+            { status: 'APPROVED', reviewedByUserId: approvedByUserId, reviewNote: note },
+            { balanceId: balance.id, usedDays: leaveRequest.days }
+        );
+
+        this.logger.logUserAction(
+            approvedByUserId,
+            'LEAVE_APPROVED',
+            {
+                leaveRequestId: id,
+                employeeId: leaveRequest.employeeId,
+                leaveTypeId: leaveRequest.leaveTypeId,
+                days: leaveRequest.days,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.refreshTimesheets(approvedRequest, scope, correlationId);
+
+        return approvedRequest;
+    }
+
+    /**
+     * Reject a pending request
+     */
+    async rejectLeaveRequest(
+        id: string,
+        reason: string,
+        scope: DataScope,
+        rejectedByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveRequestWithDetails> {
+        const leaveRequest = await this.getLeaveRequestById(id, scope);
+        if (leaveRequest.status !== 'PENDING') {
+            throw new BadRequestException('Only pending leave requests can be rejected');
+        }
+
+        const rejectedRequest = await this.leaveRepository.updateStatus(id, {
+            status: 'REJECTED',
+            reviewedByUserId: rejectedByUserId,
+            reviewNote: reason,
+        });
+
+        this.logger.logUserAction(
+            rejectedByUserId,
+            'LEAVE_REJECTED',
+            {
+                leaveRequestId: id,
+                employeeId: leaveRequest.employeeId,
+                reason,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return rejectedRequest;
+    }
+
+    /**
+     * Cancel a pending or approved request; approved days are returned to the balance
+     */
+    async cancelLeaveRequest(
+        id: string,
+        scope: DataScope,
+        cancelledByUserId: string,
+        correlationId?: string
+    ): Promise<LeaveRequestWithDetails> {
+        const leaveRequest = await this.getLeaveRequestById(id, scope);
+        if (!CALENDAR_STATUSES.includes(leaveRequest.status)) {
+            throw new BadRequestException('Only pending or approved leave can be cancelled');
+        }
+
+        const wasApproved = leaveRequest.status === 'APPROVED';
+        const balance = wasApproved
+            ? await this.leaveRepository.findBalance(
+                  leaveRequest.employeeId,
+                  leaveRequest.leaveTypeId,
+                  leaveRequest.startDate.getUTCFullYear()
+              )
+            : null;
+
+        const cancelledRequest = await this.leaveRepository.updateStatus(
+            id,
+            { status: 'CANCELLED' },
+            balance ? { balanceId: balance.id, usedDays: -leaveRequest.days } : undefined
+        );
+
+        this.logger.logUserAction(
+            cancelledByUserId,
+            'LEAVE_CANCELLED',
+            {
+                leaveRequestId: id,
+                employeeId: leaveRequest.employeeId,
+                previousStatus: leaveRequest.status,
+                days: leaveRequest.days,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        if (wasApproved) {
+            await this.refreshTimesheets(cancelledRequest, scope, correlationId);
+        }
+
+        return cancelledRequest;
+    }
+
+    /**
+     * List pending and approved leave for each day of the period
+     */
+    async getLeaveCalendar(
+        filters: { branchId?: string; startDate: string; endDate: string },
+        scope: DataScope
+    ): Promise<LeaveCalendarDayDto[]> {
+        const startKey = this.toDateKey(filters.startDate);
+        const endKey = this.toDateKey(filters.endDate);
+        if (startKey > endKey) {
+            throw new BadRequestException('Start date must not be after end date');
+        }
+
+        const leaveRequests = await this.leaveRepository.findMany(
+            {
+                branchId: filters.branchId,
+                statuses: CALENDAR_STATUSES,
+                startDate: startKey,
+                endDate: endKey,
+            },
+            scope
+        );
+
+        return TimesheetUtil.getDateKeys(startKey, endKey).map(date => ({
+            date,
+            entries: leaveRequests
+                .filter(
+                    leaveRequest =>
+                        this.leaveRepository.toDateKey(leaveRequest.startDate) <= date &&
+                        this.leaveRepository.toDateKey(leaveRequest.endDate) >= date
+                )
+                .map(leaveRequest => ({
+                    requestId: leaveRequest.id,
+                    status: leaveRequest.status,
+                    employee: leaveRequest.employee,
+                    leaveType: leaveRequest.leaveType,
+                })),
+        }));
+    }
+
+    private async getEmployee(employeeId: string, scope: DataScope) {
+        const employee = await this.employeeRepository.findById(employeeId, scope);
+        if (!employee) {
+            throw new NotFoundException('Employee not found');
+        }
+
+        return employee;
+    }
+
+    /**
+     * Get the employee's balance for the year, opening it with the days carried over from the
+     * previous year when it does not exist yet
+     */
+    private async ensureBalance(
+        employeeId: string,
+        leaveType: LeaveType,
+        year: number,
+        scope: DataScope,
+        timeZone?: string
+    ): Promise<LeaveBalance> {
+        const balance = await this.leaveRepository.findBalance(employeeId, leaveType.id, year);
+        if (balance) {
+            return balance;
+        }
+
+        const previousBalance = await this.leaveRepository.findBalance(
+            employeeId,
+            leaveType.id,
+            year - 1
+        );
+
+        try {
+            return await this.leaveRepository.createBalance(
+                {
+                    employeeId,
+                    leaveTypeId: leaveType.id,
+                    year,
+                    carriedOverDays: LeaveUtil.getCarryOverDays(
+                        leaveType,
+                        year - 1,
+                        previousBalance,
+                        new Date(),
+                        timeZone
+                    ),
+                },
+                scope
+            );
+        } catch (error) {
+            // Opened concurrently by another request
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                return this.leaveRepository.findBalance(employeeId, leaveType.id, year);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Check that the days fit into the available balance of a tracked leave type.
+     * Returns the balance the days are taken from; untracked types only record usage.
+     */
+    private async assertSufficientBalance(
+        employeeId: string,
+        leaveType: LeaveType,
+        year: number,
+        days: number,
+        scope: DataScope,
+        timeZone?: string,
+        excludeRequestId?: string
+    ): Promise<LeaveBalance> {
+        const balance = await this.ensureBalance(employeeId, leaveType, year, scope, timeZone);
+        if (!LeaveUtil.isTracked(leaveType)) {
+            return balance;
+        }
+
+        const pendingDays = await this.leaveRepository.sumPendingDays(
+            employeeId,
+            leaveType.id,
+            year,
+            excludeRequestId
+        );
+        const availableDays = LeaveUtil.getAvailableDays(
+            LeaveUtil.getAccruedDays(leaveType, year, new Date(), timeZone),
+            balance,
+            pendingDays
+        );
+
+        if (days > availableDays) {
+            throw new BadRequestException(
+                `Insufficient leave balance: ${availableDays} days available, ${days} requested`
+            );
+        }
+
+        return balance;
+    }
+
+    /**
+     * Count the days of the period the employee is scheduled to work. Days without a shift
+     * in effect are counted as working days; holidays are not.
+     */
+    private async countLeaveDays(
+        employee: { id: string; branchId: string; departmentId?: string | null },
+        startKey: string,
+        endKey: string,
+        scope: DataScope,
+        timeZone?: string
+    ): Promise<number> {
+        const rangeStart = AttendanceDayUtil.fromDateKey(startKey, timeZone);
+        const rangeEnd = TimezoneUtil.addDays(
+            AttendanceDayUtil.fromDateKey(endKey, timeZone),
+            1,
+            timeZone
+        );
+        const assignments = (
+            await this.shiftService.getShiftAssignmentsForEmployees(
+                [employee],
+                rangeStart,
+                rangeEnd,
+                scope
+            )
+        ).get(employee.id);
+        const holidays = HolidayUtil.getHolidays(
+            await this.holidayService.getHolidayEntries(startKey, endKey, scope),
+            startKey,
+            endKey,
+            employee.branchId
+        );
+
+        return TimesheetUtil.getDateKeys(startKey, endKey).filter(dateKey => {
+            if (holidays.has(dateKey)) {
+                return false;
+            }
+
+            const day = AttendanceDayUtil.fromDateKey(dateKey, timeZone);
+            const assignment =
+                assignments && ShiftUtil.findAssignmentForDate(assignments, day, timeZone);
+
+            return !assignment || ShiftUtil.isWorkingDay(assignment.shift, day, timeZone);
+        }).length;
+    }
+
+    private async refreshTimesheets(
+        leaveRequest: LeaveRequestWithDetails,
+        scope: DataScope,
+        correlationId?: string
+    ): Promise<void> {
+        await this.timesheetService.refreshRange(
+            leaveRequest.employeeId,
+            AttendanceDayUtil.fromDateKey(this.leaveRepository.toDateKey(leaveRequest.startDate)),
+            AttendanceDayUtil.fromDateKey(this.leaveRepository.toDateKey(leaveRequest.endDate)),
+            scope,
+            correlationId
+        );
+    }
+
+    private toBalanceResponse(
+        leaveType: LeaveType,
+        balance: LeaveBalance,
+        timeZone?: string,
+        pendingDays = 0
+    ): LeaveBalanceResponseDto {
+        const tracked = LeaveUtil.isTracked(leaveType);
+        const accruedDays = LeaveUtil.getAccruedDays(leaveType, balance.year, new Date(), timeZone);
+
+        return {
+            employeeId: balance.employeeId,
+            leaveTypeId: leaveType.id,
+            leaveTypeName: leaveType.name,
+            year: balance.year,
+            tracked,
+            accruedDays,
+            carriedOverDays: balance.carriedOverDays,
+            adjustmentDays: balance.adjustmentDays,
+            usedDays: balance.usedDays,
+            pendingDays,
+            availableDays: tracked
+                ? LeaveUtil.getAvailableDays(accruedDays, balance, pendingDays)
+                : 0,
+        };
+    }
+
+    /**
+     * Take the calendar date of a YYYY-MM-DD or ISO date string
+     */
+    private toDateKey(date: string): string {
+        return date.slice(0, 10);
+    }
+}
@@ -0,0 +1,148 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { MqttChannel } from '@prisma/client';
+import { MqttChannelService } from './mqtt-channel.service';
+import { CreateMqttChannelDto, MqttChannelResponseDto, UpdateMqttChannelDto } from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('MQTT Channels')
+@ApiBearerAuth()
+@Controller('mqtt-channels')
+export class MqttChannelController {
+    constructor(private readonly channelService: MqttChannelService) {}
+
+    @Post()
+    @Permissions('device:mqtt:manage')
+    @ApiOperation({ summary: 'Add the MQTT topics devices of the organization publish events to' })
+    @ApiBody({ type: CreateMqttChannelDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The MQTT channel has been successfully created.',
+        type: MqttChannelResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid topic pattern.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'An MQTT channel with this name already exists.' })
+    async createChannel(
+        @Body() createChannelDto: CreateMqttChannelDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<MqttChannelResponseDto> {
+        const channel = await this.channelService.createChannel(createChannelDto, scope, user.sub);
+
+        return this.toResponse(channel);
+    }
+
+    @Get()
+    @Permissions('device:mqtt:manage')
+    @ApiOperation({ summary: "Get the organization's MQTT channels" })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of MQTT channels.',
+        type: [MqttChannelResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getChannels(@Scope() scope: DataScope): Promise<MqttChannelResponseDto[]> {
+        const channels = await this.channelService.getChannels(scope);
+
+        return channels.map(channel => this.toResponse(channel));
+    }
+
+    @Get(':id')
+    @Permissions('device:mqtt:manage')
+    @ApiOperation({ summary: 'Get a specific MQTT channel by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the MQTT channel' })
+    @ApiResponse({
+        status: 200,
+        description: 'The MQTT channel details.',
+        type: MqttChannelResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'MQTT channel not found.' })
+    async getChannelById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<MqttChannelResponseDto> {
+        const channel = await this.channelService.getChannelById(id, scope);
+
+        return this.toResponse(channel);
+    }
+
+    @Patch(':id')
+    @Permissions('device:mqtt:manage')
+    @ApiOperation({ summary: 'Update an MQTT channel' })
+    @ApiParam({ name: 'id', description: 'ID of the MQTT channel' })
+    @ApiBody({ type: UpdateMqttChannelDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The MQTT channel has been successfully updated.',
+        type: MqttChannelResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid topic pattern.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'MQTT channel not found.' })
+    @ApiResponse({ status: 409, description: 'An MQTT channel with this name already exists.' })
+    async updateChannel(
+        @Param('id') id: string,
+        @Body() updateChannelDto: UpdateMqttChannelDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<MqttChannelResponseDto> {
+        const channel = await this.channelService.updateChannel(
+            id,
+            updateChannelDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(channel);
+    }
+
+    @Delete(':id')
+    @Permissions('device:mqtt:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete an MQTT channel' })
+    @ApiParam({ name: 'id', description: 'ID of the MQTT channel' })
+    @ApiResponse({ status: 204, description: 'The MQTT channel has been successfully deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'MQTT channel not found.' })
+    async deleteChannel(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.channelService.deleteChannel(id, scope, user.sub);
+    }
+
+    private toResponse(channel: MqttChannel): MqttChannelResponseDto {
+        return {
+            id: channel.id,
+            organizationId: channel.organizationId,
+            name: channel.name,
+            eventTopicPattern: channel.eventTopicPattern,
+            commandTopicPattern: channel.commandTopicPattern || undefined,
+            qos: channel.qos,
+            isEnabled: channel.isEnabled,
+            createdAt: channel.createdAt,
+            updatedAt: channel.updatedAt,
+        };
+    }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MqttChannelController } from './mqtt-channel.controller';
+import { MqttChannelService } from './mqtt-channel.service';
+import { MqttChannelRepository } from './mqtt-channel.repository';
+import { MqttIngestionService } from './mqtt-ingestion.service';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { CacheModule } from '@/core/cache/cache.module';
+import { ConfigModule } from '@/core/config/config.module';
+import { MqttModule } from '@/core/mqtt/mqtt.module';
+import { AdapterModule } from '@/shared/adapters/adapter.module';
+import { DeviceModule } from '../device/device.module';
+import { EventModule } from '../events/event.module';
+
+@Module({
+    imports: [
+        DatabaseModule,
+        LoggerModule,
+        CacheModule,
+        ConfigModule,
+        MqttModule,
+        AdapterModule,
+        DeviceModule,
+        EventModule,
+    ],
+    controllers: [MqttChannelController],
+    providers: [MqttChannelService, MqttChannelRepository, MqttIngestionService],
+})
+export class MqttChannelModule {}
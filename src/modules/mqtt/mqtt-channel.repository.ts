@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { Device, MqttChannel } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+export interface MqttChannelData {
+    name?: string;
+    eventTopicPattern?: string;
+    commandTopicPattern?: string | null;
+    qos?: number;
+    isEnabled?: boolean;
+}
+
+export type MqttChannelDevice = Pick<
+    Device,
+    | 'id'
+    | 'organizationId'
+    | 'branchId'
+    | 'isActive'
+    | 'encryptedSigningKey'
+    | 'previousEncryptedSigningKey'
+    | 'previousSecretExpiresAt'
+>;
+
+@Injectable()
+export class MqttChannelRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: MqttChannelData & { name: string; eventTopicPattern: string },
+        scope: DataScope
+    ): Promise<MqttChannel> {
+        return this.prisma.mqttChannel.create({
+            data: { ...data, organizationId: scope.organizationId },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<MqttChannel | null> {
+        return this.prisma.mqttChannel.findFirst({
+            where: { id, ...QueryBuilder.buildOrganizationScope(scope) },
+        });
+    }
+
+    async findMany(scope: DataScope): Promise<MqttChannel[]> {
+        return this.prisma.mqttChannel.findMany({
+            where: QueryBuilder.buildOrganizationScope(scope),
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    /**
+     * The channels of every organization the subscriber listens on
+     */
+    async findAllEnabled(): Promise<MqttChannel[]> {
+        return this.prisma.mqttChannel.findMany({
+            where: { isEnabled: true },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    async update(id: string, data: MqttChannelData): Promise<MqttChannel> {
+        return this.prisma.mqttChannel.update({ where: { id }, data });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.mqttChannel.delete({ where: { id } });
+    }
+
+    /**
+     * A device of the organization, by ID, identifier or MAC address as devices name themselves
+     * in their topics
+     */
+    async findDevice(
+        organizationId: string,
+        identifier: string
+    ): Promise<MqttChannelDevice | null> {
+        return this.prisma.device.findFirst({
+            where: {
+                organizationId,
+                OR: [
+                    { id: identifier },
+                    { deviceIdentifier: identifier },
+                    { macAddress: identifier },
+                ],
+            },
+            select: {
+                id: true,
+                organizationId: true,
+                branchId: true,
+                isActive: true,
+                encryptedSigningKey: true,
+                previousEncryptedSigningKey: true,
+                previousSecretExpiresAt: true,
+            },
+        });
+    }
+}
@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { MqttChannelService } from './mqtt-channel.service';
+import { MqttChannelRepository } from './mqtt-channel.repository';
+import { MqttIngestionService } from './mqtt-ingestion.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('MqttChannelService', () => {
+    let service: MqttChannelService;
+    let channelRepository: jest.Mocked<MqttChannelRepository>;
+    let ingestionService: jest.Mocked<MqttIngestionService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const mockChannel = {
+        id: 'channel-123',
+        organizationId: 'org-123',
+        name: 'Turnstiles',
+        eventTopicPattern: 'acme/+/{deviceId}/events',
+        commandTopicPattern: 'acme/devices/{deviceId}/commands',
+        qos: 1,
+        isEnabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(async () => {
+        const mockChannelRepository = {
+            create: jest.fn().mockResolvedValue(mockChannel),
+            findById: jest.fn().mockResolvedValue(mockChannel),
+            findMany: jest.fn().mockResolvedValue([mockChannel]),
+            update: jest.fn().mockResolvedValue(mockChannel),
+            delete: jest.fn(),
+        };
+
+        const mockIngestionService = {
+            syncChannels: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                MqttChannelService,
+                {
+                    provide: MqttChannelRepository,
+                    useValue: mockChannelRepository,
+                },
+                {
+                    provide: MqttIngestionService,
+                    useValue: mockIngestionService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<MqttChannelService>(MqttChannelService);
+        channelRepository = module.get(MqttChannelRepository);
+        ingestionService = module.get(MqttIngestionService);
+        loggerService = module.get(LoggerService);
+    });
+
+    describe('createChannel', () => {
+        const createChannelDto = {
+            name: 'Turnstiles',
+            eventTopicPattern: 'acme/+/{deviceId}/events',
+            commandTopicPattern: 'acme/devices/{deviceId}/commands',
+        };
+
+        it('should create the channel and subscribe to it', async () => {
+            const result = await service.createChannel(createChannelDto, mockScope, 'user-123');
+
+            expect(result).toEqual(mockChannel);
+            expect(channelRepository.create).toHaveBeenCalledWith(createChannelDto, mockScope);
+            expect(ingestionService.syncChannels).toHaveBeenCalled();
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'MQTT_CHANNEL_CREATED',
+                expect.objectContaining({ channelId: 'channel-123' }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should reject patterns without the device ID', async () => {
+            await expect(
+                service.createChannel(
+                    { ...createChannelDto, eventTopicPattern: 'acme/events' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            expect(channelRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject wildcards in the command pattern', async () => {
+            await expect(
+                service.createChannel(
+                    { ...createChannelDto, commandTopicPattern: 'acme/+/{deviceId}' },
+                    mockScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw ConflictException for a duplicate name', async () => {
+            channelRepository.create.mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+                    code: 'P2002',
+                    clientVersion: '5.0.0',
+                })
+            );
+
+            await expect(
+                service.createChannel(createChannelDto, mockScope, 'user-123')
+            ).rejects.toThrow(ConflictException);
+            expect(ingestionService.syncChannels).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateChannel', () => {
+        it('should update the channel and resync the subscriptions', async () => {
+            await service.updateChannel('channel-123', { isEnabled: false }, mockScope, 'user-123');
+
+            expect(channelRepository.update).toHaveBeenCalledWith('channel-123', {
+                isEnabled: false,
+            });
+            expect(ingestionService.syncChannels).toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for a channel of another organization', async () => {
+            channelRepository.findById.mockResolvedValue(null);
+
+            await expect(
+                service.updateChannel('channel-123', { isEnabled: false }, mockScope, 'user-123')
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('deleteChannel', () => {
+        it('should delete the channel and unsubscribe from it', async () => {
+            await service.deleteChannel('channel-123', mockScope, 'user-123');
+
+            expect(channelRepository.delete).toHaveBeenCalledWith('channel-123');
+            expect(ingestionService.syncChannels).toHaveBeenCalled();
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'MQTT_CHANNEL_DELETED',
+                expect.objectContaining({ channelId: 'channel-123' }),
+                'org-123',
+                undefined
+            );
+        });
+    });
+});
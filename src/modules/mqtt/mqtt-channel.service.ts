@@ -0,0 +1,162 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { MqttChannel } from '@prisma/client';
+import { MqttChannelRepository } from './mqtt-channel.repository';
+import { MqttIngestionService } from './mqtt-ingestion.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { CreateMqttChannelDto, UpdateMqttChannelDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil, MqttTopicUtil } from '@/shared/utils';
+
+@Injectable()
+export class MqttChannelService {
+    constructor(
+        private readonly channelRepository: MqttChannelRepository,
+        private readonly ingestionService: MqttIngestionService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Create a channel; its event topic is subscribed to right away
+     */
+    async createChannel(
+        createChannelDto: CreateMqttChannelDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<MqttChannel> {
+        this.validatePatterns(createChannelDto);
+
+        try {
+            const channel = await this.channelRepository.create(createChannelDto, scope);
+
+            this.logger.logUserAction(
+                createdByUserId,
+                'MQTT_CHANNEL_CREATED',
+                {
+                    channelId: channel.id,
+                    name: channel.name,
+                    eventTopicPattern: channel.eventTopicPattern,
+                    commandTopicPattern: channel.commandTopicPattern,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            await this.ingestionService.syncChannels();
+
+            return channel;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An MQTT channel with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get the organization's channels
+     */
+    async getChannels(scope: DataScope): Promise<MqttChannel[]> {
+        return this.channelRepository.findMany(scope);
+    }
+
+    /**
+     * Get channel by ID
+     */
+    async getChannelById(id: string, scope: DataScope): Promise<MqttChannel> {
+        const channel = await this.channelRepository.findById(id, scope);
+        if (!channel) {
+            throw new NotFoundException('MQTT channel not found');
+        }
+
+        return channel;
+    }
+
+    /**
+     * Update channel
+     */
+    async updateChannel(
+        id: string,
+        updateChannelDto: UpdateMqttChannelDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<MqttChannel> {
+        const existingChannel = await this.getChannelById(id, scope);
+        this.validatePatterns(updateChannelDto);
+
+        try {
+            const updatedChannel = await this.channelRepository.update(id, updateChannelDto);
+
+            this.logger.logUserAction(
+                updatedByUserId,
+                'MQTT_CHANNEL_UPDATED',
+                {
+                    channelId: id,
+                    changes: updateChannelDto,
+                    oldName: existingChannel.name,
+                    newName: updatedChannel.name,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            await this.ingestionService.syncChannels();
+
+            return updatedChannel;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An MQTT channel with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Delete channel; devices publishing on its topic are no longer heard
+     */
+    async deleteChannel(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const existingChannel = await this.getChannelById(id, scope);
+
+        await this.channelRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'MQTT_CHANNEL_DELETED',
+            {
+                channelId: id,
+                name: existingChannel.name,
+                eventTopicPattern: existingChannel.eventTopicPattern,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.ingestionService.syncChannels();
+    }
+
+    private validatePatterns(dto: UpdateMqttChannelDto): void {
+        const eventError =
+            dto.eventTopicPattern && MqttTopicUtil.validatePattern(dto.eventTopicPattern, true);
+        if (eventError) {
+            throw new BadRequestException(`Event topic pattern ${eventError}`);
+        }
+
+        const commandError =
+            dto.commandTopicPattern &&
+            MqttTopicUtil.validatePattern(dto.commandTopicPattern, false);
+        if (commandError) {
+            throw new BadRequestException(`Command topic pattern ${commandError}`);
+        }
+    }
+}
@@ -0,0 +1,295 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MqttIngestionService } from './mqtt-ingestion.service';
+import { MqttChannelRepository } from './mqtt-channel.repository';
+import { EventService } from '../events/event.service';
+import { DeviceHeartbeatService } from '../device/device-heartbeat.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MqttService } from '@/core/mqtt/mqtt.service';
+import { MqttBrokerStandIn } from '@/core/mqtt/testing/mqtt-broker.stand-in';
+import { MqttDeviceAdapter } from '@/shared/adapters/implementations/mqtt-device.adapter';
+import { DeviceSignatureUtil } from '@/shared/utils';
+
+describe('MqttIngestionService', () => {
+    let broker: MqttBrokerStandIn;
+    let module: TestingModule;
+    let service: MqttIngestionService;
+    let channelRepository: jest.Mocked<MqttChannelRepository>;
+    let mqttDeviceAdapter: jest.Mocked<MqttDeviceAdapter>;
+    let eventService: jest.Mocked<EventService>;
+    let deviceHeartbeatService: jest.Mocked<DeviceHeartbeatService>;
+    let cacheService: jest.Mocked<CacheService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const encryptionKey = 'test-device-secret-encryption-key-of-32-chars';
+    const signingKey = DeviceSignatureUtil.deriveSigningKey('device-secret');
+
+    const mockChannel = {
+        id: 'channel-123',
+        organizationId: 'org-123',
+        name: 'Turnstiles',
+        eventTopicPattern: 'acme/+/{deviceId}/events',
+        commandTopicPattern: 'acme/devices/{deviceId}/commands',
+        qos: 1,
+        isEnabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        isActive: true,
+        encryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(signingKey, encryptionKey),
+        previousEncryptedSigningKey: null,
+        previousSecretExpiresAt: null,
+        configurationProfileId: null,
+        appliedConfigurationVersion: null,
+        configurationAppliedAt: null,
+    };
+
+    const topic = 'acme/hq/reader-1/events';
+
+    const envelope = (event: Record<string, any>, overrides: Record<string, any> = {}) => {
+        const timestamp = new Date().toISOString();
+        const nonce = overrides.nonce || 'nonce-1';
+        const body = JSON.stringify(event);
+        const signature = DeviceSignatureUtil.sign(
+            signingKey,
+            DeviceSignatureUtil.buildCanonicalRequest({
+                method: 'PUBLISH',
+                path: topic,
+                timestamp,
+                nonce,
+                body,
+            })
+        );
+
+        return JSON.stringify({ timestamp, nonce, signature, body, ...overrides });
+    };
+
+    const waitFor = async (check: () => boolean) => {
+        for (let attempt = 0; attempt < 200 && !check(); attempt++) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    };
+
+    beforeEach(async () => {
+        broker = new MqttBrokerStandIn();
+        await broker.start();
+
+        const mockConfigService = {
+            mqttBrokerUrl: broker.url,
+            mqttClientId: 'sector-staff-test',
+            mqttKeepAliveSeconds: 0,
+            deviceSecretEncryptionKey: encryptionKey,
+        };
+
+        const mockChannelRepository = {
+            findAllEnabled: jest.fn().mockResolvedValue([mockChannel]),
+            findDevice: jest.fn().mockResolvedValue(mockDevice),
+        };
+
+        const mockMqttDeviceAdapter = {
+            setCommandChannels: jest.fn(),
+        };
+
+        const mockEventService = {
+            processRawEvent: jest.fn().mockResolvedValue('event-123'),
+        };
+
+        const mockDeviceHeartbeatService = {
+            recordActivity: jest.fn(),
+        };
+
+        const mockCacheService = {
+            setNX: jest.fn().mockResolvedValue(true),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logSecurityEvent: jest.fn(),
+        };
+
+        module = await Test.createTestingModule({
+            providers: [
+                MqttIngestionService,
+                MqttService,
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService,
+                },
+                {
+                    provide: MqttChannelRepository,
+                    useValue: mockChannelRepository,
+                },
+                {
+                    provide: MqttDeviceAdapter,
+                    useValue: mockMqttDeviceAdapter,
+                },
+                {
+                    provide: EventService,
+                    useValue: mockEventService,
+                },
+                {
+                    provide: DeviceHeartbeatService,
+                    useValue: mockDeviceHeartbeatService,
+                },
+                {
+                    provide: CacheService,
+                    useValue: mockCacheService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+        await module.init();
+
+        service = module.get<MqttIngestionService>(MqttIngestionService);
+        channelRepository = module.get(MqttChannelRepository);
+        mqttDeviceAdapter = module.get(MqttDeviceAdapter);
+        eventService = module.get(EventService);
+        deviceHeartbeatService = module.get(DeviceHeartbeatService);
+        cacheService = module.get(CacheService);
+        loggerService = module.get(LoggerService);
+    });
+
+    afterEach(async () => {
+        await module.close();
+        await broker.stop();
+    });
+
+    describe('syncChannels', () => {
+        it('should subscribe to the event topics and set the command topics', () => {
+            expect(broker.hasSubscription('acme/+/+/events')).toBe(true);
+            expect(mqttDeviceAdapter.setCommandChannels).toHaveBeenCalledWith(
+                new Map([
+                    [
+                        'org-123',
+                        { commandTopicPattern: 'acme/devices/{deviceId}/commands', qos: 1 },
+                    ],
+                ])
+            );
+        });
+
+        it('should unsubscribe from channels that were removed', async () => {
+            channelRepository.findAllEnabled.mockResolvedValue([]);
+
+            await service.syncChannels();
+
+            expect(broker.hasSubscription('acme/+/+/events')).toBe(false);
+            expect(mqttDeviceAdapter.setCommandChannels).toHaveBeenLastCalledWith(new Map());
+        });
+    });
+
+    describe('receiving events', () => {
+        it('should process a signed event like a raw event posted over HTTP', async () => {
+            broker.publish(
+                topic,
+                envelope({ type: 'card.read', timestamp: 1792400000, pin: 1001, door: 'A' })
+            );
+            await waitFor(() => eventService.processRawEvent.mock.calls.length > 0);
+
+            expect(channelRepository.findDevice).toHaveBeenCalledWith('org-123', 'reader-1');
+            expect(deviceHeartbeatService.recordActivity).toHaveBeenCalledWith(mockDevice);
+            expect(eventService.processRawEvent).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    eventType: 'card.read',
+                    timestamp: new Date(1792400000 * 1000).toISOString(),
+                    employeeCode: '1001',
+                    additionalData: { door: 'A', protocol: 'mqtt' },
+                }),
+                'device-123',
+                'mqtt:device-123:nonce-1'
+            );
+            expect(cacheService.setNX).toHaveBeenCalledWith(
+                'device_nonce:device-123:nonce-1',
+                '1',
+                600
+            );
+        });
+
+        it('should use the idempotency key the device sent', async () => {
+            broker.publish(
+                topic,
+                envelope({ eventType: 'card.read', cardId: 'CARD-1' }, { idempotencyKey: 'evt-9' })
+            );
+            await waitFor(() => eventService.processRawEvent.mock.calls.length > 0);
+
+            expect(eventService.processRawEvent).toHaveBeenCalledWith(
+                expect.objectContaining({ eventType: 'card.read', cardId: 'CARD-1' }),
+                'device-123',
+                'evt-9'
+            );
+        });
+
+        it('should drop events with an invalid signature', async () => {
+            broker.publish(topic, envelope({ type: 'card.read' }, { signature: 'ab'.repeat(32) }));
+            await waitFor(() => loggerService.logSecurityEvent.mock.calls.length > 0);
+
+            expect(loggerService.logSecurityEvent).toHaveBeenCalledWith(
+                'MQTT_DEVICE_AUTH_FAILED',
+                expect.objectContaining({ deviceId: 'device-123', reason: 'Invalid signature' })
+            );
+            expect(eventService.processRawEvent).not.toHaveBeenCalled();
+            expect(cacheService.setNX).not.toHaveBeenCalled();
+        });
+
+        it('should drop replayed messages', async () => {
+            cacheService.setNX.mockResolvedValue(false);
+
+            broker.publish(topic, envelope({ type: 'card.read' }));
+            await waitFor(() => loggerService.logSecurityEvent.mock.calls.length > 0);
+
+            expect(loggerService.logSecurityEvent).toHaveBeenCalledWith(
+                'MQTT_DEVICE_AUTH_FAILED',
+                expect.objectContaining({ reason: 'Nonce reused' })
+            );
+            expect(eventService.processRawEvent).not.toHaveBeenCalled();
+        });
+
+        it('should drop events of devices unknown to the organization', async () => {
+            channelRepository.findDevice.mockResolvedValue(null);
+
+            broker.publish(topic, envelope({ type: 'card.read' }));
+            await waitFor(() => loggerService.logSecurityEvent.mock.calls.length > 0);
+
+            expect(loggerService.logSecurityEvent).toHaveBeenCalledWith('MQTT_UNKNOWN_DEVICE', {
+                topic,
+                module: 'mqtt',
+            });
+            expect(eventService.processRawEvent).not.toHaveBeenCalled();
+        });
+
+        it('should drop authenticated messages that are not valid events', async () => {
+            broker.publish(topic, envelope({ cardId: 'CARD-1' }));
+            await waitFor(() => loggerService.warn.mock.calls.length > 0);
+
+            expect(loggerService.warn).toHaveBeenCalledWith(
+                'Ignoring MQTT message that is not a valid event',
+                expect.objectContaining({ deviceId: 'device-123' })
+            );
+            expect(eventService.processRawEvent).not.toHaveBeenCalled();
+        });
+
+        it('should treat duplicates as handled', async () => {
+            eventService.processRawEvent.mockRejectedValue(new Error('DUPLICATE_EVENT'));
+
+            broker.publish(topic, envelope({ type: 'card.read' }));
+            await waitFor(() => loggerService.debug.mock.calls.length > 0);
+
+            expect(loggerService.debug).toHaveBeenCalledWith(
+                'Duplicate MQTT event',
+                expect.objectContaining({ idempotencyKey: 'mqtt:device-123:nonce-1' })
+            );
+            expect(loggerService.error).not.toHaveBeenCalled();
+        });
+    });
+});
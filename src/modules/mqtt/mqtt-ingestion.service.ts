@@ -0,0 +1,307 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { MqttChannel } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { MqttChannelDevice, MqttChannelRepository } from './mqtt-channel.repository';
+import { EventService } from '../events/event.service';
+import { DeviceHeartbeatService } from '../device/device-heartbeat.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { ConfigService } from '@/core/config/config.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MqttQos, MqttService } from '@/core/mqtt/mqtt.service';
+import {
+    MqttCommandChannel,
+    MqttDeviceAdapter,
+} from '@/shared/adapters/implementations/mqtt-device.adapter';
+import { CreateRawEventDto } from '@/shared/dto';
+import { DEVICE_REQUEST_TOLERANCE_MS, DeviceSignatureUtil, MqttTopicUtil } from '@/shared/utils';
+
+/** How often channel changes made by other instances are picked up */
+const CHANNEL_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/** Fields of an event message that map onto the raw event, the rest is additional data */
+const EVENT_FIELDS = ['employeeId', 'employeeCode', 'cardId', 'biometricData', 'guestCredential'];
+
+/**
+ * A message as devices publish it: the event JSON as a string, signed like an HTTP request
+ * to the topic (method PUBLISH, path the topic) with the device's secret
+ */
+export interface MqttEventEnvelope {
+    timestamp: string;
+    nonce: string;
+    signature: string;
+    body: string;
+    idempotencyKey?: string;
+}
+
+/**
+ * Subscribes to the event topics of every enabled MQTT channel and feeds the events devices
+ * publish into the event pipeline, as POST /events/raw does. Every authenticated message
+ * counts as a heartbeat.
+ */
+@Injectable()
+export class MqttIngestionService implements OnApplicationBootstrap, OnModuleDestroy {
+    /** Subscribed filters and the channels listening on each */
+    private subscriptions = new Map<string, MqttChannel[]>();
+    private refreshTimer: NodeJS.Timeout | null = null;
+    private syncing: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly channelRepository: MqttChannelRepository,
+        private readonly mqttService: MqttService,
+        private readonly mqttDeviceAdapter: MqttDeviceAdapter,
+        private readonly eventService: EventService,
+        private readonly deviceHeartbeatService: DeviceHeartbeatService,
+        private readonly cacheService: CacheService,
+        private readonly configService: ConfigService,
+        private readonly logger: LoggerService
+    ) {}
+
+    async onApplicationBootstrap(): Promise<void> {
+        if (!this.mqttService.isEnabled) {
+            return;
+        }
+
+        await this.syncChannels();
+
+        this.refreshTimer = setInterval(() => {
+            this.syncChannels().catch(error =>
+                this.logger.error('Failed to refresh MQTT channels', error, { module: 'mqtt' })
+            );
+        }, CHANNEL_REFRESH_INTERVAL_MS);
+        this.refreshTimer.unref();
+    }
+
+    onModuleDestroy(): void {
+        clearInterval(this.refreshTimer);
+    }
+
+    /**
+     * Bring the subscriptions and command topics in line with the enabled channels
+     */
+    async syncChannels(): Promise<void> {
+        if (!this.mqttService.isEnabled) {
+            return;
+        }
+
+        // Concurrent changes are applied one after the other
+        this.syncing = this.syncing.catch(() => undefined).then(() => this.applyChannels());
+
+        return this.syncing;
+    }
+
+    /**
+     * Handle a message on a subscribed filter; the device is looked up in the organizations
+     * of the channels listening on it
+     */
+    private async receive(filter: string, topic: string, payload: Buffer): Promise<void> {
+        const channels = this.subscriptions.get(filter) || [];
+
+        for (const channel of channels) {
+            const identifier = MqttTopicUtil.extractDeviceId(channel.eventTopicPattern, topic);
+            const device = identifier
+                ? await this.channelRepository.findDevice(channel.organizationId, identifier)
+                : null;
+
+            if (device) {
+                return this.receiveFromDevice(device, topic, payload);
+            }
+        }
+
+        this.logger.logSecurityEvent('MQTT_UNKNOWN_DEVICE', { topic, module: 'mqtt' });
+    }
+
+    private async applyChannels(): Promise<void> {
+        const channels = await this.channelRepository.findAllEnabled();
+
+        const subscriptions = new Map<string, MqttChannel[]>();
+        const commandChannels = new Map<string, MqttCommandChannel>();
+        for (const channel of channels) {
+            const filter = MqttTopicUtil.toFilter(channel.eventTopicPattern);
+            subscriptions.set(filter, [...(subscriptions.get(filter) || []), channel]);
+
+            // One command topic per organization, the oldest channel's
+            if (channel.commandTopicPattern && !commandChannels.has(channel.organizationId)) {
+                commandChannels.set(channel.organizationId, {
+                    commandTopicPattern: channel.commandTopicPattern,
+                    qos: channel.qos as MqttQos,
+                });
+            }
+        }
+
+        for (const filter of this.subscriptions.keys()) {
+            if (!subscriptions.has(filter)) {
+                await this.mqttService.unsubscribe(filter);
+            }
+        }
+        for (const [filter, filterChannels] of subscriptions) {
+            const qos = Math.max(...filterChannels.map(channel => channel.qos)) as MqttQos;
+            const current = this.subscriptions.get(filter);
+            if (!current || Math.max(...current.map(channel => channel.qos)) !== qos) {
+                await this.mqttService.subscribe(filter, qos, (topic, payload) =>
+                    this.receive(filter, topic, payload)
+                );
+            }
+        }
+
+        this.subscriptions = subscriptions;
+        this.mqttDeviceAdapter.setCommandChannels(commandChannels);
+    }
+
+    private async receiveFromDevice(
+        device: MqttChannelDevice,
+        topic: string,
+        payload: Buffer
+    ): Promise<void> {
+        const envelope = this.parseEnvelope(payload);
+        if (!envelope) {
+            this.logger.warn('Ignoring malformed MQTT message', {
+                deviceId: device.id,
+                topic,
+                module: 'mqtt',
+            });
+            return;
+        }
+
+        const failure = await this.authenticate(device, topic, envelope);
+        if (failure) {
+            this.logger.logSecurityEvent('MQTT_DEVICE_AUTH_FAILED', {
+                deviceId: device.id,
+                topic,
+                reason: failure,
+                module: 'mqtt',
+            });
+            return;
+        }
+
+        await this.deviceHeartbeatService.recordActivity(device);
+
+        const rawEvent = await this.toRawEvent(envelope.body);
+        if (!rawEvent) {
+            this.logger.warn('Ignoring MQTT message that is not a valid event', {
+                deviceId: device.id,
+                topic,
+                module: 'mqtt',
+            });
+            return;
+        }
+
+        const idempotencyKey = envelope.idempotencyKey || `mqtt:${device.id}:${envelope.nonce}`;
+        try {
+            await this.eventService.processRawEvent(rawEvent, device.id, idempotencyKey);
+        } catch (error) {
+            if (error.message === 'DUPLICATE_EVENT') {
+                this.logger.debug('Duplicate MQTT event', {
+                    deviceId: device.id,
+                    idempotencyKey,
+                    module: 'mqtt',
+                });
+                return;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Check the signature as DeviceAuthGuard does for HTTP; returns why it failed, if it did
+     */
+    private async authenticate(
+        device: MqttChannelDevice,
+        topic: string,
+        envelope: MqttEventEnvelope
+    ): Promise<string | null> {
+        if (!device.isActive || !device.encryptedSigningKey) {
+            return 'Device is inactive or has no secret';
+        }
+
+        const timeDiff = Math.abs(Date.now() - new Date(envelope.timestamp).getTime());
+        if (isNaN(timeDiff) || timeDiff > DEVICE_REQUEST_TOLERANCE_MS) {
+            return 'Message timestamp is too old';
+        }
+
+        const canonicalRequest = DeviceSignatureUtil.buildCanonicalRequest({
+            method: 'PUBLISH',
+            path: topic,
+            timestamp: envelope.timestamp,
+            nonce: envelope.nonce,
+            body: envelope.body,
+        });
+        if (
+            !DeviceSignatureUtil.verifyDevice(
+                device,
+                canonicalRequest,
+                envelope.signature,
+                this.configService.deviceSecretEncryptionKey
+            )
+        ) {
+            return 'Invalid signature';
+        }
+
+        // Only a correctly signed message may use up a nonce
+        const isNewNonce = await this.cacheService.setNX(
+            `device_nonce:${device.id}:${envelope.nonce}`,
+            '1',
+            (2 * DEVICE_REQUEST_TOLERANCE_MS) / 1000
+        );
+
+        return isNewNonce ? null : 'Nonce reused';
+    }
+
+    private parseEnvelope(payload: Buffer): MqttEventEnvelope | null {
+        try {
+            const envelope = JSON.parse(payload.toString('utf8'));
+            const fields = ['timestamp', 'nonce', 'signature', 'body'];
+
+            return envelope && fields.every(field => typeof envelope[field] === 'string')
+                ? envelope
+                : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Normalize the event a device published: "type" may stand for eventType, "pin" for
+     * employeeCode, timestamps may be epoch seconds or milliseconds
+     */
+    private async toRawEvent(body: string): Promise<CreateRawEventDto | null> {
+        let event: Record<string, any>;
+        try {
+            event = JSON.parse(body);
+        } catch {
+            return null;
+        }
+        if (!event || typeof event !== 'object' || Array.isArray(event)) {
+            return null;
+        }
+
+        const { eventType, type, timestamp, pin, additionalData, ...rest } = event;
+        const known = Object.fromEntries(
+            Object.entries(rest).filter(([field]) => EVENT_FIELDS.includes(field))
+        );
+        const extra = Object.fromEntries(
+            Object.entries(rest).filter(([field]) => !EVENT_FIELDS.includes(field))
+        );
+
+        const rawEvent = plainToInstance(CreateRawEventDto, {
+            ...known,
+            eventType: eventType ?? type,
+            timestamp: this.toTimestamp(timestamp),
+            employeeCode: known.employeeCode ?? (pin !== undefined ? String(pin) : undefined),
+            additionalData: { ...additionalData, ...extra, protocol: 'mqtt' },
+        });
+
+        const errors = await validate(rawEvent, { forbidUnknownValues: false });
+
+        return errors.length ? null : rawEvent;
+    }
+
+    private toTimestamp(timestamp: unknown): unknown {
+        if (typeof timestamp !== 'number') {
+            return timestamp;
+        }
+
+        // Ten digits or fewer are seconds
+        return new Date(timestamp < 1e10 ? timestamp * 1000 : timestamp).toISOString();
+    }
+}
@@ -66,6 +66,13 @@ export class OrganizationController {
             id: organization.id,
             name: organization.name,
             description: organization.description,
+            attendanceDayBoundary: organization.attendanceDayBoundary,
+            timezone: organization.timezone,
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
             createdAt: organization.createdAt,
             updatedAt: organization.updatedAt,
         };
@@ -97,6 +104,13 @@ export class OrganizationController {
             id: org.id,
             name: org.name,
             description: org.description,
+            attendanceDayBoundary: org.attendanceDayBoundary,
+            timezone: org.timezone,
+            dailyOvertimeThresholdMinutes: org.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: org.weeklyOvertimeThresholdMinutes,
+            weekStartDay: org.weekStartDay,
+            nightStartTime: org.nightStartTime,
+            nightEndTime: org.nightEndTime,
             createdAt: org.createdAt,
             updatedAt: org.updatedAt,
         }));
@@ -126,6 +140,13 @@ export class OrganizationController {
             id: org.id,
             name: org.name,
             description: org.description,
+            attendanceDayBoundary: org.attendanceDayBoundary,
+            timezone: org.timezone,
+            dailyOvertimeThresholdMinutes: org.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: org.weeklyOvertimeThresholdMinutes,
+            weekStartDay: org.weekStartDay,
+            nightStartTime: org.nightStartTime,
+            nightEndTime: org.nightEndTime,
             createdAt: org.createdAt,
             updatedAt: org.updatedAt,
         }));
@@ -165,6 +186,13 @@ export class OrganizationController {
             id: organization.id,
             name: organization.name,
             description: organization.description,
+            attendanceDayBoundary: organization.attendanceDayBoundary,
+            timezone: organization.timezone,
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
             createdAt: organization.createdAt,
             updatedAt: organization.updatedAt,
         };
@@ -203,6 +231,13 @@ export class OrganizationController {
             id: organization.id,
             name: organization.name,
             description: organization.description,
+            attendanceDayBoundary: organization.attendanceDayBoundary,
+            timezone: organization.timezone,
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
             createdAt: organization.createdAt,
             updatedAt: organization.updatedAt,
         };
@@ -247,6 +282,13 @@ export class OrganizationController {
             id: organization.id,
             name: organization.name,
             description: organization.description,
+            attendanceDayBoundary: organization.attendanceDayBoundary,
+            timezone: organization.timezone,
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
             createdAt: organization.createdAt,
             updatedAt: organization.updatedAt,
         };
@@ -281,6 +323,13 @@ export class OrganizationController {
             id: organization.id,
             name: organization.name,
             description: organization.description,
+            attendanceDayBoundary: organization.attendanceDayBoundary,
+            timezone: organization.timezone,
+            dailyOvertimeThresholdMinutes: organization.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organization.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organization.weekStartDay,
+            nightStartTime: organization.nightStartTime,
+            nightEndTime: organization.nightEndTime,
             createdAt: organization.createdAt,
             updatedAt: organization.updatedAt,
         };
@@ -21,6 +21,25 @@ export class OrganizationRepository {
         });
     }
 
+    /**
+     * Get the settings that decide how attendance days are computed
+     */
+    async findAttendanceSettings(id: string) {
+        return this.prisma.organization.findUnique({
+            where: { id },
+            select: {
+                attendanceDayBoundary: true,
+                timezone: true,
+                dailyOvertimeThresholdMinutes: true,
+                weeklyOvertimeThresholdMinutes: true,
+                weekStartDay: true,
+                nightStartTime: true,
+                nightEndTime: true,
+                branches: { select: { id: true, timezone: true } },
+            },
+        });
+    }
+
     async findByName(name: string): Promise<Organization | null> {
         return this.prisma.organization.findUnique({
             where: { name },
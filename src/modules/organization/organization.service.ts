@@ -60,6 +60,20 @@ export class OrganizationService {
         return this.organizationRepository.findById(id);
     }
 
+    /**
+     * Get the time zone that applies to a branch, or to the organization when none is given.
+     * Returns undefined when the organization does not exist.
+     */
+    async getTimeZone(organizationId: string, branchId?: string): Promise<string | undefined> {
+        const settings = await this.organizationRepository.findAttendanceSettings(organizationId);
+        if (!settings) {
+            return undefined;
+        }
+
+        const branch = branchId && settings.branches.find(b => b.id === branchId);
+        return (branch && branch.timezone) || settings.timezone;
+    }
+
     /**
      * Get organization by name
      */
@@ -153,6 +167,13 @@ export class OrganizationService {
             id: organizationWithStats.id,
             name: organizationWithStats.name,
             description: organizationWithStats.description,
+            attendanceDayBoundary: organizationWithStats.attendanceDayBoundary,
+            timezone: organizationWithStats.timezone,
+            dailyOvertimeThresholdMinutes: organizationWithStats.dailyOvertimeThresholdMinutes,
+            weeklyOvertimeThresholdMinutes: organizationWithStats.weeklyOvertimeThresholdMinutes,
+            weekStartDay: organizationWithStats.weekStartDay,
+            nightStartTime: organizationWithStats.nightStartTime,
+            nightEndTime: organizationWithStats.nightEndTime,
             createdAt: organizationWithStats.createdAt,
             updatedAt: organizationWithStats.updatedAt,
             statistics: {
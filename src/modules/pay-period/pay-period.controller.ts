@@ -0,0 +1,156 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { PayPeriod, Role } from '@prisma/client';
+import { PayPeriodService } from './pay-period.service';
+import {
+    CreatePayPeriodDto,
+    PayPeriodFiltersDto,
+    PayPeriodResponseDto,
+    ReopenPayPeriodDto,
+} from '@/shared/dto';
+import { Permissions, Roles, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Pay Periods')
+@ApiBearerAuth()
+@Controller('pay-periods')
+export class PayPeriodController {
+    constructor(private readonly payPeriodService: PayPeriodService) {}
+
+    @Post()
+    @Permissions('payroll:period:manage')
+    @ApiOperation({ summary: 'Open a pay period' })
+    @ApiBody({ type: CreatePayPeriodDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The pay period has been successfully created.',
+        type: PayPeriodResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'The period overlaps another pay period.' })
+    async createPeriod(
+        @Body() createPeriodDto: CreatePayPeriodDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<PayPeriodResponseDto> {
+        const period = await this.payPeriodService.createPeriod(createPeriodDto, scope, user.sub);
+
+        return this.toResponse(period);
+    }
+
+    @Get()
+    @Permissions('payroll:period:read')
+    @ApiOperation({ summary: 'Get the pay periods of the organization, latest first' })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of pay periods.',
+        type: [PayPeriodResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getPeriods(
+        @Query() filtersDto: PayPeriodFiltersDto,
+        @Scope() scope: DataScope
+    ): Promise<PayPeriodResponseDto[]> {
+        const periods = await this.payPeriodService.getPeriods(filtersDto, scope);
+
+        return periods.map(period => this.toResponse(period));
+    }
+
+    @Get(':id')
+    @Permissions('payroll:period:read')
+    @ApiOperation({ summary: 'Get a specific pay period by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the pay period' })
+    @ApiResponse({
+        status: 200,
+        description: 'The pay period details.',
+        type: PayPeriodResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Pay period not found.' })
+    async getPeriodById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<PayPeriodResponseDto> {
+        const period = await this.payPeriodService.getPeriodById(id, scope);
+
+        return this.toResponse(period);
+    }
+
+    @Post(':id/lock')
+    @Permissions('payroll:period:manage')
+    @ApiOperation({ summary: 'Lock a pay period, freezing the attendance inside it' })
+    @ApiParam({ name: 'id', description: 'ID of the pay period' })
+    @ApiResponse({
+        status: 201,
+        description: 'The pay period has been locked.',
+        type: PayPeriodResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'The pay period is already locked.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Pay period not found.' })
+    async lockPeriod(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<PayPeriodResponseDto> {
+        const period = await this.payPeriodService.lockPeriod(id, scope, user.sub);
+
+        return this.toResponse(period);
+    }
+
+    @Post(':id/reopen')
+    @Permissions('payroll:period:reopen')
+    @Roles(Role.ORG_ADMIN)
+    @ApiOperation({ summary: 'Reopen a locked pay period (Org Admin)' })
+    @ApiParam({ name: 'id', description: 'ID of the pay period' })
+    @ApiBody({ type: ReopenPayPeriodDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The pay period has been reopened.',
+        type: PayPeriodResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Only locked pay periods can be reopened.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Pay period not found.' })
+    async reopenPeriod(
+        @Param('id') id: string,
+        @Body() reopenPeriodDto: ReopenPayPeriodDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<PayPeriodResponseDto> {
+        const period = await this.payPeriodService.reopenPeriod(
+            id,
+            reopenPeriodDto.reason,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(period);
+    }
+
+    private toResponse(period: PayPeriod): PayPeriodResponseDto {
+        return {
+            id: period.id,
+            organizationId: period.organizationId,
+            name: period.name,
+            startDate: period.startDate.toISOString().slice(0, 10),
+            endDate: period.endDate.toISOString().slice(0, 10),
+            status: period.status,
+            lockedByUserId: period.lockedByUserId,
+            lockedAt: period.lockedAt,
+            reopenedByUserId: period.reopenedByUserId,
+            reopenedAt: period.reopenedAt,
+            reopenReason: period.reopenReason,
+            createdAt: period.createdAt,
+            updatedAt: period.updatedAt,
+        };
+    }
+}
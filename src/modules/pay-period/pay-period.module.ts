@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PayPeriodController } from './pay-period.controller';
+import { PayPeriodService } from './pay-period.service';
+import { PayPeriodRepository } from './pay-period.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { AuditModule } from '@/modules/audit/audit.module';
+import { OrganizationModule } from '@/modules/organization/organization.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, AuditModule, OrganizationModule],
+    controllers: [PayPeriodController],
+    providers: [PayPeriodService, PayPeriodRepository],
+    exports: [PayPeriodService],
+})
+export class PayPeriodModule {}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { PayPeriod, PayPeriodStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+@Injectable()
+export class PayPeriodRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: { name: string; startDate: string; endDate: string },
+        scope: DataScope
+    ): Promise<PayPeriod> {
+        return this.prisma.payPeriod.create({
+            data: {
+                name: data.name,
+                organizationId: scope.organizationId,
+                startDate: this.toDate(data.startDate),
+                endDate: this.toDate(data.endDate),
+            },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<PayPeriod | null> {
+        return this.prisma.payPeriod.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+        });
+    }
+
+    async findMany(filters: { status?: PayPeriodStatus }, scope: DataScope): Promise<PayPeriod[]> {
+        const where: Prisma.PayPeriodWhereInput = {
+            ...QueryBuilder.buildOrganizationScope(scope),
+        };
+
+        if (filters.status) {
+            where.status = filters.status;
+        }
+
+        return this.prisma.payPeriod.findMany({
+            where,
+            orderBy: { startDate: 'desc' },
+        });
+    }
+
+    /**
+     * Find the periods sharing at least one day with the given days, optionally only those in
+     * the given status
+     */
+    async findOverlapping(
+        startDate: string,
+        endDate: string,
+        scope: DataScope,
+        status?: PayPeriodStatus
+    ): Promise<PayPeriod[]> {
+        return this.prisma.payPeriod.findMany({
+            where: {
+                ...QueryBuilder.buildOrganizationScope(scope),
+                startDate: { lte: this.toDate(endDate) },
+                endDate: { gte: this.toDate(startDate) },
+                ...(status && { status }),
+            },
+            orderBy: { startDate: 'asc' },
+        });
+    }
+
+    async lock(id: string, lockedByUserId: string): Promise<PayPeriod> {
+        return this.prisma.payPeriod.update({
+            where: { id },
+            data: {
+                status: 'LOCKED',
+                lockedByUserId,
+                lockedAt: new Date(),
+            },
+        });
+    }
+
+    async reopen(id: string, reopenedByUserId: string, reason: string): Promise<PayPeriod> {
+        return this.prisma.payPeriod.update({
+            where: { id },
+            data: {
+                status: 'REOPENED',
+                reopenedByUserId,
+                reopenedAt: new Date(),
+                reopenReason: reason,
+            },
+        });
+    }
+
+    /**
+     * Get the YYYY-MM-DD key a stored period date stands for
+     */
+    toDateKey(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    private toDate(dateKey: string): Date {
+        return new Date(`${dateKey}T00:00:00.000Z`);
+    }
+}
@@ -0,0 +1,288 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PayPeriodService } from './pay-period.service';
+import { PayPeriodRepository } from './pay-period.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { OrganizationRepository } from '@/modules/organization/organization.repository';
+import { AuditLogService } from '@/shared/services/audit-log.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('PayPeriodService', () => {
+    let service: PayPeriodService;
+    let payPeriodRepository: jest.Mocked<PayPeriodRepository>;
+    let organizationRepository: jest.Mocked<OrganizationRepository>;
+    let auditLogService: jest.Mocked<AuditLogService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const mockPeriod = {
+        id: 'period-123',
+        organizationId: 'org-123',
+        name: 'October 2026',
+        startDate: new Date('2026-10-01T00:00:00.000Z'),
+        endDate: new Date('2026-10-31T00:00:00.000Z'),
+        status: 'OPEN' as const,
+        lockedByUserId: null,
+        lockedAt: null,
+        reopenedByUserId: null,
+        reopenedAt: null,
+        reopenReason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const lockedPeriod = {
+        ...mockPeriod,
+        status: 'LOCKED' as const,
+        lockedByUserId: 'user-123',
+        lockedAt: new Date('2026-11-02T10:00:00.000Z'),
+    };
+
+    beforeEach(async () => {
+        const mockPayPeriodRepository = {
+            create: jest.fn().mockResolvedValue(mockPeriod),
+            findById: jest.fn().mockResolvedValue(mockPeriod),
+            findMany: jest.fn().mockResolvedValue([mockPeriod]),
+            findOverlapping: jest.fn().mockResolvedValue([]),
+            lock: jest.fn().mockResolvedValue(lockedPeriod),
+            reopen: jest.fn(),
+            toDateKey: jest.fn((date: Date) => date.toISOString().slice(0, 10)),
+        };
+
+        const mockOrganizationRepository = {
+            findAttendanceSettings: jest.fn().mockResolvedValue({
+                attendanceDayBoundary: '00:00',
+                timezone: 'UTC',
+                branches: [{ id: 'branch-123', timezone: 'Asia/Tashkent' }],
+            }),
+        };
+
+        const mockAuditLogService = {
+            createAuditLog: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PayPeriodService,
+                {
+                    provide: PayPeriodRepository,
+                    useValue: mockPayPeriodRepository,
+                },
+                {
+                    provide: OrganizationRepository,
+                    useValue: mockOrganizationRepository,
+                },
+                {
+                    provide: AuditLogService,
+                    useValue: mockAuditLogService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<PayPeriodService>(PayPeriodService);
+        payPeriodRepository = module.get(PayPeriodRepository);
+        organizationRepository = module.get(OrganizationRepository);
+        auditLogService = module.get(AuditLogService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createPeriod', () => {
+        it('should open a pay period', async () => {
+            const result = await service.createPeriod(
+                { name: 'October 2026', startDate: '2026-10-01', endDate: '2026-10-31' },
+                mockDataScope,
+                'user-123'
+            );
+
+            expect(result).toEqual(mockPeriod);
+            expect(payPeriodRepository.create).toHaveBeenCalledWith(
+                { name: 'October 2026', startDate: '2026-10-01', endDate: '2026-10-31' },
+                mockDataScope
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'PAY_PERIOD_CREATED',
+                expect.objectContaining({ payPeriodId: 'period-123' }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should not overlap another period', async () => {
+            payPeriodRepository.findOverlapping.mockResolvedValue([mockPeriod]);
+
+            await expect(
+                service.createPeriod(
+                    { name: 'Late October', startDate: '2026-10-16', endDate: '2026-11-15' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(ConflictException);
+            expect(payPeriodRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should not end before it starts', async () => {
+            await expect(
+                service.createPeriod(
+                    { name: 'October 2026', startDate: '2026-10-31', endDate: '2026-10-01' },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('lockPeriod', () => {
+        it('should lock the period and write an audit log', async () => {
+            const result = await service.lockPeriod('period-123', mockDataScope, 'user-123');
+
+            expect(result.status).toBe('LOCKED');
+            expect(payPeriodRepository.lock).toHaveBeenCalledWith('period-123', 'user-123');
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'LOCK',
+                    resource: 'pay_period',
+                    resourceId: 'period-123',
+                    userId: 'user-123',
+                    organizationId: 'org-123',
+                })
+            );
+        });
+
+        it('should not lock a locked period again', async () => {
+            payPeriodRepository.findById.mockResolvedValue(lockedPeriod);
+
+            await expect(
+                service.lockPeriod('period-123', mockDataScope, 'user-123')
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('reopenPeriod', () => {
+        it('should record the reason in the audit log', async () => {
+            payPeriodRepository.findById.mockResolvedValue(lockedPeriod);
+            payPeriodRepository.reopen.mockResolvedValue({
+                ...lockedPeriod,
+                status: 'REOPENED',
+                reopenedByUserId: 'user-admin',
+                reopenedAt: new Date(),
+                reopenReason: 'Missing overtime',
+            });
+
+            const result = await service.reopenPeriod(
+                'period-123',
+                'Missing overtime',
+                mockDataScope,
+                'user-admin',
+                'corr-123'
+            );
+
+            expect(result.status).toBe('REOPENED');
+            expect(payPeriodRepository.reopen).toHaveBeenCalledWith(
+                'period-123',
+                'user-admin',
+                'Missing overtime'
+            );
+            expect(auditLogService.createAuditLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    action: 'REOPEN',
+                    resourceId: 'period-123',
+                    userId: 'user-admin',
+                    oldValues: expect.objectContaining({ status: 'LOCKED' }),
+                    newValues: expect.objectContaining({
+                        status: 'REOPENED',
+                        reopenReason: 'Missing overtime',
+                    }),
+                })
+            );
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-admin',
+                'PAY_PERIOD_REOPENED',
+                expect.objectContaining({ reason: 'Missing overtime' }),
+                'org-123',
+                'corr-123'
+            );
+        });
+
+        it('should only reopen locked periods', async () => {
+            await expect(
+                service.reopenPeriod('period-123', 'Typo', mockDataScope, 'user-admin')
+            ).rejects.toThrow(BadRequestException);
+            expect(payPeriodRepository.reopen).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('assertUnlocked', () => {
+        it('should allow changes when no locked period is near', async () => {
+            await expect(
+                service.assertUnlocked([new Date('2026-10-15T09:00:00.000Z')], mockDataScope)
+            ).resolves.toBeUndefined();
+            expect(payPeriodRepository.findOverlapping).toHaveBeenCalledWith(
+                '2026-10-14',
+                '2026-10-16',
+                mockDataScope,
+                'LOCKED'
+            );
+            expect(organizationRepository.findAttendanceSettings).not.toHaveBeenCalled();
+        });
+
+        it('should reject a change inside a locked period', async () => {
+            payPeriodRepository.findOverlapping.mockResolvedValue([lockedPeriod]);
+
+            await expect(
+                service.assertUnlocked([new Date('2026-10-15T09:00:00.000Z')], mockDataScope)
+            ).rejects.toThrow(ConflictException);
+        });
+
+        it("should use the day in the branch's time zone", async () => {
+            payPeriodRepository.findOverlapping.mockResolvedValue([lockedPeriod]);
+
+            // 01:30 on November 1st in Tashkent
+            await expect(
+                service.assertUnlocked(
+                    [new Date('2026-10-31T20:30:00.000Z')],
+                    mockDataScope,
+                    'branch-123'
+                )
+            ).resolves.toBeUndefined();
+        });
+
+        it('should count a time for the attendance day it is reported under', async () => {
+            payPeriodRepository.findOverlapping.mockResolvedValue([lockedPeriod]);
+            organizationRepository.findAttendanceSettings.mockResolvedValue({
+                attendanceDayBoundary: '06:00',
+                timezone: 'UTC',
+                branches: [{ id: 'branch-123', timezone: 'Asia/Tashkent' }],
+            } as any);
+
+            // Belongs to the attendance day of October 31st
+            await expect(
+                service.assertUnlocked(
+                    [new Date('2026-10-31T20:30:00.000Z')],
+                    mockDataScope,
+                    'branch-123'
+                )
+            ).rejects.toThrow(ConflictException);
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { PayPeriod, PayPeriodStatus } from '@prisma/client';
+import { PayPeriodRepository } from './pay-period.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { OrganizationRepository } from '@/modules/organization/organization.repository';
+import { AuditLogService } from '@/shared/services/audit-log.service';
+import { CreatePayPeriodDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { AttendanceDayUtil, DEFAULT_ATTENDANCE_DAY_BOUNDARY } from '@/shared/utils';
+
+const AUDIT_RESOURCE = 'pay_period';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class PayPeriodService {
+    constructor(
+        private readonly payPeriodRepository: PayPeriodRepository,
+        private readonly organizationRepository: OrganizationRepository,
+        private readonly auditLogService: AuditLogService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Open a pay period; periods of an organization must not overlap
+     */
+    async createPeriod(
+        createPeriodDto: CreatePayPeriodDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<PayPeriod> {
+        const startDate = createPeriodDto.startDate.slice(0, 10);
+        const endDate = createPeriodDto.endDate.slice(0, 10);
+        if (startDate > endDate) {
+            throw new BadRequestException('The period must not end before it starts');
+        }
+
+        const [overlapping] = await this.payPeriodRepository.findOverlapping(
+            startDate,
+            endDate,
+            scope
+        );
+        if (overlapping) {
+            throw new ConflictException(`The period overlaps the pay period "${overlapping.name}"`);
+        }
+
+        const period = await this.payPeriodRepository.create(
+            { name: createPeriodDto.name, startDate, endDate },
+            scope
+        );
+
+        this.logger.logUserAction(
+            createdByUserId,
+            'PAY_PERIOD_CREATED',
+            { payPeriodId: period.id, name: period.name, startDate, endDate },
+            scope.organizationId,
+            correlationId
+        );
+
+        return period;
+    }
+
+    async getPeriods(
+        filters: { status?: PayPeriodStatus },
+        scope: DataScope
+    ): Promise<PayPeriod[]> {
+        return this.payPeriodRepository.findMany(filters, scope);
+    }
+
+    async getPeriodById(id: string, scope: DataScope): Promise<PayPeriod> {
+        const period = await this.payPeriodRepository.findById(id, scope);
+        if (!period) {
+            throw new NotFoundException('Pay period not found');
+        }
+
+        return period;
+    }
+
+    /**
+     * Freeze the attendance inside the period, e.g. once it has been exported to payroll
+     */
+    async lockPeriod(
+        id: string,
+        scope: DataScope,
+        lockedByUserId: string,
+        correlationId?: string
+    ): Promise<PayPeriod> {
+        const period = await this.getPeriodById(id, scope);
+        if (period.status === 'LOCKED') {
+            throw new BadRequestException('The pay period is already locked');
+        }
+
+        const lockedPeriod = await this.payPeriodRepository.lock(id, lockedByUserId);
+
+        this.logger.logUserAction(
+            lockedByUserId,
+            'PAY_PERIOD_LOCKED',
+            { payPeriodId: id, name: period.name },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit('LOCK', lockedPeriod, scope, lockedByUserId, {
+            oldValues: { status: period.status },
+            newValues: { status: lockedPeriod.status, lockedAt: lockedPeriod.lockedAt },
+        });
+
+        return lockedPeriod;
+    }
+
+    /**
+     * Unlock a locked period so its attendance can be corrected; the period can be locked again
+     */
+    async reopenPeriod(
+        id: string,
+        reason: string,
+        scope: DataScope,
+        reopenedByUserId: string,
+        correlationId?: string
+    ): Promise<PayPeriod> {
+        const period = await this.getPeriodById(id, scope);
+        if (period.status !== 'LOCKED') {
+            throw new BadRequestException('Only locked pay periods can be reopened');
+        }
+
+        const reopenedPeriod = await this.payPeriodRepository.reopen(id, reopenedByUserId, reason);
+
+        this.logger.logUserAction(
+            reopenedByUserId,
+            'PAY_PERIOD_REOPENED',
+            { payPeriodId: id, name: period.name, reason },
+            scope.organizationId,
+            correlationId
+        );
+
+        await this.audit('REOPEN', reopenedPeriod, scope, reopenedByUserId, {
+            oldValues: {
+                status: period.status,
+                lockedByUserId: period.lockedByUserId,
+                lockedAt: period.lockedAt,
+            },
+            newValues: {
+                status: reopenedPeriod.status,
+                reopenedAt: reopenedPeriod.reopenedAt,
+                reopenReason: reason,
+            },
+        });
+
+        return reopenedPeriod;
+    }
+
+    /**
+     * Reject a change of attendance at the given times when any of them falls inside a locked
+     * period. A time counts for both its calendar day and the attendance day it is reported
+     * under, in the time zone of the branch.
+     */
+    async assertUnlocked(timestamps: Date[], scope: DataScope, branchId?: string): Promise<void> {
+        if (!timestamps.length) {
+            return;
+        }
+
+        // A day of margin on both sides covers any time zone; most changes stop here
+        const times = timestamps.map(timestamp => timestamp.getTime());
+        const lockedPeriods = await this.payPeriodRepository.findOverlapping(
+            new Date(Math.min(...times) - DAY_MS).toISOString().slice(0, 10),
+            new Date(Math.max(...times) + DAY_MS).toISOString().slice(0, 10),
+            scope,
+            'LOCKED'
+        );
+        if (!lockedPeriods.length) {
+            return;
+        }
+
+        const organization = await this.organizationRepository.findAttendanceSettings(
+            scope.organizationId
+        );
+        const boundary = organization?.attendanceDayBoundary || DEFAULT_ATTENDANCE_DAY_BOUNDARY;
+        const timeZone =
+            (branchId && organization?.branches.find(branch => branch.id === branchId)?.timezone) ||
+            organization?.timezone ||
+            undefined;
+
+        for (const timestamp of timestamps) {
+            const dateKeys = [
+                AttendanceDayUtil.toDateKey(timestamp, timeZone),
+                AttendanceDayUtil.toDateKey(
+                    AttendanceDayUtil.getDayStart(timestamp, boundary, timeZone),
+                    timeZone
+                ),
+            ];
+            const lockedPeriod = lockedPeriods.find(period =>
+                dateKeys.some(
+                    dateKey =>
+                        dateKey >= this.payPeriodRepository.toDateKey(period.startDate) &&
+                        dateKey <= this.payPeriodRepository.toDateKey(period.endDate)
+                )
+            );
+            if (lockedPeriod) {
+                throw new ConflictException(
+                    `Attendance in the locked pay period "${lockedPeriod.name}" can't be changed`
+                );
+            }
+        }
+    }
+
+    private async audit(
+        action: string,
+        period: PayPeriod,
+        scope: DataScope,
+        userId: string,
+        values: { oldValues?: any; newValues?: any }
+    ): Promise<void> {
+        await this.auditLogService.createAuditLog({
+            action,
+            resource: AUDIT_RESOURCE,
+            resourceId: period.id,
+            userId,
+            organizationId: scope.organizationId,
+            method: 'POST',
+            url: `/api/v1/pay-periods/${period.id}/${action.toLowerCase()}`,
+            status: 'SUCCESS',
+            duration: 0,
+            timestamp: new Date(),
+            ...values,
+        });
+    }
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { PayrollExportProfile, Prisma } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { CreatePayrollExportProfileDto, UpdatePayrollExportProfileDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { QueryBuilder } from '@/shared/utils';
+
+@Injectable()
+export class PayrollExportProfileRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(
+        data: CreatePayrollExportProfileDto,
+        scope: DataScope
+    ): Promise<PayrollExportProfile> {
+        return this.prisma.payrollExportProfile.create({
+            data: {
+                ...data,
+                columns: data.columns as unknown as Prisma.InputJsonValue,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<PayrollExportProfile | null> {
+        return this.prisma.payrollExportProfile.findFirst({
+            where: {
+                id,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+        });
+    }
+
+    async findMany(
+        filters: { isActive?: boolean },
+        scope: DataScope
+    ): Promise<PayrollExportProfile[]> {
+        return this.prisma.payrollExportProfile.findMany({
+            where: {
+                ...filters,
+                ...QueryBuilder.buildOrganizationScope(scope),
+            },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async update(id: string, data: UpdatePayrollExportProfileDto): Promise<PayrollExportProfile> {
+        return this.prisma.payrollExportProfile.update({
+            where: { id },
+            data: {
+                ...data,
+                ...(data.columns && {
+                    columns: data.columns as unknown as Prisma.InputJsonValue,
+                }),
+            },
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.payrollExportProfile.delete({
+            where: { id },
+        });
+    }
+}
@@ -0,0 +1,170 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { PayrollExportProfile } from '@prisma/client';
+import { PayrollExportService } from './payroll-export.service';
+import {
+    CreatePayrollExportProfileDto,
+    PayrollExportColumnDto,
+    PayrollExportProfileResponseDto,
+    UpdatePayrollExportProfileDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Payroll Export')
+@ApiBearerAuth()
+@Controller('payroll-export-profiles')
+export class PayrollExportController {
+    constructor(private readonly payrollExportService: PayrollExportService) {}
+
+    @Post()
+    @Permissions('payroll:profile:manage')
+    @ApiOperation({ summary: 'Create a payroll export profile' })
+    @ApiBody({ type: CreatePayrollExportProfileDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The export profile has been successfully created.',
+        type: PayrollExportProfileResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'Profile name already exists.' })
+    async createProfile(
+        @Body() createProfileDto: CreatePayrollExportProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<PayrollExportProfileResponseDto> {
+        const profile = await this.payrollExportService.createProfile(
+            createProfileDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(profile);
+    }
+
+    @Get()
+    @Permissions('payroll:export')
+    @ApiOperation({ summary: 'Get all payroll export profiles' })
+    @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of export profiles.',
+        type: [PayrollExportProfileResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getProfiles(
+        @Scope() scope: DataScope,
+        @Query('includeInactive') includeInactive?: string
+    ): Promise<PayrollExportProfileResponseDto[]> {
+        const profiles = await this.payrollExportService.getProfiles(
+            scope,
+            includeInactive === 'true'
+        );
+
+        return profiles.map(profile => this.toResponse(profile));
+    }
+
+    @Get(':id')
+    @Permissions('payroll:export')
+    @ApiOperation({ summary: 'Get a specific payroll export profile by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the export profile' })
+    @ApiResponse({
+        status: 200,
+        description: 'The export profile details.',
+        type: PayrollExportProfileResponseDto,
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Export profile not found.' })
+    async getProfileById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<PayrollExportProfileResponseDto> {
+        const profile = await this.payrollExportService.getProfileById(id, scope);
+
+        return this.toResponse(profile);
+    }
+
+    @Patch(':id')
+    @Permissions('payroll:profile:manage')
+    @ApiOperation({ summary: 'Update a payroll export profile' })
+    @ApiParam({ name: 'id', description: 'ID of the export profile' })
+    @ApiBody({ type: UpdatePayrollExportProfileDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The export profile has been successfully updated.',
+        type: PayrollExportProfileResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Export profile not found.' })
+    @ApiResponse({ status: 409, description: 'Profile name already exists.' })
+    async updateProfile(
+        @Param('id') id: string,
+        @Body() updateProfileDto: UpdatePayrollExportProfileDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<PayrollExportProfileResponseDto> {
+        const profile = await this.payrollExportService.updateProfile(
+            id,
+            updateProfileDto,
+            scope,
+            user.sub
+        );
+
+        return this.toResponse(profile);
+    }
+
+    @Delete(':id')
+    @Permissions('payroll:profile:manage')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a payroll export profile' })
+    @ApiParam({ name: 'id', description: 'ID of the export profile' })
+    @ApiResponse({ status: 204, description: 'The export profile has been successfully deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Export profile not found.' })
+    async deleteProfile(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.payrollExportService.deleteProfile(id, scope, user.sub);
+    }
+
+    private toResponse(profile: PayrollExportProfile): PayrollExportProfileResponseDto {
+        return {
+            id: profile.id,
+            organizationId: profile.organizationId,
+            name: profile.name,
+            description: profile.description,
+            columns: profile.columns as unknown as PayrollExportColumnDto[],
+            layout: profile.layout,
+            delimiter: profile.delimiter,
+            includeHeader: profile.includeHeader,
+            hoursFormat: profile.hoursFormat,
+            decimalSeparator: profile.decimalSeparator,
+            isActive: profile.isActive,
+            createdAt: profile.createdAt,
+            updatedAt: profile.updatedAt,
+        };
+    }
+}
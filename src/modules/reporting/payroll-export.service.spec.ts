@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PayrollExportService } from './payroll-export.service';
+import { PayrollExportProfileRepository } from './payroll-export-profile.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { TimesheetService } from '@/modules/attendance/timesheet.service';
+import { DataScope } from '@/shared/interfaces';
+
+describe('PayrollExportService', () => {
+    let service: PayrollExportService;
+    let profileRepository: jest.Mocked<PayrollExportProfileRepository>;
+    let timesheetService: jest.Mocked<TimesheetService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const mockDataScope: DataScope = {
+        organizationId: 'org-123',
+        branchIds: [],
+    };
+
+    const mockProfile = {
+        id: 'profile-123',
+        organizationId: 'org-123',
+        name: 'Monthly Payroll',
+        description: null,
+        columns: [{ field: 'employeeCode' }, { field: 'workedHours', code: 'WH' }],
+        layout: 'EMPLOYEE_ROWS' as const,
+        delimiter: ',',
+        includeHeader: true,
+        hoursFormat: 'DECIMAL' as const,
+        decimalSeparator: '.',
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    beforeEach(async () => {
+        const mockProfileRepository = {
+            create: jest.fn().mockResolvedValue(mockProfile),
+            findById: jest.fn().mockResolvedValue(mockProfile),
+            findMany: jest.fn().mockResolvedValue([mockProfile]),
+            update: jest.fn(),
+            delete: jest.fn(),
+        };
+
+        const mockTimesheetService = {
+            getTimesheets: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logUserAction: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PayrollExportService,
+                {
+                    provide: PayrollExportProfileRepository,
+                    useValue: mockProfileRepository,
+                },
+                {
+                    provide: TimesheetService,
+                    useValue: mockTimesheetService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<PayrollExportService>(PayrollExportService);
+        profileRepository = module.get(PayrollExportProfileRepository);
+        timesheetService = module.get(TimesheetService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('createProfile', () => {
+        it('should save the profile', async () => {
+            const createDto = {
+                name: 'Monthly Payroll',
+                columns: [
+                    { field: 'employeeCode' as const },
+                    { field: 'workedHours' as const, code: 'WH' },
+                ],
+            };
+
+            const result = await service.createProfile(createDto, mockDataScope, 'user-123');
+
+            expect(result).toEqual(mockProfile);
+            expect(profileRepository.create).toHaveBeenCalledWith(createDto, mockDataScope);
+            expect(loggerService.logUserAction).toHaveBeenCalledWith(
+                'user-123',
+                'PAYROLL_EXPORT_PROFILE_CREATED',
+                expect.objectContaining({ profileId: 'profile-123', columns: 2 }),
+                'org-123',
+                undefined
+            );
+        });
+
+        it('should require a pay code column in pay code layout', async () => {
+            await expect(
+                service.createProfile(
+                    {
+                        name: 'Codes',
+                        layout: 'PAY_CODE_ROWS',
+                        columns: [{ field: 'employeeCode' }],
+                    },
+                    mockDataScope,
+                    'user-123'
+                )
+            ).rejects.toThrow(BadRequestException);
+            expect(profileRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getProfileSnapshot', () => {
+        it('should not export with an inactive profile', async () => {
+            profileRepository.findById.mockResolvedValue({ ...mockProfile, isActive: false });
+
+            await expect(service.getProfileSnapshot('profile-123', mockDataScope)).rejects.toThrow(
+                BadRequestException
+            );
+        });
+    });
+
+    describe('generateExport', () => {
+        it('should build the file from the timesheets of the period', async () => {
+            timesheetService.getTimesheets.mockResolvedValue([
+                {
+                    employeeId: 'emp-123',
+                    branchId: 'branch-123',
+                    status: 'present',
+                    leaveTypeId: null,
+                    netMinutes: 510,
+                    regularMinutes: 480,
+                    overtimeMinutes: 30,
+                    weeklyOvertimeMinutes: 0,
+                    nightMinutes: 0,
+                    lateMinutes: 0,
+                    earlyLeaveMinutes: 0,
+                    employee: {
+                        id: 'emp-123',
+                        firstName: 'John',
+                        lastName: 'Doe',
+                        employeeCode: 'EMP001',
+                    },
+                } as any,
+            ]);
+            const profile = await service.getProfileSnapshot('profile-123', mockDataScope);
+
+            const result = await service.generateExport(
+                profile,
+                { startDate: '2026-10-01', endDate: '2026-10-31', branchId: 'branch-123' },
+                mockDataScope
+            );
+
+            expect(timesheetService.getTimesheets).toHaveBeenCalledWith(
+                expect.objectContaining({ branchId: 'branch-123' }),
+                mockDataScope
+            );
+            expect(result).toEqual({
+                content: 'Employee Code,Worked Hours\r\nEMP001,8.50',
+                fileName: 'payroll-monthly-payroll-2026-10-01-to-2026-10-31.csv',
+                recordCount: 1,
+            });
+        });
+    });
+});
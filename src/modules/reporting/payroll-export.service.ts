@@ -0,0 +1,230 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { PayrollExportLayout, PayrollExportProfile } from '@prisma/client';
+import { PayrollExportProfileRepository } from './payroll-export-profile.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { TimesheetService } from '@/modules/attendance/timesheet.service';
+import { CreatePayrollExportProfileDto, UpdatePayrollExportProfileDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import {
+    AttendanceDayUtil,
+    DatabaseUtil,
+    PayrollExportColumn,
+    PayrollExportProfileSnapshot,
+    PayrollExportUtil,
+} from '@/shared/utils';
+
+export interface PayrollExportPeriod {
+    startDate: string; // YYYY-MM-DD
+    endDate: string;
+    branchId?: string;
+}
+
+@Injectable()
+export class PayrollExportService {
+    constructor(
+        private readonly profileRepository: PayrollExportProfileRepository,
+        private readonly timesheetService: TimesheetService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Save a named export layout for the organization
+     */
+    async createProfile(
+        createProfileDto: CreatePayrollExportProfileDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<PayrollExportProfile> {
+        this.validateColumns(createProfileDto.columns, createProfileDto.layout || 'EMPLOYEE_ROWS');
+
+        try {
+            const profile = await this.profileRepository.create(createProfileDto, scope);
+
+            this.logger.logUserAction(
+                createdByUserId,
+                'PAYROLL_EXPORT_PROFILE_CREATED',
+                {
+                    profileId: profile.id,
+                    name: profile.name,
+                    layout: profile.layout,
+                    columns: createProfileDto.columns.length,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return profile;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An export profile with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get all export profiles in the organization
+     */
+    async getProfiles(scope: DataScope, includeInactive = false): Promise<PayrollExportProfile[]> {
+        return this.profileRepository.findMany(includeInactive ? {} : { isActive: true }, scope);
+    }
+
+    /**
+     * Get export profile by ID
+     */
+    async getProfileById(id: string, scope: DataScope): Promise<PayrollExportProfile> {
+        const profile = await this.profileRepository.findById(id, scope);
+        if (!profile) {
+            throw new NotFoundException('Payroll export profile not found');
+        }
+
+        return profile;
+    }
+
+    /**
+     * Update export profile; exports made earlier keep the layout they were made with
+     */
+    async updateProfile(
+        id: string,
+        updateProfileDto: UpdatePayrollExportProfileDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<PayrollExportProfile> {
+        const existingProfile = await this.getProfileById(id, scope);
+        this.validateColumns(
+            updateProfileDto.columns || this.getColumns(existingProfile),
+            updateProfileDto.layout || existingProfile.layout
+        );
+
+        try {
+            const updatedProfile = await this.profileRepository.update(id, updateProfileDto);
+
+            this.logger.logUserAction(
+                updatedByUserId,
+                'PAYROLL_EXPORT_PROFILE_UPDATED',
+                {
+                    profileId: id,
+                    changes: updateProfileDto,
+                    oldName: existingProfile.name,
+                    newName: updatedProfile.name,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return updatedProfile;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('An export profile with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Delete export profile
+     */
+    async deleteProfile(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const existingProfile = await this.getProfileById(id, scope);
+
+        await this.profileRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'PAYROLL_EXPORT_PROFILE_DELETED',
+            {
+                profileId: id,
+                name: existingProfile.name,
+            },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Copy the layout of an active profile. Reports keep the copy, so that regenerating the
+     * export of a closed period reproduces the same file after the profile has changed.
+     */
+    async getProfileSnapshot(id: string, scope: DataScope): Promise<PayrollExportProfileSnapshot> {
+        const profile = await this.getProfileById(id, scope);
+        if (!profile.isActive) {
+            throw new BadRequestException('Payroll export profile is not active');
+        }
+
+        return {
+            id: profile.id,
+            name: profile.name,
+            columns: this.getColumns(profile),
+            layout: profile.layout,
+            delimiter: profile.delimiter,
+            includeHeader: profile.includeHeader,
+            hoursFormat: profile.hoursFormat,
+            decimalSeparator: profile.decimalSeparator,
+        };
+    }
+
+    /**
+     * Build the export file of the period from the calculated timesheets
+     */
+    async generateExport(
+        profile: PayrollExportProfileSnapshot,
+        period: PayrollExportPeriod,
+        scope: DataScope
+    ): Promise<{ content: string; fileName: string; recordCount: number }> {
+        const timesheets = await this.timesheetService.getTimesheets(
+            {
+                branchId: period.branchId,
+                startDate: AttendanceDayUtil.fromDateKey(period.startDate),
+                endDate: AttendanceDayUtil.fromDateKey(period.endDate),
+            },
+            scope
+        );
+
+        const totals = PayrollExportUtil.summarize(timesheets);
+        const rows = PayrollExportUtil.buildRows(totals, profile, period);
+        const slug = profile.name
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '');
+
+        return {
+            content: PayrollExportUtil.toFile(rows, profile.delimiter),
+            fileName: `payroll-${slug || 'export'}-${period.startDate}-to-${period.endDate}.csv`,
+            recordCount: totals.length,
+        };
+    }
+
+    private validateColumns(columns: PayrollExportColumn[], layout: PayrollExportLayout): void {
+        columns.forEach(column => {
+            if (column.field === 'constant' && !column.value) {
+                throw new BadRequestException('Constant columns need a value');
+            }
+            if (column.leaveTypeId && column.field !== 'leaveDays') {
+                throw new BadRequestException('Only leave day columns can have a leave type');
+            }
+        });
+
+        if (
+            layout === 'PAY_CODE_ROWS' &&
+            columns.every(column => PayrollExportUtil.isIdentityField(column.field))
+        ) {
+            throw new BadRequestException('The pay code layout needs at least one pay code column');
+        }
+    }
+
+    private getColumns(profile: PayrollExportProfile): PayrollExportColumn[] {
+        return profile.columns as unknown as PayrollExportColumn[];
+    }
+}
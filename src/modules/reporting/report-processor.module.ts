@@ -6,6 +6,7 @@ import { EmployeeModule } from '../employee/employee.module';
 import { DeviceModule } from '../device/device.module';
 import { GuestModule } from '../guest/guest.module';
 import { AuditModule } from '../audit/audit.module';
+import { OrganizationModule } from '../organization/organization.module';
 import { LoggerModule } from '@/core/logger/logger.module';
 import { AdapterModule } from '@/shared/adapters/adapter.module';
 
@@ -19,6 +20,7 @@ import { AdapterModule } from '@/shared/adapters/adapter.module';
         DeviceModule,
         GuestModule,
         AuditModule,
+        OrganizationModule,
     ],
     providers: [ReportGenerationProcessor],
     exports: [ReportGenerationProcessor],
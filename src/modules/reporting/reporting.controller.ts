@@ -13,6 +13,7 @@ import {
     CreateReportDto,
     PaginationDto,
     PaginationResponseDto,
+    PayrollExportReportParamsDto,
     ReportFiltersDto,
     ReportResponseDto,
 } from '@/shared/dto';
@@ -518,4 +519,56 @@ export class ReportingController {
             updatedAt: report.updatedAt,
         };
     }
+
+    @Post('payroll/export')
+    @Permissions('report:create', 'payroll:export')
+    @AuditLog({
+        action: 'CREATE',
+        resource: 'report',
+        captureRequest: true,
+        captureResponse: true,
+    })
+    @ApiOperation({ summary: 'Generate the payroll export of a pay period' })
+    @ApiBody({ type: PayrollExportReportParamsDto })
+    @ApiResponse({ status: 201, description: 'Report generation queued.', type: ReportResponseDto })
+    @ApiResponse({ status: 400, description: 'Invalid period or inactive profile.' })
+    @ApiResponse({ status: 404, description: 'Payroll export profile not found.' })
+    async generatePayrollExport(
+        @Body() params: PayrollExportReportParamsDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<ReportResponseDto> {
+        const createReportDto: CreateReportDto = {
+            name: `Payroll Export - ${params.startDate} to ${params.endDate}`,
+            type: 'PAYROLL_EXPORT',
+            format: 'CSV',
+            parameters: {
+                profileId: params.profileId,
+                startDate: params.startDate,
+                endDate: params.endDate,
+                branchId: params.branchId,
+            },
+        };
+
+        const report = await this.reportingService.generateReport(createReportDto, scope, user.sub);
+
+        return {
+            id: report.id,
+            name: report.name,
+            type: report.type,
+            status: report.status,
+            parameters: report.parameters,
+            organizationId: report.organizationId,
+            createdByUserId: report.createdByUserId,
+            fileUrl: report.fileUrl,
+            filePath: report.filePath,
+            fileSize: report.fileSize,
+            recordCount: report.recordCount,
+            startedAt: report.startedAt,
+            completedAt: report.completedAt,
+            errorMessage: report.errorMessage,
+            createdAt: report.createdAt,
+            updatedAt: report.updatedAt,
+        };
+    }
 }
@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { ReportingController } from './reporting.controller';
 import { ReportingService } from './reporting.service';
 import { ReportRepository } from './report.repository';
+import { PayrollExportController } from './payroll-export.controller';
+import { PayrollExportService } from './payroll-export.service';
+import { PayrollExportProfileRepository } from './payroll-export-profile.repository';
 import { DatabaseModule } from '@/core/database/database.module';
 import { LoggerModule } from '@/core/logger/logger.module';
 import { QueueModule } from '@/core/queue/queue.module';
@@ -24,8 +27,13 @@ import { AuditModule } from '../audit/audit.module';
         GuestModule,
         AuditModule,
     ],
-    controllers: [ReportingController],
-    providers: [ReportingService, ReportRepository],
-    exports: [ReportingService, ReportRepository],
+    controllers: [ReportingController, PayrollExportController],
+    providers: [
+        ReportingService,
+        ReportRepository,
+        PayrollExportService,
+        PayrollExportProfileRepository,
+    ],
+    exports: [ReportingService, ReportRepository, PayrollExportService],
 })
 export class ReportingModule {}
@@ -1,5 +1,6 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
 import { ReportRepository } from './report.repository';
+import { PayrollExportService } from './payroll-export.service';
 import { LoggerService } from '@/core/logger/logger.service';
 import { QueueProducer } from '@/core/queue/queue.producer';
 import { IStorageAdapter } from '@/shared/adapters/storage.adapter';
@@ -20,17 +21,23 @@ export class ReportingService {
         private readonly reportRepository: ReportRepository,
         private readonly logger: LoggerService,
         private readonly queueProducer: QueueProducer,
+        private readonly payrollExportService: PayrollExportService,
         @Inject('IStorageAdapter') private readonly storageAdapter: IStorageAdapter
     ) {}
 
     async generateReport(createReportDto: CreateReportDto, scope: DataScope, userId: string) {
         try {
+            const parameters =
+                createReportDto.type === 'PAYROLL_EXPORT'
+                    ? await this.preparePayrollExport(createReportDto.parameters || {}, scope)
+                    : createReportDto.parameters || {};
+
             // Create report record
             const report = await this.reportRepository.create({
                 name: createReportDto.name,
                 type: createReportDto.type,
                 format: createReportDto.format || 'CSV',
-                parameters: createReportDto.parameters || {},
+                parameters,
                 organizationId: scope.organizationId,
                 createdByUserId: userId,
                 status: 'PENDING',
@@ -42,7 +49,7 @@ export class ReportingService {
                 reportId: report.id,
                 type: createReportDto.type,
                 format: createReportDto.format || 'CSV',
-                parameters: createReportDto.parameters || {},
+                parameters,
                 organizationId: scope.organizationId,
                 userId,
             });
@@ -401,6 +408,39 @@ export class ReportingService {
                     },
                 ],
             },
+            {
+                type: 'PAYROLL_EXPORT',
+                name: 'Payroll Export',
+                description:
+                    'Worked hours, overtime, night hours, leave days and lateness per employee ' +
+                    'for a pay period, laid out by a payroll export profile',
+                parameters: [
+                    {
+                        name: 'profileId',
+                        type: 'string',
+                        required: true,
+                        description: 'Payroll export profile to lay the file out with',
+                    },
+                    {
+                        name: 'startDate',
+                        type: 'date',
+                        required: true,
+                        description: 'First day of the pay period (YYYY-MM-DD)',
+                    },
+                    {
+                        name: 'endDate',
+                        type: 'date',
+                        required: true,
+                        description: 'Last day of the pay period (YYYY-MM-DD)',
+                    },
+                    {
+                        name: 'branchId',
+                        type: 'string',
+                        required: false,
+                        description: 'Filter by specific branch',
+                    },
+                ],
+            },
         ];
     }
 
@@ -471,4 +511,28 @@ export class ReportingService {
 
         return deletedCount;
     }
+
+    /**
+     * Validate the period of a payroll export and keep a copy of the profile with the report,
+     * so that regenerating it reproduces the same file
+     */
+    private async preparePayrollExport(parameters: Record<string, any>, scope: DataScope) {
+        const { profileId, startDate, endDate } = parameters;
+        if (!profileId || !startDate || !endDate) {
+            throw new BadRequestException('profileId, startDate and endDate are required');
+        }
+
+        const startKey = String(startDate).slice(0, 10);
+        const endKey = String(endDate).slice(0, 10);
+        if (startKey > endKey) {
+            throw new BadRequestException('Start date must not be after end date');
+        }
+
+        return {
+            ...parameters,
+            startDate: startKey,
+            endDate: endKey,
+            profile: await this.payrollExportService.getProfileSnapshot(profileId, scope),
+        };
+    }
 }
@@ -0,0 +1,203 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Query,
+} from '@nestjs/common';
+import {
+    ApiBearerAuth,
+    ApiBody,
+    ApiOperation,
+    ApiParam,
+    ApiQuery,
+    ApiResponse,
+    ApiTags,
+} from '@nestjs/swagger';
+import { ShiftService } from './shift.service';
+import {
+    CreateShiftAssignmentDto,
+    CreateShiftDto,
+    ShiftAssignmentResponseDto,
+    ShiftResponseDto,
+    UpdateShiftDto,
+} from '@/shared/dto';
+import { Permissions, Scope, User } from '@/shared/decorators';
+import { DataScope, UserContext } from '@/shared/interfaces';
+
+@ApiTags('Shifts')
+@ApiBearerAuth()
+@Controller('shifts')
+export class ShiftController {
+    constructor(private readonly shiftService: ShiftService) {}
+
+    @Post()
+    @Permissions('shift:create')
+    @ApiOperation({ summary: 'Create a new shift' })
+    @ApiBody({ type: CreateShiftDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The shift has been successfully created.',
+        type: ShiftResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 409, description: 'Shift name already exists.' })
+    async createShift(
+        @Body() createShiftDto: CreateShiftDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<ShiftResponseDto> {
+        return this.shiftService.createShift(createShiftDto, scope, user.sub);
+    }
+
+    @Get()
+    @Permissions('shift:read:all')
+    @ApiOperation({ summary: 'Get all shifts' })
+    @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+    @ApiResponse({ status: 200, description: 'A list of shifts.', type: [ShiftResponseDto] })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    async getShifts(
+        @Scope() scope: DataScope,
+        @Query('includeInactive') includeInactive?: string
+    ): Promise<ShiftResponseDto[]> {
+        return this.shiftService.getShifts(scope, includeInactive === 'true');
+    }
+
+    @Get('employee/:employeeId/effective')
+    @Permissions('shift:read:all')
+    @ApiOperation({ summary: 'Get the shift in effect for an employee on a date' })
+    @ApiParam({ name: 'employeeId', description: 'ID of the employee' })
+    @ApiQuery({
+        name: 'date',
+        required: false,
+        description: 'Date (YYYY-MM-DD), defaults to today',
+    })
+    @ApiResponse({ status: 200, description: 'The effective shift, or null if none applies.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Employee not found.' })
+    async getEffectiveShift(
+        @Param('employeeId') employeeId: string,
+        @Scope() scope: DataScope,
+        @Query('date') date?: string
+    ): Promise<ShiftResponseDto | null> {
+        return this.shiftService.getEffectiveShift(
+            employeeId,
+            date ? new Date(date) : new Date(),
+            scope
+        );
+    }
+
+    @Delete('assignments/:assignmentId')
+    @Permissions('shift:assign')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Remove a shift assignment' })
+    @ApiParam({ name: 'assignmentId', description: 'ID of the shift assignment' })
+    @ApiResponse({ status: 204, description: 'The assignment has been removed.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift assignment not found.' })
+    async removeShiftAssignment(
+        @Param('assignmentId') assignmentId: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.shiftService.removeShiftAssignment(assignmentId, scope, user.sub);
+    }
+
+    @Get(':id')
+    @Permissions('shift:read:all')
+    @ApiOperation({ summary: 'Get a specific shift by ID' })
+    @ApiParam({ name: 'id', description: 'ID of the shift' })
+    @ApiResponse({ status: 200, description: 'The shift details.', type: ShiftResponseDto })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift not found.' })
+    async getShiftById(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<ShiftResponseDto> {
+        return this.shiftService.getShiftById(id, scope);
+    }
+
+    @Patch(':id')
+    @Permissions('shift:update:managed')
+    @ApiOperation({ summary: 'Update a shift' })
+    @ApiParam({ name: 'id', description: 'ID of the shift to update' })
+    @ApiBody({ type: UpdateShiftDto })
+    @ApiResponse({
+        status: 200,
+        description: 'The shift has been successfully updated.',
+        type: ShiftResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift not found.' })
+    async updateShift(
+        @Param('id') id: string,
+        @Body() updateShiftDto: UpdateShiftDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<ShiftResponseDto> {
+        return this.shiftService.updateShift(id, updateShiftDto, scope, user.sub);
+    }
+
+    @Delete(':id')
+    @Permissions('shift:update:managed')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Delete a shift and its assignments' })
+    @ApiParam({ name: 'id', description: 'ID of the shift to delete' })
+    @ApiResponse({ status: 204, description: 'The shift has been successfully deleted.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift not found.' })
+    async deleteShift(
+        @Param('id') id: string,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<void> {
+        await this.shiftService.deleteShift(id, scope, user.sub);
+    }
+
+    @Post(':id/assignments')
+    @Permissions('shift:assign')
+    @ApiOperation({ summary: 'Assign a shift to an employee, department or branch' })
+    @ApiParam({ name: 'id', description: 'ID of the shift' })
+    @ApiBody({ type: CreateShiftAssignmentDto })
+    @ApiResponse({
+        status: 201,
+        description: 'The shift has been assigned.',
+        type: ShiftAssignmentResponseDto,
+    })
+    @ApiResponse({ status: 400, description: 'Invalid input.' })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift or assignment target not found.' })
+    async assignShift(
+        @Param('id') id: string,
+        @Body() assignmentDto: CreateShiftAssignmentDto,
+        @User() user: UserContext,
+        @Scope() scope: DataScope
+    ): Promise<ShiftAssignmentResponseDto> {
+        return this.shiftService.assignShift(id, assignmentDto, scope, user.sub);
+    }
+
+    @Get(':id/assignments')
+    @Permissions('shift:read:all')
+    @ApiOperation({ summary: 'Get the assignments of a shift' })
+    @ApiParam({ name: 'id', description: 'ID of the shift' })
+    @ApiResponse({
+        status: 200,
+        description: 'A list of shift assignments.',
+        type: [ShiftAssignmentResponseDto],
+    })
+    @ApiResponse({ status: 403, description: 'Forbidden.' })
+    @ApiResponse({ status: 404, description: 'Shift not found.' })
+    async getShiftAssignments(
+        @Param('id') id: string,
+        @Scope() scope: DataScope
+    ): Promise<ShiftAssignmentResponseDto[]> {
+        return this.shiftService.getShiftAssignments(id, scope);
+    }
+}
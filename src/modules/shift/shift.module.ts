@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ShiftController } from './shift.controller';
+import { ShiftService } from './shift.service';
+import { ShiftRepository } from './shift.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule],
+    controllers: [ShiftController],
+    providers: [ShiftService, ShiftRepository],
+    exports: [ShiftService, ShiftRepository],
+})
+export class ShiftModule {}
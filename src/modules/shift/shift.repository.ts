@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, Shift, ShiftAssignment } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+import { CreateShiftDto, UpdateShiftDto } from '@/shared/dto/shift.dto';
+import { DataScope } from '@/shared/interfaces/data-scope.interface';
+import { QueryBuilder } from '@/shared/utils/query-builder.util';
+
+export type ShiftAssignmentWithShift = ShiftAssignment & { shift: Shift };
+
+export interface CreateShiftAssignmentData {
+    shiftId: string;
+    employeeId?: string;
+    departmentId?: string;
+    branchId?: string;
+    effectiveFrom: Date;
+    effectiveTo?: Date;
+}
+
+export interface ShiftAssignmentTargets {
+    employeeIds: string[];
+    departmentIds: string[];
+    branchIds: string[];
+}
+
+@Injectable()
+export class ShiftRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    async create(data: CreateShiftDto, scope: DataScope): Promise<Shift> {
+        return this.prisma.shift.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findById(id: string, scope: DataScope): Promise<Shift | null> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.shift.findFirst({
+            where: {
+                id,
+                ...whereClause,
+            },
+        });
+    }
+
+    async findMany(filters: any = {}, scope: DataScope): Promise<Shift[]> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.shift.findMany({
+            where: {
+                ...filters,
+                ...whereClause,
+            },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async update(id: string, data: UpdateShiftDto): Promise<Shift> {
+        return this.prisma.shift.update({
+            where: { id },
+            data,
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.shift.delete({
+            where: { id },
+        });
+    }
+
+    async createAssignment(
+        data: CreateShiftAssignmentData,
+        scope: DataScope
+    ): Promise<ShiftAssignment> {
+        return this.prisma.shiftAssignment.create({
+            data: {
+                ...data,
+                organizationId: scope.organizationId,
+            },
+        });
+    }
+
+    async findAssignmentById(id: string, scope: DataScope): Promise<ShiftAssignment | null> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.shiftAssignment.findFirst({
+            where: {
+                id,
+                ...whereClause,
+            },
+        });
+    }
+
+    async findAssignmentsByShift(shiftId: string, scope: DataScope): Promise<ShiftAssignment[]> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        return this.prisma.shiftAssignment.findMany({
+            where: {
+                shiftId,
+                ...whereClause,
+            },
+            orderBy: { effectiveFrom: 'desc' },
+        });
+    }
+
+    async deleteAssignment(id: string): Promise<void> {
+        await this.prisma.shiftAssignment.delete({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find active-shift assignments targeting any of the given employees, departments
+     * or branches that overlap the [startDate, endDate] range
+     */
+    async findAssignmentsForTargets(
+        targets: ShiftAssignmentTargets,
+        startDate: Date,
+        endDate: Date,
+        scope: DataScope
+    ): Promise<ShiftAssignmentWithShift[]> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+        const targetConditions: Prisma.ShiftAssignmentWhereInput[] = [];
+
+        if (targets.employeeIds.length > 0) {
+            targetConditions.push({ employeeId: { in: targets.employeeIds } });
+        }
+        if (targets.departmentIds.length > 0) {
+            targetConditions.push({ departmentId: { in: targets.departmentIds } });
+        }
+        if (targets.branchIds.length > 0) {
+            targetConditions.push({ branchId: { in: targets.branchIds } });
+        }
+
+        if (targetConditions.length === 0) {
+            return [];
+        }
+
+        return this.prisma.shiftAssignment.findMany({
+            where: {
+                ...whereClause,
+                OR: targetConditions,
+                effectiveFrom: { lte: endDate },
+                AND: [{ OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDate } }] }],
+                shift: { isActive: true },
+            },
+            include: { shift: true },
+            orderBy: { effectiveFrom: 'desc' },
+        });
+    }
+
+    async findEmployee(
+        employeeId: string,
+        scope: DataScope
+    ): Promise<{ id: string; branchId: string; departmentId: string | null } | null> {
+        const whereClause = QueryBuilder.buildBranchScope(scope);
+
+        return this.prisma.employee.findFirst({
+            where: { id: employeeId, ...whereClause },
+            select: { id: true, branchId: true, departmentId: true },
+        });
+    }
+
+    async departmentExists(departmentId: string, scope: DataScope): Promise<boolean> {
+        const branchScope = QueryBuilder.buildBranchScope(scope);
+
+        const department = await this.prisma.department.findFirst({
+            where: {
+                id: departmentId,
+                branchId: branchScope.branchId,
+                branch: { organizationId: scope.organizationId },
+            },
+            select: { id: true },
+        });
+
+        return !!department;
+    }
+
+    async branchExists(branchId: string, scope: DataScope): Promise<boolean> {
+        const whereClause = QueryBuilder.buildOrganizationScope(scope);
+
+        if (scope.branchIds?.length && !scope.branchIds.includes(branchId)) {
+            return false;
+        }
+
+        const branch = await this.prisma.branch.findFirst({
+            where: { id: branchId, ...whereClause },
+            select: { id: true },
+        });
+
+        return !!branch;
+    }
+}
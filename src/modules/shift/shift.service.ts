@@ -0,0 +1,349 @@
+import {
+    BadRequestException,
+    ConflictException,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { Shift, ShiftAssignment } from '@prisma/client';
+import { ShiftAssignmentWithShift, ShiftRepository } from './shift.repository';
+import { LoggerService } from '@/core/logger/logger.service';
+import { CreateShiftAssignmentDto, CreateShiftDto, UpdateShiftDto } from '@/shared/dto';
+import { DataScope } from '@/shared/interfaces';
+import { DatabaseUtil, ShiftUtil, TimezoneUtil } from '@/shared/utils';
+
+export interface ShiftAssignee {
+    id: string;
+    branchId: string;
+    departmentId?: string | null;
+}
+
+@Injectable()
+export class ShiftService {
+    constructor(
+        private readonly shiftRepository: ShiftRepository,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Create a new shift
+     */
+    async createShift(
+        createShiftDto: CreateShiftDto,
+        scope: DataScope,
+        createdByUserId: string,
+        correlationId?: string
+    ): Promise<Shift> {
+        try {
+            const shift = await this.shiftRepository.create(createShiftDto, scope);
+
+            this.logger.logUserAction(
+                createdByUserId,
+                'SHIFT_CREATED',
+                {
+                    shiftId: shift.id,
+                    shiftName: shift.name,
+                    startTime: shift.startTime,
+                    endTime: shift.endTime,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return shift;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('A shift with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get all shifts in the organization
+     */
+    async getShifts(scope: DataScope, includeInactive = false): Promise<Shift[]> {
+        return this.shiftRepository.findMany(includeInactive ? {} : { isActive: true }, scope);
+    }
+
+    /**
+     * Get shift by ID
+     */
+    async getShiftById(id: string, scope: DataScope): Promise<Shift> {
+        const shift = await this.shiftRepository.findById(id, scope);
+        if (!shift) {
+            throw new NotFoundException('Shift not found');
+        }
+
+        return shift;
+    }
+
+    /**
+     * Update shift
+     */
+    async updateShift(
+        id: string,
+        updateShiftDto: UpdateShiftDto,
+        scope: DataScope,
+        updatedByUserId: string,
+        correlationId?: string
+    ): Promise<Shift> {
+        const existingShift = await this.getShiftById(id, scope);
+
+        try {
+            const updatedShift = await this.shiftRepository.update(id, updateShiftDto);
+
+            this.logger.logUserAction(
+                updatedByUserId,
+                'SHIFT_UPDATED',
+                {
+                    shiftId: id,
+                    changes: updateShiftDto,
+                    oldName: existingShift.name,
+                    newName: updatedShift.name,
+                },
+                scope.organizationId,
+                correlationId
+            );
+
+            return updatedShift;
+        } catch (error) {
+            if (DatabaseUtil.isUniqueConstraintError(error)) {
+                throw new ConflictException('A shift with this name already exists');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Delete shift together with its assignments
+     */
+    async deleteShift(
+        id: string,
+        scope: DataScope,
+        deletedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const existingShift = await this.getShiftById(id, scope);
+
+        await this.shiftRepository.delete(id);
+
+        this.logger.logUserAction(
+            deletedByUserId,
+            'SHIFT_DELETED',
+            {
+                shiftId: id,
+                shiftName: existingShift.name,
+            },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Assign a shift to an employee, department or branch
+     */
+    async assignShift(
+        shiftId: string,
+        assignmentDto: CreateShiftAssignmentDto,
+        scope: DataScope,
+        assignedByUserId: string,
+        correlationId?: string
+    ): Promise<ShiftAssignment> {
+        await this.getShiftById(shiftId, scope);
+
+        const targets = [
+            assignmentDto.employeeId,
+            assignmentDto.departmentId,
+            assignmentDto.branchId,
+        ].filter(Boolean);
+
+        if (targets.length !== 1) {
+            throw new BadRequestException(
+                'Exactly one of employeeId, departmentId or branchId must be provided'
+            );
+        }
+
+        const effectiveFrom = new Date(assignmentDto.effectiveFrom);
+        const effectiveTo = assignmentDto.effectiveTo
+            ? new Date(assignmentDto.effectiveTo)
+            : undefined;
+
+        if (effectiveTo && effectiveTo < effectiveFrom) {
+            throw new BadRequestException('effectiveTo must not be before effectiveFrom');
+        }
+
+        await this.validateAssignmentTarget(assignmentDto, scope);
+
+        const assignment = await this.shiftRepository.createAssignment(
+            {
+                shiftId,
+                employeeId: assignmentDto.employeeId,
+                departmentId: assignmentDto.departmentId,
+                branchId: assignmentDto.branchId,
+                effectiveFrom,
+                effectiveTo,
+            },
+            scope
+        );
+
+        this.logger.logUserAction(
+            assignedByUserId,
+            'SHIFT_ASSIGNED',
+            {
+                shiftId,
+                assignmentId: assignment.id,
+                employeeId: assignment.employeeId,
+                departmentId: assignment.departmentId,
+                branchId: assignment.branchId,
+                effectiveFrom: assignment.effectiveFrom,
+                effectiveTo: assignment.effectiveTo,
+            },
+            scope.organizationId,
+            correlationId
+        );
+
+        return assignment;
+    }
+
+    /**
+     * Get assignments of a shift
+     */
+    async getShiftAssignments(shiftId: string, scope: DataScope): Promise<ShiftAssignment[]> {
+        await this.getShiftById(shiftId, scope);
+
+        return this.shiftRepository.findAssignmentsByShift(shiftId, scope);
+    }
+
+    /**
+     * Remove a shift assignment
+     */
+    async removeShiftAssignment(
+        assignmentId: string,
+        scope: DataScope,
+        removedByUserId: string,
+        correlationId?: string
+    ): Promise<void> {
+        const assignment = await this.shiftRepository.findAssignmentById(assignmentId, scope);
+        if (!assignment) {
+            throw new NotFoundException('Shift assignment not found');
+        }
+
+        // Branch managers may only remove assignments for targets they manage
+        await this.validateAssignmentTarget(assignment, scope);
+
+        await this.shiftRepository.deleteAssignment(assignmentId);
+
+        this.logger.logUserAction(
+            removedByUserId,
+            'SHIFT_ASSIGNMENT_REMOVED',
+            {
+                assignmentId,
+                shiftId: assignment.shiftId,
+            },
+            scope.organizationId,
+            correlationId
+        );
+    }
+
+    /**
+     * Resolve shift assignments for a set of employees within a date range.
+     * Each employee's list is ordered by precedence: direct employee assignments first,
+     * then department, then branch; within a level the most recent effectiveFrom wins.
+     */
+    async getShiftAssignmentsForEmployees(
+        employees: ShiftAssignee[],
+        startDate: Date,
+        endDate: Date,
+        scope: DataScope
+    ): Promise<Map<string, ShiftAssignmentWithShift[]>> {
+        const result = new Map<string, ShiftAssignmentWithShift[]>();
+        if (employees.length === 0) {
+            return result;
+        }
+
+        const assignments = await this.shiftRepository.findAssignmentsForTargets(
+            {
+                employeeIds: employees.map(employee => employee.id),
+                departmentIds: [
+                    ...new Set(employees.map(employee => employee.departmentId).filter(Boolean)),
+                ],
+                branchIds: [...new Set(employees.map(employee => employee.branchId))],
+            },
+            startDate,
+            endDate,
+            scope
+        );
+
+        for (const employee of employees) {
+            const applicable = [
+                ...assignments.filter(a => a.employeeId === employee.id),
+                ...assignments.filter(
+                    a => employee.departmentId && a.departmentId === employee.departmentId
+                ),
+                ...assignments.filter(a => a.branchId === employee.branchId),
+            ];
+
+            if (applicable.length > 0) {
+                result.set(employee.id, applicable);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the shift in effect for an employee on the calendar day of the date in the time zone
+     */
+    async getEffectiveShift(
+        employeeId: string,
+        date: Date,
+        scope: DataScope,
+        timeZone?: string
+    ): Promise<Shift | null> {
+        const employee = await this.shiftRepository.findEmployee(employeeId, scope);
+        if (!employee) {
+            throw new NotFoundException('Employee not found');
+        }
+
+        const dayStart = TimezoneUtil.startOfDay(date, timeZone);
+        const dayEnd = new Date(TimezoneUtil.addDays(dayStart, 1, timeZone).getTime() - 1);
+
+        const assignments = await this.getShiftAssignmentsForEmployees(
+            [employee],
+            dayStart,
+            dayEnd,
+            scope
+        );
+
+        const assignment = ShiftUtil.findAssignmentForDate(
+            assignments.get(employee.id) || [],
+            dayStart,
+            timeZone
+        );
+
+        return assignment ? assignment.shift : null;
+    }
+
+    private async validateAssignmentTarget(
+        target: {
+            employeeId?: string | null;
+            departmentId?: string | null;
+            branchId?: string | null;
+        },
+        scope: DataScope
+    ): Promise<void> {
+        if (target.employeeId) {
+            if (!(await this.shiftRepository.findEmployee(target.employeeId, scope))) {
+                throw new NotFoundException('Employee not found');
+            }
+        } else if (target.departmentId) {
+            if (!(await this.shiftRepository.departmentExists(target.departmentId, scope))) {
+                throw new NotFoundException('Department not found');
+            }
+        } else if (target.branchId) {
+            if (!(await this.shiftRepository.branchExists(target.branchId, scope))) {
+                throw new NotFoundException('Branch not found');
+            }
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import {
+    Body,
+    Controller,
+    Get,
+    Header,
+    HttpCode,
+    HttpStatus,
+    Post,
+    Query,
+    Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ZktecoPushService } from './zkteco-push.service';
+import { Public } from '@/shared/decorators';
+
+/**
+ * The push (ADMS/iclock) protocol of ZKTeco terminals. Devices expect these paths without the
+ * API prefix and plain text bodies both ways. They are identified by serial number and only
+ * accepted from the addresses entered for them.
+ */
+@ApiTags('ZKTeco Push')
+@Controller('iclock')
+export class ZktecoPushController {
+    constructor(private readonly zktecoPushService: ZktecoPushService) {}
+
+    @Get('cdata')
+    @Public() // Devices identify themselves by serial number, from an allowed address
+    @Header('Content-Type', 'text/plain')
+    @ApiOperation({ summary: 'Get the options of a device starting up' })
+    @ApiQuery({ name: 'SN', description: 'Serial number of the device' })
+    @ApiResponse({ status: 200, description: 'The options, one per line.' })
+    @ApiResponse({ status: 401, description: 'Unknown device or address not allowed.' })
+    async getOptions(@Query('SN') serialNumber: string, @Req() request: Request): Promise<string> {
+        return this.zktecoPushService.getOptions(serialNumber, request.ip);
+    }
+
+    @Post('cdata')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @Header('Content-Type', 'text/plain')
+    @ApiOperation({ summary: 'Upload attendance or operation records' })
+    @ApiQuery({ name: 'SN', description: 'Serial number of the device' })
+    @ApiQuery({ name: 'table', description: 'ATTLOG, OPERLOG, ...' })
+    @ApiQuery({ name: 'Stamp', required: false, description: 'Position of the last record' })
+    @ApiResponse({ status: 200, description: 'OK with the number of records accepted.' })
+    @ApiResponse({ status: 401, description: 'Unknown device or address not allowed.' })
+    async receiveData(
+        @Query('SN') serialNumber: string,
+        @Query('table') table: string,
+        @Query('Stamp') stamp: string,
+        @Body() body: string,
+        @Req() request: Request
+    ): Promise<string> {
+        const accepted = await this.zktecoPushService.receiveData(
+            serialNumber,
+            request.ip,
+            table,
+            stamp,
+            typeof body === 'string' ? body : ''
+        );
+
+        return `OK: ${accepted}`;
+    }
+
+    @Get('getrequest')
+    @Public()
+    @Header('Content-Type', 'text/plain')
+    @ApiOperation({ summary: 'Poll for queued commands' })
+    @ApiQuery({ name: 'SN', description: 'Serial number of the device' })
+    @ApiQuery({ name: 'INFO', required: false, description: 'Firmware, counts and IP address' })
+    @ApiResponse({ status: 200, description: 'The commands, one per line, or OK for none.' })
+    @ApiResponse({ status: 401, description: 'Unknown device or address not allowed.' })
+    async getPendingCommands(
+        @Query('SN') serialNumber: string,
+        @Query('INFO') info: string,
+        @Req() request: Request
+    ): Promise<string> {
+        return this.zktecoPushService.getPendingCommands(serialNumber, request.ip, info);
+    }
+
+    @Post('devicecmd')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @Header('Content-Type', 'text/plain')
+    @ApiOperation({ summary: 'Report the results of executed commands' })
+    @ApiQuery({ name: 'SN', description: 'Serial number of the device' })
+    @ApiResponse({ status: 200, description: 'OK.' })
+    @ApiResponse({ status: 401, description: 'Unknown device or address not allowed.' })
+    async receiveCommandResults(
+        @Query('SN') serialNumber: string,
+        @Body() body: string,
+        @Req() request: Request
+    ): Promise<string> {
+        await this.zktecoPushService.receiveCommandResults(
+            serialNumber,
+            request.ip,
+            typeof body === 'string' ? body : ''
+        );
+
+        return 'OK';
+    }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { Device, DeviceCommandStatus, ZktecoCommand } from '@prisma/client';
+import { PrismaService } from '@/core/database/prisma.service';
+
+export type ZktecoDevice = Device & {
+    branch: { timezone: string | null };
+    organization: { timezone: string };
+};
+
+@Injectable()
+export class ZktecoPushRepository {
+    constructor(private readonly prisma: PrismaService) {}
+
+    /**
+     * Push devices identify themselves by serial number, which is their deviceIdentifier
+     */
+    async findDeviceBySerialNumber(serialNumber: string): Promise<ZktecoDevice | null> {
+        return this.prisma.device.findFirst({
+            where: { deviceIdentifier: serialNumber, isActive: true },
+            include: {
+                branch: { select: { timezone: true } },
+                organization: { select: { timezone: true } },
+            },
+        });
+    }
+
+    /**
+     * Hand out the oldest pending commands, marking them SENT so the next poll does not repeat them
+     */
+    async claimPendingCommands(deviceId: string, limit: number): Promise<ZktecoCommand[]> {
+        return this.prisma.$transaction(async tx => {
+            const commands = await tx.zktecoCommand.findMany({
+                where: { deviceId, status: 'PENDING' },
+                orderBy: { createdAt: 'asc' },
+                take: limit,
+            });
+
+            if (commands.length) {
+                await tx.zktecoCommand.updateMany({
+                    where: { id: { in: commands.map(command => command.id) }, status: 'PENDING' },
+                    data: { status: 'SENT', sentAt: new Date() },
+                });
+            }
+
+            return commands;
+        });
+    }
+
+    /**
+     * Record the result the device reported; only commands sent to this device are matched
+     */
+    async completeCommand(deviceId: string, id: string, returnCode: number): Promise<boolean> {
+        const { count } = await this.prisma.zktecoCommand.updateMany({
+            where: { id, deviceId, status: 'SENT' },
+            data: {
+                status: returnCode === 0 ? 'SUCCEEDED' : 'FAILED',
+                returnCode,
+                completedAt: new Date(),
+            },
+        });
+
+        if (count > 0) {
+            await this.completeDeviceCommand(id);
+        }
+
+        return count > 0;
+    }
+
+    /**
+     * Complete the device command a command was queued for once the device reported on all of
+     * its commands; it failed if any of them did
+     */
+    private async completeDeviceCommand(id: string): Promise<void> {
+        const { deviceCommandId } = await this.prisma.zktecoCommand.findUnique({
+            where: { id },
+            select: { deviceCommandId: true },
+        });
+        if (!deviceCommandId) {
+            return;
+        }
+
+        const commands = await this.prisma.zktecoCommand.findMany({
+            where: { deviceCommandId },
+            select: { status: true, returnCode: true },
+        });
+        if (commands.some(command => command.status === 'PENDING' || command.status === 'SENT')) {
+            return;
+        }
+
+        const failed = commands.filter(command => command.status === 'FAILED');
+        await this.prisma.deviceCommandRequest.updateMany({
+            where: { id: deviceCommandId, status: DeviceCommandStatus.DELIVERED },
+            data: {
+                status: failed.length ? DeviceCommandStatus.FAILED : DeviceCommandStatus.SUCCEEDED,
+                error: failed.length
+                    ? `The device failed ${failed.length} of ${commands.length} commands, ` +
+                      `return codes ${failed.map(command => command.returnCode).join(', ')}`
+                    : null,
+                completedAt: new Date(),
+            },
+        });
+    }
+}
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ZktecoPushService } from './zkteco-push.service';
+import { ZktecoPushRepository } from './zkteco-push.repository';
+import { EventService } from '../events/event.service';
+import { EventRepository } from '../events/event.repository';
+import { DeviceHeartbeatService } from '../device/device-heartbeat.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { LoggerService } from '@/core/logger/logger.service';
+
+describe('ZktecoPushService', () => {
+    let service: ZktecoPushService;
+    let zktecoRepository: jest.Mocked<ZktecoPushRepository>;
+    let eventService: jest.Mocked<EventService>;
+    let eventRepository: jest.Mocked<EventRepository>;
+    let deviceHeartbeatService: jest.Mocked<DeviceHeartbeatService>;
+    let cacheService: jest.Mocked<CacheService>;
+    let loggerService: jest.Mocked<LoggerService>;
+
+    const address = '192.168.1.201';
+
+    const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        name: 'Entrance SpeedFace',
+        deviceIdentifier: 'CKJG201960001',
+        type: 'biometric',
+        model: 'SpeedFace-V5L',
+        status: 'ONLINE',
+        isActive: true,
+        pushAllowedAddresses: ['192.168.1.0/24'],
+        branch: { timezone: null },
+        organization: { timezone: 'Asia/Tashkent' },
+    };
+
+    beforeEach(async () => {
+        const mockZktecoRepository = {
+            findDeviceBySerialNumber: jest.fn().mockResolvedValue(mockDevice),
+            claimPendingCommands: jest.fn().mockResolvedValue([]),
+            completeCommand: jest.fn().mockResolvedValue(true),
+        };
+
+        const mockEventService = {
+            processRawEvent: jest.fn().mockResolvedValue('event-123'),
+        };
+
+        const mockEventRepository = {
+            createDeviceEventLog: jest.fn().mockResolvedValue({ id: 'event-log-123' }),
+        };
+
+        const mockDeviceHeartbeatService = {
+            recordHeartbeat: jest.fn().mockResolvedValue({ status: 'ONLINE' }),
+        };
+
+        const mockCacheService = {
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+            logSecurityEvent: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ZktecoPushService,
+                {
+                    provide: ZktecoPushRepository,
+                    useValue: mockZktecoRepository,
+                },
+                {
+                    provide: EventService,
+                    useValue: mockEventService,
+                },
+                {
+                    provide: EventRepository,
+                    useValue: mockEventRepository,
+                },
+                {
+                    provide: DeviceHeartbeatService,
+                    useValue: mockDeviceHeartbeatService,
+                },
+                {
+                    provide: CacheService,
+                    useValue: mockCacheService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        service = module.get<ZktecoPushService>(ZktecoPushService);
+        zktecoRepository = module.get(ZktecoPushRepository);
+        eventService = module.get(EventService);
+        eventRepository = module.get(EventRepository);
+        deviceHeartbeatService = module.get(DeviceHeartbeatService);
+        cacheService = module.get(CacheService);
+        loggerService = module.get(LoggerService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    it('should reject devices that are not registered', async () => {
+        zktecoRepository.findDeviceBySerialNumber.mockResolvedValue(null);
+
+        await expect(service.getPendingCommands('UNKNOWN', address)).rejects.toThrow(
+            UnauthorizedException
+        );
+        expect(loggerService.logSecurityEvent).toHaveBeenCalledWith(
+            'ZKTECO_UNKNOWN_DEVICE',
+            expect.objectContaining({ serialNumber: 'UNKNOWN' })
+        );
+        expect(deviceHeartbeatService.recordHeartbeat).not.toHaveBeenCalled();
+    });
+
+    it('should reject registered devices calling from an address not allowed', async () => {
+        await expect(
+            service.receiveData('CKJG201960001', '203.0.113.7', 'ATTLOG', '45', 'ignored')
+        ).rejects.toThrow(UnauthorizedException);
+        await expect(service.getPendingCommands('CKJG201960001', '203.0.113.7')).rejects.toThrow(
+            UnauthorizedException
+        );
+
+        expect(loggerService.logSecurityEvent).toHaveBeenCalledWith(
+            'ZKTECO_ADDRESS_NOT_ALLOWED',
+            expect.objectContaining({ deviceId: 'device-123', ip: '203.0.113.7' })
+        );
+        expect(eventService.processRawEvent).not.toHaveBeenCalled();
+        expect(zktecoRepository.claimPendingCommands).not.toHaveBeenCalled();
+        expect(deviceHeartbeatService.recordHeartbeat).not.toHaveBeenCalled();
+    });
+
+    it('should reject devices no address was entered for', async () => {
+        zktecoRepository.findDeviceBySerialNumber.mockResolvedValue({
+            ...mockDevice,
+            pushAllowedAddresses: [],
+        } as any);
+
+        await expect(service.getOptions('CKJG201960001', address)).rejects.toThrow(
+            UnauthorizedException
+        );
+    });
+
+    it('should accept IPv4 clients of a dual-stack server', async () => {
+        await expect(
+            service.getPendingCommands('CKJG201960001', `::ffff:${address}`)
+        ).resolves.toBe('OK');
+    });
+
+    describe('getOptions', () => {
+        it('should resume after the stored stamps in the device time zone', async () => {
+            cacheService.get.mockImplementation(key =>
+                Promise.resolve(key === 'zkteco:stamp:device-123:ATTLOG' ? '9999' : null)
+            );
+
+            const options = (await service.getOptions('CKJG201960001', address)).split('\n');
+
+            expect(options).toEqual(
+                expect.arrayContaining([
+                    'GET OPTION FROM: CKJG201960001',
+                    'ATTLOGStamp=9999',
+                    'OPERLOGStamp=None',
+                    'TimeZone=5',
+                ])
+            );
+        });
+    });
+
+    describe('receiveData', () => {
+        it('should pass each punch through the event pipeline', async () => {
+            const accepted = await service.receiveData(
+                'CKJG201960001',
+                address,
+                'ATTLOG',
+                '45',
+                fixture('attlog.txt')
+            );
+
+            expect(accepted).toBe(3);
+            expect(eventService.processRawEvent).toHaveBeenCalledTimes(3);
+            expect(eventService.processRawEvent).toHaveBeenCalledWith(
+                {
+                    eventType: 'face.scan',
+                    timestamp: '2026-10-19T03:59:12.000Z',
+                    employeeCode: '1001',
+                    additionalData: {
+                        protocol: 'zkteco',
+                        serialNumber: 'CKJG201960001',
+                        status: 0,
+                        verifyMode: 15,
+                        workCode: undefined,
+                    },
+                },
+                'device-123',
+                'zkteco:CKJG201960001:1001:2026-10-19 08:59:12'
+            );
+            expect(eventService.processRawEvent.mock.calls[1][0].eventType).toBe(
+                'fingerprint.scan'
+            );
+            expect(eventService.processRawEvent.mock.calls[2][0].eventType).toBe('card.read');
+            expect(cacheService.set).toHaveBeenCalledWith('zkteco:stamp:device-123:ATTLOG', '45');
+        });
+
+        it('should accept punches that were uploaded before', async () => {
+            eventService.processRawEvent.mockRejectedValueOnce(new Error('DUPLICATE_EVENT'));
+
+            await expect(
+                service.receiveData('CKJG201960001', address, 'ATTLOG', '45', fixture('attlog.txt'))
+            ).resolves.toBe(3);
+        });
+
+        it('should fail the upload, so the device repeats it, when a punch is rejected', async () => {
+            eventService.processRawEvent.mockRejectedValueOnce(new Error('Device is not online'));
+
+            await expect(
+                service.receiveData('CKJG201960001', address, 'ATTLOG', '45', fixture('attlog.txt'))
+            ).rejects.toThrow('Device is not online');
+            expect(cacheService.set).not.toHaveBeenCalled();
+        });
+
+        it('should log operations without passwords or templates', async () => {
+            const accepted = await service.receiveData(
+                'CKJG201960001',
+                address,
+                'OPERLOG',
+                '12',
+                fixture('operlog.txt')
+            );
+
+            expect(accepted).toBe(3);
+            expect(eventRepository.createDeviceEventLog).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    deviceId: 'device-123',
+                    organizationId: 'org-123',
+                    eventType: 'zkteco.oplog',
+                    timestamp: new Date('2026-10-19T03:30:00.000Z'),
+                })
+            );
+            const user = eventRepository.createDeviceEventLog.mock.calls[1][0];
+            expect(user.eventType).toBe('zkteco.user');
+            expect(user.metadata.values).toEqual(
+                expect.objectContaining({ PIN: '1003', Card: '0012345678' })
+            );
+            expect(JSON.stringify(eventRepository.createDeviceEventLog.mock.calls)).not.toMatch(
+                /4321|ocosgoul/
+            );
+            expect(eventService.processRawEvent).not.toHaveBeenCalled();
+        });
+
+        it('should acknowledge tables it does not use', async () => {
+            await expect(
+                service.receiveData('CKJG201960001', address, 'ATTPHOTO', '1', 'PIN=1001')
+            ).resolves.toBe(0);
+            expect(cacheService.set).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getPendingCommands', () => {
+        it('should record a heartbeat from the device info', async () => {
+            await expect(
+                service.getPendingCommands(
+                    'CKJG201960001',
+                    address,
+                    'Ver 8.0.4.2-20230315,12,10,1520,192.168.1.201,10'
+                )
+            ).resolves.toBe('OK');
+
+            expect(deviceHeartbeatService.recordHeartbeat).toHaveBeenCalledWith(mockDevice, {
+                firmwareVersion: 'Ver 8.0.4.2-20230315',
+                ipAddress: '192.168.1.201',
+            });
+        });
+
+        it('should hand out the queued commands', async () => {
+            zktecoRepository.claimPendingCommands.mockResolvedValue([
+                { id: 'cmd-1', command: 'REBOOT' },
+                { id: 'cmd-2', command: 'CLEAR LOG' },
+            ] as any);
+
+            await expect(service.getPendingCommands('CKJG201960001', address)).resolves.toBe(
+                'C:cmd-1:REBOOT\nC:cmd-2:CLEAR LOG'
+            );
+            expect(zktecoRepository.claimPendingCommands).toHaveBeenCalledWith('device-123', 20);
+        });
+    });
+
+    describe('receiveCommandResults', () => {
+        it('should complete the commands with their return codes', async () => {
+            const completed = await service.receiveCommandResults(
+                'CKJG201960001',
+                address,
+                fixture('devicecmd.txt')
+            );
+
+            expect(completed).toBe(2);
+            expect(zktecoRepository.completeCommand).toHaveBeenCalledWith('device-123', 'cmd-1', 0);
+            expect(zktecoRepository.completeCommand).toHaveBeenCalledWith(
+                'device-123',
+                'cmd-2',
+                -1002
+            );
+            expect(loggerService.warn).toHaveBeenCalledTimes(1);
+        });
+    });
+});
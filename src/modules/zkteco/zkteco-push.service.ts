@@ -0,0 +1,278 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ZktecoDevice, ZktecoPushRepository } from './zkteco-push.repository';
+import { EventService } from '../events/event.service';
+import { EventRepository } from '../events/event.repository';
+import { DeviceHeartbeatService } from '../device/device-heartbeat.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { CreateRawEventDto } from '@/shared/dto';
+import {
+    TimezoneUtil,
+    ZktecoAttendanceRecord,
+    ZktecoOperationRecord,
+    ZktecoPushUtil,
+} from '@/shared/utils';
+
+/** How often devices poll /iclock/getrequest for commands */
+export const POLL_INTERVAL_SECONDS = 10;
+/** Most commands handed out per poll, devices process them one by one */
+const COMMANDS_PER_POLL = 20;
+
+/** Event types by the verify mode of a punch */
+const EVENT_TYPES_BY_VERIFY_MODE: Record<number, string> = {
+    0: 'pin.entry',
+    1: 'fingerprint.scan',
+    2: 'card.read',
+    4: 'card.read',
+    15: 'face.scan',
+};
+
+@Injectable()
+export class ZktecoPushService {
+    constructor(
+        private readonly zktecoRepository: ZktecoPushRepository,
+        private readonly eventService: EventService,
+        private readonly eventRepository: EventRepository,
+        private readonly deviceHeartbeatService: DeviceHeartbeatService,
+        private readonly cacheService: CacheService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Options for a device starting up, telling it which records it already uploaded
+     */
+    async getOptions(serialNumber: string, address: string): Promise<string> {
+        const device = await this.authenticate(serialNumber, address);
+        const timeZone = this.getTimeZone(device);
+
+        const [attendanceStamp, operationStamp] = await Promise.all([
+            this.cacheService.get(this.getStampKey(device.id, 'ATTLOG')),
+            this.cacheService.get(this.getStampKey(device.id, 'OPERLOG')),
+        ]);
+
+        return ZktecoPushUtil.formatOptions(serialNumber, {
+            attendanceStamp,
+            operationStamp,
+            timeZoneOffsetHours: TimezoneUtil.getOffsetMinutes(new Date(), timeZone) / 60,
+            pollIntervalSeconds: POLL_INTERVAL_SECONDS,
+        });
+    }
+
+    /**
+     * Take in an upload: punches go through the event pipeline, operations are logged. Returns
+     * the number of records accepted. Tables this system has no use for are acknowledged.
+     */
+    async receiveData(
+        serialNumber: string,
+        address: string,
+        table: string,
+        stamp: string | undefined,
+        body: string
+    ): Promise<number> {
+        const device = await this.authenticate(serialNumber, address);
+
+        let accepted: number;
+        switch (table) {
+            case 'ATTLOG':
+                accepted = await this.receiveAttendance(
+                    device,
+                    ZktecoPushUtil.parseAttendanceLog(body)
+                );
+                break;
+            case 'OPERLOG':
+                accepted = await this.receiveOperations(
+                    device,
+                    ZktecoPushUtil.parseOperationLog(body)
+                );
+                break;
+            default:
+                this.logger.debug('Ignoring ZKTeco upload', {
+                    deviceId: device.id,
+                    table,
+                    module: 'zkteco',
+                });
+                return 0;
+        }
+
+        // The device resumes after this stamp when it restarts
+        if (stamp) {
+            await this.cacheService.set(this.getStampKey(device.id, table), stamp);
+        }
+
+        this.logger.log('ZKTeco upload received', {
+            deviceId: device.id,
+            organizationId: device.organizationId,
+            table,
+            accepted,
+            module: 'zkteco',
+        });
+
+        return accepted;
+    }
+
+    /**
+     * Hand out the queued commands; devices poll this regularly, so it doubles as heartbeat
+     */
+    async getPendingCommands(
+        serialNumber: string,
+        address: string,
+        info?: string
+    ): Promise<string> {
+        const device = await this.authenticate(serialNumber, address, info);
+
+        const commands = await this.zktecoRepository.claimPendingCommands(
+            device.id,
+            COMMANDS_PER_POLL
+        );
+        if (!commands.length) {
+            return 'OK';
+        }
+
+        this.logger.log('Sending commands to ZKTeco device', {
+            deviceId: device.id,
+            commandCount: commands.length,
+            module: 'zkteco',
+        });
+
+        return ZktecoPushUtil.formatCommands(commands);
+    }
+
+    /**
+     * Record the results of executed commands; returns how many matched a sent command
+     */
+    async receiveCommandResults(
+        serialNumber: string,
+        address: string,
+        body: string
+    ): Promise<number> {
+        const device = await this.authenticate(serialNumber, address);
+
+        let completed = 0;
+        for (const result of ZktecoPushUtil.parseCommandResults(body)) {
+            if (
+                await this.zktecoRepository.completeCommand(device.id, result.id, result.returnCode)
+            ) {
+                completed++;
+            }
+
+            if (result.returnCode !== 0) {
+                this.logger.warn('ZKTeco device failed to execute a command', {
+                    deviceId: device.id,
+                    commandId: result.id,
+                    returnCode: result.returnCode,
+                    module: 'zkteco',
+                });
+            }
+        }
+
+        return completed;
+    }
+
+    private async receiveAttendance(
+        device: ZktecoDevice,
+        records: ZktecoAttendanceRecord[]
+    ): Promise<number> {
+        const timeZone = this.getTimeZone(device);
+
+        for (const record of records) {
+            const rawEvent: CreateRawEventDto = {
+                eventType: EVENT_TYPES_BY_VERIFY_MODE[record.verifyMode] || 'attendance.punch',
+                timestamp: TimezoneUtil.parseDateTime(record.time, timeZone).toISOString(),
+                employeeCode: record.pin,
+                additionalData: {
+                    protocol: 'zkteco',
+                    serialNumber: device.deviceIdentifier,
+                    status: record.status,
+                    verifyMode: record.verifyMode,
+                    workCode: record.workCode || undefined,
+                },
+            };
+
+            // Devices upload again what was not acknowledged, so repeats are expected
+            const idempotencyKey = `zkteco:${device.deviceIdentifier}:${record.pin}:${record.time}`;
+            try {
+                await this.eventService.processRawEvent(rawEvent, device.id, idempotencyKey);
+            } catch (error) {
+                if (error.message !== 'DUPLICATE_EVENT') {
+                    throw error;
+                }
+            }
+        }
+
+        return records.length;
+    }
+
+    private async receiveOperations(
+        device: ZktecoDevice,
+        records: ZktecoOperationRecord[]
+    ): Promise<number> {
+        const timeZone = this.getTimeZone(device);
+
+        for (const record of records) {
+            await this.eventRepository.createDeviceEventLog({
+                deviceId: device.id,
+                eventType: `zkteco.${record.type.toLowerCase()}`,
+                metadata: {
+                    protocol: 'zkteco',
+                    serialNumber: device.deviceIdentifier,
+                    type: record.type,
+                    values: record.values,
+                },
+                timestamp: record.values.time
+                    ? TimezoneUtil.parseDateTime(record.values.time, timeZone)
+                    : new Date(),
+                organizationId: device.organizationId,
+            });
+        }
+
+        return records.length;
+    }
+
+    /**
+     * The protocol carries nothing but the serial number, which is printed on the device, so a
+     * device is only accepted from the addresses entered for it. Every request counts as a
+     * heartbeat.
+     */
+    private async authenticate(
+        serialNumber: string,
+        address: string,
+        info?: string
+    ): Promise<ZktecoDevice> {
+        const device = serialNumber
+            ? await this.zktecoRepository.findDeviceBySerialNumber(serialNumber)
+            : null;
+
+        if (!device) {
+            this.logger.logSecurityEvent('ZKTECO_UNKNOWN_DEVICE', {
+                serialNumber,
+                module: 'zkteco',
+            });
+            throw new UnauthorizedException('Unknown device');
+        }
+
+        if (!ZktecoPushUtil.isAddressAllowed(address, device.pushAllowedAddresses)) {
+            this.logger.logSecurityEvent('ZKTECO_ADDRESS_NOT_ALLOWED', {
+                deviceId: device.id,
+                serialNumber,
+                ip: address,
+                module: 'zkteco',
+            });
+            throw new UnauthorizedException('Device not allowed from this address');
+        }
+
+        await this.deviceHeartbeatService.recordHeartbeat(
+            device,
+            ZktecoPushUtil.parseDeviceInfo(info)
+        );
+
+        return device;
+    }
+
+    private getTimeZone(device: ZktecoDevice): string {
+        return device.branch.timezone || device.organization.timezone;
+    }
+
+    private getStampKey(deviceId: string, table: string): string {
+        return `zkteco:stamp:${deviceId}:${table}`;
+    }
+}
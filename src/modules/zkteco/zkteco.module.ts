@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ZktecoPushController } from './zkteco-push.controller';
+import { ZktecoPushService } from './zkteco-push.service';
+import { ZktecoPushRepository } from './zkteco-push.repository';
+import { DatabaseModule } from '@/core/database/database.module';
+import { LoggerModule } from '@/core/logger/logger.module';
+import { CacheModule } from '@/core/cache/cache.module';
+import { DeviceModule } from '../device/device.module';
+import { EventModule } from '../events/event.module';
+
+@Module({
+    imports: [DatabaseModule, LoggerModule, CacheModule, DeviceModule, EventModule],
+    controllers: [ZktecoPushController],
+    providers: [ZktecoPushService, ZktecoPushRepository],
+})
+export class ZktecoModule {}
@@ -1,12 +1,18 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@/core/config/config.module';
 import { LoggerModule } from '@/core/logger/logger.module';
+import { MqttModule } from '@/core/mqtt/mqtt.module';
 import { StubStorageAdapter } from './implementations/stub-storage.adapter';
 import { StubNotificationAdapter } from './implementations/stub-notification.adapter';
 import { StubDeviceAdapter } from './implementations/stub-device.adapter';
 import { StubMatchingAdapter } from './implementations/stub-matching.adapter';
+import { HikvisionDeviceAdapter } from './implementations/hikvision-device.adapter';
+import { ZktecoPushAdapter } from './implementations/zkteco-push.adapter';
+import { MqttDeviceAdapter } from './implementations/mqtt-device.adapter';
+import { DeviceAdapterRegistry } from './device-adapter.registry';
 
 @Module({
-    imports: [LoggerModule],
+    imports: [ConfigModule, LoggerModule, MqttModule],
     providers: [
         {
             provide: 'IStorageAdapter',
@@ -24,7 +30,18 @@ import { StubMatchingAdapter } from './implementations/stub-matching.adapter';
             provide: 'IMatchingAdapter',
             useClass: StubMatchingAdapter,
         },
+        HikvisionDeviceAdapter,
+        ZktecoPushAdapter,
+        MqttDeviceAdapter,
+        DeviceAdapterRegistry,
+    ],
+    exports: [
+        'IStorageAdapter',
+        'INotificationAdapter',
+        'IDeviceAdapter',
+        'IMatchingAdapter',
+        MqttDeviceAdapter,
+        DeviceAdapterRegistry,
     ],
-    exports: ['IStorageAdapter', 'INotificationAdapter', 'IDeviceAdapter', 'IMatchingAdapter'],
 })
 export class AdapterModule {}
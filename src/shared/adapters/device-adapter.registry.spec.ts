@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DeviceAdapterRegistry } from './device-adapter.registry';
+import { HikvisionDeviceAdapter } from './implementations/hikvision-device.adapter';
+import { ZktecoPushAdapter } from './implementations/zkteco-push.adapter';
+import { MqttDeviceAdapter } from './implementations/mqtt-device.adapter';
+
+describe('DeviceAdapterRegistry', () => {
+    let registry: DeviceAdapterRegistry;
+
+    const defaultAdapter = { name: 'default' };
+    const hikvisionAdapter = { name: 'hikvision' };
+    const zktecoAdapter = { name: 'zkteco' };
+    const mqttAdapter = {
+        name: 'mqtt',
+        hasCommandChannel: (organizationId: string) => organizationId === 'org-mqtt',
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DeviceAdapterRegistry,
+                {
+                    provide: 'IDeviceAdapter',
+                    useValue: defaultAdapter,
+                },
+                {
+                    provide: HikvisionDeviceAdapter,
+                    useValue: hikvisionAdapter,
+                },
+                {
+                    provide: ZktecoPushAdapter,
+                    useValue: zktecoAdapter,
+                },
+                {
+                    provide: MqttDeviceAdapter,
+                    useValue: mqttAdapter,
+                },
+            ],
+        }).compile();
+
+        registry = module.get<DeviceAdapterRegistry>(DeviceAdapterRegistry);
+    });
+
+    it('should select the Hikvision adapter by model', () => {
+        expect(
+            registry.forDevice({
+                model: 'DS-K1T671M',
+                type: 'facial_recognition',
+                organizationId: 'org-123',
+            })
+        ).toBe(hikvisionAdapter);
+        expect(
+            registry.forDevice({
+                model: 'iDS-2CD7A46G0',
+                type: 'CAMERA',
+                organizationId: 'org-123',
+            })
+        ).toBe(hikvisionAdapter);
+    });
+
+    it('should select the ZKTeco push adapter by model', () => {
+        expect(
+            registry.forDevice({
+                model: 'SpeedFace-V5L',
+                type: 'biometric',
+                organizationId: 'org-123',
+            })
+        ).toBe(zktecoAdapter);
+        expect(
+            registry.forDevice({
+                model: 'ZKTeco MB460',
+                type: 'FINGERPRINT',
+                organizationId: 'org-123',
+            })
+        ).toBe(zktecoAdapter);
+    });
+
+    it('should publish commands over MQTT for organizations with a command topic', () => {
+        expect(
+            registry.forDevice({
+                model: 'Generic Reader',
+                type: 'CARD_READER',
+                organizationId: 'org-mqtt',
+            })
+        ).toBe(mqttAdapter);
+        expect(
+            registry.forDevice({
+                model: 'DS-K1T671M',
+                type: 'CARD_READER',
+                organizationId: 'org-mqtt',
+            })
+        ).toBe(hikvisionAdapter);
+    });
+
+    it('should fall back to the default adapter', () => {
+        expect(
+            registry.forDevice({ model: null, type: 'CARD_READER', organizationId: 'org-123' })
+        ).toBe(defaultAdapter);
+        expect(
+            registry.forDevice({
+                model: 'Generic Reader',
+                type: 'biometric',
+                organizationId: 'org-123',
+            })
+        ).toBe(defaultAdapter);
+    });
+});
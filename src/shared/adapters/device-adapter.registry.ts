@@ -0,0 +1,59 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Device } from '@prisma/client';
+import { IDeviceAdapter } from './device.adapter';
+import { HikvisionDeviceAdapter } from './implementations/hikvision-device.adapter';
+import { ZktecoPushAdapter } from './implementations/zkteco-push.adapter';
+import { MqttDeviceAdapter } from './implementations/mqtt-device.adapter';
+
+/** Hikvision models start with DS- (IDS- for the iDS series) */
+const HIKVISION_MODEL_PATTERN = /^i?DS-|hikvision/i;
+/** ZKTeco terminal series that use the push protocol */
+const ZKTECO_MODEL_PATTERN = /zkteco|^(SpeedFace|ProFace|uFace|iClock|MB\d|K\d|F\d|SF\d)/i;
+
+type AdapterSelector = Pick<Device, 'model' | 'type' | 'organizationId'>;
+
+/**
+ * Picks the adapter that speaks a device's protocol, falling back to the default IDeviceAdapter.
+ * Vendor protocols go first; other devices of organizations with an MQTT command topic get
+ * their commands over MQTT.
+ */
+@Injectable()
+export class DeviceAdapterRegistry {
+    private readonly adapters: Array<{
+        matches: (device: AdapterSelector) => boolean;
+        adapter: IDeviceAdapter;
+    }>;
+
+    constructor(
+        @Inject('IDeviceAdapter') private readonly defaultAdapter: IDeviceAdapter,
+        hikvisionAdapter: HikvisionDeviceAdapter,
+        zktecoAdapter: ZktecoPushAdapter,
+        mqttAdapter: MqttDeviceAdapter
+    ) {
+        this.adapters = [
+            {
+                matches: device => HIKVISION_MODEL_PATTERN.test(device.model || ''),
+                adapter: hikvisionAdapter,
+            },
+            {
+                matches: device => ZKTECO_MODEL_PATTERN.test(device.model || ''),
+                adapter: zktecoAdapter,
+            },
+            {
+                matches: device => mqttAdapter.hasCommandChannel(device.organizationId),
+                adapter: mqttAdapter,
+            },
+        ];
+    }
+
+    forDevice(device: AdapterSelector): IDeviceAdapter {
+        return this.adapters.find(entry => entry.matches(device))?.adapter || this.defaultAdapter;
+    }
+
+    /**
+     * Every adapter, e.g. to discover devices of all vendors
+     */
+    getAll(): IDeviceAdapter[] {
+        return [this.defaultAdapter, ...this.adapters.map(entry => entry.adapter)];
+    }
+}
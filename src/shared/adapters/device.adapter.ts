@@ -16,11 +16,15 @@ export interface DeviceCapability {
     configuration?: Record<string, any>;
 }
 
+export type DeviceConfigurationSection = 'settings' | 'schedules' | 'accessRules';
+
 export interface DeviceConfiguration {
     deviceId: string;
     settings: Record<string, any>;
     schedules?: DeviceSchedule[];
     accessRules?: DeviceAccessRule[];
+    /** The sections read back from the device; all of them when omitted */
+    reported?: DeviceConfigurationSection[];
 }
 
 export interface DeviceSchedule {
@@ -44,6 +48,7 @@ export interface DeviceCommand {
     command: 'unlock_door' | 'lock_door' | 'reboot' | 'sync_users' | 'update_firmware';
     parameters?: Record<string, any>;
     timeout?: number; // seconds
+    commandId?: string; // Of the device command request, for devices that report results
 }
 
 export interface DeviceCommandResult {
@@ -51,6 +56,7 @@ export interface DeviceCommandResult {
     message?: string;
     data?: any;
     executedAt: Date;
+    pending?: boolean; // Accepted by a device that executes it later and reports the result
 }
 
 export interface DeviceEvent {
@@ -76,6 +82,7 @@ export interface DeviceHealth {
     memoryUsage?: number; // percentage
     diskUsage?: number; // percentage
     temperature?: number; // celsius
+    firmwareVersion?: string; // As the device reports it, for devices that are polled
     lastHealthCheck: Date;
     issues?: string[];
 }
@@ -131,6 +138,7 @@ export interface IDeviceAdapter {
         deviceId: string,
         users: Array<{
             userId: string;
+            name?: string;
             cardId?: string;
             biometricData?: string;
             accessLevel: number;
@@ -0,0 +1,260 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HikvisionDeviceAdapter } from './hikvision-device.adapter';
+import { HikvisionIsapiStandIn } from '../testing/hikvision-isapi.stand-in';
+import { DeviceEvent } from '../device.adapter';
+import { ConfigService } from '@/core/config/config.service';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+
+describe('HikvisionDeviceAdapter', () => {
+    let adapter: HikvisionDeviceAdapter;
+    let standIn: HikvisionIsapiStandIn;
+    let prismaService: { device: { findUnique: jest.Mock } };
+    let mockConfigService: Record<string, any>;
+
+    const userId = '3f2b8c1e-9d4a-4b6e-8f1a-2c3d4e5f6a7b';
+    const employeeNo = '3f2b8c1e9d4a4b6e8f1a2c3d4e5f6a7b';
+
+    const waitFor = async (condition: () => boolean) => {
+        for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        expect(condition()).toBe(true);
+    };
+
+    beforeEach(async () => {
+        standIn = new HikvisionIsapiStandIn({ password: 'terminal-password' });
+        const port = await standIn.start();
+
+        prismaService = {
+            device: {
+                findUnique: jest.fn().mockResolvedValue({ ipAddress: `127.0.0.1:${port}` }),
+            },
+        };
+
+        mockConfigService = {
+            hikvisionUsername: 'admin',
+            hikvisionPassword: 'terminal-password',
+            hikvisionUseHttps: false,
+            hikvisionAllowSelfSignedCertificates: false,
+            hikvisionRequestTimeoutMs: 2000,
+            hikvisionDiscoveryHosts: [`127.0.0.1:${port}`, '127.0.0.1:1'],
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                HikvisionDeviceAdapter,
+                {
+                    provide: PrismaService,
+                    useValue: prismaService,
+                },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        adapter = module.get<HikvisionDeviceAdapter>(HikvisionDeviceAdapter);
+    });
+
+    afterEach(async () => {
+        await adapter.unsubscribeFromEvents(standIn.serialNumber);
+        await standIn.stop();
+    });
+
+    it('should be defined', () => {
+        expect(adapter).toBeDefined();
+    });
+
+    describe('digest authentication', () => {
+        it('should authenticate once and reuse the nonce', async () => {
+            const info = await adapter.getDeviceInfo(standIn.serialNumber);
+            await adapter.getDeviceHealth(standIn.serialNumber);
+
+            expect(info).toEqual(
+                expect.objectContaining({
+                    id: standIn.serialNumber,
+                    type: 'facial_recognition',
+                    macAddress: 'A4:D5:C2:00:00:01',
+                    firmwareVersion: 'V3.2.30 build 220501',
+                })
+            );
+            expect(prismaService.device.findUnique).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { deviceIdentifier: standIn.serialNumber } })
+            );
+            expect(standIn.unauthorizedCount).toBe(1);
+        });
+
+        it('should authenticate again when the nonce expires', async () => {
+            await adapter.getDeviceInfo(standIn.serialNumber);
+            standIn.expireNonce();
+
+            await expect(adapter.getDeviceInfo(standIn.serialNumber)).resolves.toBeDefined();
+            expect(standIn.unauthorizedCount).toBe(2);
+        });
+
+        it('should fail the connection test with wrong credentials', async () => {
+            mockConfigService.hikvisionPassword = 'wrong-password';
+
+            await expect(adapter.testConnection(standIn.serialNumber)).resolves.toBe(false);
+        });
+    });
+
+    it('should throw for devices that are not registered', async () => {
+        prismaService.device.findUnique.mockResolvedValue(null);
+
+        await expect(adapter.getDeviceInfo('unknown-device')).rejects.toThrow(
+            'Device not found: unknown-device'
+        );
+    });
+
+    describe('sendCommand', () => {
+        it('should open and close the door', async () => {
+            const result = await adapter.sendCommand(standIn.serialNumber, {
+                command: 'unlock_door',
+            });
+            expect(result.success).toBe(true);
+            expect(standIn.doors.get(1)).toBe('open');
+
+            await adapter.sendCommand(standIn.serialNumber, {
+                command: 'lock_door',
+                parameters: { doorNo: 2 },
+            });
+            expect(standIn.doors.get(2)).toBe('close');
+        });
+
+        it('should reboot the device', async () => {
+            await adapter.sendCommand(standIn.serialNumber, { command: 'reboot' });
+
+            expect(standIn.rebootCount).toBe(1);
+        });
+    });
+
+    describe('syncUsers', () => {
+        it('should create users with their cards and faces', async () => {
+            const face = Buffer.from('jpeg-bytes');
+
+            await adapter.syncUsers(standIn.serialNumber, [
+                {
+                    userId,
+                    name: 'Aziz Karimov',
+                    cardId: '1234567890',
+                    biometricData: face.toString('base64'),
+                    accessLevel: 1,
+                },
+            ]);
+
+            expect(standIn.users.get(employeeNo)).toEqual(
+                expect.objectContaining({
+                    name: 'Aziz Karimov',
+                    Valid: expect.objectContaining({ enable: true }),
+                })
+            );
+            expect(standIn.cards.get('1234567890')).toEqual(
+                expect.objectContaining({ employeeNo })
+            );
+            expect(standIn.faces.get(employeeNo)).toEqual(face);
+        });
+
+        it('should remove users with their cards and faces', async () => {
+            await adapter.syncUsers(standIn.serialNumber, [
+                { userId, cardId: '1234567890', accessLevel: 1 },
+            ]);
+
+            await adapter.removeUser(standIn.serialNumber, userId);
+
+            expect(standIn.users.size).toBe(0);
+            expect(standIn.cards.size).toBe(0);
+        });
+    });
+
+    describe('getDeviceHealth', () => {
+        it('should report uptime and memory usage', async () => {
+            standIn.memoryUsage = 470;
+            standIn.memoryAvailable = 42;
+
+            const health = await adapter.getDeviceHealth(standIn.serialNumber);
+
+            expect(health).toEqual(
+                expect.objectContaining({
+                    status: 'critical',
+                    uptime: 86400,
+                    memoryUsage: 92,
+                    firmwareVersion: 'V3.2.30 build 220501',
+                    issues: ['High memory usage'],
+                })
+            );
+        });
+    });
+
+    describe('subscribeToEvents', () => {
+        it('should pass on access control events from the alertStream', async () => {
+            const events: DeviceEvent[] = [];
+            await adapter.subscribeToEvents(standIn.serialNumber, event => events.push(event));
+            await waitFor(() => standIn.alertStreamCount === 1);
+
+            standIn.pushEvent({
+                majorEventType: 5,
+                subEventType: 75,
+                employeeNoString: employeeNo,
+                currentVerifyMode: 'face',
+            });
+            standIn.pushEvent({ majorEventType: 5, subEventType: 9, cardNo: '999' });
+
+            await waitFor(() => events.length === 2);
+            expect(events[0]).toEqual(
+                expect.objectContaining({
+                    deviceId: standIn.serialNumber,
+                    eventType: 'access_granted',
+                    userId,
+                })
+            );
+            expect(events[1]).toEqual(
+                expect.objectContaining({ eventType: 'access_denied', cardId: '999' })
+            );
+        });
+
+        it('should close the alertStream when unsubscribed', async () => {
+            await adapter.subscribeToEvents(standIn.serialNumber, jest.fn());
+            await waitFor(() => standIn.alertStreamCount === 1);
+
+            await adapter.unsubscribeFromEvents(standIn.serialNumber);
+
+            await waitFor(() => standIn.alertStreamCount === 0);
+        });
+    });
+
+    describe('getDeviceLogs', () => {
+        it('should page through the access control events', async () => {
+            for (let i = 0; i < 35; i++) {
+                standIn.pushEvent({ majorEventType: 5, subEventType: 1, cardNo: `${i}` });
+            }
+
+            const logs = await adapter.getDeviceLogs(standIn.serialNumber);
+
+            expect(logs).toHaveLength(35);
+            expect(logs[34]).toContain('[5/1] card 34');
+        });
+    });
+
+    describe('discoverDevices', () => {
+        it('should report the configured hosts that answer', async () => {
+            const devices = await adapter.discoverDevices();
+
+            expect(devices).toHaveLength(1);
+            expect(devices[0].id).toBe(standIn.serialNumber);
+        });
+    });
+});
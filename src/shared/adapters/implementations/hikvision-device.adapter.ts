@@ -0,0 +1,597 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { ConfigService } from '@/core/config/config.service';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+    DeviceCommand,
+    DeviceCommandResult,
+    DeviceConfiguration,
+    DeviceEvent,
+    DeviceHealth,
+    DeviceInfo,
+    IDeviceAdapter,
+} from '../device.adapter';
+import { HikvisionIsapiClient, IsapiStream, readXmlValue } from './hikvision-isapi.client';
+
+const ALERT_STREAM_PATH = '/ISAPI/Event/notification/alertStream';
+const ALERT_STREAM_RECONNECT_MS = 5000;
+const ACS_EVENT_PAGE_SIZE = 30;
+const ACS_EVENT_MAX_PAGES = 20;
+const DEFAULT_DOOR_NO = 1;
+
+/** Major type of access control events, with the minor types this system tells apart */
+const MAJOR_EVENT = 5;
+const MAJOR_ALARM = 1;
+const GRANTED_MINOR_TYPES = [1, 38, 75];
+const DENIED_MINOR_TYPES = [6, 9, 39, 76];
+const DOOR_OPENED_MINOR_TYPES = [21];
+const DOOR_CLOSED_MINOR_TYPES = [22];
+
+type SyncUser = Parameters<IDeviceAdapter['syncUsers']>[1][number];
+
+/**
+ * Adapter for Hikvision access control terminals speaking ISAPI. Devices are addressed by their
+ * deviceIdentifier (the serial number) and reached at their registered IP address with the
+ * credentials from the configuration.
+ */
+@Injectable()
+export class HikvisionDeviceAdapter implements IDeviceAdapter {
+    private clients: Map<string, { client: HikvisionIsapiClient; host: string }> = new Map();
+    private subscriptions: Map<string, { stream?: IsapiStream; reconnect?: NodeJS.Timeout }> =
+        new Map();
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly config: ConfigService,
+        private readonly logger: LoggerService
+    ) {}
+
+    async discoverDevices(): Promise<DeviceInfo[]> {
+        const hosts = this.config.hikvisionDiscoveryHosts;
+        this.logger.log('Discovering Hikvision devices', { hosts: hosts.length });
+
+        const devices = await Promise.all(
+            hosts.map(async host => {
+                try {
+                    return await this.readDeviceInfo(this.createClient(host), host);
+                } catch (error) {
+                    this.logger.warn('Hikvision device did not answer discovery', {
+                        host,
+                        error: error.message,
+                    });
+                    return null;
+                }
+            })
+        );
+
+        return devices.filter(Boolean);
+    }
+
+    async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+        const { client, host } = await this.getClient(deviceId);
+
+        return this.readDeviceInfo(client, host);
+    }
+
+    async getDeviceConfiguration(deviceId: string): Promise<DeviceConfiguration> {
+        const { client } = await this.getClient(deviceId);
+        const response = await client.requestJson('GET', '/ISAPI/AccessControl/AcsCfg');
+
+        return {
+            deviceId,
+            settings: response?.AcsCfg || {},
+            schedules: [],
+            accessRules: [],
+            // Schedules and access rules are not synced, see updateDeviceConfiguration
+            reported: ['settings'],
+        };
+    }
+
+    async updateDeviceConfiguration(
+        deviceId: string,
+        configuration: Partial<DeviceConfiguration>
+    ): Promise<void> {
+        const { client } = await this.getClient(deviceId);
+
+        if (configuration.schedules?.length || configuration.accessRules?.length) {
+            this.logger.warn('Schedules and access rules are not synced to Hikvision devices', {
+                deviceId,
+            });
+        }
+
+        if (configuration.settings) {
+            await client.requestJson('PUT', '/ISAPI/AccessControl/AcsCfg', {
+                AcsCfg: configuration.settings,
+            });
+        }
+    }
+
+    async sendCommand(deviceId: string, command: DeviceCommand): Promise<DeviceCommandResult> {
+        this.logger.log('Sending command to Hikvision device', {
+            deviceId,
+            command: command.command,
+        });
+
+        switch (command.command) {
+            case 'unlock_door':
+            case 'lock_door':
+                await this.controlDoor(
+                    deviceId,
+                    command.command === 'unlock_door' ? 'open' : 'close',
+                    command.parameters?.doorNo
+                );
+                break;
+            case 'reboot':
+                await this.rebootDevice(deviceId);
+                break;
+            case 'sync_users':
+                await this.syncUsers(deviceId, command.parameters?.users || []);
+                break;
+            case 'update_firmware': {
+                const result = await this.updateFirmware(deviceId, command.parameters?.firmwareUrl);
+                return { ...result, executedAt: new Date() };
+            }
+            default:
+                return {
+                    success: false,
+                    message: `Command ${command.command} is not supported by Hikvision devices`,
+                    executedAt: new Date(),
+                };
+        }
+
+        return {
+            success: true,
+            message: `Command ${command.command} executed successfully`,
+            executedAt: new Date(),
+        };
+    }
+
+    async getDeviceHealth(deviceId: string): Promise<DeviceHealth> {
+        const { client } = await this.getClient(deviceId);
+        const status = await client.requestXml('GET', '/ISAPI/System/status');
+        const info = await client.requestXml('GET', '/ISAPI/System/deviceInfo');
+
+        const cpuUsage = Number(readXmlValue(status, 'cpuUtilization') || 0);
+        const memoryUsed = Number(readXmlValue(status, 'memoryUsage') || 0);
+        const memoryAvailable = Number(readXmlValue(status, 'memoryAvailable') || 0);
+        const memoryUsage =
+            memoryUsed + memoryAvailable > 0
+                ? Math.round((memoryUsed / (memoryUsed + memoryAvailable)) * 100)
+                : undefined;
+
+        let health: DeviceHealth['status'] = 'healthy';
+        const issues: string[] = [];
+
+        if (memoryUsage > 90) {
+            health = 'critical';
+            issues.push('High memory usage');
+        } else if (memoryUsage > 80) {
+            health = 'warning';
+            issues.push('Elevated memory usage');
+        }
+
+        if (cpuUsage > 90) {
+            health = health === 'critical' ? health : 'warning';
+            issues.push('High CPU usage');
+        }
+
+        return {
+            deviceId,
+            status: health,
+            uptime: Number(readXmlValue(status, 'deviceUpTime') || 0),
+            memoryUsage,
+            firmwareVersion: readXmlValue(info, 'firmwareVersion'),
+            lastHealthCheck: new Date(),
+            issues: issues.length > 0 ? issues : undefined,
+        };
+    }
+
+    /**
+     * Keep an alertStream open and pass on its access control events. The stream is reopened
+     * when the device drops it, until unsubscribed.
+     */
+    async subscribeToEvents(
+        deviceId: string,
+        callback: (event: DeviceEvent) => void
+    ): Promise<void> {
+        await this.unsubscribeFromEvents(deviceId);
+
+        const { client } = await this.getClient(deviceId);
+        const subscription: { stream?: IsapiStream; reconnect?: NodeJS.Timeout } = {};
+        this.subscriptions.set(deviceId, subscription);
+
+        const isCurrent = () => this.subscriptions.get(deviceId) === subscription;
+        const open = async () => {
+            if (!isCurrent()) {
+                return;
+            }
+
+            try {
+                subscription.stream = await client.openStream(
+                    ALERT_STREAM_PATH,
+                    part => {
+                        const event = this.mapAlert(deviceId, part.contentType, part.body);
+                        if (event) {
+                            callback(event);
+                        }
+                    },
+                    error => {
+                        if (!isCurrent()) {
+                            return;
+                        }
+                        this.logger.warn('Hikvision alert stream closed, reconnecting', {
+                            deviceId,
+                            error: error?.message,
+                        });
+                        subscription.reconnect = setTimeout(open, ALERT_STREAM_RECONNECT_MS);
+                    }
+                );
+                // Unsubscribed while the stream was being opened
+                if (!isCurrent()) {
+                    subscription.stream.close();
+                }
+            } catch (error) {
+                if (!isCurrent()) {
+                    return;
+                }
+                this.logger.error('Failed to open Hikvision alert stream', error, { deviceId });
+                subscription.reconnect = setTimeout(open, ALERT_STREAM_RECONNECT_MS);
+            }
+        };
+
+        await open();
+        this.logger.log('Subscribed to Hikvision device events', { deviceId });
+    }
+
+    async unsubscribeFromEvents(deviceId: string): Promise<void> {
+        const subscription = this.subscriptions.get(deviceId);
+        if (!subscription) {
+            return;
+        }
+
+        this.subscriptions.delete(deviceId);
+        clearTimeout(subscription.reconnect);
+        subscription.stream?.close();
+    }
+
+    /**
+     * Create or update each user with its card and face. biometricData is a base64 encoded
+     * JPEG of the face.
+     */
+    async syncUsers(deviceId: string, users: SyncUser[]): Promise<void> {
+        const { client } = await this.getClient(deviceId);
+        this.logger.log('Syncing users to Hikvision device', {
+            deviceId,
+            userCount: users.length,
+        });
+
+        for (const user of users) {
+            const employeeNo = this.toEmployeeNo(user.userId);
+
+            await client.requestJson('PUT', '/ISAPI/AccessControl/UserInfo/SetUp', {
+                UserInfo: {
+                    employeeNo,
+                    name: user.name || employeeNo,
+                    userType: 'normal',
+                    Valid: {
+                        enable: user.accessLevel > 0,
+                        beginTime: '2000-01-01T00:00:00',
+                        endTime: '2037-12-31T23:59:59',
+                    },
+                    doorRight: String(DEFAULT_DOOR_NO),
+                    RightPlan: [{ doorNo: DEFAULT_DOOR_NO, planTemplateNo: '1' }],
+                },
+            });
+
+            if (user.cardId) {
+                await client.requestJson('PUT', '/ISAPI/AccessControl/CardInfo/SetUp', {
+                    CardInfo: { employeeNo, cardNo: user.cardId, cardType: 'normalCard' },
+                });
+            }
+
+            if (user.biometricData) {
+                await this.uploadFace(client, employeeNo, user.biometricData);
+            }
+        }
+    }
+
+    async removeUser(deviceId: string, userId: string): Promise<void> {
+        const { client } = await this.getClient(deviceId);
+
+        // Removing the user removes its cards and face as well
+        await client.requestJson('PUT', '/ISAPI/AccessControl/UserInfo/Delete', {
+            UserInfoDelCond: {
+                EmployeeNoList: [{ employeeNo: this.toEmployeeNo(userId) }],
+            },
+        });
+    }
+
+    async testConnection(deviceId: string): Promise<boolean> {
+        try {
+            const { client } = await this.getClient(deviceId);
+            await client.requestXml('GET', '/ISAPI/System/deviceInfo');
+            return true;
+        } catch (error) {
+            this.logger.warn('Hikvision device connection test failed', {
+                deviceId,
+                error: error.message,
+            });
+            return false;
+        }
+    }
+
+    async rebootDevice(deviceId: string): Promise<void> {
+        const { client } = await this.getClient(deviceId);
+        await client.requestXml('PUT', '/ISAPI/System/reboot');
+
+        // The device will be gone for a while, so a new client authenticates afresh
+        this.clients.delete(deviceId);
+    }
+
+    async updateFirmware(
+        deviceId: string,
+        firmwareUrl: string
+    ): Promise<{ success: boolean; message: string }> {
+        if (!firmwareUrl) {
+            return { success: false, message: 'Firmware URL is required' };
+        }
+
+        const { client } = await this.getClient(deviceId);
+
+        const download = await fetch(firmwareUrl);
+        if (!download.ok) {
+            return {
+                success: false,
+                message: `Failed to download firmware: ${download.status}`,
+            };
+        }
+
+        try {
+            await client.request('PUT', '/ISAPI/System/updateFirmware', {
+                body: Buffer.from(await download.arrayBuffer()),
+                contentType: 'application/octet-stream',
+            });
+        } catch (error) {
+            return { success: false, message: error.message };
+        }
+
+        return {
+            success: true,
+            message: 'Firmware uploaded, the device reboots to apply it',
+        };
+    }
+
+    async getDeviceLogs(deviceId: string, startDate?: Date, endDate?: Date): Promise<string[]> {
+        const { client } = await this.getClient(deviceId);
+        const searchID = randomBytes(8).toString('hex');
+        const logs: string[] = [];
+
+        for (let page = 0; page < ACS_EVENT_MAX_PAGES; page++) {
+            const response = await client.requestJson('POST', '/ISAPI/AccessControl/AcsEvent', {
+                AcsEventCond: {
+                    searchID,
+                    searchResultPosition: page * ACS_EVENT_PAGE_SIZE,
+                    maxResults: ACS_EVENT_PAGE_SIZE,
+                    major: 0,
+                    minor: 0,
+                    startTime: this.formatTime(
+                        startDate || new Date(Date.now() - 24 * 60 * 60 * 1000)
+                    ),
+                    endTime: this.formatTime(endDate || new Date()),
+                },
+            });
+
+            const events: any[] = response?.AcsEvent?.InfoList || [];
+            logs.push(
+                ...events.map(event =>
+                    [
+                        `${event.time} [${event.major}/${event.minor}]`,
+                        event.employeeNoString && `employee ${event.employeeNoString}`,
+                        event.cardNo && `card ${event.cardNo}`,
+                    ]
+                        .filter(Boolean)
+                        .join(' ')
+                )
+            );
+
+            if (response?.AcsEvent?.responseStatusStrg !== 'MORE') {
+                break;
+            }
+        }
+
+        return logs;
+    }
+
+    async clearDeviceLogs(deviceId: string): Promise<void> {
+        this.logger.warn('Clearing logs is not supported by Hikvision devices', { deviceId });
+
+        throw new Error('Hikvision devices do not support clearing their event log over ISAPI');
+    }
+
+    private async getClient(
+        deviceId: string
+    ): Promise<{ client: HikvisionIsapiClient; host: string }> {
+        const device = await this.prisma.device.findUnique({
+            where: { deviceIdentifier: deviceId },
+            select: { ipAddress: true },
+        });
+        if (!device) {
+            throw new Error(`Device not found: ${deviceId}`);
+        }
+        if (!device.ipAddress) {
+            throw new Error(`Device has no IP address: ${deviceId}`);
+        }
+
+        // A client is reused so its digest nonce carries over between requests
+        let connection = this.clients.get(deviceId);
+        if (!connection || connection.host !== device.ipAddress) {
+            connection = { client: this.createClient(device.ipAddress), host: device.ipAddress };
+            this.clients.set(deviceId, connection);
+        }
+
+        return connection;
+    }
+
+    private createClient(address: string): HikvisionIsapiClient {
+        const [host, port] = address.split(':');
+
+        return new HikvisionIsapiClient({
+            host,
+            port: port ? Number(port) : undefined,
+            useHttps: this.config.hikvisionUseHttps,
+            allowSelfSignedCertificates: this.config.hikvisionAllowSelfSignedCertificates,
+            username: this.config.hikvisionUsername,
+            password: this.config.hikvisionPassword,
+            timeoutMs: this.config.hikvisionRequestTimeoutMs,
+        });
+    }
+
+    private async readDeviceInfo(client: HikvisionIsapiClient, host: string): Promise<DeviceInfo> {
+        const info = await client.requestXml('GET', '/ISAPI/System/deviceInfo');
+
+        return {
+            id: readXmlValue(info, 'serialNumber'),
+            name: readXmlValue(info, 'deviceName') || readXmlValue(info, 'model'),
+            type: 'facial_recognition',
+            status: 'online',
+            ipAddress: host,
+            macAddress: readXmlValue(info, 'macAddress')?.toUpperCase(),
+            firmwareVersion: readXmlValue(info, 'firmwareVersion'),
+            lastSeen: new Date(),
+            capabilities: [
+                { type: 'facial_recognition', enabled: true },
+                { type: 'card_read', enabled: true },
+                { type: 'door_control', enabled: true },
+            ],
+        };
+    }
+
+    private async controlDoor(
+        deviceId: string,
+        cmd: 'open' | 'close',
+        doorNo: number = DEFAULT_DOOR_NO
+    ): Promise<void> {
+        const { client } = await this.getClient(deviceId);
+
+        await client.requestXml(
+            'PUT',
+            `/ISAPI/AccessControl/RemoteControl/door/${doorNo}`,
+            `<RemoteControlDoor><cmd>${cmd}</cmd></RemoteControlDoor>`
+        );
+    }
+
+    private async uploadFace(
+        client: HikvisionIsapiClient,
+        employeeNo: string,
+        faceImage: string
+    ): Promise<void> {
+        const boundary = `----isapi${randomBytes(8).toString('hex')}`;
+        const record = JSON.stringify({ faceLibType: 'blackFD', FDID: '1', FPID: employeeNo });
+
+        const body = Buffer.concat([
+            Buffer.from(
+                `--${boundary}\r\n` +
+                    'Content-Disposition: form-data; name="FaceDataRecord"\r\n' +
+                    'Content-Type: application/json\r\n\r\n' +
+                    `${record}\r\n` +
+                    `--${boundary}\r\n` +
+                    'Content-Disposition: form-data; name="img"; filename="face.jpg"\r\n' +
+                    'Content-Type: image/jpeg\r\n\r\n'
+            ),
+            Buffer.from(faceImage, 'base64'),
+            Buffer.from(`\r\n--${boundary}--\r\n`),
+        ]);
+
+        await client.request('PUT', '/ISAPI/Intelligent/FDLib/FDSetUp?format=json', {
+            body,
+            contentType: `multipart/form-data; boundary=${boundary}`,
+        });
+    }
+
+    private mapAlert(deviceId: string, contentType: string, body: Buffer): DeviceEvent | null {
+        if (!contentType.includes('json')) {
+            // Face snapshots and XML heartbeats carry no access control event
+            return null;
+        }
+
+        let alert: any;
+        try {
+            alert = JSON.parse(body.toString('utf8'));
+        } catch {
+            this.logger.warn('Ignoring malformed Hikvision alert', { deviceId });
+            return null;
+        }
+
+        const acsEvent = alert.AccessControllerEvent;
+        if (alert.eventType !== 'AccessControllerEvent' || !acsEvent) {
+            return null;
+        }
+
+        const eventType = this.mapEventType(acsEvent.majorEventType, acsEvent.subEventType);
+        if (!eventType) {
+            return null;
+        }
+
+        return {
+            deviceId,
+            eventType,
+            timestamp: alert.dateTime ? new Date(alert.dateTime) : new Date(),
+            userId: acsEvent.employeeNoString
+                ? this.fromEmployeeNo(acsEvent.employeeNoString)
+                : undefined,
+            cardId: acsEvent.cardNo || undefined,
+            biometricId:
+                acsEvent.currentVerifyMode === 'face' ? acsEvent.employeeNoString : undefined,
+            data: {
+                majorEventType: acsEvent.majorEventType,
+                subEventType: acsEvent.subEventType,
+                doorNo: acsEvent.doorNo,
+                verifyMode: acsEvent.currentVerifyMode,
+                serialNo: acsEvent.serialNo,
+            },
+        };
+    }
+
+    private mapEventType(major: number, minor: number): DeviceEvent['eventType'] | null {
+        if (major === MAJOR_ALARM) {
+            return 'alarm';
+        }
+        if (major !== MAJOR_EVENT) {
+            return null;
+        }
+        if (GRANTED_MINOR_TYPES.includes(minor)) {
+            return 'access_granted';
+        }
+        if (DENIED_MINOR_TYPES.includes(minor)) {
+            return 'access_denied';
+        }
+        if (DOOR_OPENED_MINOR_TYPES.includes(minor)) {
+            return 'door_opened';
+        }
+        if (DOOR_CLOSED_MINOR_TYPES.includes(minor)) {
+            return 'door_closed';
+        }
+
+        return null;
+    }
+
+    /**
+     * Devices take employee numbers of up to 32 characters, so the dashes of UUIDs are dropped
+     */
+    private toEmployeeNo(userId: string): string {
+        return userId.replace(/-/g, '');
+    }
+
+    private fromEmployeeNo(employeeNo: string): string {
+        const uuid = /^([0-9a-f]{8})([0-9a-f]{4})([0-9a-f]{4})([0-9a-f]{4})([0-9a-f]{12})$/i.exec(
+            employeeNo
+        );
+
+        return uuid ? uuid.slice(1).join('-') : employeeNo;
+    }
+
+    private formatTime(date: Date): string {
+        return date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+    }
+}
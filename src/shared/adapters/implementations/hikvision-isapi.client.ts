@@ -0,0 +1,354 @@
+import { createHash, randomBytes } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+
+export interface IsapiConnection {
+    host: string;
+    port?: number;
+    useHttps?: boolean;
+    allowSelfSignedCertificates?: boolean;
+    username: string;
+    password: string;
+    timeoutMs?: number;
+}
+
+export interface IsapiResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export interface IsapiRequestOptions {
+    body?: string | Buffer;
+    contentType?: string;
+}
+
+export interface IsapiStream {
+    close(): void;
+}
+
+interface DigestChallenge {
+    realm: string;
+    nonce: string;
+    qop?: string;
+    opaque?: string;
+    algorithm?: string;
+}
+
+/**
+ * Minimal ISAPI client: HTTP digest authentication, JSON/XML requests and the multipart
+ * alertStream. One client talks to one device.
+ */
+export class HikvisionIsapiClient {
+    private challenge: DigestChallenge | null = null;
+    private nonceCount = 0;
+
+    constructor(private readonly connection: IsapiConnection) {}
+
+    async request(
+        method: string,
+        path: string,
+        options: IsapiRequestOptions = {}
+    ): Promise<IsapiResponse> {
+        let response = await this.send(method, path, options);
+
+        // Authenticate on the first request, and again once the device drops the nonce
+        if (response.statusCode === 401) {
+            this.challenge = this.parseChallenge(response.headers['www-authenticate']);
+            this.nonceCount = 0;
+            response = await this.send(method, path, options);
+        }
+
+        if (response.statusCode >= 400) {
+            throw new Error(
+                `ISAPI ${method} ${path} failed with ${response.statusCode}: ${this.describeError(response)}`
+            );
+        }
+
+        return response;
+    }
+
+    async requestJson<T = any>(method: string, path: string, body?: unknown): Promise<T> {
+        const separator = path.includes('?') ? '&' : '?';
+        const response = await this.request(method, `${path}${separator}format=json`, {
+            body: body === undefined ? undefined : JSON.stringify(body),
+            contentType: 'application/json',
+        });
+
+        return response.body.length ? JSON.parse(response.body.toString('utf8')) : undefined;
+    }
+
+    async requestXml(method: string, path: string, body?: string): Promise<string> {
+        const response = await this.request(method, path, {
+            body,
+            contentType: 'application/xml',
+        });
+
+        return response.body.toString('utf8');
+    }
+
+    /**
+     * Open a long-lived multipart stream such as the alertStream, calling onPart with each
+     * part. onClose is called once when the stream ends or fails.
+     */
+    async openStream(
+        path: string,
+        onPart: (part: { contentType: string; body: Buffer }) => void,
+        onClose: (error?: Error) => void
+    ): Promise<IsapiStream> {
+        let response = await this.openRaw('GET', path);
+        if (response.statusCode === 401) {
+            response.resume();
+            this.challenge = this.parseChallenge(response.headers['www-authenticate']);
+            this.nonceCount = 0;
+            response = await this.openRaw('GET', path);
+        }
+
+        if (response.statusCode >= 400) {
+            response.resume();
+            throw new Error(`ISAPI GET ${path} failed with ${response.statusCode}`);
+        }
+
+        const boundary = /boundary="?([^";]+)"?/i.exec(response.headers['content-type'] || '');
+        if (!boundary) {
+            response.destroy();
+            throw new Error(`ISAPI GET ${path} did not return a multipart stream`);
+        }
+
+        const parser = new MultipartStreamParser(boundary[1], onPart);
+        let closed = false;
+        const close = (error?: Error) => {
+            if (!closed) {
+                closed = true;
+                onClose(error);
+            }
+        };
+
+        response.on('data', (chunk: Buffer) => parser.push(chunk));
+        response.on('end', () => close());
+        response.on('error', error => close(error));
+        response.on('close', () => close());
+
+        return {
+            close: () => {
+                closed = true;
+                response.destroy();
+            },
+        };
+    }
+
+    private send(
+        method: string,
+        path: string,
+        options: IsapiRequestOptions
+    ): Promise<IsapiResponse> {
+        return new Promise((resolve, reject) => {
+            const request = this.createRequest(method, path, options, response => {
+                const chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('end', () =>
+                    resolve({
+                        statusCode: response.statusCode,
+                        headers: response.headers,
+                        body: Buffer.concat(chunks),
+                    })
+                );
+                response.on('error', reject);
+            });
+
+            request.on('error', reject);
+            request.setTimeout(this.connection.timeoutMs || 10000, () =>
+                request.destroy(new Error(`ISAPI ${method} ${path} timed out`))
+            );
+            request.end(options.body);
+        });
+    }
+
+    private openRaw(method: string, path: string): Promise<http.IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            const request = this.createRequest(method, path, {}, response => {
+                // The stream is expected to stay open, only connecting is subject to the timeout
+                request.setTimeout(0);
+                resolve(response);
+            });
+
+            request.on('error', reject);
+            request.setTimeout(this.connection.timeoutMs || 10000, () =>
+                request.destroy(new Error(`ISAPI ${method} ${path} timed out`))
+            );
+            request.end();
+        });
+    }
+
+    private createRequest(
+        method: string,
+        path: string,
+        options: IsapiRequestOptions,
+        onResponse: (response: http.IncomingMessage) => void
+    ): http.ClientRequest {
+        const headers: http.OutgoingHttpHeaders = {};
+        if (options.body !== undefined) {
+            headers['Content-Type'] = options.contentType || 'application/octet-stream';
+            headers['Content-Length'] = Buffer.byteLength(options.body);
+        }
+        if (this.challenge) {
+            headers.Authorization = this.buildAuthorization(method, path);
+        }
+
+        const requestOptions: https.RequestOptions = {
+            host: this.connection.host,
+            port: this.connection.port,
+            method,
+            path,
+            headers,
+        };
+
+        if (this.connection.useHttps) {
+            return https.request(
+                {
+                    ...requestOptions,
+                    rejectUnauthorized: !this.connection.allowSelfSignedCertificates,
+                },
+                onResponse
+            );
+        }
+
+        return http.request(requestOptions, onResponse);
+    }
+
+    private parseChallenge(header: string | undefined): DigestChallenge {
+        if (!header || !/^Digest /i.test(header)) {
+            throw new Error('ISAPI device did not offer digest authentication');
+        }
+
+        const params: Record<string, string> = {};
+        const pattern = /(\w+)=(?:"([^"]*)"|([^\s,]+))/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(header))) {
+            params[match[1].toLowerCase()] = match[2] ?? match[3];
+        }
+
+        if (!params.realm || !params.nonce) {
+            throw new Error('ISAPI device sent an invalid digest challenge');
+        }
+
+        return {
+            realm: params.realm,
+            nonce: params.nonce,
+            qop: params.qop,
+            opaque: params.opaque,
+            algorithm: params.algorithm,
+        };
+    }
+
+    private buildAuthorization(method: string, uri: string): string {
+        const { realm, nonce, qop, opaque, algorithm } = this.challenge;
+        const { username, password } = this.connection;
+        const ha1 = md5(`${username}:${realm}:${password}`);
+        const ha2 = md5(`${method}:${uri}`);
+
+        const fields = [
+            `username="${username}"`,
+            `realm="${realm}"`,
+            `nonce="${nonce}"`,
+            `uri="${uri}"`,
+        ];
+
+        if (qop) {
+            const nc = (++this.nonceCount).toString(16).padStart(8, '0');
+            const cnonce = randomBytes(8).toString('hex');
+            const response = md5(`${ha1}:${nonce}:${nc}:${cnonce}:auth:${ha2}`);
+            fields.push('qop=auth', `nc=${nc}`, `cnonce="${cnonce}"`, `response="${response}"`);
+        } else {
+            fields.push(`response="${md5(`${ha1}:${nonce}:${ha2}`)}"`);
+        }
+
+        if (opaque) {
+            fields.push(`opaque="${opaque}"`);
+        }
+        if (algorithm) {
+            fields.push(`algorithm=${algorithm}`);
+        }
+
+        return `Digest ${fields.join(', ')}`;
+    }
+
+    private describeError(response: IsapiResponse): string {
+        const body = response.body.toString('utf8');
+        try {
+            const json = JSON.parse(body);
+            return json.subStatusCode || json.statusString || json.errorMsg || body;
+        } catch {
+            return readXmlValue(body, 'subStatusCode') || readXmlValue(body, 'statusString') || '';
+        }
+    }
+}
+
+/**
+ * Value of the first element with the given tag; enough for the flat documents ISAPI returns
+ */
+export function readXmlValue(xml: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`).exec(xml);
+
+    return match ? match[1].trim() : undefined;
+}
+
+function md5(value: string): string {
+    return createHash('md5').update(value).digest('hex');
+}
+
+/**
+ * Splits a multipart/mixed stream into its parts as they arrive
+ */
+class MultipartStreamParser {
+    private buffer = Buffer.alloc(0);
+    private readonly delimiter: Buffer;
+
+    constructor(
+        boundary: string,
+        private readonly onPart: (part: { contentType: string; body: Buffer }) => void
+    ) {
+        this.delimiter = Buffer.from(`--${boundary}`);
+    }
+
+    push(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        for (;;) {
+            const start = this.buffer.indexOf(this.delimiter);
+            if (start === -1) {
+                return;
+            }
+
+            const headerStart = start + this.delimiter.length;
+            const headerEnd = this.buffer.indexOf('\r\n\r\n', headerStart);
+            if (headerEnd === -1) {
+                return;
+            }
+
+            const headers = this.buffer.subarray(headerStart, headerEnd).toString('utf8');
+            const bodyStart = headerEnd + 4;
+            const contentLength = /content-length:\s*(\d+)/i.exec(headers);
+            let bodyEnd: number;
+            if (contentLength) {
+                // Devices announce the length, so a part is complete without the next delimiter
+                bodyEnd = bodyStart + Number(contentLength[1]);
+                if (this.buffer.length < bodyEnd) {
+                    return;
+                }
+            } else {
+                const next = this.buffer.indexOf(this.delimiter, bodyStart);
+                if (next === -1) {
+                    return;
+                }
+                bodyEnd = Math.max(bodyStart, next - 2);
+            }
+
+            this.onPart({
+                contentType: /content-type:\s*([^\r\n;]+)/i.exec(headers)?.[1].trim() || '',
+                body: this.buffer.subarray(bodyStart, bodyEnd),
+            });
+            this.buffer = this.buffer.subarray(bodyEnd);
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MqttDeviceAdapter } from './mqtt-device.adapter';
+import { ConfigService } from '@/core/config/config.service';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MqttService } from '@/core/mqtt/mqtt.service';
+import { MqttBrokerStandIn } from '@/core/mqtt/testing/mqtt-broker.stand-in';
+
+describe('MqttDeviceAdapter', () => {
+    let broker: MqttBrokerStandIn;
+    let module: TestingModule;
+    let adapter: MqttDeviceAdapter;
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        name: 'Turnstile 1',
+        deviceIdentifier: 'reader-1',
+        lastSeenAt: new Date(),
+        uptimeSeconds: 3600,
+    };
+
+    const publishedCommands = () =>
+        broker.messages.map(({ topic, payload }) => ({
+            topic,
+            message: JSON.parse(payload.toString()),
+        }));
+
+    beforeEach(async () => {
+        broker = new MqttBrokerStandIn();
+        await broker.start();
+
+        const mockConfigService = {
+            mqttBrokerUrl: broker.url,
+            mqttClientId: 'sector-staff-test',
+            mqttKeepAliveSeconds: 0,
+        };
+
+        const mockPrismaService = {
+            device: { findUnique: jest.fn().mockResolvedValue(mockDevice) },
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        module = await Test.createTestingModule({
+            providers: [
+                MqttDeviceAdapter,
+                MqttService,
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService,
+                },
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+        await module.init();
+
+        adapter = module.get<MqttDeviceAdapter>(MqttDeviceAdapter);
+        adapter.setCommandChannels(
+            new Map([['org-123', { commandTopicPattern: 'acme/{deviceId}/commands', qos: 1 }]])
+        );
+    });
+
+    afterEach(async () => {
+        await module.close();
+        await broker.stop();
+    });
+
+    it('should publish commands to the command topic of the device', async () => {
+        const result = await adapter.sendCommand('reader-1', {
+            command: 'unlock_door',
+            parameters: { door: 1 },
+            timeout: 30,
+        });
+
+        expect(result.success).toBe(true);
+        expect(publishedCommands()).toEqual([
+            {
+                topic: 'acme/reader-1/commands',
+                message: expect.objectContaining({
+                    commandId: result.data.commandId,
+                    command: 'unlock_door',
+                    parameters: { door: 1 },
+                    timeout: 30,
+                }),
+            },
+        ]);
+    });
+
+    it('should publish user changes', async () => {
+        await adapter.removeUser('reader-1', 'emp-1');
+
+        expect(publishedCommands()[0].message).toEqual(
+            expect.objectContaining({ command: 'remove_user', parameters: { userId: 'emp-1' } })
+        );
+    });
+
+    it('should fail for organizations without a command topic', async () => {
+        adapter.setCommandChannels(new Map());
+
+        expect(adapter.hasCommandChannel('org-123')).toBe(false);
+        await expect(adapter.rebootDevice('reader-1')).rejects.toThrow(
+            'No MQTT command topic for the organization of device reader-1'
+        );
+        expect(broker.messages).toHaveLength(0);
+    });
+
+    it('should report devices that publish recently as healthy', async () => {
+        await expect(adapter.getDeviceHealth('reader-1')).resolves.toEqual(
+            expect.objectContaining({ status: 'healthy', uptime: 3600 })
+        );
+        await expect(adapter.testConnection('reader-1')).resolves.toBe(true);
+    });
+});
@@ -0,0 +1,236 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MqttQos, MqttService } from '@/core/mqtt/mqtt.service';
+import { MqttTopicUtil } from '@/shared/utils/mqtt-topic.util';
+import {
+    DeviceCommand,
+    DeviceCommandResult,
+    DeviceConfiguration,
+    DeviceEvent,
+    DeviceHealth,
+    DeviceInfo,
+    IDeviceAdapter,
+} from '../device.adapter';
+
+/** A device that has not published for this long is considered unreachable */
+const REACHABLE_WITHIN_MS = 3 * 60 * 1000;
+
+type SyncUser = Parameters<IDeviceAdapter['syncUsers']>[1][number];
+
+export interface MqttCommandChannel {
+    commandTopicPattern: string;
+    qos: MqttQos;
+}
+
+/**
+ * Adapter for devices connected over MQTT. Commands are published to the device's command
+ * topic of its organization's channel as JSON:
+ *
+ *   { "commandId": "...", "command": "reboot", "parameters": {...}, "issuedAt": "..." }
+ *
+ * The channels are kept current by the MQTT ingestion, which owns their subscriptions.
+ */
+@Injectable()
+export class MqttDeviceAdapter implements IDeviceAdapter {
+    private commandChannels = new Map<string, MqttCommandChannel>();
+
+    constructor(
+        private readonly mqttService: MqttService,
+        private readonly prisma: PrismaService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Replace the command channels, by organization ID
+     */
+    setCommandChannels(channels: Map<string, MqttCommandChannel>): void {
+        this.commandChannels = new Map(channels);
+    }
+
+    /**
+     * Whether commands for devices of the organization are published over MQTT
+     */
+    hasCommandChannel(organizationId: string): boolean {
+        return this.commandChannels.has(organizationId);
+    }
+
+    /**
+     * Devices announce themselves by publishing, there is nothing to scan for
+     */
+    async discoverDevices(): Promise<DeviceInfo[]> {
+        return [];
+    }
+
+    async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+        const device = await this.findDevice(deviceId);
+
+        return {
+            id: deviceId,
+            name: device.name,
+            type: 'card_reader',
+            status: this.isReachable(device.lastSeenAt) ? 'online' : 'offline',
+            ipAddress: device.ipAddress || undefined,
+            macAddress: device.macAddress || undefined,
+            firmwareVersion: device.firmwareVersion || undefined,
+            lastSeen: device.lastSeenAt || undefined,
+            capabilities: [],
+        };
+    }
+
+    async getDeviceConfiguration(deviceId: string): Promise<DeviceConfiguration> {
+        await this.findDevice(deviceId);
+
+        // Devices do not publish their configuration, only accept changes
+        return { deviceId, settings: {}, reported: [] };
+    }
+
+    async updateDeviceConfiguration(
+        deviceId: string,
+        configuration: Partial<DeviceConfiguration>
+    ): Promise<void> {
+        await this.publish(deviceId, 'update_configuration', { ...configuration });
+    }
+
+    async sendCommand(deviceId: string, command: DeviceCommand): Promise<DeviceCommandResult> {
+        const { commandId, topic } = await this.publish(
+            deviceId,
+            command.command,
+            command.parameters,
+            command.timeout,
+            command.commandId
+        );
+
+        return {
+            success: true,
+            message: `Command ${command.command} published to ${topic}`,
+            data: { commandId, topic },
+            executedAt: new Date(),
+        };
+    }
+
+    async getDeviceHealth(deviceId: string): Promise<DeviceHealth> {
+        const device = await this.findDevice(deviceId);
+        const reachable = this.isReachable(device.lastSeenAt);
+
+        return {
+            deviceId,
+            status: reachable ? 'healthy' : 'critical',
+            uptime: device.uptimeSeconds || 0,
+            lastHealthCheck: device.lastSeenAt || new Date(0),
+            issues: reachable ? undefined : ['Device has not published recently'],
+        };
+    }
+
+    async subscribeToEvents(
+        deviceId: string,
+        _callback: (event: DeviceEvent) => void
+    ): Promise<void> {
+        // Events are taken in by the MQTT ingestion and go through the event pipeline
+        this.logger.warn('MQTT devices publish their events, subscribing does nothing', {
+            deviceId,
+        });
+    }
+
+    async unsubscribeFromEvents(_deviceId: string): Promise<void> {}
+
+    async syncUsers(deviceId: string, users: SyncUser[]): Promise<void> {
+        await this.publish(deviceId, 'sync_users', { users });
+    }
+
+    async removeUser(deviceId: string, userId: string): Promise<void> {
+        await this.publish(deviceId, 'remove_user', { userId });
+    }
+
+    async testConnection(deviceId: string): Promise<boolean> {
+        try {
+            const device = await this.findDevice(deviceId);
+            return this.mqttService.isConnected && this.isReachable(device.lastSeenAt);
+        } catch (error) {
+            this.logger.warn('MQTT device connection test failed', {
+                deviceId,
+                error: error.message,
+            });
+            return false;
+        }
+    }
+
+    async rebootDevice(deviceId: string): Promise<void> {
+        await this.publish(deviceId, 'reboot');
+    }
+
+    async updateFirmware(
+        deviceId: string,
+        firmwareUrl: string
+    ): Promise<{ success: boolean; message: string }> {
+        if (!firmwareUrl) {
+            return { success: false, message: 'Firmware URL is required' };
+        }
+
+        await this.publish(deviceId, 'update_firmware', { firmwareUrl });
+
+        return { success: true, message: 'Firmware update published, the device downloads it' };
+    }
+
+    async getDeviceLogs(deviceId: string, _startDate?: Date, _endDate?: Date): Promise<string[]> {
+        this.logger.warn('Reading logs is not supported by MQTT devices', { deviceId });
+
+        throw new Error('MQTT devices publish their events, logs cannot be read back');
+    }
+
+    async clearDeviceLogs(deviceId: string): Promise<void> {
+        await this.publish(deviceId, 'clear_logs');
+    }
+
+    private async publish(
+        deviceId: string,
+        command: string,
+        parameters?: Record<string, any>,
+        timeout?: number,
+        commandId: string = randomUUID()
+    ): Promise<{ commandId: string; topic: string }> {
+        const device = await this.findDevice(deviceId);
+        const channel = this.commandChannels.get(device.organizationId);
+        if (!channel) {
+            throw new Error(`No MQTT command topic for the organization of device ${deviceId}`);
+        }
+
+        const topic = MqttTopicUtil.forDevice(channel.commandTopicPattern, deviceId);
+        await this.mqttService.publish(
+            topic,
+            JSON.stringify({
+                commandId,
+                command,
+                parameters,
+                timeout,
+                issuedAt: new Date().toISOString(),
+            }),
+            channel.qos
+        );
+
+        this.logger.log('Published command to MQTT device', {
+            deviceId,
+            command,
+            commandId,
+            topic,
+        });
+
+        return { commandId, topic };
+    }
+
+    private async findDevice(deviceId: string) {
+        const device = await this.prisma.device.findUnique({
+            where: { deviceIdentifier: deviceId },
+        });
+        if (!device) {
+            throw new Error(`Device not found: ${deviceId}`);
+        }
+
+        return device;
+    }
+
+    private isReachable(lastSeenAt: Date | null): boolean {
+        return !!lastSeenAt && Date.now() - lastSeenAt.getTime() < REACHABLE_WITHIN_MS;
+    }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ZktecoPushAdapter } from './zkteco-push.adapter';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+
+describe('ZktecoPushAdapter', () => {
+    let adapter: ZktecoPushAdapter;
+    let prismaService: {
+        device: { findUnique: jest.Mock };
+        employee: { findMany: jest.Mock; findUnique: jest.Mock };
+        zktecoCommand: { createMany: jest.Mock };
+    };
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        name: 'Entrance SpeedFace',
+        deviceIdentifier: 'CKJG201960001',
+        lastSeenAt: new Date(),
+        uptimeSeconds: null,
+    };
+
+    const queuedCommands = () =>
+        prismaService.zktecoCommand.createMany.mock.calls.flatMap(([{ data }]) =>
+            data.map(row => row.command)
+        );
+
+    beforeEach(async () => {
+        prismaService = {
+            device: { findUnique: jest.fn().mockResolvedValue(mockDevice) },
+            employee: {
+                findMany: jest.fn().mockResolvedValue([
+                    { id: 'emp-1', employeeCode: 'EMP001' },
+                    { id: 'emp-2', employeeCode: 'EMP002' },
+                ]),
+                findUnique: jest.fn().mockResolvedValue({ employeeCode: 'EMP001' }),
+            },
+            zktecoCommand: { createMany: jest.fn().mockResolvedValue({ count: 1 }) },
+        };
+
+        const mockLoggerService = {
+            log: jest.fn(),
+            error: jest.fn(),
+            warn: jest.fn(),
+            debug: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ZktecoPushAdapter,
+                {
+                    provide: PrismaService,
+                    useValue: prismaService,
+                },
+                {
+                    provide: LoggerService,
+                    useValue: mockLoggerService,
+                },
+            ],
+        }).compile();
+
+        adapter = module.get<ZktecoPushAdapter>(ZktecoPushAdapter);
+    });
+
+    it('should queue a reboot for the next poll', async () => {
+        const result = await adapter.sendCommand('CKJG201960001', { command: 'reboot' });
+
+        expect(result.success).toBe(true);
+        expect(prismaService.zktecoCommand.createMany).toHaveBeenCalledWith({
+            data: [{ organizationId: 'org-123', deviceId: 'device-123', command: 'REBOOT' }],
+        });
+    });
+
+    it('should link queued commands to the device command they carry out', async () => {
+        const result = await adapter.sendCommand('CKJG201960001', {
+            command: 'reboot',
+            commandId: 'command-123',
+        });
+
+        expect(result.pending).toBe(true);
+        expect(prismaService.zktecoCommand.createMany).toHaveBeenCalledWith({
+            data: [
+                {
+                    organizationId: 'org-123',
+                    deviceId: 'device-123',
+                    command: 'REBOOT',
+                    deviceCommandId: 'command-123',
+                },
+            ],
+        });
+    });
+
+    it('should not accept door commands', async () => {
+        const result = await adapter.sendCommand('CKJG201960001', { command: 'unlock_door' });
+
+        expect(result.success).toBe(false);
+        expect(prismaService.zktecoCommand.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should sync users by employee code, removing those without access', async () => {
+        await adapter.syncUsers('CKJG201960001', [
+            { userId: 'emp-1', name: 'Aziz Karimov', cardId: '123', accessLevel: 1 },
+            { userId: 'emp-2', accessLevel: 0 },
+            { userId: 'emp-unknown', accessLevel: 1 },
+        ]);
+
+        expect(queuedCommands()).toEqual([
+            'DATA UPDATE USERINFO PIN=EMP001\tName=Aziz Karimov\tPri=0\tPasswd=\tCard=123\tGrp=1\tTZ=0000000100000000',
+            'DATA DELETE USERINFO PIN=EMP002',
+        ]);
+    });
+
+    it('should report devices that stopped polling as unreachable', async () => {
+        await expect(adapter.testConnection('CKJG201960001')).resolves.toBe(true);
+
+        prismaService.device.findUnique.mockResolvedValue({
+            ...mockDevice,
+            lastSeenAt: new Date(Date.now() - 10 * 60 * 1000),
+        });
+
+        await expect(adapter.testConnection('CKJG201960001')).resolves.toBe(false);
+        await expect(adapter.getDeviceHealth('CKJG201960001')).resolves.toEqual(
+            expect.objectContaining({ status: 'critical' })
+        );
+    });
+});
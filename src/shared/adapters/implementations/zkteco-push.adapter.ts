@@ -0,0 +1,266 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { ZktecoPushUtil } from '@/shared/utils/zkteco-push.util';
+import {
+    DeviceCommand,
+    DeviceCommandResult,
+    DeviceConfiguration,
+    DeviceEvent,
+    DeviceHealth,
+    DeviceInfo,
+    IDeviceAdapter,
+} from '../device.adapter';
+
+/** A push device that has not polled for this long is considered unreachable */
+const REACHABLE_WITHIN_MS = 3 * 60 * 1000;
+
+type SyncUser = Parameters<IDeviceAdapter['syncUsers']>[1][number];
+
+/**
+ * Adapter for ZKTeco terminals using the push (ADMS/iclock) protocol. These devices cannot be
+ * called; they poll the server instead. Commands are therefore queued as ZktecoCommand rows
+ * and handed out on the next /iclock/getrequest, and everything else is answered from what
+ * the device last reported.
+ */
+@Injectable()
+export class ZktecoPushAdapter implements IDeviceAdapter {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly logger: LoggerService
+    ) {}
+
+    /**
+     * Push devices announce themselves by polling, there is nothing to scan for
+     */
+    async discoverDevices(): Promise<DeviceInfo[]> {
+        return [];
+    }
+
+    async getDeviceInfo(deviceId: string): Promise<DeviceInfo> {
+        const device = await this.findDevice(deviceId);
+
+        return {
+            id: deviceId,
+            name: device.name,
+            type: 'biometric',
+            status: this.isReachable(device.lastSeenAt) ? 'online' : 'offline',
+            ipAddress: device.ipAddress || undefined,
+            macAddress: device.macAddress || undefined,
+            firmwareVersion: device.firmwareVersion || undefined,
+            lastSeen: device.lastSeenAt || undefined,
+            capabilities: [
+                { type: 'biometric_scan', enabled: true },
+                { type: 'facial_recognition', enabled: true },
+                { type: 'card_read', enabled: true },
+            ],
+        };
+    }
+
+    async getDeviceConfiguration(deviceId: string): Promise<DeviceConfiguration> {
+        await this.findDevice(deviceId);
+
+        // Push devices do not upload their options, only accept changes
+        return { deviceId, settings: {}, reported: [] };
+    }
+
+    async updateDeviceConfiguration(
+        deviceId: string,
+        configuration: Partial<DeviceConfiguration>
+    ): Promise<void> {
+        const options = Object.entries(configuration.settings || {});
+        if (options.length) {
+            await this.enqueue(
+                deviceId,
+                options.map(([key, value]) => `SET OPTION ${key}=${value}`)
+            );
+        }
+    }
+
+    async sendCommand(deviceId: string, command: DeviceCommand): Promise<DeviceCommandResult> {
+        this.logger.log('Queueing command for ZKTeco device', {
+            deviceId,
+            command: command.command,
+        });
+
+        let queued: number;
+        switch (command.command) {
+            case 'reboot':
+                queued = await this.enqueue(deviceId, ['REBOOT'], command.commandId);
+                break;
+            case 'sync_users':
+                queued = await this.enqueue(
+                    deviceId,
+                    await this.buildUserCommands(deviceId, command.parameters?.users || []),
+                    command.commandId
+                );
+                break;
+            default:
+                return {
+                    success: false,
+                    message: `Command ${command.command} is not supported by ZKTeco push devices`,
+                    executedAt: new Date(),
+                };
+        }
+
+        return {
+            success: true,
+            message: queued
+                ? `Command ${command.command} queued until the device polls`
+                : `Command ${command.command} had nothing to send`,
+            executedAt: new Date(),
+            pending: queued > 0,
+        };
+    }
+
+    async getDeviceHealth(deviceId: string): Promise<DeviceHealth> {
+        const device = await this.findDevice(deviceId);
+        const reachable = this.isReachable(device.lastSeenAt);
+
+        return {
+            deviceId,
+            status: reachable ? 'healthy' : 'critical',
+            uptime: device.uptimeSeconds || 0,
+            lastHealthCheck: device.lastSeenAt || new Date(0),
+            issues: reachable ? undefined : ['Device has not polled recently'],
+        };
+    }
+
+    async subscribeToEvents(
+        deviceId: string,
+        _callback: (event: DeviceEvent) => void
+    ): Promise<void> {
+        // Events arrive through /iclock/cdata and go through the event pipeline directly
+        this.logger.warn('ZKTeco push devices upload their events, subscribing does nothing', {
+            deviceId,
+        });
+    }
+
+    async unsubscribeFromEvents(_deviceId: string): Promise<void> {}
+
+    /**
+     * Create or update each user. Devices identify users by PIN, which is the employee code so
+     * that punches can be matched back to the employee. Users without access are removed.
+     */
+    async syncUsers(deviceId: string, users: SyncUser[]): Promise<void> {
+        await this.enqueue(deviceId, await this.buildUserCommands(deviceId, users));
+    }
+
+    private async buildUserCommands(deviceId: string, users: SyncUser[]): Promise<string[]> {
+        const employees = await this.prisma.employee.findMany({
+            where: { id: { in: users.map(user => user.userId) } },
+            select: { id: true, employeeCode: true },
+        });
+        const pins = new Map(employees.map(employee => [employee.id, employee.employeeCode]));
+
+        const commands = users
+            .filter(user => pins.has(user.userId))
+            .map(user =>
+                user.accessLevel > 0
+                    ? ZktecoPushUtil.formatUserInfoUpdate({
+                          pin: pins.get(user.userId),
+                          name: user.name,
+                          cardNo: user.cardId,
+                      })
+                    : ZktecoPushUtil.formatUserInfoDelete(pins.get(user.userId))
+            );
+
+        if (commands.length < users.length) {
+            this.logger.warn('Skipped syncing unknown employees to ZKTeco device', {
+                deviceId,
+                skipped: users.length - commands.length,
+            });
+        }
+
+        return commands;
+    }
+
+    async removeUser(deviceId: string, userId: string): Promise<void> {
+        const employee = await this.prisma.employee.findUnique({
+            where: { id: userId },
+            select: { employeeCode: true },
+        });
+        if (!employee) {
+            throw new Error(`Employee not found: ${userId}`);
+        }
+
+        await this.enqueue(deviceId, [ZktecoPushUtil.formatUserInfoDelete(employee.employeeCode)]);
+    }
+
+    async testConnection(deviceId: string): Promise<boolean> {
+        try {
+            const device = await this.findDevice(deviceId);
+            return this.isReachable(device.lastSeenAt);
+        } catch (error) {
+            this.logger.warn('ZKTeco device connection test failed', {
+                deviceId,
+                error: error.message,
+            });
+            return false;
+        }
+    }
+
+    async rebootDevice(deviceId: string): Promise<void> {
+        await this.enqueue(deviceId, ['REBOOT']);
+    }
+
+    async updateFirmware(
+        _deviceId: string,
+        _firmwareUrl: string
+    ): Promise<{ success: boolean; message: string }> {
+        return {
+            success: false,
+            message: 'ZKTeco push devices do not support firmware updates from the server',
+        };
+    }
+
+    async getDeviceLogs(deviceId: string, _startDate?: Date, _endDate?: Date): Promise<string[]> {
+        this.logger.warn('Reading logs is not supported by ZKTeco push devices', { deviceId });
+
+        throw new Error('ZKTeco push devices upload their logs, they cannot be read back');
+    }
+
+    async clearDeviceLogs(deviceId: string): Promise<void> {
+        await this.enqueue(deviceId, ['CLEAR LOG']);
+    }
+
+    /**
+     * Queue commands until the device polls; returns how many were queued
+     */
+    private async enqueue(
+        deviceId: string,
+        commands: string[],
+        deviceCommandId?: string
+    ): Promise<number> {
+        if (!commands.length) {
+            return 0;
+        }
+
+        const device = await this.findDevice(deviceId);
+        await this.prisma.zktecoCommand.createMany({
+            data: commands.map(command => ({
+                organizationId: device.organizationId,
+                deviceId: device.id,
+                command,
+                ...(deviceCommandId && { deviceCommandId }),
+            })),
+        });
+
+        return commands.length;
+    }
+
+    private async findDevice(deviceId: string) {
+        const device = await this.prisma.device.findUnique({
+            where: { deviceIdentifier: deviceId },
+        });
+        if (!device) {
+            throw new Error(`Device not found: ${deviceId}`);
+        }
+
+        return device;
+    }
+
+    private isReachable(lastSeenAt: Date | null): boolean {
+        return !!lastSeenAt && Date.now() - lastSeenAt.getTime() < REACHABLE_WITHIN_MS;
+    }
+}
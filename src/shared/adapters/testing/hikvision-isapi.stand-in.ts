@@ -0,0 +1,399 @@
+import { createHash, randomBytes } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface HikvisionStandInOptions {
+    username?: string;
+    password?: string;
+    serialNumber?: string;
+    model?: string;
+    macAddress?: string;
+    firmwareVersion?: string;
+}
+
+const REALM = 'DS-K1T671M';
+const ALERT_BOUNDARY = 'MIME_boundary';
+
+/**
+ * HTTP stand-in for a Hikvision face terminal, implementing the part of ISAPI the
+ * HikvisionDeviceAdapter uses, including digest authentication. It keeps its state in memory,
+ * so tests and local development can run without hardware:
+ *
+ *   npx ts-node src/shared/adapters/testing/hikvision-isapi.stand-in.ts [port]
+ */
+export class HikvisionIsapiStandIn {
+    readonly users: Map<string, any> = new Map();
+    readonly cards: Map<string, any> = new Map();
+    readonly faces: Map<string, Buffer> = new Map();
+    readonly doors: Map<number, string> = new Map();
+    readonly acsEvents: any[] = [];
+    acsCfg: Record<string, any> = { uploadCapPic: true, saveCapPic: true, voicePrompt: true };
+    firmwareUploads: Buffer[] = [];
+    rebootCount = 0;
+    upTimeSeconds = 86400;
+    cpuUtilization = 12;
+    memoryUsage = 180;
+    memoryAvailable = 332;
+    /** Number of requests rejected for lacking valid credentials */
+    unauthorizedCount = 0;
+
+    private server: http.Server;
+    private nonce = randomBytes(16).toString('hex');
+    private alertStreams: Set<http.ServerResponse> = new Set();
+    private readonly options: Required<HikvisionStandInOptions>;
+
+    constructor(options: HikvisionStandInOptions = {}) {
+        this.options = {
+            username: options.username ?? 'admin',
+            password: options.password ?? 'stand-in-password',
+            serialNumber: options.serialNumber ?? 'DS-K1T671M20230101AAWRF00000001',
+            model: options.model ?? 'DS-K1T671M',
+            macAddress: options.macAddress ?? 'a4:d5:c2:00:00:01',
+            firmwareVersion: options.firmwareVersion ?? 'V3.2.30 build 220501',
+        };
+    }
+
+    get serialNumber(): string {
+        return this.options.serialNumber;
+    }
+
+    async start(port = 0): Promise<number> {
+        this.server = http.createServer((request, response) => {
+            const chunks: Buffer[] = [];
+            request.on('data', (chunk: Buffer) => chunks.push(chunk));
+            request.on('end', () => this.handle(request, response, Buffer.concat(chunks)));
+        });
+
+        await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    async stop(): Promise<void> {
+        this.alertStreams.forEach(stream => stream.destroy());
+        this.alertStreams.clear();
+
+        if (this.server) {
+            this.server.closeAllConnections();
+            await new Promise<void>(resolve => this.server.close(() => resolve()));
+        }
+    }
+
+    /**
+     * Issue a new nonce, as devices do after a while, so clients must authenticate again
+     */
+    expireNonce(): void {
+        this.nonce = randomBytes(16).toString('hex');
+    }
+
+    /**
+     * Record an access control event and push it to every open alertStream
+     */
+    pushEvent(event: {
+        majorEventType: number;
+        subEventType: number;
+        employeeNoString?: string;
+        cardNo?: string;
+        currentVerifyMode?: string;
+        doorNo?: number;
+    }): void {
+        const serialNo = this.acsEvents.length + 1;
+        const dateTime = new Date().toISOString();
+        this.acsEvents.push({
+            major: event.majorEventType,
+            minor: event.subEventType,
+            time: dateTime,
+            employeeNoString: event.employeeNoString,
+            cardNo: event.cardNo,
+            serialNo,
+        });
+
+        this.writeAlert({
+            ipAddress: '127.0.0.1',
+            dateTime,
+            activePostCount: 1,
+            eventType: 'AccessControllerEvent',
+            eventState: 'active',
+            eventDescription: 'Access Controller Event',
+            AccessControllerEvent: { doorNo: 1, serialNo, ...event },
+        });
+    }
+
+    /**
+     * Drop every open alertStream, as a device does when it restarts
+     */
+    dropAlertStreams(): void {
+        this.alertStreams.forEach(stream => stream.destroy());
+        this.alertStreams.clear();
+    }
+
+    get alertStreamCount(): number {
+        return this.alertStreams.size;
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse, body: Buffer) {
+        if (!this.isAuthorized(request)) {
+            this.unauthorizedCount++;
+            response.writeHead(401, {
+                'WWW-Authenticate': `Digest qop="auth", realm="${REALM}", nonce="${this.nonce}", stale="FALSE"`,
+            });
+            response.end();
+            return;
+        }
+
+        const url = new URL(request.url, 'http://stand-in');
+        const route = `${request.method} ${url.pathname}`;
+
+        try {
+            switch (route) {
+                case 'GET /ISAPI/System/deviceInfo':
+                    return this.sendXml(response, 200, this.deviceInfoXml());
+                case 'GET /ISAPI/System/status':
+                    return this.sendXml(response, 200, this.statusXml());
+                case 'PUT /ISAPI/System/reboot':
+                    this.rebootCount++;
+                    return this.sendXml(response, 200, this.statusResponseXml());
+                case 'PUT /ISAPI/System/updateFirmware':
+                    this.firmwareUploads.push(body);
+                    return this.sendXml(response, 200, this.statusResponseXml());
+                case 'GET /ISAPI/Event/notification/alertStream':
+                    return this.openAlertStream(response);
+                case 'GET /ISAPI/AccessControl/AcsCfg':
+                    return this.sendJson(response, 200, { AcsCfg: this.acsCfg });
+                case 'PUT /ISAPI/AccessControl/AcsCfg':
+                    this.acsCfg = { ...this.acsCfg, ...JSON.parse(body.toString()).AcsCfg };
+                    return this.sendJson(response, 200, this.statusResponse());
+                case 'PUT /ISAPI/AccessControl/UserInfo/SetUp': {
+                    const { UserInfo } = JSON.parse(body.toString());
+                    if (!UserInfo?.employeeNo || UserInfo.employeeNo.length > 32) {
+                        return this.sendJson(response, 400, this.errorResponse('badParameters'));
+                    }
+                    this.users.set(UserInfo.employeeNo, UserInfo);
+                    return this.sendJson(response, 200, this.statusResponse());
+                }
+                case 'PUT /ISAPI/AccessControl/UserInfo/Delete': {
+                    const { UserInfoDelCond } = JSON.parse(body.toString());
+                    for (const { employeeNo } of UserInfoDelCond.EmployeeNoList) {
+                        this.users.delete(employeeNo);
+                        this.faces.delete(employeeNo);
+                        this.cards.forEach((card, cardNo) => {
+                            if (card.employeeNo === employeeNo) {
+                                this.cards.delete(cardNo);
+                            }
+                        });
+                    }
+                    return this.sendJson(response, 200, this.statusResponse());
+                }
+                case 'PUT /ISAPI/AccessControl/CardInfo/SetUp': {
+                    const { CardInfo } = JSON.parse(body.toString());
+                    if (!this.users.has(CardInfo.employeeNo)) {
+                        return this.sendJson(
+                            response,
+                            400,
+                            this.errorResponse('employeeNoNotExist')
+                        );
+                    }
+                    this.cards.set(CardInfo.cardNo, CardInfo);
+                    return this.sendJson(response, 200, this.statusResponse());
+                }
+                case 'PUT /ISAPI/Intelligent/FDLib/FDSetUp':
+                    return this.setUpFace(request, response, body);
+                case 'POST /ISAPI/AccessControl/AcsEvent':
+                    return this.searchAcsEvents(response, body);
+                default:
+                    if (
+                        request.method === 'PUT' &&
+                        url.pathname.startsWith('/ISAPI/AccessControl/RemoteControl/door/')
+                    ) {
+                        const doorNo = Number(url.pathname.split('/').pop());
+                        const cmd = /<cmd>([^<]+)<\/cmd>/.exec(body.toString())?.[1];
+                        this.doors.set(doorNo, cmd);
+                        return this.sendXml(response, 200, this.statusResponseXml());
+                    }
+                    return this.sendJson(response, 404, this.errorResponse('notSupport'));
+            }
+        } catch {
+            return this.sendJson(response, 400, this.errorResponse('badJsonFormat'));
+        }
+    }
+
+    private isAuthorized(request: http.IncomingMessage): boolean {
+        const header = request.headers.authorization;
+        if (!header || !header.startsWith('Digest ')) {
+            return false;
+        }
+
+        const params: Record<string, string> = {};
+        const pattern = /(\w+)=(?:"([^"]*)"|([^\s,]+))/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(header))) {
+            params[match[1]] = match[2] ?? match[3];
+        }
+
+        if (params.username !== this.options.username || params.nonce !== this.nonce) {
+            return false;
+        }
+
+        const ha1 = md5(`${params.username}:${REALM}:${this.options.password}`);
+        const ha2 = md5(`${request.method}:${params.uri}`);
+        const expected = md5(`${ha1}:${params.nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`);
+
+        return params.uri === request.url && params.response === expected;
+    }
+
+    private openAlertStream(response: http.ServerResponse): void {
+        response.writeHead(200, {
+            'Content-Type': `multipart/mixed; boundary=${ALERT_BOUNDARY}`,
+            Connection: 'keep-alive',
+        });
+        this.alertStreams.add(response);
+        response.on('close', () => this.alertStreams.delete(response));
+
+        // Devices open the stream with a heartbeat
+        this.writePart(response, 'application/json', {
+            ipAddress: '127.0.0.1',
+            dateTime: new Date().toISOString(),
+            activePostCount: 1,
+            eventType: 'videoloss',
+            eventState: 'inactive',
+            eventDescription: 'videoloss alarm',
+        });
+    }
+
+    private writeAlert(alert: Record<string, any>): void {
+        this.alertStreams.forEach(stream => this.writePart(stream, 'application/json', alert));
+    }
+
+    private writePart(response: http.ServerResponse, contentType: string, body: unknown): void {
+        const content = Buffer.from(JSON.stringify(body));
+        response.write(
+            `--${ALERT_BOUNDARY}\r\n` +
+                `Content-Type: ${contentType}\r\n` +
+                `Content-Length: ${content.length}\r\n\r\n`
+        );
+        response.write(content);
+        response.write('\r\n');
+    }
+
+    private setUpFace(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        body: Buffer
+    ): void {
+        const boundary = /boundary=([^;]+)/.exec(request.headers['content-type'] || '')?.[1];
+        if (!boundary) {
+            return this.sendJson(response, 400, this.errorResponse('badParameters'));
+        }
+
+        const parts: Record<string, Buffer> = {};
+        const delimiter = Buffer.from(`--${boundary}`);
+        let start = body.indexOf(delimiter);
+        while (start !== -1) {
+            const end = body.indexOf(delimiter, start + delimiter.length);
+            if (end === -1) {
+                break;
+            }
+            const part = body.subarray(start + delimiter.length, end - 2);
+            const headerEnd = part.indexOf('\r\n\r\n');
+            const name = /name="([^"]+)"/.exec(part.subarray(0, headerEnd).toString())?.[1];
+            if (name) {
+                parts[name] = part.subarray(headerEnd + 4);
+            }
+            start = end;
+        }
+
+        const record = parts.FaceDataRecord && JSON.parse(parts.FaceDataRecord.toString());
+        if (!record?.FPID || !parts.img?.length || !this.users.has(record.FPID)) {
+            return this.sendJson(response, 400, this.errorResponse('badParameters'));
+        }
+
+        this.faces.set(record.FPID, parts.img);
+        this.sendJson(response, 200, this.statusResponse());
+    }
+
+    private searchAcsEvents(response: http.ServerResponse, body: Buffer): void {
+        const { AcsEventCond } = JSON.parse(body.toString());
+        const position = AcsEventCond.searchResultPosition || 0;
+        const infoList = this.acsEvents.slice(position, position + AcsEventCond.maxResults);
+        const more = position + infoList.length < this.acsEvents.length;
+
+        this.sendJson(response, 200, {
+            AcsEvent: {
+                searchID: AcsEventCond.searchID,
+                totalMatches: this.acsEvents.length,
+                responseStatusStrg: more ? 'MORE' : 'OK',
+                numOfMatches: infoList.length,
+                InfoList: infoList,
+            },
+        });
+    }
+
+    private deviceInfoXml(): string {
+        return (
+            '<?xml version="1.0" encoding="UTF-8"?>' +
+            '<DeviceInfo version="2.0" xmlns="http://www.isapi.org/ver20/XMLSchema">' +
+            `<deviceName>Face Terminal</deviceName>` +
+            `<deviceID>${this.options.serialNumber}</deviceID>` +
+            `<model>${this.options.model}</model>` +
+            `<serialNumber>${this.options.serialNumber}</serialNumber>` +
+            `<macAddress>${this.options.macAddress}</macAddress>` +
+            `<firmwareVersion>${this.options.firmwareVersion}</firmwareVersion>` +
+            '<deviceType>ACS</deviceType>' +
+            '</DeviceInfo>'
+        );
+    }
+
+    private statusXml(): string {
+        return (
+            '<?xml version="1.0" encoding="UTF-8"?>' +
+            '<DeviceStatus version="2.0" xmlns="http://www.isapi.org/ver20/XMLSchema">' +
+            `<currentDeviceTime>${new Date().toISOString()}</currentDeviceTime>` +
+            `<deviceUpTime>${this.upTimeSeconds}</deviceUpTime>` +
+            `<CPUList><CPU><cpuDescription>ARM</cpuDescription><cpuUtilization>${this.cpuUtilization}</cpuUtilization></CPU></CPUList>` +
+            `<MemoryList><Memory><memoryDescription>DDR</memoryDescription><memoryUsage>${this.memoryUsage}</memoryUsage><memoryAvailable>${this.memoryAvailable}</memoryAvailable></Memory></MemoryList>` +
+            '</DeviceStatus>'
+        );
+    }
+
+    private statusResponse() {
+        return { statusCode: 1, statusString: 'OK', subStatusCode: 'ok' };
+    }
+
+    private statusResponseXml(): string {
+        return (
+            '<?xml version="1.0" encoding="UTF-8"?>' +
+            '<ResponseStatus version="2.0" xmlns="http://www.isapi.org/ver20/XMLSchema">' +
+            '<statusCode>1</statusCode><statusString>OK</statusString>' +
+            '<subStatusCode>ok</subStatusCode></ResponseStatus>'
+        );
+    }
+
+    private errorResponse(subStatusCode: string) {
+        return { statusCode: 6, statusString: 'Invalid Content', subStatusCode };
+    }
+
+    private sendJson(response: http.ServerResponse, statusCode: number, body: unknown): void {
+        response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+
+    private sendXml(response: http.ServerResponse, statusCode: number, body: string): void {
+        response.writeHead(statusCode, { 'Content-Type': 'application/xml' });
+        response.end(body);
+    }
+}
+
+function md5(value: string): string {
+    return createHash('md5').update(value).digest('hex');
+}
+
+if (require.main === module) {
+    const standIn = new HikvisionIsapiStandIn({
+        username: process.env.HIKVISION_USERNAME,
+        password: process.env.HIKVISION_PASSWORD,
+    });
+    standIn.start(Number(process.argv[2] || 8080)).then(port => {
+        console.log(`Hikvision ISAPI stand-in listening on 127.0.0.1:${port}`);
+        console.log(`Register a device with deviceIdentifier ${standIn.serialNumber}`);
+    });
+}
@@ -0,0 +1,14 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { DeviceContext } from '../interfaces/data-scope.interface';
+
+/**
+ * Decorator to extract the device authenticated by DeviceAuthGuard from request
+ */
+export const CurrentDevice = createParamDecorator(
+    (data: keyof DeviceContext | undefined, ctx: ExecutionContext): DeviceContext | any => {
+        const request = ctx.switchToHttp().getRequest();
+        const device = request.device as DeviceContext;
+
+        return data ? device?.[data] : device;
+    }
+);
@@ -4,3 +4,4 @@ export * from './roles.decorator';
 export * from './no-scoping.decorator';
 export * from './user.decorator';
 export * from './scope.decorator';
+export * from './device.decorator';
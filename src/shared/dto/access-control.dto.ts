@@ -0,0 +1,386 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AccessDenialReason } from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    ArrayUnique,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const ACCESS_CREDENTIAL_KINDS = ['CARD', 'QR_CODE', 'PIN'] as const;
+
+/** How long a door unlocks when it has no setting of its own, e.g. a reader without a door */
+export const DEFAULT_DOOR_UNLOCK_SECONDS = 5;
+
+export class CreateAccessZoneDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    branchId: string;
+
+    @ApiProperty({ example: 'Server room' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+}
+
+export class UpdateAccessZoneDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+}
+
+export class AccessZoneFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ required: false, description: 'Part of the name' })
+    @IsOptional()
+    @IsString()
+    search?: string;
+}
+
+export class CreateDoorDto {
+    @ApiProperty({ example: 'Main entrance' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'The reader controlling the door, a device of the branch of the zone',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    deviceId?: string;
+
+    @ApiProperty({
+        required: false,
+        default: 5,
+        description: 'How long the reader keeps the door unlocked when access is granted',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(300)
+    unlockSeconds?: number;
+}
+
+export class UpdateDoorDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name?: string;
+
+    @ApiProperty({
+        required: false,
+        nullable: true,
+        description: 'The reader controlling the door; null detaches the reader',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    deviceId?: string | null;
+
+    @ApiProperty({
+        required: false,
+        description: 'How long the reader keeps the door unlocked when access is granted',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(300)
+    unlockSeconds?: number;
+}
+
+export class DoorResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    zoneId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false })
+    deviceId?: string;
+    @ApiProperty()
+    unlockSeconds: number;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class AccessZoneResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false })
+    description?: string;
+    @ApiProperty({ type: [DoorResponseDto] })
+    doors: DoorResponseDto[];
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class AccessLevelScheduleDto {
+    @ApiProperty({ type: [Number], example: [1, 2, 3, 4, 5], description: '0-6, Sunday = 0' })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayUnique()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    daysOfWeek: number[];
+
+    @ApiProperty({ example: '08:00', description: 'Local to the branch of the door' })
+    @Matches(TIME_OF_DAY, { message: 'startTime must be in HH:mm format' })
+    startTime: string;
+
+    @ApiProperty({
+        example: '18:00',
+        description: 'An end at or before the start runs into the next day',
+    })
+    @Matches(TIME_OF_DAY, { message: 'endTime must be in HH:mm format' })
+    endTime: string;
+}
+
+export class CreateAccessLevelDto {
+    @ApiProperty({ example: 'Office staff' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+
+    @ApiProperty({ type: [String], description: 'The zones holders of the level may enter' })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(100)
+    @ArrayUnique()
+    @IsString({ each: true })
+    zoneIds: string[];
+
+    @ApiProperty({
+        required: false,
+        type: [AccessLevelScheduleDto],
+        description: 'When the zones may be entered; any time without schedules',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(50)
+    @ValidateNested({ each: true })
+    @Type(() => AccessLevelScheduleDto)
+    schedules?: AccessLevelScheduleDto[];
+
+    @ApiProperty({ required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class UpdateAccessLevelDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+
+    @ApiProperty({ required: false, type: [String], description: 'Replaces the zones' })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(100)
+    @ArrayUnique()
+    @IsString({ each: true })
+    zoneIds?: string[];
+
+    @ApiProperty({
+        required: false,
+        type: [AccessLevelScheduleDto],
+        description: 'Replaces the schedules',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(50)
+    @ValidateNested({ each: true })
+    @Type(() => AccessLevelScheduleDto)
+    schedules?: AccessLevelScheduleDto[];
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class AccessLevelFiltersDto {
+    @ApiProperty({ required: false, description: 'Part of the name' })
+    @IsOptional()
+    @IsString()
+    search?: string;
+}
+
+export class AccessLevelResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false })
+    description?: string;
+    @ApiProperty({ type: [String] })
+    zoneIds: string[];
+    @ApiProperty({ type: [AccessLevelScheduleDto] })
+    schedules: AccessLevelScheduleDto[];
+    @ApiProperty()
+    isActive: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class CreateAccessLevelAssignmentDto {
+    @ApiProperty({ required: false, description: 'Assign the level to a single employee' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    employeeId?: string;
+
+    @ApiProperty({ required: false, description: 'Assign the level to a department' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    departmentId?: string;
+
+    @ApiProperty({ required: false, description: 'Assign the level to a guest visit' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    guestVisitId?: string;
+
+    @ApiProperty({ required: false, example: '2024-01-01T00:00:00Z' })
+    @IsOptional()
+    @IsDateString()
+    validFrom?: string;
+
+    @ApiProperty({ required: false, example: '2024-12-31T23:59:59Z' })
+    @IsOptional()
+    @IsDateString()
+    validUntil?: string;
+}
+
+export class AccessLevelAssignmentResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    accessLevelId: string;
+    @ApiProperty({ required: false })
+    employeeId?: string;
+    @ApiProperty({ required: false })
+    departmentId?: string;
+    @ApiProperty({ required: false })
+    guestVisitId?: string;
+    @ApiProperty({ required: false })
+    validFrom?: Date;
+    @ApiProperty({ required: false })
+    validUntil?: Date;
+    @ApiProperty()
+    createdAt: Date;
+}
+
+export class AccessDecisionRequestDto {
+    @ApiProperty({ enum: ACCESS_CREDENTIAL_KINDS })
+    @IsIn(ACCESS_CREDENTIAL_KINDS)
+    credentialType: (typeof ACCESS_CREDENTIAL_KINDS)[number];
+
+    @ApiProperty({
+        description: 'The card number, the SHA-256 hex of the QR code payload, or the PIN',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(512)
+    credential: string;
+
+    @ApiProperty({
+        required: false,
+        description:
+            'ID, identifier or MAC address of the reader the credential was presented at, in ' +
+            'the branch of the calling controller; the controller itself if omitted',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    readerId?: string;
+}
+
+export class AccessDecisionResponseDto {
+    @ApiProperty({ description: 'ID of the device event the decision is logged as' })
+    decisionId: string;
+    @ApiProperty()
+    granted: boolean;
+    @ApiProperty({ enum: AccessDenialReason, required: false })
+    reason?: AccessDenialReason;
+    @ApiProperty({ description: 'How long to unlock the door; 0 when access is denied' })
+    unlockSeconds: number;
+    @ApiProperty({ description: 'Text for the display of the reader' })
+    displayText: string;
+    @ApiProperty({ required: false })
+    doorId?: string;
+}
@@ -0,0 +1,123 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AttendanceCorrectionStatus, AttendanceCorrectionType } from '@prisma/client';
+import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateAttendanceCorrectionDto {
+    @ApiProperty({
+        enum: AttendanceCorrectionType,
+        description:
+            'MISSING_CHECK_IN and MISSING_CHECK_OUT add the punch, WRONG_TIME moves an existing ' +
+            'record and FORGOTTEN_BADGE adds both punches of a day',
+    })
+    @IsEnum(AttendanceCorrectionType)
+    type: AttendanceCorrectionType;
+
+    @ApiProperty({ required: false, description: 'Record whose time is wrong, for WRONG_TIME' })
+    @IsOptional()
+    @IsString()
+    attendanceId?: string;
+
+    @ApiProperty({ required: false, example: '2026-10-19T09:00:00+05:00' })
+    @IsOptional()
+    @IsDateString()
+    checkInAt?: string;
+
+    @ApiProperty({ required: false, example: '2026-10-19T18:00:00+05:00' })
+    @IsOptional()
+    @IsDateString()
+    checkOutAt?: string;
+
+    @ApiProperty({ example: 'The turnstile was out of order when I left' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class ReviewAttendanceCorrectionDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    note?: string;
+}
+
+export class RejectAttendanceCorrectionDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class AttendanceCorrectionFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    employeeId?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ enum: AttendanceCorrectionStatus, required: false })
+    @IsOptional()
+    @IsEnum(AttendanceCorrectionStatus)
+    status?: AttendanceCorrectionStatus;
+}
+
+class EmployeeForCorrectionResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    firstName: string;
+    @ApiProperty()
+    lastName: string;
+    @ApiProperty()
+    employeeCode: string;
+}
+
+export class AttendanceCorrectionResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty({ required: false })
+    attendanceId?: string;
+    @ApiProperty({ enum: AttendanceCorrectionType })
+    type: AttendanceCorrectionType;
+    @ApiProperty({ required: false })
+    checkInAt?: Date;
+    @ApiProperty({ required: false })
+    checkOutAt?: Date;
+    @ApiProperty()
+    reason: string;
+    @ApiProperty({ enum: AttendanceCorrectionStatus })
+    status: AttendanceCorrectionStatus;
+    @ApiProperty({
+        required: false,
+        description: 'Time of the corrected record before the correction was approved',
+    })
+    originalTimestamp?: Date;
+    @ApiProperty({ type: [String], description: 'Records added when the correction was approved' })
+    createdAttendanceIds: string[];
+    @ApiProperty()
+    requestedByUserId: string;
+    @ApiProperty({ required: false })
+    reviewedByUserId?: string;
+    @ApiProperty({ required: false })
+    reviewedAt?: Date;
+    @ApiProperty({ required: false })
+    reviewNote?: string;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+    @ApiProperty({ type: EmployeeForCorrectionResponseDto, required: false })
+    employee?: EmployeeForCorrectionResponseDto;
+}
@@ -95,8 +95,8 @@ class DailySummaryDto {
     checkOut?: Date;
     @ApiProperty()
     totalHours: number;
-    @ApiProperty({ enum: ['present', 'partial', 'absent'] })
-    status: 'present' | 'partial' | 'absent';
+    @ApiProperty({ enum: ['present', 'partial', 'absent', 'on_leave'] })
+    status: 'present' | 'partial' | 'absent' | 'on_leave';
 }
 
 export class AttendanceSummaryDto {
@@ -114,6 +114,8 @@ export class AttendanceSummaryDto {
     partialDays: number;
     @ApiProperty()
     absentDays: number;
+    @ApiProperty({ description: 'Days excused by approved leave' })
+    leaveDays: number;
     @ApiProperty({ type: [DailySummaryDto] })
     dailySummary: DailySummaryDto[];
 }
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsTimeZone, MaxLength } from 'class-validator';
 
 export class CreateBranchDto {
     @ApiProperty()
@@ -13,6 +13,15 @@ export class CreateBranchDto {
     @IsString()
     @MaxLength(500)
     address?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'Asia/Samarkand',
+        description: "IANA time zone overriding the organization's",
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
 }
 
 export class UpdateBranchDto {
@@ -28,6 +37,15 @@ export class UpdateBranchDto {
     @IsString()
     @MaxLength(500)
     address?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'Asia/Samarkand',
+        description: "IANA time zone overriding the organization's",
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
 }
 
 export class BranchResponseDto {
@@ -39,6 +57,8 @@ export class BranchResponseDto {
     name: string;
     @ApiProperty({ required: false })
     address?: string;
+    @ApiProperty({ required: false })
+    timezone?: string;
     @ApiProperty()
     createdAt: Date;
     @ApiProperty()
@@ -0,0 +1,150 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeviceCommandStatus } from '@prisma/client';
+import {
+    IsDateString,
+    IsEnum,
+    IsIn,
+    IsInt,
+    IsObject,
+    IsOptional,
+    IsString,
+    Max,
+    Min,
+} from 'class-validator';
+
+export const DEVICE_COMMANDS = [
+    'unlock_door',
+    'lock_door',
+    'reboot',
+    'sync_users',
+    'update_firmware',
+] as const;
+
+/** How long a command may take to complete unless the request says otherwise */
+export const DEFAULT_DEVICE_COMMAND_TIMEOUT_SECONDS = 300;
+
+export const MAX_DEVICE_COMMAND_TIMEOUT_SECONDS = 24 * 60 * 60;
+
+export const MAX_DEVICE_COMMAND_ATTEMPTS = 10;
+
+export class SendDeviceCommandDto {
+    @ApiProperty({ enum: DEVICE_COMMANDS })
+    @IsIn(DEVICE_COMMANDS)
+    command: (typeof DEVICE_COMMANDS)[number];
+
+    @ApiProperty({ required: false, example: { door: 1 } })
+    @IsOptional()
+    @IsObject()
+    parameters?: Record<string, any>;
+
+    @ApiProperty({
+        required: false,
+        default: DEFAULT_DEVICE_COMMAND_TIMEOUT_SECONDS,
+        maximum: MAX_DEVICE_COMMAND_TIMEOUT_SECONDS,
+        description: 'Seconds the command may take to complete before it expires',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(5)
+    @Max(MAX_DEVICE_COMMAND_TIMEOUT_SECONDS)
+    timeoutSeconds?: number;
+
+    @ApiProperty({
+        required: false,
+        default: 3,
+        maximum: MAX_DEVICE_COMMAND_ATTEMPTS,
+        description: 'How often to try sending the command, e.g. to a device that is offline',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(MAX_DEVICE_COMMAND_ATTEMPTS)
+    maxAttempts?: number;
+}
+
+export class DeviceCommandFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ enum: DeviceCommandStatus, required: false })
+    @IsOptional()
+    @IsEnum(DeviceCommandStatus)
+    status?: DeviceCommandStatus;
+
+    @ApiProperty({ enum: DEVICE_COMMANDS, required: false })
+    @IsOptional()
+    @IsIn(DEVICE_COMMANDS)
+    command?: string;
+
+    @ApiProperty({ required: false, description: 'Only the commands of one branch-wide request' })
+    @IsOptional()
+    @IsString()
+    batchId?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+}
+
+export class DeviceCommandResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty({ enum: DEVICE_COMMANDS })
+    command: string;
+    @ApiProperty({ required: false })
+    parameters?: any;
+    @ApiProperty({ enum: DeviceCommandStatus })
+    status: DeviceCommandStatus;
+    @ApiProperty()
+    timeoutSeconds: number;
+    @ApiProperty()
+    maxAttempts: number;
+    @ApiProperty()
+    attempts: number;
+    @ApiProperty({ required: false, description: 'As returned by the device' })
+    result?: any;
+    @ApiProperty({ required: false, description: 'Why the command failed, or the last attempt' })
+    error?: string;
+    @ApiProperty({ required: false })
+    batchId?: string;
+    @ApiProperty({ required: false })
+    requestedByUserId?: string;
+    @ApiProperty()
+    expiresAt: Date;
+    @ApiProperty({ required: false })
+    deliveredAt?: Date;
+    @ApiProperty({ required: false })
+    completedAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class BranchDeviceCommandResponseDto {
+    @ApiProperty({ description: 'Shared by the commands, to follow them up' })
+    batchId: string;
+    @ApiProperty()
+    queued: number;
+    @ApiProperty({ type: [DeviceCommandResponseDto] })
+    commands: DeviceCommandResponseDto[];
+}
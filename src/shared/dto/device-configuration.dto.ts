@@ -0,0 +1,349 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    ArrayUnique,
+    IsArray,
+    IsBoolean,
+    IsInt,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+
+/** Devices a profile is assigned to or applied to with one request */
+export const MAX_CONFIGURATION_PROFILE_DEVICES = 500;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class DeviceScheduleDto {
+    @ApiProperty({ example: 'office-hours', description: 'Referenced by access rules' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    id: string;
+
+    @ApiProperty({ example: 'Office hours' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ example: '08:00' })
+    @Matches(TIME_OF_DAY, { message: 'startTime must be in HH:mm format' })
+    startTime: string;
+
+    @ApiProperty({ example: '18:00' })
+    @Matches(TIME_OF_DAY, { message: 'endTime must be in HH:mm format' })
+    endTime: string;
+
+    @ApiProperty({ type: [Number], example: [1, 2, 3, 4, 5], description: '0-6, Sunday = 0' })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayUnique()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    daysOfWeek: number[];
+
+    @ApiProperty()
+    @IsBoolean()
+    enabled: boolean;
+}
+
+export class DeviceAccessRuleDto {
+    @ApiProperty({ example: 'staff' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    id: string;
+
+    @ApiProperty({ example: 'Staff during office hours' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ type: [String], example: ['staff'] })
+    @IsArray()
+    @ArrayUnique()
+    @IsString({ each: true })
+    userGroups: string[];
+
+    @ApiProperty({
+        type: [String],
+        example: ['office-hours'],
+        description: 'IDs of schedules of the same profile',
+    })
+    @IsArray()
+    @ArrayUnique()
+    @IsString({ each: true })
+    timeSchedules: string[];
+
+    @ApiProperty()
+    @IsBoolean()
+    enabled: boolean;
+}
+
+export class CreateDeviceConfigurationProfileDto {
+    @ApiProperty({ example: 'Entrance readers' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+
+    @ApiProperty({
+        example: { doorOpenTimeout: 5, antiPassback: true },
+        description: 'Device settings, as the adapters of the devices take them',
+    })
+    @IsObject()
+    settings: Record<string, any>;
+
+    @ApiProperty({ required: false, type: [DeviceScheduleDto] })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(100)
+    @ValidateNested({ each: true })
+    @Type(() => DeviceScheduleDto)
+    schedules?: DeviceScheduleDto[];
+
+    @ApiProperty({ required: false, type: [DeviceAccessRuleDto] })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(100)
+    @ValidateNested({ each: true })
+    @Type(() => DeviceAccessRuleDto)
+    accessRules?: DeviceAccessRuleDto[];
+
+    @ApiProperty({ required: false, description: 'Kept with the first version' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    changeNote?: string;
+}
+
+export class UpdateDeviceConfigurationProfileDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    description?: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Replaces the settings; any content change creates a new version',
+    })
+    @IsOptional()
+    @IsObject()
+    settings?: Record<string, any>;
+
+    @ApiProperty({ required: false, type: [DeviceScheduleDto] })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(100)
+    @ValidateNested({ each: true })
+    @Type(() => DeviceScheduleDto)
+    schedules?: DeviceScheduleDto[];
+
+    @ApiProperty({ required: false, type: [DeviceAccessRuleDto] })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(100)
+    @ValidateNested({ each: true })
+    @Type(() => DeviceAccessRuleDto)
+    accessRules?: DeviceAccessRuleDto[];
+
+    @ApiProperty({ required: false, description: 'Kept with the new version' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    changeNote?: string;
+}
+
+export class DeviceConfigurationProfileFiltersDto {
+    @ApiProperty({ required: false, description: 'Part of the name' })
+    @IsOptional()
+    @IsString()
+    search?: string;
+}
+
+export class AssignDeviceConfigurationProfileDto {
+    @ApiProperty({ type: [String] })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(MAX_CONFIGURATION_PROFILE_DEVICES)
+    @ArrayUnique()
+    @IsString({ each: true })
+    deviceIds: string[];
+
+    @ApiProperty({
+        required: false,
+        default: false,
+        description: 'Apply the current version to the devices right away',
+    })
+    @IsOptional()
+    @IsBoolean()
+    apply?: boolean;
+}
+
+export class ApplyDeviceConfigurationProfileDto {
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description: 'Only these assigned devices; all devices of the profile by default',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(MAX_CONFIGURATION_PROFILE_DEVICES)
+    @ArrayUnique()
+    @IsString({ each: true })
+    deviceIds?: string[];
+}
+
+export class DeviceConfigurationProfileVersionResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    version: number;
+    @ApiProperty()
+    settings: Record<string, any>;
+    @ApiProperty({ type: [DeviceScheduleDto] })
+    schedules: DeviceScheduleDto[];
+    @ApiProperty({ type: [DeviceAccessRuleDto] })
+    accessRules: DeviceAccessRuleDto[];
+    @ApiProperty({ required: false })
+    changeNote?: string;
+    @ApiProperty({ required: false })
+    createdByUserId?: string;
+    @ApiProperty()
+    createdAt: Date;
+}
+
+export class DeviceConfigurationProfileResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false })
+    description?: string;
+    @ApiProperty()
+    currentVersion: number;
+    @ApiProperty({
+        type: DeviceConfigurationProfileVersionResponseDto,
+        required: false,
+        description: 'The content of the current version, on single profiles',
+    })
+    configuration?: DeviceConfigurationProfileVersionResponseDto;
+    @ApiProperty({ description: 'Devices the profile is assigned to' })
+    deviceCount: number;
+    @ApiProperty({ required: false })
+    createdByUserId?: string;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class DeviceConfigurationDifferenceDto {
+    @ApiProperty({ enum: ['settings', 'schedules', 'accessRules'] })
+    section: 'settings' | 'schedules' | 'accessRules';
+
+    @ApiProperty({ description: 'The setting, or the ID of the schedule or access rule' })
+    key: string;
+
+    @ApiProperty({ required: false, description: 'Missing for items only on the device' })
+    expected?: any;
+
+    @ApiProperty({ required: false, description: 'Missing for items not on the device' })
+    actual?: any;
+}
+
+export class DeviceConfigurationDriftDto {
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty()
+    deviceName: string;
+    @ApiProperty()
+    branchId: string;
+
+    @ApiProperty({
+        enum: ['IN_SYNC', 'DRIFTED', 'UNKNOWN', 'UNREACHABLE'],
+        description:
+            'UNKNOWN when the device does not report its configuration back, UNREACHABLE ' +
+            'when reading it failed',
+    })
+    status: 'IN_SYNC' | 'DRIFTED' | 'UNKNOWN' | 'UNREACHABLE';
+
+    @ApiProperty()
+    currentVersion: number;
+
+    @ApiProperty({ required: false, description: 'The version last applied to the device' })
+    appliedVersion?: number;
+
+    @ApiProperty({ description: 'The current version has not been applied to the device' })
+    outdated: boolean;
+
+    @ApiProperty({ type: [DeviceConfigurationDifferenceDto] })
+    differences: DeviceConfigurationDifferenceDto[];
+
+    @ApiProperty({ required: false })
+    error?: string;
+
+    @ApiProperty()
+    checkedAt: Date;
+}
+
+export class DeviceConfigurationApplyResultDto {
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty()
+    deviceName: string;
+    @ApiProperty()
+    version: number;
+    @ApiProperty()
+    applied: boolean;
+    @ApiProperty({ required: false })
+    error?: string;
+}
+
+export class DeviceConfigurationAssignResponseDto {
+    @ApiProperty({ description: 'Devices the profile is assigned to now' })
+    assigned: number;
+
+    @ApiProperty({
+        type: [DeviceConfigurationApplyResultDto],
+        required: false,
+        description: 'When applied right away',
+    })
+    applied?: DeviceConfigurationApplyResultDto[];
+}
+
+export class DeviceConfigurationDriftFiltersDto {
+    @ApiProperty({ required: false, description: 'Only this device of the profile' })
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+}
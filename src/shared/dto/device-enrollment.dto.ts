@@ -0,0 +1,122 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeviceEnrollmentTokenStatus, DeviceType } from '@prisma/client';
+import {
+    IsEnum,
+    IsIP,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+
+export class CreateDeviceEnrollmentTokenDto {
+    @ApiProperty({ description: 'Branch the enrolled devices are added to' })
+    @IsString()
+    @IsNotEmpty()
+    branchId: string;
+
+    @ApiProperty({
+        enum: DeviceType,
+        required: false,
+        description: 'Type of the enrolled devices; defaults to OTHER',
+    })
+    @IsOptional()
+    @IsEnum(DeviceType)
+    deviceType?: DeviceType;
+
+    @ApiProperty({ required: false, default: 60, description: 'Minutes the token is valid for' })
+    @IsOptional()
+    @IsInt()
+    @Min(5)
+    @Max(7 * 24 * 60)
+    expiresInMinutes?: number;
+}
+
+export class DeviceEnrollmentTokenFiltersDto {
+    @ApiProperty({ enum: DeviceEnrollmentTokenStatus, required: false })
+    @IsOptional()
+    @IsEnum(DeviceEnrollmentTokenStatus)
+    status?: DeviceEnrollmentTokenStatus;
+}
+
+export class DeviceEnrollmentTokenResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty({ enum: DeviceType, required: false })
+    deviceType?: DeviceType;
+    @ApiProperty({ enum: DeviceEnrollmentTokenStatus })
+    status: DeviceEnrollmentTokenStatus;
+    @ApiProperty()
+    expiresAt: Date;
+    @ApiProperty()
+    createdByUserId: string;
+    @ApiProperty({ required: false })
+    usedAt?: Date;
+    @ApiProperty({ required: false })
+    usedByDeviceId?: string;
+    @ApiProperty({ required: false })
+    revokedAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty({
+        required: false,
+        example: 'K7QM-3XVD-9PWH',
+        description: 'Only returned when the token is created; enter it on the device',
+    })
+    token?: string;
+}
+
+export class EnrollDeviceDto {
+    @ApiProperty({ example: 'K7QM-3XVD-9PWH' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(64)
+    token: string;
+
+    @ApiProperty({ example: '00:1B:44:11:3A:B7' })
+    @IsString()
+    @IsNotEmpty()
+    macAddress: string;
+
+    @ApiProperty({ required: false, example: 'DS-K1T671M' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    model?: string;
+
+    @ApiProperty({ required: false, example: 'V3.2.30' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    firmwareVersion?: string;
+
+    @ApiProperty({ required: false, description: 'Defaults to the model and MAC address' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsIP()
+    ipAddress?: string;
+}
+
+export class DeviceEnrollmentResponseDto {
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty({ description: 'Signing secret of the device; it is not shown again' })
+    secret: string;
+    @ApiProperty({ description: 'Initial configuration of the device' })
+    configuration: {
+        deviceId: string;
+        settings: Record<string, any>;
+    };
+}
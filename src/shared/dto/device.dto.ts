@@ -1,5 +1,20 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsBoolean, IsIP, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsBoolean,
+    IsIP,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 
 export class CreateDeviceDto {
     @ApiProperty()
@@ -33,6 +48,18 @@ export class CreateDeviceDto {
     @IsString()
     macAddress?: string;
 
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description:
+            'IP addresses or CIDR ranges the device may use the push (iclock) protocol from',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    pushAllowedAddresses?: string[];
+
     @ApiProperty({ required: false })
     @IsOptional()
     @IsString()
@@ -85,6 +112,18 @@ export class UpdateDeviceDto {
     @IsString()
     macAddress?: string;
 
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description:
+            'IP addresses or CIDR ranges the device may use the push (iclock) protocol from',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    pushAllowedAddresses?: string[];
+
     @ApiProperty({ required: false })
     @IsOptional()
     @IsString()
@@ -131,6 +170,8 @@ export class DeviceResponseDto {
     @ApiProperty({ required: false })
     model?: string;
     @ApiProperty({ required: false })
+    firmwareVersion?: string;
+    @ApiProperty({ required: false })
     description?: string;
     @ApiProperty()
     status: string;
@@ -140,25 +181,128 @@ export class DeviceResponseDto {
     lastSeenAt?: Date;
     @ApiProperty({ required: false })
     lastSeen?: Date;
+    @ApiProperty({ required: false, description: 'When the current secret was issued' })
+    secretIssuedAt?: Date;
     @ApiProperty()
     createdAt: Date;
     @ApiProperty()
     updatedAt: Date;
 }
 
-export class DeviceCommandDto {
-    @ApiProperty({ enum: ['unlock_door', 'lock_door', 'reboot', 'sync_users', 'update_firmware'] })
+export class RotateDeviceSecretDto {
+    @ApiProperty({
+        required: false,
+        default: 60,
+        description: 'Minutes the replaced secret stays valid; 0 revokes it at once',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(7 * 24 * 60)
+    overlapMinutes?: number;
+}
+
+export class DeviceSecretResponseDto {
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty({ description: 'Shown only once; store it on the device' })
+    secret: string;
+    @ApiProperty()
+    secretIssuedAt: Date;
+    @ApiProperty({ required: false, description: 'Until when the replaced secret is accepted' })
+    previousSecretExpiresAt?: Date;
+}
+
+export class DeviceHealthMetricsDto {
+    @ApiProperty({ required: false, description: 'CPU usage in percent' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    cpuUsage?: number;
+
+    @ApiProperty({ required: false, description: 'Memory usage in percent' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    memoryUsage?: number;
+
+    @ApiProperty({ required: false, description: 'Storage usage in percent' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    storageUsage?: number;
+
+    @ApiProperty({ required: false, description: 'Temperature in degrees Celsius' })
+    @IsOptional()
+    @IsNumber()
+    temperature?: number;
+
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description: 'Problems the device detected itself; any marks it DEGRADED',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    issues?: string[];
+}
+
+export class DeviceHeartbeatDto {
+    @ApiProperty({ required: false, description: 'Seconds since the device started' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    uptimeSeconds?: number;
+
+    @ApiProperty({ required: false, example: 'V3.2.30' })
+    @IsOptional()
     @IsString()
-    @IsNotEmpty()
-    command: 'unlock_door' | 'lock_door' | 'reboot' | 'sync_users' | 'update_firmware';
+    @MaxLength(50)
+    firmwareVersion?: string;
 
     @ApiProperty({ required: false })
     @IsOptional()
-    parameters?: Record<string, any>;
+    @IsIP()
+    ipAddress?: string;
 
-    @ApiProperty({ required: false })
+    @ApiProperty({ required: false, type: DeviceHealthMetricsDto })
     @IsOptional()
-    timeout?: number;
+    @ValidateNested()
+    @Type(() => DeviceHealthMetricsDto)
+    metrics?: DeviceHealthMetricsDto;
+}
+
+export class DeviceHeartbeatResponseDto {
+    @ApiProperty()
+    status: string;
+    @ApiProperty()
+    serverTime: Date;
+    @ApiProperty({ description: 'Seconds until the next heartbeat is expected' })
+    heartbeatIntervalSeconds: number;
+}
+
+export class DeviceStatusHistoryResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    fromStatus: string;
+    @ApiProperty()
+    toStatus: string;
+    @ApiProperty()
+    reason: string;
+    @ApiProperty({ required: false })
+    lastSeenAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
 }
 
 class DiscoveredDeviceDto {
@@ -0,0 +1,91 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CredentialType } from '../enums';
+
+export class CreateEmployeeCredentialDto {
+    @ApiProperty({ enum: CredentialType })
+    @IsEnum(CredentialType)
+    type: CredentialType;
+
+    @ApiProperty({
+        description: 'Card number, PIN, fingerprint template reference or face ID',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    value: string;
+
+    @ApiProperty({ required: false, description: 'Defaults to now' })
+    @IsOptional()
+    @IsDateString()
+    validFrom?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    validUntil?: string;
+}
+
+export class UpdateEmployeeCredentialDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    validFrom?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    validUntil?: string;
+}
+
+export class RevokeEmployeeCredentialDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    reason?: string;
+}
+
+export class ReissueEmployeeCredentialDto {
+    @ApiProperty({ description: 'Value of the replacement credential' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    value: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsDateString()
+    validUntil?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    reason?: string;
+}
+
+export class EmployeeCredentialResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty({ enum: CredentialType })
+    type: CredentialType;
+    @ApiProperty({ description: 'PIN values are never returned' })
+    value: string;
+    @ApiProperty()
+    validFrom: Date;
+    @ApiProperty({ required: false })
+    validUntil?: Date;
+    @ApiProperty({ required: false })
+    revokedAt?: Date;
+    @ApiProperty({ required: false })
+    revokeReason?: string;
+    @ApiProperty({ required: false })
+    replacedById?: string;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
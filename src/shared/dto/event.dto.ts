@@ -1,5 +1,32 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsDateString, IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { AccessDenialReason, DeviceEventOutcome } from '@prisma/client';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsObject,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/** Most events a device may upload in one batch */
+export const MAX_RAW_EVENT_BATCH_SIZE = 500;
+
+/** Most events a device timeline returns */
+export const MAX_DEVICE_TIMELINE_EVENTS = 500;
+
+/** Most device events one replay may cover */
+export const MAX_REPLAY_EVENTS = 5000;
 
 export class CreateRawEventDto {
     @ApiProperty()
@@ -17,6 +44,14 @@ export class CreateRawEventDto {
     @IsString()
     employeeId?: string;
 
+    @ApiProperty({
+        required: false,
+        description: 'Employee code, for devices that identify users by their own PIN',
+    })
+    @IsOptional()
+    @IsString()
+    employeeCode?: string;
+
     @ApiProperty({ required: false })
     @IsOptional()
     @IsString()
@@ -38,6 +73,52 @@ export class CreateRawEventDto {
     additionalData?: Record<string, any>;
 }
 
+export class RawEventBatchItemDto extends CreateRawEventDto {
+    @ApiProperty({
+        required: false,
+        description: 'Idempotency key of this event; derived from its content when missing',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    idempotencyKey?: string;
+}
+
+export class CreateRawEventBatchDto {
+    @ApiProperty({ type: [RawEventBatchItemDto], maxItems: MAX_RAW_EVENT_BATCH_SIZE })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(MAX_RAW_EVENT_BATCH_SIZE)
+    @ValidateNested({ each: true })
+    @Type(() => RawEventBatchItemDto)
+    events: RawEventBatchItemDto[];
+}
+
+export class RawEventBatchResultDto {
+    @ApiProperty({ description: 'Position of the event in the batch' })
+    index: number;
+    @ApiProperty()
+    idempotencyKey: string;
+    @ApiProperty({ enum: ['accepted', 'duplicate', 'rejected'] })
+    status: 'accepted' | 'duplicate' | 'rejected';
+    @ApiProperty({ required: false, description: 'Set unless the event was rejected' })
+    eventId?: string;
+    @ApiProperty({ required: false, description: 'Why the event was rejected' })
+    error?: string;
+}
+
+export class RawEventBatchResponseDto {
+    @ApiProperty()
+    accepted: number;
+    @ApiProperty()
+    duplicates: number;
+    @ApiProperty()
+    rejected: number;
+    @ApiProperty({ type: [RawEventBatchResultDto], description: 'One result per event, in order' })
+    results: RawEventBatchResultDto[];
+}
+
 class DeviceForEventDto {
     @ApiProperty()
     id: string;
@@ -47,6 +128,19 @@ class DeviceForEventDto {
     type: string;
     @ApiProperty({ required: false })
     macAddress?: string;
+    @ApiProperty()
+    branchId: string;
+}
+
+class EmployeeForEventDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    firstName: string;
+    @ApiProperty()
+    lastName: string;
+    @ApiProperty()
+    employeeCode: string;
 }
 
 export class DeviceEventLogResponseDto {
@@ -66,10 +160,30 @@ export class DeviceEventLogResponseDto {
     organizationId: string;
     @ApiProperty()
     isProcessed: boolean;
+    @ApiProperty({
+        enum: DeviceEventOutcome,
+        required: false,
+        description: 'Outcome of the last processing; missing until the event is processed',
+    })
+    outcome?: DeviceEventOutcome;
+    @ApiProperty({
+        enum: AccessDenialReason,
+        required: false,
+        description: 'Why access was denied, on denied events',
+    })
+    denialReason?: AccessDenialReason;
+    @ApiProperty({ required: false, description: 'The employee the event was matched to' })
+    employeeId?: string;
+    @ApiProperty({ required: false, description: 'Why processing failed' })
+    processingError?: string;
+    @ApiProperty({ required: false })
+    processedAt?: Date;
     @ApiProperty()
     createdAt: Date;
     @ApiProperty({ type: DeviceForEventDto, required: false })
     device?: DeviceForEventDto;
+    @ApiProperty({ type: EmployeeForEventDto, required: false })
+    employee?: EmployeeForEventDto;
 }
 
 class EventsByTypeDto {
@@ -103,6 +217,16 @@ export class EventLogFiltersDto {
     @IsString()
     deviceId?: string;
 
+    @ApiProperty({ required: false, description: 'Only events of devices of this branch' })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ required: false, description: 'Only events matched to this employee' })
+    @IsOptional()
+    @IsString()
+    employeeId?: string;
+
     @ApiProperty({ required: false })
     @IsOptional()
     @IsString()
@@ -117,4 +241,166 @@ export class EventLogFiltersDto {
     @IsOptional()
     @IsDateString()
     endDate?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean()
+    isProcessed?: boolean;
+
+    @ApiProperty({ enum: DeviceEventOutcome, required: false })
+    @IsOptional()
+    @IsEnum(DeviceEventOutcome)
+    outcome?: DeviceEventOutcome;
+}
+
+export class DeviceTimelineQueryDto {
+    @ApiProperty({ required: false, description: 'Defaults to a day before the end' })
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @ApiProperty({ required: false, description: 'Defaults to now' })
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+
+    @ApiProperty({ required: false, default: 100, maximum: MAX_DEVICE_TIMELINE_EVENTS })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    @IsInt()
+    @Min(1)
+    @Max(MAX_DEVICE_TIMELINE_EVENTS)
+    limit?: number;
+}
+
+class TimelineAttendanceDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty({ enum: ['CHECK_IN', 'CHECK_OUT'] })
+    eventType: string;
+    @ApiProperty()
+    timestamp: Date;
+    @ApiProperty({ description: 'Changed by an approved correction' })
+    corrected: boolean;
+}
+
+export class DeviceTimelineEntryDto {
+    @ApiProperty()
+    eventLogId: string;
+    @ApiProperty()
+    eventType: string;
+    @ApiProperty({ description: 'When the event happened on the device' })
+    timestamp: Date;
+    @ApiProperty({ description: 'When the event was received' })
+    receivedAt: Date;
+    @ApiProperty({ enum: ['PENDING', ...Object.values(DeviceEventOutcome)] })
+    status: 'PENDING' | DeviceEventOutcome;
+    @ApiProperty({
+        enum: AccessDenialReason,
+        required: false,
+        description: 'Why access was denied',
+    })
+    denialReason?: AccessDenialReason;
+    @ApiProperty({ required: false, description: 'Why processing failed' })
+    processingError?: string;
+    @ApiProperty({ required: false })
+    processedAt?: Date;
+    @ApiProperty({ type: EmployeeForEventDto, required: false })
+    employee?: EmployeeForEventDto;
+    @ApiProperty({
+        type: [TimelineAttendanceDto],
+        description: 'The attendance records the event produced',
+    })
+    attendance: TimelineAttendanceDto[];
+    @ApiProperty({ required: false, description: 'Storage key of the raw payload' })
+    rawPayloadUrl?: string;
+}
+
+export class DeviceTimelineResponseDto {
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty()
+    startDate: Date;
+    @ApiProperty()
+    endDate: Date;
+    @ApiProperty({ type: [DeviceTimelineEntryDto], description: 'Newest first' })
+    events: DeviceTimelineEntryDto[];
+}
+
+export class ReplayDeviceEventsDto {
+    @ApiProperty({ description: 'Replay the events from this time' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ description: 'Replay the events up to this time' })
+    @IsDateString()
+    endDate: string;
+
+    @ApiProperty({ required: false, description: 'Only replay the events of this device' })
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+
+    @ApiProperty({ required: false, description: 'Only replay events of this type' })
+    @IsOptional()
+    @IsString()
+    eventType?: string;
+
+    @ApiProperty({
+        required: false,
+        description: 'Only replay the events whose processing never completed',
+    })
+    @IsOptional()
+    @IsBoolean()
+    unprocessedOnly?: boolean;
+
+    @ApiProperty({
+        required: false,
+        description: 'Report the attendance changes the replay would make, without making them',
+    })
+    @IsOptional()
+    @IsBoolean()
+    dryRun?: boolean;
+}
+
+class ReplayedPunchDto {
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty({ enum: ['CHECK_IN', 'CHECK_OUT'] })
+    eventType: string;
+}
+
+export class AttendanceReplayChangeDto {
+    @ApiProperty({ enum: ['create', 'update', 'delete'] })
+    change: 'create' | 'update' | 'delete';
+    @ApiProperty({ required: false, description: 'The attendance record changed or deleted' })
+    attendanceId?: string;
+    @ApiProperty({ required: false, description: 'The replayed event behind the change' })
+    eventLogId?: string;
+    @ApiProperty({ required: false })
+    deviceId?: string;
+    @ApiProperty()
+    timestamp: Date;
+    @ApiProperty({ type: ReplayedPunchDto, required: false })
+    before?: ReplayedPunchDto;
+    @ApiProperty({ type: ReplayedPunchDto, required: false })
+    after?: ReplayedPunchDto;
+}
+
+export class DeviceEventReplayResponseDto {
+    @ApiProperty()
+    dryRun: boolean;
+    @ApiProperty({ description: 'The number of events matching the filters' })
+    events: number;
+    @ApiProperty({ description: 'The number of events queued for processing' })
+    queued: number;
+    @ApiProperty({
+        type: [AttendanceReplayChangeDto],
+        required: false,
+        description: 'For a dry run, the attendance changes the replay would make',
+    })
+    changes?: AttendanceReplayChangeDto[];
 }
@@ -0,0 +1,133 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeviceEventFailureClass, FailedDeviceEventStatus } from '@prisma/client';
+import {
+    IsDateString,
+    IsEnum,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+    ValidateIf,
+} from 'class-validator';
+
+export class FailedDeviceEventFiltersDto {
+    @ApiProperty({ enum: FailedDeviceEventStatus, required: false })
+    @IsOptional()
+    @IsEnum(FailedDeviceEventStatus)
+    status?: FailedDeviceEventStatus;
+
+    @ApiProperty({ enum: DeviceEventFailureClass, required: false })
+    @IsOptional()
+    @IsEnum(DeviceEventFailureClass)
+    failureClass?: DeviceEventFailureClass;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    deviceId?: string;
+
+    @ApiProperty({ required: false, description: 'Only events that last failed from then on' })
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @ApiProperty({ required: false, description: 'Only events that last failed until then' })
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+}
+
+export class UpdateFailedDeviceEventDto {
+    @ApiProperty({
+        required: false,
+        nullable: true,
+        description:
+            'The employee to record the event for when it is retried, instead of matching its ' +
+            'credential again; null clears it',
+    })
+    @ValidateIf((_, value) => value !== undefined && value !== null)
+    @IsString()
+    @IsNotEmpty()
+    resolvedEmployeeId?: string | null;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    note?: string;
+}
+
+export class DiscardFailedDeviceEventDto {
+    @ApiProperty({ required: false, description: 'Why the event is not processed' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    reason?: string;
+}
+
+export class FailedDeviceEventResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty({ required: false, description: 'The device event log entry of the event' })
+    eventLogId?: string;
+    @ApiProperty({ enum: DeviceEventFailureClass })
+    failureClass: DeviceEventFailureClass;
+    @ApiProperty({ enum: FailedDeviceEventStatus })
+    status: FailedDeviceEventStatus;
+    @ApiProperty({ description: 'The error of the latest failure' })
+    error: string;
+    @ApiProperty()
+    jobName: string;
+    @ApiProperty({ required: false })
+    jobId?: string;
+    @ApiProperty({ description: 'The queued event' })
+    payload: any;
+    @ApiProperty({ description: 'How often the event failed, counting retries' })
+    failureCount: number;
+    @ApiProperty({ required: false })
+    resolvedEmployeeId?: string;
+    @ApiProperty({ required: false, description: 'The user who last retried or discarded it' })
+    resolvedByUserId?: string;
+    @ApiProperty({ required: false })
+    note?: string;
+    @ApiProperty()
+    firstFailedAt: Date;
+    @ApiProperty()
+    lastFailedAt: Date;
+    @ApiProperty({ required: false, description: 'When it was resolved or discarded' })
+    closedAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class FailureClassMetricsDto {
+    @ApiProperty({ enum: DeviceEventFailureClass })
+    failureClass: DeviceEventFailureClass;
+    @ApiProperty()
+    open: number;
+    @ApiProperty({ description: 'Retried and waiting to be processed' })
+    retried: number;
+    @ApiProperty()
+    resolved: number;
+    @ApiProperty()
+    discarded: number;
+    @ApiProperty()
+    total: number;
+}
+
+export class FailedDeviceEventMetricsDto {
+    @ApiProperty({ type: [FailureClassMetricsDto], description: 'One entry per failure class' })
+    byFailureClass: FailureClassMetricsDto[];
+    @ApiProperty()
+    open: number;
+    @ApiProperty({ required: false, description: 'When the longest-waiting open event failed' })
+    oldestOpenFailedAt?: Date;
+}
@@ -0,0 +1,301 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+    FirmwareCampaignDeviceStatus,
+    FirmwareCampaignStatus,
+    FirmwareImageStatus,
+} from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+    ArrayUnique,
+    IsArray,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+
+export const DEFAULT_FIRMWARE_CONTENT_TYPE = 'application/octet-stream';
+
+/** How long the upload URL of a new firmware image stays valid */
+export const FIRMWARE_UPLOAD_URL_EXPIRY_SECONDS = 60 * 60;
+
+export const DEFAULT_FIRMWARE_WAVE_SIZE = 10;
+
+export const DEFAULT_FIRMWARE_FAILURE_THRESHOLD_PERCENT = 10;
+
+export const DEFAULT_FIRMWARE_VERIFY_TIMEOUT_MINUTES = 60;
+
+export const MAX_FIRMWARE_VERIFY_TIMEOUT_MINUTES = 24 * 60;
+
+export class CreateFirmwareImageDto {
+    @ApiProperty({ example: 'DS-K1T671M', description: 'The device model, as in Device.model' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    deviceModel: string;
+
+    @ApiProperty({
+        example: 'V3.2.30 build 220501',
+        description: 'The version devices report once updated',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    version: string;
+
+    @ApiProperty({ example: 'digicap.dav' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    fileName: string;
+
+    @ApiProperty({ required: false, default: DEFAULT_FIRMWARE_CONTENT_TYPE })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    contentType?: string;
+
+    @ApiProperty({ required: false, description: 'SHA-256 of the file, hex encoded' })
+    @IsOptional()
+    @Matches(/^[a-f0-9]{64}$/i, { message: 'checksum must be a hex encoded SHA-256' })
+    checksum?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(5000)
+    releaseNotes?: string;
+}
+
+export class FirmwareImageFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    deviceModel?: string;
+
+    @ApiProperty({ enum: FirmwareImageStatus, required: false })
+    @IsOptional()
+    @IsEnum(FirmwareImageStatus)
+    status?: FirmwareImageStatus;
+}
+
+export class FirmwareImageResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    deviceModel: string;
+    @ApiProperty()
+    version: string;
+    @ApiProperty()
+    fileName: string;
+    @ApiProperty()
+    contentType: string;
+    @ApiProperty({ required: false, description: 'Known once the upload is completed' })
+    sizeBytes?: number;
+    @ApiProperty({ required: false })
+    checksum?: string;
+    @ApiProperty({ required: false })
+    releaseNotes?: string;
+    @ApiProperty({ enum: FirmwareImageStatus })
+    status: FirmwareImageStatus;
+    @ApiProperty({ required: false })
+    uploadedByUserId?: string;
+    @ApiProperty({ required: false })
+    uploadedAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class FirmwareImageUploadResponseDto {
+    @ApiProperty({ type: FirmwareImageResponseDto })
+    image: FirmwareImageResponseDto;
+
+    @ApiProperty({
+        description:
+            'PUT the file to this URL, then complete the upload; valid for ' +
+            `${FIRMWARE_UPLOAD_URL_EXPIRY_SECONDS / 60} minutes`,
+    })
+    uploadUrl: string;
+}
+
+export class CreateFirmwareCampaignDto {
+    @ApiProperty({ example: 'Entrance readers to V3.2.30' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    name: string;
+
+    @ApiProperty({ description: 'The firmware image to roll out to the devices of its model' })
+    @IsString()
+    @IsNotEmpty()
+    firmwareImageId: string;
+
+    @ApiProperty({
+        required: false,
+        type: [String],
+        description: 'Only update the devices of these branches; all branches by default',
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayUnique()
+    @IsString({ each: true })
+    branchIds?: string[];
+
+    @ApiProperty({ required: false, default: DEFAULT_FIRMWARE_WAVE_SIZE })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(1000)
+    waveSize?: number;
+
+    @ApiProperty({
+        required: false,
+        default: DEFAULT_FIRMWARE_FAILURE_THRESHOLD_PERCENT,
+        description: 'The campaign pauses once more than this share of the updates failed',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(100)
+    failureThresholdPercent?: number;
+
+    @ApiProperty({
+        required: false,
+        default: DEFAULT_FIRMWARE_VERIFY_TIMEOUT_MINUTES,
+        maximum: MAX_FIRMWARE_VERIFY_TIMEOUT_MINUTES,
+        description: 'Minutes a device has to report the new version before its update fails',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(5)
+    @Max(MAX_FIRMWARE_VERIFY_TIMEOUT_MINUTES)
+    verifyTimeoutMinutes?: number;
+}
+
+export class PauseFirmwareCampaignDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    reason?: string;
+}
+
+export class FirmwareCampaignFiltersDto {
+    @ApiProperty({ enum: FirmwareCampaignStatus, required: false })
+    @IsOptional()
+    @IsEnum(FirmwareCampaignStatus)
+    status?: FirmwareCampaignStatus;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    firmwareImageId?: string;
+}
+
+export class FirmwareCampaignDeviceFiltersDto {
+    @ApiProperty({ enum: FirmwareCampaignDeviceStatus, required: false })
+    @IsOptional()
+    @IsEnum(FirmwareCampaignDeviceStatus)
+    status?: FirmwareCampaignDeviceStatus;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    wave?: number;
+}
+
+export class FirmwareCampaignProgressDto {
+    @ApiProperty()
+    total: number;
+    @ApiProperty()
+    pending: number;
+    @ApiProperty()
+    inProgress: number;
+    @ApiProperty()
+    succeeded: number;
+    @ApiProperty()
+    failed: number;
+    @ApiProperty()
+    skipped: number;
+}
+
+export class FirmwareCampaignResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty()
+    firmwareImageId: string;
+    @ApiProperty({ required: false })
+    deviceModel?: string;
+    @ApiProperty({ required: false })
+    version?: string;
+    @ApiProperty({ enum: FirmwareCampaignStatus })
+    status: FirmwareCampaignStatus;
+    @ApiProperty({ type: [String], description: 'Empty when all branches are targeted' })
+    branchIds: string[];
+    @ApiProperty()
+    waveSize: number;
+    @ApiProperty()
+    totalWaves: number;
+    @ApiProperty({ description: 'The wave being rolled out, 0 until started' })
+    currentWave: number;
+    @ApiProperty()
+    failureThresholdPercent: number;
+    @ApiProperty()
+    verifyTimeoutMinutes: number;
+    @ApiProperty({ required: false })
+    pausedReason?: string;
+    @ApiProperty({ required: false, type: FirmwareCampaignProgressDto })
+    progress?: FirmwareCampaignProgressDto;
+    @ApiProperty({ required: false })
+    createdByUserId?: string;
+    @ApiProperty({ required: false })
+    startedAt?: Date;
+    @ApiProperty({ required: false })
+    resumedAt?: Date;
+    @ApiProperty({ required: false })
+    completedAt?: Date;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class FirmwareCampaignDeviceResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    campaignId: string;
+    @ApiProperty()
+    deviceId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    wave: number;
+    @ApiProperty({ enum: FirmwareCampaignDeviceStatus })
+    status: FirmwareCampaignDeviceStatus;
+    @ApiProperty({ required: false, description: 'The version the device reported before' })
+    previousVersion?: string;
+    @ApiProperty({ required: false })
+    error?: string;
+    @ApiProperty({ required: false, description: 'The update_firmware device command' })
+    deviceCommandId?: string;
+    @ApiProperty({ required: false })
+    startedAt?: Date;
+    @ApiProperty({ required: false })
+    completedAt?: Date;
+}
@@ -22,11 +22,11 @@ export class CreateGuestVisitDto {
     @IsNotEmpty()
     branchId: string;
 
-    @ApiProperty()
+    @ApiProperty({ description: 'Without an offset the time is read in the branch time zone' })
     @IsDateString()
     scheduledEntryTime: string;
 
-    @ApiProperty()
+    @ApiProperty({ description: 'Without an offset the time is read in the branch time zone' })
     @IsDateString()
     scheduledExitTime: string;
 }
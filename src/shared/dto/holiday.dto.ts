@@ -0,0 +1,199 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+    ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateHolidayDto {
+    @ApiProperty({ example: 'Independence Day' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ example: '2026-09-01', description: 'Calendar day (YYYY-MM-DD)' })
+    @IsDateString()
+    date: string;
+
+    @ApiProperty({
+        required: false,
+        default: false,
+        description: 'Repeats on the same month and day every year',
+    })
+    @IsOptional()
+    @IsBoolean()
+    isRecurring?: boolean;
+
+    @ApiProperty({
+        required: false,
+        default: true,
+        description: 'False keeps the branch at work on an organization holiday',
+    })
+    @IsOptional()
+    @IsBoolean()
+    isDayOff?: boolean;
+
+    @ApiProperty({
+        required: false,
+        description: "Applies to this branch only, overriding the organization's calendar",
+    })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+}
+
+export class UpdateHolidayDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false, description: 'Calendar day (YYYY-MM-DD)' })
+    @IsOptional()
+    @IsDateString()
+    date?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isRecurring?: boolean;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isDayOff?: boolean;
+}
+
+export class ImportHolidayEntryDto {
+    @ApiProperty({ example: 'New Year' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ example: '2026-01-01' })
+    @IsDateString()
+    date: string;
+
+    @ApiProperty({ required: false, default: false })
+    @IsOptional()
+    @IsBoolean()
+    isRecurring?: boolean;
+
+    @ApiProperty({ required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isDayOff?: boolean;
+}
+
+export class ImportHolidaysDto {
+    @ApiProperty({
+        required: false,
+        description: 'Import into the calendar of this branch instead of the organization',
+    })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ type: [ImportHolidayEntryDto] })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(366)
+    @ValidateNested({ each: true })
+    @Type(() => ImportHolidayEntryDto)
+    holidays: ImportHolidayEntryDto[];
+}
+
+export class HolidayFiltersDto {
+    @ApiProperty({
+        required: false,
+        description: 'Only entries of this branch; organization entries are returned otherwise',
+    })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ required: false, description: 'One-off entries of the year and all recurring' })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    @IsInt()
+    @Min(2000)
+    @Max(2100)
+    year?: number;
+}
+
+export class HolidayCalendarQueryDto {
+    @ApiProperty({ required: false, description: "Resolve the branch's overrides" })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ example: 2026 })
+    @Transform(({ value }) => parseInt(value))
+    @IsInt()
+    @Min(2000)
+    @Max(2100)
+    year: number;
+}
+
+export class HolidayResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty({ required: false })
+    branchId?: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ description: 'Calendar day (YYYY-MM-DD)' })
+    date: string;
+    @ApiProperty()
+    isRecurring: boolean;
+    @ApiProperty()
+    isDayOff: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class ImportHolidaysResponseDto {
+    @ApiProperty()
+    created: number;
+    @ApiProperty({ description: 'Entries already in the calendar' })
+    skipped: number;
+}
+
+export class HolidayCalendarDayDto {
+    @ApiProperty({ description: 'Calendar day (YYYY-MM-DD)' })
+    date: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false, description: 'Set when the day off comes from the branch' })
+    branchId?: string;
+}
+
+export class HolidayCalendarResponseDto {
+    @ApiProperty()
+    year: number;
+    @ApiProperty({ required: false })
+    branchId?: string;
+    @ApiProperty({ description: 'Weekdays that are not holidays' })
+    workingDays: number;
+    @ApiProperty({ type: [HolidayCalendarDayDto] })
+    holidays: HolidayCalendarDayDto[];
+}
@@ -2,11 +2,26 @@ export * from './pagination.dto';
 export * from './organization.dto';
 export * from './user.dto';
 export * from './employee.dto';
+export * from './employee-credential.dto';
 export * from './branch.dto';
 export * from './department.dto';
 export * from './device.dto';
+export * from './device-enrollment.dto';
+export * from './device-command.dto';
+export * from './firmware.dto';
+export * from './device-configuration.dto';
+export * from './access-control.dto';
 export * from './event.dto';
+export * from './failed-event.dto';
 export * from './attendance.dto';
+export * from './attendance-correction.dto';
 export * from './guest.dto';
 export * from './audit-log.dto';
 export * from './report.dto';
+export * from './payroll-export.dto';
+export * from './pay-period.dto';
+export * from './shift.dto';
+export * from './timesheet.dto';
+export * from './leave.dto';
+export * from './holiday.dto';
+export * from './mqtt-channel.dto';
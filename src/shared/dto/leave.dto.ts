@@ -0,0 +1,334 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LeaveAccrualType, LeaveRequestStatus } from '@prisma/client';
+import {
+    IsBoolean,
+    IsDateString,
+    IsEnum,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreateLeaveTypeDto {
+    @ApiProperty({ example: 'Annual vacation' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isPaid?: boolean;
+
+    @ApiProperty({
+        enum: LeaveAccrualType,
+        required: false,
+        default: LeaveAccrualType.YEARLY,
+        description: 'NONE leaves requests unlimited by a balance, e.g. for business trips',
+    })
+    @IsOptional()
+    @IsEnum(LeaveAccrualType)
+    accrualType?: LeaveAccrualType;
+
+    @ApiProperty({ required: false, default: 0, description: 'Allowance per calendar year' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(366)
+    annualDays?: number;
+
+    @ApiProperty({ required: false, default: 0 })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(366)
+    maxCarryOverDays?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class UpdateLeaveTypeDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isPaid?: boolean;
+
+    @ApiProperty({ enum: LeaveAccrualType, required: false })
+    @IsOptional()
+    @IsEnum(LeaveAccrualType)
+    accrualType?: LeaveAccrualType;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(366)
+    annualDays?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(366)
+    maxCarryOverDays?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class LeaveTypeResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty()
+    isPaid: boolean;
+    @ApiProperty({ enum: LeaveAccrualType })
+    accrualType: LeaveAccrualType;
+    @ApiProperty()
+    annualDays: number;
+    @ApiProperty()
+    maxCarryOverDays: number;
+    @ApiProperty()
+    isActive: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class AdjustLeaveBalanceDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    leaveTypeId: string;
+
+    @ApiProperty({ example: 2026 })
+    @IsInt()
+    @Min(2000)
+    @Max(2100)
+    year: number;
+
+    @ApiProperty({ description: 'Manual correction of the balance, may be negative' })
+    @IsNumber()
+    @Min(-366)
+    @Max(366)
+    adjustmentDays: number;
+}
+
+export class LeaveBalanceResponseDto {
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty()
+    leaveTypeId: string;
+    @ApiProperty()
+    leaveTypeName: string;
+    @ApiProperty()
+    year: number;
+    @ApiProperty({ description: 'False when requests of the type are not limited by a balance' })
+    tracked: boolean;
+    @ApiProperty()
+    accruedDays: number;
+    @ApiProperty()
+    carriedOverDays: number;
+    @ApiProperty()
+    adjustmentDays: number;
+    @ApiProperty()
+    usedDays: number;
+    @ApiProperty()
+    pendingDays: number;
+    @ApiProperty()
+    availableDays: number;
+}
+
+export class CreateLeaveRequestDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    employeeId: string;
+
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    leaveTypeId: string;
+
+    @ApiProperty({ example: '2026-07-01', description: 'First day of leave (YYYY-MM-DD)' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ example: '2026-07-14', description: 'Last day of leave (YYYY-MM-DD)' })
+    @IsDateString()
+    endDate: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    reason?: string;
+}
+
+export class ReviewLeaveRequestDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    note?: string;
+}
+
+export class RejectLeaveRequestDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class LeaveRequestFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    employeeId?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ enum: LeaveRequestStatus, required: false })
+    @IsOptional()
+    @IsEnum(LeaveRequestStatus)
+    status?: LeaveRequestStatus;
+
+    @ApiProperty({ required: false, description: 'Requests overlapping days from (YYYY-MM-DD)' })
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @ApiProperty({ required: false, description: 'Requests overlapping days until (YYYY-MM-DD)' })
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+}
+
+export class LeaveCalendarFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ example: '2026-07-01' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ example: '2026-07-31' })
+    @IsDateString()
+    endDate: string;
+}
+
+export class LeaveBalanceQueryDto {
+    @ApiProperty({ required: false, description: 'Defaults to the current year' })
+    @IsOptional()
+    @Transform(({ value }) => parseInt(value))
+    @IsInt()
+    @Min(2000)
+    @Max(2100)
+    year?: number;
+}
+
+class EmployeeForLeaveResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    firstName: string;
+    @ApiProperty()
+    lastName: string;
+    @ApiProperty()
+    employeeCode: string;
+}
+
+class LeaveTypeSummaryDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty()
+    isPaid: boolean;
+}
+
+export class LeaveRequestResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty()
+    leaveTypeId: string;
+    @ApiProperty({ description: 'First day of leave (YYYY-MM-DD)' })
+    startDate: string;
+    @ApiProperty({ description: 'Last day of leave (YYYY-MM-DD)' })
+    endDate: string;
+    @ApiProperty({ description: 'Working days in the period' })
+    days: number;
+    @ApiProperty({ required: false })
+    reason?: string;
+    @ApiProperty({ enum: LeaveRequestStatus })
+    status: LeaveRequestStatus;
+    @ApiProperty()
+    requestedByUserId: string;
+    @ApiProperty({ required: false })
+    reviewedByUserId?: string;
+    @ApiProperty({ required: false })
+    reviewedAt?: Date;
+    @ApiProperty({ required: false })
+    reviewNote?: string;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+    @ApiProperty({ type: EmployeeForLeaveResponseDto, required: false })
+    employee?: EmployeeForLeaveResponseDto;
+    @ApiProperty({ type: LeaveTypeSummaryDto, required: false })
+    leaveType?: LeaveTypeSummaryDto;
+}
+
+class LeaveCalendarEntryDto {
+    @ApiProperty()
+    requestId: string;
+    @ApiProperty({ enum: LeaveRequestStatus })
+    status: LeaveRequestStatus;
+    @ApiProperty({ type: EmployeeForLeaveResponseDto })
+    employee: EmployeeForLeaveResponseDto;
+    @ApiProperty({ type: LeaveTypeSummaryDto })
+    leaveType: LeaveTypeSummaryDto;
+}
+
+export class LeaveCalendarDayDto {
+    @ApiProperty({ description: 'Calendar day (YYYY-MM-DD)' })
+    date: string;
+    @ApiProperty({ type: [LeaveCalendarEntryDto] })
+    entries: LeaveCalendarEntryDto[];
+}
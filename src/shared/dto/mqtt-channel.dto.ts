@@ -0,0 +1,104 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+    IsBoolean,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from 'class-validator';
+
+export class CreateMqttChannelDto {
+    @ApiProperty({ example: 'Turnstiles' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({
+        example: 'acme/+/{deviceId}/events',
+        description: 'Topic filter devices publish events to, with {deviceId} as one level',
+    })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    eventTopicPattern: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'acme/devices/{deviceId}/commands',
+        description: 'Topic commands are published to, without wildcards',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    commandTopicPattern?: string;
+
+    @ApiProperty({ required: false, default: 1, enum: [0, 1] })
+    @IsOptional()
+    @IsInt()
+    @IsIn([0, 1])
+    qos?: number;
+
+    @ApiProperty({ required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    isEnabled?: boolean;
+}
+
+export class UpdateMqttChannelDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    eventTopicPattern?: string;
+
+    @ApiProperty({ required: false, nullable: true, description: 'Null stops sending commands' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    commandTopicPattern?: string | null;
+
+    @ApiProperty({ required: false, enum: [0, 1] })
+    @IsOptional()
+    @IsInt()
+    @IsIn([0, 1])
+    qos?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isEnabled?: boolean;
+}
+
+export class MqttChannelResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty()
+    eventTopicPattern: string;
+    @ApiProperty({ required: false })
+    commandTopicPattern?: string;
+    @ApiProperty()
+    qos: number;
+    @ApiProperty()
+    isEnabled: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
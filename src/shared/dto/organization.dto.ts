@@ -1,5 +1,17 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import {
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    IsTimeZone,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
 export class CreateOrganizationDto {
     @ApiProperty()
@@ -13,6 +25,63 @@ export class CreateOrganizationDto {
     @IsString()
     @MaxLength(500)
     description?: string;
+
+    @ApiProperty({
+        required: false,
+        example: '04:00',
+        description: 'Time (HH:mm) at which an attendance day starts; defaults to midnight',
+    })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'attendanceDayBoundary must be in HH:mm format' })
+    attendanceDayBoundary?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'Asia/Tashkent',
+        description: 'IANA time zone used for attendance days and reports; defaults to UTC',
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 480,
+        description: 'Net minutes per day after which time counts as overtime',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1440)
+    dailyOvertimeThresholdMinutes?: number;
+
+    @ApiProperty({
+        required: false,
+        example: 2400,
+        description: 'Regular minutes per week after which time counts as overtime',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(10080)
+    weeklyOvertimeThresholdMinutes?: number;
+
+    @ApiProperty({ required: false, example: 1, description: 'First day of the week, Sunday = 0' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    weekStartDay?: number;
+
+    @ApiProperty({ required: false, example: '22:00', description: 'Start of night hours (HH:mm)' })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'nightStartTime must be in HH:mm format' })
+    nightStartTime?: string;
+
+    @ApiProperty({ required: false, example: '06:00', description: 'End of night hours (HH:mm)' })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'nightEndTime must be in HH:mm format' })
+    nightEndTime?: string;
 }
 
 export class UpdateOrganizationDto {
@@ -28,6 +97,63 @@ export class UpdateOrganizationDto {
     @IsString()
     @MaxLength(500)
     description?: string;
+
+    @ApiProperty({
+        required: false,
+        example: '04:00',
+        description: 'Time (HH:mm) at which an attendance day starts; defaults to midnight',
+    })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'attendanceDayBoundary must be in HH:mm format' })
+    attendanceDayBoundary?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'Asia/Tashkent',
+        description: 'IANA time zone used for attendance days and reports; defaults to UTC',
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 480,
+        description: 'Net minutes per day after which time counts as overtime',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1440)
+    dailyOvertimeThresholdMinutes?: number;
+
+    @ApiProperty({
+        required: false,
+        example: 2400,
+        description: 'Regular minutes per week after which time counts as overtime',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(10080)
+    weeklyOvertimeThresholdMinutes?: number;
+
+    @ApiProperty({ required: false, example: 1, description: 'First day of the week, Sunday = 0' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    weekStartDay?: number;
+
+    @ApiProperty({ required: false, example: '22:00', description: 'Start of night hours (HH:mm)' })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'nightStartTime must be in HH:mm format' })
+    nightStartTime?: string;
+
+    @ApiProperty({ required: false, example: '06:00', description: 'End of night hours (HH:mm)' })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'nightEndTime must be in HH:mm format' })
+    nightEndTime?: string;
 }
 
 export class OrganizationResponseDto {
@@ -38,6 +164,20 @@ export class OrganizationResponseDto {
     @ApiProperty({ required: false })
     description?: string;
     @ApiProperty()
+    attendanceDayBoundary: string;
+    @ApiProperty()
+    timezone: string;
+    @ApiProperty()
+    dailyOvertimeThresholdMinutes: number;
+    @ApiProperty()
+    weeklyOvertimeThresholdMinutes: number;
+    @ApiProperty()
+    weekStartDay: number;
+    @ApiProperty()
+    nightStartTime: string;
+    @ApiProperty()
+    nightEndTime: string;
+    @ApiProperty()
     createdAt: Date;
     @ApiProperty()
     updatedAt: Date;
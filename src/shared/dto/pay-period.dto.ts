@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PayPeriodStatus } from '@prisma/client';
+import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreatePayPeriodDto {
+    @ApiProperty({ example: 'October 2026' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ example: '2026-10-01', description: 'First day of the period (YYYY-MM-DD)' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ example: '2026-10-31', description: 'Last day of the period (YYYY-MM-DD)' })
+    @IsDateString()
+    endDate: string;
+}
+
+export class ReopenPayPeriodDto {
+    @ApiProperty({ example: 'Missing overtime for the night shift on 2026-10-14' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+}
+
+export class PayPeriodFiltersDto {
+    @ApiProperty({ enum: PayPeriodStatus, required: false })
+    @IsOptional()
+    @IsEnum(PayPeriodStatus)
+    status?: PayPeriodStatus;
+}
+
+export class PayPeriodResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ description: 'First day of the period (YYYY-MM-DD)' })
+    startDate: string;
+    @ApiProperty({ description: 'Last day of the period (YYYY-MM-DD)' })
+    endDate: string;
+    @ApiProperty({ enum: PayPeriodStatus })
+    status: PayPeriodStatus;
+    @ApiProperty({ required: false })
+    lockedByUserId?: string;
+    @ApiProperty({ required: false })
+    lockedAt?: Date;
+    @ApiProperty({ required: false })
+    reopenedByUserId?: string;
+    @ApiProperty({ required: false })
+    reopenedAt?: Date;
+    @ApiProperty({ required: false })
+    reopenReason?: string;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
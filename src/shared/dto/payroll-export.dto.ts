@@ -0,0 +1,204 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PayrollExportLayout, PayrollHoursFormat } from '@prisma/client';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsEnum,
+    IsIn,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+    ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PAYROLL_EXPORT_FIELDS, PayrollExportField } from '@/shared/utils/payroll-export.util';
+
+const delimiters = [',', ';', '\t', '|'];
+const decimalSeparators = ['.', ','];
+
+export class PayrollExportColumnDto {
+    @ApiProperty({ enum: PAYROLL_EXPORT_FIELDS, example: 'overtimeHours' })
+    @IsIn(PAYROLL_EXPORT_FIELDS)
+    field: PayrollExportField;
+
+    @ApiProperty({ required: false, description: "Column title; defaults to the field's label" })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    header?: string;
+
+    @ApiProperty({
+        required: false,
+        example: 'OT150',
+        description: "Pay code written in pay code layout; defaults to the field's name",
+    })
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    code?: string;
+
+    @ApiProperty({ required: false, description: "Value written by 'constant' columns" })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    value?: string;
+
+    @ApiProperty({ required: false, description: "Counts only this leave type in 'leaveDays'" })
+    @IsOptional()
+    @IsString()
+    leaveTypeId?: string;
+}
+
+export class CreatePayrollExportProfileDto {
+    @ApiProperty({ example: '1C payroll' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    description?: string;
+
+    @ApiProperty({ type: [PayrollExportColumnDto] })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(50)
+    @ValidateNested({ each: true })
+    @Type(() => PayrollExportColumnDto)
+    columns: PayrollExportColumnDto[];
+
+    @ApiProperty({ enum: PayrollExportLayout, required: false, default: 'EMPLOYEE_ROWS' })
+    @IsOptional()
+    @IsEnum(PayrollExportLayout)
+    layout?: PayrollExportLayout;
+
+    @ApiProperty({ enum: delimiters, required: false, default: ',' })
+    @IsOptional()
+    @IsIn(delimiters)
+    delimiter?: string;
+
+    @ApiProperty({ required: false, default: true })
+    @IsOptional()
+    @IsBoolean()
+    includeHeader?: boolean;
+
+    @ApiProperty({ enum: PayrollHoursFormat, required: false, default: 'DECIMAL' })
+    @IsOptional()
+    @IsEnum(PayrollHoursFormat)
+    hoursFormat?: PayrollHoursFormat;
+
+    @ApiProperty({ enum: decimalSeparators, required: false, default: '.' })
+    @IsOptional()
+    @IsIn(decimalSeparators)
+    decimalSeparator?: string;
+}
+
+export class UpdatePayrollExportProfileDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    description?: string;
+
+    @ApiProperty({ type: [PayrollExportColumnDto], required: false })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(50)
+    @ValidateNested({ each: true })
+    @Type(() => PayrollExportColumnDto)
+    columns?: PayrollExportColumnDto[];
+
+    @ApiProperty({ enum: PayrollExportLayout, required: false })
+    @IsOptional()
+    @IsEnum(PayrollExportLayout)
+    layout?: PayrollExportLayout;
+
+    @ApiProperty({ enum: delimiters, required: false })
+    @IsOptional()
+    @IsIn(delimiters)
+    delimiter?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    includeHeader?: boolean;
+
+    @ApiProperty({ enum: PayrollHoursFormat, required: false })
+    @IsOptional()
+    @IsEnum(PayrollHoursFormat)
+    hoursFormat?: PayrollHoursFormat;
+
+    @ApiProperty({ enum: decimalSeparators, required: false })
+    @IsOptional()
+    @IsIn(decimalSeparators)
+    decimalSeparator?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class PayrollExportProfileResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty({ required: false })
+    description?: string;
+    @ApiProperty({ type: [PayrollExportColumnDto] })
+    columns: PayrollExportColumnDto[];
+    @ApiProperty({ enum: PayrollExportLayout })
+    layout: PayrollExportLayout;
+    @ApiProperty()
+    delimiter: string;
+    @ApiProperty()
+    includeHeader: boolean;
+    @ApiProperty({ enum: PayrollHoursFormat })
+    hoursFormat: PayrollHoursFormat;
+    @ApiProperty()
+    decimalSeparator: string;
+    @ApiProperty()
+    isActive: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class PayrollExportReportParamsDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    profileId: string;
+
+    @ApiProperty({ example: '2026-10-01', description: 'First attendance day (YYYY-MM-DD)' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ example: '2026-10-31', description: 'Last attendance day (YYYY-MM-DD)' })
+    @IsDateString()
+    endDate: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+}
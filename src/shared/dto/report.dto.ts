@@ -10,6 +10,7 @@ const reportTypes = [
     'GUEST_VISITS',
     'SECURITY_AUDIT',
     'CUSTOM_QUERY',
+    'PAYROLL_EXPORT',
 ];
 const reportFormats = ['CSV', 'PDF', 'EXCEL', 'JSON'];
 const reportStatus = ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'];
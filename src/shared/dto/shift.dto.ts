@@ -0,0 +1,205 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+    ArrayUnique,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export class CreateShiftDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ example: '09:00', description: 'Start time (HH:mm)' })
+    @Matches(TIME_PATTERN, { message: 'startTime must be in HH:mm format' })
+    startTime: string;
+
+    @ApiProperty({
+        example: '18:00',
+        description: 'End time (HH:mm); earlier than startTime for overnight shifts',
+    })
+    @Matches(TIME_PATTERN, { message: 'endTime must be in HH:mm format' })
+    endTime: string;
+
+    @ApiProperty({ required: false, default: 0 })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(720)
+    breakMinutes?: number;
+
+    @ApiProperty({ required: false, default: 0 })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(240)
+    gracePeriodMinutes?: number;
+
+    @ApiProperty({ example: [1, 2, 3, 4, 5], description: 'Working weekdays, Sunday = 0' })
+    @IsArray()
+    @ArrayUnique()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    daysOfWeek: number[];
+
+    @ApiProperty({
+        required: false,
+        example: '12:00',
+        description:
+            "Time (HH:mm) at which this shift's attendance day starts; overrides the organization's",
+    })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'dayBoundary must be in HH:mm format' })
+    dayBoundary?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class UpdateShiftDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'startTime must be in HH:mm format' })
+    startTime?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'endTime must be in HH:mm format' })
+    endTime?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(720)
+    breakMinutes?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(240)
+    gracePeriodMinutes?: number;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsArray()
+    @ArrayUnique()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    daysOfWeek?: number[];
+
+    @ApiProperty({
+        required: false,
+        example: '12:00',
+        description:
+            "Time (HH:mm) at which this shift's attendance day starts; overrides the organization's",
+    })
+    @IsOptional()
+    @Matches(TIME_PATTERN, { message: 'dayBoundary must be in HH:mm format' })
+    dayBoundary?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isActive?: boolean;
+}
+
+export class CreateShiftAssignmentDto {
+    @ApiProperty({ required: false, description: 'Assign the shift to a single employee' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    employeeId?: string;
+
+    @ApiProperty({ required: false, description: 'Assign the shift to a department' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    departmentId?: string;
+
+    @ApiProperty({ required: false, description: 'Assign the shift to a whole branch' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    branchId?: string;
+
+    @ApiProperty({ example: '2024-01-01' })
+    @IsDateString()
+    effectiveFrom: string;
+
+    @ApiProperty({ required: false, example: '2024-12-31' })
+    @IsOptional()
+    @IsDateString()
+    effectiveTo?: string;
+}
+
+export class ShiftResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    organizationId: string;
+    @ApiProperty()
+    name: string;
+    @ApiProperty()
+    startTime: string;
+    @ApiProperty()
+    endTime: string;
+    @ApiProperty()
+    breakMinutes: number;
+    @ApiProperty()
+    gracePeriodMinutes: number;
+    @ApiProperty({ type: [Number] })
+    daysOfWeek: number[];
+    @ApiProperty({ required: false })
+    dayBoundary?: string;
+    @ApiProperty()
+    isActive: boolean;
+    @ApiProperty()
+    createdAt: Date;
+    @ApiProperty()
+    updatedAt: Date;
+}
+
+export class ShiftAssignmentResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    shiftId: string;
+    @ApiProperty({ required: false })
+    employeeId?: string;
+    @ApiProperty({ required: false })
+    departmentId?: string;
+    @ApiProperty({ required: false })
+    branchId?: string;
+    @ApiProperty()
+    effectiveFrom: Date;
+    @ApiProperty({ required: false })
+    effectiveTo?: Date;
+    @ApiProperty()
+    createdAt: Date;
+}
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class TimesheetFiltersDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    employeeId?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    branchId?: string;
+
+    @ApiProperty({ description: 'First attendance day (YYYY-MM-DD)' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty({ description: 'Last attendance day (YYYY-MM-DD)' })
+    @IsDateString()
+    endDate: string;
+}
+
+export class RecalculateTimesheetDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    employeeId: string;
+
+    @ApiProperty({ description: 'Whole weeks overlapping the range are recalculated' })
+    @IsDateString()
+    startDate: string;
+
+    @ApiProperty()
+    @IsDateString()
+    endDate: string;
+}
+
+class EmployeeForTimesheetResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    firstName: string;
+    @ApiProperty()
+    lastName: string;
+    @ApiProperty()
+    employeeCode: string;
+}
+
+export class DailyTimesheetResponseDto {
+    @ApiProperty()
+    id: string;
+    @ApiProperty()
+    employeeId: string;
+    @ApiProperty()
+    branchId: string;
+    @ApiProperty({ required: false })
+    shiftId?: string;
+    @ApiProperty({ description: 'Attendance day (YYYY-MM-DD)' })
+    date: string;
+    @ApiProperty({ required: false })
+    firstCheckIn?: Date;
+    @ApiProperty({ required: false })
+    lastCheckOut?: Date;
+    @ApiProperty({ enum: ['present', 'partial', 'absent', 'on_leave'] })
+    status: string;
+    @ApiProperty({ required: false, enum: ['on_time', 'late', 'early_leave', 'absent', 'day_off'] })
+    shiftStatus?: string;
+    @ApiProperty({ required: false, description: 'Approved leave excusing the day' })
+    leaveTypeId?: string;
+    @ApiProperty()
+    lateMinutes: number;
+    @ApiProperty()
+    earlyLeaveMinutes: number;
+    @ApiProperty()
+    workedMinutes: number;
+    @ApiProperty()
+    breakMinutes: number;
+    @ApiProperty()
+    netMinutes: number;
+    @ApiProperty()
+    regularMinutes: number;
+    @ApiProperty()
+    overtimeMinutes: number;
+    @ApiProperty()
+    weeklyOvertimeMinutes: number;
+    @ApiProperty()
+    nightMinutes: number;
+    @ApiProperty()
+    calculatedAt: Date;
+    @ApiProperty({ type: EmployeeForTimesheetResponseDto, required: false })
+    employee?: EmployeeForTimesheetResponseDto;
+}
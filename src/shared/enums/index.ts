@@ -6,4 +6,5 @@ export {
     GuestStatus,
     AccessCredentialType,
     AttendanceEventType,
+    CredentialType,
 } from '@prisma/client';
@@ -1,13 +1,35 @@
-import crypto from 'crypto';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { DeviceAuthGuard } from './device-auth.guard';
+import { ConfigService } from '@/core/config/config.service';
 import { LoggerService } from '@/core/logger/logger.service';
+import { PrismaService } from '@/core/database/prisma.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { DeviceSignatureUtil } from '../utils/device-signature.util';
 
 describe('DeviceAuthGuard', () => {
     let guard: DeviceAuthGuard;
     let loggerService: jest.Mocked<LoggerService>;
+    let prismaService: any;
+    let cacheService: jest.Mocked<CacheService>;
+
+    const encryptionKey = 'test-device-secret-encryption-key-of-32-chars';
+    const signingKey = DeviceSignatureUtil.deriveSigningKey('device-secret');
+    const previousSigningKey = DeviceSignatureUtil.deriveSigningKey('old-device-secret');
+
+    const mockDevice = {
+        id: 'device-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        isActive: true,
+        encryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(signingKey, encryptionKey),
+        previousEncryptedSigningKey: null,
+        previousSecretExpiresAt: null,
+        configurationProfileId: null,
+        appliedConfigurationVersion: null,
+        configurationAppliedAt: null,
+    };
 
     beforeEach(async () => {
         const mockLoggerService = {
@@ -17,6 +39,16 @@ describe('DeviceAuthGuard', () => {
             debug: jest.fn(),
         };
 
+        const mockPrismaService = {
+            device: {
+                findFirst: jest.fn().mockResolvedValue(mockDevice),
+            },
+        };
+
+        const mockCacheService = {
+            setNX: jest.fn().mockResolvedValue(true),
+        };
+
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 DeviceAuthGuard,
@@ -25,11 +57,25 @@ describe('DeviceAuthGuard', () => {
                     provide: LoggerService,
                     useValue: mockLoggerService,
                 },
+                {
+                    provide: PrismaService,
+                    useValue: mockPrismaService,
+                },
+                {
+                    provide: CacheService,
+                    useValue: mockCacheService,
+                },
+                {
+                    provide: ConfigService,
+                    useValue: { deviceSecretEncryptionKey: encryptionKey },
+                },
             ],
         }).compile();
 
         guard = module.get<DeviceAuthGuard>(DeviceAuthGuard);
         loggerService = module.get(LoggerService);
+        prismaService = module.get(PrismaService);
+        cacheService = module.get(CacheService);
     });
 
     it('should be defined', () => {
@@ -37,29 +83,56 @@ describe('DeviceAuthGuard', () => {
     });
 
     describe('canActivate', () => {
-        const createMockContext = (headers: Record<string, string> = {}, body: any = {}) => {
-            const mockRequest = {
-                headers,
+        const body = { eventType: 'access_attempt', cardId: 'CARD-123' };
+        const rawBody = Buffer.from(JSON.stringify(body));
+
+        const createMockRequest = (overrides: Record<string, string> = {}, key = signingKey) => {
+            const timestamp = overrides['x-timestamp'] ?? new Date().toISOString();
+            const nonce = overrides['x-nonce'] ?? 'nonce-123';
+            const signature = DeviceSignatureUtil.sign(
+                key,
+                DeviceSignatureUtil.buildCanonicalRequest({
+                    method: 'POST',
+                    path: '/api/v1/events/raw',
+                    timestamp,
+                    nonce,
+                    body: rawBody,
+                })
+            );
+
+            return {
+                method: 'POST',
+                url: '/api/v1/events/raw',
+                originalUrl: '/api/v1/events/raw',
+                headers: {
+                    'x-device-id': 'device-123',
+                    'x-device-signature': signature,
+                    'x-timestamp': timestamp,
+                    'x-nonce': nonce,
+                    ...overrides,
+                },
                 body,
+                rawBody,
                 ip: '127.0.0.1',
             };
+        };
 
-            return {
+        const createMockContext = (request: any) =>
+            ({
                 switchToHttp: () => ({
-                    getRequest: () => mockRequest,
+                    getRequest: () => request,
                 }),
-            } as ExecutionContext;
-        };
-
-        it('should allow access with valid device credentials', async () => {
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-                'x-device-signature': 'dev-mock-signature',
-            });
+            }) as ExecutionContext;
 
-            const result = await guard.canActivate(context);
+        it('should allow access with a valid signature', async () => {
+            const result = await guard.canActivate(createMockContext(createMockRequest()));
 
             expect(result).toBe(true);
+            expect(cacheService.setNX).toHaveBeenCalledWith(
+                'device_nonce:device-123:nonce-123',
+                '1',
+                600
+            );
             expect(loggerService.log).toHaveBeenCalledWith(
                 'Device authenticated successfully',
                 expect.objectContaining({
@@ -69,11 +142,10 @@ describe('DeviceAuthGuard', () => {
         });
 
         it('should throw UnauthorizedException when device ID is missing', async () => {
-            const context = createMockContext({
-                'x-device-signature': 'dev-mock-signature',
-            });
+            const request = createMockRequest();
+            delete request.headers['x-device-id'];
 
-            await expect(guard.canActivate(context)).rejects.toThrow(
+            await expect(guard.canActivate(createMockContext(request))).rejects.toThrow(
                 new UnauthorizedException('Device ID is required')
             );
 
@@ -84,11 +156,10 @@ describe('DeviceAuthGuard', () => {
         });
 
         it('should throw UnauthorizedException when signature is missing', async () => {
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-            });
+            const request = createMockRequest();
+            delete request.headers['x-device-signature'];
 
-            await expect(guard.canActivate(context)).rejects.toThrow(
+            await expect(guard.canActivate(createMockContext(request))).rejects.toThrow(
                 new UnauthorizedException('Device signature is required')
             );
 
@@ -100,14 +171,19 @@ describe('DeviceAuthGuard', () => {
             );
         });
 
+        it('should require a timestamp and a nonce', async () => {
+            const request = createMockRequest();
+            delete request.headers['x-nonce'];
+
+            await expect(guard.canActivate(createMockContext(request))).rejects.toThrow(
+                new UnauthorizedException('Request timestamp and nonce are required')
+            );
+        });
+
         it('should validate timestamp and reject old requests', async () => {
             const oldTimestamp = new Date(Date.now() - 10 * 60 * 1000).toISOString(); // 10 minutes ago
 
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-                'x-device-signature': 'dev-mock-signature',
-                'x-timestamp': oldTimestamp,
-            });
+            const context = createMockContext(createMockRequest({ 'x-timestamp': oldTimestamp }));
 
             await expect(guard.canActivate(context)).rejects.toThrow(
                 new UnauthorizedException('Request timestamp is too old')
@@ -125,22 +201,17 @@ describe('DeviceAuthGuard', () => {
         it('should accept recent timestamps', async () => {
             const recentTimestamp = new Date(Date.now() - 2 * 60 * 1000).toISOString(); // 2 minutes ago
 
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-                'x-device-signature': 'dev-mock-signature',
-                'x-timestamp': recentTimestamp,
-            });
-
-            const result = await guard.canActivate(context);
+            const result = await guard.canActivate(
+                createMockContext(createMockRequest({ 'x-timestamp': recentTimestamp }))
+            );
 
             expect(result).toBe(true);
         });
 
         it('should reject invalid signatures', async () => {
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-                'x-device-signature': 'invalid-signature',
-            });
+            const context = createMockContext(
+                createMockRequest({ 'x-device-signature': 'dev-mock-signature' })
+            );
 
             await expect(guard.canActivate(context)).rejects.toThrow(
                 new UnauthorizedException('Invalid device signature')
@@ -152,82 +223,91 @@ describe('DeviceAuthGuard', () => {
                     deviceId: 'device-123',
                 })
             );
+            expect(cacheService.setNX).not.toHaveBeenCalled();
         });
 
-        it('should accept development signatures', async () => {
-            const context = createMockContext({
-                'x-device-id': 'device-123',
-                'x-device-signature': 'dev-test-signature',
-            });
-
-            const result = await guard.canActivate(context);
+        it('should reject a signature made with the secret of another device', async () => {
+            const context = createMockContext(
+                createMockRequest({}, DeviceSignatureUtil.deriveSigningKey('mock-device-secret'))
+            );
 
-            expect(result).toBe(true);
+            await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
         });
 
-        it('should add device info to request', async () => {
-            const mockRequest = {
-                headers: {
-                    'x-device-id': 'device-123',
-                    'x-device-signature': 'dev-mock-signature',
-                    'x-timestamp': new Date().toISOString(),
-                },
-                body: {},
-                ip: '127.0.0.1',
-            };
+        it('should reject a body changed after signing', async () => {
+            const request = createMockRequest();
+            request.rawBody = Buffer.from(JSON.stringify({ ...body, cardId: 'CARD-456' }));
 
-            const context = {
-                switchToHttp: () => ({
-                    getRequest: () => mockRequest,
-                }),
-            } as ExecutionContext;
-
-            await guard.canActivate(context);
+            await expect(guard.canActivate(createMockContext(request))).rejects.toThrow(
+                new UnauthorizedException('Invalid device signature')
+            );
+        });
 
-            expect(mockRequest).toHaveProperty('device');
-            expect((mockRequest as any).device).toEqual({
-                id: 'device-123',
-                signature: 'dev-mock-signature',
-                timestamp: expect.any(String),
-                authenticated: true,
+        it('should reject devices without a secret', async () => {
+            prismaService.device.findFirst.mockResolvedValue({
+                ...mockDevice,
+                encryptedSigningKey: null,
             });
+
+            await expect(guard.canActivate(createMockContext(createMockRequest()))).rejects.toThrow(
+                new UnauthorizedException('Invalid device signature')
+            );
         });
-    });
 
-    describe('isValidSignature', () => {
-        it('should validate development signatures', () => {
-            const result = (guard as any).isValidSignature('device-123', 'dev-test-signature', {});
+        it('should reject a replayed nonce', async () => {
+            cacheService.setNX.mockResolvedValue(false);
 
-            expect(result).toBe(true);
+            await expect(guard.canActivate(createMockContext(createMockRequest()))).rejects.toThrow(
+                new UnauthorizedException('Request has already been processed')
+            );
         });
 
-        it('should validate mock signatures correctly', () => {
-            const deviceId = 'device-123';
-            const body = { eventType: 'test' };
-            const timestamp = '2023-01-01T12:00:00Z';
-
-            // Generate expected signature
-            const payload = JSON.stringify({ deviceId, body, timestamp });
-            const expectedSignature = crypto
-                .createHash('sha256')
-                .update(`${payload}mock-device-secret`)
-                .digest('hex')
-                .substring(0, 32);
-
-            const result = (guard as any).isValidSignature(
-                deviceId,
-                expectedSignature,
-                body,
-                timestamp
+        it('should accept the previous secret during the overlap window', async () => {
+            prismaService.device.findFirst.mockResolvedValue({
+                ...mockDevice,
+                previousEncryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(
+                    previousSigningKey,
+                    encryptionKey
+                ),
+                previousSecretExpiresAt: new Date(Date.now() + 60 * 1000),
+            });
+
+            const result = await guard.canActivate(
+                createMockContext(createMockRequest({}, previousSigningKey))
             );
 
             expect(result).toBe(true);
         });
 
-        it('should reject invalid signatures', () => {
-            const result = (guard as any).isValidSignature('device-123', 'invalid-signature', {});
+        it('should reject the previous secret once the overlap window has ended', async () => {
+            prismaService.device.findFirst.mockResolvedValue({
+                ...mockDevice,
+                previousEncryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(
+                    previousSigningKey,
+                    encryptionKey
+                ),
+                previousSecretExpiresAt: new Date(Date.now() - 60 * 1000),
+            });
+
+            await expect(
+                guard.canActivate(createMockContext(createMockRequest({}, previousSigningKey)))
+            ).rejects.toThrow(new UnauthorizedException('Invalid device signature'));
+        });
+
+        it('should add device info to request', async () => {
+            const request = createMockRequest();
+
+            await guard.canActivate(createMockContext(request));
 
-            expect(result).toBe(false);
+            expect(request).toHaveProperty('device');
+            expect((request as any).device).toEqual({
+                id: 'device-123',
+                organizationId: 'org-123',
+                branchId: 'branch-123',
+                signature: request.headers['x-device-signature'],
+                timestamp: expect.any(String),
+                authenticated: true,
+            });
         });
     });
 });
@@ -1,11 +1,25 @@
 import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@/core/config/config.service';
 import { LoggerService } from '@/core/logger/logger.service';
-
+import { PrismaService } from '@/core/database/prisma.service';
+import { CacheService } from '@/core/cache/cache.service';
+import { DEVICE_REQUEST_TOLERANCE_MS, DeviceSignatureUtil } from '../utils/device-signature.util';
+import { DeviceContext } from '../interfaces/data-scope.interface';
+
+/**
+ * Authenticates devices by an HMAC-SHA256 signature of the canonical request (see
+ * DeviceSignatureUtil), keyed with the device's own secret; the key is stored encrypted and
+ * decrypted to verify. Each nonce is accepted once within the timestamp tolerance, so a
+ * captured request can't be replayed.
+ */
 @Injectable()
 export class DeviceAuthGuard implements CanActivate {
     constructor(
         private reflector: Reflector,
+        private readonly prisma: PrismaService,
+        private readonly cacheService: CacheService,
+        private readonly configService: ConfigService,
         private readonly logger: LoggerService
     ) {}
 
@@ -16,6 +30,7 @@ export class DeviceAuthGuard implements CanActivate {
         const deviceId = request.headers['x-device-id'];
         const signature = request.headers['x-device-signature'];
         const timestamp = request.headers['x-timestamp'];
+        const nonce = request.headers['x-nonce'];
 
         if (!deviceId) {
             this.logger.warn('Device authentication failed: Missing device ID', {
@@ -33,25 +48,49 @@ export class DeviceAuthGuard implements CanActivate {
             throw new UnauthorizedException('Device signature is required');
         }
 
-        // Validate timestamp if provided (prevent replay attacks)
-        if (timestamp) {
-            const requestTime = new Date(timestamp);
-            const now = new Date();
-            const timeDiff = Math.abs(now.getTime() - requestTime.getTime());
-
-            // Allow 5 minutes tolerance
-            if (timeDiff > 5 * 60 * 1000) {
-                this.logger.warn('Device authentication failed: Request too old', {
-                    deviceId,
-                    timestamp,
-                    timeDiff,
-                });
-                throw new UnauthorizedException('Request timestamp is too old');
-            }
+        if (!timestamp || !nonce) {
+            this.logger.warn('Device authentication failed: Missing timestamp or nonce', {
+                deviceId,
+                ip: request.ip,
+            });
+            throw new UnauthorizedException('Request timestamp and nonce are required');
+        }
+
+        // Reject requests outside the tolerance to limit how long a nonce must be remembered
+        const timeDiff = Math.abs(Date.now() - new Date(timestamp).getTime());
+        if (isNaN(timeDiff) || timeDiff > DEVICE_REQUEST_TOLERANCE_MS) {
+            this.logger.warn('Device authentication failed: Request too old', {
+                deviceId,
+                timestamp,
+                timeDiff,
+            });
+            throw new UnauthorizedException('Request timestamp is too old');
+        }
+
+        const device = await this.findDevice(deviceId);
+        if (!device || !device.isActive || !device.encryptedSigningKey) {
+            this.logger.warn('Device authentication failed: Unknown device or no secret', {
+                deviceId,
+                ip: request.ip,
+            });
+            throw new UnauthorizedException('Invalid device signature');
         }
 
-        // Basic signature validation (in real implementation, this would be more sophisticated)
-        if (!this.isValidSignature(deviceId, signature, request.body, timestamp)) {
+        const canonicalRequest = DeviceSignatureUtil.buildCanonicalRequest({
+            method: request.method,
+            path: request.originalUrl || request.url,
+            timestamp,
+            nonce,
+            body: this.getBody(request),
+        });
+        if (
+            !DeviceSignatureUtil.verifyDevice(
+                device,
+                canonicalRequest,
+                signature,
+                this.configService.deviceSecretEncryptionKey
+            )
+        ) {
             this.logger.warn('Device authentication failed: Invalid signature', {
                 deviceId,
                 signature: `${signature.substring(0, 10)}...`,
@@ -59,13 +98,30 @@ export class DeviceAuthGuard implements CanActivate {
             throw new UnauthorizedException('Invalid device signature');
         }
 
+        // Only a correctly signed request may use up a nonce
+        const isNewNonce = await this.cacheService.setNX(
+            `device_nonce:${device.id}:${nonce}`,
+            '1',
+            (2 * DEVICE_REQUEST_TOLERANCE_MS) / 1000
+        );
+        if (!isNewNonce) {
+            this.logger.warn('Device authentication failed: Nonce reused', {
+                deviceId,
+                nonce,
+            });
+            throw new UnauthorizedException('Request has already been processed');
+        }
+
         // Add device info to request for use in controllers
-        request.device = {
-            id: deviceId,
+        const deviceContext: DeviceContext = {
+            id: device.id,
+            organizationId: device.organizationId,
+            branchId: device.branchId,
             signature,
             timestamp,
             authenticated: true,
         };
+        request.device = deviceContext;
 
         this.logger.log('Device authenticated successfully', {
             deviceId,
@@ -76,36 +132,34 @@ export class DeviceAuthGuard implements CanActivate {
         return true;
     }
 
-    private isValidSignature(
-        deviceId: string,
-        signature: string,
-        body: any,
-        timestamp?: string
-    ): boolean {
-        // In a real implementation, this would:
-        // 1. Look up the device's shared secret or public key
-        // 2. Recreate the expected signature using the same algorithm
-        // 3. Compare with the provided signature
-
-        // For development/testing, allow signatures starting with 'dev-'
-        if (signature.startsWith('dev-')) {
-            return true;
-        }
-
-        // Mock validation - in production this would be much more secure
-        const crypto = require('crypto');
-        const payload = JSON.stringify({
-            deviceId,
-            body,
-            timestamp,
+    /**
+     * Devices identify themselves by ID, identifier or MAC address
+     */
+    private async findDevice(deviceId: string) {
+        return this.prisma.device.findFirst({
+            where: {
+                OR: [{ id: deviceId }, { deviceIdentifier: deviceId }, { macAddress: deviceId }],
+            },
+            select: {
+                id: true,
+                organizationId: true,
+                branchId: true,
+                isActive: true,
+                encryptedSigningKey: true,
+                previousEncryptedSigningKey: true,
+                previousSecretExpiresAt: true,
+            },
         });
+    }
 
-        const expectedSignature = crypto
-            .createHash('sha256')
-            .update(`${payload}mock-device-secret`)
-            .digest('hex')
-            .substring(0, 32);
+    /**
+     * The body as sent; requires the app to keep the raw body, parsed JSON is a fallback
+     */
+    private getBody(request: any): Buffer | string {
+        if (Buffer.isBuffer(request.rawBody)) {
+            return request.rawBody;
+        }
 
-        return signature === expectedSignature;
+        return request.body && Object.keys(request.body).length ? JSON.stringify(request.body) : '';
     }
 }
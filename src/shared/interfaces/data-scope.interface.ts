@@ -11,3 +11,15 @@ export interface UserContext {
     roles: string[];
     permissions: string[];
 }
+
+/**
+ * Device authenticated by DeviceAuthGuard
+ */
+export interface DeviceContext {
+    id: string;
+    organizationId: string;
+    branchId: string;
+    signature: string;
+    timestamp: string;
+    authenticated: true;
+}
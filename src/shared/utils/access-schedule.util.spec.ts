@@ -0,0 +1,77 @@
+import { AccessScheduleUtil } from './access-schedule.util';
+
+describe('AccessScheduleUtil', () => {
+    const weekdays = { daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '18:00' };
+    const nights = { daysOfWeek: [5], startTime: '22:00', endTime: '06:00' };
+
+    describe('isWithinSchedules', () => {
+        it('should allow any time without schedules', () => {
+            expect(AccessScheduleUtil.isWithinSchedules([], new Date('2026-10-18T03:00:00Z'))).toBe(
+                true
+            );
+        });
+
+        it('should match the weekday and the time of the window', () => {
+            // Monday
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [weekdays],
+                    new Date('2026-10-19T08:00:00Z'),
+                    'UTC'
+                )
+            ).toBe(true);
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [weekdays],
+                    new Date('2026-10-19T18:00:00Z'),
+                    'UTC'
+                )
+            ).toBe(false);
+            // Sunday
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [weekdays],
+                    new Date('2026-10-18T10:00:00Z'),
+                    'UTC'
+                )
+            ).toBe(false);
+        });
+
+        it('should use the wall clock of the time zone', () => {
+            // 04:00 UTC is 09:00 in Tashkent
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [weekdays],
+                    new Date('2026-10-19T04:00:00Z'),
+                    'Asia/Tashkent'
+                )
+            ).toBe(true);
+        });
+
+        it('should let overnight windows run into the next day', () => {
+            // Friday night and Saturday morning
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [nights],
+                    new Date('2026-10-23T23:00:00Z'),
+                    'UTC'
+                )
+            ).toBe(true);
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [nights],
+                    new Date('2026-10-24T05:59:00Z'),
+                    'UTC'
+                )
+            ).toBe(true);
+            // Friday morning belongs to the Thursday night, which is not scheduled
+            expect(
+                AccessScheduleUtil.isWithinSchedules(
+                    [nights],
+                    new Date('2026-10-23T05:00:00Z'),
+                    'UTC'
+                )
+            ).toBe(false);
+        });
+    });
+});
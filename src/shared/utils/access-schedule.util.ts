@@ -0,0 +1,50 @@
+import { ShiftUtil } from './shift.util';
+import { TimezoneUtil } from './timezone.util';
+
+export interface AccessScheduleWindow {
+    daysOfWeek: number[]; // 0-6, Sunday = 0
+    startTime: string; // HH:mm
+    endTime: string; // HH:mm
+}
+
+export class AccessScheduleUtil {
+    /**
+     * Check whether the instant falls in one of the weekly windows, in the given time zone.
+     * No windows allows any time. An end time at or before the start time rolls over to
+     * the next day, so the window belongs to the weekday it starts on.
+     */
+    static isWithinSchedules(
+        schedules: AccessScheduleWindow[],
+        date: Date,
+        timeZone?: string
+    ): boolean {
+        if (!schedules.length) {
+            return true;
+        }
+
+        const parts = TimezoneUtil.getParts(date, timeZone);
+        const minute = parts.hour * 60 + parts.minute;
+        const previousWeekday = (parts.weekday + 6) % 7;
+
+        return schedules.some(schedule => {
+            const start = this.toMinutes(schedule.startTime);
+            const end = this.toMinutes(schedule.endTime);
+
+            if (end > start) {
+                return (
+                    schedule.daysOfWeek.includes(parts.weekday) && minute >= start && minute < end
+                );
+            }
+
+            return (
+                (schedule.daysOfWeek.includes(parts.weekday) && minute >= start) ||
+                (schedule.daysOfWeek.includes(previousWeekday) && minute < end)
+            );
+        });
+    }
+
+    private static toMinutes(time: string): number {
+        const { hours, minutes } = ShiftUtil.parseTime(time);
+        return hours * 60 + minutes;
+    }
+}
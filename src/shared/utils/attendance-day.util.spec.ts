@@ -0,0 +1,124 @@
+import { AttendanceDayUtil } from './attendance-day.util';
+
+describe('AttendanceDayUtil', () => {
+    describe('getDayStart', () => {
+        it('should start the day at midnight by default', () => {
+            expect(AttendanceDayUtil.getDayStart(new Date(2024, 0, 15, 9, 30))).toEqual(
+                new Date(2024, 0, 15, 0, 0)
+            );
+        });
+
+        it('should assign times before the boundary to the previous day', () => {
+            expect(AttendanceDayUtil.getDayStart(new Date(2024, 0, 16, 3, 0), '06:00')).toEqual(
+                new Date(2024, 0, 15, 6, 0)
+            );
+            expect(AttendanceDayUtil.getDayStart(new Date(2024, 0, 16, 6, 0), '06:00')).toEqual(
+                new Date(2024, 0, 16, 6, 0)
+            );
+        });
+    });
+
+    describe('getAttendanceDate', () => {
+        it('should return the calendar date the attendance day is reported under', () => {
+            expect(
+                AttendanceDayUtil.getAttendanceDate(new Date(2024, 0, 1, 5, 59), '06:00')
+            ).toEqual(new Date(2023, 11, 31));
+        });
+    });
+
+    describe('getDayRange', () => {
+        it('should cover the day from one boundary to the next', () => {
+            const { start, end } = AttendanceDayUtil.getDayRange(new Date(2024, 0, 15), '12:00');
+
+            expect(start).toEqual(new Date(2024, 0, 15, 12, 0));
+            expect(end).toEqual(new Date(2024, 0, 16, 11, 59, 59, 999));
+        });
+    });
+
+    describe('toDateKey', () => {
+        it('should format local dates and parse them back', () => {
+            const date = new Date(2024, 1, 5);
+
+            expect(AttendanceDayUtil.toDateKey(date)).toBe('2024-02-05');
+            expect(AttendanceDayUtil.fromDateKey('2024-02-05')).toEqual(date);
+        });
+    });
+
+    describe('groupByAttendanceDay', () => {
+        it('should attribute an overnight check-out to the day of its check-in', () => {
+            const days = AttendanceDayUtil.groupByAttendanceDay([
+                { eventType: 'CHECK_OUT', timestamp: new Date(2024, 0, 16, 6, 0) },
+                { eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 15, 22, 0) },
+            ]);
+
+            expect(Array.from(days.keys())).toEqual(['2024-01-15']);
+            expect(days.get('2024-01-15')).toEqual({
+                checkIns: [new Date(2024, 0, 15, 22, 0)],
+                checkOuts: [new Date(2024, 0, 16, 6, 0)],
+            });
+        });
+
+        it('should use the boundary resolved for each check-in', () => {
+            const days = AttendanceDayUtil.groupByAttendanceDay(
+                [
+                    { eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 16, 2, 0) },
+                    { eventType: 'CHECK_OUT', timestamp: new Date(2024, 0, 16, 7, 0) },
+                ],
+                () => '04:00'
+            );
+
+            expect(Array.from(days.keys())).toEqual(['2024-01-15']);
+        });
+
+        it('should keep an orphan check-out on its own day', () => {
+            const days = AttendanceDayUtil.groupByAttendanceDay([
+                { eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 13, 9, 0) },
+                { eventType: 'CHECK_OUT', timestamp: new Date(2024, 0, 15, 17, 0) },
+                { eventType: 'ACCESS_DENIED', timestamp: new Date(2024, 0, 15, 18, 0) },
+            ]);
+
+            expect(days.get('2024-01-13')).toEqual({
+                checkIns: [new Date(2024, 0, 13, 9, 0)],
+                checkOuts: [],
+            });
+            expect(days.get('2024-01-15')).toEqual({
+                checkIns: [],
+                checkOuts: [new Date(2024, 0, 15, 17, 0)],
+            });
+        });
+    });
+
+    describe('sequencePunches', () => {
+        it('should retype the punches after one that arrived late', () => {
+            const changes = AttendanceDayUtil.sequencePunches([
+                { id: 'a', eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 15, 12, 0) },
+                { id: 'b', eventType: 'CHECK_OUT', timestamp: new Date(2024, 0, 15, 18, 0) },
+                // Uploaded after the others, it is the day's real check-in
+                { id: 'c', eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 15, 9, 0) },
+            ]);
+
+            expect(changes).toEqual(
+                new Map([
+                    ['a', 'CHECK_OUT'],
+                    ['b', 'CHECK_IN'],
+                ])
+            );
+        });
+
+        it('should continue the sequence from fixed punches', () => {
+            const changes = AttendanceDayUtil.sequencePunches([
+                { id: 'a', eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 15, 9, 0) },
+                {
+                    id: 'b',
+                    eventType: 'CHECK_IN',
+                    timestamp: new Date(2024, 0, 15, 13, 0),
+                    fixed: true,
+                },
+                { id: 'c', eventType: 'CHECK_IN', timestamp: new Date(2024, 0, 15, 18, 0) },
+                { id: 'd', eventType: 'MANUAL_ENTRY', timestamp: new Date(2024, 0, 15, 19, 0) },
+            ]);
+
+            expect(changes).toEqual(new Map([['c', 'CHECK_OUT']]));
+        });
+    });
+});
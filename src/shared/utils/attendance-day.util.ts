@@ -0,0 +1,164 @@
+import { ShiftUtil } from './shift.util';
+import { TimezoneUtil } from './timezone.util';
+
+export const DEFAULT_ATTENDANCE_DAY_BOUNDARY = '00:00';
+
+/**
+ * A check-out further than this from the open check-in starts a new attendance day
+ * instead of closing the session.
+ */
+export const MAX_SESSION_HOURS = 24;
+
+export interface AttendancePunch {
+    timestamp: Date;
+    eventType: string;
+}
+
+export interface SequencedPunch extends AttendancePunch {
+    id: string;
+    /** Keeps its type, e.g. a punch entered by an approved correction */
+    fixed?: boolean;
+}
+
+export interface AttendanceDayPunches {
+    checkIns: Date[];
+    checkOuts: Date[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class AttendanceDayUtil {
+    /**
+     * Get the moment the attendance day containing the timestamp started.
+     * With a 06:00 boundary, 03:00 on the 16th belongs to the day that started at 06:00 on the 15th.
+     */
+    static getDayStart(
+        timestamp: Date,
+        boundary = DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+        timeZone?: string
+    ): Date {
+        const { hours, minutes } = ShiftUtil.parseTime(boundary);
+        const { year, month, day } = TimezoneUtil.getParts(timestamp, timeZone);
+
+        const start = TimezoneUtil.fromParts(
+            { year, month, day, hour: hours, minute: minutes },
+            timeZone
+        );
+
+        return start > timestamp ? TimezoneUtil.addDays(start, -1, timeZone) : start;
+    }
+
+    /**
+     * Get the calendar date (midnight in the zone) an attendance day is reported under
+     */
+    static getAttendanceDate(
+        timestamp: Date,
+        boundary = DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+        timeZone?: string
+    ): Date {
+        return TimezoneUtil.startOfDay(this.getDayStart(timestamp, boundary, timeZone), timeZone);
+    }
+
+    /**
+     * Get the time range covered by the attendance day reported under the given date
+     */
+    static getDayRange(
+        date: Date,
+        boundary = DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+        timeZone?: string
+    ): { start: Date; end: Date } {
+        const { hours, minutes } = ShiftUtil.parseTime(boundary);
+        const { year, month, day } = TimezoneUtil.getParts(date, timeZone);
+
+        const start = TimezoneUtil.fromParts(
+            { year, month, day, hour: hours, minute: minutes },
+            timeZone
+        );
+        const end = new Date(TimezoneUtil.addDays(start, 1, timeZone).getTime() - 1);
+
+        return { start, end };
+    }
+
+    static toDateKey(date: Date, timeZone?: string): string {
+        return TimezoneUtil.toDateKey(date, timeZone);
+    }
+
+    static fromDateKey(dateKey: string, timeZone?: string): Date {
+        return TimezoneUtil.fromDateKey(dateKey, timeZone);
+    }
+
+    /**
+     * Group punches into attendance days by session: a check-in opens a session on the
+     * attendance day it falls in, and the check-out closing it is attributed to the same day
+     * even when it happens after the next boundary (e.g. a 22:00-06:00 night shift).
+     * The boundary may differ per punch, e.g. when it comes from the shift in effect.
+     */
+    static groupByAttendanceDay(
+        punches: AttendancePunch[],
+        resolveBoundary: (timestamp: Date) => string = () => DEFAULT_ATTENDANCE_DAY_BOUNDARY,
+        timeZone?: string
+    ): Map<string, AttendanceDayPunches> {
+        const days = new Map<string, AttendanceDayPunches>();
+        const getDay = (dateKey: string) => {
+            if (!days.has(dateKey)) {
+                days.set(dateKey, { checkIns: [], checkOuts: [] });
+            }
+            return days.get(dateKey)!;
+        };
+        const toDayKey = (timestamp: Date) =>
+            this.toDateKey(
+                this.getAttendanceDate(timestamp, resolveBoundary(timestamp), timeZone),
+                timeZone
+            );
+
+        let openSession: { dateKey: string; checkIn: Date } | undefined;
+
+        [...punches]
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            .forEach(punch => {
+                if (punch.eventType === 'CHECK_IN') {
+                    const dateKey = toDayKey(punch.timestamp);
+                    getDay(dateKey).checkIns.push(punch.timestamp);
+                    openSession = { dateKey, checkIn: punch.timestamp };
+                } else if (punch.eventType === 'CHECK_OUT') {
+                    const closesSession =
+                        openSession &&
+                        punch.timestamp.getTime() - openSession.checkIn.getTime() <=
+                            MAX_SESSION_HOURS * HOUR_MS;
+                    const dateKey = closesSession
+                        ? openSession!.dateKey
+                        : toDayKey(punch.timestamp);
+
+                    getDay(dateKey).checkOuts.push(punch.timestamp);
+                    openSession = undefined;
+                }
+            });
+
+        return days;
+    }
+
+    /**
+     * Alternate the check-ins and check-outs of one attendance day in time order, as a device
+     * that only reports punches implies: the first punch checks in, the next checks out. Fixed
+     * punches keep their type and the sequence continues from them. Returns the new type of
+     * each punch whose type changes.
+     */
+    static sequencePunches(punches: SequencedPunch[]): Map<string, 'CHECK_IN' | 'CHECK_OUT'> {
+        const changes = new Map<string, 'CHECK_IN' | 'CHECK_OUT'>();
+        let expected: 'CHECK_IN' | 'CHECK_OUT' = 'CHECK_IN';
+
+        [...punches]
+            .filter(punch => punch.eventType === 'CHECK_IN' || punch.eventType === 'CHECK_OUT')
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            .forEach(punch => {
+                const eventType = punch.fixed ? punch.eventType : expected;
+                if (eventType !== punch.eventType) {
+                    changes.set(punch.id, expected);
+                }
+
+                expected = eventType === 'CHECK_IN' ? 'CHECK_OUT' : 'CHECK_IN';
+            });
+
+        return changes;
+    }
+}
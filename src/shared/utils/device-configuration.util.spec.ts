@@ -0,0 +1,94 @@
+import { DesiredDeviceConfiguration, DeviceConfigurationUtil } from './device-configuration.util';
+
+describe('DeviceConfigurationUtil', () => {
+    const officeHours = {
+        id: 'office-hours',
+        name: 'Office hours',
+        startTime: '08:00',
+        endTime: '18:00',
+        daysOfWeek: [1, 2, 3, 4, 5],
+        enabled: true,
+    };
+
+    const staffRule = {
+        id: 'staff',
+        name: 'Staff',
+        userGroups: ['staff'],
+        timeSchedules: ['office-hours'],
+        enabled: true,
+    };
+
+    const desired: DesiredDeviceConfiguration = {
+        settings: { doorOpenTimeout: 5, antiPassback: true },
+        schedules: [officeHours],
+        accessRules: [staffRule],
+    };
+
+    describe('findDifferences', () => {
+        it('should ignore settings the profile does not set and how values are stored', () => {
+            expect(
+                DeviceConfigurationUtil.findDifferences(desired, {
+                    deviceId: 'reader-1',
+                    settings: { doorOpenTimeout: '5', antiPassback: 'true', volume: 7 },
+                    schedules: [{ ...officeHours, daysOfWeek: [5, 4, 3, 2, 1] }],
+                    accessRules: [staffRule],
+                })
+            ).toEqual([]);
+        });
+
+        it('should report changed and missing settings', () => {
+            expect(
+                DeviceConfigurationUtil.findDifferences(desired, {
+                    deviceId: 'reader-1',
+                    settings: { doorOpenTimeout: 10 },
+                    schedules: [officeHours],
+                    accessRules: [staffRule],
+                })
+            ).toEqual([
+                { section: 'settings', key: 'doorOpenTimeout', expected: 5, actual: 10 },
+                { section: 'settings', key: 'antiPassback', expected: true, actual: undefined },
+            ]);
+        });
+
+        it('should compare schedules and access rules by ID', () => {
+            const night = { ...officeHours, id: 'night', name: 'Night' };
+
+            expect(
+                DeviceConfigurationUtil.findDifferences(desired, {
+                    deviceId: 'reader-1',
+                    settings: desired.settings,
+                    schedules: [{ ...officeHours, endTime: '17:00' }, night],
+                    accessRules: [],
+                })
+            ).toEqual([
+                {
+                    section: 'schedules',
+                    key: 'office-hours',
+                    expected: officeHours,
+                    actual: { ...officeHours, endTime: '17:00' },
+                },
+                { section: 'schedules', key: 'night', actual: night },
+                { section: 'accessRules', key: 'staff', expected: staffRule, actual: undefined },
+            ]);
+        });
+
+        it('should only compare the sections the device reports', () => {
+            expect(
+                DeviceConfigurationUtil.findDifferences(desired, {
+                    deviceId: 'reader-1',
+                    settings: desired.settings,
+                    schedules: [],
+                    accessRules: [],
+                    reported: ['settings'],
+                })
+            ).toEqual([]);
+            expect(
+                DeviceConfigurationUtil.findDifferences(desired, {
+                    deviceId: 'reader-1',
+                    settings: {},
+                    reported: [],
+                })
+            ).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import {
+    DeviceAccessRule,
+    DeviceConfiguration,
+    DeviceConfigurationSection,
+    DeviceSchedule,
+} from '@/shared/adapters/device.adapter';
+
+export interface DesiredDeviceConfiguration {
+    settings: Record<string, any>;
+    schedules: DeviceSchedule[];
+    accessRules: DeviceAccessRule[];
+}
+
+export interface DeviceConfigurationDifference {
+    section: DeviceConfigurationSection;
+    /** The setting, or the ID of the schedule or access rule */
+    key: string;
+    expected?: any;
+    actual?: any;
+}
+
+const SECTIONS: DeviceConfigurationSection[] = ['settings', 'schedules', 'accessRules'];
+
+/**
+ * Comparison of the configuration a profile wants on a device with the one the device reports
+ */
+export class DeviceConfigurationUtil {
+    static reportedSections(actual: DeviceConfiguration): DeviceConfigurationSection[] {
+        return actual.reported ?? SECTIONS;
+    }
+
+    /**
+     * The differences in the sections the device reports. Devices have many more settings
+     * than a profile sets, so only the profile's settings are compared; schedules and access
+     * rules are compared by ID, including those only on the device.
+     */
+    static findDifferences(
+        desired: DesiredDeviceConfiguration,
+        actual: DeviceConfiguration
+    ): DeviceConfigurationDifference[] {
+        const reported = this.reportedSections(actual);
+        const differences: DeviceConfigurationDifference[] = [];
+
+        if (reported.includes('settings')) {
+            for (const [key, expected] of Object.entries(desired.settings)) {
+                const value = actual.settings?.[key];
+                if (!this.isEqual(expected, value)) {
+                    differences.push({ section: 'settings', key, expected, actual: value });
+                }
+            }
+        }
+
+        if (reported.includes('schedules')) {
+            differences.push(
+                ...this.compareItems('schedules', desired.schedules, actual.schedules || [])
+            );
+        }
+
+        if (reported.includes('accessRules')) {
+            differences.push(
+                ...this.compareItems('accessRules', desired.accessRules, actual.accessRules || [])
+            );
+        }
+
+        return differences;
+    }
+
+    /**
+     * Devices report values as they store them, e.g. numbers as strings, and lists in any
+     * order, so values are compared after normalizing both
+     */
+    static isEqual(expected: any, actual: any): boolean {
+        return JSON.stringify(this.normalize(expected)) === JSON.stringify(this.normalize(actual));
+    }
+
+    private static compareItems<T extends { id: string }>(
+        section: DeviceConfigurationSection,
+        expected: T[],
+        actual: T[]
+    ): DeviceConfigurationDifference[] {
+        const actualById = new Map(actual.map(item => [item.id, item]));
+        const expectedIds = new Set(expected.map(item => item.id));
+
+        return [
+            ...expected
+                .filter(item => !this.isEqual(item, actualById.get(item.id)))
+                .map(item => ({
+                    section,
+                    key: item.id,
+                    expected: item,
+                    actual: actualById.get(item.id),
+                })),
+            ...actual
+                .filter(item => !expectedIds.has(item.id))
+                .map(item => ({ section, key: item.id, actual: item })),
+        ];
+    }
+
+    private static normalize(value: any): any {
+        if (value === null || value === undefined) {
+            return null;
+        }
+
+        if (Array.isArray(value)) {
+            const items = value.map(item => this.normalize(item));
+            return items.every(item => typeof item !== 'object' || item === null)
+                ? items.sort()
+                : items;
+        }
+
+        if (typeof value === 'object') {
+            return Object.keys(value)
+                .sort()
+                .reduce(
+                    (normalized, key) => ({ ...normalized, [key]: this.normalize(value[key]) }),
+                    {} as Record<string, any>
+                );
+        }
+
+        return String(value);
+    }
+}
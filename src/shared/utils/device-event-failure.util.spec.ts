@@ -0,0 +1,68 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { DeviceEventFailureClass } from '@prisma/client';
+import {
+    PrismaClientKnownRequestError,
+    PrismaClientValidationError,
+} from '@prisma/client/runtime/library';
+import { DeviceEventFailureUtil } from './device-event-failure.util';
+
+describe('DeviceEventFailureUtil', () => {
+    const prismaError = (code: string, meta?: Record<string, unknown>) =>
+        new PrismaClientKnownRequestError('Query failed', {
+            code,
+            clientVersion: '6.13.0',
+            meta,
+        });
+
+    describe('classify', () => {
+        it('should classify references to a removed device as an unknown device', () => {
+            expect(
+                DeviceEventFailureUtil.classify(
+                    prismaError('P2003', { field_name: 'Attendance_deviceId_fkey (index)' })
+                )
+            ).toBe(DeviceEventFailureClass.UNKNOWN_DEVICE);
+            expect(DeviceEventFailureUtil.classify(new NotFoundException('Device not found'))).toBe(
+                DeviceEventFailureClass.UNKNOWN_DEVICE
+            );
+        });
+
+        it('should classify errors that fail the same way every time as validation', () => {
+            expect(
+                DeviceEventFailureUtil.classify(
+                    prismaError('P2003', { field_name: 'Attendance_employeeId_fkey (index)' })
+                )
+            ).toBe(DeviceEventFailureClass.VALIDATION);
+            expect(
+                DeviceEventFailureUtil.classify(
+                    new ConflictException('The pay period of 2026-10-19 is locked')
+                )
+            ).toBe(DeviceEventFailureClass.VALIDATION);
+            expect(DeviceEventFailureUtil.classify(new BadRequestException('Invalid'))).toBe(
+                DeviceEventFailureClass.VALIDATION
+            );
+            expect(
+                DeviceEventFailureUtil.classify(
+                    new PrismaClientValidationError('Argument missing', { clientVersion: '6.13.0' })
+                )
+            ).toBe(DeviceEventFailureClass.VALIDATION);
+        });
+
+        it('should classify anything else as transient', () => {
+            expect(DeviceEventFailureUtil.classify(new Error('Connection refused'))).toBe(
+                DeviceEventFailureClass.TRANSIENT
+            );
+            expect(DeviceEventFailureUtil.classify(prismaError('P1001'))).toBe(
+                DeviceEventFailureClass.TRANSIENT
+            );
+        });
+    });
+
+    describe('hasCredential', () => {
+        it('should tell events presenting a credential apart', () => {
+            expect(DeviceEventFailureUtil.hasCredential({ cardId: 'CARD-1' })).toBe(true);
+            expect(DeviceEventFailureUtil.hasCredential({ employeeCode: '1001' })).toBe(true);
+            expect(DeviceEventFailureUtil.hasCredential({ door: 'A' })).toBe(false);
+            expect(DeviceEventFailureUtil.hasCredential(undefined)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import { HttpException } from '@nestjs/common';
+import { DeviceEventFailureClass } from '@prisma/client';
+import {
+    PrismaClientKnownRequestError,
+    PrismaClientValidationError,
+} from '@prisma/client/runtime/library';
+
+/** The credentials of a raw device event an employee can be identified by */
+const CREDENTIAL_FIELDS = ['employeeId', 'employeeCode', 'cardId', 'biometricData'];
+
+/**
+ * Classification of the errors device events fail with, for the dead-letter store of the
+ * events queue. Only transient failures are worth retrying automatically.
+ */
+export class DeviceEventFailureUtil {
+    static classify(error: any): DeviceEventFailureClass {
+        if (error instanceof PrismaClientKnownRequestError) {
+            // A foreign key of the device, e.g. on the attendance record, means it was removed
+            if (error.code === 'P2003' && String(error.meta?.field_name).includes('deviceId')) {
+                return DeviceEventFailureClass.UNKNOWN_DEVICE;
+            }
+
+            return ['P2003', 'P2014', 'P2025'].includes(error.code)
+                ? DeviceEventFailureClass.VALIDATION
+                : DeviceEventFailureClass.TRANSIENT;
+        }
+
+        if (error instanceof PrismaClientValidationError || error?.name === 'ValidationError') {
+            return DeviceEventFailureClass.VALIDATION;
+        }
+
+        // Client errors, e.g. an event in a locked pay period, fail the same way every time
+        if (error instanceof HttpException && error.getStatus() < 500) {
+            return /device not found/i.test(error.message)
+                ? DeviceEventFailureClass.UNKNOWN_DEVICE
+                : DeviceEventFailureClass.VALIDATION;
+        }
+
+        return DeviceEventFailureClass.TRANSIENT;
+    }
+
+    static isRetryable(failureClass: DeviceEventFailureClass): boolean {
+        return failureClass === DeviceEventFailureClass.TRANSIENT;
+    }
+
+    /**
+     * Whether a raw device event presents a credential, so failing to match it is a failure
+     * rather than an event nobody is expected to match, e.g. a door left open
+     */
+    static hasCredential(rawData: Record<string, any> | undefined): boolean {
+        return CREDENTIAL_FIELDS.some(field => !!rawData?.[field]);
+    }
+}
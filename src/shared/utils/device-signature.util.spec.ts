@@ -0,0 +1,186 @@
+import { DeviceSignatureUtil } from './device-signature.util';
+
+describe('DeviceSignatureUtil', () => {
+    const request = {
+        method: 'post',
+        path: '/api/v1/events/raw?source=door',
+        timestamp: '2026-10-19T12:00:00.000Z',
+        nonce: 'nonce-123',
+        body: '{"eventType":"access_attempt"}',
+    };
+
+    describe('generateSecret', () => {
+        it('should generate a different secret every time', () => {
+            const secret = DeviceSignatureUtil.generateSecret();
+
+            expect(secret).toHaveLength(43);
+            expect(DeviceSignatureUtil.generateSecret()).not.toBe(secret);
+        });
+    });
+
+    describe('buildCanonicalRequest', () => {
+        it('should put each part on its own line, ending with the body hash', () => {
+            const lines = DeviceSignatureUtil.buildCanonicalRequest(request).split('\n');
+
+            expect(lines.slice(0, 4)).toEqual([
+                'POST',
+                '/api/v1/events/raw?source=door',
+                '2026-10-19T12:00:00.000Z',
+                'nonce-123',
+            ]);
+            expect(lines[4]).toMatch(/^[0-9a-f]{64}$/);
+        });
+
+        it('should hash an empty body like no body', () => {
+            expect(DeviceSignatureUtil.buildCanonicalRequest({ ...request, body: '' })).toBe(
+                DeviceSignatureUtil.buildCanonicalRequest({ ...request, body: undefined })
+            );
+        });
+    });
+
+    describe('verify', () => {
+        const signingKey = DeviceSignatureUtil.deriveSigningKey('device-secret');
+        const canonicalRequest = DeviceSignatureUtil.buildCanonicalRequest(request);
+
+        it('should accept the signature made with the same key', () => {
+            const signature = DeviceSignatureUtil.sign(signingKey, canonicalRequest);
+
+            expect(DeviceSignatureUtil.verify(signingKey, canonicalRequest, signature)).toBe(true);
+        });
+
+        it('should reject a signature of another request or key', () => {
+            const otherRequest = DeviceSignatureUtil.buildCanonicalRequest({
+                ...request,
+                nonce: 'nonce-456',
+            });
+
+            expect(
+                DeviceSignatureUtil.verify(
+                    signingKey,
+                    canonicalRequest,
+                    DeviceSignatureUtil.sign(signingKey, otherRequest)
+                )
+            ).toBe(false);
+            expect(
+                DeviceSignatureUtil.verify(
+                    signingKey,
+                    canonicalRequest,
+                    DeviceSignatureUtil.sign(
+                        DeviceSignatureUtil.deriveSigningKey('other-secret'),
+                        canonicalRequest
+                    )
+                )
+            ).toBe(false);
+        });
+
+        it('should reject malformed signatures', () => {
+            expect(DeviceSignatureUtil.verify(signingKey, canonicalRequest, 'dev-signature')).toBe(
+                false
+            );
+        });
+    });
+
+    describe('encryptSigningKey', () => {
+        const encryptionKey = 'test-device-secret-encryption-key-of-32-chars';
+        const signingKey = DeviceSignatureUtil.deriveSigningKey('device-secret');
+
+        it('should not keep the signing key readable', () => {
+            const encrypted = DeviceSignatureUtil.encryptSigningKey(signingKey, encryptionKey);
+
+            expect(encrypted).not.toContain(signingKey);
+            expect(DeviceSignatureUtil.isEncrypted(encrypted)).toBe(true);
+            expect(DeviceSignatureUtil.isEncrypted(signingKey)).toBe(false);
+            expect(DeviceSignatureUtil.encryptSigningKey(signingKey, encryptionKey)).not.toBe(
+                encrypted
+            );
+        });
+
+        it('should decrypt only with the same key', () => {
+            const encrypted = DeviceSignatureUtil.encryptSigningKey(signingKey, encryptionKey);
+
+            expect(DeviceSignatureUtil.decryptSigningKey(encrypted, encryptionKey)).toBe(
+                signingKey
+            );
+            expect(() =>
+                DeviceSignatureUtil.decryptSigningKey(
+                    encrypted,
+                    'another-device-secret-encryption-key-of-32'
+                )
+            ).toThrow();
+        });
+    });
+
+    describe('verifyDevice', () => {
+        const encryptionKey = 'test-device-secret-encryption-key-of-32-chars';
+        const canonicalRequest = DeviceSignatureUtil.buildCanonicalRequest(request);
+        const currentKey = DeviceSignatureUtil.deriveSigningKey('current-secret');
+        const previousKey = DeviceSignatureUtil.deriveSigningKey('previous-secret');
+
+        it('should accept the previous secret only until its overlap window ends', () => {
+            const signature = DeviceSignatureUtil.sign(previousKey, canonicalRequest);
+            const device = {
+                encryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(
+                    currentKey,
+                    encryptionKey
+                ),
+                previousEncryptedSigningKey: DeviceSignatureUtil.encryptSigningKey(
+                    previousKey,
+                    encryptionKey
+                ),
+                previousSecretExpiresAt: new Date(Date.now() + 60000),
+            };
+
+            expect(
+                DeviceSignatureUtil.verifyDevice(device, canonicalRequest, signature, encryptionKey)
+            ).toBe(true);
+            expect(
+                DeviceSignatureUtil.verifyDevice(
+                    { ...device, previousSecretExpiresAt: new Date(Date.now() - 1) },
+                    canonicalRequest,
+                    signature,
+                    encryptionKey
+                )
+            ).toBe(false);
+        });
+
+        it('should reject keys stored in plain text or encrypted under another key', () => {
+            const signature = DeviceSignatureUtil.sign(currentKey, canonicalRequest);
+            const verify = (encryptedSigningKey: string) =>
+                DeviceSignatureUtil.verifyDevice(
+                    {
+                        encryptedSigningKey,
+                        previousEncryptedSigningKey: null,
+                        previousSecretExpiresAt: null,
+                    },
+                    canonicalRequest,
+                    signature,
+                    encryptionKey
+                );
+
+            expect(verify(currentKey)).toBe(false);
+            expect(
+                verify(
+                    DeviceSignatureUtil.encryptSigningKey(
+                        currentKey,
+                        'another-device-secret-encryption-key-of-32'
+                    )
+                )
+            ).toBe(false);
+        });
+
+        it('should reject devices without a secret', () => {
+            expect(
+                DeviceSignatureUtil.verifyDevice(
+                    {
+                        encryptedSigningKey: null,
+                        previousEncryptedSigningKey: null,
+                        previousSecretExpiresAt: null,
+                    },
+                    canonicalRequest,
+                    DeviceSignatureUtil.sign(currentKey, canonicalRequest),
+                    encryptionKey
+                )
+            ).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createHmac,
+    randomBytes,
+    timingSafeEqual,
+} from 'crypto';
+
+/** How far the timestamp of a signed request may be from the server's clock */
+export const DEVICE_REQUEST_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Marks signing keys encrypted by encryptSigningKey, and the format they are in */
+export const ENCRYPTED_SIGNING_KEY_PREFIX = 'v1:';
+
+export interface DeviceCanonicalRequest {
+    method: string;
+    path: string; // Including the query string
+    timestamp: string; // As sent in the x-timestamp header
+    nonce: string;
+    body?: Buffer | string;
+}
+
+export interface DeviceSigningKeys {
+    encryptedSigningKey: string | null;
+    previousEncryptedSigningKey: string | null;
+    previousSecretExpiresAt: Date | null;
+}
+
+export class DeviceSignatureUtil {
+    /**
+     * Generate a new device secret; it is shown once and only the key derived from it is stored
+     */
+    static generateSecret(): string {
+        return randomBytes(32).toString('base64url');
+    }
+
+    /**
+     * Derive the key a device signs with: the SHA-256 of its secret, hex encoded. Anyone
+     * holding it can sign as the device, so it is only stored encrypted.
+     */
+    static deriveSigningKey(secret: string): string {
+        return createHash('sha256').update(secret).digest('hex');
+    }
+
+    /**
+     * Encrypt a signing key for storage with AES-256-GCM under the application's key
+     */
+    static encryptSigningKey(signingKey: string, encryptionKey: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.toCipherKey(encryptionKey), iv);
+        const ciphertext = Buffer.concat([cipher.update(signingKey, 'utf8'), cipher.final()]);
+
+        return (
+            ENCRYPTED_SIGNING_KEY_PREFIX +
+            [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+        );
+    }
+
+    /**
+     * Decrypt a stored signing key; throws when it was not encrypted under the application's key
+     */
+    static decryptSigningKey(encryptedSigningKey: string, encryptionKey: string): string {
+        const [iv, authTag, ciphertext] = encryptedSigningKey
+            .slice(ENCRYPTED_SIGNING_KEY_PREFIX.length)
+            .split('.')
+            .map(part => Buffer.from(part, 'base64url'));
+        const decipher = createDecipheriv('aes-256-gcm', this.toCipherKey(encryptionKey), iv);
+        decipher.setAuthTag(authTag);
+
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    }
+
+    /**
+     * Whether a stored signing key is encrypted, rather than kept in plain text as it was at first
+     */
+    static isEncrypted(storedSigningKey: string): boolean {
+        return storedSigningKey.startsWith(ENCRYPTED_SIGNING_KEY_PREFIX);
+    }
+
+    /**
+     * Build the string a device signs: method, path, timestamp, nonce and the SHA-256 of the
+     * body, one per line
+     */
+    static buildCanonicalRequest(request: DeviceCanonicalRequest): string {
+        return [
+            request.method.toUpperCase(),
+            request.path,
+            request.timestamp,
+            request.nonce,
+            createHash('sha256')
+                .update(request.body || '')
+                .digest('hex'),
+        ].join('\n');
+    }
+
+    /**
+     * Sign a canonical request with HMAC-SHA256, hex encoded
+     */
+    static sign(signingKey: string, canonicalRequest: string): string {
+        return createHmac('sha256', signingKey).update(canonicalRequest).digest('hex');
+    }
+
+    /**
+     * Compare a signature with the expected one in constant time
+     */
+    static verify(signingKey: string, canonicalRequest: string, signature: string): boolean {
+        const expected = Buffer.from(this.sign(signingKey, canonicalRequest), 'hex');
+        const actual = Buffer.from(signature, 'hex');
+
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+    /**
+     * Verify with the device's current secret, or with the previous one until its overlap
+     * window ends. The stored keys are decrypted with the application's key.
+     */
+    static verifyDevice(
+        device: DeviceSigningKeys,
+        canonicalRequest: string,
+        signature: string,
+        encryptionKey: string
+    ): boolean {
+        if (
+            device.encryptedSigningKey &&
+            this.verifyStored(
+                device.encryptedSigningKey,
+                canonicalRequest,
+                signature,
+                encryptionKey
+            )
+        ) {
+            return true;
+        }
+
+        return (
+            !!device.previousEncryptedSigningKey &&
+            !!device.previousSecretExpiresAt &&
+            device.previousSecretExpiresAt > new Date() &&
+            this.verifyStored(
+                device.previousEncryptedSigningKey,
+                canonicalRequest,
+                signature,
+                encryptionKey
+            )
+        );
+    }
+
+    private static verifyStored(
+        encryptedSigningKey: string,
+        canonicalRequest: string,
+        signature: string,
+        encryptionKey: string
+    ): boolean {
+        if (!this.isEncrypted(encryptedSigningKey)) {
+            return false;
+        }
+
+        try {
+            const signingKey = this.decryptSigningKey(encryptedSigningKey, encryptionKey);
+
+            return this.verify(signingKey, canonicalRequest, signature);
+        } catch {
+            // Encrypted under another key, or tampered with
+            return false;
+        }
+    }
+
+    /**
+     * AES-256 needs exactly 32 bytes; the configured key is any string of at least that length
+     */
+    private static toCipherKey(encryptionKey: string): Buffer {
+        return createHash('sha256').update(encryptionKey).digest();
+    }
+}
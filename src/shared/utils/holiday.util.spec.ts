@@ -0,0 +1,69 @@
+import { HolidayEntry, HolidayUtil } from './holiday.util';
+
+describe('HolidayUtil', () => {
+    const entries: HolidayEntry[] = [
+        { name: 'New Year', date: '2020-01-01', isRecurring: true, isDayOff: true },
+        { name: 'Independence Day', date: '2026-09-01', isRecurring: false, isDayOff: true },
+        { name: 'Bridge day', date: '2026-01-02', isRecurring: false, isDayOff: true },
+        {
+            name: 'Stock taking',
+            date: '2026-01-02',
+            isRecurring: false,
+            isDayOff: false,
+            branchId: 'branch-2',
+        },
+        {
+            name: 'City day',
+            date: '2026-05-20',
+            isRecurring: false,
+            isDayOff: true,
+            branchId: 'branch-2',
+        },
+    ];
+
+    describe('isHoliday', () => {
+        it('should repeat recurring holidays every year', () => {
+            expect(HolidayUtil.isHoliday(entries, '2026-01-01')).toBe(true);
+            expect(HolidayUtil.isHoliday(entries, '2031-01-01')).toBe(true);
+            expect(HolidayUtil.isHoliday(entries, '2027-09-01')).toBe(false);
+        });
+
+        it("should let a branch override the organization's calendar", () => {
+            expect(HolidayUtil.isHoliday(entries, '2026-01-02', 'branch-1')).toBe(true);
+            expect(HolidayUtil.isHoliday(entries, '2026-01-02', 'branch-2')).toBe(false);
+            expect(HolidayUtil.isHoliday(entries, '2026-05-20', 'branch-2')).toBe(true);
+            expect(HolidayUtil.isHoliday(entries, '2026-05-20', 'branch-1')).toBe(false);
+            expect(HolidayUtil.isHoliday(entries, '2026-05-20')).toBe(false);
+        });
+    });
+
+    describe('getHolidays', () => {
+        it('should list the days off of the branch in the range', () => {
+            const holidays = HolidayUtil.getHolidays(
+                entries,
+                '2026-01-01',
+                '2026-01-31',
+                'branch-2'
+            );
+
+            expect(Array.from(holidays.keys())).toEqual(['2026-01-01']);
+            expect(holidays.get('2026-01-01').name).toBe('New Year');
+        });
+    });
+
+    describe('countWorkingDays', () => {
+        it('should count weekdays that are not holidays', () => {
+            // 2026-01-01 is a Thursday
+            expect(HolidayUtil.countWorkingDays(entries, '2026-01-01', '2026-01-07')).toBe(3);
+            expect(
+                HolidayUtil.countWorkingDays(entries, '2026-01-01', '2026-01-07', 'branch-2')
+            ).toBe(4);
+        });
+
+        it('should use the given working weekdays', () => {
+            expect(
+                HolidayUtil.countWorkingDays(entries, '2026-01-01', '2026-01-07', null, [6])
+            ).toBe(1);
+        });
+    });
+});
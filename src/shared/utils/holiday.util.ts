@@ -0,0 +1,88 @@
+import { TimesheetUtil } from './timesheet.util';
+
+export interface HolidayEntry {
+    name: string;
+    /** YYYY-MM-DD; only the month and day are used for recurring entries */
+    date: string;
+    isRecurring: boolean;
+    isDayOff: boolean;
+    branchId?: string | null;
+}
+
+/** Weekdays expected at work when no shift says otherwise, Sunday = 0 */
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export class HolidayUtil {
+    /**
+     * Find the calendar entry for a day. Entries of the branch override the organization's,
+     * and one-off entries override recurring ones.
+     */
+    static findEntry(
+        entries: HolidayEntry[],
+        dateKey: string,
+        branchId?: string | null
+    ): HolidayEntry | null {
+        const matches = entries.filter(
+            entry =>
+                (!entry.branchId || entry.branchId === branchId) &&
+                (entry.isRecurring
+                    ? entry.date.slice(5) === dateKey.slice(5)
+                    : entry.date === dateKey)
+        );
+        if (matches.length === 0) {
+            return null;
+        }
+
+        const rank = (entry: HolidayEntry) =>
+            (entry.branchId ? 0 : 2) + (entry.isRecurring ? 1 : 0);
+
+        return matches.sort((a, b) => rank(a) - rank(b))[0];
+    }
+
+    /**
+     * Check whether the calendar gives the branch the day off
+     */
+    static isHoliday(entries: HolidayEntry[], dateKey: string, branchId?: string | null): boolean {
+        const entry = this.findEntry(entries, dateKey, branchId);
+
+        return !!entry && entry.isDayOff;
+    }
+
+    /**
+     * Get the holidays of the branch in the range by date key
+     */
+    static getHolidays(
+        entries: HolidayEntry[],
+        startKey: string,
+        endKey: string,
+        branchId?: string | null
+    ): Map<string, HolidayEntry> {
+        const holidays = new Map<string, HolidayEntry>();
+
+        TimesheetUtil.getDateKeys(startKey, endKey).forEach(dateKey => {
+            const entry = this.findEntry(entries, dateKey, branchId);
+            if (entry && entry.isDayOff) {
+                holidays.set(dateKey, entry);
+            }
+        });
+
+        return holidays;
+    }
+
+    /**
+     * Count the days of the range falling on the working weekdays that are not holidays
+     */
+    static countWorkingDays(
+        entries: HolidayEntry[],
+        startKey: string,
+        endKey: string,
+        branchId?: string | null,
+        daysOfWeek: number[] = DEFAULT_WORKING_DAYS
+    ): number {
+        return TimesheetUtil.getDateKeys(startKey, endKey).filter(
+            dateKey =>
+                daysOfWeek.includes(new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()) &&
+                !this.isHoliday(entries, dateKey, branchId)
+        ).length;
+    }
+}
@@ -2,3 +2,16 @@ export * from './password.util';
 export * from './uuid.util';
 export * from './database.util';
 export * from './query-builder.util';
+export * from './shift.util';
+export * from './attendance-day.util';
+export * from './timezone.util';
+export * from './timesheet.util';
+export * from './leave.util';
+export * from './holiday.util';
+export * from './payroll-export.util';
+export * from './device-signature.util';
+export * from './zkteco-push.util';
+export * from './mqtt-topic.util';
+export * from './device-event-failure.util';
+export * from './device-configuration.util';
+export * from './access-schedule.util';
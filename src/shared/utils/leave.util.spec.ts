@@ -0,0 +1,65 @@
+import { LeaveAllowance, LeaveUtil } from './leave.util';
+
+describe('LeaveUtil', () => {
+    const tz = 'Asia/Tashkent';
+    const asOf = new Date('2026-04-10T12:00:00+05:00');
+
+    const yearly: LeaveAllowance = { accrualType: 'YEARLY', annualDays: 24, maxCarryOverDays: 5 };
+    const monthly: LeaveAllowance = { accrualType: 'MONTHLY', annualDays: 24 };
+    const untracked: LeaveAllowance = { accrualType: 'NONE', annualDays: 0 };
+
+    describe('getAccruedDays', () => {
+        it('should grant the whole yearly allowance at the start of the year', () => {
+            expect(LeaveUtil.getAccruedDays(yearly, 2026, asOf, tz)).toBe(24);
+            expect(LeaveUtil.getAccruedDays(yearly, 2027, asOf, tz)).toBe(24);
+        });
+
+        it('should accrue monthly allowance up to the current month', () => {
+            expect(LeaveUtil.getAccruedDays(monthly, 2026, asOf, tz)).toBe(8);
+            expect(LeaveUtil.getAccruedDays(monthly, 2025, asOf, tz)).toBe(24);
+            expect(LeaveUtil.getAccruedDays(monthly, 2027, asOf, tz)).toBe(0);
+        });
+
+        it('should use the month in the given time zone', () => {
+            const newYearInTashkent = new Date('2026-12-31T20:00:00Z');
+
+            expect(LeaveUtil.getAccruedDays(monthly, 2027, newYearInTashkent, tz)).toBe(2);
+        });
+
+        it('should not accrue untracked leave', () => {
+            expect(LeaveUtil.getAccruedDays(untracked, 2026, asOf, tz)).toBe(0);
+        });
+    });
+
+    describe('getAvailableDays', () => {
+        it('should net used and pending days from the allowance', () => {
+            const balance = { carriedOverDays: 3, adjustmentDays: -1, usedDays: 10 };
+
+            expect(LeaveUtil.getAvailableDays(24, balance, 4)).toBe(12);
+        });
+    });
+
+    describe('getCarryOverDays', () => {
+        it('should carry over unused days up to the limit', () => {
+            const previousBalance = { carriedOverDays: 0, adjustmentDays: 0, usedDays: 20 };
+
+            expect(LeaveUtil.getCarryOverDays(yearly, 2025, previousBalance, asOf, tz)).toBe(4);
+            expect(
+                LeaveUtil.getCarryOverDays(
+                    yearly,
+                    2025,
+                    { ...previousBalance, usedDays: 2 },
+                    asOf,
+                    tz
+                )
+            ).toBe(5);
+        });
+
+        it('should not carry over an overdrawn balance or a missing one', () => {
+            const overdrawn = { carriedOverDays: 0, adjustmentDays: 0, usedDays: 30 };
+
+            expect(LeaveUtil.getCarryOverDays(yearly, 2025, overdrawn, asOf, tz)).toBe(0);
+            expect(LeaveUtil.getCarryOverDays(yearly, 2025, null, asOf, tz)).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { TimezoneUtil } from './timezone.util';
+
+export type LeaveAccrual = 'NONE' | 'YEARLY' | 'MONTHLY';
+
+export interface LeaveAllowance {
+    accrualType: LeaveAccrual;
+    annualDays: number;
+    maxCarryOverDays?: number;
+}
+
+export interface LeaveYearBalance {
+    carriedOverDays: number;
+    adjustmentDays: number;
+    usedDays: number;
+}
+
+export class LeaveUtil {
+    /**
+     * Check whether requests of the leave type are limited by a balance
+     */
+    static isTracked(allowance: LeaveAllowance): boolean {
+        return allowance.accrualType !== 'NONE';
+    }
+
+    /**
+     * Get the days of the yearly allowance accrued by the given moment. Monthly accrual grants
+     * a twelfth of the allowance at the start of each month of the year.
+     */
+    static getAccruedDays(
+        allowance: LeaveAllowance,
+        year: number,
+        asOf: Date,
+        timeZone?: string
+    ): number {
+        if (!this.isTracked(allowance)) {
+            return 0;
+        }
+
+        const { year: currentYear, month } = TimezoneUtil.getParts(asOf, timeZone);
+        if (year > currentYear) {
+            return allowance.accrualType === 'YEARLY' ? allowance.annualDays : 0;
+        }
+
+        if (allowance.accrualType === 'YEARLY' || year < currentYear) {
+            return allowance.annualDays;
+        }
+
+        return this.round((allowance.annualDays * month) / 12);
+    }
+
+    /**
+     * Get the days still available in a year, net of approved and pending leave
+     */
+    static getAvailableDays(
+        accruedDays: number,
+        balance: LeaveYearBalance,
+        pendingDays = 0
+    ): number {
+        return this.round(
+            accruedDays +
+                balance.carriedOverDays +
+                balance.adjustmentDays -
+                balance.usedDays -
+                pendingDays
+        );
+    }
+
+    /**
+     * Get the unused days of the previous year moved into the next one, up to the type's limit
+     */
+    static getCarryOverDays(
+        allowance: LeaveAllowance,
+        previousYear: number,
+        previousBalance: LeaveYearBalance | null,
+        asOf: Date,
+        timeZone?: string
+    ): number {
+        if (!previousBalance || !this.isTracked(allowance)) {
+            return 0;
+        }
+
+        const unused = this.getAvailableDays(
+            this.getAccruedDays(allowance, previousYear, asOf, timeZone),
+            previousBalance
+        );
+
+        return Math.min(allowance.maxCarryOverDays || 0, Math.max(0, unused));
+    }
+
+    private static round(days: number): number {
+        return Math.round(days * 100) / 100;
+    }
+}
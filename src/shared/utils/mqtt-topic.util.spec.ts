@@ -0,0 +1,52 @@
+import { MqttTopicUtil } from './mqtt-topic.util';
+
+describe('MqttTopicUtil', () => {
+    describe('matches', () => {
+        it('should match single and multi level wildcards', () => {
+            expect(MqttTopicUtil.matches('acme/+/events', 'acme/reader-1/events')).toBe(true);
+            expect(MqttTopicUtil.matches('acme/#', 'acme/reader-1/events')).toBe(true);
+            expect(MqttTopicUtil.matches('acme/#', 'acme')).toBe(true);
+            expect(MqttTopicUtil.matches('acme/+/events', 'acme/reader-1/status')).toBe(false);
+            expect(MqttTopicUtil.matches('acme/+', 'acme/reader-1/events')).toBe(false);
+        });
+
+        it('should not match $ topics with a leading wildcard', () => {
+            expect(MqttTopicUtil.matches('#', '$SYS/broker/uptime')).toBe(false);
+            expect(MqttTopicUtil.matches('$SYS/#', '$SYS/broker/uptime')).toBe(true);
+        });
+    });
+
+    describe('validatePattern', () => {
+        it('should require the device ID as exactly one level', () => {
+            expect(MqttTopicUtil.validatePattern('acme/{deviceId}/events', true)).toBeNull();
+            expect(MqttTopicUtil.validatePattern('acme/events', true)).toMatch(/\{deviceId\}/);
+            expect(MqttTopicUtil.validatePattern('acme/dev-{deviceId}/events', true)).toMatch(
+                /\{deviceId\}/
+            );
+        });
+
+        it('should only allow wildcards in event patterns', () => {
+            expect(MqttTopicUtil.validatePattern('acme/+/{deviceId}/#', true)).toBeNull();
+            expect(MqttTopicUtil.validatePattern('acme/+/{deviceId}/commands', false)).toBe(
+                'must not contain wildcards'
+            );
+            expect(MqttTopicUtil.validatePattern('acme/#/{deviceId}', true)).toMatch(/# as/);
+            expect(MqttTopicUtil.validatePattern('acme/a+/{deviceId}', true)).toMatch(/\+ as/);
+        });
+    });
+
+    it('should extract the device ID from a topic', () => {
+        const pattern = 'acme/+/{deviceId}/events';
+
+        expect(MqttTopicUtil.toFilter(pattern)).toBe('acme/+/+/events');
+        expect(MqttTopicUtil.extractDeviceId(pattern, 'acme/hq/reader-1/events')).toBe('reader-1');
+        expect(MqttTopicUtil.extractDeviceId(pattern, 'acme/hq/reader-1/status')).toBeNull();
+    });
+
+    it('should build the topic of a device', () => {
+        expect(MqttTopicUtil.forDevice('acme/{deviceId}/commands', 'reader-1')).toBe(
+            'acme/reader-1/commands'
+        );
+        expect(() => MqttTopicUtil.forDevice('acme/{deviceId}/commands', 'a/b')).toThrow();
+    });
+});
@@ -0,0 +1,99 @@
+/** Placeholder for the topic level that names the device */
+export const MQTT_DEVICE_ID_PLACEHOLDER = '{deviceId}';
+
+/**
+ * MQTT topic filters and the topic patterns of MQTT channels. A pattern is a topic filter in
+ * which one level is {deviceId}, e.g. "acme/+/{deviceId}/events".
+ */
+export class MqttTopicUtil {
+    /**
+     * Whether a topic matches a filter with + (one level) and # (any remaining levels)
+     */
+    static matches(filter: string, topic: string): boolean {
+        const filterLevels = filter.split('/');
+        const topicLevels = topic.split('/');
+
+        // Wildcards at the first level do not match topics starting with $, e.g. $SYS
+        if (topic.startsWith('$') && /^[+#]/.test(filter)) {
+            return false;
+        }
+
+        for (let index = 0; index < filterLevels.length; index++) {
+            if (filterLevels[index] === '#') {
+                return true;
+            }
+            if (index >= topicLevels.length) {
+                return false;
+            }
+            if (filterLevels[index] !== '+' && filterLevels[index] !== topicLevels[index]) {
+                return false;
+            }
+        }
+
+        return filterLevels.length === topicLevels.length;
+    }
+
+    /**
+     * Check a channel topic pattern, returning what is wrong with it. Event patterns may
+     * contain wildcards; command patterns name a single topic per device.
+     */
+    static validatePattern(pattern: string, allowWildcards: boolean): string | null {
+        const levels = pattern.split('/');
+        const deviceLevels = levels.filter(level => level === MQTT_DEVICE_ID_PLACEHOLDER);
+
+        if (deviceLevels.length !== 1) {
+            return `must contain ${MQTT_DEVICE_ID_PLACEHOLDER} as exactly one topic level`;
+        }
+        if (pattern.startsWith('$')) {
+            return 'must not start with $';
+        }
+        if (!allowWildcards && levels.some(level => /[+#]/.test(level))) {
+            return 'must not contain wildcards';
+        }
+        if (
+            levels.some(
+                (level, index) =>
+                    (level.includes('#') && (level !== '#' || index !== levels.length - 1)) ||
+                    (level.includes('+') && level !== '+')
+            )
+        ) {
+            return 'may only use + as a whole level and # as the whole last level';
+        }
+
+        return null;
+    }
+
+    /**
+     * The filter to subscribe to for an event topic pattern
+     */
+    static toFilter(pattern: string): string {
+        return pattern
+            .split('/')
+            .map(level => (level === MQTT_DEVICE_ID_PLACEHOLDER ? '+' : level))
+            .join('/');
+    }
+
+    /**
+     * The device a topic belongs to, or null when the topic does not match the pattern
+     */
+    static extractDeviceId(pattern: string, topic: string): string | null {
+        if (!this.matches(this.toFilter(pattern), topic)) {
+            return null;
+        }
+
+        const index = pattern.split('/').indexOf(MQTT_DEVICE_ID_PLACEHOLDER);
+
+        return topic.split('/')[index] || null;
+    }
+
+    /**
+     * The topic of one device, e.g. where its commands are published
+     */
+    static forDevice(pattern: string, deviceId: string): string {
+        if (!deviceId || /[/+#]/.test(deviceId)) {
+            throw new Error(`Device ID cannot be used in an MQTT topic: ${deviceId}`);
+        }
+
+        return pattern.replace(MQTT_DEVICE_ID_PLACEHOLDER, deviceId);
+    }
+}
@@ -0,0 +1,124 @@
+import {
+    PayrollExportProfileSnapshot,
+    PayrollExportUtil,
+    PayrollTimesheetDay,
+} from './payroll-export.util';
+
+describe('PayrollExportUtil', () => {
+    const employee = { id: 'emp-1', firstName: 'John', lastName: 'Doe', employeeCode: 'EMP001' };
+
+    const day = (overrides: Partial<PayrollTimesheetDay>): PayrollTimesheetDay => ({
+        employeeId: 'emp-1',
+        branchId: 'branch-1',
+        status: 'present',
+        leaveTypeId: null,
+        netMinutes: 0,
+        regularMinutes: 0,
+        overtimeMinutes: 0,
+        weeklyOvertimeMinutes: 0,
+        nightMinutes: 0,
+        lateMinutes: 0,
+        earlyLeaveMinutes: 0,
+        employee,
+        ...overrides,
+    });
+
+    const timesheets = [
+        day({ netMinutes: 540, regularMinutes: 480, overtimeMinutes: 60, lateMinutes: 5 }),
+        day({ netMinutes: 480, regularMinutes: 450, weeklyOvertimeMinutes: 30, nightMinutes: 45 }),
+        day({ status: 'absent' }),
+        day({ status: 'on_leave', leaveTypeId: 'leave-sick' }),
+        day({
+            employeeId: 'emp-0',
+            employee: { ...employee, id: 'emp-0', employeeCode: 'EMP000', firstName: 'Jane' },
+            netMinutes: 450,
+            regularMinutes: 450,
+        }),
+    ];
+
+    const profile: PayrollExportProfileSnapshot = {
+        id: 'profile-1',
+        name: 'Payroll',
+        columns: [
+            { field: 'employeeCode', header: 'Tab No' },
+            { field: 'workedHours' },
+            { field: 'overtimeHours', code: 'OT' },
+            { field: 'leaveDays', code: 'SICK', leaveTypeId: 'leave-sick' },
+            { field: 'lateMinutes', code: 'LATE' },
+        ],
+        layout: 'EMPLOYEE_ROWS',
+        delimiter: ';',
+        includeHeader: true,
+        hoursFormat: 'DECIMAL',
+        decimalSeparator: ',',
+    };
+
+    const period = { startDate: '2026-10-01', endDate: '2026-10-31' };
+
+    describe('summarize', () => {
+        it('should total the period per employee in employee code order', () => {
+            const totals = PayrollExportUtil.summarize(timesheets);
+
+            expect(totals.map(total => total.employee.employeeCode)).toEqual(['EMP000', 'EMP001']);
+            expect(totals[1]).toEqual(
+                expect.objectContaining({
+                    workedMinutes: 1020,
+                    regularMinutes: 930,
+                    overtimeMinutes: 90,
+                    nightMinutes: 45,
+                    lateMinutes: 5,
+                    daysWorked: 2,
+                    absentDays: 1,
+                })
+            );
+            expect(totals[1].leaveDays.get('leave-sick')).toBe(1);
+        });
+    });
+
+    describe('buildRows', () => {
+        it('should write a row per employee with the configured headers', () => {
+            const rows = PayrollExportUtil.buildRows(
+                PayrollExportUtil.summarize(timesheets),
+                profile,
+                period
+            );
+
+            expect(rows).toEqual([
+                ['Tab No', 'Worked Hours', 'Overtime Hours', 'Leave Days', 'Late Minutes'],
+                ['EMP000', '7,50', '0,00', '0', '0'],
+                ['EMP001', '17,00', '1,50', '1', '5'],
+            ]);
+        });
+
+        it('should write a row per pay code and leave out empty ones', () => {
+            const rows = PayrollExportUtil.buildRows(
+                PayrollExportUtil.summarize(timesheets),
+                { ...profile, layout: 'PAY_CODE_ROWS', hoursFormat: 'HH_MM' },
+                period
+            );
+
+            expect(rows).toEqual([
+                ['Tab No', 'Code', 'Value'],
+                ['EMP000', 'workedHours', '7:30'],
+                ['EMP001', 'workedHours', '17:00'],
+                ['EMP001', 'OT', '1:30'],
+                ['EMP001', 'SICK', '1'],
+                ['EMP001', 'LATE', '5'],
+            ]);
+        });
+    });
+
+    describe('toFile', () => {
+        it('should quote only the fields that need it', () => {
+            expect(
+                PayrollExportUtil.toFile(
+                    [
+                        ['a;b', 'say "hi"', '7,50'],
+                        ['1', '2', '3'],
+                    ],
+                    ';'
+                )
+            ).toBe('"a;b";"say ""hi""";7,50\r\n1;2;3');
+        });
+    });
+});
@@ -0,0 +1,351 @@
+export type PayrollIdentityField =
+    | 'employeeCode'
+    | 'employeeName'
+    | 'firstName'
+    | 'lastName'
+    | 'branchId'
+    | 'periodStart'
+    | 'periodEnd'
+    | 'constant';
+
+export type PayrollMeasureField =
+    | 'workedHours'
+    | 'regularHours'
+    | 'overtimeHours'
+    | 'nightHours'
+    | 'daysWorked'
+    | 'absentDays'
+    | 'leaveDays'
+    | 'lateMinutes'
+    | 'earlyLeaveMinutes';
+
+export type PayrollExportField = PayrollIdentityField | PayrollMeasureField;
+
+/** Fields describing the employee or the period; repeated on every row of an employee */
+export const PAYROLL_IDENTITY_FIELDS: PayrollIdentityField[] = [
+    'employeeCode',
+    'employeeName',
+    'firstName',
+    'lastName',
+    'branchId',
+    'periodStart',
+    'periodEnd',
+    'constant',
+];
+
+/** Fields totalled over the period; each becomes a row of its own in pay code layout */
+export const PAYROLL_MEASURE_FIELDS: PayrollMeasureField[] = [
+    'workedHours',
+    'regularHours',
+    'overtimeHours',
+    'nightHours',
+    'daysWorked',
+    'absentDays',
+    'leaveDays',
+    'lateMinutes',
+    'earlyLeaveMinutes',
+];
+
+export const PAYROLL_EXPORT_FIELDS: PayrollExportField[] = [
+    ...PAYROLL_IDENTITY_FIELDS,
+    ...PAYROLL_MEASURE_FIELDS,
+];
+
+const DEFAULT_HEADERS: Record<PayrollExportField, string> = {
+    employeeCode: 'Employee Code',
+    employeeName: 'Employee Name',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    branchId: 'Branch ID',
+    periodStart: 'Period Start',
+    periodEnd: 'Period End',
+    constant: '',
+    workedHours: 'Worked Hours',
+    regularHours: 'Regular Hours',
+    overtimeHours: 'Overtime Hours',
+    nightHours: 'Night Hours',
+    daysWorked: 'Days Worked',
+    absentDays: 'Absent Days',
+    leaveDays: 'Leave Days',
+    lateMinutes: 'Late Minutes',
+    earlyLeaveMinutes: 'Early Leave Minutes',
+};
+
+const HOUR_FIELDS: PayrollExportField[] = [
+    'workedHours',
+    'regularHours',
+    'overtimeHours',
+    'nightHours',
+];
+
+export interface PayrollExportColumn {
+    field: PayrollExportField;
+    header?: string; // Defaults to the field's label
+    code?: string; // Pay code written in pay code layout; defaults to the field name
+    value?: string; // Written by 'constant' columns
+    leaveTypeId?: string; // Narrows 'leaveDays' down to one leave type
+}
+
+export type PayrollExportLayout = 'EMPLOYEE_ROWS' | 'PAY_CODE_ROWS';
+
+export type PayrollHoursFormat = 'DECIMAL' | 'MINUTES' | 'HH_MM';
+
+export interface PayrollExportProfileSnapshot {
+    id: string;
+    name: string;
+    columns: PayrollExportColumn[];
+    layout: PayrollExportLayout;
+    delimiter: string;
+    includeHeader: boolean;
+    hoursFormat: PayrollHoursFormat;
+    decimalSeparator: string;
+}
+
+/**
+ * The parts of a calculated timesheet that payroll is built from
+ */
+export interface PayrollTimesheetDay {
+    employeeId: string;
+    branchId: string;
+    status: string;
+    leaveTypeId?: string | null;
+    netMinutes: number;
+    regularMinutes: number;
+    overtimeMinutes: number;
+    weeklyOvertimeMinutes: number;
+    nightMinutes: number;
+    lateMinutes: number;
+    earlyLeaveMinutes: number;
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string };
+}
+
+export interface PayrollEmployeeTotals {
+    employee: { id: string; firstName: string; lastName: string; employeeCode: string };
+    branchId: string;
+    workedMinutes: number;
+    regularMinutes: number;
+    overtimeMinutes: number; // Daily and weekly overtime
+    nightMinutes: number;
+    lateMinutes: number;
+    earlyLeaveMinutes: number;
+    daysWorked: number;
+    absentDays: number;
+    leaveDays: Map<string, number>; // By leave type
+}
+
+export class PayrollExportUtil {
+    /**
+     * Total the timesheets of the period per employee, ordered by employee code
+     */
+    static summarize(timesheets: PayrollTimesheetDay[]): PayrollEmployeeTotals[] {
+        const totals = new Map<string, PayrollEmployeeTotals>();
+
+        timesheets.forEach(day => {
+            let employeeTotals = totals.get(day.employeeId);
+            if (!employeeTotals) {
+                employeeTotals = {
+                    employee: day.employee,
+                    branchId: day.branchId,
+                    workedMinutes: 0,
+                    regularMinutes: 0,
+                    overtimeMinutes: 0,
+                    nightMinutes: 0,
+                    lateMinutes: 0,
+                    earlyLeaveMinutes: 0,
+                    daysWorked: 0,
+                    absentDays: 0,
+                    leaveDays: new Map(),
+                };
+                totals.set(day.employeeId, employeeTotals);
+            }
+
+            employeeTotals.workedMinutes += day.netMinutes;
+            employeeTotals.regularMinutes += day.regularMinutes;
+            employeeTotals.overtimeMinutes += day.overtimeMinutes + day.weeklyOvertimeMinutes;
+            employeeTotals.nightMinutes += day.nightMinutes;
+            employeeTotals.lateMinutes += day.lateMinutes;
+            employeeTotals.earlyLeaveMinutes += day.earlyLeaveMinutes;
+
+            if (day.status === 'present' || day.status === 'partial') {
+                employeeTotals.daysWorked++;
+            } else if (day.status === 'absent') {
+                employeeTotals.absentDays++;
+            } else if (day.status === 'on_leave' && day.leaveTypeId) {
+                employeeTotals.leaveDays.set(
+                    day.leaveTypeId,
+                    (employeeTotals.leaveDays.get(day.leaveTypeId) || 0) + 1
+                );
+            }
+        });
+
+        return Array.from(totals.values()).sort((a, b) =>
+            a.employee.employeeCode.localeCompare(b.employee.employeeCode)
+        );
+    }
+
+    /**
+     * Lay the totals out as the profile describes: a row per employee with a column per
+     * entry, or a row per employee and pay code with the identity columns repeated. Pay code
+     * rows with nothing to pay are left out.
+     */
+    static buildRows(
+        totals: PayrollEmployeeTotals[],
+        profile: PayrollExportProfileSnapshot,
+        period: { startDate: string; endDate: string }
+    ): string[][] {
+        const rows: string[][] = [];
+
+        if (profile.layout === 'PAY_CODE_ROWS') {
+            const identityColumns = profile.columns.filter(column =>
+                this.isIdentityField(column.field)
+            );
+            const measureColumns = profile.columns.filter(
+                column => !this.isIdentityField(column.field)
+            );
+
+            if (profile.includeHeader) {
+                rows.push([
+                    ...identityColumns.map(column => this.getHeader(column)),
+                    'Code',
+                    'Value',
+                ]);
+            }
+
+            totals.forEach(employeeTotals => {
+                const identity = identityColumns.map(column =>
+                    this.getValue(column, employeeTotals, profile, period)
+                );
+
+                measureColumns.forEach(column => {
+                    if (this.getAmount(column, employeeTotals) === 0) {
+                        return;
+                    }
+
+                    rows.push([
+                        ...identity,
+                        column.code || column.field,
+                        this.getValue(column, employeeTotals, profile, period),
+                    ]);
+                });
+            });
+
+            return rows;
+        }
+
+        if (profile.includeHeader) {
+            rows.push(profile.columns.map(column => this.getHeader(column)));
+        }
+
+        totals.forEach(employeeTotals => {
+            rows.push(
+                profile.columns.map(column =>
+                    this.getValue(column, employeeTotals, profile, period)
+                )
+            );
+        });
+
+        return rows;
+    }
+
+    /**
+     * Join the rows into a delimited file, quoting only the fields that need it
+     */
+    static toFile(rows: string[][], delimiter: string): string {
+        return rows
+            .map(row =>
+                row
+                    .map(field =>
+                        field.includes(delimiter) || /["\r\n]/.test(field)
+                            ? `"${field.replace(/"/g, '""')}"`
+                            : field
+                    )
+                    .join(delimiter)
+            )
+            .join('\r\n');
+    }
+
+    static formatHours(
+        minutes: number,
+        format: PayrollHoursFormat,
+        decimalSeparator: string
+    ): string {
+        switch (format) {
+            case 'MINUTES':
+                return minutes.toString();
+            case 'HH_MM':
+                return `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+            default:
+                return (minutes / 60).toFixed(2).replace('.', decimalSeparator);
+        }
+    }
+
+    static isIdentityField(field: PayrollExportField): field is PayrollIdentityField {
+        return (PAYROLL_IDENTITY_FIELDS as PayrollExportField[]).includes(field);
+    }
+
+    private static getHeader(column: PayrollExportColumn): string {
+        return column.header ?? DEFAULT_HEADERS[column.field];
+    }
+
+    private static getValue(
+        column: PayrollExportColumn,
+        totals: PayrollEmployeeTotals,
+        profile: PayrollExportProfileSnapshot,
+        period: { startDate: string; endDate: string }
+    ): string {
+        switch (column.field) {
+            case 'employeeCode':
+                return totals.employee.employeeCode;
+            case 'employeeName':
+                return `${totals.employee.firstName} ${totals.employee.lastName}`;
+            case 'firstName':
+                return totals.employee.firstName;
+            case 'lastName':
+                return totals.employee.lastName;
+            case 'branchId':
+                return totals.branchId;
+            case 'periodStart':
+                return period.startDate;
+            case 'periodEnd':
+                return period.endDate;
+            case 'constant':
+                return column.value || '';
+        }
+
+        const amount = this.getAmount(column, totals);
+
+        return HOUR_FIELDS.includes(column.field)
+            ? this.formatHours(amount, profile.hoursFormat, profile.decimalSeparator)
+            : amount.toString();
+    }
+
+    /**
+     * Get the total of a measure column; hours are in minutes
+     */
+    private static getAmount(column: PayrollExportColumn, totals: PayrollEmployeeTotals): number {
+        switch (column.field) {
+            case 'workedHours':
+                return totals.workedMinutes;
+            case 'regularHours':
+                return totals.regularMinutes;
+            case 'overtimeHours':
+                return totals.overtimeMinutes;
+            case 'nightHours':
+                return totals.nightMinutes;
+            case 'daysWorked':
+                return totals.daysWorked;
+            case 'absentDays':
+                return totals.absentDays;
+            case 'leaveDays':
+                return column.leaveTypeId
+                    ? totals.leaveDays.get(column.leaveTypeId) || 0
+                    : Array.from(totals.leaveDays.values()).reduce((sum, days) => sum + days, 0);
+            case 'lateMinutes':
+                return totals.lateMinutes;
+            case 'earlyLeaveMinutes':
+                return totals.earlyLeaveMinutes;
+            default:
+                return 0;
+        }
+    }
+}
@@ -0,0 +1,162 @@
+import { ShiftTemplate, ShiftUtil } from './shift.util';
+
+describe('ShiftUtil', () => {
+    const dayShift: ShiftTemplate = {
+        startTime: '09:00',
+        endTime: '18:00',
+        breakMinutes: 60,
+        gracePeriodMinutes: 10,
+        daysOfWeek: [1, 2, 3, 4, 5],
+    };
+
+    const nightShift: ShiftTemplate = {
+        startTime: '22:00',
+        endTime: '06:00',
+        breakMinutes: 30,
+        gracePeriodMinutes: 0,
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+
+    // Monday, 15 January 2024 (local time)
+    const monday = new Date(2024, 0, 15);
+    const saturday = new Date(2024, 0, 20);
+
+    describe('parseTime', () => {
+        it('should parse HH:mm strings', () => {
+            expect(ShiftUtil.parseTime('07:45')).toEqual({ hours: 7, minutes: 45 });
+        });
+
+        it('should reject invalid times', () => {
+            expect(() => ShiftUtil.parseTime('24:00')).toThrow('Invalid shift time: 24:00');
+            expect(() => ShiftUtil.parseTime('9:00')).toThrow();
+        });
+    });
+
+    describe('getShiftWindow', () => {
+        it('should return the window on the same day', () => {
+            const { start, end } = ShiftUtil.getShiftWindow(dayShift, monday);
+
+            expect(start).toEqual(new Date(2024, 0, 15, 9, 0));
+            expect(end).toEqual(new Date(2024, 0, 15, 18, 0));
+        });
+
+        it('should roll overnight shifts into the next day', () => {
+            const { start, end } = ShiftUtil.getShiftWindow(nightShift, monday);
+
+            expect(start).toEqual(new Date(2024, 0, 15, 22, 0));
+            expect(end).toEqual(new Date(2024, 0, 16, 6, 0));
+        });
+    });
+
+    describe('getScheduledMinutes', () => {
+        it('should exclude the break', () => {
+            expect(ShiftUtil.getScheduledMinutes(dayShift)).toBe(480);
+            expect(ShiftUtil.getScheduledMinutes(nightShift)).toBe(450);
+        });
+    });
+
+    describe('classifyDay', () => {
+        it('should classify a day outside the schedule as day off', () => {
+            const result = ShiftUtil.classifyDay(dayShift, saturday, new Date(2024, 0, 20, 9));
+
+            expect(result.status).toBe('day_off');
+        });
+
+        it('should classify a scheduled day without check-in as absent', () => {
+            const result = ShiftUtil.classifyDay(dayShift, monday, null, null);
+
+            expect(result.status).toBe('absent');
+            expect(result.expectedStart).toEqual(new Date(2024, 0, 15, 9, 0));
+        });
+
+        it('should treat arrivals within the grace period as on time', () => {
+            const result = ShiftUtil.classifyDay(
+                dayShift,
+                monday,
+                new Date(2024, 0, 15, 9, 10),
+                new Date(2024, 0, 15, 18, 0)
+            );
+
+            expect(result.status).toBe('on_time');
+            expect(result.lateMinutes).toBe(0);
+        });
+
+        it('should classify arrivals after the grace period as late', () => {
+            const result = ShiftUtil.classifyDay(
+                dayShift,
+                monday,
+                new Date(2024, 0, 15, 9, 11),
+                new Date(2024, 0, 15, 18, 0)
+            );
+
+            expect(result.status).toBe('late');
+            expect(result.lateMinutes).toBe(11);
+        });
+
+        it('should classify departures before the shift end as early leave', () => {
+            const result = ShiftUtil.classifyDay(
+                dayShift,
+                monday,
+                new Date(2024, 0, 15, 8, 55),
+                new Date(2024, 0, 15, 17, 0)
+            );
+
+            expect(result.status).toBe('early_leave');
+            expect(result.earlyLeaveMinutes).toBe(60);
+        });
+
+        it('should prefer late over early leave when both apply', () => {
+            const result = ShiftUtil.classifyDay(
+                dayShift,
+                monday,
+                new Date(2024, 0, 15, 10, 0),
+                new Date(2024, 0, 15, 16, 0)
+            );
+
+            expect(result.status).toBe('late');
+            expect(result.lateMinutes).toBe(60);
+            expect(result.earlyLeaveMinutes).toBe(120);
+        });
+
+        it('should compare overnight departures against the next-day end', () => {
+            const result = ShiftUtil.classifyDay(
+                nightShift,
+                monday,
+                new Date(2024, 0, 15, 22, 0),
+                new Date(2024, 0, 16, 6, 0)
+            );
+
+            expect(result.status).toBe('on_time');
+        });
+    });
+
+    describe('findAssignmentForDate', () => {
+        const assignments = [
+            {
+                id: 'employee',
+                effectiveFrom: new Date(2024, 0, 10),
+                effectiveTo: new Date(2024, 0, 12),
+                shift: nightShift,
+            },
+            {
+                id: 'branch',
+                effectiveFrom: new Date(2024, 0, 1),
+                effectiveTo: null,
+                shift: dayShift,
+            },
+        ];
+
+        it('should return the first assignment in effect', () => {
+            expect(ShiftUtil.findAssignmentForDate(assignments, new Date(2024, 0, 11))?.id).toBe(
+                'employee'
+            );
+            expect(ShiftUtil.findAssignmentForDate(assignments, monday)?.id).toBe('branch');
+        });
+
+        it('should return undefined before any assignment starts', () => {
+            expect(
+                ShiftUtil.findAssignmentForDate(assignments, new Date(2023, 11, 31))
+            ).toBeUndefined();
+        });
+    });
+});
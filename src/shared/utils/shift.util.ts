@@ -0,0 +1,155 @@
+import { TimezoneUtil } from './timezone.util';
+
+export type AttendanceDayStatus = 'on_time' | 'late' | 'early_leave' | 'absent' | 'day_off';
+
+export interface ShiftTemplate {
+    startTime: string;
+    endTime: string;
+    breakMinutes: number;
+    gracePeriodMinutes: number;
+    daysOfWeek: number[];
+    dayBoundary?: string | null;
+}
+
+export interface ShiftAssignmentWindow<T extends ShiftTemplate = ShiftTemplate> {
+    effectiveFrom: Date;
+    effectiveTo?: Date | null;
+    shift: T;
+}
+
+export interface ShiftDayClassification {
+    status: AttendanceDayStatus;
+    expectedStart?: Date;
+    expectedEnd?: Date;
+    lateMinutes: number;
+    earlyLeaveMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class ShiftUtil {
+    /**
+     * Parse an HH:mm string into hours and minutes
+     */
+    static parseTime(time: string): { hours: number; minutes: number } {
+        const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+        if (!match) {
+            throw new Error(`Invalid shift time: ${time}`);
+        }
+
+        return { hours: Number(match[1]), minutes: Number(match[2]) };
+    }
+
+    /**
+     * Check whether the shift is scheduled on the weekday of the given date
+     */
+    static isWorkingDay(shift: ShiftTemplate, date: Date, timeZone?: string): boolean {
+        return shift.daysOfWeek.includes(TimezoneUtil.getParts(date, timeZone).weekday);
+    }
+
+    /**
+     * Get the expected start and end of a shift for the day it starts on.
+     * An end time at or before the start time rolls over to the next day.
+     */
+    static getShiftWindow(
+        shift: ShiftTemplate,
+        date: Date,
+        timeZone?: string
+    ): { start: Date; end: Date } {
+        const startTime = this.parseTime(shift.startTime);
+        const endTime = this.parseTime(shift.endTime);
+        const { year, month, day } = TimezoneUtil.getParts(date, timeZone);
+
+        const start = TimezoneUtil.fromParts(
+            { year, month, day, hour: startTime.hours, minute: startTime.minutes },
+            timeZone
+        );
+        let end = TimezoneUtil.fromParts(
+            { year, month, day, hour: endTime.hours, minute: endTime.minutes },
+            timeZone
+        );
+
+        if (end <= start) {
+            end = TimezoneUtil.addDays(end, 1, timeZone);
+        }
+
+        return { start, end };
+    }
+
+    /**
+     * Get the scheduled working minutes of a shift, excluding the break
+     */
+    static getScheduledMinutes(shift: ShiftTemplate): number {
+        const { start, end } = this.getShiftWindow(shift, new Date(2000, 0, 3));
+        const minutes = (end.getTime() - start.getTime()) / MINUTE_MS;
+
+        return Math.max(0, minutes - shift.breakMinutes);
+    }
+
+    /**
+     * Classify a day against a shift given the first check-in and last check-out.
+     * Late arrival takes precedence over early leave when both apply.
+     */
+    static classifyDay(
+        shift: ShiftTemplate,
+        date: Date,
+        firstCheckIn?: Date | null,
+        lastCheckOut?: Date | null,
+        timeZone?: string
+    ): ShiftDayClassification {
+        if (!this.isWorkingDay(shift, date, timeZone)) {
+            return { status: 'day_off', lateMinutes: 0, earlyLeaveMinutes: 0 };
+        }
+
+        const { start, end } = this.getShiftWindow(shift, date, timeZone);
+        const result: ShiftDayClassification = {
+            status: 'on_time',
+            expectedStart: start,
+            expectedEnd: end,
+            lateMinutes: 0,
+            earlyLeaveMinutes: 0,
+        };
+
+        if (!firstCheckIn) {
+            return { ...result, status: 'absent' };
+        }
+
+        const graceMs = shift.gracePeriodMinutes * MINUTE_MS;
+
+        if (firstCheckIn.getTime() > start.getTime() + graceMs) {
+            result.lateMinutes = Math.round((firstCheckIn.getTime() - start.getTime()) / MINUTE_MS);
+        }
+
+        if (lastCheckOut && lastCheckOut.getTime() < end.getTime() - graceMs) {
+            result.earlyLeaveMinutes = Math.round(
+                (end.getTime() - lastCheckOut.getTime()) / MINUTE_MS
+            );
+        }
+
+        if (result.lateMinutes > 0) {
+            result.status = 'late';
+        } else if (result.earlyLeaveMinutes > 0) {
+            result.status = 'early_leave';
+        }
+
+        return result;
+    }
+
+    /**
+     * Pick the assignment in effect on the day starting at the given date.
+     * Assignments are expected in precedence order; the first match wins.
+     */
+    static findAssignmentForDate<T extends ShiftAssignmentWindow>(
+        assignments: T[],
+        date: Date,
+        timeZone?: string
+    ): T | undefined {
+        const dayEnd = TimezoneUtil.addDays(date, 1, timeZone);
+
+        return assignments.find(
+            assignment =>
+                assignment.effectiveFrom < dayEnd &&
+                (!assignment.effectiveTo || assignment.effectiveTo >= date)
+        );
+    }
+}
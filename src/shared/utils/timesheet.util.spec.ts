@@ -0,0 +1,128 @@
+import { TimesheetPolicy, TimesheetUtil } from './timesheet.util';
+
+describe('TimesheetUtil', () => {
+    const policy: TimesheetPolicy = {
+        breakMinutes: 60,
+        dailyOvertimeThresholdMinutes: 480,
+        nightStartTime: '22:00',
+        nightEndTime: '06:00',
+    };
+    const tz = 'Asia/Tashkent';
+
+    // Wall-clock time in Tashkent (UTC+5)
+    const at = (day: number, time: string) => new Date(`2024-01-${day}T${time}:00+05:00`);
+
+    describe('getSessions', () => {
+        it('should pair punches and ignore repeated check-ins and orphan check-outs', () => {
+            const sessions = TimesheetUtil.getSessions(
+                [at(15, '09:00'), at(15, '09:05'), at(15, '14:00')],
+                [at(15, '08:00'), at(15, '13:00'), at(15, '18:00')]
+            );
+
+            expect(sessions).toEqual([
+                { start: at(15, '09:00'), end: at(15, '13:00') },
+                { start: at(15, '14:00'), end: at(15, '18:00') },
+            ]);
+        });
+    });
+
+    describe('calculateDay', () => {
+        it('should deduct the unpaid break from a continuous session', () => {
+            const result = TimesheetUtil.calculateDay(
+                [at(15, '09:00')],
+                [at(15, '18:00')],
+                policy,
+                tz
+            );
+
+            expect(result).toEqual({
+                workedMinutes: 540,
+                breakMinutes: 60,
+                netMinutes: 480,
+                regularMinutes: 480,
+                overtimeMinutes: 0,
+                nightMinutes: 0,
+            });
+        });
+
+        it('should count time off the clock towards the break', () => {
+            const result = TimesheetUtil.calculateDay(
+                [at(15, '09:00'), at(15, '13:40')],
+                [at(15, '13:00'), at(15, '18:00')],
+                policy,
+                tz
+            );
+
+            expect(result.workedMinutes).toBe(500);
+            expect(result.breakMinutes).toBe(60);
+            expect(result.netMinutes).toBe(480);
+        });
+
+        it('should split time over the daily threshold into overtime', () => {
+            const result = TimesheetUtil.calculateDay(
+                [at(15, '08:00')],
+                [at(15, '19:30')],
+                policy,
+                tz
+            );
+
+            expect(result.netMinutes).toBe(630);
+            expect(result.regularMinutes).toBe(480);
+            expect(result.overtimeMinutes).toBe(150);
+        });
+
+        it('should count night hours of an overnight session', () => {
+            const result = TimesheetUtil.calculateDay(
+                [at(15, '20:00')],
+                [at(16, '04:00')],
+                { ...policy, breakMinutes: 0 },
+                tz
+            );
+
+            expect(result.netMinutes).toBe(480);
+            expect(result.nightMinutes).toBe(360);
+        });
+
+        it('should not count an open session', () => {
+            const result = TimesheetUtil.calculateDay([at(15, '09:00')], [], policy, tz);
+
+            expect(result.workedMinutes).toBe(0);
+            expect(result.netMinutes).toBe(0);
+            expect(result.breakMinutes).toBe(0);
+        });
+    });
+
+    describe('splitWeeklyOvertime', () => {
+        it('should move regular time over the weekly threshold into overtime', () => {
+            expect(TimesheetUtil.splitWeeklyOvertime([480, 480, 480], 1200)).toEqual([
+                { regularMinutes: 480, weeklyOvertimeMinutes: 0 },
+                { regularMinutes: 480, weeklyOvertimeMinutes: 0 },
+                { regularMinutes: 240, weeklyOvertimeMinutes: 240 },
+            ]);
+        });
+    });
+
+    describe('getWeekRange', () => {
+        it('should return the week containing the date', () => {
+            // 2024-01-17 is a Wednesday
+            expect(TimesheetUtil.getWeekRange('2024-01-17', 1)).toEqual({
+                startKey: '2024-01-15',
+                endKey: '2024-01-21',
+            });
+            expect(TimesheetUtil.getWeekRange('2024-01-17', 0)).toEqual({
+                startKey: '2024-01-14',
+                endKey: '2024-01-20',
+            });
+        });
+    });
+
+    describe('getDateKeys', () => {
+        it('should list the days across a month boundary', () => {
+            expect(TimesheetUtil.getDateKeys('2024-01-30', '2024-02-01')).toEqual([
+                '2024-01-30',
+                '2024-01-31',
+                '2024-02-01',
+            ]);
+        });
+    });
+});
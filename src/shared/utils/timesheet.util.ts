@@ -0,0 +1,213 @@
+import { ShiftUtil } from './shift.util';
+import { TimezoneUtil } from './timezone.util';
+
+export interface TimesheetPolicy {
+    /** Unpaid break the shift grants; time already spent off the clock counts towards it */
+    breakMinutes: number;
+    dailyOvertimeThresholdMinutes: number;
+    nightStartTime: string;
+    nightEndTime: string;
+}
+
+export interface WorkSession {
+    start: Date;
+    end: Date;
+}
+
+export interface DailyTimeCalculation {
+    workedMinutes: number;
+    breakMinutes: number;
+    netMinutes: number;
+    regularMinutes: number;
+    overtimeMinutes: number;
+    nightMinutes: number;
+}
+
+export interface WeeklyOvertimeSplit {
+    regularMinutes: number;
+    weeklyOvertimeMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class TimesheetUtil {
+    /**
+     * Pair punches into work sessions in time order. A check-in while a session is open
+     * and a check-out without an open session are ignored.
+     */
+    static getSessions(checkIns: Date[], checkOuts: Date[]): WorkSession[] {
+        const punches = [
+            ...checkIns.map(timestamp => ({ timestamp, isCheckIn: true })),
+            ...checkOuts.map(timestamp => ({ timestamp, isCheckIn: false })),
+        ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+        const sessions: WorkSession[] = [];
+        let openedAt: Date | undefined;
+
+        punches.forEach(punch => {
+            if (punch.isCheckIn) {
+                openedAt = openedAt || punch.timestamp;
+            } else if (openedAt) {
+                sessions.push({ start: openedAt, end: punch.timestamp });
+                openedAt = undefined;
+            }
+        });
+
+        return sessions;
+    }
+
+    /**
+     * Turn a day's punches into net worked time. The unpaid break is deducted only for the part
+     * not already taken between sessions, and never exceeds the time worked.
+     */
+    static calculateDay(
+        checkIns: Date[],
+        checkOuts: Date[],
+        policy: TimesheetPolicy,
+        timeZone?: string
+    ): DailyTimeCalculation {
+        const sessions = this.getSessions(checkIns, checkOuts);
+
+        const workedMs = sessions.reduce(
+            (sum, session) => sum + session.end.getTime() - session.start.getTime(),
+            0
+        );
+        const gapMs = sessions
+            .slice(1)
+            .reduce(
+                (sum, session, i) => sum + session.start.getTime() - sessions[i].end.getTime(),
+                0
+            );
+
+        const workedMinutes = Math.round(workedMs / MINUTE_MS);
+        const gapMinutes = Math.round(gapMs / MINUTE_MS);
+        const deduction = Math.min(workedMinutes, Math.max(0, policy.breakMinutes - gapMinutes));
+        const netMinutes = workedMinutes - deduction;
+        const overtimeMinutes = Math.max(0, netMinutes - policy.dailyOvertimeThresholdMinutes);
+
+        const nightMs = sessions.reduce(
+            (sum, session) => sum + this.getNightOverlapMs(session, policy, timeZone),
+            0
+        );
+
+        return {
+            workedMinutes,
+            breakMinutes: gapMinutes + deduction,
+            netMinutes,
+            regularMinutes: netMinutes - overtimeMinutes,
+            overtimeMinutes,
+            nightMinutes: Math.min(netMinutes, Math.round(nightMs / MINUTE_MS)),
+        };
+    }
+
+    /**
+     * Move regular time beyond the weekly threshold into overtime, in day order.
+     * Daily overtime is not counted towards the weekly threshold.
+     */
+    static splitWeeklyOvertime(
+        regularMinutesPerDay: number[],
+        weeklyThresholdMinutes: number
+    ): WeeklyOvertimeSplit[] {
+        let remaining = weeklyThresholdMinutes;
+
+        return regularMinutesPerDay.map(minutes => {
+            const regularMinutes = Math.min(minutes, Math.max(0, remaining));
+            remaining -= minutes;
+
+            return { regularMinutes, weeklyOvertimeMinutes: minutes - regularMinutes };
+        });
+    }
+
+    /**
+     * Get the first and last date keys of the week containing the date key
+     */
+    static getWeekRange(
+        dateKey: string,
+        weekStartDay: number
+    ): { startKey: string; endKey: string } {
+        const weekday = this.keyToUtcDate(dateKey).getUTCDay();
+        const startKey = this.addDaysToKey(dateKey, -((weekday - weekStartDay + 7) % 7));
+
+        return { startKey, endKey: this.addDaysToKey(startKey, 6) };
+    }
+
+    /**
+     * List the date keys from the first to the last, inclusive
+     */
+    static getDateKeys(startKey: string, endKey: string): string[] {
+        const keys: string[] = [];
+        for (let key = startKey; key <= endKey; key = this.addDaysToKey(key, 1)) {
+            keys.push(key);
+        }
+
+        return keys;
+    }
+
+    static addDaysToKey(dateKey: string, days: number): string {
+        const date = this.keyToUtcDate(dateKey);
+        date.setUTCDate(date.getUTCDate() + days);
+
+        return date.toISOString().slice(0, 10);
+    }
+
+    /**
+     * Sum the part of a session inside the night window of each calendar day it touches
+     */
+    private static getNightOverlapMs(
+        session: WorkSession,
+        policy: TimesheetPolicy,
+        timeZone?: string
+    ): number {
+        const nightStart = ShiftUtil.parseTime(policy.nightStartTime);
+        const nightEnd = ShiftUtil.parseTime(policy.nightEndTime);
+        const wrapsMidnight =
+            nightEnd.hours * 60 + nightEnd.minutes <= nightStart.hours * 60 + nightStart.minutes;
+
+        let overlapMs = 0;
+        // A window starting the evening before can still cover the start of the session
+        let day = TimezoneUtil.addDays(
+            TimezoneUtil.startOfDay(session.start, timeZone),
+            -1,
+            timeZone
+        );
+
+        while (day < session.end) {
+            const { year, month, day: dayOfMonth } = TimezoneUtil.getParts(day, timeZone);
+            const windowStart = TimezoneUtil.fromParts(
+                {
+                    year,
+                    month,
+                    day: dayOfMonth,
+                    hour: nightStart.hours,
+                    minute: nightStart.minutes,
+                },
+                timeZone
+            );
+            const windowEnd = TimezoneUtil.fromParts(
+                {
+                    year,
+                    month,
+                    day: wrapsMidnight ? dayOfMonth + 1 : dayOfMonth,
+                    hour: nightEnd.hours,
+                    minute: nightEnd.minutes,
+                },
+                timeZone
+            );
+
+            const start = Math.max(session.start.getTime(), windowStart.getTime());
+            const end = Math.min(session.end.getTime(), windowEnd.getTime());
+            if (end > start) {
+                overlapMs += end - start;
+            }
+
+            day = TimezoneUtil.addDays(day, 1, timeZone);
+        }
+
+        return overlapMs;
+    }
+
+    private static keyToUtcDate(dateKey: string): Date {
+        const [year, month, day] = dateKey.split('-').map(Number);
+        return new Date(Date.UTC(year, month - 1, day));
+    }
+}
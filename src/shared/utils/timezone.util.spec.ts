@@ -0,0 +1,98 @@
+import { TimezoneUtil } from './timezone.util';
+
+describe('TimezoneUtil', () => {
+    describe('isValidTimeZone', () => {
+        it('should accept IANA zones and reject unknown names', () => {
+            expect(TimezoneUtil.isValidTimeZone('Asia/Tashkent')).toBe(true);
+            expect(TimezoneUtil.isValidTimeZone('Mars/Olympus')).toBe(false);
+        });
+    });
+
+    describe('getParts', () => {
+        it('should return the wall-clock time in the zone', () => {
+            const parts = TimezoneUtil.getParts(new Date('2024-01-15T21:30:00Z'), 'Asia/Tashkent');
+
+            expect(parts).toMatchObject({ year: 2024, month: 1, day: 16, hour: 2, minute: 30 });
+            expect(parts.weekday).toBe(2);
+        });
+    });
+
+    describe('fromParts', () => {
+        it('should convert a wall-clock time in the zone to an instant', () => {
+            expect(
+                TimezoneUtil.fromParts({ year: 2024, month: 1, day: 16, hour: 9 }, 'Asia/Tashkent')
+            ).toEqual(new Date('2024-01-16T04:00:00Z'));
+        });
+
+        it('should apply the offset in effect after a DST change', () => {
+            expect(
+                TimezoneUtil.fromParts(
+                    { year: 2024, month: 3, day: 10, hour: 12 },
+                    'America/New_York'
+                )
+            ).toEqual(new Date('2024-03-10T16:00:00Z'));
+        });
+    });
+
+    describe('startOfDay / addDays', () => {
+        it('should work in calendar days of the zone across DST changes', () => {
+            const start = TimezoneUtil.startOfDay(
+                new Date('2024-03-10T12:00:00Z'),
+                'America/New_York'
+            );
+
+            expect(start).toEqual(new Date('2024-03-10T05:00:00Z'));
+            expect(TimezoneUtil.addDays(start, 1, 'America/New_York')).toEqual(
+                new Date('2024-03-11T04:00:00Z')
+            );
+        });
+    });
+
+    describe('date keys', () => {
+        it('should format and parse calendar dates in the zone', () => {
+            expect(TimezoneUtil.toDateKey(new Date('2024-01-15T20:00:00Z'), 'Asia/Tashkent')).toBe(
+                '2024-01-16'
+            );
+            expect(TimezoneUtil.fromDateKey('2024-01-16', 'Asia/Tashkent')).toEqual(
+                new Date('2024-01-15T19:00:00Z')
+            );
+        });
+    });
+
+    describe('formatIso', () => {
+        it('should include the zone offset', () => {
+            expect(
+                TimezoneUtil.formatIso(new Date('2024-01-15T04:05:06.007Z'), 'Asia/Tashkent')
+            ).toBe('2024-01-15T09:05:06.007+05:00');
+            expect(
+                TimezoneUtil.formatIso(new Date('2024-01-15T04:00:00Z'), 'America/New_York')
+            ).toBe('2024-01-14T23:00:00.000-05:00');
+        });
+
+        it('should keep UTC without a time zone', () => {
+            expect(TimezoneUtil.formatIso(new Date('2024-01-15T04:00:00Z'))).toBe(
+                '2024-01-15T04:00:00.000Z'
+            );
+        });
+    });
+
+    describe('parseDateTime', () => {
+        it('should read values without an offset in the zone', () => {
+            expect(TimezoneUtil.parseDateTime('2024-01-15T09:00', 'Asia/Tashkent')).toEqual(
+                new Date('2024-01-15T04:00:00Z')
+            );
+            expect(TimezoneUtil.parseDateTime('2024-01-15', 'Asia/Tashkent')).toEqual(
+                new Date('2024-01-14T19:00:00Z')
+            );
+        });
+
+        it('should respect an explicit offset', () => {
+            expect(
+                TimezoneUtil.parseDateTime('2024-01-15T09:00:00+01:00', 'Asia/Tashkent')
+            ).toEqual(new Date('2024-01-15T08:00:00Z'));
+            expect(TimezoneUtil.parseDateTime('2024-01-15T09:00:00Z', 'Asia/Tashkent')).toEqual(
+                new Date('2024-01-15T09:00:00Z')
+            );
+        });
+    });
+});
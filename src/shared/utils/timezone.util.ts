@@ -0,0 +1,206 @@
+export interface ZonedDateParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+    weekday: number; // 0-6, Sunday = 0
+}
+
+export type WallClockTime = Pick<ZonedDateParts, 'year' | 'month' | 'day'> &
+    Partial<Pick<ZonedDateParts, 'hour' | 'minute' | 'second' | 'millisecond'>>;
+
+const MINUTE_MS = 60 * 1000;
+const LOCAL_DATE_TIME =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Date helpers for IANA time zones built on Intl.
+ * Every method falls back to the server's local time when no time zone is given.
+ */
+export class TimezoneUtil {
+    static isValidTimeZone(timeZone: string): boolean {
+        try {
+            this.getFormatter(timeZone);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Get the wall-clock components of an instant in the time zone
+     */
+    static getParts(date: Date, timeZone?: string): ZonedDateParts {
+        if (!timeZone) {
+            return {
+                year: date.getFullYear(),
+                month: date.getMonth() + 1,
+                day: date.getDate(),
+                hour: date.getHours(),
+                minute: date.getMinutes(),
+                second: date.getSeconds(),
+                millisecond: date.getMilliseconds(),
+                weekday: date.getDay(),
+            };
+        }
+
+        const parts = this.getFormatter(timeZone).formatToParts(date);
+        const get = (type: Intl.DateTimeFormatPartTypes) =>
+            Number(parts.find(part => part.type === type)!.value);
+
+        const year = get('year');
+        const month = get('month');
+        const day = get('day');
+
+        return {
+            year,
+            month,
+            day,
+            hour: get('hour') % 24,
+            minute: get('minute'),
+            second: get('second'),
+            millisecond: date.getUTCMilliseconds(),
+            weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+        };
+    }
+
+    /**
+     * Get the offset of the time zone from UTC at the given instant, in minutes
+     */
+    static getOffsetMinutes(date: Date, timeZone?: string): number {
+        if (!timeZone) {
+            return -date.getTimezoneOffset();
+        }
+
+        const parts = this.getParts(date, timeZone);
+        const wallClockAsUtc = Date.UTC(
+            parts.year,
+            parts.month - 1,
+            parts.day,
+            parts.hour,
+            parts.minute,
+            parts.second,
+            parts.millisecond
+        );
+
+        return Math.round((wallClockAsUtc - date.getTime()) / MINUTE_MS);
+    }
+
+    /**
+     * Get the instant a wall-clock time occurs in the time zone.
+     * Out-of-range components roll over like the Date constructor (e.g. day 32).
+     */
+    static fromParts(time: WallClockTime, timeZone?: string): Date {
+        const { year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0 } = time;
+
+        if (!timeZone) {
+            return new Date(year, month - 1, day, hour, minute, second, millisecond);
+        }
+
+        const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+        const offset = this.getOffsetMinutes(new Date(wallClockAsUtc), timeZone);
+        const result = wallClockAsUtc - offset * MINUTE_MS;
+
+        // The offset may differ on the other side of a DST transition
+        const actualOffset = this.getOffsetMinutes(new Date(result), timeZone);
+
+        return new Date(wallClockAsUtc - actualOffset * MINUTE_MS);
+    }
+
+    static startOfDay(date: Date, timeZone?: string): Date {
+        const { year, month, day } = this.getParts(date, timeZone);
+        return this.fromParts({ year, month, day }, timeZone);
+    }
+
+    /**
+     * Move a date by whole calendar days, keeping its wall-clock time in the zone
+     */
+    static addDays(date: Date, days: number, timeZone?: string): Date {
+        const parts = this.getParts(date, timeZone);
+        return this.fromParts({ ...parts, day: parts.day + days }, timeZone);
+    }
+
+    static toDateKey(date: Date, timeZone?: string): string {
+        const { year, month, day } = this.getParts(date, timeZone);
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    /**
+     * Get the start of the calendar day identified by a YYYY-MM-DD key
+     */
+    static fromDateKey(dateKey: string, timeZone?: string): Date {
+        const [year, month, day] = dateKey.split('-').map(Number);
+        return this.fromParts({ year, month, day }, timeZone);
+    }
+
+    /**
+     * Format an instant as ISO 8601 with the zone's offset, e.g. 2024-01-15T09:00:00.000+05:00.
+     * Without a time zone the UTC representation is kept.
+     */
+    static formatIso(date: Date, timeZone?: string): string {
+        if (!timeZone) {
+            return date.toISOString();
+        }
+
+        const parts = this.getParts(date, timeZone);
+        const offset = this.getOffsetMinutes(date, timeZone);
+        const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+        const sign = offset < 0 ? '-' : '+';
+
+        return (
+            `${this.toDateKey(date, timeZone)}T${pad(parts.hour)}:${pad(parts.minute)}:` +
+            `${pad(parts.second)}.${pad(parts.millisecond, 3)}` +
+            `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+        );
+    }
+
+    /**
+     * Parse a date-time string; values without an explicit offset are wall-clock times in the zone
+     */
+    static parseDateTime(value: string, timeZone?: string): Date {
+        // Anything but a plain date or date-time (e.g. with Z or +05:00) carries its own offset
+        const match = LOCAL_DATE_TIME.exec(value);
+        if (!timeZone || !match) {
+            return new Date(value);
+        }
+
+        const [, year, month, day, hour, minute, second, fraction] = match;
+
+        return this.fromParts(
+            {
+                year: Number(year),
+                month: Number(month),
+                day: Number(day),
+                hour: Number(hour || 0),
+                minute: Number(minute || 0),
+                second: Number(second || 0),
+                millisecond: Number((fraction || '0').padEnd(3, '0')),
+            },
+            timeZone
+        );
+    }
+
+    private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+        let formatter = formatters.get(timeZone);
+        if (!formatter) {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit',
+            });
+            formatters.set(timeZone, formatter);
+        }
+
+        return formatter;
+    }
+}
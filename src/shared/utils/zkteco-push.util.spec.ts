@@ -0,0 +1,156 @@
+import { ZktecoPushUtil } from './zkteco-push.util';
+
+describe('ZktecoPushUtil', () => {
+    describe('parseAttendanceLog', () => {
+        it('should parse one punch per line', () => {
+            const records = ZktecoPushUtil.parseAttendanceLog(
+                '1001\t2026-10-19 08:59:12\t0\t15\t\t0\t0\r\n1002\t2026-10-19 09:01:40\t1\t1\t7\n'
+            );
+
+            expect(records).toEqual([
+                {
+                    pin: '1001',
+                    time: '2026-10-19 08:59:12',
+                    status: 0,
+                    verifyMode: 15,
+                    workCode: '',
+                },
+                {
+                    pin: '1002',
+                    time: '2026-10-19 09:01:40',
+                    status: 1,
+                    verifyMode: 1,
+                    workCode: '7',
+                },
+            ]);
+        });
+
+        it('should skip blank and incomplete lines', () => {
+            expect(ZktecoPushUtil.parseAttendanceLog('\n1001\n\t2026-10-19 08:59:12\n')).toEqual(
+                []
+            );
+        });
+    });
+
+    describe('parseOperationLog', () => {
+        it('should parse operations and enrollment changes without secrets', () => {
+            const records = ZktecoPushUtil.parseOperationLog(
+                'OPLOG 4\t0\t2026-10-19 08:00:00\t0\t0\t0\t0\n' +
+                    'USER PIN=1001\tName=Aziz Karimov\tPri=0\tPasswd=1234\tCard=123\n' +
+                    'FP PIN=1001\tFID=6\tSize=1184\tValid=1\tTMP=ocosgoulTUEdNKVRwRQ0I27BDTEkdMEA'
+            );
+
+            expect(records).toEqual([
+                {
+                    type: 'OPLOG',
+                    values: {
+                        operation: '4',
+                        adminPin: '0',
+                        time: '2026-10-19 08:00:00',
+                        object1: '0',
+                        object2: '0',
+                        object3: '0',
+                        object4: '0',
+                    },
+                },
+                {
+                    type: 'USER',
+                    values: { PIN: '1001', Name: 'Aziz Karimov', Pri: '0', Card: '123' },
+                },
+                { type: 'FP', values: { PIN: '1001', FID: '6', Size: '1184', Valid: '1' } },
+            ]);
+        });
+    });
+
+    describe('parseCommandResults', () => {
+        it('should parse one result per line', () => {
+            expect(
+                ZktecoPushUtil.parseCommandResults(
+                    'ID=c1&Return=0&CMD=DATA\nID=c2&Return=-1002&CMD=REBOOT\nnot a result'
+                )
+            ).toEqual([
+                { id: 'c1', returnCode: 0, command: 'DATA' },
+                { id: 'c2', returnCode: -1002, command: 'REBOOT' },
+            ]);
+        });
+    });
+
+    describe('parseDeviceInfo', () => {
+        it('should read the firmware version and IP address', () => {
+            expect(
+                ZktecoPushUtil.parseDeviceInfo('Ver 8.0.4.2-20230315,12,10,1520,192.168.1.201,10')
+            ).toEqual({ firmwareVersion: 'Ver 8.0.4.2-20230315', ipAddress: '192.168.1.201' });
+            expect(ZktecoPushUtil.parseDeviceInfo(undefined)).toEqual({
+                firmwareVersion: undefined,
+                ipAddress: undefined,
+            });
+        });
+    });
+
+    describe('formatting', () => {
+        it('should prefix each command with its id', () => {
+            expect(
+                ZktecoPushUtil.formatCommands([
+                    { id: 'c1', command: 'REBOOT' },
+                    { id: 'c2', command: 'CLEAR LOG' },
+                ])
+            ).toBe('C:c1:REBOOT\nC:c2:CLEAR LOG');
+        });
+
+        it('should not let user values start a new field or command', () => {
+            const command = ZktecoPushUtil.formatUserInfoUpdate({
+                pin: '1001',
+                name: 'Aziz\tKarimov\nC:1:REBOOT',
+                cardNo: '123',
+            });
+
+            expect(command).toBe(
+                'DATA UPDATE USERINFO PIN=1001\tName=Aziz Karimov C:1:REBOOT\tPri=0\tPasswd=\tCard=123\tGrp=1\tTZ=0000000100000000'
+            );
+            expect(command.split('\n')).toHaveLength(1);
+        });
+
+        it('should format the device options', () => {
+            const options = ZktecoPushUtil.formatOptions('CKJG201960001', {
+                attendanceStamp: '9999',
+                timeZoneOffsetHours: 5,
+                pollIntervalSeconds: 10,
+            });
+
+            expect(options.split('\n')).toEqual(
+                expect.arrayContaining([
+                    'GET OPTION FROM: CKJG201960001',
+                    'ATTLOGStamp=9999',
+                    'OPERLOGStamp=None',
+                    'Delay=10',
+                    'TimeZone=5',
+                ])
+            );
+        });
+    });
+
+    describe('address allow-list', () => {
+        const allowed = ['192.168.1.0/24', '10.0.0.5', 'fd00::/64'];
+
+        it('should accept addresses in an allowed range or equal to an allowed address', () => {
+            expect(ZktecoPushUtil.isAddressAllowed('192.168.1.201', allowed)).toBe(true);
+            expect(ZktecoPushUtil.isAddressAllowed('10.0.0.5', allowed)).toBe(true);
+            expect(ZktecoPushUtil.isAddressAllowed('fd00::12', allowed)).toBe(true);
+            expect(ZktecoPushUtil.isAddressAllowed('::ffff:192.168.1.201', allowed)).toBe(true);
+        });
+
+        it('should refuse other addresses, missing addresses and empty lists', () => {
+            expect(ZktecoPushUtil.isAddressAllowed('192.168.2.1', allowed)).toBe(false);
+            expect(ZktecoPushUtil.isAddressAllowed('10.0.0.6', allowed)).toBe(false);
+            expect(ZktecoPushUtil.isAddressAllowed(undefined, allowed)).toBe(false);
+            expect(ZktecoPushUtil.isAddressAllowed('192.168.1.201', [])).toBe(false);
+        });
+
+        it('should tell addresses and ranges from anything else', () => {
+            expect(ZktecoPushUtil.isAddressRange('192.168.1.0/24')).toBe(true);
+            expect(ZktecoPushUtil.isAddressRange('fd00::1')).toBe(true);
+            expect(ZktecoPushUtil.isAddressRange('192.168.1.0/33')).toBe(false);
+            expect(ZktecoPushUtil.isAddressRange('device.local')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,231 @@
+import { BlockList, isIP } from 'net';
+
+export interface ZktecoAttendanceRecord {
+    pin: string;
+    time: string; // Device-local wall-clock time, YYYY-MM-DD HH:mm:ss
+    status: number; // Punch state chosen on the device: 0 check-in, 1 check-out, ...
+    verifyMode: number; // 0 password, 1 fingerprint, 2/4 card, 15 face, ...
+    workCode: string;
+}
+
+export interface ZktecoOperationRecord {
+    type: string; // OPLOG, USER, FP, FACE, BIOPHOTO, ...
+    values: Record<string, string>;
+}
+
+export interface ZktecoCommandResult {
+    id: string;
+    returnCode: number;
+    command: string;
+}
+
+export interface ZktecoUserInfo {
+    pin: string;
+    name?: string;
+    cardNo?: string;
+    privilege?: number; // 0 user, 14 administrator
+}
+
+/** Fields of an OPLOG line, which unlike the other operation records is not key=value */
+const OPLOG_FIELDS = ['operation', 'adminPin', 'time', 'object1', 'object2', 'object3', 'object4'];
+
+/** Values of these fields are secrets or biometric templates and never leave the parser */
+const SENSITIVE_FIELDS = ['Passwd', 'TMP', 'Tmp', 'Content'];
+
+/**
+ * Parsing and formatting for the ZKTeco push (ADMS/iclock) protocol. Uploads are lines of
+ * tab separated fields; commands are lines of the form "C:<id>:<command>".
+ */
+export class ZktecoPushUtil {
+    /**
+     * Parse an ATTLOG upload, one punch per line: PIN, time, status, verify mode, work code
+     */
+    static parseAttendanceLog(body: string): ZktecoAttendanceRecord[] {
+        return this.splitLines(body)
+            .map(line => line.split('\t'))
+            .filter(fields => fields.length >= 2 && fields[0].trim() && fields[1].trim())
+            .map(([pin, time, status, verifyMode, workCode]) => ({
+                pin: pin.trim(),
+                time: time.trim(),
+                status: Number(status || 0),
+                verifyMode: Number(verifyMode || 0),
+                workCode: (workCode || '').trim(),
+            }));
+    }
+
+    /**
+     * Parse an OPERLOG upload: device operations (OPLOG) and enrollment changes (USER, FP, ...).
+     * Passwords and biometric templates are dropped.
+     */
+    static parseOperationLog(body: string): ZktecoOperationRecord[] {
+        return this.splitLines(body).map(line => {
+            const separator = line.indexOf(' ');
+            const type = separator === -1 ? line : line.substring(0, separator);
+            const rest = separator === -1 ? '' : line.substring(separator + 1);
+
+            if (type === 'OPLOG') {
+                const fields = rest.split('\t');
+                return {
+                    type,
+                    values: Object.fromEntries(
+                        OPLOG_FIELDS.map((field, index) => [field, (fields[index] || '').trim()])
+                    ),
+                };
+            }
+
+            return { type, values: this.parseKeyValues(rest) };
+        });
+    }
+
+    /**
+     * Parse the results a device posts to /iclock/devicecmd, one "ID=..&Return=..&CMD=.." per line
+     */
+    static parseCommandResults(body: string): ZktecoCommandResult[] {
+        return this.splitLines(body)
+            .map(line => new URLSearchParams(line))
+            .filter(params => params.has('ID'))
+            .map(params => ({
+                id: params.get('ID'),
+                returnCode: Number(params.get('Return') ?? -1),
+                command: params.get('CMD') || '',
+            }));
+    }
+
+    /**
+     * Parse the INFO parameter of /iclock/getrequest: firmware, users, fingerprints, punches,
+     * IP address, ...
+     */
+    static parseDeviceInfo(info: string): { firmwareVersion?: string; ipAddress?: string } {
+        const fields = (info || '').split(',');
+
+        return {
+            firmwareVersion: fields[0]?.trim() || undefined,
+            ipAddress: /^\d{1,3}(\.\d{1,3}){3}$/.test(fields[4]?.trim() || '')
+                ? fields[4].trim()
+                : undefined,
+        };
+    }
+
+    /**
+     * Whether an entry of the addresses a device may push from is an IP address or CIDR range
+     */
+    static isAddressRange(entry: string): boolean {
+        return !!this.parseAddressRange(entry);
+    }
+
+    /**
+     * Whether the address a request came from is one of the allowed addresses or ranges
+     */
+    static isAddressAllowed(address: string, allowed: string[]): boolean {
+        // IPv4 clients of a dual-stack server show up as IPv4-mapped IPv6 addresses
+        const client = /^::ffff:/i.test(address || '') ? address.substring(7) : address || '';
+        const family = isIP(client);
+        if (!family) {
+            return false;
+        }
+
+        const blockList = new BlockList();
+        for (const range of (allowed || []).map(entry => this.parseAddressRange(entry))) {
+            if (range) {
+                blockList.addSubnet(range.address, range.prefix, range.type);
+            }
+        }
+
+        return blockList.check(client, family === 6 ? 'ipv6' : 'ipv4');
+    }
+
+    static formatCommands(commands: Array<{ id: string; command: string }>): string {
+        return commands.map(({ id, command }) => `C:${id}:${command}`).join('\n');
+    }
+
+    static formatUserInfoUpdate(user: ZktecoUserInfo): string {
+        const fields = [
+            `PIN=${this.sanitize(user.pin)}`,
+            `Name=${this.sanitize(user.name || '')}`,
+            `Pri=${user.privilege ?? 0}`,
+            'Passwd=',
+            `Card=${this.sanitize(user.cardNo || '')}`,
+            'Grp=1',
+            'TZ=0000000100000000',
+        ];
+
+        return `DATA UPDATE USERINFO ${fields.join('\t')}`;
+    }
+
+    static formatUserInfoDelete(pin: string): string {
+        return `DATA DELETE USERINFO PIN=${this.sanitize(pin)}`;
+    }
+
+    /**
+     * Options sent in reply to the first /iclock/cdata request of a device
+     */
+    static formatOptions(
+        serialNumber: string,
+        options: {
+            attendanceStamp?: string;
+            operationStamp?: string;
+            timeZoneOffsetHours: number;
+            pollIntervalSeconds: number;
+        }
+    ): string {
+        return [
+            `GET OPTION FROM: ${serialNumber}`,
+            `ATTLOGStamp=${options.attendanceStamp || 'None'}`,
+            `OPERLOGStamp=${options.operationStamp || 'None'}`,
+            'ATTPHOTOStamp=None',
+            'ErrorDelay=30',
+            `Delay=${options.pollIntervalSeconds}`,
+            'TransTimes=00:00;14:05',
+            'TransInterval=1',
+            'TransFlag=TransData AttLog OpLog EnrollUser ChgUser',
+            `TimeZone=${options.timeZoneOffsetHours}`,
+            'Realtime=1',
+            'Encrypt=None',
+        ].join('\n');
+    }
+
+    private static parseKeyValues(value: string): Record<string, string> {
+        return Object.fromEntries(
+            value
+                .split('\t')
+                .map(pair => {
+                    const separator = pair.indexOf('=');
+                    return separator === -1
+                        ? [pair.trim(), '']
+                        : [pair.substring(0, separator).trim(), pair.substring(separator + 1)];
+                })
+                .filter(([key]) => key && !SENSITIVE_FIELDS.includes(key))
+        );
+    }
+
+    private static parseAddressRange(
+        entry: string
+    ): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+        const [address, prefix, ...rest] = (entry || '').trim().split('/');
+        const family = isIP(address);
+        const bits = family === 6 ? 128 : 32;
+        const length = prefix === undefined ? bits : Number(prefix);
+        if (!family || rest.length || prefix === '' || !Number.isInteger(length)) {
+            return null;
+        }
+        if (length < 0 || length > bits) {
+            return null;
+        }
+
+        return { address, prefix: length, type: family === 6 ? 'ipv6' : 'ipv4' };
+    }
+
+    private static splitLines(body: string): string[] {
+        return (body || '')
+            .split(/\r?\n/)
+            .map(line => line.replace(/\r$/, ''))
+            .filter(line => line.trim());
+    }
+
+    /**
+     * Tabs and line breaks would start a new field or command
+     */
+    private static sanitize(value: string): string {
+        return value.replace(/[\t\r\n]/g, ' ');
+    }
+}